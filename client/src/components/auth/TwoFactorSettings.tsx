@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Copy, LoaderCircle, ShieldCheck, ShieldOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import {
+  TwoFactorEnrollment,
+  useDisableTwoFactor,
+  useEnableTwoFactor,
+  useRegenerateRecoveryCodes,
+  useStartTwoFactorSetup,
+  useStepUpVerification,
+  useTwoFactorStatus,
+} from '@/hooks/useTwoFactor';
+import { useToast } from '@/hooks/use-toast';
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Strip the "<status>: " prefix apiRequest adds and read the server message
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, '');
+  try {
+    return JSON.parse(body).message || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+export default function TwoFactorSettings() {
+  const { toast } = useToast();
+  const { data: status, isLoading } = useTwoFactorStatus();
+  const setupMutation = useStartTwoFactorSetup();
+  const enableMutation = useEnableTwoFactor();
+  const disableMutation = useDisableTwoFactor();
+  const regenerateMutation = useRegenerateRecoveryCodes();
+  const stepUpMutation = useStepUpVerification();
+
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [showDisable, setShowDisable] = useState(false);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({ title: 'Error', description: getErrorMessage(error, fallback), variant: 'destructive' });
+  };
+
+  const handleStartSetup = async () => {
+    try {
+      setEnrollment(await setupMutation.mutateAsync());
+      setCode('');
+    } catch (error) {
+      showError(error, 'Failed to start two-factor setup');
+    }
+  };
+
+  const handleEnable = async () => {
+    try {
+      const result = await enableMutation.mutateAsync(code);
+      setRecoveryCodes(result.recoveryCodes);
+      setEnrollment(null);
+      setCode('');
+      toast({ title: 'Two-factor authentication enabled', description: 'Save your recovery codes somewhere safe.' });
+    } catch (error) {
+      showError(error, 'Invalid verification code');
+      setCode('');
+    }
+  };
+
+  const handleDisable = async () => {
+    try {
+      await disableMutation.mutateAsync({ password, code });
+      setShowDisable(false);
+      setPassword('');
+      setCode('');
+      setRecoveryCodes(null);
+      toast({ title: 'Two-factor authentication disabled' });
+    } catch (error) {
+      showError(error, 'Failed to disable two-factor authentication');
+      setCode('');
+    }
+  };
+
+  const handleRegenerate = async () => {
+    try {
+      const result = await regenerateMutation.mutateAsync(code);
+      setRecoveryCodes(result.recoveryCodes);
+      setCode('');
+    } catch (error) {
+      showError(error, 'Invalid verification code');
+      setCode('');
+    }
+  };
+
+  const handleStepUp = async () => {
+    try {
+      const result = await stepUpMutation.mutateAsync(code);
+      setCode('');
+      toast({
+        title: 'Identity confirmed',
+        description: `Sensitive commands are allowed until ${format(new Date(result.stepUpExpiresAt), 'HH:mm')}.`,
+      });
+    } catch (error) {
+      showError(error, 'Invalid verification code');
+      setCode('');
+    }
+  };
+
+  const copyRecoveryCodes = () => {
+    if (recoveryCodes) {
+      navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast({ title: 'Copied', description: 'Recovery codes copied to clipboard.' });
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app when you sign in and before sensitive device commands
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <LoaderCircle className="h-4 w-4 animate-spin" />}
+
+        {recoveryCodes && (
+          <div className="border rounded-md p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-base">Recovery Codes</Label>
+              <Button size="sm" variant="outline" onClick={copyRecoveryCodes}>
+                <Copy className="h-4 w-4 mr-1" />
+                Copy
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Each code can be used once if you lose access to your authenticator app. They will not be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button size="sm" variant="ghost" onClick={() => setRecoveryCodes(null)}>I have saved these codes</Button>
+          </div>
+        )}
+
+        {status && !status.enabled && !enrollment && (
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-sm">
+              <ShieldOff className="h-4 w-4 text-yellow-600" />
+              Two-factor authentication is off
+            </div>
+            <Button onClick={handleStartSetup} disabled={setupMutation.isPending}>
+              {setupMutation.isPending && <LoaderCircle className="h-4 w-4 mr-2 animate-spin" />}
+              Set Up
+            </Button>
+          </div>
+        )}
+
+        {enrollment && (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img src={enrollment.qrCode} alt="Two-factor QR code" className="h-48 w-48 border rounded-md" />
+            <div>
+              <Label>Or enter this key manually</Label>
+              <Input readOnly value={enrollment.secret} className="font-mono mt-1" />
+            </div>
+            <CodeInput value={code} onChange={setCode} />
+            <div className="flex gap-2">
+              <Button onClick={handleEnable} disabled={code.length !== 6 || enableMutation.isPending}>
+                {enableMutation.isPending && <LoaderCircle className="h-4 w-4 mr-2 animate-spin" />}
+                Enable
+              </Button>
+              <Button variant="ghost" onClick={() => setEnrollment(null)}>Cancel</Button>
+            </div>
+          </div>
+        )}
+
+        {status?.enabled && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm">
+              <ShieldCheck className="h-4 w-4 text-green-600" />
+              Two-factor authentication is on · {status.recoveryCodesRemaining} recovery codes left
+            </div>
+
+            <div className="space-y-2">
+              <Label>Authenticator code</Label>
+              <CodeInput value={code} onChange={setCode} />
+              <p className="text-sm text-muted-foreground">
+                {status.stepUpValid && status.stepUpExpiresAt
+                  ? `Identity confirmed until ${format(new Date(status.stepUpExpiresAt), 'HH:mm')}.`
+                  : 'Some device commands require you to confirm your identity first.'}
+              </p>
+            </div>
+
+            {showDisable && (
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-password">Current password</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleStepUp} disabled={code.length !== 6 || stepUpMutation.isPending}>
+                Confirm Identity
+              </Button>
+              <Button variant="outline" onClick={handleRegenerate} disabled={code.length !== 6 || regenerateMutation.isPending}>
+                New Recovery Codes
+              </Button>
+              {showDisable ? (
+                <Button
+                  variant="destructive"
+                  onClick={handleDisable}
+                  disabled={code.length !== 6 || !password || disableMutation.isPending}
+                >
+                  Disable
+                </Button>
+              ) : (
+                <Button variant="ghost" className="text-red-500" onClick={() => setShowDisable(true)}>
+                  Disable Two-Factor
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -31,6 +31,36 @@ interface BatteryEconomicsPanelProps {
   deviceId: number;
 }
 
+interface BatteryWear {
+  equivalentFullCycles: number;
+  capacityLossPercent: number;
+  cost: number;
+  costPerKwh: number;
+}
+
+// Rainflow cycle-aging assessment of the battery, from the server's degradation model
+interface BatteryDegradation {
+  model: {
+    cellType: string;
+    capacityKwh: number;
+    replacementCost: number;
+    temperatureC: number;
+    calibration: number;
+    calibrationEvents: number;
+    endOfLifeCapacity: number;
+    cycleLife: { depth: number; cycles: number }[];
+    nominalCostPerKwh: number;
+  };
+  history: BatteryWear & {
+    days: number;
+    samples: number;
+    throughputKwh: number;
+    depthBands: { band: string; cycles: number }[];
+    projectedLifeYears: number | null;
+  };
+  planned: (BatteryWear & { strategy: string; plannedAt: string }) | null;
+}
+
 const BatteryEconomicsPanel: React.FC<BatteryEconomicsPanelProps> = ({ deviceId }) => {
   const [optimizationMode, setOptimizationMode] = useState<string>("cost_saving");
   const [timeframe, setTimeframe] = useState<string>("day");
@@ -40,6 +70,11 @@ const BatteryEconomicsPanel: React.FC<BatteryEconomicsPanelProps> = ({ deviceId
     queryKey: [`/api/devices/${deviceId}`],
   });
   
+  // Fetch battery wear from the degradation model
+  const { data: degradation } = useQuery<BatteryDegradation>({
+    queryKey: [`/api/devices/${deviceId}/battery/degradation`],
+  });
+  
   // Fetch tariff data (when API is implemented)
   const { data: tariffData, isLoading: tariffLoading } = useQuery({
     queryKey: [`/api/devices/${deviceId}/tariff`],
@@ -339,6 +374,124 @@ const BatteryEconomicsPanel: React.FC<BatteryEconomicsPanelProps> = ({ deviceId
         </Card>
       </div>
       
+      {/* Battery Wear */}
+      {degradation && (
+        <Card>
+          <CardHeader className="pb-2">
+            <div className="flex justify-between items-start">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5 text-primary" />
+                  Battery Wear
+                </CardTitle>
+                <CardDescription>
+                  Rainflow cycle aging over the last {degradation.history.days} days, priced at the replacement cost
+                </CardDescription>
+              </div>
+              <Badge variant="outline" className="capitalize">
+                {degradation.model.cellType.replace(/_/g, " ")}
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-4 space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="p-3 rounded-lg bg-background/50 border">
+                <div className="text-sm text-muted-foreground mb-1">Wear Cost</div>
+                <div className="text-2xl font-bold">{formatCurrency(degradation.history.cost)}</div>
+                <div className="text-xs text-muted-foreground">
+                  {formatCurrency(degradation.history.costPerKwh)}/kWh discharged
+                </div>
+              </div>
+              <div className="p-3 rounded-lg bg-background/50 border">
+                <div className="text-sm text-muted-foreground mb-1">Capacity Lost</div>
+                <div className="text-2xl font-bold">{degradation.history.capacityLossPercent.toFixed(3)}%</div>
+                <div className="text-xs text-muted-foreground">
+                  End of life at {Math.round(degradation.model.endOfLifeCapacity * 100)}% capacity
+                </div>
+              </div>
+              <div className="p-3 rounded-lg bg-background/50 border">
+                <div className="text-sm text-muted-foreground mb-1">Equivalent Full Cycles</div>
+                <div className="text-2xl font-bold">{degradation.history.equivalentFullCycles}</div>
+                <div className="text-xs text-muted-foreground">
+                  {degradation.history.throughputKwh} kWh discharged
+                </div>
+              </div>
+              <div className="p-3 rounded-lg bg-background/50 border">
+                <div className="text-sm text-muted-foreground mb-1">Cycle Life at This Rate</div>
+                <div className="flex items-end gap-1">
+                  <span className="text-2xl font-bold">
+                    {degradation.history.projectedLifeYears != null ? degradation.history.projectedLifeYears.toFixed(1) : "—"}
+                  </span>
+                  <span className="text-sm text-muted-foreground">years</span>
+                </div>
+              </div>
+            </div>
+            
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <h3 className="text-sm font-medium mb-3">Cycles by Depth of Discharge</h3>
+                <div className="space-y-2">
+                  {degradation.history.depthBands.map(band => {
+                    const maxCycles = Math.max(...degradation.history.depthBands.map(b => b.cycles), 1);
+                    return (
+                      <div key={band.band} className="flex items-center gap-3 text-sm">
+                        <span className="w-16 text-muted-foreground">{band.band}</span>
+                        <Progress value={(band.cycles / maxCycles) * 100} className="h-2 flex-1" />
+                        <span className="w-12 text-right">{band.cycles}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="mt-3 text-xs text-muted-foreground">
+                  Rated cycle life: {degradation.model.cycleLife.map(c => `${c.cycles.toLocaleString()} at ${c.depth}%`).join(", ")}
+                </div>
+              </div>
+              
+              <div className="space-y-3">
+                <div className="p-4 rounded-lg bg-primary/10 border border-primary/20">
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm font-medium">Planned Schedule Wear</span>
+                    {degradation.planned && (
+                      <Badge variant="secondary">{degradation.planned.strategy.replace(/_/g, " ")}</Badge>
+                    )}
+                  </div>
+                  {degradation.planned ? (
+                    <div className="grid grid-cols-3 gap-2 text-sm">
+                      <div>
+                        <div className="text-muted-foreground text-xs">Cost</div>
+                        <div className="font-medium">{formatCurrency(degradation.planned.cost)}</div>
+                      </div>
+                      <div>
+                        <div className="text-muted-foreground text-xs">Cycles</div>
+                        <div className="font-medium">{degradation.planned.equivalentFullCycles}</div>
+                      </div>
+                      <div>
+                        <div className="text-muted-foreground text-xs">Per kWh</div>
+                        <div className="font-medium">{formatCurrency(degradation.planned.costPerKwh)}</div>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="text-sm text-muted-foreground">No arbitrage schedule applied yet</div>
+                  )}
+                </div>
+                
+                <div className="text-xs text-muted-foreground space-y-1">
+                  <div>
+                    Arbitrage only cycles when the spread beats {formatCurrency(degradation.model.nominalCostPerKwh)}/kWh of wear
+                    (replacement cost {formatCurrency(degradation.model.replacementCost)}).
+                  </div>
+                  <div>
+                    {degradation.model.calibrationEvents > 0
+                      ? `Calibrated ×${degradation.model.calibration.toFixed(2)} on ${degradation.model.calibrationEvents} lifecycle events, at ${degradation.model.temperatureC.toFixed(1)}°C.`
+                      : "Uncalibrated: no lifecycle events with a recorded capacity impact yet."}
+                  </div>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+      
       {/* Tariff & Arbitrage Analysis */}
       <Tabs defaultValue="tariff" className="space-y-4">
         <TabsList>
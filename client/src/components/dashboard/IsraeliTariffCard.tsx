@@ -9,6 +9,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { format } from "date-fns";
+import type { ResolvedTariffRate, TariffDefinition, TariffPeriod, TariffPeriodType } from "@shared/tariffSchema";
 
 interface TariffData {
   id: number;
@@ -17,37 +18,15 @@ interface TariffData {
   importRate: number;
   exportRate: number;
   isTimeOfUse: boolean;
-  scheduleData?: {
-    summer: {
-      peak: number;
-      shoulder: number;
-      offPeak: number;
-    };
-    winter: {
-      peak: number;
-      shoulder: number;
-      offPeak: number;
-    };
-    spring: {
-      peak: number;
-      shoulder: number;
-      offPeak: number;
-    };
-    autumn: {
-      peak: number;
-      shoulder: number;
-      offPeak: number;
-    };
-  };
+  definition: TariffDefinition;
   currency: string;
 }
 
-interface CurrentRateData {
+interface CurrentRateData extends ResolvedTariffRate {
   rate: number;
-  period: string;
   timestamp: string;
   isTimeOfUse: boolean;
-  currency: string;
+  region: string | null;
 }
 
 export default function IsraeliTariffCard({ siteId }: { siteId: number }) {
@@ -65,31 +44,20 @@ export default function IsraeliTariffCard({ siteId }: { siteId: number }) {
   });
 
   const isLoading = isTariffLoading || isRateLoading;
-  const isIsraeliTariff = tariff?.name.includes('Israeli');
-
-  // Determine current season
-  const getCurrentSeason = (): "summer" | "winter" | "spring" | "autumn" => {
-    const now = new Date();
-    const month = now.getMonth() + 1; // JavaScript months are 0-indexed
-
-    if (month >= 6 && month <= 9) {
-      return "summer"; // June-September
-    } else if (month >= 10 && month <= 11) {
-      return "autumn"; // October-November
-    } else if (month >= 3 && month <= 5) {
-      return "spring"; // March-May
-    } else {
-      return "winter"; // December-February
-    }
-  };
+  const isIsraeliTariff = tariff?.definition?.region === 'IL';
 
-  const currentSeason = getCurrentSeason();
+  // Season and day type in effect at the site, as resolved by the server
+  const currentSeason = tariff?.definition?.seasons.find((season) => season.name === currentRate?.season);
+  const todaysPeriods = currentSeason?.periods.filter((period) =>
+    currentRate ? period.dayTypes.includes(currentRate.dayType) : true
+  ) ?? [];
+  const peakPeriod = currentSeason?.periods.find((period) => period.type === 'peak');
 
   // Helper function to determine the period color
-  const getPeriodColor = (period: string) => {
-    if (period.toLowerCase().includes("peak")) return "bg-red-100 text-red-800 border-red-200";
-    if (period.toLowerCase().includes("shoulder")) return "bg-orange-100 text-orange-800 border-orange-200";
-    if (period.toLowerCase().includes("off-peak")) return "bg-green-100 text-green-800 border-green-200";
+  const getPeriodColor = (periodType: TariffPeriodType) => {
+    if (periodType === "peak") return "bg-red-100 text-red-800 border-red-200";
+    if (periodType === "shoulder") return "bg-orange-100 text-orange-800 border-orange-200";
+    if (periodType === "off_peak" || periodType === "super_off_peak") return "bg-green-100 text-green-800 border-green-200";
     return "bg-blue-100 text-blue-800 border-blue-200";
   };
 
@@ -121,7 +89,7 @@ export default function IsraeliTariffCard({ siteId }: { siteId: number }) {
             </CardDescription>
           </div>
           {!isLoading && currentRate && (
-            <Badge variant="outline" className={`${getPeriodColor(currentRate.period)} px-3 py-1 font-medium`}>
+            <Badge variant="outline" className={`${getPeriodColor(currentRate.periodType)} px-3 py-1 font-medium`}>
               {currentRate.period}
             </Badge>
           )}
@@ -156,8 +124,8 @@ export default function IsraeliTariffCard({ siteId }: { siteId: number }) {
                     <Clock className="h-3 w-3 mr-1" />
                     <span>
                       As of{" "}
-                      {currentRate?.timestamp
-                        ? format(new Date(currentRate.timestamp), "HH:mm")
+                      {currentRate
+                        ? `${currentRate.localTime} site time (${currentRate.timezone})`
                         : format(new Date(), "HH:mm")}
                     </span>
                   </div>
@@ -199,11 +167,11 @@ export default function IsraeliTariffCard({ siteId }: { siteId: number }) {
                   </div>
                 )}
 
-                {isIsraeliTariff && (
+                {isIsraeliTariff && peakPeriod && (
                   <div className="mt-3 flex items-center">
                     <AlertTriangle className="h-4 w-4 text-amber-600 mr-2" />
                     <span className="text-sm text-slate-600">
-                      Israeli grid often experiences capacity constraints during peak hours (17:00-22:00)
+                      Israeli grid often experiences capacity constraints during peak hours ({peakPeriod.startTime}-{peakPeriod.endTime})
                     </span>
                   </div>
                 )}
@@ -219,71 +187,36 @@ export default function IsraeliTariffCard({ siteId }: { siteId: number }) {
             ) : (
               <div className="space-y-4">
                 <div className="bg-slate-50 dark:bg-slate-900 rounded-lg p-3">
-                  <div className="mb-2 font-medium">Current Season: <span className="capitalize">{currentSeason}</span></div>
+                  <div className="mb-2 font-medium">
+                    Current Season: <span className="capitalize">{currentRate?.season ?? "None"}</span>
+                    {currentRate && <span className="text-sm text-slate-500 ml-2 capitalize">({currentRate.dayType})</span>}
+                  </div>
                   <div className="space-y-2">
-                    <div className="flex justify-between items-center p-2 rounded bg-red-50 border border-red-100 dark:bg-red-900/20 dark:border-red-800">
-                      <span>Peak (17:00-22:00)</span>
-                      <span className="font-bold">
-                        {tariff.scheduleData?.[currentSeason].peak.toFixed(2)} {tariff.currency}/kWh
-                      </span>
-                    </div>
-                    <div className="flex justify-between items-center p-2 rounded bg-amber-50 border border-amber-100 dark:bg-amber-900/20 dark:border-amber-800">
-                      <span>Shoulder (7:00-17:00, 22:00-23:00)</span>
-                      <span className="font-bold">
-                        {tariff.scheduleData?.[currentSeason].shoulder.toFixed(2)} {tariff.currency}/kWh
-                      </span>
-                    </div>
-                    <div className="flex justify-between items-center p-2 rounded bg-green-50 border border-green-100 dark:bg-green-900/20 dark:border-green-800">
-                      <span>Off-Peak (23:00-7:00)</span>
-                      <span className="font-bold">
-                        {tariff.scheduleData?.[currentSeason].offPeak.toFixed(2)} {tariff.currency}/kWh
-                      </span>
-                    </div>
+                    {todaysPeriods.map((period, index) => (
+                      <div
+                        key={index}
+                        className={`flex justify-between items-center p-2 rounded border ${getPeriodColor(period.type)}`}
+                      >
+                        <span>{period.name} ({period.startTime}-{period.endTime})</span>
+                        <span className="font-bold">
+                          {period.importRate.toFixed(2)} {tariff.currency}/kWh
+                        </span>
+                      </div>
+                    ))}
                   </div>
                 </div>
 
                 <div className="grid grid-cols-2 gap-2 text-sm">
-                  <Tabs defaultValue="summer" className="w-full">
-                    <TabsList className="w-full grid grid-cols-2">
-                      <TabsTrigger value="summer">Summer</TabsTrigger>
-                      <TabsTrigger value="winter">Winter</TabsTrigger>
-                    </TabsList>
-                    <TabsContent value="summer" className="pt-2">
-                      <RateTable 
-                        rates={tariff.scheduleData?.summer} 
-                        currency={tariff.currency} 
-                        isActive={currentSeason === 'summer'}
-                      />
-                    </TabsContent>
-                    <TabsContent value="winter" className="pt-2">
-                      <RateTable 
-                        rates={tariff.scheduleData?.winter} 
-                        currency={tariff.currency} 
-                        isActive={currentSeason === 'winter'}
-                      />
-                    </TabsContent>
-                  </Tabs>
-
-                  <Tabs defaultValue="spring" className="w-full">
-                    <TabsList className="w-full grid grid-cols-2">
-                      <TabsTrigger value="spring">Spring</TabsTrigger>
-                      <TabsTrigger value="autumn">Autumn</TabsTrigger>
-                    </TabsList>
-                    <TabsContent value="spring" className="pt-2">
-                      <RateTable 
-                        rates={tariff.scheduleData?.spring} 
-                        currency={tariff.currency} 
-                        isActive={currentSeason === 'spring'}
+                  {tariff.definition.seasons.map((season) => (
+                    <div key={season.name}>
+                      <div className="font-medium capitalize mb-1">{season.name}</div>
+                      <RateTable
+                        periods={season.periods}
+                        currency={tariff.currency}
+                        isActive={season.name === currentRate?.season}
                       />
-                    </TabsContent>
-                    <TabsContent value="autumn" className="pt-2">
-                      <RateTable 
-                        rates={tariff.scheduleData?.autumn} 
-                        currency={tariff.currency} 
-                        isActive={currentSeason === 'autumn'}
-                      />
-                    </TabsContent>
-                  </Tabs>
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
@@ -305,33 +238,27 @@ export default function IsraeliTariffCard({ siteId }: { siteId: number }) {
 }
 
 function RateTable({ 
-  rates, 
+  periods, 
   currency,
   isActive
 }: { 
-  rates?: { peak: number; shoulder: number; offPeak: number }; 
+  periods: TariffPeriod[]; 
   currency: string;
   isActive: boolean;
 }) {
-  if (!rates) return null;
+  if (periods.length === 0) return null;
   
   return (
     <div className={`text-xs space-y-1 ${isActive ? 'bg-blue-50 dark:bg-blue-900/20 p-2 rounded' : ''}`}>
-      <div className="flex justify-between">
-        <span>Peak:</span>
-        <span className="font-medium">{rates.peak.toFixed(2)} {currency}</span>
-      </div>
-      <div className="flex justify-between">
-        <span>Shoulder:</span>
-        <span className="font-medium">{rates.shoulder.toFixed(2)} {currency}</span>
-      </div>
-      <div className="flex justify-between">
-        <span>Off-Peak:</span>
-        <span className="font-medium">{rates.offPeak.toFixed(2)} {currency}</span>
-      </div>
+      {periods.map((period, index) => (
+        <div key={index} className="flex justify-between">
+          <span>{period.name} {period.startTime}-{period.endTime}:</span>
+          <span className="font-medium">{period.importRate.toFixed(2)} {currency}</span>
+        </div>
+      ))}
       {isActive && (
         <div className="text-xs mt-1 text-blue-600 font-medium">Current Season</div>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
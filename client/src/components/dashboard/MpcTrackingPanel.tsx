@@ -0,0 +1,225 @@
+import React from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Activity, Crosshair } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+interface MpcController {
+  siteId: number;
+  enabled: boolean;
+  intervalMinutes: number;
+  horizonHours: number;
+}
+
+// Numeric columns arrive as strings
+interface MpcStep {
+  id: number;
+  startTime: string;
+  endTime: string;
+  solverStatus: string;
+  expectedSavings: string | null;
+  plannedBatteryPower: string | null;
+  plannedGridPower: string | null;
+  plannedLoad: string | null;
+  plannedPv: string | null;
+  plannedSoc: string | null;
+  executedBatteryPower: string | null;
+  actualBatteryPower: string | null;
+  actualGridPower: string | null;
+  actualLoad: string | null;
+  actualPv: string | null;
+  actualSoc: string | null;
+}
+
+interface TrackingError {
+  samples: number;
+  meanAbsoluteError: number | null;
+  bias: number | null;
+}
+
+interface MpcHistory {
+  steps: MpcStep[];
+  tracking: Record<'execution' | 'batteryPower' | 'gridPower' | 'load' | 'pv' | 'soc', TrackingError>;
+}
+
+const trackingLabels: Array<{ key: keyof MpcHistory['tracking']; label: string; unit: string }> = [
+  { key: 'execution', label: 'Setpoint execution', unit: 'kW' },
+  { key: 'batteryPower', label: 'Battery power', unit: 'kW' },
+  { key: 'gridPower', label: 'Grid power', unit: 'kW' },
+  { key: 'load', label: 'Load forecast', unit: 'kW' },
+  { key: 'pv', label: 'PV forecast', unit: 'kW' },
+  { key: 'soc', label: 'State of charge', unit: '%' },
+];
+
+const toNumber = (value: string | null) => (value != null ? Number(value) : null);
+
+interface MpcTrackingPanelProps {
+  siteId: number;
+}
+
+// Model predictive control settings of a site, with its planned, executed and actual values
+const MpcTrackingPanel: React.FC<MpcTrackingPanelProps> = ({ siteId }) => {
+  const { toast } = useToast();
+
+  const { data: controller } = useQuery<MpcController | null>({
+    queryKey: [`/api/sites/${siteId}/mpc`],
+    queryFn: async () => {
+      const res = await fetch(`/api/sites/${siteId}/mpc`, { credentials: 'include' });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+  });
+
+  const { data: history } = useQuery<MpcHistory>({
+    queryKey: [`/api/sites/${siteId}/mpc/history?hours=24`],
+    refetchInterval: 60000,
+  });
+
+  const updateController = useMutation({
+    mutationFn: async (data: Partial<MpcController>) => {
+      const res = await apiRequest('PUT', `/api/sites/${siteId}/mpc`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/sites/${siteId}/mpc`] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to update MPC', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const chartData = (history?.steps ?? []).map((step) => ({
+    time: format(new Date(step.startTime), 'HH:mm'),
+    plannedBattery: toNumber(step.plannedBatteryPower),
+    executedBattery: toNumber(step.executedBatteryPower),
+    actualBattery: toNumber(step.actualBatteryPower),
+    plannedGrid: toNumber(step.plannedGridPower),
+    actualGrid: toNumber(step.actualGridPower),
+  }));
+  const lastStep = history?.steps[history.steps.length - 1];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <Crosshair className="mr-2 h-5 w-5 text-primary" />
+              Model Predictive Control
+            </CardTitle>
+            <CardDescription>
+              Re-plans the battery schedule every interval from live telemetry and applies only the first step
+            </CardDescription>
+          </div>
+          {lastStep && (
+            <Badge variant={lastStep.solverStatus === 'optimal' ? 'default' : 'secondary'}>
+              Last plan {format(new Date(lastStep.startTime), 'HH:mm')} · {lastStep.solverStatus}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <Label htmlFor="mpc-enabled">Enabled</Label>
+            <Switch
+              id="mpc-enabled"
+              checked={!!controller?.enabled}
+              disabled={updateController.isPending}
+              onCheckedChange={(enabled) => updateController.mutate({ enabled })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Re-planning interval</Label>
+            <Select
+              value={String(controller?.intervalMinutes ?? 15)}
+              onValueChange={(value) => updateController.mutate({ intervalMinutes: Number(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[5, 10, 15, 30, 60].map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>{minutes} minutes</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Horizon</Label>
+            <Select
+              value={String(controller?.horizonHours ?? 24)}
+              onValueChange={(value) => updateController.mutate({ horizonHours: Number(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[12, 24, 36, 48].map((hours) => (
+                  <SelectItem key={hours} value={String(hours)}>{hours} hours</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {chartData.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-10 text-muted-foreground">
+            <Activity className="h-8 w-8 mb-2" />
+            <p>No controlled intervals in the last 24 hours</p>
+          </div>
+        ) : (
+          <>
+            <div className="h-[280px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="time" />
+                  <YAxis unit=" kW" />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="stepAfter" dataKey="plannedBattery" name="Battery planned" stroke="#3b82f6" dot={false} />
+                  <Line type="stepAfter" dataKey="executedBattery" name="Battery executed" stroke="#8b5cf6" strokeDasharray="4 2" dot={false} />
+                  <Line type="stepAfter" dataKey="actualBattery" name="Battery actual" stroke="#10b981" dot={false} />
+                  <Line type="stepAfter" dataKey="plannedGrid" name="Grid planned" stroke="#f59e0b" dot={false} />
+                  <Line type="stepAfter" dataKey="actualGrid" name="Grid actual" stroke="#ef4444" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Battery power is positive when discharging, grid power when importing
+            </p>
+
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+              {trackingLabels.map(({ key, label, unit }) => {
+                const error = history?.tracking[key];
+                return (
+                  <div key={key} className="rounded-lg border p-3">
+                    <p className="text-xs text-muted-foreground">{label}</p>
+                    <p className="text-lg font-bold">
+                      {error?.meanAbsoluteError != null ? `${error.meanAbsoluteError.toFixed(2)} ${unit}` : '—'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {error?.bias != null ? `Bias ${error.bias > 0 ? '+' : ''}${error.bias.toFixed(2)} ${unit}` : 'Not measured yet'}
+                      {error?.samples ? ` · ${error.samples} intervals` : ''}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MpcTrackingPanel;
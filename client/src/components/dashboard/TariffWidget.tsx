@@ -301,7 +301,7 @@ export default function TariffWidget({ siteId, className }: TariffWidgetProps) {
             {currentRate.timestamp && (
               <p className="text-xs text-muted-foreground mt-2">
                 <CalendarDays className="h-3 w-3 inline mr-1" />
-                {format(new Date(currentRate.timestamp), 'PPpp')}
+                {format(new Date(currentRate.timestamp), 'PP')} · {currentRate.localTime} site time ({currentRate.timezone})
               </p>
             )}
           </div>
@@ -320,16 +320,24 @@ export default function TariffWidget({ siteId, className }: TariffWidgetProps) {
               </Button>
             </div>
             
-            {showTouDetails && tariff.scheduleData && (
+            {showTouDetails && tariff.definition && (
               <div className="mt-3 space-y-3 text-sm">
-                {Object.entries(tariff.scheduleData as Record<string, Record<string, number>>).map(([period, rates]) => (
-                  <div key={period} className="border rounded-md p-2">
-                    <div className="font-medium mb-1">{period}</div>
+                {tariff.definition.seasons.map((season) => (
+                  <div key={season.name} className="border rounded-md p-2">
+                    <div className="font-medium mb-1 capitalize flex justify-between">
+                      <span>{season.name}</span>
+                      {currentRate?.season === season.name && (
+                        <Badge variant="outline" className="text-xs">Current</Badge>
+                      )}
+                    </div>
                     <ul className="space-y-1 pl-2">
-                      {typeof rates === 'object' && Object.entries(rates).map(([time, rate]) => (
-                        <li key={time} className="flex justify-between">
-                          <span>{time}</span>
-                          <span className="font-medium">{Number(rate).toFixed(2)} {tariff.currency}/kWh</span>
+                      {season.periods.map((period, index) => (
+                        <li key={index} className="flex justify-between">
+                          <span>
+                            {period.name} {period.startTime}-{period.endTime}
+                            <span className="text-xs text-muted-foreground ml-1">({period.dayTypes.join(', ')})</span>
+                          </span>
+                          <span className="font-medium">{period.importRate.toFixed(2)} {tariff.currency}/kWh</span>
                         </li>
                       ))}
                     </ul>
@@ -342,11 +350,11 @@ export default function TariffWidget({ siteId, className }: TariffWidgetProps) {
               <div className="grid grid-cols-2 gap-2 mt-2">
                 <div className="border rounded-md p-2">
                   <div className="text-xs text-muted-foreground">Import Rate</div>
-                  <div className="font-medium">{typeof tariff.importRate === 'number' ? tariff.importRate.toFixed(2) : '0.00'} {tariff.currency}/kWh</div>
+                  <div className="font-medium">{Number(tariff.importRate ?? 0).toFixed(2)} {tariff.currency}/kWh</div>
                 </div>
                 <div className="border rounded-md p-2">
                   <div className="text-xs text-muted-foreground">Export Rate</div>
-                  <div className="font-medium">{typeof tariff.exportRate === 'number' ? tariff.exportRate.toFixed(2) : '0.00'} {tariff.currency}/kWh</div>
+                  <div className="font-medium">{Number(tariff.exportRate ?? 0).toFixed(2)} {tariff.currency}/kWh</div>
                 </div>
               </div>
             )}
@@ -357,11 +365,11 @@ export default function TariffWidget({ siteId, className }: TariffWidgetProps) {
           <div className="grid grid-cols-2 gap-4 mt-4">
             <div className="border rounded-md p-3">
               <div className="text-sm text-muted-foreground">Import Rate</div>
-              <div className="text-xl font-medium mt-1">{typeof tariff?.importRate === 'number' ? tariff.importRate.toFixed(2) : '0.00'} {tariff?.currency}/kWh</div>
+              <div className="text-xl font-medium mt-1">{Number(tariff?.importRate ?? 0).toFixed(2)} {tariff?.currency}/kWh</div>
             </div>
             <div className="border rounded-md p-3">
               <div className="text-sm text-muted-foreground">Export Rate</div>
-              <div className="text-xl font-medium mt-1">{typeof tariff?.exportRate === 'number' ? tariff.exportRate.toFixed(2) : '0.00'} {tariff?.currency}/kWh</div>
+              <div className="text-xl font-medium mt-1">{Number(tariff?.exportRate ?? 0).toFixed(2)} {tariff?.currency}/kWh</div>
             </div>
           </div>
         )}
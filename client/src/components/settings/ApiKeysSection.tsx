@@ -0,0 +1,365 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Copy, KeyRound, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ApiKey,
+  ApiKeyAccessLevel,
+  useApiKeys,
+  useApiKeyScopes,
+  useIssueApiKey,
+  useRevokeApiKey,
+  useRotateApiKey,
+} from '@/hooks/useApiKeys';
+import { useToast } from '@/hooks/use-toast';
+
+const ACCESS_LEVEL_LABELS: Record<ApiKeyAccessLevel, string> = {
+  read_only: 'Read only',
+  device_control: 'Device control',
+  full_access: 'Full access',
+  admin: 'Admin',
+};
+
+const GRACE_PERIOD_OPTIONS = [
+  { value: '0', label: 'None (invalidate immediately)' },
+  { value: '1', label: '1 hour' },
+  { value: '24', label: '24 hours' },
+  { value: '72', label: '3 days' },
+  { value: '168', label: '7 days' },
+];
+
+function formatDate(value: string | null) {
+  return value ? format(new Date(value), 'MMM d, yyyy HH:mm') : 'Never';
+}
+
+export default function ApiKeysSection() {
+  const { toast } = useToast();
+  const { data: apiKeys = [], isLoading } = useApiKeys();
+  const { data: scopeOptions } = useApiKeyScopes();
+  const issueMutation = useIssueApiKey();
+  const rotateMutation = useRotateApiKey();
+  const revokeMutation = useRevokeApiKey();
+
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [accessLevel, setAccessLevel] = useState<ApiKeyAccessLevel>('read_only');
+  const [selectedScopes, setSelectedScopes] = useState<string[]>([]);
+  const [allowedIps, setAllowedIps] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [rotationEnabled, setRotationEnabled] = useState(false);
+  const [rotationIntervalDays, setRotationIntervalDays] = useState('90');
+
+  const [rotatingKey, setRotatingKey] = useState<ApiKey | null>(null);
+  const [gracePeriodHours, setGracePeriodHours] = useState('24');
+  const [revealedToken, setRevealedToken] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setName('');
+    setAccessLevel('read_only');
+    setSelectedScopes([]);
+    setAllowedIps('');
+    setExpiresAt('');
+    setRotationEnabled(false);
+    setRotationIntervalDays('90');
+  };
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setSelectedScopes(current =>
+      checked ? [...current, scope] : current.filter(s => s !== scope)
+    );
+  };
+
+  const handleIssue = async () => {
+    try {
+      const result = await issueMutation.mutateAsync({
+        name: name.trim(),
+        accessLevel,
+        scopes: selectedScopes,
+        allowedIps: allowedIps.split(',').map(ip => ip.trim()).filter(Boolean),
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+        rotationEnabled,
+        rotationIntervalDays: rotationEnabled ? parseInt(rotationIntervalDays) : null,
+      });
+      setIsCreateOpen(false);
+      resetForm();
+      setRevealedToken(result.token);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create API key.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!rotatingKey) return;
+    try {
+      const result = await rotateMutation.mutateAsync({
+        id: rotatingKey.id,
+        gracePeriodHours: parseInt(gracePeriodHours),
+      });
+      setRotatingKey(null);
+      setRevealedToken(result.token);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to rotate API key. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!window.confirm(`Revoke "${apiKey.name}"? Clients using this key will lose access immediately.`)) {
+      return;
+    }
+    try {
+      await revokeMutation.mutateAsync(apiKey.id);
+      toast({
+        title: "API key revoked",
+        description: `${apiKey.name} can no longer be used.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to revoke API key. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyToken = async () => {
+    if (!revealedToken) return;
+    await navigator.clipboard.writeText(revealedToken);
+    toast({ title: "Copied", description: "API key copied to clipboard." });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">API Keys</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Keys let integrations call the API without a user session. Send them as a Bearer token or in the X-API-Key header.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setIsCreateOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New API Key
+        </Button>
+      </div>
+
+      <div className="space-y-3 mt-4">
+        {isLoading && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading API keys...</p>
+        )}
+        {!isLoading && apiKeys.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No API keys have been issued.</p>
+        )}
+        {apiKeys.map(apiKey => (
+          <div key={apiKey.id} className="border rounded-md p-3 flex items-start justify-between gap-4">
+            <div className="space-y-1 min-w-0">
+              <div className="flex items-center gap-2 flex-wrap">
+                <KeyRound className="h-4 w-4 text-gray-500" />
+                <span className="font-medium">{apiKey.name}</span>
+                <Badge variant="outline">{ACCESS_LEVEL_LABELS[apiKey.accessLevel]}</Badge>
+                {!apiKey.isActive && <Badge variant="destructive">Revoked</Badge>}
+                {apiKey.isActive && apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date() && (
+                  <Badge variant="destructive">Expired</Badge>
+                )}
+                {apiKey.isActive && apiKey.rotationDue && <Badge variant="secondary">Rotation due</Badge>}
+              </div>
+              <p className="text-xs font-mono text-gray-500 dark:text-gray-400">{apiKey.key}.••••••••</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Scopes: {apiKey.scopes.length > 0 ? apiKey.scopes.join(', ') : 'all permitted by access level'}
+                {apiKey.allowedIps.length > 0 && ` · IPs: ${apiKey.allowedIps.join(', ')}`}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Created {formatDate(apiKey.createdAt)} · Last used {formatDate(apiKey.lastUsedAt)}
+                {apiKey.expiresAt && ` · Expires ${formatDate(apiKey.expiresAt)}`}
+              </p>
+              {apiKey.previousSecrets.map(previous => (
+                <p key={previous.rotatedAt} className="text-xs text-amber-600 dark:text-amber-400">
+                  Previous secret accepted until {formatDate(previous.graceExpiresAt)}
+                </p>
+              ))}
+            </div>
+            {apiKey.isActive && (
+              <div className="flex gap-2 shrink-0">
+                <Button variant="outline" size="sm" onClick={() => setRotatingKey(apiKey)}>
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  Rotate
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-500 dark:text-red-400"
+                  onClick={() => handleRevoke(apiKey)}
+                  disabled={revokeMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Revoke
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Issue key dialog */}
+      <Dialog open={isCreateOpen} onOpenChange={(open) => { setIsCreateOpen(open); if (!open) resetForm(); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New API Key</DialogTitle>
+            <DialogDescription>
+              Leave all scopes unchecked to allow everything the access level permits.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input id="api-key-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. SCADA integration" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="api-key-access">Access Level</Label>
+              <Select value={accessLevel} onValueChange={(value) => setAccessLevel(value as ApiKeyAccessLevel)}>
+                <SelectTrigger id="api-key-access">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(scopeOptions?.accessLevels || ['read_only']).map(level => (
+                    <SelectItem key={level} value={level}>{ACCESS_LEVEL_LABELS[level]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+                {Object.entries(scopeOptions?.scopes || {}).map(([scope, description]) => (
+                  <label key={scope} className="flex items-center gap-2 text-sm" title={description}>
+                    <Checkbox
+                      checked={selectedScopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    />
+                    <span className="font-mono text-xs">{scope}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="api-key-ips">Allowed IPs</Label>
+              <Input
+                id="api-key-ips"
+                value={allowedIps}
+                onChange={(e) => setAllowedIps(e.target.value)}
+                placeholder="Any (e.g. 203.0.113.10, 10.0.0.0/24)"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="api-key-expiry">Expires</Label>
+              <Input id="api-key-expiry" type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="api-key-rotation" className="text-base">Rotation Reminder</Label>
+                <p className="text-sm text-gray-500 dark:text-gray-400">Flag the key when it is due for rotation</p>
+              </div>
+              <Switch id="api-key-rotation" checked={rotationEnabled} onCheckedChange={setRotationEnabled} />
+            </div>
+            {rotationEnabled && (
+              <div className="space-y-2">
+                <Label htmlFor="api-key-rotation-days">Rotation Interval (days)</Label>
+                <Input
+                  id="api-key-rotation-days"
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={rotationIntervalDays}
+                  onChange={(e) => setRotationIntervalDays(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+            <Button onClick={handleIssue} disabled={!name.trim() || issueMutation.isPending}>
+              Create Key
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rotate key dialog */}
+      <Dialog open={!!rotatingKey} onOpenChange={(open) => { if (!open) setRotatingKey(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rotate {rotatingKey?.name}</DialogTitle>
+            <DialogDescription>
+              A new secret will be generated. The current secret keeps working during the grace period so clients can be updated.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="api-key-grace">Grace Period</Label>
+            <Select value={gracePeriodHours} onValueChange={setGracePeriodHours}>
+              <SelectTrigger id="api-key-grace">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GRACE_PERIOD_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRotatingKey(null)}>Cancel</Button>
+            <Button onClick={handleRotate} disabled={rotateMutation.isPending}>Rotate Key</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* One-time token display */}
+      <Dialog open={!!revealedToken} onOpenChange={(open) => { if (!open) setRevealedToken(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Copy Your API Key</DialogTitle>
+            <DialogDescription>
+              This is the only time the full key is shown. Store it somewhere secure.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input className="font-mono text-xs" value={revealedToken || ''} readOnly />
+            <Button variant="outline" onClick={copyToken}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedToken(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
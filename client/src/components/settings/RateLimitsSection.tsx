@@ -0,0 +1,269 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Plus, ShieldOff, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  RateLimitResourceType,
+  RateLimitRule,
+  useBlockedClients,
+  useCreateRateLimitRule,
+  useDeleteRateLimitRule,
+  useRateLimitRules,
+  useUnblockClient,
+  useUpdateRateLimitRule,
+} from '@/hooks/useRateLimits';
+import { useToast } from '@/hooks/use-toast';
+
+const RESOURCE_TYPE_LABELS: Record<RateLimitResourceType, string> = {
+  ip: 'IP address',
+  user: 'User',
+  api_key: 'API key',
+};
+
+interface RuleDraft {
+  maxRequests: string;
+  timeWindowSeconds: string;
+  blockDurationSeconds: string;
+}
+
+const EMPTY_RULE = {
+  limitKey: '',
+  resourceType: 'ip' as RateLimitResourceType,
+  maxRequests: '60',
+  timeWindowSeconds: '60',
+  blockDurationSeconds: '',
+};
+
+function toDraft(rule: RateLimitRule): RuleDraft {
+  return {
+    maxRequests: String(rule.maxRequests),
+    timeWindowSeconds: String(rule.timeWindowSeconds),
+    blockDurationSeconds: rule.blockDurationSeconds ? String(rule.blockDurationSeconds) : '',
+  };
+}
+
+export default function RateLimitsSection() {
+  const { toast } = useToast();
+  const { data: rules = [], isLoading } = useRateLimitRules();
+  const { data: blocked = [] } = useBlockedClients();
+  const createMutation = useCreateRateLimitRule();
+  const updateMutation = useUpdateRateLimitRule();
+  const deleteMutation = useDeleteRateLimitRule();
+  const unblockMutation = useUnblockClient();
+
+  const [drafts, setDrafts] = useState<Record<number, RuleDraft>>({});
+  const [newRule, setNewRule] = useState(EMPTY_RULE);
+
+  const getDraft = (rule: RateLimitRule) => drafts[rule.id] || toDraft(rule);
+
+  const updateDraft = (rule: RateLimitRule, field: keyof RuleDraft, value: string) => {
+    setDrafts(current => ({ ...current, [rule.id]: { ...getDraft(rule), [field]: value } }));
+  };
+
+  const handleSave = async (rule: RateLimitRule) => {
+    const draft = getDraft(rule);
+    try {
+      await updateMutation.mutateAsync({
+        id: rule.id,
+        ruleData: {
+          maxRequests: parseInt(draft.maxRequests),
+          timeWindowSeconds: parseInt(draft.timeWindowSeconds),
+          blockDurationSeconds: draft.blockDurationSeconds ? parseInt(draft.blockDurationSeconds) : null,
+        },
+      });
+      setDrafts(({ [rule.id]: _saved, ...rest }) => rest);
+      toast({ title: "Saved", description: `Rate limit ${rule.limitKey} updated.` });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to update rate limit.", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (rule: RateLimitRule) => {
+    try {
+      await deleteMutation.mutateAsync(rule.id);
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to delete rate limit.", variant: "destructive" });
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      await createMutation.mutateAsync({
+        limitKey: newRule.limitKey.trim(),
+        resourceType: newRule.resourceType,
+        resourceId: null,
+        maxRequests: parseInt(newRule.maxRequests),
+        timeWindowSeconds: parseInt(newRule.timeWindowSeconds),
+        blockDurationSeconds: newRule.blockDurationSeconds ? parseInt(newRule.blockDurationSeconds) : null,
+      });
+      setNewRule(EMPTY_RULE);
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to create rate limit.", variant: "destructive" });
+    }
+  };
+
+  const handleUnblock = async (eventId: number) => {
+    try {
+      await unblockMutation.mutateAsync(eventId);
+      toast({ title: "Unblocked", description: "The client can send requests again." });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to unblock client.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium">Rate Limiting</h3>
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Requests allowed per window for login, optimization runs and device commands. Leave the block duration empty to reject without blocking.
+      </p>
+
+      <div className="space-y-2 mt-4">
+        <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500 dark:text-gray-400">
+          <span className="col-span-3">Limit</span>
+          <span className="col-span-2">Per</span>
+          <span className="col-span-2">Requests</span>
+          <span className="col-span-2">Window (s)</span>
+          <span className="col-span-2">Block (s)</span>
+        </div>
+        {isLoading && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading rate limits...</p>
+        )}
+        {rules.map(rule => {
+          const draft = getDraft(rule);
+          return (
+            <div key={rule.id} className="grid grid-cols-12 gap-2 items-center">
+              <span className="col-span-3 font-mono text-sm">{rule.limitKey}</span>
+              <span className="col-span-2 text-sm">
+                {RESOURCE_TYPE_LABELS[rule.resourceType]}
+                {rule.resourceId && <span className="text-xs text-gray-500"> #{rule.resourceId}</span>}
+              </span>
+              <Input
+                className="col-span-2"
+                type="number"
+                min={1}
+                value={draft.maxRequests}
+                onChange={(e) => updateDraft(rule, 'maxRequests', e.target.value)}
+              />
+              <Input
+                className="col-span-2"
+                type="number"
+                min={1}
+                value={draft.timeWindowSeconds}
+                onChange={(e) => updateDraft(rule, 'timeWindowSeconds', e.target.value)}
+              />
+              <Input
+                className="col-span-2"
+                type="number"
+                min={0}
+                placeholder="None"
+                value={draft.blockDurationSeconds}
+                onChange={(e) => updateDraft(rule, 'blockDurationSeconds', e.target.value)}
+              />
+              <div className="col-span-1 flex gap-1 justify-end">
+                {drafts[rule.id] ? (
+                  <Button size="sm" onClick={() => handleSave(rule)} disabled={updateMutation.isPending}>Save</Button>
+                ) : (
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(rule)} disabled={deleteMutation.isPending}>
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="grid grid-cols-12 gap-2 items-center pt-2 border-t">
+          <Input
+            className="col-span-3 font-mono"
+            placeholder="limit key"
+            value={newRule.limitKey}
+            onChange={(e) => setNewRule({ ...newRule, limitKey: e.target.value })}
+          />
+          <div className="col-span-2">
+            <Select
+              value={newRule.resourceType}
+              onValueChange={(value) => setNewRule({ ...newRule, resourceType: value as RateLimitResourceType })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(RESOURCE_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            className="col-span-2"
+            type="number"
+            min={1}
+            value={newRule.maxRequests}
+            onChange={(e) => setNewRule({ ...newRule, maxRequests: e.target.value })}
+          />
+          <Input
+            className="col-span-2"
+            type="number"
+            min={1}
+            value={newRule.timeWindowSeconds}
+            onChange={(e) => setNewRule({ ...newRule, timeWindowSeconds: e.target.value })}
+          />
+          <Input
+            className="col-span-2"
+            type="number"
+            min={0}
+            placeholder="None"
+            value={newRule.blockDurationSeconds}
+            onChange={(e) => setNewRule({ ...newRule, blockDurationSeconds: e.target.value })}
+          />
+          <div className="col-span-1 flex justify-end">
+            <Button size="sm" variant="outline" onClick={handleCreate} disabled={!newRule.limitKey.trim() || createMutation.isPending}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-6">
+        <Label className="text-base">Blocked Clients</Label>
+        <div className="space-y-2 mt-2">
+          {blocked.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No clients are currently blocked.</p>
+          )}
+          {blocked.map(({ event, limitKey }) => (
+            <div key={event.id} className="flex items-center justify-between border rounded-md p-2">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="destructive">{limitKey || 'deleted rule'}</Badge>
+                  <span className="text-sm">
+                    {RESOURCE_TYPE_LABELS[event.resourceType] || event.resourceType} {event.resourceId}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {event.requestCount} requests · blocked at {format(new Date(event.timestamp), 'MMM d, HH:mm')}
+                  {event.blockedUntil && ` until ${format(new Date(event.blockedUntil), 'MMM d, HH:mm')}`}
+                  {event.ipAddress && ` · ${event.ipAddress}`}
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => handleUnblock(event.id)} disabled={unblockMutation.isPending}>
+                <ShieldOff className="h-4 w-4 mr-1" />
+                Unblock
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, CheckCircle, Unlock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  SecurityAuditStatus,
+  useLockedAccounts,
+  useReviewAuditEntry,
+  useSecurityAuditLog,
+  useSecurityAuditSummary,
+  useUnlockAccount,
+} from '@/hooks/useSecurityAudit';
+import { useToast } from '@/hooks/use-toast';
+
+const STATUS_VARIANTS: Record<SecurityAuditStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  success: 'secondary',
+  failure: 'destructive',
+  denied: 'outline',
+};
+
+export default function SecurityAuditSection() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<SecurityAuditStatus | 'all'>('all');
+  const [suspiciousOnly, setSuspiciousOnly] = useState(false);
+  const [unreviewedOnly, setUnreviewedOnly] = useState(false);
+
+  const { data: entries = [], isLoading } = useSecurityAuditLog({
+    status: status === 'all' ? undefined : status,
+    suspicious: suspiciousOnly,
+    unreviewed: unreviewedOnly,
+    limit: 200,
+  });
+  const { data: summary } = useSecurityAuditSummary();
+  const { data: lockedAccounts = [] } = useLockedAccounts();
+  const reviewMutation = useReviewAuditEntry();
+  const unlockMutation = useUnlockAccount();
+
+  const handleReview = async (id: number) => {
+    try {
+      await reviewMutation.mutateAsync(id);
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to mark entry as reviewed.", variant: "destructive" });
+    }
+  };
+
+  const handleUnlock = async (userId: number, username: string) => {
+    try {
+      await unlockMutation.mutateAsync(userId);
+      toast({ title: "Account unlocked", description: `${username} can sign in again.` });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to unlock account.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="border rounded-md p-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Suspicious events awaiting review</p>
+          <p className="text-2xl font-semibold">{summary?.unreviewedSuspicious ?? 0}</p>
+        </div>
+        <div className="border rounded-md p-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Locked accounts</p>
+          <p className="text-2xl font-semibold">{summary?.lockedAccounts ?? 0}</p>
+        </div>
+      </div>
+
+      {lockedAccounts.length > 0 && (
+        <div>
+          <h3 className="text-lg font-medium">Locked Accounts</h3>
+          <div className="space-y-2 mt-2">
+            {lockedAccounts.map(account => (
+              <div key={account.id} className="flex items-center justify-between border rounded-md p-2">
+                <div>
+                  <p className="text-sm font-medium">{account.username}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {account.lockReason || 'Locked'}
+                    {account.lastLoginIp && ` · last login from ${account.lastLoginIp}`}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleUnlock(account.id, account.username)}
+                  disabled={unlockMutation.isPending}
+                >
+                  <Unlock className="h-4 w-4 mr-1" />
+                  Unlock
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h3 className="text-lg font-medium">Audit Trail</h3>
+          <div className="flex flex-wrap items-center gap-4">
+            <Select value={status} onValueChange={(value) => setStatus(value as SecurityAuditStatus | 'all')}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="success">Success</SelectItem>
+                <SelectItem value="failure">Failure</SelectItem>
+                <SelectItem value="denied">Denied</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Switch id="audit-suspicious" checked={suspiciousOnly} onCheckedChange={setSuspiciousOnly} />
+              <Label htmlFor="audit-suspicious">Suspicious only</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="audit-unreviewed" checked={unreviewedOnly} onCheckedChange={setUnreviewedOnly} />
+              <Label htmlFor="audit-unreviewed">Unreviewed only</Label>
+            </div>
+          </div>
+        </div>
+
+        <Table className="mt-4">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Time</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Resource</TableHead>
+              <TableHead>User</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Risk</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading && (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-gray-500">Loading audit log...</TableCell>
+              </TableRow>
+            )}
+            {!isLoading && entries.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-gray-500">No matching audit entries.</TableCell>
+              </TableRow>
+            )}
+            {entries.map(entry => (
+              <TableRow key={entry.id} className={entry.isSuspicious && !entry.reviewedAt ? 'bg-red-50 dark:bg-red-950/20' : undefined}>
+                <TableCell className="whitespace-nowrap text-xs">
+                  {format(new Date(entry.timestamp), 'MMM d, HH:mm:ss')}
+                </TableCell>
+                <TableCell className="font-mono text-xs">{entry.action}</TableCell>
+                <TableCell className="text-xs">
+                  {entry.resourceType}{entry.resourceId && ` #${entry.resourceId}`}
+                </TableCell>
+                <TableCell className="text-xs">{entry.userId ?? '—'}</TableCell>
+                <TableCell className="text-xs">
+                  {entry.ipAddress || '—'}
+                  {entry.authenticationType && (
+                    <span className="text-gray-500"> ({entry.authenticationType})</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={STATUS_VARIANTS[entry.status] || 'outline'}>{entry.status}</Badge>
+                  {entry.failureReason && (
+                    <p className="text-xs text-gray-500 mt-1">{entry.failureReason}</p>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs">
+                  <div className="flex items-center gap-1">
+                    {entry.isSuspicious && <AlertTriangle className="h-4 w-4 text-red-500" />}
+                    {Number(entry.riskScore ?? 0)}
+                  </div>
+                  {entry.details?.riskFactors && (
+                    <p className="text-gray-500 mt-1">{entry.details.riskFactors.join(', ')}</p>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {entry.reviewedAt ? (
+                    <span className="flex items-center justify-end gap-1 text-xs text-gray-500">
+                      <CheckCircle className="h-4 w-4 text-green-500" />
+                      {format(new Date(entry.reviewedAt), 'MMM d')}
+                    </span>
+                  ) : entry.isSuspicious && (
+                    <Button size="sm" variant="outline" onClick={() => handleReview(entry.id)} disabled={reviewMutation.isPending}>
+                      Mark reviewed
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
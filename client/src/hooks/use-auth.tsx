@@ -19,8 +19,17 @@ const resendVerificationSchema = z.object({
   email: z.string().email("Please enter a valid email address")
 });
 
+const twoFactorLoginSchema = z.object({
+  code: z.string().length(6, "Verification code must be 6 digits").optional(),
+  recoveryCode: z.string().min(10, "Recovery codes look like xxxxx-xxxxx").optional(),
+});
+
 type VerifyEmailData = z.infer<typeof verifyEmailSchema>;
 type ResendVerificationData = z.infer<typeof resendVerificationSchema>;
+type TwoFactorLoginData = z.infer<typeof twoFactorLoginSchema>;
+
+// Login responds with the user, or asks for the second factor first
+type LoginResponse = Omit<SelectUser, "password"> | { twoFactorRequired: true };
 
 type AuthContextType = {
   user: SelectUser | null;
@@ -28,7 +37,8 @@ type AuthContextType = {
   error: Error | null;
   isEmailVerified: boolean;
   isEmailVerificationLoading: boolean;
-  loginMutation: UseMutationResult<Omit<SelectUser, "password">, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResponse, Error, LoginData>;
+  twoFactorLoginMutation: UseMutationResult<Omit<SelectUser, "password">, Error, TwoFactorLoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<Omit<SelectUser, "password">, Error, RegisterData>;
   verifyEmailMutation: UseMutationResult<{ message: string }, Error, VerifyEmailData>;
@@ -103,6 +113,34 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
       return await res.json();
     },
+    onSuccess: (response: LoginResponse) => {
+      if ("twoFactorRequired" in response) {
+        return;
+      }
+      queryClient.setQueryData(["/api/user"], response);
+      toast({
+        title: "Login successful",
+        description: `Welcome back, ${response.username}!`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const twoFactorLoginMutation = useMutation({
+    mutationFn: async (data: TwoFactorLoginData) => {
+      const res = await apiRequest("POST", "/api/login/2fa", data);
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.message || "Verification failed");
+      }
+      return await res.json();
+    },
     onSuccess: (user) => {
       queryClient.setQueryData(["/api/user"], user);
       toast({
@@ -112,7 +150,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onError: (error: Error) => {
       toast({
-        title: "Login failed",
+        title: "Verification failed",
         description: error.message,
         variant: "destructive",
       });
@@ -230,6 +268,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isEmailVerified: emailVerificationData?.verified ?? false,
         isEmailVerificationLoading,
         loginMutation,
+        twoFactorLoginMutation,
         logoutMutation,
         registerMutation,
         verifyEmailMutation,
@@ -249,4 +288,4 @@ export function useAuth() {
   return context;
 }
 
-export { loginSchema, registerSchema, verifyEmailSchema, resendVerificationSchema };
\ No newline at end of file
+export { loginSchema, registerSchema, verifyEmailSchema, resendVerificationSchema, twoFactorLoginSchema };
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+export type ApiKeyAccessLevel = 'read_only' | 'device_control' | 'full_access' | 'admin';
+
+export interface ApiKey {
+  id: number;
+  name: string;
+  key: string;
+  userId: number | null;
+  accessLevel: ApiKeyAccessLevel;
+  scopes: string[];
+  allowedIps: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  isActive: boolean;
+  createdAt: string | null;
+  rotationEnabled: boolean;
+  rotationIntervalDays: number | null;
+  lastRotatedAt: string | null;
+  rotationDue: boolean;
+  previousSecrets: { rotatedAt: string; graceExpiresAt: string }[];
+}
+
+export interface ApiKeyScopeOptions {
+  scopes: Record<string, string>;
+  accessLevels: ApiKeyAccessLevel[];
+}
+
+export interface IssueApiKeyData {
+  name: string;
+  accessLevel: ApiKeyAccessLevel;
+  scopes?: string[];
+  allowedIps?: string[];
+  expiresAt?: string | null;
+  rotationEnabled?: boolean;
+  rotationIntervalDays?: number | null;
+}
+
+// Issue and rotate responses carry the full token, which is only shown once
+export interface ApiKeyWithToken {
+  apiKey: ApiKey;
+  token: string;
+}
+
+// Get API keys owned by the current user
+export function useApiKeys() {
+  return useQuery<ApiKey[]>({
+    queryKey: ['/api/api-keys'],
+  });
+}
+
+// Get the scopes and access levels the current user may issue
+export function useApiKeyScopes() {
+  return useQuery<ApiKeyScopeOptions>({
+    queryKey: ['/api/api-keys/scopes'],
+  });
+}
+
+// Issue a new API key
+export function useIssueApiKey() {
+  return useMutation({
+    mutationFn: async (keyData: IssueApiKeyData): Promise<ApiKeyWithToken> => {
+      const response = await apiRequest('POST', '/api/api-keys', keyData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-keys'] });
+    },
+  });
+}
+
+// Rotate an API key, keeping the old secret valid for the grace period
+export function useRotateApiKey() {
+  return useMutation({
+    mutationFn: async ({ id, gracePeriodHours }: { id: number; gracePeriodHours: number }): Promise<ApiKeyWithToken> => {
+      const response = await apiRequest('POST', `/api/api-keys/${id}/rotate`, { gracePeriodHours });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-keys'] });
+    },
+  });
+}
+
+// Revoke an API key
+export function useRevokeApiKey() {
+  return useMutation({
+    mutationFn: async (id: number): Promise<ApiKey> => {
+      const response = await apiRequest('POST', `/api/api-keys/${id}/revoke`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-keys'] });
+    },
+  });
+}
@@ -1,6 +1,7 @@
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { queryClient, apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { isMfaRequiredError } from '@/hooks/useTwoFactor';
 
 // Device type definition matching server schema
 export interface Device {
@@ -237,6 +238,14 @@ export function useSendDeviceCommand() {
       });
     },
     onError: (error: Error) => {
+      if (isMfaRequiredError(error)) {
+        toast({
+          title: 'Verification required',
+          description: 'Confirm your identity with your authenticator code under Profile > Security, then try again.',
+          variant: 'destructive',
+        });
+        return;
+      }
       toast({
         title: 'Error sending command',
         description: error.message,
@@ -0,0 +1,105 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+export type RateLimitResourceType = 'ip' | 'user' | 'api_key';
+
+export interface RateLimitRule {
+  id: number;
+  resourceType: RateLimitResourceType;
+  resourceId: string | null;
+  limitKey: string;
+  maxRequests: number;
+  timeWindowSeconds: number;
+  blockDurationSeconds: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RateLimitEvent {
+  id: number;
+  limitId: number | null;
+  resourceType: RateLimitResourceType;
+  resourceId: string | null;
+  userId: number | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  timestamp: string;
+  requestCount: number;
+  isBlocked: boolean;
+  blockedUntil: string | null;
+}
+
+export interface BlockedClient {
+  event: RateLimitEvent;
+  limitKey: string | null;
+}
+
+export type RateLimitRuleData = Omit<RateLimitRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Get configured rate limit rules
+export function useRateLimitRules(enabled: boolean = true) {
+  return useQuery<RateLimitRule[]>({
+    queryKey: ['/api/rate-limits/rules'],
+    enabled,
+  });
+}
+
+// Get currently blocked clients
+export function useBlockedClients(enabled: boolean = true) {
+  return useQuery<BlockedClient[]>({
+    queryKey: ['/api/rate-limits/blocked'],
+    enabled,
+    refetchInterval: 30 * 1000, // Blocks expire on their own
+  });
+}
+
+// Create a rate limit rule
+export function useCreateRateLimitRule() {
+  return useMutation({
+    mutationFn: async (ruleData: RateLimitRuleData) => {
+      const response = await apiRequest('POST', '/api/rate-limits/rules', ruleData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rate-limits/rules'] });
+    },
+  });
+}
+
+// Update a rate limit rule
+export function useUpdateRateLimitRule() {
+  return useMutation({
+    mutationFn: async ({ id, ruleData }: { id: number; ruleData: Partial<RateLimitRuleData> }) => {
+      const response = await apiRequest('PUT', `/api/rate-limits/rules/${id}`, ruleData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rate-limits/rules'] });
+    },
+  });
+}
+
+// Delete a rate limit rule
+export function useDeleteRateLimitRule() {
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/rate-limits/rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rate-limits/rules'] });
+    },
+  });
+}
+
+// Lift a block before it expires
+export function useUnblockClient() {
+  return useMutation({
+    mutationFn: async (eventId: number) => {
+      const response = await apiRequest('POST', `/api/rate-limits/blocked/${eventId}/unblock`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rate-limits/blocked'] });
+    },
+  });
+}
@@ -0,0 +1,111 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+export type SecurityAuditStatus = 'success' | 'failure' | 'denied';
+
+export interface SecurityAuditEntry {
+  id: number;
+  timestamp: string;
+  userId: number | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  action: string;
+  resourceType: string;
+  resourceId: string | null;
+  details: Record<string, any> | null;
+  status: SecurityAuditStatus;
+  failureReason: string | null;
+  sessionId: string | null;
+  authenticationType: string | null;
+  riskScore: string | null;
+  isSuspicious: boolean;
+  reviewedBy: number | null;
+  reviewedAt: string | null;
+}
+
+export interface LockedAccount {
+  id: number;
+  username: string;
+  email: string | null;
+  role: string | null;
+  lockReason: string | null;
+  failedLoginAttempts: number | null;
+  lastLoginAt: string | null;
+  lastLoginIp: string | null;
+}
+
+export interface SecurityAuditSummary {
+  unreviewedSuspicious: number;
+  lockedAccounts: number;
+}
+
+export interface SecurityAuditFilters {
+  action?: string;
+  status?: SecurityAuditStatus;
+  suspicious?: boolean;
+  unreviewed?: boolean;
+  limit?: number;
+}
+
+// Get audit log entries matching the filters
+export function useSecurityAuditLog(filters: SecurityAuditFilters = {}) {
+  const params = new URLSearchParams();
+  if (filters.action) params.set('action', filters.action);
+  if (filters.status) params.set('status', filters.status);
+  if (filters.suspicious) params.set('suspicious', 'true');
+  if (filters.unreviewed) params.set('unreviewed', 'true');
+  if (filters.limit) params.set('limit', String(filters.limit));
+  const query = params.toString();
+
+  return useQuery<SecurityAuditEntry[]>({
+    queryKey: [query ? `/api/security-audit?${query}` : '/api/security-audit'],
+  });
+}
+
+// Get counts of entries needing attention
+export function useSecurityAuditSummary() {
+  return useQuery<SecurityAuditSummary>({
+    queryKey: ['/api/security-audit/summary'],
+    refetchInterval: 60 * 1000,
+  });
+}
+
+// Get locked user accounts
+export function useLockedAccounts() {
+  return useQuery<LockedAccount[]>({
+    queryKey: ['/api/security-audit/locked-accounts'],
+  });
+}
+
+// Mark an audit entry as reviewed
+export function useReviewAuditEntry() {
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/security-audit/${id}/review`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      invalidateSecurityAudit();
+    },
+  });
+}
+
+// Unlock a locked account
+export function useUnlockAccount() {
+  return useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest('POST', `/api/security-audit/locked-accounts/${userId}/unlock`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      invalidateSecurityAudit();
+    },
+  });
+}
+
+// Audit log queries are keyed by their full URL, so match them by prefix
+function invalidateSecurityAudit() {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith('/api/security-audit'),
+  });
+}
@@ -1,5 +1,18 @@
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { queryClient } from '@/lib/queryClient';
+import type { Tariff } from '@shared/schema';
+import type { ResolvedTariffRate, TariffDefinition } from '@shared/tariffSchema';
+
+// Site tariff with its declarative definition
+export type SiteTariff = Tariff & { definition: TariffDefinition };
+
+// Rate in effect now, resolved in the site's local time
+export interface CurrentTariffRate extends ResolvedTariffRate {
+  rate: number;
+  timestamp: string;
+  isTimeOfUse: boolean;
+  region: string | null;
+}
 
 export function useSiteTariffs(siteId: number | undefined) {
   return useQuery({
@@ -18,7 +31,7 @@ export function useSiteTariffs(siteId: number | undefined) {
 }
 
 export function useSiteTariff(siteId: number | undefined) {
-  return useQuery({
+  return useQuery<SiteTariff | null>({
     queryKey: ['/api/sites', siteId, 'tariff'],
     queryFn: async () => {
       if (!siteId) return null;
@@ -34,7 +47,7 @@ export function useSiteTariff(siteId: number | undefined) {
 }
 
 export function useCurrentTariffRate(siteId: number | undefined) {
-  return useQuery({
+  return useQuery<CurrentTariffRate | null>({
     queryKey: ['/api/sites', siteId, 'tariff', 'rate'],
     queryFn: async () => {
       if (!siteId) return null;
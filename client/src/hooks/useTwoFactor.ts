@@ -0,0 +1,94 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+  stepUpValid: boolean;
+  stepUpExpiresAt: string | null;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+// Get two-factor status for the current user
+export function useTwoFactorStatus() {
+  return useQuery<TwoFactorStatus>({
+    queryKey: ['/api/2fa/status'],
+  });
+}
+
+// Start enrollment and get the QR code to scan
+export function useStartTwoFactorSetup() {
+  return useMutation({
+    mutationFn: async (): Promise<TwoFactorEnrollment> => {
+      const response = await apiRequest('POST', '/api/2fa/setup');
+      return await response.json();
+    },
+  });
+}
+
+// Confirm enrollment with a code from the authenticator app
+export function useEnableTwoFactor() {
+  return useMutation({
+    mutationFn: async (code: string): Promise<{ recoveryCodes: string[] }> => {
+      const response = await apiRequest('POST', '/api/2fa/enable', { code });
+      return await response.json();
+    },
+    onSuccess: () => {
+      invalidateTwoFactor();
+    },
+  });
+}
+
+// Turn off two-factor authentication
+export function useDisableTwoFactor() {
+  return useMutation({
+    mutationFn: async (data: { password: string; code?: string; recoveryCode?: string }) => {
+      const response = await apiRequest('POST', '/api/2fa/disable', data);
+      return await response.json();
+    },
+    onSuccess: () => {
+      invalidateTwoFactor();
+    },
+  });
+}
+
+// Replace the recovery codes
+export function useRegenerateRecoveryCodes() {
+  return useMutation({
+    mutationFn: async (code: string): Promise<{ recoveryCodes: string[] }> => {
+      const response = await apiRequest('POST', '/api/2fa/recovery-codes', { code });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/2fa/status'] });
+    },
+  });
+}
+
+// Re-enter a second factor before commands that require MFA
+export function useStepUpVerification() {
+  return useMutation({
+    mutationFn: async (code: string): Promise<{ stepUpExpiresAt: string }> => {
+      const response = await apiRequest('POST', '/api/2fa/verify', { code });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/2fa/status'] });
+    },
+  });
+}
+
+// Whether an API error is a command denied for missing step-up verification
+export function isMfaRequiredError(error: Error): boolean {
+  return error.message.includes('MFA_REQUIRED');
+}
+
+function invalidateTwoFactor() {
+  queryClient.invalidateQueries({ queryKey: ['/api/2fa/status'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+}
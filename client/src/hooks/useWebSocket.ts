@@ -251,6 +251,20 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     return sendMessage(message);
   }, [sendMessage]);
   
+  /**
+   * Subscribe to several topics at once, e.g. 'site:1', 'device:7', 'alarms:1', 'optimization:1'
+   */
+  const subscribeToTopics = useCallback((topics: string[]): boolean => {
+    return sendMessage({ type: 'subscribe', topics });
+  }, [sendMessage]);
+  
+  /**
+   * Unsubscribe from several topics at once
+   */
+  const unsubscribeFromTopics = useCallback((topics: string[]): boolean => {
+    return sendMessage({ type: 'unsubscribe', topics });
+  }, [sendMessage]);
+  
   // Connect on mount, disconnect on unmount
   useEffect(() => {
     if (autoConnect) {
@@ -269,6 +283,8 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     sendMessage,
     subscribe,
     unsubscribe,
+    subscribeToTopics,
+    unsubscribeFromTopics,
     connect,
     disconnect
   };
@@ -1,7 +1,9 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { useSiteContext } from '@/hooks/use-site-context';
 import { useToast } from '@/hooks/use-toast';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 import { format } from 'date-fns';
 import {
   Bell,
@@ -46,37 +48,49 @@ import { Skeleton } from "@/components/ui/skeleton";
 
 // Define interface for alarm data
 interface AlarmData {
-  id: string;
-  deviceId: string;
-  deviceName: string;
-  deviceType: string;
-  alarmType: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
+  id: number;
+  siteId: number | null;
+  deviceId: number | null;
+  deviceName: string | null;
+  deviceType: string | null;
+  title: string;
   message: string;
+  code: string | null;
+  source: string | null;
+  severity: 'info' | 'warning' | 'error' | 'critical';
+  status: 'new' | 'acknowledged' | 'resolved' | 'dismissed';
   timestamp: string;
-  status: 'active' | 'acknowledged' | 'resolved';
-  acknowledgedBy?: string;
-  acknowledgedAt?: string;
-  resolvedBy?: string;
-  resolvedAt?: string;
-  source: string;
-  metricName?: string;
-  metricValue?: number;
-  thresholdValue?: number;
+  lastOccurrenceAt: string | null;
+  occurrenceCount: number | null;
+  acknowledgedBy: number | null;
+  acknowledgedByName: string | null;
+  acknowledgedAt: string | null;
+  resolvedBy: number | null;
+  resolvedByName: string | null;
+  resolvedAt: string | null;
+  resolutionNotes: string | null;
+  autoCleared: boolean | null;
+  data: {
+    metricName?: string;
+    metricValue?: number;
+    thresholdValue?: number;
+    [key: string]: any;
+  } | null;
 }
 
 // Define interface for alarm statistics
 interface AlarmStats {
   total: number;
-  critical: number;
-  high: number;
-  medium: number;
-  low: number;
   active: number;
   acknowledged: number;
   resolved: number;
+  autoCleared: number;
+  critical: number;
+  error: number;
+  warning: number;
+  info: number;
   byDevice: {
-    deviceId: string;
+    deviceId: number;
     deviceName: string;
     count: number;
   }[];
@@ -84,8 +98,22 @@ interface AlarmStats {
     type: string;
     count: number;
   }[];
+  meanTimeToAcknowledgeMinutes: number | null;
+  meanTimeToResolveMinutes: number | null;
+  timeline: {
+    date: string;
+    total: number;
+    critical: number;
+    error: number;
+    warning: number;
+    info: number;
+  }[];
 }
 
+// Format a machine-readable alarm code for display
+const formatCode = (code: string | null) =>
+  (code || 'unknown').replace(/[_:]/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
 const AlarmsPage: React.FC = () => {
   const { toast } = useToast();
   const { currentSiteId } = useSiteContext();
@@ -128,6 +156,22 @@ const AlarmsPage: React.FC = () => {
     enabled: !!currentSiteId,
   });
   
+  // Refresh alarm lists and statistics whenever the server reports an alarm lifecycle change
+  const { isConnected, subscribe } = useWebSocket({
+    onMessage: (message) => {
+      if (message.type === 'alarm') {
+        queryClient.invalidateQueries({ queryKey: ['/api/alarms'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/alarms/stats'] });
+      }
+    },
+  });
+  
+  useEffect(() => {
+    if (currentSiteId && isConnected) {
+      subscribe(currentSiteId);
+    }
+  }, [currentSiteId, isConnected, subscribe]);
+  
   // Filter alarms based on user selection
   const filteredAlarms = React.useMemo(() => {
     if (!alarms) return [];
@@ -144,7 +188,7 @@ const AlarmsPage: React.FC = () => {
       }
       
       // Apply device filter
-      if (deviceFilter !== 'all' && alarm.deviceId !== deviceFilter) {
+      if (deviceFilter !== 'all' && String(alarm.deviceId) !== deviceFilter) {
         return false;
       }
       
@@ -152,10 +196,11 @@ const AlarmsPage: React.FC = () => {
       if (searchQuery) {
         const query = searchQuery.toLowerCase();
         return (
-          alarm.deviceName.toLowerCase().includes(query) ||
+          (alarm.deviceName || '').toLowerCase().includes(query) ||
+          alarm.title.toLowerCase().includes(query) ||
           alarm.message.toLowerCase().includes(query) ||
-          alarm.alarmType.toLowerCase().includes(query) ||
-          alarm.source.toLowerCase().includes(query)
+          (alarm.code || '').toLowerCase().includes(query) ||
+          (alarm.source || '').toLowerCase().includes(query)
         );
       }
       
@@ -163,26 +208,27 @@ const AlarmsPage: React.FC = () => {
     });
   }, [alarms, statusFilter, severityFilter, deviceFilter, searchQuery]);
   
+  // Refresh alarm lists, statistics and the open detail view after a lifecycle change
+  const refreshAfterUpdate = (updated: AlarmData) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/alarms'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/alarms/stats'] });
+    if (selectedAlarm?.id === updated.id) {
+      setSelectedAlarm({ ...selectedAlarm, ...updated });
+    }
+  };
+  
   // Handle alarm acknowledgement
-  const handleAcknowledgeAlarm = async (alarmId: string) => {
+  const handleAcknowledgeAlarm = async (alarmId: number) => {
     try {
-      const res = await fetch(`/api/alarms/${alarmId}/acknowledge`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-      
-      if (!res.ok) {
-        throw new Error('Failed to acknowledge alarm');
-      }
+      const res = await apiRequest('POST', `/api/alarms/${alarmId}/acknowledge`);
+      const updated = await res.json();
       
       toast({
         title: 'Alarm Acknowledged',
         description: 'The alarm has been successfully acknowledged.',
       });
       
-      refetchAlarms();
+      refreshAfterUpdate(updated);
     } catch (error) {
       console.error('Error acknowledging alarm:', error);
       toast({
@@ -194,25 +240,17 @@ const AlarmsPage: React.FC = () => {
   };
   
   // Handle alarm resolution
-  const handleResolveAlarm = async (alarmId: string) => {
+  const handleResolveAlarm = async (alarmId: number) => {
     try {
-      const res = await fetch(`/api/alarms/${alarmId}/resolve`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-      
-      if (!res.ok) {
-        throw new Error('Failed to resolve alarm');
-      }
+      const res = await apiRequest('POST', `/api/alarms/${alarmId}/resolve`);
+      const updated = await res.json();
       
       toast({
         title: 'Alarm Resolved',
         description: 'The alarm has been successfully resolved.',
       });
       
-      refetchAlarms();
+      refreshAfterUpdate(updated);
     } catch (error) {
       console.error('Error resolving alarm:', error);
       toast({
@@ -233,25 +271,25 @@ const AlarmsPage: React.FC = () => {
             Critical
           </Badge>
         );
-      case 'high':
+      case 'error':
         return (
           <Badge variant="destructive" className="flex gap-1 items-center bg-orange-600">
             <AlertTriangle className="h-3 w-3" />
-            High
+            Error
           </Badge>
         );
-      case 'medium':
+      case 'warning':
         return (
           <Badge variant="outline" className="flex gap-1 items-center bg-amber-100 text-amber-700 border-amber-200">
             <AlertTriangle className="h-3 w-3" />
-            Medium
+            Warning
           </Badge>
         );
-      case 'low':
+      case 'info':
         return (
           <Badge variant="outline" className="flex gap-1 items-center bg-blue-100 text-blue-700 border-blue-200">
             <Bell className="h-3 w-3" />
-            Low
+            Info
           </Badge>
         );
       default:
@@ -266,7 +304,7 @@ const AlarmsPage: React.FC = () => {
   // Function to render status badge
   const renderStatusBadge = (status: string) => {
     switch (status) {
-      case 'active':
+      case 'new':
         return (
           <Badge variant="outline" className="flex gap-1 items-center bg-red-100 text-red-700 border-red-200">
             <Zap className="h-3 w-3" />
@@ -297,7 +335,8 @@ const AlarmsPage: React.FC = () => {
   };
   
   // Function to format timestamp
-  const formatTimestamp = (dateString: string) => {
+  const formatTimestamp = (dateString: string | null) => {
+    if (!dateString) return '';
     try {
       return format(new Date(dateString), 'MMM d, yyyy h:mm a');
     } catch (e) {
@@ -380,15 +419,15 @@ const AlarmsPage: React.FC = () => {
         
         <Card>
           <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">High</CardTitle>
+            <CardTitle className="text-sm font-medium">Error</CardTitle>
           </CardHeader>
           <CardContent>
             {isLoadingStats ? (
               <Skeleton className="h-10 w-full" />
             ) : (
               <div className="flex items-center">
-                <div className="text-2xl font-bold">{alarmStats?.high || 0}</div>
-                {(alarmStats?.high || 0) > 0 && (
+                <div className="text-2xl font-bold">{alarmStats?.error || 0}</div>
+                {(alarmStats?.error || 0) > 0 && (
                   <div className="ml-2 w-4 h-4 rounded-full bg-orange-500"></div>
                 )}
               </div>
@@ -408,19 +447,19 @@ const AlarmsPage: React.FC = () => {
                 <div className="flex justify-between text-xs text-muted-foreground mb-1">
                   <div>Health Score</div>
                   <div className="font-medium">
-                    {alarmStats?.critical || alarmStats?.high 
+                    {alarmStats?.critical || alarmStats?.error 
                       ? "Attention Required" 
                       : "Good"}
                   </div>
                 </div>
                 <Progress 
-                  value={alarmStats?.critical || alarmStats?.high 
-                    ? 60 - ((alarmStats?.critical || 0) * 20) - ((alarmStats?.high || 0) * 10)
+                  value={alarmStats?.critical || alarmStats?.error 
+                    ? Math.max(0, 60 - ((alarmStats?.critical || 0) * 20) - ((alarmStats?.error || 0) * 10))
                     : 90
                   } 
                   className={
                     alarmStats?.critical ? "bg-red-200" : 
-                    alarmStats?.high ? "bg-orange-200" : 
+                    alarmStats?.error ? "bg-orange-200" : 
                     "bg-green-200"
                   }
                 />
@@ -470,7 +509,7 @@ const AlarmsPage: React.FC = () => {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Statuses</SelectItem>
-                      <SelectItem value="active">Active</SelectItem>
+                      <SelectItem value="new">Active</SelectItem>
                       <SelectItem value="acknowledged">Acknowledged</SelectItem>
                       <SelectItem value="resolved">Resolved</SelectItem>
                     </SelectContent>
@@ -486,9 +525,9 @@ const AlarmsPage: React.FC = () => {
                     <SelectContent>
                       <SelectItem value="all">All Severities</SelectItem>
                       <SelectItem value="critical">Critical</SelectItem>
-                      <SelectItem value="high">High</SelectItem>
-                      <SelectItem value="medium">Medium</SelectItem>
-                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="error">Error</SelectItem>
+                      <SelectItem value="warning">Warning</SelectItem>
+                      <SelectItem value="info">Info</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -501,11 +540,11 @@ const AlarmsPage: React.FC = () => {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Devices</SelectItem>
-                      {alarms && Array.from(new Set(alarms.map(a => a.deviceId))).map(deviceId => {
+                      {alarms && Array.from(new Set(alarms.filter(a => a.deviceId !== null).map(a => a.deviceId))).map(deviceId => {
                         const device = alarms.find(a => a.deviceId === deviceId);
                         return (
-                          <SelectItem key={deviceId} value={deviceId}>
-                            {device?.deviceName || deviceId}
+                          <SelectItem key={deviceId} value={String(deviceId)}>
+                            {device?.deviceName || `Device ${deviceId}`}
                           </SelectItem>
                         );
                       })}
@@ -571,16 +610,18 @@ const AlarmsPage: React.FC = () => {
               {filteredAlarms.filter(alarm => alarm.status !== 'resolved').map((alarm) => (
                 <Card key={alarm.id} className={
                   alarm.severity === 'critical' ? 'border-l-4 border-l-red-500' :
-                  alarm.severity === 'high' ? 'border-l-4 border-l-orange-500' :
-                  alarm.severity === 'medium' ? 'border-l-4 border-l-amber-500' :
+                  alarm.severity === 'error' ? 'border-l-4 border-l-orange-500' :
+                  alarm.severity === 'warning' ? 'border-l-4 border-l-amber-500' :
                   'border-l-4 border-l-blue-500'
                 }>
                   <CardContent className="p-4">
                     <div className="flex justify-between">
                       <div className="space-y-1">
                         <div className="flex items-center gap-2">
-                          <h3 className="font-medium">{alarm.deviceName}</h3>
-                          <span className="text-xs text-muted-foreground">({alarm.deviceType})</span>
+                          <h3 className="font-medium">{alarm.title}</h3>
+                          {alarm.deviceName && (
+                            <span className="text-xs text-muted-foreground">{alarm.deviceName} ({alarm.deviceType})</span>
+                          )}
                         </div>
                         <p className="text-sm">{alarm.message}</p>
                         <div className="flex gap-2 pt-1">
@@ -590,6 +631,12 @@ const AlarmsPage: React.FC = () => {
                             <Clock className="h-3 w-3" />
                             {formatTimestamp(alarm.timestamp)}
                           </Badge>
+                          {(alarm.occurrenceCount || 1) > 1 && (
+                            <Badge variant="outline">×{alarm.occurrenceCount}</Badge>
+                          )}
+                          {alarm.autoCleared && (
+                            <Badge variant="outline">Auto-cleared</Badge>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-start gap-2">
@@ -609,12 +656,12 @@ const AlarmsPage: React.FC = () => {
                           <DropdownMenuContent align="end">
                             <DropdownMenuLabel>Actions</DropdownMenuLabel>
                             <DropdownMenuSeparator />
-                            {alarm.status === 'active' && (
+                            {alarm.status === 'new' && (
                               <DropdownMenuItem onClick={() => handleAcknowledgeAlarm(alarm.id)}>
                                 Acknowledge
                               </DropdownMenuItem>
                             )}
-                            {(alarm.status === 'active' || alarm.status === 'acknowledged') && (
+                            {(alarm.status === 'new' || alarm.status === 'acknowledged') && (
                               <DropdownMenuItem onClick={() => handleResolveAlarm(alarm.id)}>
                                 Resolve
                               </DropdownMenuItem>
@@ -667,8 +714,10 @@ const AlarmsPage: React.FC = () => {
                     <div className="flex justify-between">
                       <div className="space-y-1">
                         <div className="flex items-center gap-2">
-                          <h3 className="font-medium">{alarm.deviceName}</h3>
-                          <span className="text-xs text-muted-foreground">({alarm.deviceType})</span>
+                          <h3 className="font-medium">{alarm.title}</h3>
+                          {alarm.deviceName && (
+                            <span className="text-xs text-muted-foreground">{alarm.deviceName} ({alarm.deviceType})</span>
+                          )}
                         </div>
                         <p className="text-sm">{alarm.message}</p>
                         <div className="flex gap-2 pt-1">
@@ -678,6 +727,12 @@ const AlarmsPage: React.FC = () => {
                             <Clock className="h-3 w-3" />
                             {formatTimestamp(alarm.timestamp)}
                           </Badge>
+                          {(alarm.occurrenceCount || 1) > 1 && (
+                            <Badge variant="outline">×{alarm.occurrenceCount}</Badge>
+                          )}
+                          {alarm.autoCleared && (
+                            <Badge variant="outline">Auto-cleared</Badge>
+                          )}
                         </div>
                       </div>
                       <Button 
@@ -756,7 +811,7 @@ const AlarmsPage: React.FC = () => {
                     {alarmStats.byType.map((item) => (
                       <div key={item.type} className="space-y-1">
                         <div className="flex justify-between text-sm">
-                          <span>{item.type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}</span>
+                          <span>{formatCode(item.type)}</span>
                           <span className="font-medium">{item.count}</span>
                         </div>
                         <Progress value={(item.count / alarmStats.total) * 100} className="h-2" />
@@ -772,15 +827,55 @@ const AlarmsPage: React.FC = () => {
             <CardHeader>
               <CardTitle>Alarm Trends</CardTitle>
               <CardDescription>
-                Historical trend of alarms over time
+                Alarms raised per day and response times over the last 7 days
               </CardDescription>
             </CardHeader>
-            <CardContent className="h-[300px]">
+            <CardContent>
               {isLoadingStats ? (
-                <Skeleton className="h-full w-full" />
+                <Skeleton className="h-[300px] w-full" />
+              ) : !alarmStats?.timeline?.length ? (
+                <div className="text-center py-6 text-muted-foreground">
+                  No alarm trend data available
+                </div>
               ) : (
-                <div className="flex items-center justify-center h-full text-muted-foreground">
-                  <p>Alarm trend data visualization will be displayed here</p>
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <div className="text-muted-foreground">Mean time to acknowledge</div>
+                      <div className="font-medium">
+                        {alarmStats.meanTimeToAcknowledgeMinutes !== null ? `${alarmStats.meanTimeToAcknowledgeMinutes} min` : '—'}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">Mean time to resolve</div>
+                      <div className="font-medium">
+                        {alarmStats.meanTimeToResolveMinutes !== null ? `${alarmStats.meanTimeToResolveMinutes} min` : '—'}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">Resolved</div>
+                      <div className="font-medium">{alarmStats.resolved}</div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">Auto-cleared</div>
+                      <div className="font-medium">{alarmStats.autoCleared}</div>
+                    </div>
+                  </div>
+                  <Separator />
+                  {alarmStats.timeline.map((day) => {
+                    const maxDaily = Math.max(...alarmStats.timeline.map(d => d.total), 1);
+                    return (
+                      <div key={day.date} className="space-y-1">
+                        <div className="flex justify-between text-sm">
+                          <span>{format(new Date(day.date), 'EEE, MMM d')}</span>
+                          <span className="text-muted-foreground">
+                            {day.total} total · {day.critical} critical · {day.error} error · {day.warning} warning
+                          </span>
+                        </div>
+                        <Progress value={(day.total / maxDaily) * 100} className="h-2" />
+                      </div>
+                    );
+                  })}
                 </div>
               )}
             </CardContent>
@@ -803,13 +898,27 @@ const AlarmsPage: React.FC = () => {
             </SheetHeader>
             <div className="py-4 space-y-4">
               <div className="space-y-1">
-                <h3 className="text-sm font-semibold text-muted-foreground">Device</h3>
-                <p className="text-sm">{selectedAlarm.deviceName} ({selectedAlarm.deviceType})</p>
+                <h3 className="text-sm font-semibold text-muted-foreground">Alarm</h3>
+                <p className="text-sm">{selectedAlarm.title}</p>
               </div>
               
-              <div className="space-y-1">
-                <h3 className="text-sm font-semibold text-muted-foreground">Alarm Type</h3>
-                <p className="text-sm">{selectedAlarm.alarmType.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}</p>
+              {selectedAlarm.deviceName && (
+                <div className="space-y-1">
+                  <h3 className="text-sm font-semibold text-muted-foreground">Device</h3>
+                  <p className="text-sm">{selectedAlarm.deviceName} ({selectedAlarm.deviceType})</p>
+                </div>
+              )}
+              
+              <div className="flex gap-4">
+                <div className="space-y-1">
+                  <h3 className="text-sm font-semibold text-muted-foreground">Alarm Type</h3>
+                  <p className="text-sm">{formatCode(selectedAlarm.code)}</p>
+                </div>
+                
+                <div className="space-y-1">
+                  <h3 className="text-sm font-semibold text-muted-foreground">Source</h3>
+                  <p className="text-sm">{formatCode(selectedAlarm.source)}</p>
+                </div>
               </div>
               
               <div className="space-y-1">
@@ -834,51 +943,65 @@ const AlarmsPage: React.FC = () => {
                 <p className="text-sm">{formatTimestamp(selectedAlarm.timestamp)}</p>
               </div>
               
-              {selectedAlarm.metricName && (
+              {(selectedAlarm.occurrenceCount || 1) > 1 && (
+                <div className="space-y-1">
+                  <h3 className="text-sm font-semibold text-muted-foreground">Occurrences</h3>
+                  <p className="text-sm">{selectedAlarm.occurrenceCount} times, last at {formatTimestamp(selectedAlarm.lastOccurrenceAt)}</p>
+                </div>
+              )}
+              
+              {selectedAlarm.data?.metricName && (
                 <div className="space-y-1">
                   <h3 className="text-sm font-semibold text-muted-foreground">Metric Information</h3>
                   <div className="grid grid-cols-2 gap-2 text-sm">
                     <div>
-                      <span className="text-muted-foreground">Metric:</span> {selectedAlarm.metricName}
+                      <span className="text-muted-foreground">Metric:</span> {selectedAlarm.data.metricName}
                     </div>
                     <div>
-                      <span className="text-muted-foreground">Value:</span> {selectedAlarm.metricValue}
+                      <span className="text-muted-foreground">Value:</span> {selectedAlarm.data.metricValue}
                     </div>
-                    {selectedAlarm.thresholdValue && (
+                    {selectedAlarm.data.thresholdValue !== undefined && (
                       <div>
-                        <span className="text-muted-foreground">Threshold:</span> {selectedAlarm.thresholdValue}
+                        <span className="text-muted-foreground">Threshold:</span> {selectedAlarm.data.thresholdValue}
                       </div>
                     )}
                   </div>
                 </div>
               )}
               
-              {selectedAlarm.acknowledgedBy && (
+              {selectedAlarm.acknowledgedAt && (
                 <div className="space-y-1">
                   <h3 className="text-sm font-semibold text-muted-foreground">Acknowledged</h3>
-                  <p className="text-sm">By: {selectedAlarm.acknowledgedBy}</p>
-                  <p className="text-sm">At: {formatTimestamp(selectedAlarm.acknowledgedAt || '')}</p>
+                  <p className="text-sm">By: {selectedAlarm.acknowledgedByName || `User ${selectedAlarm.acknowledgedBy}`}</p>
+                  <p className="text-sm">At: {formatTimestamp(selectedAlarm.acknowledgedAt)}</p>
                 </div>
               )}
               
-              {selectedAlarm.resolvedBy && (
+              {selectedAlarm.resolvedAt && (
                 <div className="space-y-1">
                   <h3 className="text-sm font-semibold text-muted-foreground">Resolved</h3>
-                  <p className="text-sm">By: {selectedAlarm.resolvedBy}</p>
-                  <p className="text-sm">At: {formatTimestamp(selectedAlarm.resolvedAt || '')}</p>
+                  <p className="text-sm">
+                    By: {selectedAlarm.autoCleared
+                      ? 'System (condition cleared)'
+                      : selectedAlarm.resolvedByName || `User ${selectedAlarm.resolvedBy}`}
+                  </p>
+                  <p className="text-sm">At: {formatTimestamp(selectedAlarm.resolvedAt)}</p>
+                  {selectedAlarm.resolutionNotes && (
+                    <p className="text-sm">Notes: {selectedAlarm.resolutionNotes}</p>
+                  )}
                 </div>
               )}
               
               <Separator />
               
               <div className="flex justify-end gap-2">
-                {selectedAlarm.status === 'active' && (
+                {selectedAlarm.status === 'new' && (
                   <Button onClick={() => handleAcknowledgeAlarm(selectedAlarm.id)}>
                     Acknowledge
                   </Button>
                 )}
                 
-                {(selectedAlarm.status === 'active' || selectedAlarm.status === 'acknowledged') && (
+                {(selectedAlarm.status === 'new' || selectedAlarm.status === 'acknowledged') && (
                   <Button onClick={() => handleResolveAlarm(selectedAlarm.id)}>
                     Resolve
                   </Button>
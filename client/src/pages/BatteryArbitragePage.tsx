@@ -39,7 +39,8 @@ type ArbitrageStrategy =
   | 'self_consumption'
   | 'ai_optimized'
   | 'lifecycle_optimized'
-  | 'grid_services';
+  | 'grid_services'
+  | 'milp_optimized';
 
 // Strategy info
 const strategyInfo = {
@@ -122,6 +123,16 @@ const strategyInfo = {
       savings: 'High',
       battery: 'Low'
     }
+  },
+  milp_optimized: {
+    name: 'Mathematical Optimization',
+    description: 'Solve the 24-48 hour schedule as a mixed-integer program over prices, load, demand charges and battery wear',
+    icon: <BarChart2 className="h-5 w-5" />,
+    complexity: 'High',
+    impact: {
+      savings: 'Very High',
+      battery: 'Medium'
+    }
   }
 };
 
@@ -19,6 +19,7 @@ import { Progress } from '@/components/ui/progress';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area } from 'recharts';
 import { format } from 'date-fns';
 import VppParticipationWizard from '@/components/vpp/VppParticipationWizard';
+import MpcTrackingPanel from '@/components/dashboard/MpcTrackingPanel';
 
 // Mock data for the optimization panel
 const mockOptimizationModes = [
@@ -172,9 +173,10 @@ export default function OptimizationDashboard() {
         </div>
         
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
             <TabsTrigger value="optimization">Optimization Engine</TabsTrigger>
+            <TabsTrigger value="mpc">Predictive Control</TabsTrigger>
             <TabsTrigger value="vpp">VPP Participation</TabsTrigger>
           </TabsList>
           
@@ -932,6 +934,19 @@ export default function OptimizationDashboard() {
           </TabsContent>
           
           {/* VPP Participation Tab */}
+          {/* Predictive Control Tab */}
+          <TabsContent value="mpc" className="mt-4">
+            {currentSiteId ? (
+              <MpcTrackingPanel siteId={currentSiteId} />
+            ) : (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>No site selected</AlertTitle>
+                <AlertDescription>Select a site to configure predictive control.</AlertDescription>
+              </Alert>
+            )}
+          </TabsContent>
+          
           <TabsContent value="vpp" className="mt-4">
             <VppParticipationWizard />
           </TabsContent>
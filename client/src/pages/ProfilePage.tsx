@@ -12,6 +12,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { LoaderCircle } from 'lucide-react';
 import { AlertTriangle, Mail, User, Lock } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import TwoFactorSettings from '@/components/auth/TwoFactorSettings';
 
 const ProfilePage = () => {
   const { user } = useAuth();
@@ -238,6 +239,8 @@ const ProfilePage = () => {
               </Form>
             </CardContent>
           </Card>
+          
+          <TwoFactorSettings />
         </TabsContent>
       </Tabs>
       
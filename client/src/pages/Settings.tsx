@@ -1,6 +1,10 @@
 import { useState } from 'react';
 import { useSiteSelector, useUpdateSite } from '@/hooks/useSiteData';
+import { useAuth } from '@/hooks/use-auth';
 import PageHeader from '@/components/common/PageHeader';
+import ApiKeysSection from '@/components/settings/ApiKeysSection';
+import RateLimitsSection from '@/components/settings/RateLimitsSection';
+import SecurityAuditSection from '@/components/settings/SecurityAuditSection';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -20,6 +24,8 @@ import {
 
 export default function SettingsPage() {
   const { currentSite } = useSiteSelector();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
   const [activeTab, setActiveTab] = useState('general');
   
   if (!currentSite) {
@@ -50,6 +56,7 @@ export default function SettingsPage() {
           <TabsTrigger value="notifications">Notifications</TabsTrigger>
           <TabsTrigger value="users">User Management</TabsTrigger>
           <TabsTrigger value="system">System</TabsTrigger>
+          {isAdmin && <TabsTrigger value="security">Security Audit</TabsTrigger>}
         </TabsList>
         
         <TabsContent value="general">
@@ -518,55 +525,18 @@ export default function SettingsPage() {
               
               <Separator />
               
-              <div>
-                <h3 className="text-lg font-medium">API Settings</h3>
-                <div className="space-y-4 mt-4">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <Label htmlFor="api-access" className="text-base">API Access</Label>
-                      <p className="text-sm text-gray-500 dark:text-gray-400">
-                        Enable external API access
-                      </p>
-                    </div>
-                    <Switch id="api-access" defaultChecked />
-                  </div>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor="api-key">API Key</Label>
-                    <div className="flex gap-2">
-                      <Input id="api-key" className="font-mono" value="sk_live_51MxQzVCH•••••••••••••••" readOnly />
-                      <Button variant="outline">Regenerate</Button>
-                    </div>
-                    <p className="text-xs text-gray-500 dark:text-gray-400">
-                      Keep this key secure. It provides full access to your energy data.
-                    </p>
-                  </div>
-                  
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <Label htmlFor="rate-limiting" className="text-base">Rate Limiting</Label>
-                      <p className="text-sm text-gray-500 dark:text-gray-400">
-                        Limit API requests per minute
-                      </p>
-                    </div>
-                    <Select defaultValue="60">
-                      <SelectTrigger id="rate-limiting" className="w-[180px]">
-                        <SelectValue placeholder="Requests per minute" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="10">10 req/min</SelectItem>
-                        <SelectItem value="30">30 req/min</SelectItem>
-                        <SelectItem value="60">60 req/min</SelectItem>
-                        <SelectItem value="120">120 req/min</SelectItem>
-                        <SelectItem value="0">Unlimited</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
-              </div>
+              <ApiKeysSection />
               
               <Separator />
               
+              {isAdmin && (
+                <>
+                  <RateLimitsSection />
+
+                  <Separator />
+                </>
+              )}
+              
               <div>
                 <h3 className="text-lg font-medium">System Information</h3>
                 <div className="space-y-4 mt-4">
@@ -600,6 +570,20 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
         </TabsContent>
+        
+        {isAdmin && (
+          <TabsContent value="security">
+            <Card>
+              <CardHeader>
+                <CardTitle>Security Audit</CardTitle>
+                <CardDescription>Review sign-ins, privileged changes and device commands</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SecurityAuditSection />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
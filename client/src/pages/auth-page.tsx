@@ -8,14 +8,20 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { z } from "zod";
-import { Loader2 } from "lucide-react";
+import { Loader2, ShieldCheck } from "lucide-react";
 
 export default function AuthPage() {
   const [activeTab, setActiveTab] = useState<"login" | "register">("login");
-  const { user, isEmailVerified, loginMutation, registerMutation } = useAuth();
+  const { user, isEmailVerified, loginMutation, twoFactorLoginMutation, registerMutation } = useAuth();
   const [location, navigate] = useLocation();
   
+  // Second sign-in step for accounts with two-factor authentication
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  
   // Capture the latest registration response to check for verification requirement
   const [requiresVerification, setRequiresVerification] = useState(false);
 
@@ -59,7 +65,37 @@ export default function AuthPage() {
   });
 
   const onLoginSubmit = (values: z.infer<typeof loginSchema>) => {
-    loginMutation.mutate(values);
+    loginMutation.mutate(values, {
+      onSuccess: (response) => {
+        if ("twoFactorRequired" in response) {
+          setTwoFactorRequired(true);
+          setTwoFactorCode("");
+        }
+      }
+    });
+  };
+
+  const onTwoFactorSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    twoFactorLoginMutation.mutate(
+      useRecoveryCode ? { recoveryCode: twoFactorCode.trim() } : { code: twoFactorCode },
+      {
+        onError: (error) => {
+          // The pending sign-in expired or the account was locked; start over
+          if (/expired|locked/i.test(error.message)) {
+            setTwoFactorRequired(false);
+          }
+          setTwoFactorCode("");
+        }
+      }
+    );
+  };
+
+  const cancelTwoFactor = () => {
+    setTwoFactorRequired(false);
+    setUseRecoveryCode(false);
+    setTwoFactorCode("");
+    loginForm.resetField("password");
   };
 
   const onRegisterSubmit = (values: z.infer<typeof registerSchema>) => {
@@ -97,47 +133,100 @@ export default function AuthPage() {
             </TabsList>
             
             <TabsContent value="login" className="space-y-4 p-1">
-              <Form {...loginForm}>
-                <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
-                  <FormField
-                    control={loginForm.control}
-                    name="username"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Username</FormLabel>
-                        <FormControl>
-                          <Input placeholder="username" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={loginForm.control}
-                    name="password"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Password</FormLabel>
-                        <FormControl>
-                          <Input type="password" placeholder="******" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+              {twoFactorRequired ? (
+                <form onSubmit={onTwoFactorSubmit} className="space-y-4">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <ShieldCheck className="h-4 w-4" />
+                    {useRecoveryCode
+                      ? "Enter one of your recovery codes"
+                      : "Enter the 6-digit code from your authenticator app"}
+                  </div>
+                  {useRecoveryCode ? (
+                    <Input
+                      placeholder="xxxxx-xxxxx"
+                      autoComplete="one-time-code"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                    />
+                  ) : (
+                    <div className="flex justify-center">
+                      <InputOTP maxLength={6} value={twoFactorCode} onChange={setTwoFactorCode} autoFocus>
+                        <InputOTPGroup>
+                          {[0, 1, 2, 3, 4, 5].map((index) => (
+                            <InputOTPSlot key={index} index={index} />
+                          ))}
+                        </InputOTPGroup>
+                      </InputOTP>
+                    </div>
+                  )}
                   <Button 
                     type="submit" 
                     className="w-full" 
-                    disabled={loginMutation.isPending}
+                    disabled={twoFactorLoginMutation.isPending || (useRecoveryCode ? twoFactorCode.trim().length < 10 : twoFactorCode.length !== 6)}
                   >
-                    {loginMutation.isPending ? (
+                    {twoFactorLoginMutation.isPending ? (
                       <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Please wait</>
                     ) : (
-                      "Sign In"
+                      "Verify"
                     )}
                   </Button>
+                  <div className="flex justify-between text-sm">
+                    <Button
+                      type="button"
+                      variant="link"
+                      className="px-0"
+                      onClick={() => { setUseRecoveryCode(!useRecoveryCode); setTwoFactorCode(""); }}
+                    >
+                      {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                    </Button>
+                    <Button type="button" variant="link" className="px-0" onClick={cancelTwoFactor}>
+                      Back to sign in
+                    </Button>
+                  </div>
                 </form>
-              </Form>
+              ) : (
+                <Form {...loginForm}>
+                  <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
+                    <FormField
+                      control={loginForm.control}
+                      name="username"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Username</FormLabel>
+                          <FormControl>
+                            <Input placeholder="username" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={loginForm.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Password</FormLabel>
+                          <FormControl>
+                            <Input type="password" placeholder="******" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button 
+                      type="submit" 
+                      className="w-full" 
+                      disabled={loginMutation.isPending}
+                    >
+                      {loginMutation.isPending ? (
+                        <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Please wait</>
+                      ) : (
+                        "Sign In"
+                      )}
+                    </Button>
+                  </form>
+                </Form>
+              )}
             </TabsContent>
             
             <TabsContent value="register" className="space-y-4 p-1">
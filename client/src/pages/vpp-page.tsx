@@ -20,8 +20,10 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Calendar, AlertTriangle, CheckCircle, XCircle, BarChart3, Clock, Landmark, ZapOff, Zap } from "lucide-react";
+import { useWebSocket } from "@/hooks/WebSocketProvider";
+import { Loader2, Calendar, AlertTriangle, CheckCircle, XCircle, BarChart3, Clock, Landmark, ZapOff, Zap, Activity } from "lucide-react";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { queryClient } from "@/lib/queryClient";
 
@@ -98,7 +100,7 @@ interface VPPParticipation {
   id: number;
   eventId: number;
   siteId: number;
-  status: 'accepted' | 'rejected' | 'in_progress' | 'completed' | 'failed';
+  status: 'accepted' | 'rejected' | 'participating' | 'in_progress' | 'completed' | 'failed';
   mode: VPPParticipationMode;
   committedCapacity: number;
   actualCapacity?: number;
@@ -140,6 +142,35 @@ interface VPPMetrics {
   createdAt: string;
 }
 
+// Live dispatch of a running participation, streamed over WebSocket
+interface VPPDispatch {
+  participationId: number;
+  eventId: number;
+  siteId: number;
+  responseDirection: 'increase' | 'decrease' | 'maintain';
+  state: 'dispatching' | 'completed';
+  committedKw: number;
+  allocatedKw: number;
+  deliveredKw: number | null;
+  lastIntervalKw: number | null;
+  measuredBy: 'meter' | 'resources' | null;
+  deliveredKwh: number;
+  performance: number;
+  compensation: number;
+  startedAt: string;
+  updatedAt: string;
+  resources: {
+    resourceId: number;
+    resourceType: string;
+    plannedKw: number;
+    targetKw: number;
+    deliveredKw: number | null;
+    headroomKw: number;
+    status: 'active' | 'inactive' | 'error';
+    message?: string;
+  }[];
+}
+
 // Site interface (simplified)
 interface Site {
   id: number;
@@ -150,6 +181,8 @@ const VPPPage = () => {
   const { toast } = useToast();
   const [selectedSiteId, setSelectedSiteId] = useState<number | null>(null);
   const [activeTab, setActiveTab] = useState("overview");
+  const [dispatches, setDispatches] = useState<Record<number, VPPDispatch>>({});
+  const { socket, connected, send } = useWebSocket();
 
   // Fetch sites
   const { 
@@ -205,6 +238,58 @@ const VPPPage = () => {
     queryKey: ['/api/vpp/programs'],
   });
 
+  // Load the dispatch of participations already running when the site is selected
+  useEffect(() => {
+    setDispatches({});
+    const running = participations?.filter(p => p.status === 'participating') || [];
+
+    running.forEach(async (participation) => {
+      try {
+        const response = await fetch(`/api/vpp/participations/${participation.id}/dispatch`);
+        if (!response.ok) return;
+
+        const dispatch: VPPDispatch = await response.json();
+        setDispatches(prev => ({ ...prev, [dispatch.participationId]: dispatch }));
+      } catch (error) {
+        console.error('Error fetching VPP dispatch:', error);
+      }
+    });
+  }, [participations]);
+
+  // Follow dispatch progress for the selected site
+  useEffect(() => {
+    if (!socket || !connected || !selectedSiteId) return;
+
+    send({ type: 'subscribe', siteId: selectedSiteId });
+
+    const handleMessage = (event: MessageEvent) => {
+      try {
+        const message = JSON.parse(event.data);
+        if (message.type !== 'vppDispatch' || message.data?.siteId !== selectedSiteId) return;
+
+        const dispatch: VPPDispatch = message.data;
+        setDispatches(prev => ({ ...prev, [dispatch.participationId]: dispatch }));
+
+        // A finished dispatch has been settled
+        if (dispatch.state === 'completed') {
+          queryClient.invalidateQueries({ queryKey: ['/api/vpp/sites', selectedSiteId, 'participations'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/vpp/sites', selectedSiteId, 'events'] });
+        }
+      } catch (error) {
+        console.error('Error parsing WebSocket message:', error);
+      }
+    };
+
+    socket.addEventListener('message', handleMessage);
+
+    return () => {
+      socket.removeEventListener('message', handleMessage);
+      send({ type: 'unsubscribe', siteId: selectedSiteId });
+    };
+  }, [socket, connected, selectedSiteId]);
+
+  const liveDispatches = Object.values(dispatches).filter(d => d.state === 'dispatching');
+
   // Handle enrollment toggle
   const handleAutoAcceptToggle = async (enrollmentId: number, currentValue: boolean) => {
     try {
@@ -448,6 +533,100 @@ const VPPPage = () => {
               </Card>
             </div>
 
+            {/* Live dispatch */}
+            {liveDispatches.length > 0 && (
+              <Card className="mt-6">
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <div>
+                    <CardTitle>Live Dispatch</CardTitle>
+                    <CardDescription>
+                      Delivery of running VPP events against the committed capacity
+                    </CardDescription>
+                  </div>
+                  <Activity className="h-5 w-5 text-muted-foreground" />
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {liveDispatches.map((dispatch) => {
+                    const event = upcomingEvents?.find(e => e.id === dispatch.eventId);
+
+                    return (
+                      <div key={dispatch.participationId} className="space-y-3">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="font-medium">{event?.name || `Event ${dispatch.eventId}`}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {dispatch.responseDirection === 'decrease' ? 'Reducing' : dispatch.responseDirection === 'increase' ? 'Increasing' : 'Holding'} load
+                              {' '}since {formatDate(dispatch.startedAt)}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="text-2xl font-bold">
+                              {dispatch.deliveredKw != null ? dispatch.deliveredKw.toFixed(1) : '–'} / {dispatch.committedKw} kW
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {dispatch.lastIntervalKw != null
+                                ? `Last interval ${dispatch.lastIntervalKw.toFixed(1)} kW (${dispatch.measuredBy === 'meter' ? 'meter' : 'resources'})`
+                                : "First interval in progress"
+                              }
+                            </p>
+                          </div>
+                        </div>
+
+                        <div>
+                          <div className="flex justify-between text-xs text-muted-foreground mb-1">
+                            <span>Performance {dispatch.performance.toFixed(0)}%</span>
+                            <span>{dispatch.deliveredKwh.toFixed(2)} kWh · ${dispatch.compensation.toFixed(2)} earned</span>
+                          </div>
+                          <Progress value={dispatch.performance} />
+                        </div>
+
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Resource</TableHead>
+                              <TableHead>Type</TableHead>
+                              <TableHead>Target</TableHead>
+                              <TableHead>Delivered</TableHead>
+                              <TableHead>Status</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {dispatch.resources.map((resource) => (
+                              <TableRow key={resource.resourceId}>
+                                <TableCell className="font-medium">Device {resource.resourceId}</TableCell>
+                                <TableCell>{resource.resourceType.replace('_', ' ')}</TableCell>
+                                <TableCell>
+                                  {resource.targetKw.toFixed(1)} kW
+                                  {resource.targetKw !== resource.plannedKw && (
+                                    <span className="text-xs text-muted-foreground"> (planned {resource.plannedKw.toFixed(1)})</span>
+                                  )}
+                                </TableCell>
+                                <TableCell>{resource.deliveredKw != null ? `${resource.deliveredKw.toFixed(1)} kW` : '–'}</TableCell>
+                                <TableCell>
+                                  {resource.status === 'active' ? (
+                                    <Badge className="bg-green-500">Active</Badge>
+                                  ) : (
+                                    <div className="flex items-center space-x-2">
+                                      <Badge className={resource.status === 'error' ? "bg-red-500" : "bg-yellow-500"}>
+                                        {resource.status === 'error' ? 'Error' : 'Limited'}
+                                      </Badge>
+                                      {resource.message && (
+                                        <span className="text-xs text-muted-foreground">{resource.message}</span>
+                                      )}
+                                    </div>
+                                  )}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Active events */}
             <Card className="mt-6">
               <CardHeader>
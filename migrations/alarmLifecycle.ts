@@ -0,0 +1,52 @@
+/**
+ * Migration to add alarm lifecycle fields to the alerts table
+ *
+ * This migration adds the source, code and de-duplication columns used by the
+ * alarm service to collapse repeat occurrences into a single open alarm, and
+ * the acknowledgement/resolution audit columns recorded by the alarm routes.
+ */
+
+import { Client } from 'pg';
+
+/**
+ * Runs the alarm lifecycle migration on the database
+ * @param client PostgreSQL client to use for the migration
+ */
+export async function runMigration(client: Client): Promise<void> {
+  console.log('Running alarm lifecycle migration...');
+
+  try {
+    await client.query(`
+      ALTER TABLE alerts
+      ADD COLUMN IF NOT EXISTS source TEXT,
+      ADD COLUMN IF NOT EXISTS code TEXT,
+      ADD COLUMN IF NOT EXISTS dedupe_key TEXT,
+      ADD COLUMN IF NOT EXISTS occurrence_count INTEGER DEFAULT 1,
+      ADD COLUMN IF NOT EXISTS last_occurrence_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS acknowledged_by INTEGER REFERENCES users(id),
+      ADD COLUMN IF NOT EXISTS resolution_notes TEXT,
+      ADD COLUMN IF NOT EXISTS auto_cleared BOOLEAN DEFAULT FALSE;
+    `);
+
+    console.log('✅ Successfully added lifecycle columns to alerts table');
+
+    // Only one open alarm may exist per de-duplication key
+    await client.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_alerts_open_dedupe_key
+      ON alerts(dedupe_key)
+      WHERE status IN ('new', 'acknowledged') AND dedupe_key IS NOT NULL;
+    `);
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_alerts_site_timestamp ON alerts(site_id, timestamp DESC);
+    `);
+
+    console.log('✅ Successfully created alert indexes');
+
+    console.log('Alarm lifecycle migration completed successfully');
+  } catch (error) {
+    console.error('❌ Error in alarm lifecycle migration:', error);
+    throw error;
+  }
+}
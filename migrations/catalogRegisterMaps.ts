@@ -0,0 +1,36 @@
+/**
+ * Migration to describe Modbus register layouts in the device catalog
+ *
+ * This migration adds the register table, register count, byte and word
+ * order and bit names to device_catalog_registers, so Modbus polling configs
+ * can be generated from a device's catalog model.
+ */
+
+import { Client } from 'pg';
+
+/**
+ * Runs the catalog register maps migration on the database
+ * @param client PostgreSQL client to use for the migration
+ */
+export async function runMigration(client: Client): Promise<void> {
+  console.log('Running catalog register maps migration...');
+
+  try {
+    await client.query(`
+      ALTER TABLE device_catalog_registers
+      ADD COLUMN IF NOT EXISTS register_type TEXT,
+      ADD COLUMN IF NOT EXISTS register_count INTEGER,
+      ADD COLUMN IF NOT EXISTS byte_order TEXT,
+      ADD COLUMN IF NOT EXISTS word_order TEXT,
+      ADD COLUMN IF NOT EXISTS bit_map JSON;
+      CREATE INDEX IF NOT EXISTS idx_device_catalog_registers_catalog ON device_catalog_registers (device_catalog_id);
+    `);
+
+    console.log('✅ Successfully added register layout columns to device_catalog_registers table');
+
+    console.log('Catalog register maps migration completed successfully');
+  } catch (error) {
+    console.error('❌ Error in catalog register maps migration:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Migration to add EV load balancing
+ *
+ * This migration creates the ev_load_balancing_settings table holding the
+ * per-site limits and allocation mode for sharing the grid connection
+ * between chargers, and adds a charging priority to OCPP ID tags.
+ */
+
+import { Client } from 'pg';
+
+/**
+ * Runs the EV load balancing migration on the database
+ * @param client PostgreSQL client to use for the migration
+ */
+export async function runMigration(client: Client): Promise<void> {
+  console.log('Running EV load balancing migration...');
+
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ev_load_balancing_settings (
+        id SERIAL PRIMARY KEY,
+        site_id INTEGER NOT NULL UNIQUE REFERENCES sites(id),
+        enabled BOOLEAN DEFAULT FALSE,
+        mode TEXT NOT NULL DEFAULT 'fair_share',
+        max_site_current NUMERIC,
+        safety_margin NUMERIC DEFAULT 2,
+        min_charging_current NUMERIC DEFAULT 6,
+        max_charging_current NUMERIC DEFAULT 32,
+        fallback_current NUMERIC DEFAULT 6,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    console.log('✅ Successfully created ev_load_balancing_settings table');
+
+    await client.query(`
+      ALTER TABLE ocpp_id_tags
+        ADD COLUMN IF NOT EXISTS charging_priority INTEGER NOT NULL DEFAULT 0;
+    `);
+
+    console.log('✅ Successfully added charging_priority to ocpp_id_tags');
+
+    console.log('EV load balancing migration completed successfully');
+  } catch (error) {
+    console.error('❌ Error in EV load balancing migration:', error);
+    throw error;
+  }
+}
@@ -9,6 +9,17 @@ import pkg from 'pg';
 const { Pool, Client } = pkg;
 import { runMigration as runMultiUserArchitectureMigration } from './multiUserArchitecture';
 import { runMigration as runDeviceTariffConnectionMigration } from './deviceTariffConnection';
+import { runMigration as runAlarmLifecycleMigration } from './alarmLifecycle';
+import { runMigration as runRemoteCommandQueueMigration } from './remoteCommandQueue';
+import { runMigration as runTwoFactorRecoveryCodesMigration } from './twoFactorRecoveryCodes';
+import { runMigration as runSiteSolarGeometryMigration } from './siteSolarGeometry';
+import { runMigration as runOpenAdrVenMigration } from './openAdrVen';
+import { runMigration as runOcppCsmsMigration } from './ocppCsms';
+import { runMigration as runEvLoadBalancingMigration } from './evLoadBalancing';
+import { runMigration as runVppRegistryMigration } from './vppRegistry';
+import { runMigration as runMpcControlMigration } from './mpcControl';
+import { runMigration as runTelemetryIngestionMigration } from './telemetryIngestion';
+import { runMigration as runCatalogRegisterMapsMigration } from './catalogRegisterMaps';
 // Import device registry as CommonJS module since it's a .js file
 const deviceRegistryMigration = require('./deviceRegistry');
 
@@ -52,6 +63,61 @@ export async function runAllMigrations() {
         console.log('Running device-tariff connection migration...');
         await runDeviceTariffConnectionMigration(pgClient);
         console.log('Device-tariff connection migration completed');
+        
+        // Run the alarm lifecycle migration
+        console.log('Running alarm lifecycle migration...');
+        await runAlarmLifecycleMigration(pgClient);
+        console.log('Alarm lifecycle migration completed');
+        
+        // Run the remote command queue migration
+        console.log('Running remote command queue migration...');
+        await runRemoteCommandQueueMigration(pgClient);
+        console.log('Remote command queue migration completed');
+        
+        // Run the two-factor recovery codes migration
+        console.log('Running two-factor recovery codes migration...');
+        await runTwoFactorRecoveryCodesMigration(pgClient);
+        console.log('Two-factor recovery codes migration completed');
+        
+        // Run the site solar geometry migration
+        console.log('Running site solar geometry migration...');
+        await runSiteSolarGeometryMigration(pgClient);
+        console.log('Site solar geometry migration completed');
+        
+        // Run the OpenADR VEN migration
+        console.log('Running OpenADR VEN migration...');
+        await runOpenAdrVenMigration(pgClient);
+        console.log('OpenADR VEN migration completed');
+        
+        // Run the OCPP CSMS migration
+        console.log('Running OCPP CSMS migration...');
+        await runOcppCsmsMigration(pgClient);
+        console.log('OCPP CSMS migration completed');
+        
+        // Run the EV load balancing migration
+        console.log('Running EV load balancing migration...');
+        await runEvLoadBalancingMigration(pgClient);
+        console.log('EV load balancing migration completed');
+        
+        // Run the VPP registry migration
+        console.log('Running VPP registry migration...');
+        await runVppRegistryMigration(pgClient);
+        console.log('VPP registry migration completed');
+        
+        // Run the MPC control migration
+        console.log('Running MPC control migration...');
+        await runMpcControlMigration(pgClient);
+        console.log('MPC control migration completed');
+        
+        // Run the telemetry ingestion migration
+        console.log('Running telemetry ingestion migration...');
+        await runTelemetryIngestionMigration(pgClient);
+        console.log('Telemetry ingestion migration completed');
+        
+        // Run the catalog register maps migration
+        console.log('Running catalog register maps migration...');
+        await runCatalogRegisterMapsMigration(pgClient);
+        console.log('Catalog register maps migration completed');
       } finally {
         await pgClient.end();
       }
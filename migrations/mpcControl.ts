@@ -0,0 +1,65 @@
+/**
+ * Migration to add model predictive control
+ *
+ * This migration creates the mpc_controllers table holding the per-site
+ * re-planning period and horizon, and the mpc_steps table recording the
+ * planned, executed and actual values of every controlled interval.
+ */
+
+import { Client } from 'pg';
+
+/**
+ * Runs the MPC migration on the database
+ * @param client PostgreSQL client to use for the migration
+ */
+export async function runMigration(client: Client): Promise<void> {
+  console.log('Running MPC control migration...');
+
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS mpc_controllers (
+        id SERIAL PRIMARY KEY,
+        site_id INTEGER NOT NULL UNIQUE REFERENCES sites(id),
+        enabled BOOLEAN DEFAULT FALSE,
+        interval_minutes INTEGER NOT NULL DEFAULT 15,
+        horizon_hours INTEGER NOT NULL DEFAULT 24,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    console.log('✅ Successfully created mpc_controllers table');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS mpc_steps (
+        id SERIAL PRIMARY KEY,
+        site_id INTEGER NOT NULL REFERENCES sites(id),
+        start_time TIMESTAMP NOT NULL,
+        end_time TIMESTAMP NOT NULL,
+        solver_status TEXT NOT NULL,
+        expected_savings NUMERIC,
+        planned_battery_power NUMERIC,
+        planned_grid_power NUMERIC,
+        planned_load NUMERIC,
+        planned_pv NUMERIC,
+        planned_soc NUMERIC,
+        executed_battery_power NUMERIC,
+        actual_battery_power NUMERIC,
+        actual_grid_power NUMERIC,
+        actual_load NUMERIC,
+        actual_pv NUMERIC,
+        actual_soc NUMERIC,
+        setpoints JSON NOT NULL DEFAULT '[]',
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_mpc_steps_site_time ON mpc_steps (site_id, start_time DESC);
+    `);
+
+    console.log('✅ Successfully created mpc_steps table');
+
+    console.log('MPC control migration completed successfully');
+  } catch (error) {
+    console.error('❌ Error in MPC control migration:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Migration to add OCPP Central System tables
+ *
+ * This migration creates the ocpp_charge_points table holding the identity,
+ * credentials and last known state of chargers connecting to the CSMS, and
+ * the ocpp_id_tags table of identifiers allowed to start charging.
+ */
+
+import { Client } from 'pg';
+
+/**
+ * Runs the OCPP CSMS migration on the database
+ * @param client PostgreSQL client to use for the migration
+ */
+export async function runMigration(client: Client): Promise<void> {
+  console.log('Running OCPP CSMS migration...');
+
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ocpp_charge_points (
+        id SERIAL PRIMARY KEY,
+        device_id INTEGER NOT NULL UNIQUE REFERENCES devices(id),
+        charge_point_id TEXT NOT NULL UNIQUE,
+        security_profile INTEGER NOT NULL DEFAULT 2,
+        authorization_key_hash TEXT,
+        allow_unknown_id_tags BOOLEAN DEFAULT FALSE,
+        ocpp_version TEXT,
+        vendor TEXT,
+        model TEXT,
+        serial_number TEXT,
+        firmware_version TEXT,
+        connector_status JSON DEFAULT '{}',
+        is_connected BOOLEAN DEFAULT FALSE,
+        last_boot_at TIMESTAMP,
+        last_heartbeat_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    console.log('✅ Successfully created ocpp_charge_points table');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ocpp_id_tags (
+        id SERIAL PRIMARY KEY,
+        id_tag TEXT NOT NULL UNIQUE,
+        user_id INTEGER REFERENCES users(id),
+        vehicle_id INTEGER REFERENCES ev_vehicles(id),
+        status TEXT NOT NULL DEFAULT 'Accepted',
+        expires_at TIMESTAMP,
+        description TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    console.log('✅ Successfully created ocpp_id_tags table');
+
+    // Transactions are looked up by the OCPP transaction ID kept in the session metadata
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_ev_charging_sessions_ocpp_transaction
+        ON ev_charging_sessions (device_id, ((metadata::jsonb -> 'ocpp' ->> 'transactionId')));
+    `);
+
+    console.log('✅ Successfully created OCPP transaction index');
+
+    console.log('OCPP CSMS migration completed successfully');
+  } catch (error) {
+    console.error('❌ Error in OCPP CSMS migration:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Migration to add OpenADR Virtual End Node tables
+ *
+ * This migration creates the openadr_vens table holding each VEN's VTN
+ * connection and registration, and the openadr_events table mapping the
+ * OpenADR events it receives to site demand response events.
+ */
+
+import { Client } from 'pg';
+
+/**
+ * Runs the OpenADR VEN migration on the database
+ * @param client PostgreSQL client to use for the migration
+ */
+export async function runMigration(client: Client): Promise<void> {
+  console.log('Running OpenADR VEN migration...');
+
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS openadr_vens (
+        id SERIAL PRIMARY KEY,
+        program_id INTEGER NOT NULL REFERENCES demand_response_programs(id),
+        ven_name TEXT NOT NULL,
+        vtn_url TEXT NOT NULL,
+        vtn_id TEXT,
+        ven_id TEXT,
+        registration_id TEXT,
+        poll_interval INTEGER DEFAULT 60,
+        report_requests JSON DEFAULT '[]',
+        is_active BOOLEAN DEFAULT TRUE,
+        registered_at TIMESTAMP,
+        last_poll_at TIMESTAMP,
+        last_error TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    console.log('✅ Successfully created openadr_vens table');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS openadr_events (
+        id SERIAL PRIMARY KEY,
+        ven_id INTEGER NOT NULL REFERENCES openadr_vens(id),
+        oadr_event_id TEXT NOT NULL,
+        modification_number INTEGER NOT NULL DEFAULT 0,
+        site_id INTEGER NOT NULL REFERENCES sites(id),
+        event_id INTEGER NOT NULL REFERENCES demand_response_events(id),
+        oadr_status TEXT,
+        signals JSON,
+        opt_type TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE (ven_id, oadr_event_id, site_id)
+      );
+    `);
+
+    console.log('✅ Successfully created openadr_events table');
+
+    console.log('OpenADR VEN migration completed successfully');
+  } catch (error) {
+    console.error('❌ Error in OpenADR VEN migration:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Migration to add delivery tracking fields to the remote_commands table
+ *
+ * This migration adds the columns used by the command queue to track when a
+ * command was sent and acknowledged, how many delivery attempts were made, the
+ * device's result, and the command execution record it was queued for.
+ */
+
+import { Client } from 'pg';
+
+/**
+ * Runs the remote command queue migration on the database
+ * @param client PostgreSQL client to use for the migration
+ */
+export async function runMigration(client: Client): Promise<void> {
+  console.log('Running remote command queue migration...');
+
+  try {
+    await client.query(`
+      ALTER TABLE remote_commands
+      ADD COLUMN IF NOT EXISTS execution_id INTEGER REFERENCES command_executions(id),
+      ADD COLUMN IF NOT EXISTS sent_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS attempts INTEGER DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS result JSON;
+    `);
+
+    console.log('✅ Successfully added delivery columns to remote_commands table');
+
+    // Queue reads pick the next pending commands per device in priority order
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_remote_commands_device_queue
+      ON remote_commands(device_id, status, priority, timestamp);
+    `);
+
+    console.log('✅ Successfully created remote command queue index');
+
+    console.log('Remote command queue migration completed successfully');
+  } catch (error) {
+    console.error('❌ Error in remote command queue migration:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Migration to add site location and PV array definitions
+ *
+ * This migration adds coordinates and elevation to the sites table and
+ * creates the pv_arrays table describing each array's orientation, capacity
+ * and loss parameters for the PV production model.
+ */
+
+import { Client } from 'pg';
+
+/**
+ * Runs the site solar geometry migration on the database
+ * @param client PostgreSQL client to use for the migration
+ */
+export async function runMigration(client: Client): Promise<void> {
+  console.log('Running site solar geometry migration...');
+
+  try {
+    await client.query(`
+      ALTER TABLE sites
+      ADD COLUMN IF NOT EXISTS latitude NUMERIC,
+      ADD COLUMN IF NOT EXISTS longitude NUMERIC,
+      ADD COLUMN IF NOT EXISTS elevation NUMERIC;
+    `);
+
+    console.log('✅ Successfully added location columns to sites table');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS pv_arrays (
+        id SERIAL PRIMARY KEY,
+        site_id INTEGER NOT NULL REFERENCES sites(id),
+        device_id INTEGER REFERENCES devices(id),
+        name TEXT NOT NULL,
+        capacity_kwp NUMERIC NOT NULL,
+        tilt NUMERIC NOT NULL DEFAULT 30,
+        azimuth NUMERIC NOT NULL DEFAULT 180,
+        losses NUMERIC NOT NULL DEFAULT 14,
+        temperature_coefficient NUMERIC NOT NULL DEFAULT -0.4,
+        noct NUMERIC NOT NULL DEFAULT 45,
+        albedo NUMERIC NOT NULL DEFAULT 0.2,
+        is_active BOOLEAN DEFAULT TRUE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_pv_arrays_site ON pv_arrays(site_id);
+    `);
+
+    console.log('✅ Successfully created pv_arrays table');
+
+    console.log('Site solar geometry migration completed successfully');
+  } catch (error) {
+    console.error('❌ Error in site solar geometry migration:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Migration to add the telemetry ingestion pipeline
+ *
+ * This migration links devices to their catalog model, whose registers give
+ * the units and scale factors of their telemetry, and creates the
+ * telemetry_quarantine table holding samples rejected by validation.
+ */
+
+import { Client } from 'pg';
+
+/**
+ * Runs the telemetry ingestion migration on the database
+ * @param client PostgreSQL client to use for the migration
+ */
+export async function runMigration(client: Client): Promise<void> {
+  console.log('Running telemetry ingestion migration...');
+
+  try {
+    await client.query(`
+      ALTER TABLE devices
+      ADD COLUMN IF NOT EXISTS device_catalog_id INTEGER REFERENCES device_catalog(id);
+    `);
+
+    console.log('✅ Successfully added device_catalog_id column to devices table');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS telemetry_quarantine (
+        id SERIAL PRIMARY KEY,
+        device_id INTEGER NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+        timestamp TIMESTAMP NOT NULL,
+        received_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        reasons JSON NOT NULL,
+        raw_sample JSON NOT NULL,
+        normalized_values JSON
+      );
+      CREATE INDEX IF NOT EXISTS idx_telemetry_quarantine_device_time ON telemetry_quarantine (device_id, received_at DESC);
+    `);
+
+    console.log('✅ Successfully created telemetry_quarantine table');
+
+    console.log('Telemetry ingestion migration completed successfully');
+  } catch (error) {
+    console.error('❌ Error in telemetry ingestion migration:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Migration to add two-factor recovery codes to the users table
+ *
+ * This migration adds the column holding the hashes of a user's unused
+ * two-factor recovery codes.
+ */
+
+import { Client } from 'pg';
+
+/**
+ * Runs the two-factor recovery codes migration on the database
+ * @param client PostgreSQL client to use for the migration
+ */
+export async function runMigration(client: Client): Promise<void> {
+  console.log('Running two-factor recovery codes migration...');
+
+  try {
+    await client.query(`
+      ALTER TABLE users
+      ADD COLUMN IF NOT EXISTS two_factor_recovery_codes JSON;
+    `);
+
+    console.log('✅ Successfully added two_factor_recovery_codes column to users table');
+
+    console.log('Two-factor recovery codes migration completed successfully');
+  } catch (error) {
+    console.error('❌ Error in two-factor recovery codes migration:', error);
+    throw error;
+  }
+}
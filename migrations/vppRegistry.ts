@@ -0,0 +1,157 @@
+/**
+ * Migration to add VPP registry tables
+ *
+ * This migration creates the tables behind the virtual power plant service:
+ * programs, site enrollments, events, per-site participations with their
+ * settlement figures, response plans and participation metrics.
+ */
+
+import { Client } from 'pg';
+
+/**
+ * Runs the VPP registry migration on the database
+ * @param client PostgreSQL client to use for the migration
+ */
+export async function runMigration(client: Client): Promise<void> {
+  console.log('Running VPP registry migration...');
+
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS vpp_programs (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        type TEXT NOT NULL,
+        description TEXT NOT NULL DEFAULT '',
+        min_capacity NUMERIC NOT NULL,
+        max_capacity NUMERIC,
+        compensation_rate NUMERIC NOT NULL,
+        compensation_currency TEXT NOT NULL DEFAULT 'USD',
+        participation_mode TEXT NOT NULL DEFAULT 'automatic',
+        active_hours JSON NOT NULL,
+        resource_types JSON NOT NULL DEFAULT '[]',
+        min_response_time INTEGER NOT NULL,
+        max_event_duration INTEGER NOT NULL,
+        cooldown_period NUMERIC NOT NULL,
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        requires_registration BOOLEAN NOT NULL DEFAULT FALSE,
+        api_endpoint TEXT,
+        api_credentials JSON,
+        custom_settings JSON,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    console.log('✅ Successfully created vpp_programs table');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS vpp_enrollments (
+        id SERIAL PRIMARY KEY,
+        program_id INTEGER NOT NULL REFERENCES vpp_programs(id),
+        site_id INTEGER NOT NULL REFERENCES sites(id),
+        status TEXT NOT NULL DEFAULT 'pending',
+        capacity NUMERIC NOT NULL,
+        participation_mode TEXT NOT NULL DEFAULT 'automatic',
+        auto_accept_events BOOLEAN NOT NULL DEFAULT FALSE,
+        resource_ids JSON NOT NULL DEFAULT '[]',
+        start_date TIMESTAMP NOT NULL,
+        end_date TIMESTAMP,
+        registration_number TEXT,
+        custom_fields JSON,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_vpp_enrollments_site ON vpp_enrollments (site_id);
+      CREATE INDEX IF NOT EXISTS idx_vpp_enrollments_program ON vpp_enrollments (program_id);
+    `);
+
+    console.log('✅ Successfully created vpp_enrollments table');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS vpp_events (
+        id SERIAL PRIMARY KEY,
+        program_id INTEGER NOT NULL REFERENCES vpp_programs(id),
+        external_event_id TEXT,
+        name TEXT NOT NULL,
+        description TEXT,
+        status TEXT NOT NULL DEFAULT 'upcoming',
+        response_direction TEXT NOT NULL,
+        start_time TIMESTAMP NOT NULL,
+        end_time TIMESTAMP NOT NULL,
+        capacity NUMERIC NOT NULL,
+        compensation_rate NUMERIC,
+        notification_sent BOOLEAN NOT NULL DEFAULT FALSE,
+        notification_time TIMESTAMP,
+        acceptance_deadline TIMESTAMP,
+        participating_sites JSON NOT NULL DEFAULT '[]',
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_vpp_events_program ON vpp_events (program_id);
+      CREATE INDEX IF NOT EXISTS idx_vpp_events_status ON vpp_events (status, start_time);
+    `);
+
+    console.log('✅ Successfully created vpp_events table');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS vpp_participations (
+        id SERIAL PRIMARY KEY,
+        event_id INTEGER NOT NULL REFERENCES vpp_events(id),
+        site_id INTEGER NOT NULL REFERENCES sites(id),
+        enrollment_id INTEGER NOT NULL REFERENCES vpp_enrollments(id),
+        status TEXT NOT NULL DEFAULT 'pending',
+        accepted_capacity NUMERIC NOT NULL DEFAULT 0,
+        actual_response NUMERIC,
+        start_time TIMESTAMP,
+        end_time TIMESTAMP,
+        performance NUMERIC,
+        compensation NUMERIC,
+        notes TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        CONSTRAINT vpp_participations_event_site_unique UNIQUE (event_id, site_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_vpp_participations_site ON vpp_participations (site_id);
+    `);
+
+    console.log('✅ Successfully created vpp_participations table');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS vpp_response_plans (
+        id SERIAL PRIMARY KEY,
+        participation_id INTEGER NOT NULL UNIQUE REFERENCES vpp_participations(id),
+        strategy TEXT NOT NULL DEFAULT 'balanced',
+        resource_allocations JSON NOT NULL DEFAULT '[]',
+        fallback_plan JSON,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    console.log('✅ Successfully created vpp_response_plans table');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS vpp_metrics (
+        id SERIAL PRIMARY KEY,
+        participation_id INTEGER NOT NULL REFERENCES vpp_participations(id),
+        timestamp TIMESTAMP NOT NULL,
+        metrics JSON NOT NULL,
+        resource_metrics JSON NOT NULL DEFAULT '[]',
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_vpp_metrics_participation ON vpp_metrics (participation_id, timestamp);
+    `);
+
+    console.log('✅ Successfully created vpp_metrics table');
+
+    console.log('VPP registry migration completed successfully');
+  } catch (error) {
+    console.error('❌ Error in VPP registry migration:', error);
+    throw error;
+  }
+}
@@ -3,6 +3,16 @@ import { v4 as uuidv4 } from 'uuid';
 import { BaseDeviceAdapter, DeviceType, Protocol } from './deviceAdapterFactory';
 import { getMqttService, formatDeviceTopic } from '../services/mqttService';
 import { TOPIC_PATTERNS } from '@shared/messageSchema';
+import {
+  decodeBlock,
+  encodeRegister,
+  generateMockRegisterValue,
+  normalizeRegisters,
+  planBlockReads,
+  RegisterMapError,
+  type ModbusReadBlock,
+  type ModbusRegisterConfig,
+} from './modbusRegisterMap';
 
 // Types for ModbusDevice configuration
 export interface ModbusDevice {
@@ -19,17 +29,7 @@ export interface ModbusDevice {
     timeout?: number;       // Connection timeout in ms
     mockMode?: boolean;     // Whether to use mock data
   };
-  registers: {
-    name: string;           // Register name (e.g., "voltage")
-    address: number;        // Register address
-    type: string;           // Data type (float32, int16, etc)
-    length?: number;        // Number of registers
-    scaling?: number;       // Scaling factor
-    unit?: string;          // Unit of measurement
-    description?: string;   // Description
-    min?: number;           // Minimum value
-    max?: number;           // Maximum value
-  }[];
+  registers: ModbusRegisterConfig[]; // Register map, hand-written or generated from the device catalog
   scanInterval?: number;    // Milliseconds between scans
 }
 
@@ -40,6 +40,7 @@ export interface ModbusDevice {
 export class EnhancedModbusAdapter extends BaseDeviceAdapter {
   private device: ModbusDevice;
   private client: ModbusRTU | null = null;
+  private blocks: ModbusReadBlock[];
   private scanInterval: NodeJS.Timeout | null = null;
   private lastReadings: Record<string, any> = {};
   private mockMode: boolean = false;
@@ -51,7 +52,8 @@ export class EnhancedModbusAdapter extends BaseDeviceAdapter {
     const deviceType = device.deviceType || 'generic';
     super(device.id, deviceType, Protocol.MODBUS);
     
-    this.device = device;
+    this.device = { ...device, registers: normalizeRegisters(device.registers, device.id) };
+    this.blocks = planBlockReads(this.device.registers);
     this.mockMode = this.inDevelopment || !!device.connection.mockMode;
     
     // Configure longer timeouts for Modbus which can be slow to respond
@@ -156,72 +158,31 @@ export class EnhancedModbusAdapter extends BaseDeviceAdapter {
       // For mock mode, generate simulated data
       if (this.mockMode) {
         for (const register of this.device.registers) {
-          const value = this.generateMockValue(register);
-          readingsData[register.name] = value;
-          
-          // Apply scaling if specified
-          const scaledValue = register.scaling ? value * register.scaling : value;
-          telemetryData[register.name] = {
-            value: scaledValue,
-            unit: register.unit || '',
-            timestamp: new Date().toISOString()
-          };
+          readingsData[register.name] = generateMockRegisterValue(register);
         }
       } 
-      // For real devices, read from Modbus
+      // For real devices, read adjacent registers together
       else if (this.client) {
-        for (const register of this.device.registers) {
+        for (const block of this.blocks) {
           try {
-            let value: any;
-            
-            switch (register.type.toLowerCase()) {
-              case 'float32':
-              case 'float':
-                value = await this.readFloat(register.address, register.length || 2);
-                break;
-                
-              case 'int16':
-                value = await this.readInt16(register.address);
-                break;
-                
-              case 'uint16':
-                value = await this.readUint16(register.address);
-                break;
-                
-              case 'int32':
-                value = await this.readInt32(register.address);
-                break;
-                
-              case 'uint32':
-                value = await this.readUint32(register.address);
-                break;
-                
-              case 'boolean':
-              case 'coil':
-                value = await this.readCoil(register.address);
-                break;
-                
-              default:
-                value = await this.readHoldingRegister(register.address);
-                break;
-            }
-            
-            readingsData[register.name] = value;
-            
-            // Apply scaling if specified
-            const scaledValue = register.scaling ? value * register.scaling : value;
-            telemetryData[register.name] = {
-              value: scaledValue,
-              unit: register.unit || '',
-              timestamp: new Date().toISOString()
-            };
+            Object.assign(readingsData, decodeBlock(block, await this.readBlock(block)));
           } catch (regError) {
-            console.error(`Error reading register ${register.name} at address ${register.address}:`, regError);
+            console.error(`Error reading registers ${block.registers.map(r => r.name).join(', ')} at address ${block.address}:`, regError);
             // Continue with other registers
           }
         }
       }
       
+      const timestamp = new Date().toISOString();
+      for (const register of this.device.registers) {
+        if (readingsData[register.name] === undefined) continue;
+        telemetryData[register.name] = {
+          value: readingsData[register.name],
+          unit: register.unit || '',
+          timestamp
+        };
+      }
+      
       // Save the last readings
       this.lastReadings = readingsData;
       
@@ -263,130 +224,19 @@ export class EnhancedModbusAdapter extends BaseDeviceAdapter {
     }
   }
   
-  // Read Modbus holding register as float32
-  private async readFloat(address: number, length: number = 2): Promise<number> {
-    if (this.mockMode) {
-      return Math.random() * 100;
-    }
-    
+  // Read a block of registers or bits
+  private async readBlock(block: ModbusReadBlock): Promise<Array<number | boolean>> {
     if (!this.client) throw new Error('Modbus client not initialized');
     
-    const result = await this.client.readHoldingRegisters(address, length);
-    
-    // Convert two 16-bit registers to float32
-    const buf = Buffer.allocUnsafe(4);
-    buf.writeUInt16BE(result.data[0], 0);
-    buf.writeUInt16BE(result.data[1], 2);
-    return buf.readFloatBE(0);
-  }
-  
-  // Read Modbus holding register as int16
-  private async readInt16(address: number): Promise<number> {
-    if (this.mockMode) {
-      return Math.floor(Math.random() * 1000) - 500;
-    }
-    
-    if (!this.client) throw new Error('Modbus client not initialized');
-    
-    const result = await this.client.readHoldingRegisters(address, 1);
-    return result.data[0];
-  }
-  
-  // Read Modbus holding register as uint16
-  private async readUint16(address: number): Promise<number> {
-    if (this.mockMode) {
-      return Math.floor(Math.random() * 1000);
-    }
-    
-    if (!this.client) throw new Error('Modbus client not initialized');
-    
-    const result = await this.client.readHoldingRegisters(address, 1);
-    return result.data[0];
-  }
-  
-  // Read Modbus holding register as int32
-  private async readInt32(address: number): Promise<number> {
-    if (this.mockMode) {
-      return Math.floor(Math.random() * 100000) - 50000;
-    }
-    
-    if (!this.client) throw new Error('Modbus client not initialized');
-    
-    const result = await this.client.readHoldingRegisters(address, 2);
-    
-    // Convert two 16-bit registers to int32
-    const buf = Buffer.allocUnsafe(4);
-    buf.writeUInt16BE(result.data[0], 0);
-    buf.writeUInt16BE(result.data[1], 2);
-    return buf.readInt32BE(0);
-  }
-  
-  // Read Modbus holding register as uint32
-  private async readUint32(address: number): Promise<number> {
-    if (this.mockMode) {
-      return Math.floor(Math.random() * 100000);
-    }
-    
-    if (!this.client) throw new Error('Modbus client not initialized');
-    
-    const result = await this.client.readHoldingRegisters(address, 2);
-    
-    // Convert two 16-bit registers to uint32
-    const buf = Buffer.allocUnsafe(4);
-    buf.writeUInt16BE(result.data[0], 0);
-    buf.writeUInt16BE(result.data[1], 2);
-    return buf.readUInt32BE(0);
-  }
-  
-  // Read Modbus coil
-  private async readCoil(address: number): Promise<boolean> {
-    if (this.mockMode) {
-      return Math.random() > 0.5;
-    }
-    
-    if (!this.client) throw new Error('Modbus client not initialized');
-    
-    const result = await this.client.readCoils(address, 1);
-    return result.data[0];
-  }
-  
-  // Read Modbus holding register (generic)
-  private async readHoldingRegister(address: number): Promise<number> {
-    if (this.mockMode) {
-      return Math.floor(Math.random() * 100);
-    }
-    
-    if (!this.client) throw new Error('Modbus client not initialized');
-    
-    const result = await this.client.readHoldingRegisters(address, 1);
-    return result.data[0];
-  }
-  
-  // Generate mock value based on register type
-  private generateMockValue(register: any): any {
-    switch (register.type.toLowerCase()) {
-      case 'float32':
-      case 'float':
-        return parseFloat((Math.random() * 100).toFixed(2));
-        
-      case 'int16':
-        return Math.floor(Math.random() * 1000) - 500;
-        
-      case 'uint16':
-        return Math.floor(Math.random() * 1000);
-        
-      case 'int32':
-        return Math.floor(Math.random() * 100000) - 50000;
-        
-      case 'uint32':
-        return Math.floor(Math.random() * 100000);
-        
-      case 'boolean':
+    switch (block.type) {
+      case 'holding':
+        return (await this.client.readHoldingRegisters(block.address, block.length)).data;
+      case 'input':
+        return (await this.client.readInputRegisters(block.address, block.length)).data;
       case 'coil':
-        return Math.random() > 0.5;
-        
-      default:
-        return Math.floor(Math.random() * 100);
+        return (await this.client.readCoils(block.address, block.length)).data;
+      case 'discrete':
+        return (await this.client.readDiscreteInputs(block.address, block.length)).data;
     }
   }
   
@@ -419,7 +269,7 @@ export class EnhancedModbusAdapter extends BaseDeviceAdapter {
       const readings: Record<string, any> = {};
       
       for (const register of this.device.registers) {
-        readings[register.name] = this.generateMockValue(register);
+        readings[register.name] = generateMockRegisterValue(register);
       }
       
       return readings;
@@ -429,7 +279,17 @@ export class EnhancedModbusAdapter extends BaseDeviceAdapter {
     return this.lastReadings;
   }
   
+  // Params name the register (or give its address) and the value to write
   public async writeData(params: any): Promise<boolean> {
+    const { register: name, address, value } = params || {};
+    const register = this.device.registers.find(r => name !== undefined ? r.name === name : r.address === address);
+    if (!register) {
+      throw new RegisterMapError(`No register ${name ?? `at address ${address}`} in the register map of device ${this.device.id}`);
+    }
+    
+    // Rejects read-only registers and out-of-range values before connecting
+    const encoded = encodeRegister(register, value);
+    
     if (!this.isConnected()) {
       await this.connect();
       if (!this.isConnected()) {
@@ -447,33 +307,12 @@ export class EnhancedModbusAdapter extends BaseDeviceAdapter {
     }
     
     try {
-      // Params should have address, value, and type properties
-      const { address, value, type } = params;
-      
-      switch (type.toLowerCase()) {
-        case 'coil':
-        case 'boolean':
-          await this.client.writeCoil(address, !!value);
-          break;
-          
-        case 'holding':
-        case 'uint16':
-        case 'int16':
-          await this.client.writeRegister(address, value);
-          break;
-          
-        case 'float32':
-        case 'float':
-          // Convert float to two registers
-          const buf = Buffer.allocUnsafe(4);
-          buf.writeFloatBE(value, 0);
-          const regHigh = buf.readUInt16BE(0);
-          const regLow = buf.readUInt16BE(2);
-          await this.client.writeRegisters(address, [regHigh, regLow]);
-          break;
-          
-        default:
-          throw new Error(`Unsupported write data type: ${type}`);
+      if (typeof encoded === 'boolean') {
+        await this.client.writeCoil(register.address, encoded);
+      } else if (encoded.length === 1) {
+        await this.client.writeRegister(register.address, encoded[0]);
+      } else {
+        await this.client.writeRegisters(register.address, encoded);
       }
       
       return true;
@@ -2,6 +2,18 @@ import ModbusRTU from 'modbus-serial';
 import { getMqttService, formatDeviceTopic } from '../services/mqttService';
 import { TOPIC_PATTERNS } from '@shared/messageSchema';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  decodeBlock,
+  encodeRegister,
+  generateMockRegisterValue,
+  normalizeRegisters,
+  planBlockReads,
+  RegisterMapError,
+  type ModbusReadBlock,
+  type ModbusRegisterConfig,
+} from './modbusRegisterMap';
+
+export type { ModbusRegisterConfig } from './modbusRegisterMap';
 
 // Types for ModbusDevice configuration
 export interface ModbusDevice {
@@ -27,106 +39,42 @@ export interface ModbusConnectionConfig {
   path?: string;            // Serial port path (for RTU)
 }
 
-// Register configuration
-export interface ModbusRegisterConfig {
-  name: string;             // Register name
-  type: 'holding' | 'input' | 'coil' | 'discrete'; // Register type
-  address: number;          // Register address
-  length: number;           // Number of registers
-  dataType: 'int16' | 'uint16' | 'int32' | 'uint32' | 'float32' | 'boolean' | 'buffer'; // Data type
-  scale?: number;           // Scaling factor
-  unit?: string;            // Engineering unit
-  byteOrder?: 'BE' | 'LE';  // Byte order (big-endian or little-endian)
-  bitOffset?: number;       // Bit offset for boolean values
-  description?: string;     // Register description
-}
-
-// Convert data based on its type
-function convertModbusData(buffer: Buffer, dataType: string, byteOrder: 'BE' | 'LE' = 'BE', scale: number = 1): any {
-  if (!buffer || buffer.length === 0) return null;
-  
-  switch (dataType) {
-    case 'int16':
-      return (byteOrder === 'BE' ? buffer.readInt16BE(0) : buffer.readInt16LE(0)) * scale;
-    case 'uint16':
-      return (byteOrder === 'BE' ? buffer.readUInt16BE(0) : buffer.readUInt16LE(0)) * scale;
-    case 'int32':
-      if (buffer.length < 4) return null;
-      return (byteOrder === 'BE' ? buffer.readInt32BE(0) : buffer.readInt32LE(0)) * scale;
-    case 'uint32':
-      if (buffer.length < 4) return null;
-      return (byteOrder === 'BE' ? buffer.readUInt32BE(0) : buffer.readUInt32LE(0)) * scale;
-    case 'float32':
-      if (buffer.length < 4) return null;
-      return (byteOrder === 'BE' ? buffer.readFloatBE(0) : buffer.readFloatLE(0)) * scale;
-    case 'boolean':
-      return buffer[0] !== 0;
-    case 'buffer':
-      return buffer.toString('hex');
-    default:
-      return null;
-  }
-}
-
-// Mock data generator for development mode
-function generateMockModbusData(register: ModbusRegisterConfig): any {
-  const scale = register.scale || 1;
-  
-  switch (register.dataType) {
-    case 'int16':
-      return Math.floor(Math.random() * 200 - 100) * scale;
-    case 'uint16':
-      return Math.floor(Math.random() * 65535) * scale;
-    case 'int32':
-      return Math.floor(Math.random() * 20000 - 10000) * scale;
-    case 'uint32':
-      return Math.floor(Math.random() * 4294967295) * scale;
-    case 'float32':
-      return parseFloat((Math.random() * 200 - 100).toFixed(2)) * scale;
-    case 'boolean':
-      return Math.random() > 0.5;
-    case 'buffer':
-      const arr = new Uint8Array(register.length * 2);
-      for (let i = 0; i < arr.length; i++) {
-        arr[i] = Math.floor(Math.random() * 256);
-      }
-      return Buffer.from(arr).toString('hex');
-    default:
-      return null;
-  }
-}
-
-// Read specific register types
-async function readRegister(client: ModbusRTU, register: ModbusRegisterConfig): Promise<Buffer | null> {
+// Read a block of registers or bits
+async function readBlock(client: ModbusRTU, block: ModbusReadBlock): Promise<Array<number | boolean> | null> {
   try {
-    let result;
-    switch (register.type) {
+    switch (block.type) {
       case 'holding':
-        result = await client.readHoldingRegisters(register.address, register.length);
-        return result.buffer;
+        return (await client.readHoldingRegisters(block.address, block.length)).data;
       case 'input':
-        result = await client.readInputRegisters(register.address, register.length);
-        return result.buffer;
+        return (await client.readInputRegisters(block.address, block.length)).data;
       case 'coil':
-        result = await client.readCoils(register.address, register.length);
-        return result.buffer;
+        return (await client.readCoils(block.address, block.length)).data;
       case 'discrete':
-        result = await client.readDiscreteInputs(register.address, register.length);
-        return result.buffer;
+        return (await client.readDiscreteInputs(block.address, block.length)).data;
       default:
-        console.error(`Unsupported register type: ${register.type}`);
+        console.error(`Unsupported register type: ${block.type}`);
         return null;
     }
   } catch (error) {
-    console.error(`Error reading ${register.type} register at address ${register.address}:`, error);
+    console.error(`Error reading ${block.length} ${block.type} registers at address ${block.address}:`, error);
     return null;
   }
 }
 
+// Raw words of a register within a block, as hex
+function rawRegisterHex(block: ModbusReadBlock, register: ModbusRegisterConfig, data: Array<number | boolean>): string {
+  const index = register.address - block.address;
+  const words = data.slice(index, index + register.length).map(word => Number(word));
+  const buffer = Buffer.alloc(words.length * 2);
+  words.forEach((word, i) => buffer.writeUInt16BE(word & 0xffff, i * 2));
+  return buffer.toString('hex');
+}
+
 // Class for managing Modbus device connections
 export class ModbusAdapter {
   private client: ModbusRTU;
   private device: ModbusDevice;
+  private blocks: ModbusReadBlock[];
   private connected: boolean = false;
   private scanIntervalId: NodeJS.Timeout | null = null;
   private retryCount: number = 0;
@@ -138,9 +86,11 @@ export class ModbusAdapter {
   constructor(device: ModbusDevice) {
     this.device = {
       ...device,
+      registers: normalizeRegisters(device.registers, device.id),
       timeout: device.timeout || 5000,
       retryCount: device.retryCount || 3
     };
+    this.blocks = planBlockReads(this.device.registers);
     this.client = new ModbusRTU();
     
     if (this.inDevelopment) {
@@ -301,40 +251,34 @@ export class ModbusAdapter {
     try {
       const readingsData: Record<string, any> = {};
       
-      // Read each register in sequence
-      for (const register of this.device.registers) {
-        let value: any;
-        
-        if (this.inDevelopment || this.device.connection.type === 'mock') {
-          // Generate mock data in development mode
-          value = generateMockModbusData(register);
-        } else {
-          // Read actual register
-          const buffer = await readRegister(this.client, register);
+      if (this.inDevelopment || this.device.connection.type === 'mock') {
+        // Generate mock data in development mode
+        for (const register of this.device.registers) {
+          readingsData[register.name] = generateMockRegisterValue(register);
+        }
+      } else {
+        // Read adjacent registers together
+        for (const block of this.blocks) {
+          const data = await readBlock(this.client, block);
           
-          if (buffer === null) {
-            console.warn(`Failed to read register ${register.name} from device ${this.device.id}`);
+          if (data === null) {
+            console.warn(`Failed to read registers ${block.registers.map(r => r.name).join(', ')} from device ${this.device.id}`);
             continue;
           }
           
-          // Convert based on data type
-          value = convertModbusData(
-            buffer, 
-            register.dataType, 
-            register.byteOrder || 'BE', 
-            register.scale || 1
-          );
+          Object.assign(readingsData, decodeBlock(block, data));
           
           // Publish raw register data if requested
-          if (this.device.publishRaw) {
-            readingsData[`${register.name}_raw`] = buffer.toString('hex');
+          if (this.device.publishRaw && block.type !== 'coil' && block.type !== 'discrete') {
+            for (const register of block.registers) {
+              readingsData[`${register.name}_raw`] = rawRegisterHex(block, register, data);
+            }
           }
         }
-        
-        // Store the processed value
-        readingsData[register.name] = value;
       }
       
+      this.lastReadings = readingsData;
+      
       // If we have actual readings, publish them
       if (Object.keys(readingsData).length > 0) {
         // Map standard register names to EMS telemetry fields
@@ -427,6 +371,35 @@ export class ModbusAdapter {
     return this.lastReadings;
   }
   
+  // Write a value to a register of the map, after checking its access and range
+  async writeRegister(name: string, value: unknown): Promise<boolean> {
+    const register = this.device.registers.find(r => r.name === name);
+    if (!register) {
+      throw new RegisterMapError('Register is not in the register map of the device', name);
+    }
+    
+    const encoded = encodeRegister(register, value);
+    
+    if (this.inDevelopment || this.device.connection.type === 'mock') {
+      console.log(`Simulated write of ${JSON.stringify(value)} to register ${name} of Modbus device ${this.device.id}`);
+      return true;
+    }
+    
+    if (!this.connected && !(await this.connect())) {
+      return false;
+    }
+    
+    if (typeof encoded === 'boolean') {
+      await this.client.writeCoil(register.address, encoded);
+    } else if (encoded.length === 1) {
+      await this.client.writeRegister(register.address, encoded[0]);
+    } else {
+      await this.client.writeRegisters(register.address, encoded);
+    }
+    
+    return true;
+  }
+  
   // Publish device status via MQTT
   private async publishDeviceStatus(status: 'online' | 'offline' | 'error', details?: string): Promise<void> {
     const statusMessage = {
@@ -488,6 +461,22 @@ export class ModbusManager {
     return this.adapters.get(deviceId);
   }
   
+  // Send a command writing a register: { register, value }
+  async sendCommand(deviceId: number, command: any): Promise<boolean> {
+    const adapter = this.adapters.get(deviceId);
+    if (!adapter) {
+      console.error(`Modbus device ${deviceId} not found`);
+      return false;
+    }
+    
+    if (!command || typeof command.register !== 'string' || command.value === undefined) {
+      console.error(`Invalid Modbus command for device ${deviceId}: expected register and value`);
+      return false;
+    }
+    
+    return adapter.writeRegister(command.register, command.value);
+  }
+  
   // Stop and disconnect all devices
   async shutdown(): Promise<void> {
     const shutdownPromises: Promise<void>[] = [];
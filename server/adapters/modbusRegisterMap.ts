@@ -0,0 +1,544 @@
+/**
+ * Modbus register maps
+ *
+ * A register map describes the registers of a device model: where each value
+ * lives, how its registers are decoded and which values may be written. Maps
+ * are generated from the device catalog (device_catalog_registers) or written
+ * by hand in a device's protocol config, and are shared by the Modbus
+ * adapters, which read them in as few requests as possible:
+ *
+ * - adjacent registers of the same table are coalesced into block reads,
+ *   bridging small gaps, up to the Modbus limit of one request
+ * - multi-register values are decoded with the configured word order (word
+ *   swap) and byte order (byte swap) before scaling and offset are applied
+ * - strings span several registers, bitfields decode to named flags
+ * - writes are checked against the access, min/max and data type range of
+ *   the register before they are encoded
+ */
+
+import type { DeviceCatalogRegister } from '@shared/schema';
+
+export type ModbusTable = 'holding' | 'input' | 'coil' | 'discrete';
+
+export type ModbusDataType =
+  | 'int16' | 'uint16' | 'int32' | 'uint32' | 'int64' | 'uint64'
+  | 'float32' | 'float64' | 'boolean' | 'string' | 'bitfield' | 'buffer';
+
+export type ModbusAccess = 'read' | 'write' | 'read-write';
+
+// Register configuration
+export interface ModbusRegisterConfig {
+  name: string;             // Register name
+  type: ModbusTable;        // Register table
+  address: number;          // Register address (zero-based, as sent on the wire)
+  length: number;           // Number of registers (bits for coils and discrete inputs)
+  dataType: ModbusDataType; // Data type
+  scale?: number;           // Scaling factor
+  offset?: number;          // Added after scaling
+  unit?: string;            // Engineering unit
+  byteOrder?: 'BE' | 'LE';  // LE swaps the two bytes of each register
+  wordOrder?: 'BE' | 'LE';  // LE puts the low word first (word swap)
+  bitOffset?: number;       // Bit of the register holding a boolean
+  bits?: Record<string, string>; // Flag name per bit number, for bitfields
+  min?: number;             // Lowest value that may be written, in engineering units
+  max?: number;             // Highest value that may be written, in engineering units
+  access?: ModbusAccess;    // Defaults to read-write for holding registers and coils
+  description?: string;     // Register description
+}
+
+// A single read request covering one or more registers
+export interface ModbusReadBlock {
+  type: ModbusTable;
+  address: number;
+  length: number;
+  registers: ModbusRegisterConfig[];
+}
+
+export interface BlockReadOptions {
+  maxGap?: number;          // Unused registers a block may bridge
+  maxLength?: number;       // Registers (or bits) per request
+}
+
+export class RegisterMapError extends Error {
+  constructor(message: string, public readonly register?: string) {
+    super(register ? `${register}: ${message}` : message);
+    this.name = 'RegisterMapError';
+  }
+}
+
+export const MODBUS_TABLES: ModbusTable[] = ['holding', 'input', 'coil', 'discrete'];
+
+export const MODBUS_DATA_TYPES: ModbusDataType[] = [
+  'int16', 'uint16', 'int32', 'uint32', 'int64', 'uint64',
+  'float32', 'float64', 'boolean', 'string', 'bitfield', 'buffer',
+];
+
+// Registers taken by each fixed-size data type
+const DATA_TYPE_LENGTHS: Partial<Record<ModbusDataType, number>> = {
+  int16: 1, uint16: 1, int32: 2, uint32: 2, int64: 4, uint64: 4,
+  float32: 2, float64: 4, boolean: 1,
+};
+
+// Raw value range of the integer data types
+const INTEGER_RANGES: Partial<Record<ModbusDataType, [number, number]>> = {
+  int16: [-0x8000, 0x7fff],
+  uint16: [0, 0xffff],
+  int32: [-0x80000000, 0x7fffffff],
+  uint32: [0, 0xffffffff],
+  int64: [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+  uint64: [0, Number.MAX_SAFE_INTEGER],
+};
+
+// Catalog data types predating the Modbus-specific ones
+const CATALOG_TYPE_ALIASES: Record<string, ModbusDataType> = {
+  integer: 'int16',
+  int: 'int16',
+  uint: 'uint16',
+  float: 'float32',
+  double: 'float64',
+  bool: 'boolean',
+  bits: 'bitfield',
+};
+
+// Catalog protocols whose registers are read over Modbus
+const MODBUS_PROTOCOLS = ['modbus_tcp', 'modbus_rtu', 'sunspec'];
+
+// Modbus allows 125 registers or 2000 bits per read request
+const MAX_REGISTERS_PER_READ = 125;
+const MAX_BITS_PER_READ = 2000;
+const DEFAULT_MAX_GAP = 8;
+
+function isBitTable(type: ModbusTable): boolean {
+  return type === 'coil' || type === 'discrete';
+}
+
+/**
+ * Registers needed by a value of the given data type, or null if its length
+ * is set by the register map (strings, bitfields and raw buffers)
+ */
+export function getDataTypeLength(dataType: ModbusDataType): number | null {
+  return DATA_TYPE_LENGTHS[dataType] ?? null;
+}
+
+/**
+ * Parse a register address: decimal, or hexadecimal with a 0x prefix
+ */
+export function parseRegisterAddress(address: string | number): number | null {
+  const text = String(address).trim();
+  const value = /^0x[0-9a-f]+$/i.test(text) ? parseInt(text, 16) : /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+  return Number.isInteger(value) && value >= 0 && value <= 0xffff ? value : null;
+}
+
+/**
+ * Resolve a data type name, accepting the generic catalog names
+ */
+export function parseDataType(dataType: string): ModbusDataType | null {
+  const name = dataType.trim().toLowerCase();
+  if ((MODBUS_DATA_TYPES as string[]).includes(name)) return name as ModbusDataType;
+  return CATALOG_TYPE_ALIASES[name] ?? null;
+}
+
+/**
+ * Check a register and fill in the defaults for its table and data type
+ *
+ * Throws a RegisterMapError when the register cannot be read as configured.
+ */
+export function normalizeRegister(register: ModbusRegisterConfig): ModbusRegisterConfig {
+  const { name } = register;
+  if (!name) throw new RegisterMapError('Register has no name');
+
+  const type = register.type || 'holding';
+  if (!MODBUS_TABLES.includes(type)) throw new RegisterMapError(`Unknown register table '${type}'`, name);
+
+  const address = parseRegisterAddress(register.address);
+  if (address === null) throw new RegisterMapError(`Invalid address '${register.address}'`, name);
+
+  const dataType = isBitTable(type) ? 'boolean' : parseDataType(register.dataType || 'uint16');
+  if (!dataType) throw new RegisterMapError(`Unknown data type '${register.dataType}'`, name);
+
+  const length = isBitTable(type) ? 1 : getDataTypeLength(dataType) ?? (register.length || 1);
+  if (dataType === 'bitfield' && length > 2) {
+    throw new RegisterMapError('Bitfields span at most 2 registers', name);
+  }
+  if (address + length > 0x10000) throw new RegisterMapError('Register extends past address 65535', name);
+
+  if (register.min != null && register.max != null && register.min > register.max) {
+    throw new RegisterMapError('Min is above max', name);
+  }
+
+  return { ...register, type, address, length, dataType };
+}
+
+/**
+ * Normalize the registers of a hand-written map, skipping those that cannot
+ * be read as configured
+ */
+export function normalizeRegisters(registers: ModbusRegisterConfig[], deviceId?: number): ModbusRegisterConfig[] {
+  const normalized: ModbusRegisterConfig[] = [];
+
+  for (const register of registers) {
+    try {
+      normalized.push(normalizeRegister(register));
+    } catch (error) {
+      console.warn(`Skipping register of Modbus device ${deviceId ?? 'unknown'}:`, (error as Error).message);
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Generate the register map of a catalog model from its Modbus and SunSpec registers
+ *
+ * Registers that cannot be read as configured are skipped with a warning, so
+ * one bad row does not take a whole model offline.
+ */
+export function registerMapFromCatalog(rows: DeviceCatalogRegister[]): ModbusRegisterConfig[] {
+  const registers: ModbusRegisterConfig[] = [];
+
+  for (const row of rows) {
+    if (!MODBUS_PROTOCOLS.includes(row.protocol)) continue;
+
+    try {
+      const address = parseRegisterAddress(row.address);
+      if (address === null) throw new RegisterMapError(`Invalid address '${row.address}'`, row.name);
+
+      registers.push(normalizeRegister({
+        name: row.name,
+        type: (row.registerType || 'holding') as ModbusTable,
+        address,
+        length: row.registerCount ?? 1,
+        dataType: (parseDataType(row.dataType) ?? row.dataType) as ModbusDataType,
+        scale: row.scaleFactor != null ? Number(row.scaleFactor) : undefined,
+        offset: row.offsetValue != null ? Number(row.offsetValue) : undefined,
+        unit: row.unit ?? undefined,
+        byteOrder: row.byteOrder === 'LE' ? 'LE' : undefined,
+        wordOrder: row.wordOrder === 'LE' ? 'LE' : undefined,
+        bits: (row.bitMap as Record<string, string> | null) ?? undefined,
+        min: row.minValue != null ? Number(row.minValue) : undefined,
+        max: row.maxValue != null ? Number(row.maxValue) : undefined,
+        access: row.access as ModbusAccess,
+        description: row.description ?? undefined,
+      }));
+    } catch (error) {
+      console.warn(`Skipping catalog register ${row.id} of model ${row.deviceCatalogId}:`, (error as Error).message);
+    }
+  }
+
+  return registers;
+}
+
+/**
+ * Coalesce registers into block reads
+ *
+ * Registers of the same table are read together when the unused registers
+ * between them are no more than `maxGap` and the block stays within one
+ * request. Write-only registers are left out.
+ */
+export function planBlockReads(registers: ModbusRegisterConfig[], options: BlockReadOptions = {}): ModbusReadBlock[] {
+  const maxGap = options.maxGap ?? DEFAULT_MAX_GAP;
+  const blocks: ModbusReadBlock[] = [];
+
+  for (const type of MODBUS_TABLES) {
+    const maxLength = Math.min(options.maxLength ?? Infinity, isBitTable(type) ? MAX_BITS_PER_READ : MAX_REGISTERS_PER_READ);
+    const readable = registers
+      .filter(register => register.type === type && register.access !== 'write')
+      .sort((a, b) => a.address - b.address || b.length - a.length);
+
+    let block: ModbusReadBlock | null = null;
+    for (const register of readable) {
+      const end = register.address + register.length;
+      if (block
+        && register.address - (block.address + block.length) <= maxGap
+        && Math.max(end, block.address + block.length) - block.address <= maxLength) {
+        block.length = Math.max(end, block.address + block.length) - block.address;
+        block.registers.push(register);
+        continue;
+      }
+
+      block = { type, address: register.address, length: register.length, registers: [register] };
+      blocks.push(block);
+    }
+  }
+
+  return blocks;
+}
+
+// Bytes of a multi-register value in big-endian order, undoing word and byte swaps
+function wordsToBuffer(register: ModbusRegisterConfig, words: number[]): Buffer {
+  const textual = register.dataType === 'string' || register.dataType === 'buffer';
+  const ordered = register.wordOrder === 'LE' && !textual ? [...words].reverse() : words;
+  const buffer = Buffer.alloc(ordered.length * 2);
+
+  ordered.forEach((word, i) => {
+    if (register.byteOrder === 'LE') {
+      buffer.writeUInt16LE(word & 0xffff, i * 2);
+    } else {
+      buffer.writeUInt16BE(word & 0xffff, i * 2);
+    }
+  });
+
+  return buffer;
+}
+
+// Registers of a big-endian value, applying the register's word and byte swaps
+function bufferToWords(register: ModbusRegisterConfig, buffer: Buffer): number[] {
+  const words: number[] = [];
+  for (let i = 0; i < buffer.length; i += 2) {
+    words.push(register.byteOrder === 'LE' ? buffer.readUInt16LE(i) : buffer.readUInt16BE(i));
+  }
+
+  const textual = register.dataType === 'string' || register.dataType === 'buffer';
+  return register.wordOrder === 'LE' && !textual ? words.reverse() : words;
+}
+
+function applyScale(register: ModbusRegisterConfig, raw: number): number {
+  return raw * (register.scale ?? 1) + (register.offset ?? 0);
+}
+
+/**
+ * Decode the value of a register from its raw 16-bit words
+ *
+ * Numbers are scaled and offset into engineering units. Strings are cut at
+ * the first NUL, bitfields decode to a flag per named bit (or the raw number
+ * when no bits are named), and raw buffers to hex.
+ */
+export function decodeRegister(register: ModbusRegisterConfig, words: number[]): any {
+  if (words.length < register.length) return null;
+
+  const buffer = wordsToBuffer(register, words.slice(0, register.length));
+
+  switch (register.dataType) {
+    case 'int16':
+      return applyScale(register, buffer.readInt16BE(0));
+    case 'uint16':
+      return applyScale(register, buffer.readUInt16BE(0));
+    case 'int32':
+      return applyScale(register, buffer.readInt32BE(0));
+    case 'uint32':
+      return applyScale(register, buffer.readUInt32BE(0));
+    case 'int64':
+      return applyScale(register, Number(buffer.readBigInt64BE(0)));
+    case 'uint64':
+      return applyScale(register, Number(buffer.readBigUInt64BE(0)));
+    case 'float32':
+      return applyScale(register, buffer.readFloatBE(0));
+    case 'float64':
+      return applyScale(register, buffer.readDoubleBE(0));
+    case 'boolean': {
+      const word = buffer.readUInt16BE(0);
+      return register.bitOffset != null ? ((word >> register.bitOffset) & 1) === 1 : word !== 0;
+    }
+    case 'string': {
+      const end = buffer.indexOf(0);
+      return (end >= 0 ? buffer.subarray(0, end) : buffer).toString('utf8').trim();
+    }
+    case 'bitfield': {
+      const raw = buffer.readUIntBE(0, buffer.length);
+      if (!register.bits) return raw;
+
+      const flags: Record<string, boolean> = {};
+      for (const [bit, name] of Object.entries(register.bits)) {
+        flags[name] = Math.floor(raw / 2 ** Number(bit)) % 2 === 1;
+      }
+      return flags;
+    }
+    case 'buffer':
+      return buffer.toString('hex');
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decode the values of a block read, keyed by register name
+ *
+ * `data` holds the words of a register block, or the bits of a coil or
+ * discrete input block.
+ */
+export function decodeBlock(block: ModbusReadBlock, data: Array<number | boolean>): Record<string, any> {
+  const values: Record<string, any> = {};
+
+  for (const register of block.registers) {
+    const index = register.address - block.address;
+    if (isBitTable(block.type)) {
+      values[register.name] = data[index] === undefined ? null : !!data[index];
+    } else {
+      values[register.name] = decodeRegister(register, data.slice(index, index + register.length) as number[]);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Check that a value may be written to a register
+ *
+ * Throws a RegisterMapError naming the register when it is read-only, the
+ * value has the wrong type, lies outside the register's min/max or does not
+ * fit its data type once scaled.
+ */
+export function validateRegisterWrite(register: ModbusRegisterConfig, value: unknown): void {
+  const { name } = register;
+
+  if (register.type === 'input' || register.type === 'discrete') {
+    throw new RegisterMapError(`${register.type === 'input' ? 'Input registers' : 'Discrete inputs'} are read-only`, name);
+  }
+  if (register.access === 'read') throw new RegisterMapError('Register is read-only', name);
+
+  switch (register.dataType) {
+    case 'boolean':
+      if (typeof value !== 'boolean' && value !== 0 && value !== 1) {
+        throw new RegisterMapError('Value must be a boolean', name);
+      }
+      if (register.type === 'holding' && register.bitOffset != null) {
+        throw new RegisterMapError('Single bits of a register cannot be written', name);
+      }
+      return;
+
+    case 'string':
+      if (typeof value !== 'string') throw new RegisterMapError('Value must be a string', name);
+      if (Buffer.byteLength(value, 'utf8') > register.length * 2) {
+        throw new RegisterMapError(`Value is longer than ${register.length * 2} bytes`, name);
+      }
+      return;
+
+    case 'buffer':
+      if (typeof value !== 'string' || !/^([0-9a-f]{2})*$/i.test(value) || value.length > register.length * 4) {
+        throw new RegisterMapError(`Value must be hex of at most ${register.length * 2} bytes`, name);
+      }
+      return;
+
+    case 'bitfield': {
+      const raw = typeof value === 'object' && value !== null ? null : Number(value);
+      if (raw !== null && (!Number.isInteger(raw) || raw < 0 || raw >= 2 ** (register.length * 16))) {
+        throw new RegisterMapError(`Value must be an integer of ${register.length * 16} bits`, name);
+      }
+      if (raw === null) {
+        const names = Object.values(register.bits ?? {});
+        const unknown = Object.keys(value as object).filter(flag => !names.includes(flag));
+        if (unknown.length > 0) throw new RegisterMapError(`Unknown flags ${unknown.join(', ')}`, name);
+      }
+      return;
+    }
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new RegisterMapError('Value must be a number', name);
+  }
+  if (register.min != null && value < register.min) {
+    throw new RegisterMapError(`Value ${value} is below the minimum of ${register.min}`, name);
+  }
+  if (register.max != null && value > register.max) {
+    throw new RegisterMapError(`Value ${value} is above the maximum of ${register.max}`, name);
+  }
+
+  const range = INTEGER_RANGES[register.dataType];
+  if (range) {
+    const raw = Math.round((value - (register.offset ?? 0)) / (register.scale ?? 1));
+    if (raw < range[0] || raw > range[1]) {
+      throw new RegisterMapError(`Value ${value} does not fit a ${register.dataType} register`, name);
+    }
+  }
+}
+
+/**
+ * Encode a value for writing, after validating it
+ *
+ * Returns the words to write to a holding register, or the state of a coil.
+ * A bitfield given as flags sets the named bits and clears all others.
+ */
+export function encodeRegister(register: ModbusRegisterConfig, value: unknown): number[] | boolean {
+  validateRegisterWrite(register, value);
+
+  if (register.type === 'coil') return !!value;
+
+  const buffer = Buffer.alloc(register.length * 2);
+  const raw = typeof value === 'number'
+    ? (value - (register.offset ?? 0)) / (register.scale ?? 1)
+    : 0;
+
+  switch (register.dataType) {
+    case 'int16':
+      buffer.writeInt16BE(Math.round(raw), 0);
+      break;
+    case 'uint16':
+      buffer.writeUInt16BE(Math.round(raw), 0);
+      break;
+    case 'int32':
+      buffer.writeInt32BE(Math.round(raw), 0);
+      break;
+    case 'uint32':
+      buffer.writeUInt32BE(Math.round(raw), 0);
+      break;
+    case 'int64':
+      buffer.writeBigInt64BE(BigInt(Math.round(raw)), 0);
+      break;
+    case 'uint64':
+      buffer.writeBigUInt64BE(BigInt(Math.round(raw)), 0);
+      break;
+    case 'float32':
+      buffer.writeFloatBE(raw, 0);
+      break;
+    case 'float64':
+      buffer.writeDoubleBE(raw, 0);
+      break;
+    case 'boolean':
+      buffer.writeUInt16BE(value ? 1 : 0, 0);
+      break;
+    case 'string':
+      buffer.write(value as string, 'utf8');
+      break;
+    case 'buffer':
+      Buffer.from(value as string, 'hex').copy(buffer);
+      break;
+    case 'bitfield': {
+      let bits = 0;
+      if (typeof value === 'object' && value !== null) {
+        for (const [bit, name] of Object.entries(register.bits ?? {})) {
+          if ((value as Record<string, unknown>)[name]) bits += 2 ** Number(bit);
+        }
+      } else {
+        bits = Number(value);
+      }
+      buffer.writeUIntBE(bits, 0, buffer.length);
+      break;
+    }
+  }
+
+  return bufferToWords(register, buffer);
+}
+
+/**
+ * Simulated value of a register, for development mode and mock connections
+ */
+export function generateMockRegisterValue(register: ModbusRegisterConfig): any {
+  const scale = register.scale ?? 1;
+  const offset = register.offset ?? 0;
+
+  switch (register.dataType) {
+    case 'int16':
+      return Math.floor(Math.random() * 200 - 100) * scale + offset;
+    case 'uint16':
+      return Math.floor(Math.random() * 1000) * scale + offset;
+    case 'int32':
+    case 'int64':
+      return Math.floor(Math.random() * 20000 - 10000) * scale + offset;
+    case 'uint32':
+    case 'uint64':
+      return Math.floor(Math.random() * 100000) * scale + offset;
+    case 'float32':
+    case 'float64':
+      return parseFloat((Math.random() * 200 - 100).toFixed(2)) * scale + offset;
+    case 'boolean':
+      return Math.random() > 0.5;
+    case 'string':
+      return `SIM-${register.name}`.slice(0, register.length * 2);
+    case 'bitfield':
+      return decodeRegister(register, Array.from({ length: register.length }, () => Math.random() < 0.1 ? 1 : 0));
+    case 'buffer':
+      return Buffer.from(Array.from({ length: register.length * 2 }, () => Math.floor(Math.random() * 256))).toString('hex');
+    default:
+      return null;
+  }
+}
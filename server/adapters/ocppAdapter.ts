@@ -53,7 +53,7 @@ export interface ChargingProfile {
   recurrencyKind?: 'Daily' | 'Weekly';
   validFrom?: string;
   validTo?: string;
-  transactionId?: number;
+  transactionId?: number | string; // String for OCPP 2.0.1
   chargingSchedule: {
     duration?: number;
     startSchedule?: string;
@@ -3,25 +3,194 @@
  * 
  * This adapter implements the SunSpec protocol for solar inverters and other
  * renewable energy devices, supporting both Modbus TCP and Modbus RTU.
+ *
+ * The model chain is walked from the SunSpec header and every model with a
+ * definition (see sunspecEngine) is decoded, including the 7xx IEEE 1547 DER
+ * and 8xx storage models. Simulated devices serve a register image built from
+ * the same definitions, so they exercise the same decoding and writes.
  */
 
 import { v4 as uuidv4 } from 'uuid';
 import ModbusRTU from 'modbus-serial';
 import { getMqttService, formatDeviceTopic } from '../services/mqttService';
 import { TOPIC_PATTERNS } from '@shared/messageSchema';
+import {
+  createModelImage,
+  decodeModel,
+  encodeModelWrites,
+  getModelDefinition,
+  SunSpecError,
+  SUNSPEC_HEADER_LENGTH,
+  type SunSpecModelData,
+} from './sunspecEngine';
 
 // SunSpec start register identifier
 const SUNSPEC_ID_REGISTER = 40000;
 const SUNSPEC_ID_VALUE = 0x53756e53; // "SunS" in ASCII
+const SUNSPEC_END_MODEL = 0xFFFF;    // Model ID marking the end of the model chain
 
-// SunSpec common model identifiers
+// Largest blocks for a single Modbus read and write
+const MAX_READ_REGISTERS = 125;
+const MAX_WRITE_REGISTERS = 123;
+
+// SunSpec model identifiers
 const MODEL_COMMON = 1;        // Common Model
 const MODEL_INVERTER_SINGLE = 101; // Single Phase Inverter
 const MODEL_INVERTER_SPLIT = 102; // Split Phase Inverter
 const MODEL_INVERTER_THREE = 103; // Three Phase Inverter
-const MODEL_STORAGE = 124;     // Storage Device
+const MODEL_NAMEPLATE = 120;   // Inverter Nameplate Ratings
+const MODEL_SETTINGS = 121;    // Inverter Basic Settings
+const MODEL_CONTROLS = 123;    // Immediate Inverter Controls
+const MODEL_STORAGE = 124;     // Basic Storage Controls
 const MODEL_MPPT = 160;        // Multiple Power Point Tracking
 const MODEL_STRING_COMBINER = 403; // String Combiner / DC Meter
+const MODEL_DER_MEASURE_AC = 701;  // IEEE 1547 DER AC Measurement
+const MODEL_DER_CTL_AC = 704;      // IEEE 1547 DER AC Controls
+const MODEL_DER_VOLT_VAR = 705;    // IEEE 1547 DER Volt-Var
+const MODEL_BATTERY = 802;     // Battery Base Model
+
+// Prefixes of the flattened readings of each model
+const MODEL_PREFIXES: Record<number, string> = {
+  [MODEL_INVERTER_SINGLE]: 'inv',
+  [MODEL_INVERTER_SPLIT]: 'inv',
+  [MODEL_INVERTER_THREE]: 'inv',
+  [MODEL_NAMEPLATE]: 'nameplate',
+  [MODEL_SETTINGS]: 'settings',
+  [MODEL_CONTROLS]: 'controls',
+  [MODEL_STORAGE]: 'storage',
+  [MODEL_MPPT]: 'mppt',
+  [MODEL_STRING_COMBINER]: 'string',
+  [MODEL_DER_MEASURE_AC]: 'der',
+  702: 'der_capacity',
+  703: 'der_enter_service',
+  [MODEL_DER_CTL_AC]: 'der_ctl',
+  [MODEL_DER_VOLT_VAR]: 'volt_var',
+  706: 'volt_watt',
+  707: 'trip_lv',
+  708: 'trip_hv',
+  709: 'trip_lf',
+  710: 'trip_hf',
+  711: 'freq_droop',
+  712: 'watt_var',
+  713: 'der_storage',
+  714: 'der_dc',
+  715: 'der_control',
+  [MODEL_BATTERY]: 'battery'
+};
+
+// Readings mapped to the standard EMS fields; the first reading present wins
+const STANDARD_FIELDS: Array<{ field: string; unit: string; keys: string[] }> = [
+  { field: 'power', unit: 'W', keys: ['inv_W', 'der_W'] },
+  { field: 'energy', unit: 'Wh', keys: ['inv_WH', 'der_TotWhInj'] },
+  { field: 'dcPower', unit: 'W', keys: ['inv_DCW', 'der_dc_DCW'] },
+  { field: 'dcVoltage', unit: 'V', keys: ['inv_DCV'] },
+  { field: 'dcCurrent', unit: 'A', keys: ['inv_DCA', 'der_dc_DCA'] },
+  { field: 'stateOfCharge', unit: '%', keys: ['battery_SoC', 'der_storage_SoC', 'storage_ChaState'] },
+  { field: 'batteryPower', unit: 'W', keys: ['battery_W'] },
+  { field: 'frequency', unit: 'Hz', keys: ['inv_Hz', 'der_Hz'] },
+  { field: 'temperature', unit: 'C', keys: ['inv_TmpCab', 'der_TmpCab'] }
+];
+
+// Inverter operating state (St) while tracking the maximum power point
+const INVERTER_STATE_MPPT = 4;
+
+// Charge status (ChaSt) of the storage and battery models
+const CHARGE_STATE_DISCHARGING = 3;
+const CHARGE_STATE_CHARGING = 4;
+
+// Models of a simulated device: repeating group counts and initial point values.
+// Scale factors come first so the points after them are scaled.
+const MOCK_MODELS: Array<{ id: number; counts?: Record<string, number>; values: Record<string, unknown> }> = [
+  {
+    id: MODEL_COMMON,
+    values: { Mn: 'SunSpec Mock', Md: 'InverterSim 2000', Vr: '1.0.0', DA: 1 }
+  },
+  {
+    id: MODEL_INVERTER_THREE,
+    values: {
+      A_SF: -2, V_SF: -1, W_SF: 0, Hz_SF: -2, VA_SF: 0, WH_SF: 0, DCA_SF: -2, DCV_SF: -1, DCW_SF: 0, Tmp_SF: -1,
+      PPVphAB: 400.2, PPVphBC: 400.8, PPVphCA: 399.6, PhVphA: 230.5, PhVphB: 231.2, PhVphC: 230.8,
+      DCV: 380.5, WH: 25000000, St: 'MPPT', Evt1: []
+    }
+  },
+  {
+    id: MODEL_NAMEPLATE,
+    values: {
+      WRtg_SF: 0, VARtg_SF: 0, ARtg_SF: -1, WHRtg_SF: 1, MaxChaRte_SF: 0, MaxDisChaRte_SF: 0,
+      DERTyp: 'PV_STOR', WRtg: 5000, VARtg: 5000, ARtg: 8, WHRtg: 10000, MaxChaRte: 5000, MaxDisChaRte: 5000
+    }
+  },
+  {
+    id: MODEL_SETTINGS,
+    values: {
+      WMax_SF: 0, VRef_SF: -1, VRefOfs_SF: -1, VMinMax_SF: -1, VAMax_SF: 0, ECPNomHz_SF: -2,
+      WMax: 5000, VRef: 230, VRefOfs: 0, VMax: 253, VMin: 207, VAMax: 5000, ECPNomHz: 50
+    }
+  },
+  {
+    id: MODEL_CONTROLS,
+    values: {
+      WMaxLimPct_SF: 0, OutPFSet_SF: -3, VArPct_SF: 0,
+      Conn: 'CONNECT', WMaxLimPct: 100, WMaxLim_Ena: 'DISABLED', OutPFSet: 1, OutPFSet_Ena: 'DISABLED',
+      VArPct_Ena: 'DISABLED'
+    }
+  },
+  {
+    id: MODEL_STORAGE,
+    values: {
+      WChaMax_SF: 0, WChaDisChaGra_SF: 0, MinRsvPct_SF: 0, ChaState_SF: -1, InBatV_SF: -1, InOutWRte_SF: 0,
+      WChaMax: 5000, WChaGra: 100, WDisChaGra: 100, StorCtl_Mod: [], MinRsvPct: 10, ChaState: 87.5,
+      InBatV: 51.2, ChaSt: 'HOLDING', OutWRte: 100, InWRte: 100, ChaGriSet: 'PV'
+    }
+  },
+  {
+    id: MODEL_MPPT,
+    counts: { N: 2 },
+    values: {
+      DCA_SF: -2, DCV_SF: -1, DCW_SF: 0, DCWH_SF: 0,
+      'module[0].ID': 1, 'module[0].IDStr': 'String 1', 'module[1].ID': 2, 'module[1].IDStr': 'String 2'
+    }
+  },
+  {
+    id: MODEL_DER_MEASURE_AC,
+    values: {
+      A_SF: -2, V_SF: -1, Hz_SF: -2, W_SF: 0, PF_SF: -3, VA_SF: 0, Var_SF: 0, TotWh_SF: 0, TotVarh_SF: 0, Tmp_SF: -1,
+      ACType: 'THREE_PHASE', St: 'ON', InvSt: 'RUNNING', ConnSt: 'CONNECTED', LLV: 400, LNV: 230
+    }
+  },
+  {
+    id: MODEL_DER_CTL_AC,
+    values: {
+      PF_SF: -3, WMaxLimPct_SF: 0, WSet_SF: 0, WSetPct_SF: 0, VarSet_SF: 0, VarSetPct_SF: 0,
+      PFWInjEna: 'DISABLED', 'PFWInj.PF': 1, 'PFWInj.Ext': 'OVER_EXCITED', WMaxLimPctEna: 'DISABLED',
+      WMaxLimPct: 100, WSetEna: 'DISABLED', VarSetEna: 'DISABLED', AntiIslEna: ['ENABLED']
+    }
+  },
+  {
+    id: MODEL_DER_VOLT_VAR,
+    counts: { NCrv: 1, NPt: 4 },
+    // IEEE 1547 category B default curve
+    values: {
+      V_SF: 0, DeptRef_SF: 0, Ena: 'DISABLED', AdptCrvReq: 0, AdptCrvRslt: 'COMPLETED',
+      'Crv[0].ActPt': 4, 'Crv[0].DeptRef': 'VAR_MAX_PCT', 'Crv[0].ReadOnly': 'RW',
+      'Crv[0].Pt[0].V': 92, 'Crv[0].Pt[0].Var': 44,
+      'Crv[0].Pt[1].V': 98, 'Crv[0].Pt[1].Var': 0,
+      'Crv[0].Pt[2].V': 102, 'Crv[0].Pt[2].Var': 0,
+      'Crv[0].Pt[3].V': 108, 'Crv[0].Pt[3].Var': -44
+    }
+  },
+  {
+    id: MODEL_BATTERY,
+    values: {
+      AHRtg_SF: 0, WHRtg_SF: 1, WChaDisChaMax_SF: 0, SoC_SF: -1, DoD_SF: -1, SoH_SF: -1, V_SF: -1, A_SF: -1,
+      AMax_SF: 0, W_SF: 0,
+      AHRtg: 200, WHRtg: 10000, WChaRteMax: 5000, WDisChaRteMax: 5000, SoCMax: 100, SoCMin: 5, SoCRsvMin: 10,
+      SoC: 87.5, DoD: 12.5, SoH: 98.2, NCyc: 120, ChaSt: 'HOLDING', LocRemCtl: 'REMOTE', Typ: 'LITHIUM_ION',
+      State: 'CONNECTED', Evt1: [], V: 51.2, A: 0, AChaMax: 100, ADisChaMax: 100, W: 0, SetOp: 'CONNECT',
+      SetInvState: 'INVERTER_STARTED'
+    }
+  }
+];
 
 // SunSpec connection types
 export enum SunSpecConnectionType {
@@ -51,106 +220,24 @@ export interface SunSpecDeviceConfig {
   models?: number[];        // Optional: specific models to scan
 }
 
-// SunSpec model information
+// SunSpec model found in the device's model chain
 interface SunSpecModel {
   id: number;
-  length: number;
-  address: number;
+  length: number;             // L, the registers after the model header
+  address: number;            // Register of the model ID
   name: string;
-  data?: Record<string, any>;
+  data?: SunSpecModelData;    // Points decoded on the last scan
 }
 
-// Supported SunSpec points by model type
-const MODEL_POINTS: Record<number, Record<string, { address: number, length: number, type: string, sf?: string, unit?: string }>> = {
-  [MODEL_COMMON]: {
-    Mn: { address: 4, length: 16, type: 'string', unit: '' },      // Manufacturer
-    Md: { address: 20, length: 16, type: 'string', unit: '' },     // Model
-    SN: { address: 36, length: 16, type: 'string', unit: '' },     // Serial Number
-    DA: { address: 52, length: 1, type: 'uint16', unit: '' },      // Device Address
-    Vr: { address: 53, length: 8, type: 'string', unit: '' },      // Version
-  },
-  [MODEL_INVERTER_SINGLE]: {
-    A: { address: 2, length: 1, type: 'uint16', sf: 'A_SF', unit: 'A' },       // AC Current
-    AphA: { address: 3, length: 1, type: 'uint16', sf: 'A_SF', unit: 'A' },    // Phase A Current
-    PhVphA: { address: 4, length: 1, type: 'uint16', sf: 'V_SF', unit: 'V' },  // Phase A Voltage
-    W: { address: 14, length: 1, type: 'int16', sf: 'W_SF', unit: 'W' },       // AC Power
-    Hz: { address: 15, length: 1, type: 'uint16', sf: 'Hz_SF', unit: 'Hz' },   // AC Frequency
-    WH: { address: 20, length: 2, type: 'uint32', sf: 'WH_SF', unit: 'Wh' },   // AC Lifetime Energy
-    DCA: { address: 22, length: 1, type: 'uint16', sf: 'DCA_SF', unit: 'A' },  // DC Current
-    DCV: { address: 23, length: 1, type: 'uint16', sf: 'DCV_SF', unit: 'V' },  // DC Voltage
-    DCW: { address: 24, length: 1, type: 'int16', sf: 'DCW_SF', unit: 'W' },   // DC Power
-    TmpCab: { address: 30, length: 1, type: 'int16', sf: 'Tmp_SF', unit: 'C' }, // Cabinet Temperature
-    St: { address: 31, length: 1, type: 'enum16', unit: '' },                  // Operating State
-    StVnd: { address: 32, length: 1, type: 'enum16', unit: '' },               // Vendor Operating State
-    Evt1: { address: 33, length: 1, type: 'uint32', unit: '' },                // Event Flags
-    A_SF: { address: 36, length: 1, type: 'sunssf', unit: '' },                // Current Scale Factor
-    V_SF: { address: 37, length: 1, type: 'sunssf', unit: '' },                // Voltage Scale Factor
-    W_SF: { address: 38, length: 1, type: 'sunssf', unit: '' },                // Power Scale Factor
-    WH_SF: { address: 39, length: 1, type: 'sunssf', unit: '' },               // Energy Scale Factor
-    DCA_SF: { address: 40, length: 1, type: 'sunssf', unit: '' },              // DC Current Scale Factor
-    DCV_SF: { address: 41, length: 1, type: 'sunssf', unit: '' },              // DC Voltage Scale Factor
-    DCW_SF: { address: 42, length: 1, type: 'sunssf', unit: '' },              // DC Power Scale Factor
-    Tmp_SF: { address: 43, length: 1, type: 'sunssf', unit: '' },              // Temperature Scale Factor
-  },
-  [MODEL_INVERTER_THREE]: {
-    A: { address: 2, length: 1, type: 'uint16', sf: 'A_SF', unit: 'A' },       // AC Total Current
-    AphA: { address: 3, length: 1, type: 'uint16', sf: 'A_SF', unit: 'A' },    // Phase A Current
-    AphB: { address: 4, length: 1, type: 'uint16', sf: 'A_SF', unit: 'A' },    // Phase B Current
-    AphC: { address: 5, length: 1, type: 'uint16', sf: 'A_SF', unit: 'A' },    // Phase C Current
-    PPVphAB: { address: 6, length: 1, type: 'uint16', sf: 'V_SF', unit: 'V' }, // Phase AB Voltage
-    PPVphBC: { address: 7, length: 1, type: 'uint16', sf: 'V_SF', unit: 'V' }, // Phase BC Voltage
-    PPVphCA: { address: 8, length: 1, type: 'uint16', sf: 'V_SF', unit: 'V' }, // Phase CA Voltage
-    PhVphA: { address: 9, length: 1, type: 'uint16', sf: 'V_SF', unit: 'V' },  // Phase A Voltage
-    PhVphB: { address: 10, length: 1, type: 'uint16', sf: 'V_SF', unit: 'V' }, // Phase B Voltage
-    PhVphC: { address: 11, length: 1, type: 'uint16', sf: 'V_SF', unit: 'V' }, // Phase C Voltage
-    W: { address: 14, length: 1, type: 'int16', sf: 'W_SF', unit: 'W' },       // AC Power
-    Hz: { address: 15, length: 1, type: 'uint16', sf: 'Hz_SF', unit: 'Hz' },   // AC Frequency
-    WH: { address: 20, length: 2, type: 'uint32', sf: 'WH_SF', unit: 'Wh' },   // AC Lifetime Energy
-    DCA: { address: 22, length: 1, type: 'uint16', sf: 'DCA_SF', unit: 'A' },  // DC Current
-    DCV: { address: 23, length: 1, type: 'uint16', sf: 'DCV_SF', unit: 'V' },  // DC Voltage
-    DCW: { address: 24, length: 1, type: 'int16', sf: 'DCW_SF', unit: 'W' },   // DC Power
-    TmpCab: { address: 30, length: 1, type: 'int16', sf: 'Tmp_SF', unit: 'C' }, // Cabinet Temperature
-    St: { address: 31, length: 1, type: 'enum16', unit: '' },                  // Operating State
-    StVnd: { address: 32, length: 1, type: 'enum16', unit: '' },               // Vendor Operating State
-    Evt1: { address: 33, length: 1, type: 'uint32', unit: '' },                // Event Flags
-    A_SF: { address: 36, length: 1, type: 'sunssf', unit: '' },                // Current Scale Factor
-    V_SF: { address: 37, length: 1, type: 'sunssf', unit: '' },                // Voltage Scale Factor
-    W_SF: { address: 38, length: 1, type: 'sunssf', unit: '' },                // Power Scale Factor
-    WH_SF: { address: 39, length: 1, type: 'sunssf', unit: '' },               // Energy Scale Factor
-    DCA_SF: { address: 40, length: 1, type: 'sunssf', unit: '' },              // DC Current Scale Factor
-    DCV_SF: { address: 41, length: 1, type: 'sunssf', unit: '' },              // DC Voltage Scale Factor
-    DCW_SF: { address: 42, length: 1, type: 'sunssf', unit: '' },              // DC Power Scale Factor
-    Tmp_SF: { address: 43, length: 1, type: 'sunssf', unit: '' },              // Temperature Scale Factor
-  },
-  [MODEL_STORAGE]: {
-    ChaSt: { address: 2, length: 1, type: 'enum16', unit: '' },                // Charge Status
-    WhRtg: { address: 3, length: 1, type: 'uint16', sf: 'WRtg_SF', unit: 'Wh' }, // WH Rating
-    W: { address: 4, length: 1, type: 'int16', sf: 'W_SF', unit: 'W' },        // Power
-    St: { address: 8, length: 1, type: 'enum16', unit: '' },                   // State
-    SoC: { address: 14, length: 1, type: 'uint16', sf: 'SoC_SF', unit: '%' },  // State of Charge
-    DoD: { address: 15, length: 1, type: 'uint16', sf: 'DoD_SF', unit: '%' },  // Depth of Discharge
-    SoH: { address: 16, length: 1, type: 'uint16', sf: 'SoH_SF', unit: '%' },  // State of Health
-    NCyc: { address: 17, length: 1, type: 'uint16', unit: 'cycles' },          // Cycle Count
-    ChaTm: { address: 27, length: 1, type: 'uint32', unit: 'secs' },           // Charge Time Remaining
-    WRtg_SF: { address: 31, length: 1, type: 'sunssf', unit: '' },             // Rating Scale Factor
-    W_SF: { address: 32, length: 1, type: 'sunssf', unit: '' },                // Power Scale Factor
-    SoC_SF: { address: 33, length: 1, type: 'sunssf', unit: '' },              // SoC Scale Factor
-    DoD_SF: { address: 34, length: 1, type: 'sunssf', unit: '' },              // DoD Scale Factor
-    SoH_SF: { address: 35, length: 1, type: 'sunssf', unit: '' },              // SoH Scale Factor
-  }
-};
-
-// Mapping of operating state values
-const OPERATING_STATES: Record<number, string> = {
-  1: 'Off',
-  2: 'Sleeping',
-  3: 'Starting',
-  4: 'MPPT',
-  5: 'Throttled',
-  6: 'Shutting down',
-  7: 'Fault',
-  8: 'Standby'
-};
+// Write to the points of one model, e.g.
+// { model: 123, points: { WMaxLimPct: 50, WMaxLim_Ena: 'ENABLED' } } or
+// { model: 123, point: 'Conn', value: 'DISCONNECT' }
+export interface SunSpecCommand {
+  model: number;
+  point?: string;
+  value?: unknown;
+  points?: Record<string, unknown>;
+}
 
 /**
  * SunSpec Adapter for communication with SunSpec-compliant devices
@@ -169,6 +256,7 @@ export class SunSpecAdapter {
   private status: 'online' | 'offline' | 'error' = 'offline';
   private mqttService = getMqttService();
   private inDevelopment: boolean = process.env.NODE_ENV === 'development';
+  private mockRegisters: number[] = []; // Register image of a simulated device, from the base register
 
   constructor(config: SunSpecDeviceConfig) {
     this.deviceId = config.id;
@@ -194,10 +282,12 @@ export class SunSpecAdapter {
     if (this.connected) return true;
     
     // For development mode, don't actually connect
-    if (this.inDevelopment || this.config.connectionType === SunSpecConnectionType.MOCK) {
+    if (this.isSimulated()) {
       this.connected = true;
       console.log(`Simulated connection to SunSpec device ${this.deviceId}`);
       this.setupMockData();
+      await this.detectSunSpecModels();
+      await this.readDeviceInfo();
       this.publishStatus('online');
       return true;
     }
@@ -284,7 +374,7 @@ export class SunSpecAdapter {
     }
     
     // For development mode, just reset state
-    if (this.inDevelopment || this.config.connectionType === SunSpecConnectionType.MOCK) {
+    if (this.isSimulated()) {
       this.connected = false;
       console.log(`Simulated disconnection from SunSpec device ${this.deviceId}`);
       this.publishStatus('offline');
@@ -350,20 +440,19 @@ export class SunSpecAdapter {
    */
   private async scanDevice(): Promise<void> {
     try {
-      // For development mode, just generate random data
-      if (this.inDevelopment || this.config.connectionType === SunSpecConnectionType.MOCK) {
-        this.updateMockData();
-        this.publishTelemetry();
-        return;
-      }
-      
       if (!this.connected) {
         console.log(`Cannot scan - device ${this.deviceId} is not connected`);
         return;
       }
       
+      // For development mode, move the simulated registers on
+      if (this.isSimulated()) {
+        this.updateMockData();
+      }
+      
       // Read data from each model
       for (const model of this.models) {
+        if (this.config.models?.length && !this.config.models.includes(model.id)) continue;
         await this.readModelData(model);
       }
       
@@ -394,36 +483,24 @@ export class SunSpecAdapter {
   }
 
   /**
-   * Detect SunSpec models in the device
+   * Detect SunSpec models by walking the model chain from the SunSpec header
    */
   private async detectSunSpecModels(): Promise<void> {
     // Clear existing models
     this.models = [];
-    
-    // For development mode, use predefined models
-    if (this.inDevelopment || this.config.connectionType === SunSpecConnectionType.MOCK) {
-      this.setupMockModels();
-      return;
-    }
-    
+
     try {
       // Check for SunSpec ID
-      const idResponse = await this.client.readHoldingRegisters(this.baseRegister, 2);
-      const sunSpecId = (idResponse.buffer.readUInt16BE(0) << 16) | idResponse.buffer.readUInt16BE(2);
-      
-      if (sunSpecId !== SUNSPEC_ID_VALUE) {
+      if (!(await this.hasSunSpecHeader(this.baseRegister))) {
         // Try other common base registers
         const alternateRegisters = [40000, 50000, 0, 1];
         let found = false;
-        
+
         for (const register of alternateRegisters) {
           if (register === this.baseRegister) continue;
-          
+
           try {
-            const alt = await this.client.readHoldingRegisters(register, 2);
-            const altId = (alt.buffer.readUInt16BE(0) << 16) | alt.buffer.readUInt16BE(2);
-            
-            if (altId === SUNSPEC_ID_VALUE) {
+            if (await this.hasSunSpecHeader(register)) {
               this.baseRegister = register;
               found = true;
               console.log(`Found SunSpec header at register ${register}`);
@@ -433,50 +510,58 @@ export class SunSpecAdapter {
             // Ignore errors, just try next register
           }
         }
-        
+
         if (!found) {
           throw new Error('SunSpec identifier not found');
         }
       }
-      
+
       // Read models
       let address = this.baseRegister + 2; // Start after SunSpec ID
-      
+
       while (true) {
         // Read model header (model ID and length)
-        const headerResponse = await this.client.readHoldingRegisters(address, 2);
-        const modelId = headerResponse.buffer.readUInt16BE(0);
-        const modelLength = headerResponse.buffer.readUInt16BE(2);
-        
-        // End marker (modelId = 0xFFFF)
-        if (modelId === 0xFFFF) {
+        const [modelId, modelLength] = await this.readRegisters(address, SUNSPEC_HEADER_LENGTH);
+
+        if (modelId === SUNSPEC_END_MODEL) {
           break;
         }
-        
-        // Add model to the list
+
+        const definition = getModelDefinition(modelId);
         const model: SunSpecModel = {
           id: modelId,
           length: modelLength,
-          address: address + 2, // Data starts after header
-          name: this.getModelName(modelId)
+          address,
+          name: definition?.group.label || definition?.group.name || `Model ${modelId}`
         };
-        
+
         this.models.push(model);
-        console.log(`Found SunSpec model ${model.id} (${model.name}) at address ${address}, length ${model.length}`);
-        
+        console.log(
+          `Found SunSpec model ${model.id} (${model.name}) at address ${address}, length ${model.length}` +
+          (definition ? '' : ' - no definition, skipping its data')
+        );
+
         // Move to next model
-        address += 2 + modelLength;
+        address += SUNSPEC_HEADER_LENGTH + modelLength;
       }
-      
+
       if (this.models.length === 0) {
         throw new Error('No SunSpec models found');
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error(`Error detecting SunSpec models: ${error.message}`);
       throw error;
     }
   }
 
+  /**
+   * Check for the "SunS" identifier at a register
+   */
+  private async hasSunSpecHeader(register: number): Promise<boolean> {
+    const [high, low] = await this.readRegisters(register, 2);
+    return ((high << 16) | low) === SUNSPEC_ID_VALUE;
+  }
+
   /**
    * Read device information (Common Model)
    */
@@ -487,314 +572,306 @@ export class SunSpecAdapter {
       console.warn('Common model not found in SunSpec device');
       return;
     }
-    
-    if (this.inDevelopment || this.config.connectionType === SunSpecConnectionType.MOCK) {
-      // Use mock data
-      this.deviceInfo = {
-        manufacturer: 'SunSpec Mock',
-        model: 'InverterSim 2000',
-        serialNumber: `SIM-${this.deviceId}`,
-        version: '1.0.0'
-      };
-      return;
-    }
-    
+
     try {
-      // Read manufacturer (16 registers, 4 bytes each = 32 chars)
       await this.readModelData(commonModel);
-      
+
       if (commonModel.data) {
+        const points = commonModel.data.points;
         this.deviceInfo = {
-          manufacturer: commonModel.data.Mn,
-          model: commonModel.data.Md,
-          serialNumber: commonModel.data.SN,
-          version: commonModel.data.Vr
+          manufacturer: points.Mn?.value,
+          model: points.Md?.value,
+          serialNumber: points.SN?.value,
+          version: points.Vr?.value
         };
-        
+
         console.log(`Device info: ${JSON.stringify(this.deviceInfo)}`);
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error(`Error reading device info: ${error.message}`);
     }
   }
 
   /**
-   * Read data from a SunSpec model
+   * Read and decode a SunSpec model, then flatten its points into the readings
+   *
+   * Points in repeating groups become e.g. mppt_module_0_DCW; points the
+   * device does not implement are left out.
    */
   private async readModelData(model: SunSpecModel): Promise<void> {
-    // Skip for mock devices
-    if (this.inDevelopment || this.config.connectionType === SunSpecConnectionType.MOCK) {
-      return;
-    }
-    
-    // Get points for this model
-    const points = MODEL_POINTS[model.id];
-    if (!points) {
-      // console.log(`No point definitions for model ${model.id}`);
+    const definition = getModelDefinition(model.id);
+    if (!definition) {
       return;
     }
-    
+
     try {
-      // Read all registers for the model
-      const response = await this.client.readHoldingRegisters(model.address, model.length);
-      
-      // Process each point
-      const modelData: Record<string, any> = {};
-      const scaleFactors: Record<string, number> = {};
-      
-      // First pass: extract scale factors
-      for (const [name, point] of Object.entries(points)) {
-        if (point.type === 'sunssf') {
-          const value = this.extractValue(response.buffer, point.address, point.type);
-          scaleFactors[name] = value;
-        }
-      }
-      
-      // Second pass: extract values and apply scale factors
-      for (const [name, point] of Object.entries(points)) {
-        if (point.type !== 'sunssf') {
-          let value = this.extractValue(response.buffer, point.address, point.type, point.length);
-          
-          // Apply scale factor if specified
-          if (point.sf && scaleFactors[point.sf] !== undefined) {
-            const scaleFactor = scaleFactors[point.sf];
-            value = value * Math.pow(10, scaleFactor);
-          }
-          
-          // Special handling for enum values
-          if (point.type === 'enum16' && name === 'St') {
-            const enumValue = value;
-            value = {
-              value: enumValue,
-              label: OPERATING_STATES[enumValue] || `Unknown (${enumValue})`
-            };
-          }
-          
-          modelData[name] = value;
-        }
-      }
-      
-      // Store the data in the model
-      model.data = modelData;
-      
+      const words = await this.readRegisters(model.address, SUNSPEC_HEADER_LENGTH + model.length);
+      model.data = decodeModel(definition, words);
+
       // Update last readings - flatten the structure
       if (model.id !== MODEL_COMMON) { // Skip common model
-        for (const [name, value] of Object.entries(modelData)) {
-          // Skip complex objects
-          if (typeof value !== 'object') {
-            const key = `${this.getModelPrefix(model.id)}_${name}`;
-            this.lastReadings[key] = value;
+        const prefix = this.getModelPrefix(model.id);
+
+        for (const [pointPath, point] of Object.entries(model.data.points)) {
+          if (pointPath === 'ID' || pointPath === 'L' || pointPath.endsWith('_SF')) continue;
+
+          const key = `${prefix}_${pointPath.replace(/\[(\d+)\]\./g, '_$1_').replace(/\./g, '_')}`;
+          if (point.value === null) {
+            delete this.lastReadings[key];
+          } else {
+            this.lastReadings[key] = point.value;
           }
         }
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error(`Error reading model ${model.id} data: ${error.message}`);
       throw error;
     }
   }
 
   /**
-   * Extract value from buffer based on data type
+   * Write points of a model, e.g. writePoints(123, { WMaxLimPct: 50, WMaxLim_Ena: 'ENABLED' })
+   *
+   * Values are in engineering units, enum names or lists of bit names. The
+   * model is read first so scale factors and repeating groups match the device,
+   * and read again afterwards to refresh the readings.
    */
-  private extractValue(buffer: Buffer, address: number, type: string, length: number = 1): any {
-    const offset = (address - 2) * 2; // Convert register address to buffer offset
-    
-    switch (type) {
-      case 'uint16':
-        return buffer.readUInt16BE(offset);
-      case 'int16':
-        return buffer.readInt16BE(offset);
-      case 'uint32':
-        return buffer.readUInt32BE(offset);
-      case 'int32':
-        return buffer.readInt32BE(offset);
-      case 'float32':
-        return buffer.readFloatBE(offset);
-      case 'sunssf':
-        return buffer.readInt16BE(offset);
-      case 'enum16':
-        return buffer.readUInt16BE(offset);
-      case 'string':
-        let str = '';
-        for (let i = 0; i < length; i++) {
-          const reg = buffer.readUInt16BE(offset + i * 2);
-          const char1 = reg >> 8;
-          const char2 = reg & 0xFF;
-          if (char1 > 0) str += String.fromCharCode(char1);
-          if (char2 > 0) str += String.fromCharCode(char2);
-        }
-        return str.trim();
-      default:
-        return null;
+  async writePoints(modelId: number, values: Record<string, unknown>): Promise<void> {
+    if (!this.connected) {
+      throw new Error(`SunSpec device ${this.deviceId} is not connected`);
+    }
+
+    const model = this.models.find(m => m.id === modelId);
+    if (!model) {
+      throw new SunSpecError(`SunSpec device ${this.deviceId} does not implement model ${modelId}`);
+    }
+
+    const definition = getModelDefinition(modelId);
+    if (!definition) {
+      throw new SunSpecError(`No definition for SunSpec model ${modelId}`);
+    }
+
+    const words = await this.readRegisters(model.address, SUNSPEC_HEADER_LENGTH + model.length);
+    for (const write of encodeModelWrites(definition, words, values)) {
+      await this.writeRegisters(model.address + write.offset, write.words);
+    }
+
+    console.log(`Wrote ${Object.keys(values).join(', ')} of model ${modelId} on SunSpec device ${this.deviceId}`);
+    await this.readModelData(model);
+  }
+
+  /**
+   * Write a single point of a model
+   */
+  async writePoint(modelId: number, pointPath: string, value: unknown): Promise<void> {
+    await this.writePoints(modelId, { [pointPath]: value });
+  }
+
+  /**
+   * Read holding registers, splitting reads longer than a Modbus request allows
+   */
+  private async readRegisters(address: number, length: number): Promise<number[]> {
+    if (this.isSimulated()) {
+      const start = address - this.baseRegister;
+      if (start < 0 || start + length > this.mockRegisters.length) {
+        throw new Error(`Illegal data address ${address}`);
+      }
+      return this.mockRegisters.slice(start, start + length);
     }
+
+    const words: number[] = [];
+    for (let offset = 0; offset < length; offset += MAX_READ_REGISTERS) {
+      const response = await this.client.readHoldingRegisters(
+        address + offset,
+        Math.min(MAX_READ_REGISTERS, length - offset)
+      );
+      words.push(...response.data);
+    }
+    return words;
   }
 
   /**
-   * Get a human-readable name for a SunSpec model ID
+   * Write holding registers, splitting writes longer than a Modbus request allows
    */
-  private getModelName(modelId: number): string {
-    switch (modelId) {
-      case MODEL_COMMON:
-        return 'Common';
-      case MODEL_INVERTER_SINGLE:
-        return 'Single Phase Inverter';
-      case MODEL_INVERTER_SPLIT:
-        return 'Split Phase Inverter';
-      case MODEL_INVERTER_THREE:
-        return 'Three Phase Inverter';
-      case MODEL_STORAGE:
-        return 'Storage';
-      case MODEL_MPPT:
-        return 'MPPT';
-      case MODEL_STRING_COMBINER:
-        return 'String Combiner';
-      default:
-        return `Model ${modelId}`;
+  private async writeRegisters(address: number, words: number[]): Promise<void> {
+    if (this.isSimulated()) {
+      const start = address - this.baseRegister;
+      if (start < 0 || start + words.length > this.mockRegisters.length) {
+        throw new Error(`Illegal data address ${address}`);
+      }
+      this.mockRegisters.splice(start, words.length, ...words);
+      return;
+    }
+
+    for (let offset = 0; offset < words.length; offset += MAX_WRITE_REGISTERS) {
+      const block = words.slice(offset, offset + MAX_WRITE_REGISTERS);
+      if (block.length === 1) {
+        await this.client.writeRegister(address + offset, block[0]);
+      } else {
+        await this.client.writeRegisters(address + offset, block);
+      }
     }
   }
 
+  /**
+   * Whether the device is simulated rather than reached over Modbus
+   */
+  private isSimulated(): boolean {
+    return this.inDevelopment || this.config.connectionType === SunSpecConnectionType.MOCK;
+  }
+
   /**
    * Get a prefix for readings from a specific model
    */
   private getModelPrefix(modelId: number): string {
-    switch (modelId) {
-      case MODEL_INVERTER_SINGLE:
-      case MODEL_INVERTER_SPLIT:
-      case MODEL_INVERTER_THREE:
-        return 'inv';
-      case MODEL_STORAGE:
-        return 'storage';
-      case MODEL_MPPT:
-        return 'mppt';
-      case MODEL_STRING_COMBINER:
-        return 'string';
-      default:
-        return `model${modelId}`;
-    }
+    return MODEL_PREFIXES[modelId] || `model${modelId}`;
   }
 
   /**
-   * Setup mock models for development mode
+   * Setup the register image of a simulated device from the model definitions
    */
-  private setupMockModels(): void {
-    this.models = [
-      {
-        id: MODEL_COMMON,
-        length: 66,
-        address: this.baseRegister + 4,
-        name: 'Common'
-      },
-      {
-        id: MODEL_INVERTER_THREE,
-        length: 60,
-        address: this.baseRegister + 72,
-        name: 'Three Phase Inverter'
-      },
-      {
-        id: MODEL_STORAGE,
-        length: 40,
-        address: this.baseRegister + 134,
-        name: 'Storage'
+  private setupMockData(): void {
+    const registers = [SUNSPEC_ID_VALUE >>> 16, SUNSPEC_ID_VALUE & 0xFFFF];
+
+    for (const mock of MOCK_MODELS) {
+      const definition = getModelDefinition(mock.id);
+      if (!definition) continue;
+
+      const values = mock.id === MODEL_COMMON ? { ...mock.values, SN: `SIM-${this.deviceId}` } : mock.values;
+      const image = createModelImage(definition, mock.counts);
+      for (const write of encodeModelWrites(definition, image, values, { force: true })) {
+        image.splice(write.offset, write.words.length, ...write.words);
       }
-    ];
+      registers.push(...image);
+    }
+
+    registers.push(SUNSPEC_END_MODEL, 0);
+    this.mockRegisters = registers;
   }
 
   /**
-   * Setup mock data for development mode
+   * Set points of a simulated device, read-only points included
    */
-  private setupMockData(): void {
-    // Mock basic readings
-    this.lastReadings = {
-      'inv_A': 5.2,
-      'inv_AphA': 1.7,
-      'inv_AphB': 1.8,
-      'inv_AphC': 1.7,
-      'inv_PPVphAB': 230.5,
-      'inv_PPVphBC': 231.2,
-      'inv_PPVphCA': 230.8,
-      'inv_PhVphA': 133.2,
-      'inv_PhVphB': 133.5,
-      'inv_PhVphC': 133.3,
-      'inv_W': 3500,
-      'inv_Hz': 50.02,
-      'inv_WH': 25750000,
-      'inv_DCA': 9.2,
-      'inv_DCV': 380.5,
-      'inv_DCW': 3500,
-      'inv_TmpCab': 42.5,
-      'inv_St': { value: 4, label: 'MPPT' },
-      'storage_ChaSt': 1,
-      'storage_WhRtg': 10000,
-      'storage_W': 0,
-      'storage_St': 1,
-      'storage_SoC': 87.5,
-      'storage_DoD': 12.5,
-      'storage_SoH': 98.2,
-      'storage_NCyc': 120
-    };
-    
-    // Setup device info
-    this.deviceInfo = {
-      manufacturer: 'SunSpec Mock',
-      model: 'InverterSim 2000',
-      serialNumber: `SIM-${this.deviceId}`,
-      version: '1.0.0'
-    };
+  private setMockPoints(modelId: number, values: Record<string, unknown>): void {
+    const model = this.models.find(m => m.id === modelId);
+    const definition = getModelDefinition(modelId);
+    if (!model || !definition) return;
+
+    const start = model.address - this.baseRegister;
+    const image = this.mockRegisters.slice(start, start + SUNSPEC_HEADER_LENGTH + model.length);
+    for (const write of encodeModelWrites(definition, image, values, { force: true })) {
+      this.mockRegisters.splice(start + write.offset, write.words.length, ...write.words);
+    }
   }
 
   /**
    * Update mock data for development mode
+   *
+   * Follows the power limits of the immediate (123) and DER (704) controls, the
+   * connect control and the battery's set operation, so writes to those
+   * control points show up in the readings.
    */
   private updateMockData(): void {
+    const readings = this.lastReadings;
+
     // Update AC power (with some randomness based on time of day)
     const hour = new Date().getHours();
     const baseACPower = hour >= 9 && hour <= 16 ? 3500 : (hour >= 7 && hour <= 18 ? 1500 : 0);
     const powerVariation = baseACPower * 0.15; // 15% variation
-    const acPower = baseACPower + (Math.random() * powerVariation * 2 - powerVariation);
-    
-    // Update inverter readings
-    this.lastReadings['inv_W'] = acPower;
-    this.lastReadings['inv_DCW'] = acPower * 1.05; // DC power slightly higher
-    this.lastReadings['inv_A'] = acPower / 230 / Math.sqrt(3);
-    this.lastReadings['inv_AphA'] = this.lastReadings['inv_A'] / 3;
-    this.lastReadings['inv_AphB'] = this.lastReadings['inv_A'] / 3;
-    this.lastReadings['inv_AphC'] = this.lastReadings['inv_A'] / 3;
-    this.lastReadings['inv_DCA'] = this.lastReadings['inv_DCW'] / this.lastReadings['inv_DCV'];
-    this.lastReadings['inv_Hz'] = 50 + (Math.random() * 0.04 - 0.02);
-    this.lastReadings['inv_TmpCab'] = 25 + (acPower / 5000 * 20) + (Math.random() * 2 - 1);
-    
+    let acPower = baseACPower + (Math.random() * powerVariation * 2 - powerVariation);
+
+    // Apply active power limits in percent of the rated power
+    const limits: number[] = [];
+    if (readings['controls_WMaxLim_Ena'] === 1) limits.push(readings['controls_WMaxLimPct']);
+    if (readings['der_ctl_WMaxLimPctEna'] === 1) limits.push(readings['der_ctl_WMaxLimPct']);
+    const limit = Math.min(...limits.filter(value => typeof value === 'number'));
+    const limitPower = (readings['nameplate_WRtg'] ?? 5000) * limit / 100;
+    const throttled = acPower > limitPower;
+    if (throttled) acPower = limitPower;
+
+    const connected = readings['controls_Conn'] !== 0;
+    if (!connected) acPower = 0;
+
+    const dcPower = acPower * 1.05; // DC power slightly higher
+    const dcVoltage = 380.5;
+    const acCurrent = acPower / 230 / Math.sqrt(3);
+    const frequency = 50 + (Math.random() * 0.04 - 0.02);
+    const temperature = 25 + (acPower / 5000 * 20) + (Math.random() * 2 - 1);
+
     // Update lifetime energy (accumulate)
-    this.lastReadings['inv_WH'] = (this.lastReadings['inv_WH'] || 25000000) + acPower / 60; // Assume 1-minute intervals
-    
-    // Update operating state
-    if (acPower < 100) {
-      this.lastReadings['inv_St'] = { value: 2, label: 'Sleeping' };
-    } else {
-      this.lastReadings['inv_St'] = { value: 4, label: 'MPPT' };
-    }
-    
+    const energy = Math.round((readings['inv_WH'] ?? 25000000) + acPower / 60); // Assume 1-minute intervals
+
+    let state = 'MPPT';
+    if (!connected) state = 'OFF';
+    else if (acPower < 100) state = 'SLEEPING';
+    else if (throttled) state = 'THROTTLED';
+
+    // Update inverter readings
+    this.setMockPoints(MODEL_INVERTER_THREE, {
+      W: Math.round(acPower),
+      VA: Math.round(acPower),
+      A: acCurrent,
+      AphA: acCurrent / 3,
+      AphB: acCurrent / 3,
+      AphC: acCurrent / 3,
+      Hz: frequency,
+      WH: energy,
+      DCW: Math.round(dcPower),
+      DCA: dcPower / dcVoltage,
+      TmpCab: temperature,
+      St: state
+    });
+
+    this.setMockPoints(MODEL_DER_MEASURE_AC, {
+      W: Math.round(acPower),
+      VA: Math.round(acPower),
+      A: acCurrent,
+      Hz: frequency,
+      TotWhInj: energy,
+      TmpCab: temperature,
+      ConnSt: connected ? 'CONNECTED' : 'DISCONNECTED',
+      InvSt: state === 'MPPT' ? 'RUNNING' : state,
+      ThrotPct: throttled ? Math.round(limit) : 100
+    });
+
+    this.setMockPoints(MODEL_MPPT, {
+      'module[0].DCW': Math.round(dcPower / 2),
+      'module[0].DCV': dcVoltage,
+      'module[0].DCA': dcPower / 2 / dcVoltage,
+      'module[1].DCW': Math.round(dcPower / 2),
+      'module[1].DCV': dcVoltage,
+      'module[1].DCA': dcPower / 2 / dcVoltage
+    });
+
     // Update storage readings (if generation > consumption, charge; otherwise discharge)
     const excessPower = acPower - 2000; // Assume 2kW consumption
-    
-    if (excessPower > 200) {
+    let soc: number = readings['battery_SoC'] ?? 87.5;
+    let batteryPower = 0;
+    let chargeState = 'HOLDING';
+
+    if (readings['battery_SetOp'] === 2) {
+      // Disconnected by a set operation write
+    } else if (excessPower > 200 && soc < 100) {
       // Charging
-      this.lastReadings['storage_ChaSt'] = 2; // Charging
-      this.lastReadings['storage_W'] = -Math.min(excessPower, 5000); // Negative for charging
-      // Increase SoC
-      this.lastReadings['storage_SoC'] = Math.min(100, this.lastReadings['storage_SoC'] + ((-this.lastReadings['storage_W']) / 10000));
-      this.lastReadings['storage_DoD'] = 100 - this.lastReadings['storage_SoC'];
-    } else if (excessPower < -200) {
+      chargeState = 'CHARGING';
+      batteryPower = -Math.min(excessPower, 5000); // Negative for charging
+      soc = Math.min(100, soc + (-batteryPower / 10000));
+    } else if (excessPower < -200 && soc > 0) {
       // Discharging
-      this.lastReadings['storage_ChaSt'] = 3; // Discharging
-      this.lastReadings['storage_W'] = Math.min(-excessPower, 5000); // Positive for discharging
-      // Decrease SoC
-      this.lastReadings['storage_SoC'] = Math.max(0, this.lastReadings['storage_SoC'] - (this.lastReadings['storage_W'] / 10000));
-      this.lastReadings['storage_DoD'] = 100 - this.lastReadings['storage_SoC'];
-    } else {
-      // Idle
-      this.lastReadings['storage_ChaSt'] = 1; // Idle
-      this.lastReadings['storage_W'] = 0;
+      chargeState = 'DISCHARGING';
+      batteryPower = Math.min(-excessPower, 5000); // Positive for discharging
+      soc = Math.max(0, soc - batteryPower / 10000);
     }
+
+    this.setMockPoints(MODEL_STORAGE, { ChaState: soc, ChaSt: chargeState });
+    this.setMockPoints(MODEL_BATTERY, {
+      SoC: soc,
+      DoD: 100 - soc,
+      W: Math.round(batteryPower),
+      A: batteryPower / 51.2,
+      ChaSt: chargeState,
+      State: readings['battery_SetOp'] === 2 ? 'DISCONNECTED' : 'CONNECTED'
+    });
   }
 
   /**
@@ -825,6 +902,13 @@ export class SunSpecAdapter {
     return this.models;
   }
 
+  /**
+   * Get the decoded points of a model from the last scan
+   */
+  getModelData(modelId: number): SunSpecModelData | undefined {
+    return this.models.find(m => m.id === modelId)?.data;
+  }
+
   /**
    * Publish status via MQTT
    */
@@ -865,53 +949,34 @@ export class SunSpecAdapter {
     const readings: Record<string, number> = {};
     const units: Record<string, string> = {};
     
-    // Map SunSpec readings to standard EMS fields
+    // Add numeric readings with their original keys
     for (const [key, value] of Object.entries(this.lastReadings)) {
-      // Skip complex objects
-      if (typeof value === 'object') continue;
-      
-      // Add original reading with its original key
-      readings[key] = value;
-      
-      // Map to standard fields based on key patterns
-      if (key.includes('_W') && !key.includes('_WH') && !key.includes('_DCW')) {
-        readings.power = value;
-        units.power = 'W';
-      } else if (key.includes('_WH')) {
-        readings.energy = value;
-        units.energy = 'Wh';
-      } else if (key.includes('_DCW')) {
-        readings.dcPower = value;
-        units.dcPower = 'W';
-      } else if (key.includes('_DCV')) {
-        readings.dcVoltage = value;
-        units.dcVoltage = 'V';
-      } else if (key.includes('_DCA')) {
-        readings.dcCurrent = value;
-        units.dcCurrent = 'A';
-      } else if (key.includes('_SoC')) {
-        readings.stateOfCharge = value;
-        units.stateOfCharge = '%';
-      } else if (key.includes('_Hz')) {
-        readings.frequency = value;
-        units.frequency = 'Hz';
-      } else if (key.includes('_TmpCab')) {
-        readings.temperature = value;
-        units.temperature = 'C';
+      if (typeof value === 'number') {
+        readings[key] = value;
+      }
+    }
+    
+    // Map SunSpec readings to standard EMS fields
+    for (const { field, unit, keys } of STANDARD_FIELDS) {
+      const key = keys.find(k => typeof this.lastReadings[k] === 'number');
+      if (key) {
+        readings[field] = this.lastReadings[key];
+        units[field] = unit;
       }
     }
     
     // Add operational status as numeric value for charting
-    if (this.lastReadings['inv_St'] && typeof this.lastReadings['inv_St'] === 'object') {
-      readings.statusValue = this.lastReadings['inv_St'].value;
-      readings.isGenerating = this.lastReadings['inv_St'].value === 4 ? 1 : 0; // MPPT = generating
+    if (typeof this.lastReadings['inv_St'] === 'number') {
+      readings.statusValue = this.lastReadings['inv_St'];
+      readings.isGenerating = this.lastReadings['inv_St'] === INVERTER_STATE_MPPT ? 1 : 0;
     }
     
     // Add battery status as numeric value for charting
-    if (this.lastReadings['storage_ChaSt']) {
-      readings.batteryStatusValue = this.lastReadings['storage_ChaSt'];
-      readings.isCharging = this.lastReadings['storage_ChaSt'] === 2 ? 1 : 0;
-      readings.isDischarging = this.lastReadings['storage_ChaSt'] === 3 ? 1 : 0;
+    const chargeState = this.lastReadings['battery_ChaSt'] ?? this.lastReadings['storage_ChaSt'];
+    if (typeof chargeState === 'number') {
+      readings.batteryStatusValue = chargeState;
+      readings.isCharging = chargeState === CHARGE_STATE_CHARGING ? 1 : 0;
+      readings.isDischarging = chargeState === CHARGE_STATE_DISCHARGING ? 1 : 0;
     }
     
     const telemetryMessage = {
@@ -1000,6 +1065,30 @@ export class SunSpecManager {
     return Array.from(this.adapters.keys());
   }
   
+  /**
+   * Send a command to a SunSpec device, writing points of one of its models
+   */
+  async sendCommand(id: string | number, command: SunSpecCommand): Promise<boolean> {
+    const adapter = this.adapters.get(String(id));
+    if (!adapter) {
+      console.error(`SunSpec device ${id} not found`);
+      return false;
+    }
+    
+    try {
+      const values = command.points ?? (command.point ? { [command.point]: command.value } : {});
+      if (Object.keys(values).length === 0) {
+        throw new SunSpecError('Command has no points to write');
+      }
+      
+      await adapter.writePoints(command.model, values);
+      return true;
+    } catch (error: any) {
+      console.error(`Error sending command to SunSpec device ${id}: ${error.message}`);
+      return false;
+    }
+  }
+  
   /**
    * Initialize with sample devices (for development)
    */
@@ -0,0 +1,738 @@
+/**
+ * Data-driven SunSpec model engine
+ *
+ * Model definitions use the JSON format of the official SunSpec models
+ * repository (json/model_<id>.json): a top-level group of points, optionally
+ * with nested groups that repeat a fixed number of times, as many times as a
+ * count point says, or to fill the rest of the model. The definitions in
+ * ./sunspecModels are loaded on first use; SUNSPEC_MODELS_DIR can point at a
+ * directory of further model_<id>.json files, which replace bundled models
+ * with the same ID.
+ *
+ * All offsets are in registers from the model's ID register, so a model read
+ * as one block (ID, L and L data registers) can be decoded directly.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Get current directory for ESM modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const BUNDLED_MODELS_DIR = path.join(__dirname, 'sunspecModels');
+
+// Registers taken by the model ID and length header
+export const SUNSPEC_HEADER_LENGTH = 2;
+
+export type SunSpecPointType =
+  | 'int16' | 'uint16' | 'count' | 'acc16' | 'enum16' | 'bitfield16' | 'sunssf' | 'pad'
+  | 'int32' | 'uint32' | 'acc32' | 'enum32' | 'bitfield32' | 'float32' | 'ipaddr'
+  | 'int64' | 'uint64' | 'acc64' | 'bitfield64' | 'float64' | 'eui48' | 'ipv6addr'
+  | 'string';
+
+const POINT_SIZES: Record<Exclude<SunSpecPointType, 'string'>, number> = {
+  int16: 1, uint16: 1, count: 1, acc16: 1, enum16: 1, bitfield16: 1, sunssf: 1, pad: 1,
+  int32: 2, uint32: 2, acc32: 2, enum32: 2, bitfield32: 2, float32: 2, ipaddr: 2,
+  int64: 4, uint64: 4, acc64: 4, bitfield64: 4, float64: 4, eui48: 4,
+  ipv6addr: 8,
+};
+
+// Writable range of each integer type; the not-implemented value is excluded
+const INTEGER_RANGES: Partial<Record<SunSpecPointType, [number, number]>> = {
+  int16: [-32767, 32767],
+  uint16: [0, 65534],
+  count: [0, 65534],
+  acc16: [0, 65535],
+  enum16: [0, 65534],
+  bitfield16: [0, 32767],
+  sunssf: [-10, 10],
+  int32: [-2147483647, 2147483647],
+  uint32: [0, 4294967294],
+  acc32: [0, 4294967295],
+  enum32: [0, 4294967294],
+  bitfield32: [0, 2147483647],
+  int64: [-Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+  uint64: [0, Number.MAX_SAFE_INTEGER],
+  acc64: [0, Number.MAX_SAFE_INTEGER],
+  bitfield64: [0, Number.MAX_SAFE_INTEGER],
+};
+
+export interface SunSpecSymbol {
+  name: string;
+  value: number;
+  label?: string;
+  desc?: string;
+}
+
+export interface SunSpecPointDefinition {
+  name: string;
+  type: SunSpecPointType;
+  size?: number;              // Registers; required for strings
+  sf?: string | number;       // Name of a sunssf point, or a fixed exponent
+  units?: string;
+  access?: 'R' | 'RW';
+  mandatory?: 'M' | 'O';
+  static?: 'S' | 'D';
+  value?: number | string;    // Fixed value, e.g. the model ID
+  label?: string;
+  desc?: string;
+  symbols?: SunSpecSymbol[];  // Enum values or bitfield bits
+}
+
+export interface SunSpecGroupDefinition {
+  name: string;
+  type: 'group' | 'sync';
+  count?: number | string;    // Repeats, the name of a count point, or 0 to fill the model
+  points: SunSpecPointDefinition[];
+  groups?: SunSpecGroupDefinition[];
+  label?: string;
+  desc?: string;
+}
+
+export interface SunSpecModelDefinition {
+  id: number;
+  group: SunSpecGroupDefinition;
+}
+
+// A point placed in a model, e.g. 'W', 'PFWInj.PF' or 'Crv[0].Pt[1].V'
+export interface SunSpecPointLayout {
+  path: string;
+  point: SunSpecPointDefinition;
+  offset: number;
+  size: number;
+  sf?: SunSpecPointLayout | number;
+}
+
+export interface SunSpecModelLayout {
+  id: number;
+  name: string;
+  length: number;             // L, the registers after the header
+  points: SunSpecPointLayout[];
+  byPath: Map<string, SunSpecPointLayout>;
+}
+
+export interface SunSpecPointValue {
+  value: number | string | null;  // null when the device does not implement the point
+  units?: string;
+  symbol?: string;                // Name of an enum value
+  flags?: string[];               // Names of the set bits of a bitfield
+}
+
+export interface SunSpecModelData {
+  id: number;
+  name: string;
+  label?: string;
+  length: number;
+  points: Record<string, SunSpecPointValue>;
+}
+
+// A block of registers to write, at an offset from the model's ID register
+export interface SunSpecRegisterWrite {
+  offset: number;
+  words: number[];
+}
+
+export class SunSpecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SunSpecError';
+  }
+}
+
+const definitions = new Map<number, SunSpecModelDefinition>();
+let definitionsLoaded = false;
+
+function validateGroup(group: SunSpecGroupDefinition, context: string): void {
+  if (!group || typeof group.name !== 'string' || !Array.isArray(group.points)) {
+    throw new SunSpecError(`Invalid group in ${context}`);
+  }
+  if (group.count !== undefined && typeof group.count !== 'string'
+      && !(Number.isInteger(group.count) && group.count >= 0)) {
+    throw new SunSpecError(`Invalid count of group ${group.name} in ${context}`);
+  }
+
+  for (const point of group.points) {
+    if (!point || typeof point.name !== 'string') {
+      throw new SunSpecError(`Point without a name in group ${group.name} of ${context}`);
+    }
+    if (point.type === 'string') {
+      if (!Number.isInteger(point.size) || point.size! <= 0) {
+        throw new SunSpecError(`String point ${point.name} of ${context} needs a size`);
+      }
+    } else if (!(point.type in POINT_SIZES)) {
+      throw new SunSpecError(`Unknown type ${point.type} of point ${point.name} in ${context}`);
+    }
+  }
+
+  for (const child of group.groups ?? []) {
+    validateGroup(child, context);
+  }
+}
+
+/**
+ * Add a model definition, replacing any definition with the same ID
+ */
+export function registerModelDefinition(definition: SunSpecModelDefinition): void {
+  ensureDefinitionsLoaded();
+  if (!definition || !Number.isInteger(definition.id) || !definition.group) {
+    throw new SunSpecError('A model definition needs an id and a group');
+  }
+  validateGroup(definition.group, `model ${definition.id}`);
+  definitions.set(definition.id, definition);
+}
+
+/**
+ * Load the model_<id>.json definitions of a directory; invalid files are skipped
+ */
+export function loadModelDefinitions(directory: string): number {
+  ensureDefinitionsLoaded();
+  let loaded = 0;
+
+  for (const file of fs.readdirSync(directory)) {
+    if (!/^model_\d+\.json$/.test(file)) continue;
+    try {
+      registerModelDefinition(JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8')));
+      loaded++;
+    } catch (error: any) {
+      console.warn(`Skipping SunSpec model definition ${file}: ${error.message}`);
+    }
+  }
+
+  return loaded;
+}
+
+function ensureDefinitionsLoaded(): void {
+  if (definitionsLoaded) return;
+  definitionsLoaded = true;
+
+  for (const directory of [BUNDLED_MODELS_DIR, process.env.SUNSPEC_MODELS_DIR]) {
+    if (!directory) continue;
+    if (!fs.existsSync(directory)) {
+      console.warn(`SunSpec model directory ${directory} not found`);
+      continue;
+    }
+    loadModelDefinitions(directory);
+  }
+}
+
+export function getModelDefinition(id: number): SunSpecModelDefinition | undefined {
+  ensureDefinitionsLoaded();
+  return definitions.get(id);
+}
+
+export function getModelDefinitions(): SunSpecModelDefinition[] {
+  ensureDefinitionsLoaded();
+  return Array.from(definitions.values()).sort((a, b) => a.id - b.id);
+}
+
+export function getPointSize(point: SunSpecPointDefinition): number {
+  return point.type === 'string' ? point.size! : POINT_SIZES[point.type];
+}
+
+// Registers of one instance of a group, or null when it holds counted groups
+function getGroupSize(group: SunSpecGroupDefinition): number | null {
+  let size = group.points.reduce((sum, point) => sum + getPointSize(point), 0);
+  for (const child of group.groups ?? []) {
+    if (child.count === undefined) {
+      const childSize = getGroupSize(child);
+      if (childSize === null) return null;
+      size += childSize;
+    } else if (typeof child.count === 'number' && child.count > 0) {
+      const childSize = getGroupSize(child);
+      if (childSize === null) return null;
+      size += childSize * child.count;
+    } else {
+      return null;
+    }
+  }
+  return size;
+}
+
+function findInScopes(scopes: Map<string, SunSpecPointLayout>[], name: string): SunSpecPointLayout | undefined {
+  for (const scope of scopes) {
+    const layout = scope.get(name);
+    if (layout) return layout;
+  }
+  return undefined;
+}
+
+/**
+ * Place the points of a model
+ *
+ * Repeating groups counted by a point take the count from `readCount`. Scale
+ * factors are looked up in the point's own group, then in enclosing groups.
+ * Points past the given length are left out; without a length, groups that
+ * fill the model are left empty.
+ */
+export function layoutModel(
+  definition: SunSpecModelDefinition,
+  length: number | undefined,
+  readCount: (layout: SunSpecPointLayout) => number
+): SunSpecModelLayout {
+  const points: SunSpecPointLayout[] = [];
+  const scaled: Array<{ layout: SunSpecPointLayout; scopes: Map<string, SunSpecPointLayout>[] }> = [];
+  const end = length === undefined ? undefined : length + SUNSPEC_HEADER_LENGTH;
+
+  const getCount = (group: SunSpecGroupDefinition, offset: number, scopes: Map<string, SunSpecPointLayout>[]) => {
+    if (typeof group.count === 'string') {
+      const countPoint = findInScopes(scopes, group.count);
+      if (!countPoint) {
+        throw new SunSpecError(`Count point ${group.count} of group ${group.name} not found in model ${definition.id}`);
+      }
+      return readCount(countPoint);
+    }
+    if (group.count! > 0) return group.count as number;
+    if (end === undefined) return 0;
+
+    const size = getGroupSize(group);
+    if (!size) {
+      throw new SunSpecError(`Cannot size repeating group ${group.name} of model ${definition.id}`);
+    }
+    return Math.max(0, Math.floor((end - offset) / size));
+  };
+
+  const layoutGroup = (
+    group: SunSpecGroupDefinition,
+    offset: number,
+    prefix: string,
+    parentScopes: Map<string, SunSpecPointLayout>[]
+  ): number => {
+    const scope = new Map<string, SunSpecPointLayout>();
+    const scopes = [scope, ...parentScopes];
+
+    for (const point of group.points) {
+      const layout: SunSpecPointLayout = { path: prefix + point.name, point, offset, size: getPointSize(point) };
+      scope.set(point.name, layout);
+      points.push(layout);
+      if (point.sf !== undefined) scaled.push({ layout, scopes });
+      offset += layout.size;
+    }
+
+    for (const child of group.groups ?? []) {
+      if (child.count === undefined) {
+        offset = layoutGroup(child, offset, `${prefix}${child.name}.`, scopes);
+        continue;
+      }
+      const count = getCount(child, offset, scopes);
+      for (let i = 0; i < count; i++) {
+        offset = layoutGroup(child, offset, `${prefix}${child.name}[${i}].`, scopes);
+      }
+    }
+
+    return offset;
+  };
+
+  const total = layoutGroup(definition.group, 0, '', []);
+
+  // Devices with an older, shorter revision of a model leave off trailing points
+  if (end !== undefined && total > end) {
+    points.splice(0, points.length, ...points.filter(layout => layout.offset + layout.size <= end));
+  }
+
+  // Scale factor points may follow the points they scale, so resolve them last
+  for (const { layout, scopes } of scaled) {
+    const sf = layout.point.sf!;
+    if (typeof sf === 'number') {
+      layout.sf = sf;
+      continue;
+    }
+    const sfLayout = findInScopes(scopes, sf);
+    if (!sfLayout) {
+      throw new SunSpecError(`Scale factor ${sf} of point ${layout.path} not found in model ${definition.id}`);
+    }
+    layout.sf = sfLayout;
+  }
+
+  return {
+    id: definition.id,
+    name: definition.group.name,
+    length: length ?? total - SUNSPEC_HEADER_LENGTH,
+    points,
+    byPath: new Map(points.map(layout => [layout.path, layout] as [string, SunSpecPointLayout])),
+  };
+}
+
+/**
+ * Place the points of a model read from a device, taking counts from its registers
+ */
+export function layoutModelFromWords(definition: SunSpecModelDefinition, words: number[]): SunSpecModelLayout {
+  if (words.length < SUNSPEC_HEADER_LENGTH) {
+    throw new SunSpecError(`Model ${definition.id} is missing its header`);
+  }
+  if (words[0] !== definition.id) {
+    throw new SunSpecError(`Expected model ${definition.id} but found model ${words[0]}`);
+  }
+  const length = words[1];
+  if (words.length < length + SUNSPEC_HEADER_LENGTH) {
+    throw new SunSpecError(`Model ${definition.id} has length ${length} but only ${words.length - SUNSPEC_HEADER_LENGTH} registers were read`);
+  }
+
+  return layoutModel(definition, length, layout => {
+    const value = readPointRaw(layout, words);
+    return typeof value === 'number' ? value : 0;
+  });
+}
+
+function toBuffer(words: number[]): Buffer {
+  const buffer = Buffer.alloc(words.length * 2);
+  words.forEach((word, i) => buffer.writeUInt16BE(word & 0xffff, i * 2));
+  return buffer;
+}
+
+function toWords(buffer: Buffer): number[] {
+  const words: number[] = [];
+  for (let i = 0; i < buffer.length; i += 2) {
+    words.push(buffer.readUInt16BE(i));
+  }
+  return words;
+}
+
+/**
+ * Registers a device reports for a point it does not implement
+ */
+export function getNotImplementedWords(point: SunSpecPointDefinition): number[] {
+  const size = getPointSize(point);
+  switch (point.type) {
+    case 'int16':
+    case 'sunssf':
+    case 'pad':
+      return [0x8000];
+    case 'int32':
+      return [0x8000, 0];
+    case 'int64':
+      return [0x8000, 0, 0, 0];
+    case 'float32':
+      return [0x7fc0, 0];
+    case 'float64':
+      return [0x7ff8, 0, 0, 0];
+    case 'acc16':
+    case 'acc32':
+    case 'acc64':
+    case 'string':
+    case 'ipaddr':
+    case 'ipv6addr':
+      return new Array(size).fill(0);
+    default:
+      // Unsigned integers, counts, enums, bitfields and EUI-48 addresses
+      return new Array(size).fill(0xffff);
+  }
+}
+
+function isNotImplemented(point: SunSpecPointDefinition, registers: number[]): boolean {
+  const sentinel = getNotImplementedWords(point);
+  return sentinel.every((word, i) => registers[i] === word);
+}
+
+function decodeWords(point: SunSpecPointDefinition, registers: number[]): number | string | null {
+  const buffer = toBuffer(registers);
+
+  switch (point.type) {
+    case 'int16':
+    case 'sunssf':
+      return buffer.readInt16BE(0);
+    case 'uint16':
+    case 'count':
+    case 'acc16':
+    case 'enum16':
+    case 'bitfield16':
+      return buffer.readUInt16BE(0);
+    case 'int32':
+      return buffer.readInt32BE(0);
+    case 'uint32':
+    case 'acc32':
+    case 'enum32':
+    case 'bitfield32':
+      return buffer.readUInt32BE(0);
+    case 'int64':
+      return Number(buffer.readBigInt64BE(0));
+    case 'uint64':
+    case 'acc64':
+    case 'bitfield64':
+      return Number(buffer.readBigUInt64BE(0));
+    case 'float32': {
+      const value = buffer.readFloatBE(0);
+      return Number.isFinite(value) ? value : null;
+    }
+    case 'float64': {
+      const value = buffer.readDoubleBE(0);
+      return Number.isFinite(value) ? value : null;
+    }
+    case 'string': {
+      const end = buffer.indexOf(0);
+      return buffer.toString('utf8', 0, end === -1 ? buffer.length : end).trim();
+    }
+    case 'ipaddr':
+      return Array.from(buffer).join('.');
+    case 'ipv6addr':
+      return registers.map(word => word.toString(16)).join(':');
+    case 'eui48':
+      // The first register is unused
+      return Array.from(buffer.subarray(2)).map(byte => byte.toString(16).padStart(2, '0')).join(':');
+    default:
+      return null;
+  }
+}
+
+function readPointRaw(layout: SunSpecPointLayout, words: number[]): number | string | null {
+  const registers = words.slice(layout.offset, layout.offset + layout.size);
+  if (registers.length < layout.size) {
+    throw new SunSpecError(`Point ${layout.path} lies outside the registers read`);
+  }
+  if (layout.point.type === 'pad' || isNotImplemented(layout.point, registers)) return null;
+  return decodeWords(layout.point, registers);
+}
+
+// Exponent of a point's scale factor, null when the device does not implement it
+function getScaleFactor(layout: SunSpecPointLayout, words: number[]): number | null {
+  if (layout.sf === undefined) return 0;
+  if (typeof layout.sf === 'number') return layout.sf;
+  const sf = readPointRaw(layout.sf, words);
+  return typeof sf === 'number' ? sf : null;
+}
+
+function applyScaleFactor(value: number, sf: number): number {
+  if (sf === 0) return value;
+  const scaled = value * Math.pow(10, sf);
+  // Round away floating point noise such as 229.70000000000002
+  return sf < 0 ? Number(scaled.toFixed(-sf)) : scaled;
+}
+
+function isBitSet(value: number, bit: number): boolean {
+  return Math.floor(value / Math.pow(2, bit)) % 2 === 1;
+}
+
+/**
+ * Decode a point, applying its scale factor and naming its enum value or set bits
+ */
+export function decodePoint(layout: SunSpecPointLayout, words: number[]): SunSpecPointValue {
+  const { point } = layout;
+  const raw = readPointRaw(layout, words);
+  const result: SunSpecPointValue = { value: raw };
+  if (point.units) result.units = point.units;
+
+  if (typeof raw !== 'number') return result;
+
+  if (layout.sf !== undefined) {
+    const sf = getScaleFactor(layout, words);
+    result.value = sf === null ? null : applyScaleFactor(raw, sf);
+  }
+
+  if (point.symbols) {
+    if (point.type === 'enum16' || point.type === 'enum32') {
+      result.symbol = point.symbols.find(symbol => symbol.value === raw)?.name;
+    } else if (point.type.startsWith('bitfield')) {
+      result.flags = point.symbols.filter(symbol => isBitSet(raw, symbol.value)).map(symbol => symbol.name);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Decode every point of a model read as one block, header included
+ */
+export function decodeModel(definition: SunSpecModelDefinition, words: number[]): SunSpecModelData {
+  const layout = layoutModelFromWords(definition, words);
+  const points: Record<string, SunSpecPointValue> = {};
+
+  for (const pointLayout of layout.points) {
+    if (pointLayout.point.type === 'pad') continue;
+    points[pointLayout.path] = decodePoint(pointLayout, words);
+  }
+
+  return {
+    id: definition.id,
+    name: definition.group.name,
+    label: definition.group.label,
+    length: layout.length,
+    points,
+  };
+}
+
+function resolveSymbol(layout: SunSpecPointLayout, value: unknown): number {
+  if (typeof value === 'number') return value;
+  const symbol = layout.point.symbols?.find(s => s.name === value);
+  if (!symbol) {
+    throw new SunSpecError(`Unknown value ${String(value)} for point ${layout.path}`);
+  }
+  return symbol.value;
+}
+
+function toRawValue(layout: SunSpecPointLayout, value: unknown, words: number[]): number {
+  const { point } = layout;
+
+  if (point.type === 'enum16' || point.type === 'enum32') {
+    const raw = resolveSymbol(layout, value);
+    if (point.symbols && !point.symbols.some(symbol => symbol.value === raw)) {
+      throw new SunSpecError(`Value ${raw} is not defined for point ${layout.path}`);
+    }
+    return raw;
+  }
+
+  if (point.type.startsWith('bitfield') && Array.isArray(value)) {
+    return value.reduce<number>((raw, flag) => raw + Math.pow(2, resolveSymbol(layout, flag)), 0);
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new SunSpecError(`Point ${layout.path} needs a numeric value`);
+  }
+
+  const sf = getScaleFactor(layout, words);
+  if (sf === null) {
+    throw new SunSpecError(`Scale factor of point ${layout.path} is not implemented by the device`);
+  }
+  if (point.type === 'float32' || point.type === 'float64') return value;
+
+  const raw = sf === 0 ? value : Math.round(value / Math.pow(10, sf));
+  if (!Number.isInteger(raw)) {
+    throw new SunSpecError(`Point ${layout.path} needs an integer value`);
+  }
+  return raw;
+}
+
+/**
+ * Encode a value for a point, as engineering units, an enum name or a list of bit names
+ *
+ * Scale factors are taken from `words`, the model as last read. Only RW points
+ * are writable unless `force` is set; null writes the not-implemented value.
+ */
+export function encodePoint(
+  layout: SunSpecPointLayout,
+  value: unknown,
+  words: number[],
+  options: { force?: boolean } = {}
+): number[] {
+  const { point } = layout;
+
+  if (!options.force && point.access !== 'RW') {
+    throw new SunSpecError(`Point ${layout.path} is read-only`);
+  }
+  if (value === null) return getNotImplementedWords(point);
+
+  const buffer = Buffer.alloc(layout.size * 2);
+
+  if (point.type === 'string') {
+    if (typeof value !== 'string') {
+      throw new SunSpecError(`Point ${layout.path} needs a string value`);
+    }
+    const bytes = Buffer.from(value, 'utf8');
+    if (bytes.length > buffer.length) {
+      throw new SunSpecError(`Point ${layout.path} holds at most ${buffer.length} bytes`);
+    }
+    bytes.copy(buffer);
+    return toWords(buffer);
+  }
+
+  const raw = toRawValue(layout, value, words);
+  const range = INTEGER_RANGES[point.type];
+  if (range && (raw < range[0] || raw > range[1])) {
+    throw new SunSpecError(`Value ${value} is out of range for point ${layout.path}`);
+  }
+
+  switch (point.type) {
+    case 'int16':
+    case 'sunssf':
+      buffer.writeInt16BE(raw, 0);
+      break;
+    case 'uint16':
+    case 'count':
+    case 'acc16':
+    case 'enum16':
+    case 'bitfield16':
+      buffer.writeUInt16BE(raw, 0);
+      break;
+    case 'int32':
+      buffer.writeInt32BE(raw, 0);
+      break;
+    case 'uint32':
+    case 'acc32':
+    case 'enum32':
+    case 'bitfield32':
+      buffer.writeUInt32BE(raw, 0);
+      break;
+    case 'int64':
+      buffer.writeBigInt64BE(BigInt(raw), 0);
+      break;
+    case 'uint64':
+    case 'acc64':
+    case 'bitfield64':
+      buffer.writeBigUInt64BE(BigInt(raw), 0);
+      break;
+    case 'float32':
+      buffer.writeFloatBE(raw, 0);
+      break;
+    case 'float64':
+      buffer.writeDoubleBE(raw, 0);
+      break;
+    default:
+      throw new SunSpecError(`Writing ${point.type} point ${layout.path} is not supported`);
+  }
+
+  return toWords(buffer);
+}
+
+/**
+ * Encode writes to several points of a model, merging adjacent registers into blocks
+ *
+ * `words` is the model as last read, header included. Scale factors written in
+ * the same call apply to the points after them.
+ */
+export function encodeModelWrites(
+  definition: SunSpecModelDefinition,
+  words: number[],
+  values: Record<string, unknown>,
+  options: { force?: boolean } = {}
+): SunSpecRegisterWrite[] {
+  const layout = layoutModelFromWords(definition, words);
+  const updated = words.slice();
+  const writes: SunSpecRegisterWrite[] = [];
+
+  for (const [pointPath, value] of Object.entries(values)) {
+    const pointLayout = layout.byPath.get(pointPath);
+    if (!pointLayout) {
+      throw new SunSpecError(`Model ${definition.id} has no point ${pointPath}`);
+    }
+    const encoded = encodePoint(pointLayout, value, updated, options);
+    updated.splice(pointLayout.offset, encoded.length, ...encoded);
+    writes.push({ offset: pointLayout.offset, words: encoded });
+  }
+
+  writes.sort((a, b) => a.offset - b.offset);
+  return writes.reduce<SunSpecRegisterWrite[]>((blocks, write) => {
+    const last = blocks[blocks.length - 1];
+    if (last && last.offset + last.words.length === write.offset) {
+      last.words.push(...write.words);
+    } else if (last && last.offset === write.offset) {
+      last.words = write.words.concat(last.words.slice(write.words.length));
+    } else {
+      blocks.push({ offset: write.offset, words: write.words.slice() });
+    }
+    return blocks;
+  }, []);
+}
+
+/**
+ * Build the registers of a model with every point not implemented
+ *
+ * `counts` gives the value of count points, e.g. { NCrv: 1, NPt: 4 }, and so
+ * the number of repeating groups. Used to simulate devices.
+ */
+export function createModelImage(definition: SunSpecModelDefinition, counts: Record<string, number> = {}): number[] {
+  const layout = layoutModel(definition, undefined, pointLayout => counts[pointLayout.point.name] ?? 0);
+  const words: number[] = new Array(layout.length + SUNSPEC_HEADER_LENGTH).fill(0);
+
+  for (const pointLayout of layout.points) {
+    const { point } = pointLayout;
+    let encoded = getNotImplementedWords(point);
+    if (counts[point.name] !== undefined) {
+      encoded = encodePoint(pointLayout, counts[point.name], words, { force: true });
+    }
+    words.splice(pointLayout.offset, encoded.length, ...encoded);
+  }
+
+  words[0] = definition.id;
+  words[1] = layout.length;
+  return words;
+}
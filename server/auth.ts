@@ -1,14 +1,21 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, RequestHandler, Response } from "express";
+import type { IncomingMessage } from "http";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { User as SelectUser, ApiKey } from "@shared/schema";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
 import { generateVerificationCode, sendVerificationEmail } from "./services/emailService";
+import { authenticateApiKey, extractApiKey } from "./middleware/apiKeyAuth";
+import { getEffectiveRole, verifyApiKey } from "./services/apiKeyService";
+import { rateLimit } from "./middleware/rateLimit";
+import { getAuditContext } from "./middleware/securityAudit";
+import { recordFailedLogin, recordSuccessfulLogin, recordSecurityEvent } from "./services/securityAuditService";
+import { verifySecondFactor } from "./services/twoFactorService";
 
 declare global {
   namespace Express {
@@ -16,6 +23,26 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Password verified, waiting for the second factor
+    pendingTwoFactor?: { userId: number; expiresAt: number };
+    // Secret shown during enrollment, saved once the user confirms a code
+    pendingTwoFactorSecret?: string;
+    // When the user last completed a second factor in this session
+    mfaVerifiedAt?: number;
+  }
+}
+
+const TWO_FACTOR_LOGIN_TIMEOUT = 5 * 60 * 1000;
+
+// Session middleware, kept to authenticate WebSocket upgrades that bypass Express
+let sessionParser: RequestHandler | null = null;
+
+export type UpgradeAuthentication =
+  | { authenticated: true; user: SelectUser; apiKey?: ApiKey }
+  | { authenticated: false; status: 401 | 403 | 500; reason: string };
+
 const scryptAsync = promisify(scrypt);
 const PostgresSessionStore = connectPg(session);
 
@@ -25,6 +52,12 @@ export async function hashPassword(password: string) {
   return `${buf.toString("hex")}.${salt}`;
 }
 
+// User fields that are safe to send to the client
+export function toPublicUser(user: SelectUser) {
+  const { password, twoFactorSecret, twoFactorRecoveryCodes, ...publicUser } = user;
+  return publicUser;
+}
+
 export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
@@ -49,19 +82,54 @@ export function setupAuth(app: Express) {
   };
 
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  sessionParser = session(sessionSettings);
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
+  // API keys authenticate machine clients that do not hold a session
+  app.use("/api", authenticateApiKey);
 
   passport.use(
-    new LocalStrategy(async (username, password, done) => {
+    new LocalStrategy({ passReqToCallback: true }, async (req, username, password, done) => {
       try {
+        const context = getAuditContext(req);
         const user = await storage.getUserByUsername(username);
-        if (!user || !(await comparePasswords(password, user.password))) {
-          return done(null, false);
-        } else {
-          return done(null, user);
+        if (!user) {
+          await recordSecurityEvent({
+            ...context,
+            action: 'login_failed',
+            resourceType: 'user',
+            status: 'failure',
+            failureReason: 'Unknown username',
+            details: { username },
+          });
+          return done(null, false, { message: "Invalid credentials" });
         }
+
+        if (!(await comparePasswords(password, user.password))) {
+          await recordFailedLogin(user, context);
+          return done(null, false, { message: "Invalid credentials" });
+        }
+
+        // Locked accounts are only reported once the password is known to be correct
+        if (user.accountLocked) {
+          await recordSecurityEvent({
+            ...context,
+            userId: user.id,
+            action: 'login_failed',
+            resourceType: 'user',
+            resourceId: user.id,
+            status: 'denied',
+            failureReason: 'Account locked',
+          });
+          return done(null, false, { message: "Account is locked. Contact an administrator." });
+        }
+
+        // Users with two-factor authentication are recorded once the second step succeeds
+        if (!user.twoFactorEnabled) {
+          await recordSuccessfulLogin(user, context);
+        }
+        return done(null, user);
       } catch (error) {
         return done(error);
       }
@@ -112,10 +180,9 @@ export function setupAuth(app: Express) {
 
       req.login(user, (err) => {
         if (err) return next(err);
-        // Remove password from response
-        const { password, ...userWithoutPassword } = user;
+        // Remove credentials from response
         res.status(201).json({
-          ...userWithoutPassword,
+          ...toPublicUser(user),
           requiresEmailVerification: !!(user.email && process.env.SENDGRID_API_KEY)
         });
       });
@@ -125,7 +192,7 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
+  app.post("/api/login", rateLimit("login"), (req, res, next) => {
     console.log("Login attempt for username:", req.body.username);
     
     passport.authenticate("local", (err: Error | null, user: SelectUser | false, info: { message: string }) => {
@@ -136,25 +203,86 @@ export function setupAuth(app: Express) {
       
       if (!user) {
         console.log("Authentication failed for:", req.body.username);
-        return res.status(401).json({ message: "Invalid credentials" });
+        return res.status(401).json({ message: info?.message || "Invalid credentials" });
       }
       
       console.log("Authentication successful for:", user.username);
+
+      // Hold the session until the second factor is verified
+      if (user.twoFactorEnabled) {
+        req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_LOGIN_TIMEOUT };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+
       req.login(user, (err) => {
         if (err) {
           console.error("Session creation error:", err);
           return next(err);
         }
         
-        // Remove password from response
-        const { password, ...userWithoutPassword } = user;
+        // Remove credentials from response
         console.log("Login completed successfully for:", user.username);
-        res.status(200).json(userWithoutPassword);
+        res.status(200).json(toPublicUser(user));
       });
     })(req, res, next);
   });
 
+  app.post("/api/login/2fa", rateLimit("login"), async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Two-factor sign-in has expired. Please sign in again." });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.twoFactorEnabled || user.accountLocked) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      const context = getAuditContext(req);
+      const method = await verifySecondFactor(user, {
+        code: typeof req.body.code === "string" ? req.body.code : undefined,
+        recoveryCode: typeof req.body.recoveryCode === "string" ? req.body.recoveryCode : undefined,
+      });
+
+      if (!method) {
+        const locked = await recordFailedLogin(user, context, "Invalid two-factor code");
+        if (locked) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Account is locked. Contact an administrator." });
+        }
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      req.login(user, async (err) => {
+        if (err) {
+          console.error("Session creation error:", err);
+          return next(err);
+        }
+
+        req.session.mfaVerifiedAt = Date.now();
+        await recordSuccessfulLogin(user, getAuditContext(req), { secondFactor: method });
+        console.log("Two-factor login completed for:", user.username);
+        res.status(200).json(toPublicUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.post("/api/logout", (req, res, next) => {
+    if (req.user) {
+      recordSecurityEvent({
+        ...getAuditContext(req),
+        action: 'logout',
+        resourceType: 'user',
+        resourceId: req.user.id,
+      });
+    }
+
     req.logout((err) => {
       if (err) return next(err);
       res.sendStatus(200);
@@ -169,9 +297,73 @@ export function setupAuth(app: Express) {
       return res.status(401).json({ message: "Not authenticated" });
     }
     
-    // Remove password from response
-    const { password, ...userWithoutPassword } = req.user;
-    console.log("Returning authenticated user:", userWithoutPassword.username);
-    res.json(userWithoutPassword);
+    // Remove credentials from response
+    console.log("Returning authenticated user:", req.user.username);
+    res.json(toPublicUser(req.user));
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Authenticate a WebSocket upgrade request the way HTTP requests are: by its
+ * API key if it carries one, otherwise by its session cookie
+ */
+export async function authenticateUpgrade(req: IncomingMessage): Promise<UpgradeAuthentication> {
+  const token = extractApiKey(req);
+  if (token) {
+    const result = await verifyApiKey(token, getUpgradeIp(req));
+    if (!result.valid) {
+      return { authenticated: false, status: result.status, reason: result.reason };
+    }
+    return {
+      authenticated: true,
+      user: { ...result.user, role: getEffectiveRole(result.apiKey, result.user) },
+      apiKey: result.apiKey,
+    };
+  }
+
+  if (!sessionParser) {
+    return { authenticated: false, status: 500, reason: "Sessions are not set up" };
+  }
+
+  // Browsers send the session cookie with cross-site upgrades, so only our own pages may use it
+  if (!isSameOrigin(req)) {
+    return { authenticated: false, status: 403, reason: "Cross-origin WebSocket connections are not allowed" };
+  }
+
+  // Sessions only need the cookie, so the upgrade request can stand in for an Express one
+  const parser = sessionParser;
+  await new Promise<void>((resolve, reject) => {
+    parser(req as Request, {} as Response, (error?: unknown) => (error ? reject(error) : resolve()));
+  });
+
+  const sessionData = (req as Request).session as { passport?: { user?: number } } | undefined;
+  const userId = sessionData?.passport?.user;
+  const user = userId != null ? await storage.getUser(userId) : undefined;
+  if (!user) {
+    return { authenticated: false, status: 401, reason: "Authentication required" };
+  }
+  if (user.accountLocked) {
+    return { authenticated: false, status: 403, reason: "Account is locked" };
+  }
+  return { authenticated: true, user };
+}
+
+// Client address of an upgrade request, trusting one proxy hop like Express does
+function getUpgradeIp(req: IncomingMessage): string | undefined {
+  const forwarded = req.headers["x-forwarded-for"];
+  const hops = (Array.isArray(forwarded) ? forwarded.join(",") : forwarded || "").split(",").map((hop) => hop.trim()).filter(Boolean);
+  return hops.length > 0 ? hops[hops.length - 1] : req.socket.remoteAddress;
+}
+
+// Whether an upgrade comes from a page served by this host; non-browser clients send no origin
+function isSameOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) {
+    return true;
+  }
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { getBatteryArbitrageService } from '../services/batteryArbitrageService';
 import { getEnergyPriceService } from '../services/energyPriceService';
+import { MAX_HORIZON_HOURS } from '../services/batteryScheduleOptimizer';
 
 /**
  * Get all available arbitrage strategies
@@ -96,18 +97,31 @@ export async function disableStrategy(req: Request, res: Response) {
 }
 
 /**
- * Run optimization for a site
+ * Run optimization for a site, optionally with the given strategies instead
+ * of the active ones so their results can be compared
  */
 export async function runOptimization(req: Request, res: Response) {
   try {
     const siteId = parseInt(req.params.siteId);
+    const { strategies, horizonHours } = req.body || {};
     
     if (isNaN(siteId)) {
       return res.status(400).json({ error: 'Invalid site ID' });
     }
 
     const arbitrageService = getBatteryArbitrageService();
-    const result = await arbitrageService.optimizeSite(siteId);
+    const availableStrategies = arbitrageService.getAvailableStrategies();
+    
+    if (strategies !== undefined && (!Array.isArray(strategies) || strategies.length === 0 ||
+        strategies.some((strategy: unknown) => !availableStrategies.includes(strategy as string)))) {
+      return res.status(400).json({ error: 'Strategies must be a list of available strategies' });
+    }
+    
+    if (horizonHours !== undefined && (!Number.isInteger(horizonHours) || horizonHours < 1 || horizonHours > MAX_HORIZON_HOURS)) {
+      return res.status(400).json({ error: `Horizon must be between 1 and ${MAX_HORIZON_HOURS} hours` });
+    }
+
+    const result = await arbitrageService.optimizeSite(siteId, { strategies, horizonHours });
     
     if (result) {
       res.status(200).json(result);
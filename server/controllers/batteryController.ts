@@ -7,7 +7,15 @@ import {
   batteryThermalEvents,
   devices,
 } from "@shared/schema";
-import { eq, and, desc, sql, or as sqlOr } from "drizzle-orm";
+import { eq, and, asc, desc, gte, sql, or as sqlOr } from "drizzle-orm";
+import { storage } from "../storage";
+import {
+  assessSocHistory,
+  getBatteryDegradationModel,
+  getCycleLife,
+  getNominalCostPerKwh,
+} from "../services/batteryDegradationModel";
+import { getBatteryArbitrageService } from "../services/batteryArbitrageService";
 
 /**
  * Get the latest telemetry data for a battery device
@@ -223,6 +231,91 @@ export const getBatteryThermalEvents = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Get the cycle-aging model of a battery device, with the wear of its SoC
+ * history and of the schedule last planned for it
+ */
+export const getBatteryDegradation = async (req: Request, res: Response) => {
+  try {
+    const deviceId = parseInt(req.params.deviceId);
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365); // Default to 30 days
+    
+    if (isNaN(deviceId)) {
+      return res.status(400).json({ error: "Invalid device ID" });
+    }
+    
+    // Check if device exists and is a battery storage device
+    const device = await db.query.devices.findFirst({
+      where: and(
+        eq(devices.id, deviceId),
+        eq(devices.type, "battery_storage")
+      ),
+    });
+    
+    if (!device) {
+      return res.status(404).json({ error: "Battery device not found" });
+    }
+    
+    const model = await getBatteryDegradationModel(deviceId);
+    
+    // SoC history from the BMS, or from the device readings without one
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    let socHistory = (await db
+      .select({ stateOfCharge: batteryTelemetry.stateOfCharge })
+      .from(batteryTelemetry)
+      .where(and(eq(batteryTelemetry.deviceId, deviceId), gte(batteryTelemetry.timestamp, since)))
+      .orderBy(asc(batteryTelemetry.timestamp)))
+      .map(row => row.stateOfCharge);
+    if (socHistory.length === 0) {
+      socHistory = (await storage.getDeviceReadingsByTimeRange(deviceId, since, new Date()))
+        .reverse()
+        .map(reading => reading.stateOfCharge);
+    }
+    const soc = socHistory.filter((value): value is string => value != null).map(Number);
+    const history = assessSocHistory(model, soc);
+    
+    // Cycles by depth of discharge, in 20% bands
+    const depthBands = [0, 20, 40, 60, 80].map(from => ({
+      band: `${from}-${from + 20}%`,
+      cycles: history.cycles
+        .filter(cycle => cycle.depth * 100 >= from && (cycle.depth * 100 < from + 20 || from === 80))
+        .reduce((sum, cycle) => sum + cycle.count, 0),
+    }));
+    
+    // Years to end of life if the battery kept cycling like it did
+    const lifeConsumedPerYear = history.lifeConsumed * (365 / days);
+    
+    return res.status(200).json({
+      model: {
+        cellType: model.cellType,
+        capacityKwh: model.capacityKwh,
+        replacementCost: model.replacementCost,
+        temperatureC: model.temperatureC,
+        calibration: model.calibration,
+        calibrationEvents: model.calibrationEvents,
+        endOfLifeCapacity: model.parameters.endOfLifeCapacity,
+        cycleLife: [20, 50, 80, 100].map(depth => ({ depth, cycles: Math.round(getCycleLife(model.parameters, depth / 100)) })),
+        nominalCostPerKwh: getNominalCostPerKwh(model),
+      },
+      history: {
+        days,
+        samples: soc.length,
+        equivalentFullCycles: history.equivalentFullCycles,
+        throughputKwh: history.throughputKwh,
+        capacityLossPercent: history.capacityLossPercent,
+        cost: history.cost,
+        costPerKwh: history.costPerKwh,
+        depthBands,
+        projectedLifeYears: lifeConsumedPerYear > 0 ? 1 / lifeConsumedPerYear : null,
+      },
+      planned: getBatteryArbitrageService().getPlannedWear(deviceId),
+    });
+  } catch (error) {
+    console.error("Error assessing battery degradation:", error);
+    return res.status(500).json({ error: "Failed to assess battery degradation" });
+  }
+};
+
 /**
  * Schedule a capacity test for a battery device
  */
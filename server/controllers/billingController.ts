@@ -0,0 +1,71 @@
+import { Request, Response } from 'express';
+import { z, ZodError } from 'zod';
+import { calculateShadowBill, calculateSiteBill } from '../services/billingService';
+
+const billingPeriodSchema = z.object({
+  start: z.coerce.date().optional(),
+  end: z.coerce.date().optional(),
+}).refine(
+  (period) => !period.start || !period.end || period.start < period.end,
+  { message: 'start must be before end' }
+);
+
+// Billing period from the query, defaulting to the last 30 days
+function parseBillingPeriod(query: unknown) {
+  const period = billingPeriodSchema.parse(query);
+  const end = period.end ?? new Date();
+  const start = period.start ?? new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000);
+  return { start, end };
+}
+
+// Get the itemized bill for a site over a billing period
+export const getSiteBill = async (req: Request, res: Response) => {
+  try {
+    const siteId = parseInt(req.params.siteId);
+    
+    if (isNaN(siteId)) {
+      return res.status(400).json({ message: 'Invalid site ID' });
+    }
+    
+    const { start, end } = parseBillingPeriod(req.query);
+    const bill = await calculateSiteBill(siteId, start, end);
+    
+    if (!bill) {
+      return res.status(404).json({ message: 'No tariff found for this site' });
+    }
+    
+    res.json(bill);
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid billing period', errors: error.errors });
+    }
+    console.error('Error calculating bill:', error);
+    res.status(500).json({ message: 'Failed to calculate bill', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Compare the actual bill with the bills without battery and solar
+export const getSiteShadowBill = async (req: Request, res: Response) => {
+  try {
+    const siteId = parseInt(req.params.siteId);
+    
+    if (isNaN(siteId)) {
+      return res.status(400).json({ message: 'Invalid site ID' });
+    }
+    
+    const { start, end } = parseBillingPeriod(req.query);
+    const shadowBill = await calculateShadowBill(siteId, start, end);
+    
+    if (!shadowBill) {
+      return res.status(404).json({ message: 'No tariff found for this site' });
+    }
+    
+    res.json(shadowBill);
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid billing period', errors: error.errors });
+    }
+    console.error('Error calculating shadow bill:', error);
+    res.status(500).json({ message: 'Failed to calculate shadow bill', error: error?.message || 'Unknown error' });
+  }
+};
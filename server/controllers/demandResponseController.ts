@@ -13,6 +13,9 @@ import {
 } from '@shared/schema';
 import { db } from '../db';
 import { eq, and, desc } from 'drizzle-orm';
+import { getCommandActor } from '../middleware/commandAuth';
+import { endEvent, settleEvent, startEvent } from '../services/demandResponseService';
+import { calculateBaseline, isBaselineMethod, BASELINE_METHODS } from '../services/demandResponseBaselineService';
 
 // Programs
 export async function getDemandResponsePrograms(req: Request, res: Response) {
@@ -339,6 +342,119 @@ export async function createDemandResponseAction(req: Request, res: Response) {
   }
 }
 
+// Event Execution
+async function findEvent(req: Request) {
+  const eventId = Number(req.params.id);
+  const [event] = await db
+    .select()
+    .from(demandResponseEvents)
+    .where(eq(demandResponseEvents.id, eventId));
+  return event;
+}
+
+// Start an event now: plan the site's actions if needed and dispatch them
+export async function startDemandResponseEvent(req: Request, res: Response) {
+  try {
+    const event = await findEvent(req);
+
+    if (!event) {
+      return res.status(404).json({ message: 'Demand response event not found' });
+    }
+
+    if (event.status === 'completed' || event.status === 'cancelled') {
+      return res.status(409).json({ message: `Event is ${event.status}` });
+    }
+
+    const actions = await startEvent(event, getCommandActor(req));
+    res.json({ event: await findEvent(req), actions });
+  } catch (error) {
+    console.error('Error starting demand response event:', error);
+    res.status(500).json({ message: 'Failed to start demand response event' });
+  }
+}
+
+// End an event early and restore its devices
+export async function endDemandResponseEvent(req: Request, res: Response) {
+  try {
+    const event = await findEvent(req);
+
+    if (!event) {
+      return res.status(404).json({ message: 'Demand response event not found' });
+    }
+
+    if (event.status === 'completed') {
+      return res.status(409).json({ message: 'Event is already completed' });
+    }
+
+    const actions = await endEvent(event, getCommandActor(req));
+    res.json({ event: await findEvent(req), actions });
+  } catch (error) {
+    console.error('Error ending demand response event:', error);
+    res.status(500).json({ message: 'Failed to end demand response event' });
+  }
+}
+
+// Settle (or re-settle) a completed event, optionally with another baseline method
+export async function settleDemandResponseEvent(req: Request, res: Response) {
+  try {
+    const method = req.body?.method;
+
+    if (method !== undefined && !isBaselineMethod(method)) {
+      return res.status(400).json({ message: `Baseline method must be one of ${BASELINE_METHODS.join(', ')}` });
+    }
+
+    const event = await findEvent(req);
+
+    if (!event) {
+      return res.status(404).json({ message: 'Demand response event not found' });
+    }
+
+    if (event.status !== 'completed') {
+      return res.status(409).json({ message: 'Only completed events can be settled' });
+    }
+
+    res.json(await settleEvent(event, method));
+  } catch (error) {
+    console.error('Error settling demand response event:', error);
+    res.status(500).json({ message: 'Failed to settle demand response event' });
+  }
+}
+
+// Baseline load of the event's site for the event window
+export async function getDemandResponseBaseline(req: Request, res: Response) {
+  try {
+    const method = req.query.method;
+
+    if (method !== undefined && !isBaselineMethod(method)) {
+      return res.status(400).json({ message: `Baseline method must be one of ${BASELINE_METHODS.join(', ')}` });
+    }
+
+    const event = await findEvent(req);
+
+    if (!event) {
+      return res.status(404).json({ message: 'Demand response event not found' });
+    }
+
+    if (!event.siteId) {
+      return res.status(400).json({ message: 'Event has no site' });
+    }
+
+    const baseline = await calculateBaseline(event.siteId, event.startTime, event.endTime, {
+      method,
+      notificationTime: event.notificationTime,
+    });
+
+    if (!baseline) {
+      return res.status(404).json({ message: 'No baseline days with readings' });
+    }
+
+    res.json(baseline);
+  } catch (error) {
+    console.error('Error calculating demand response baseline:', error);
+    res.status(500).json({ message: 'Failed to calculate demand response baseline' });
+  }
+}
+
 // Demo data initialization
 export async function createDemoDemandResponseData(siteId: number) {
   try {
@@ -15,6 +15,8 @@ import {
 import { db } from '../db';
 import { eq, and, desc } from 'drizzle-orm';
 import { z } from 'zod';
+import { executeCommand } from '../services/commandGatewayService';
+import { getCommandActor, sendCommandOutcome } from '../middleware/commandAuth';
 
 // Define a simplified authenticated request interface for controller
 interface AuthenticatedRequest extends Request {
@@ -364,21 +366,10 @@ export async function sendControlCommand(req: AuthenticatedRequest, res: Respons
       return res.status(404).json({ message: 'Device not controlled by this edge node' });
     }
     
-    // Process control command
-    // This would typically involve MQTT or WebSocket
+    // Route the command through the command gateway for authorization and auditing
     const command = req.body;
-    
-    // TODO: Implement actual control command logic
-    // This would connect to an edge device service
-    
-    // For now, return success response
-    res.json({
-      success: true,
-      message: 'Command sent to edge node',
-      command,
-      timestamp: new Date(),
-      latency: 15 // milliseconds
-    });
+    const outcome = await executeCommand(getCommandActor(req), deviceId, 'edge.control', { nodeId, command });
+    sendCommandOutcome(res, outcome);
   } catch (error) {
     console.error('Error sending control command to edge node:', error);
     res.status(500).json({ message: 'Failed to send control command' });
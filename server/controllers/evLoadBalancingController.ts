@@ -0,0 +1,54 @@
+import { Request, Response } from 'express';
+import { insertEvLoadBalancingSettingsSchema } from '@shared/schema';
+import { ZodError } from 'zod';
+import { storage } from '../storage';
+import {
+  getLoadBalancingSettings,
+  getLoadBalancingStatus,
+  saveLoadBalancingSettings,
+} from '../services/evLoadBalancerService';
+
+// Get the EV load balancing settings of a site and its current allocation
+export const getEvLoadBalancing = async (req: Request, res: Response) => {
+  try {
+    const siteId = parseInt(req.params.siteId);
+
+    if (isNaN(siteId)) {
+      return res.status(400).json({ message: 'Invalid site ID' });
+    }
+
+    const settings = await getLoadBalancingSettings(siteId);
+    if (!settings) {
+      return res.status(404).json({ message: 'EV load balancing is not configured for this site' });
+    }
+
+    res.json({ settings, status: getLoadBalancingStatus(siteId) ?? null });
+  } catch (error: any) {
+    console.error('Error fetching EV load balancing:', error);
+    res.status(500).json({ message: 'Failed to fetch EV load balancing', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Configure EV load balancing for a site; limits are recomputed on the next service tick
+export const updateEvLoadBalancing = async (req: Request, res: Response) => {
+  try {
+    const siteId = parseInt(req.params.siteId);
+
+    if (isNaN(siteId)) {
+      return res.status(400).json({ message: 'Invalid site ID' });
+    }
+
+    if (!(await storage.getSite(siteId))) {
+      return res.status(404).json({ message: 'Site not found' });
+    }
+
+    const data = insertEvLoadBalancingSettingsSchema.partial().parse(req.body);
+    res.json(await saveLoadBalancingSettings(siteId, data));
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid load balancing settings', errors: error.errors });
+    }
+    console.error('Error updating EV load balancing:', error);
+    res.status(500).json({ message: 'Failed to update EV load balancing', error: error?.message || 'Unknown error' });
+  }
+};
@@ -0,0 +1,76 @@
+import { Request, Response } from 'express';
+import { insertMpcControllerSchema } from '@shared/schema';
+import { ZodError } from 'zod';
+import { storage } from '../storage';
+import { getMpcController, getMpcHistory, saveMpcController } from '../services/mpcControllerService';
+
+const DEFAULT_HISTORY_HOURS = 24;
+const MAX_HISTORY_HOURS = 24 * 7;
+
+// Get the MPC controller settings of a site
+export const getSiteMpcController = async (req: Request, res: Response) => {
+  try {
+    const siteId = parseInt(req.params.siteId);
+
+    if (isNaN(siteId)) {
+      return res.status(400).json({ message: 'Invalid site ID' });
+    }
+
+    const controller = await getMpcController(siteId);
+    if (!controller) {
+      return res.status(404).json({ message: 'MPC is not configured for this site' });
+    }
+
+    res.json(controller);
+  } catch (error: any) {
+    console.error('Error fetching MPC controller:', error);
+    res.status(500).json({ message: 'Failed to fetch MPC controller', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Configure MPC for a site; a new plan is made on the next service tick
+export const updateSiteMpcController = async (req: Request, res: Response) => {
+  try {
+    const siteId = parseInt(req.params.siteId);
+
+    if (isNaN(siteId)) {
+      return res.status(400).json({ message: 'Invalid site ID' });
+    }
+
+    if (!(await storage.getSite(siteId))) {
+      return res.status(404).json({ message: 'Site not found' });
+    }
+
+    const data = insertMpcControllerSchema.partial().parse(req.body);
+    res.json(await saveMpcController(siteId, data));
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid MPC settings', errors: error.errors });
+    }
+    console.error('Error updating MPC controller:', error);
+    res.status(500).json({ message: 'Failed to update MPC controller', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Get the planned, executed and actual values of the last hours, with the tracking error
+export const getSiteMpcHistory = async (req: Request, res: Response) => {
+  try {
+    const siteId = parseInt(req.params.siteId);
+    const hours = req.query.hours ? parseInt(req.query.hours as string) : DEFAULT_HISTORY_HOURS;
+
+    if (isNaN(siteId)) {
+      return res.status(400).json({ message: 'Invalid site ID' });
+    }
+
+    if (isNaN(hours) || hours <= 0 || hours > MAX_HISTORY_HOURS) {
+      return res.status(400).json({ message: `Hours must be between 1 and ${MAX_HISTORY_HOURS}` });
+    }
+
+    const to = new Date();
+    const from = new Date(to.getTime() - hours * 60 * 60 * 1000);
+    res.json(await getMpcHistory(siteId, from, to));
+  } catch (error: any) {
+    console.error('Error fetching MPC history:', error);
+    res.status(500).json({ message: 'Failed to fetch MPC history', error: error?.message || 'Unknown error' });
+  }
+};
@@ -0,0 +1,207 @@
+import { Request, Response } from 'express';
+import { insertOcppChargePointSchema, insertOcppIdTagSchema } from '@shared/schema';
+import { z, ZodError } from 'zod';
+import { storage } from '../storage';
+import { executeCommand } from '../services/commandGatewayService';
+import { getCommandActor, sendCommandOutcome } from '../middleware/commandAuth';
+import {
+  configureChargePoint,
+  createIdTag,
+  deleteIdTag,
+  getChargePointStatus,
+  getIdTags,
+  updateIdTag,
+} from '../services/ocppCsmsService';
+
+// OCPP 1.6 charging profile, converted for 2.0.1 chargers by the CSMS
+const chargingProfileSchema = z.object({
+  id: z.number().int(),
+  stackLevel: z.number().int().min(0),
+  chargingProfilePurpose: z.enum(['ChargePointMaxProfile', 'TxDefaultProfile', 'TxProfile']),
+  chargingProfileKind: z.enum(['Absolute', 'Recurring', 'Relative']),
+  recurrencyKind: z.enum(['Daily', 'Weekly']).optional(),
+  validFrom: z.string().datetime().optional(),
+  validTo: z.string().datetime().optional(),
+  transactionId: z.union([z.number().int(), z.string().min(1).max(36)]).optional(),
+  chargingSchedule: z.object({
+    duration: z.number().int().optional(),
+    startSchedule: z.string().datetime().optional(),
+    chargingRateUnit: z.enum(['A', 'W']),
+    minChargingRate: z.number().optional(),
+    chargingSchedulePeriods: z.array(z.object({
+      startPeriod: z.number().int().min(0),
+      limit: z.number().min(0),
+      numberPhases: z.number().int().min(1).max(3).optional(),
+    })).min(1),
+  }),
+});
+
+const chargingProfileRequestSchema = z.object({
+  connectorId: z.number().int().min(0),
+  chargingProfile: chargingProfileSchema,
+});
+
+const resetRequestSchema = z.object({
+  type: z.enum(['Soft', 'Hard']).default('Soft'),
+});
+
+// Get the CSMS configuration and connection state of a charger
+export const getOcppChargePoint = async (req: Request, res: Response) => {
+  try {
+    const deviceId = parseInt(req.params.id);
+
+    if (isNaN(deviceId)) {
+      return res.status(400).json({ message: 'Invalid device ID' });
+    }
+
+    const status = await getChargePointStatus(deviceId);
+    if (!status) {
+      return res.status(404).json({ message: 'Device is not configured as an OCPP charge point' });
+    }
+
+    res.json(status);
+  } catch (error: any) {
+    console.error('Error fetching OCPP charge point:', error);
+    res.status(500).json({ message: 'Failed to fetch OCPP charge point', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Configure a charger to connect to the CSMS
+export const configureOcppChargePoint = async (req: Request, res: Response) => {
+  try {
+    const deviceId = parseInt(req.params.id);
+
+    if (isNaN(deviceId)) {
+      return res.status(400).json({ message: 'Invalid device ID' });
+    }
+
+    const device = await storage.getDevice(deviceId);
+    if (!device) {
+      return res.status(404).json({ message: 'Device not found' });
+    }
+    if (device.type !== 'ev_charger' && device.type !== 'bidirectional_ev_charger') {
+      return res.status(400).json({ message: 'Only EV chargers can be OCPP charge points' });
+    }
+
+    const data = insertOcppChargePointSchema.parse(req.body);
+    await configureChargePoint(deviceId, data);
+    res.json(await getChargePointStatus(deviceId));
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid charge point data', errors: error.errors });
+    }
+    console.error('Error configuring OCPP charge point:', error);
+    res.status(500).json({ message: 'Failed to configure OCPP charge point', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Install a charging profile on a charger
+export const setOcppChargingProfile = async (req: Request, res: Response) => {
+  try {
+    const deviceId = parseInt(req.params.id);
+
+    if (isNaN(deviceId)) {
+      return res.status(400).json({ message: 'Invalid device ID' });
+    }
+
+    const { connectorId, chargingProfile } = chargingProfileRequestSchema.parse(req.body);
+    const outcome = await executeCommand(getCommandActor(req), deviceId, 'ocpp.set_charging_profile', { connectorId, chargingProfile });
+    sendCommandOutcome(res, outcome);
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid charging profile', errors: error.errors });
+    }
+    console.error('Error setting OCPP charging profile:', error);
+    res.status(500).json({ message: 'Failed to set charging profile', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Reset a charger
+export const resetOcppChargePoint = async (req: Request, res: Response) => {
+  try {
+    const deviceId = parseInt(req.params.id);
+
+    if (isNaN(deviceId)) {
+      return res.status(400).json({ message: 'Invalid device ID' });
+    }
+
+    const { type } = resetRequestSchema.parse(req.body ?? {});
+    const outcome = await executeCommand(getCommandActor(req), deviceId, 'ocpp.reset', { type });
+    sendCommandOutcome(res, outcome);
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid reset type', errors: error.errors });
+    }
+    console.error('Error resetting OCPP charge point:', error);
+    res.status(500).json({ message: 'Failed to reset charge point', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Get the ID tags allowed to charge
+export const getOcppIdTags = async (_req: Request, res: Response) => {
+  try {
+    res.json(await getIdTags());
+  } catch (error: any) {
+    console.error('Error fetching OCPP ID tags:', error);
+    res.status(500).json({ message: 'Failed to fetch ID tags', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Create an ID tag
+export const createOcppIdTag = async (req: Request, res: Response) => {
+  try {
+    const data = insertOcppIdTagSchema.parse(req.body);
+    res.status(201).json(await createIdTag(data));
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid ID tag data', errors: error.errors });
+    }
+    console.error('Error creating OCPP ID tag:', error);
+    res.status(500).json({ message: 'Failed to create ID tag', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Update an ID tag
+export const updateOcppIdTag = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid ID tag ID' });
+    }
+
+    const data = insertOcppIdTagSchema.partial().parse(req.body);
+    const tag = await updateIdTag(id, data);
+    if (!tag) {
+      return res.status(404).json({ message: 'ID tag not found' });
+    }
+
+    res.json(tag);
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid ID tag data', errors: error.errors });
+    }
+    console.error('Error updating OCPP ID tag:', error);
+    res.status(500).json({ message: 'Failed to update ID tag', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Delete an ID tag
+export const deleteOcppIdTag = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid ID tag ID' });
+    }
+
+    if (!(await deleteIdTag(id))) {
+      return res.status(404).json({ message: 'ID tag not found' });
+    }
+
+    res.status(204).end();
+  } catch (error: any) {
+    console.error('Error deleting OCPP ID tag:', error);
+    res.status(500).json({ message: 'Failed to delete ID tag', error: error?.message || 'Unknown error' });
+  }
+};
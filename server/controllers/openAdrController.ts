@@ -0,0 +1,170 @@
+import { Request, Response } from 'express';
+import { insertOpenadrVenSchema } from '@shared/schema';
+import { ZodError } from 'zod';
+import {
+  createVen,
+  deleteVen,
+  getVen,
+  getVenEvents,
+  getVens,
+  pollVen,
+  registerVen,
+  updateVen,
+} from '../services/openAdrVenService';
+
+// Get OpenADR VENs, optionally for one program
+export const getOpenAdrVens = async (req: Request, res: Response) => {
+  try {
+    const programId = req.query.programId ? parseInt(req.query.programId as string) : undefined;
+
+    if (programId !== undefined && isNaN(programId)) {
+      return res.status(400).json({ message: 'Invalid program ID' });
+    }
+
+    res.json(await getVens(programId));
+  } catch (error: any) {
+    console.error('Error fetching OpenADR VENs:', error);
+    res.status(500).json({ message: 'Failed to fetch OpenADR VENs', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Get an OpenADR VEN
+export const getOpenAdrVen = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid VEN ID' });
+    }
+
+    const ven = await getVen(id);
+    if (!ven) {
+      return res.status(404).json({ message: 'VEN not found' });
+    }
+
+    res.json(ven);
+  } catch (error: any) {
+    console.error('Error fetching OpenADR VEN:', error);
+    res.status(500).json({ message: 'Failed to fetch OpenADR VEN', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Create an OpenADR VEN; it registers with its VTN on the next service tick
+export const createOpenAdrVen = async (req: Request, res: Response) => {
+  try {
+    const data = insertOpenadrVenSchema.parse(req.body);
+    res.status(201).json(await createVen(data));
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid VEN data', errors: error.errors });
+    }
+    console.error('Error creating OpenADR VEN:', error);
+    res.status(500).json({ message: 'Failed to create OpenADR VEN', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Update an OpenADR VEN
+export const updateOpenAdrVen = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid VEN ID' });
+    }
+
+    const data = insertOpenadrVenSchema.partial().parse(req.body);
+    const ven = await updateVen(id, data);
+    if (!ven) {
+      return res.status(404).json({ message: 'VEN not found' });
+    }
+
+    res.json(ven);
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid VEN data', errors: error.errors });
+    }
+    console.error('Error updating OpenADR VEN:', error);
+    res.status(500).json({ message: 'Failed to update OpenADR VEN', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Delete an OpenADR VEN
+export const deleteOpenAdrVen = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid VEN ID' });
+    }
+
+    if (!(await deleteVen(id))) {
+      return res.status(404).json({ message: 'VEN not found' });
+    }
+
+    res.status(204).end();
+  } catch (error: any) {
+    console.error('Error deleting OpenADR VEN:', error);
+    res.status(500).json({ message: 'Failed to delete OpenADR VEN', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Register an OpenADR VEN with its VTN now
+export const registerOpenAdrVen = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid VEN ID' });
+    }
+
+    const ven = await getVen(id);
+    if (!ven) {
+      return res.status(404).json({ message: 'VEN not found' });
+    }
+
+    res.json(await registerVen(ven));
+  } catch (error: any) {
+    console.error('Error registering OpenADR VEN:', error);
+    res.status(502).json({ message: 'Failed to register with the VTN', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Poll the VTN for an OpenADR VEN now
+export const pollOpenAdrVen = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid VEN ID' });
+    }
+
+    const ven = await getVen(id);
+    if (!ven) {
+      return res.status(404).json({ message: 'VEN not found' });
+    }
+    if (!ven.registrationId) {
+      return res.status(409).json({ message: 'VEN is not registered' });
+    }
+
+    res.json(await pollVen(ven));
+  } catch (error: any) {
+    console.error('Error polling OpenADR VTN:', error);
+    res.status(502).json({ message: 'Failed to poll the VTN', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Get the OpenADR events received by a VEN
+export const getOpenAdrVenEvents = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid VEN ID' });
+    }
+
+    res.json(await getVenEvents(id));
+  } catch (error: any) {
+    console.error('Error fetching OpenADR events:', error);
+    res.status(500).json({ message: 'Failed to fetch OpenADR events', error: error?.message || 'Unknown error' });
+  }
+};
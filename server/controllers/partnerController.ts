@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { insertPartnerSchema } from '@shared/schema';
 import { ZodError } from 'zod';
+import { toPublicUser } from '../auth';
 
 /**
  * Format Zod validation errors for API responses
@@ -173,13 +174,8 @@ export async function getPartnerUsers(req: AuthenticatedRequest, res: Response)
     
     const users = await req.app.locals.storage.getUsersByPartner(partnerId);
     
-    // Remove sensitive information like passwords
-    const sanitizedUsers = users.map((user: { password: string; [key: string]: any }) => {
-      const { password, ...sanitized } = user;
-      return sanitized;
-    });
-    
-    res.json(sanitizedUsers);
+    // Remove passwords and two-factor secrets
+    res.json(users.map(toPublicUser));
   } catch (error) {
     console.error('Error fetching partner users:', error);
     res.status(500).json({ message: 'Failed to fetch partner users' });
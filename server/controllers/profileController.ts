@@ -3,7 +3,9 @@ import { storage } from '../storage';
 import { z } from 'zod';
 import { fromZodError } from 'zod-validation-error';
 import { UserRoleSchema } from '@shared/schema';
-import { hashPassword, comparePasswords } from '../auth';
+import { hashPassword, comparePasswords, toPublicUser } from '../auth';
+import { getAuditContext } from '../middleware/securityAudit';
+import { recordSecurityEvent } from '../services/securityAuditService';
 
 // Schema for updating profile information
 const updateProfileSchema = z.object({
@@ -31,9 +33,8 @@ export const getProfile = async (req: Request, res: Response) => {
   }
 
   try {
-    // Return the user information (excluding the password)
-    const { password, ...userWithoutPassword } = req.user;
-    return res.status(200).json(userWithoutPassword);
+    // Return the user information (excluding credentials)
+    return res.status(200).json(toPublicUser(req.user));
   } catch (error) {
     console.error('Error fetching profile:', error);
     return res.status(500).json({ message: 'Failed to fetch profile information' });
@@ -86,9 +87,8 @@ export const updateProfile = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'User not found' });
     }
 
-    // Return the updated user (excluding the password)
-    const { password, ...userWithoutPassword } = updatedUser;
-    return res.status(200).json(userWithoutPassword);
+    // Return the updated user (excluding credentials)
+    return res.status(200).json(toPublicUser(updatedUser));
   } catch (error) {
     console.error('Error updating profile:', error);
     return res.status(500).json({ message: 'Failed to update profile information' });
@@ -119,6 +119,14 @@ export const changePassword = async (req: Request, res: Response) => {
     );
 
     if (!isCurrentPasswordValid) {
+      await recordSecurityEvent({
+        ...getAuditContext(req),
+        action: 'password_change',
+        resourceType: 'user',
+        resourceId: req.user.id,
+        status: 'failure',
+        failureReason: 'Current password is incorrect',
+      });
       return res.status(400).json({ message: 'Current password is incorrect' });
     }
 
@@ -126,12 +134,23 @@ export const changePassword = async (req: Request, res: Response) => {
     const hashedPassword = await hashPassword(validatedData.data.newPassword);
 
     // Update the user's password
-    const updatedUser = await storage.updateUser(req.user.id, { password: hashedPassword });
+    const updatedUser = await storage.updateUser(req.user.id, {
+      password: hashedPassword,
+      passwordLastChanged: new Date(),
+      requirePasswordChange: false,
+    });
     
     if (!updatedUser) {
       return res.status(404).json({ message: 'User not found' });
     }
 
+    await recordSecurityEvent({
+      ...getAuditContext(req),
+      action: 'password_change',
+      resourceType: 'user',
+      resourceId: req.user.id,
+    });
+
     return res.status(200).json({ message: 'Password changed successfully' });
   } catch (error) {
     console.error('Error changing password:', error);
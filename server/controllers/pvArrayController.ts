@@ -0,0 +1,209 @@
+import { Request, Response } from 'express';
+import { z, ZodError } from 'zod';
+import { insertPvArraySchema, type PvArray } from '@shared/schema';
+import { storage } from '../storage';
+import { getExpectedProduction, getSitePvSetup, getSiteWeatherLookup } from '../services/pvProductionService';
+
+const siteLocationSchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+  elevation: z.coerce.number().min(-500).max(9000).optional(),
+});
+
+const pvArrayBodySchema = insertPvArraySchema.omit({ siteId: true });
+
+const expectedProductionQuerySchema = z.object({
+  start: z.coerce.date().optional(),
+  end: z.coerce.date().optional(),
+}).refine(
+  (period) => !period.start || !period.end || period.start < period.end,
+  { message: 'start must be before end' }
+);
+
+// Longest period returned hour by hour
+const MAX_EXPECTED_PRODUCTION_DAYS = 31;
+
+// Numeric columns are stored as strings
+function toColumnValues(data: Record<string, unknown>): Partial<PvArray> {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, typeof value === 'number' ? String(value) : value])
+  ) as Partial<PvArray>;
+}
+
+// Set the coordinates and elevation of a site
+export const updateSiteLocation = async (req: Request, res: Response) => {
+  try {
+    const siteId = parseInt(req.params.siteId);
+
+    if (isNaN(siteId)) {
+      return res.status(400).json({ message: 'Invalid site ID' });
+    }
+
+    const location = siteLocationSchema.parse(req.body);
+    const site = await storage.updateSite(siteId, {
+      latitude: String(location.latitude),
+      longitude: String(location.longitude),
+      elevation: location.elevation !== undefined ? String(location.elevation) : null,
+    });
+
+    if (!site) {
+      return res.status(404).json({ message: 'Site not found' });
+    }
+
+    res.json(site);
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid site location', errors: error.errors });
+    }
+    console.error('Error updating site location:', error);
+    res.status(500).json({ message: 'Failed to update site location', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Get the PV arrays of a site
+export const getPvArrays = async (req: Request, res: Response) => {
+  try {
+    const siteId = parseInt(req.params.siteId);
+
+    if (isNaN(siteId)) {
+      return res.status(400).json({ message: 'Invalid site ID' });
+    }
+
+    res.json(await storage.getPvArrays(siteId));
+  } catch (error: any) {
+    console.error('Error fetching PV arrays:', error);
+    res.status(500).json({ message: 'Failed to fetch PV arrays', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Add a PV array to a site
+export const createPvArray = async (req: Request, res: Response) => {
+  try {
+    const siteId = parseInt(req.params.siteId);
+
+    if (isNaN(siteId)) {
+      return res.status(400).json({ message: 'Invalid site ID' });
+    }
+
+    const site = await storage.getSite(siteId);
+
+    if (!site) {
+      return res.status(404).json({ message: 'Site not found' });
+    }
+
+    const data = pvArrayBodySchema.parse(req.body);
+    const pvArray = await storage.createPvArray({ ...data, siteId });
+
+    res.status(201).json(pvArray);
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid PV array', errors: error.errors });
+    }
+    console.error('Error creating PV array:', error);
+    res.status(500).json({ message: 'Failed to create PV array', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Update a PV array
+export const updatePvArray = async (req: Request, res: Response) => {
+  try {
+    const pvArrayId = parseInt(req.params.id);
+
+    if (isNaN(pvArrayId)) {
+      return res.status(400).json({ message: 'Invalid PV array ID' });
+    }
+
+    const data = pvArrayBodySchema.partial().parse(req.body);
+    const pvArray = await storage.updatePvArray(pvArrayId, toColumnValues(data));
+
+    if (!pvArray) {
+      return res.status(404).json({ message: 'PV array not found' });
+    }
+
+    res.json(pvArray);
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid PV array', errors: error.errors });
+    }
+    console.error('Error updating PV array:', error);
+    res.status(500).json({ message: 'Failed to update PV array', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Delete a PV array
+export const deletePvArray = async (req: Request, res: Response) => {
+  try {
+    const pvArrayId = parseInt(req.params.id);
+
+    if (isNaN(pvArrayId)) {
+      return res.status(400).json({ message: 'Invalid PV array ID' });
+    }
+
+    const deleted = await storage.deletePvArray(pvArrayId);
+
+    if (!deleted) {
+      return res.status(404).json({ message: 'PV array not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting PV array:', error);
+    res.status(500).json({ message: 'Failed to delete PV array', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Get hourly clear-sky and weather-adjusted PV production for a period,
+// defaulting to the next 24 hours
+export const getExpectedPvProduction = async (req: Request, res: Response) => {
+  try {
+    const siteId = parseInt(req.params.siteId);
+
+    if (isNaN(siteId)) {
+      return res.status(400).json({ message: 'Invalid site ID' });
+    }
+
+    const query = expectedProductionQuerySchema.parse(req.query);
+    const start = query.start ?? new Date();
+    const end = query.end ?? new Date(start.getTime() + 24 * 60 * 60 * 1000);
+
+    if (end.getTime() - start.getTime() > MAX_EXPECTED_PRODUCTION_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ message: `Period cannot exceed ${MAX_EXPECTED_PRODUCTION_DAYS} days` });
+    }
+
+    const setup = await getSitePvSetup(siteId);
+
+    if (!setup) {
+      return res.status(404).json({ message: 'Site has no coordinates or PV arrays' });
+    }
+
+    // Observed weather for the past, forecasts for the future
+    const now = new Date();
+    const observed = await getSiteWeatherLookup(siteId, start, end);
+    const forecasted = await getSiteWeatherLookup(siteId, start, end, true);
+    const weather = (at: Date) => (at < now ? observed(at) : forecasted(at));
+
+    const hourly = [];
+    for (let t = start.getTime(); t < end.getTime(); t += 60 * 60 * 1000) {
+      const hourEnd = new Date(Math.min(t + 60 * 60 * 1000, end.getTime()));
+      hourly.push({
+        time: new Date(t).toISOString(),
+        ...getExpectedProduction(setup, new Date(t), hourEnd, weather),
+      });
+    }
+
+    res.json({
+      setup,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      clearSkyKwh: hourly.reduce((sum, hour) => sum + hour.clearSkyKwh, 0),
+      expectedKwh: hourly.reduce((sum, hour) => sum + hour.expectedKwh, 0),
+      hourly,
+    });
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid period', errors: error.errors });
+    }
+    console.error('Error calculating expected PV production:', error);
+    res.status(500).json({ message: 'Failed to calculate expected PV production', error: error?.message || 'Unknown error' });
+  }
+};
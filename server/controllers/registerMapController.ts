@@ -0,0 +1,134 @@
+import { Request, Response } from 'express';
+import { db } from '../db';
+import { storage } from '../storage';
+import { deviceCatalog } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import {
+  exportRegisterMap,
+  getCatalogRegisters,
+  getDeviceModbusConfig,
+  importRegisterMap,
+  RegisterMapImportError,
+  type RegisterMapFormat,
+} from '../services/registerMapService';
+
+async function findCatalogModel(id: number) {
+  const [model] = await db.select().from(deviceCatalog).where(eq(deviceCatalog.id, id));
+  return model;
+}
+
+// Format from the query, else from the request's content type
+function getFormat(req: Request): RegisterMapFormat | null {
+  const format = (req.query.format as string | undefined)?.toLowerCase();
+  if (format) return format === 'csv' || format === 'json' ? format : null;
+  return req.is('text/csv') || req.is('text/plain') ? 'csv' : 'json';
+}
+
+// Get the registers of a device catalog model
+export const getCatalogModelRegisters = async (req: Request, res: Response) => {
+  try {
+    const deviceCatalogId = parseInt(req.params.id);
+
+    if (isNaN(deviceCatalogId)) {
+      return res.status(400).json({ message: 'Invalid device catalog ID' });
+    }
+
+    if (!(await findCatalogModel(deviceCatalogId))) {
+      return res.status(404).json({ message: 'Device model not found' });
+    }
+
+    res.json(await getCatalogRegisters(deviceCatalogId));
+  } catch (error) {
+    console.error('Error fetching catalog registers:', error);
+    res.status(500).json({ message: 'Failed to fetch catalog registers' });
+  }
+};
+
+// Download the register map of a device catalog model as CSV or JSON
+export const exportCatalogRegisterMap = async (req: Request, res: Response) => {
+  try {
+    const deviceCatalogId = parseInt(req.params.id);
+    const format = getFormat(req);
+
+    if (isNaN(deviceCatalogId)) {
+      return res.status(400).json({ message: 'Invalid device catalog ID' });
+    }
+
+    if (!format) {
+      return res.status(400).json({ message: 'Format must be csv or json' });
+    }
+
+    const model = await findCatalogModel(deviceCatalogId);
+    if (!model) {
+      return res.status(404).json({ message: 'Device model not found' });
+    }
+
+    const content = await exportRegisterMap(deviceCatalogId, format);
+    const filename = `${model.modelNumber.replace(/[^A-Za-z0-9._-]+/g, '_')}_registers.${format}`;
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv' : 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
+    res.send(content);
+  } catch (error) {
+    console.error('Error exporting register map:', error);
+    res.status(500).json({ message: 'Failed to export register map' });
+  }
+};
+
+// Import a register map into a device catalog model; ?replace=true deletes registers not in the import
+export const importCatalogRegisterMap = async (req: Request, res: Response) => {
+  try {
+    const deviceCatalogId = parseInt(req.params.id);
+    const format = getFormat(req);
+
+    if (isNaN(deviceCatalogId)) {
+      return res.status(400).json({ message: 'Invalid device catalog ID' });
+    }
+
+    if (!format) {
+      return res.status(400).json({ message: 'Format must be csv or json' });
+    }
+
+    if (!(await findCatalogModel(deviceCatalogId))) {
+      return res.status(404).json({ message: 'Device model not found' });
+    }
+
+    const result = await importRegisterMap(deviceCatalogId, format, req.body, {
+      replace: req.query.replace === 'true',
+    });
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof RegisterMapImportError) {
+      return res.status(400).json({ message: error.message, errors: error.errors });
+    }
+    console.error('Error importing register map:', error);
+    res.status(500).json({ message: 'Failed to import register map' });
+  }
+};
+
+// Get the Modbus polling config of a device generated from its catalog model
+export const getDeviceModbusPollingConfig = async (req: Request, res: Response) => {
+  try {
+    const deviceId = parseInt(req.params.deviceId);
+
+    if (isNaN(deviceId)) {
+      return res.status(400).json({ message: 'Invalid device ID' });
+    }
+
+    const device = await storage.getDevice(deviceId);
+    if (!device) {
+      return res.status(404).json({ message: 'Device not found' });
+    }
+
+    const config = await getDeviceModbusConfig(device);
+    if (config.deviceCatalogId === null) {
+      return res.status(404).json({ message: 'Device is not linked to a catalog model' });
+    }
+
+    res.json(config);
+  } catch (error) {
+    console.error('Error generating Modbus config:', error);
+    res.status(500).json({ message: 'Failed to generate Modbus config' });
+  }
+};
@@ -2,7 +2,15 @@ import { Request, Response } from 'express';
 import { storage } from '../storage';
 import { db } from '../db';
 import { tariffs, devices } from '@shared/schema';
+import { TariffDefinitionSchema, type TariffDefinitionInput, type TariffSeasonInput } from '@shared/tariffSchema';
 import { eq } from 'drizzle-orm';
+import { ZodError } from 'zod';
+import { getSiteTariffContext, getTariffDefinition, resolveRate } from '../services/tariffEngine';
+
+// Validate a declarative tariff definition before it is stored in scheduleData
+function parseTariffDefinition(scheduleData: unknown) {
+  return scheduleData == null ? null : TariffDefinitionSchema.parse(scheduleData);
+}
 
 // Get all tariffs for a site
 export const getTariffs = async (req: Request, res: Response) => {
@@ -38,14 +46,15 @@ export const getTariffBySite = async (req: Request, res: Response) => {
     }
     
     // Return the first tariff for now (in the future, we might allow multiple tariffs)
-    res.json(siteTariffs[0]);
+    const tariff = siteTariffs[0];
+    res.json({ ...tariff, definition: getTariffDefinition(tariff) });
   } catch (error: any) {
     console.error('Error fetching tariff:', error);
     res.status(500).json({ message: 'Failed to fetch tariff', error: error?.message || 'Unknown error' });
   }
 };
 
-// Get current tariff rate based on time of day
+// Get current tariff rate based on the site's local time
 export const getCurrentTariffRate = async (req: Request, res: Response) => {
   try {
     const siteId = parseInt(req.params.siteId);
@@ -54,60 +63,22 @@ export const getCurrentTariffRate = async (req: Request, res: Response) => {
       return res.status(400).json({ message: 'Invalid site ID' });
     }
     
-    const siteTariffs = await storage.getTariffs(siteId);
+    const context = await getSiteTariffContext(siteId);
     
-    if (!siteTariffs || siteTariffs.length === 0) {
+    if (!context) {
       return res.status(404).json({ message: 'No tariff found for this site' });
     }
     
-    const tariff = siteTariffs[0];
+    // Resolve the rate in the site's local time
     const now = new Date();
-    
-    // Default to the regular import rate
-    let rate = Number(tariff.importRate);
-    let period = 'Standard Rate';
-    
-    // If it's a time-of-use tariff, determine the current rate based on time of day
-    if (tariff.isTimeOfUse && tariff.scheduleData) {
-      const schedule = tariff.scheduleData as Record<string, Record<string, number>>;
-      const hours = now.getHours();
-      
-      // Determine the current season
-      const month = now.getMonth() + 1; // JavaScript months are 0-indexed
-      
-      let currentSeason;
-      if (month >= 6 && month <= 9) {
-        currentSeason = 'summer'; // June-September
-      } else if (month >= 10 && month <= 11) {
-        currentSeason = 'autumn'; // October-November
-      } else if (month >= 3 && month <= 5) {
-        currentSeason = 'spring'; // March-May
-      } else {
-        currentSeason = 'winter'; // December-February
-      }
-      
-      const seasonSchedule = schedule[currentSeason];
-      
-      if (seasonSchedule) {
-        if (hours >= 17 && hours < 22) {
-          rate = Number(seasonSchedule.peak) || Number(rate);
-          period = 'Peak (17:00-22:00)';
-        } else if ((hours >= 7 && hours < 17) || (hours >= 22 && hours < 23)) {
-          rate = Number(seasonSchedule.shoulder) || Number(rate);
-          period = 'Shoulder (7:00-17:00, 22:00-23:00)';
-        } else {
-          rate = Number(seasonSchedule.offPeak) || Number(rate);
-          period = 'Off-Peak (23:00-7:00)';
-        }
-      }
-    }
+    const rate = resolveRate(context, now);
     
     res.json({
-      rate,
-      period,
+      ...rate,
+      rate: rate.importRate,
       timestamp: now,
-      isTimeOfUse: tariff.isTimeOfUse,
-      currency: tariff.currency
+      isTimeOfUse: context.tariff.isTimeOfUse,
+      region: context.definition.region ?? null
     });
   } catch (error: any) {
     console.error('Error fetching current tariff rate:', error);
@@ -137,10 +108,14 @@ export const createTariff = async (req: Request, res: Response) => {
       ...req.body,
       importRate: parseFloat(req.body.importRate) || 0,
       exportRate: parseFloat(req.body.exportRate) || 0,
+      scheduleData: parseTariffDefinition(req.body.scheduleData),
     });
     
     res.status(201).json(tariff);
   } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid tariff definition', errors: error.errors });
+    }
     console.error('Error creating tariff:', error);
     res.status(500).json({ message: 'Failed to create tariff', error: error?.message || 'Unknown error' });
   }
@@ -176,16 +151,72 @@ export const updateTariff = async (req: Request, res: Response) => {
       updateData.exportRate = parseFloat(req.body.exportRate);
     }
     
+    if (req.body.scheduleData !== undefined) {
+      updateData.scheduleData = parseTariffDefinition(req.body.scheduleData);
+    }
+    
     // Update the tariff
     const updatedTariff = await storage.updateTariff(tariffId, updateData);
     
     res.json(updatedTariff);
   } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid tariff definition', errors: error.errors });
+    }
     console.error('Error updating tariff:', error);
     res.status(500).json({ message: 'Failed to update tariff', error: error?.message || 'Unknown error' });
   }
 };
 
+// Israeli TOU season: weekday peak 17:00-22:00, no peak at weekends or on holidays
+const israeliTouSeason = (
+  name: string,
+  startMonth: number,
+  endMonth: number,
+  endDay: number,
+  rates: { peak: number; shoulder: number; offPeak: number }
+): TariffSeasonInput => ({
+  name,
+  startMonth,
+  startDay: 1,
+  endMonth,
+  endDay,
+  periods: [
+    { name: 'Peak', type: 'peak', startTime: '17:00', endTime: '22:00', dayTypes: ['weekday'], importRate: rates.peak },
+    { name: 'Shoulder', type: 'shoulder', startTime: '07:00', endTime: '17:00', dayTypes: ['weekday'], importRate: rates.shoulder },
+    { name: 'Shoulder', type: 'shoulder', startTime: '22:00', endTime: '23:00', dayTypes: ['weekday'], importRate: rates.shoulder },
+    { name: 'Shoulder', type: 'shoulder', startTime: '17:00', endTime: '22:00', dayTypes: ['weekend', 'holiday'], importRate: rates.shoulder },
+    { name: 'Off-Peak', type: 'off_peak', startTime: '23:00', endTime: '07:00', dayTypes: ['weekday'], importRate: rates.offPeak },
+    { name: 'Off-Peak', type: 'off_peak', startTime: '22:00', endTime: '17:00', dayTypes: ['weekend', 'holiday'], importRate: rates.offPeak }
+  ]
+});
+
+// Israeli Electric Corporation TOU definition (April 2025 rates, ILS).
+// The weekend is Friday-Saturday and holidays are billed like weekends;
+// holiday dates follow the Hebrew calendar and are generated for each year.
+const israeliTouDefinition: TariffDefinitionInput = {
+  version: 1,
+  region: 'IL',
+  weekendDays: [5, 6],
+  holidayCalendar: 'IL',
+  seasons: [
+    // Summer (June-September) - Higher due to AC usage
+    israeliTouSeason('summer', 6, 9, 30, { peak: 0.92, shoulder: 0.58, offPeak: 0.32 }),
+    // Transition seasons (October-November, March-May)
+    israeliTouSeason('autumn', 10, 11, 30, { peak: 0.59, shoulder: 0.46, offPeak: 0.27 }),
+    // Winter (December-February) - Evenings with heating
+    israeliTouSeason('winter', 12, 2, 29, { peak: 0.68, shoulder: 0.49, offPeak: 0.29 }),
+    israeliTouSeason('spring', 3, 5, 31, { peak: 0.59, shoulder: 0.46, offPeak: 0.27 })
+  ]
+};
+
+// Flat Israeli tariffs only carry the market and calendar
+const israeliStaticDefinition: TariffDefinitionInput = {
+  version: 1,
+  region: 'IL',
+  weekendDays: [5, 6]
+};
+
 // Create Israeli tariff data for a site
 export const createIsraeliTariffData = async (siteId: number) => {
   try {
@@ -212,31 +243,7 @@ export const createIsraeliTariffData = async (siteId: number) => {
       isTimeOfUse: true,
       currency: 'ILS',
       dataIntervalSeconds: 60,
-      scheduleData: {
-        // Summer rates (June-September) - Higher due to AC usage
-        summer: {
-          peak: 0.92,     // Peak: 17:00-22:00 (High demand period)
-          shoulder: 0.58, // Shoulder: 7:00-17:00, 22:00-23:00
-          offPeak: 0.32   // Off-peak: 23:00-7:00
-        },
-        // Winter rates (December-February)
-        winter: {
-          peak: 0.68,     // Peak: 17:00-22:00 (Evenings with heating)
-          shoulder: 0.49, // Shoulder: 7:00-17:00, 22:00-23:00
-          offPeak: 0.29   // Off-peak: 23:00-7:00
-        },
-        // Transition seasons (March-May, October-November)
-        spring: {
-          peak: 0.59,     // Peak: 17:00-22:00
-          shoulder: 0.46, // Shoulder: 7:00-17:00, 22:00-23:00
-          offPeak: 0.27   // Off-peak: 23:00-7:00
-        },
-        autumn: {
-          peak: 0.59,     // Peak: 17:00-22:00
-          shoulder: 0.46, // Shoulder: 7:00-17:00, 22:00-23:00
-          offPeak: 0.27   // Off-peak: 23:00-7:00
-        }
-      }
+      scheduleData: israeliTouDefinition
     };
     
     // Create the Israeli tariff in the database
@@ -273,7 +280,8 @@ export const createIsraeliLVTariffData = async (siteId: number) => {
       exportRate: 0.23, // Feed-in tariff for solar in ILS
       isTimeOfUse: false,
       currency: 'ILS',
-      dataIntervalSeconds: 60
+      dataIntervalSeconds: 60,
+      scheduleData: israeliStaticDefinition
     };
     
     // Create the Israeli LV tariff in the database
@@ -310,7 +318,8 @@ export const createIsraeliHVTariffData = async (siteId: number) => {
       exportRate: 0.23, // Feed-in tariff for solar in ILS
       isTimeOfUse: false,
       currency: 'ILS',
-      dataIntervalSeconds: 60
+      dataIntervalSeconds: 60,
+      scheduleData: israeliStaticDefinition
     };
     
     // Create the Israeli HV tariff in the database
@@ -7,7 +7,12 @@
 
 import { Request, Response } from 'express';
 import { storage } from '../storage';
-import { getTariffInfoForSite, generateTariffBasedRecommendations } from '../utils/tariffOptimizationUtils';
+import {
+  getTariffInfoForSite,
+  generateTariffBasedRecommendations,
+  calculateArbitrageSavings,
+  isArbitrageProfitable
+} from '../utils/tariffOptimizationUtils';
 import { getAIOptimizationService } from '../services/aiOptimizationService';
 import { OptimizationResult } from '../services/aiOptimizationService';
 
@@ -205,51 +210,31 @@ export const getTariffOptimizationSummary = async (req: Request, res: Response)
     
     // Analyze optimization potential based on tariff and devices
     if (tariffInfo.isTimeOfUse) {
-      // Calculate rate differentials
-      const scheduleData = tariffInfo.scheduleData;
+      // Calculate rate differentials for the season in effect at the site
+      const peakRate = tariffInfo.seasonRates.peak;
+      const offPeakRate = tariffInfo.seasonRates.offPeak;
+      const rateDifferential = peakRate - offPeakRate;
       
-      if (scheduleData) {
-        // Get current season
-        const month = new Date().getMonth() + 1;
-        let currentSeason;
-        
-        if (month >= 6 && month <= 9) {
-          currentSeason = 'summer';
-        } else if (month >= 10 && month <= 11) {
-          currentSeason = 'autumn';
-        } else if (month >= 3 && month <= 5) {
-          currentSeason = 'spring';
-        } else {
-          currentSeason = 'winter';
-        }
-        
-        const seasonRates = scheduleData[currentSeason];
-        if (seasonRates) {
-          const peakRate = seasonRates.peak;
-          const offPeakRate = seasonRates.offPeak;
-          const rateDifferential = peakRate - offPeakRate;
-          
-          // Israeli tariffs have particularly large differentials
-          const isLargeDifferential = rateDifferential > 0.3; // More than 0.3 ILS difference
-          
-          if (hasBattery && isLargeDifferential) {
-            summary.optimizationPotential.batteryArbitrage = true;
-            summary.optimizationPotential.estimatedMonthlySavings += hasBattery ? 
-              estimateBatteryArbitrageSavings(peakRate, offPeakRate, tariffInfo.isIsraeliTariff) : 0;
-          }
-          
-          if (hasEVCharger && isLargeDifferential) {
-            summary.optimizationPotential.evSmartCharging = true;
-            summary.optimizationPotential.estimatedMonthlySavings += hasEVCharger ? 
-              estimateEVChargingSavings(peakRate, offPeakRate, tariffInfo.isIsraeliTariff) : 0;
-          }
-          
-          if (hasHeatPump && isLargeDifferential) {
-            summary.optimizationPotential.heatPumpOptimization = true;
-            summary.optimizationPotential.estimatedMonthlySavings += hasHeatPump ? 
-              estimateHeatPumpSavings(peakRate, offPeakRate, tariffInfo.isIsraeliTariff) : 0;
-          }
-        }
+      // Israeli tariffs have particularly large differentials
+      const isLargeDifferential = rateDifferential > 0.3; // More than 0.3 ILS difference
+      
+      // The spread has to pay for the battery wear as well
+      if (hasBattery && isLargeDifferential && isArbitrageProfitable(tariffInfo)) {
+        summary.optimizationPotential.batteryArbitrage = true;
+        summary.optimizationPotential.estimatedMonthlySavings += hasBattery ? 
+          estimateBatteryArbitrageSavings(peakRate, offPeakRate, tariffInfo.isIsraeliTariff) : 0;
+      }
+      
+      if (hasEVCharger && isLargeDifferential) {
+        summary.optimizationPotential.evSmartCharging = true;
+        summary.optimizationPotential.estimatedMonthlySavings += hasEVCharger ? 
+          estimateEVChargingSavings(peakRate, offPeakRate, tariffInfo.isIsraeliTariff) : 0;
+      }
+      
+      if (hasHeatPump && isLargeDifferential) {
+        summary.optimizationPotential.heatPumpOptimization = true;
+        summary.optimizationPotential.estimatedMonthlySavings += hasHeatPump ? 
+          estimateHeatPumpSavings(peakRate, offPeakRate, tariffInfo.isIsraeliTariff) : 0;
       }
     }
     
@@ -382,13 +367,13 @@ export const applyTariffStrategy = async (req: Request, res: Response) => {
 
 // Helper functions for estimating savings
 function estimateBatteryArbitrageSavings(peakRate: number, offPeakRate: number, isIsraeliTariff: boolean): number {
-  // Assuming 10 kWh daily arbitrage with 85% efficiency
+  // Assuming a 10 kWh battery cycled daily with 85% efficiency, net of its wear
   const batteryCapacity = 10;
   const roundTripEfficiency = 0.85;
   const dailyArbitrageCycles = 1;
   const daysPerMonth = 30;
   
-  const savingsPerCycle = batteryCapacity * (peakRate - (offPeakRate / roundTripEfficiency));
+  const savingsPerCycle = Math.max(calculateArbitrageSavings(batteryCapacity, roundTripEfficiency, peakRate, offPeakRate), 0);
   const monthlySavings = savingsPerCycle * dailyArbitrageCycles * daysPerMonth;
   
   // Israeli tariffs have larger peak-to-offpeak differentials, especially in summer
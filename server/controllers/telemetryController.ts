@@ -0,0 +1,61 @@
+import { Request, Response } from 'express';
+import { processDeviceTelemetry } from '../services/deviceService';
+import { getQuarantinedSamples } from '../services/telemetryIngestionService';
+
+const DEFAULT_QUARANTINE_HOURS = 24;
+const MAX_QUARANTINE_HOURS = 24 * 30;
+const DEFAULT_QUARANTINE_LIMIT = 100;
+const MAX_QUARANTINE_LIMIT = 1000;
+
+// Ingest a telemetry message of a device: one sample, or several under `samples`
+export const ingestDeviceTelemetry = async (req: Request, res: Response) => {
+  try {
+    const deviceId = parseInt(req.params.deviceId);
+
+    if (isNaN(deviceId)) {
+      return res.status(400).json({ message: 'Invalid device ID' });
+    }
+
+    if (!req.body || typeof req.body !== 'object') {
+      return res.status(400).json({ message: 'Telemetry must be a JSON object' });
+    }
+
+    const result = await processDeviceTelemetry(deviceId, req.body);
+    if (!result) {
+      return res.status(404).json({ message: 'Device not found or telemetry could not be processed' });
+    }
+
+    // Accepted readings are written with the next batch
+    res.status(202).json(result);
+  } catch (error: any) {
+    console.error('Error ingesting device telemetry:', error);
+    res.status(500).json({ message: 'Failed to ingest telemetry', error: error?.message || 'Unknown error' });
+  }
+};
+
+// Get the telemetry samples of a device rejected by validation, newest first
+export const getDeviceTelemetryQuarantine = async (req: Request, res: Response) => {
+  try {
+    const deviceId = parseInt(req.params.deviceId);
+    const hours = req.query.hours ? parseInt(req.query.hours as string) : DEFAULT_QUARANTINE_HOURS;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : DEFAULT_QUARANTINE_LIMIT;
+
+    if (isNaN(deviceId)) {
+      return res.status(400).json({ message: 'Invalid device ID' });
+    }
+
+    if (isNaN(hours) || hours <= 0 || hours > MAX_QUARANTINE_HOURS) {
+      return res.status(400).json({ message: `Hours must be between 1 and ${MAX_QUARANTINE_HOURS}` });
+    }
+
+    if (isNaN(limit) || limit <= 0 || limit > MAX_QUARANTINE_LIMIT) {
+      return res.status(400).json({ message: `Limit must be between 1 and ${MAX_QUARANTINE_LIMIT}` });
+    }
+
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+    res.json(await getQuarantinedSamples(deviceId, since, limit));
+  } catch (error: any) {
+    console.error('Error fetching quarantined telemetry:', error);
+    res.status(500).json({ message: 'Failed to fetch quarantined telemetry', error: error?.message || 'Unknown error' });
+  }
+};
@@ -7,6 +7,8 @@ import { Request, Response } from 'express';
 import { getVPPService } from '../services/vppService';
 import { getSiteManagementService } from '../services/siteManagementService';
 import { getMqttService } from '../services/mqttService';
+import { getDispatchStatus } from '../services/vppDispatchService';
+import { VPPRecordInUseError } from '../vppStorage';
 
 export class VPPController {
   /**
@@ -15,7 +17,7 @@ export class VPPController {
   static async getAllPrograms(req: Request, res: Response) {
     try {
       const vppService = getVPPService();
-      const programs = vppService.getAllPrograms();
+      const programs = await vppService.getAllPrograms();
       
       res.status(200).json(programs);
     } catch (error) {
@@ -30,7 +32,7 @@ export class VPPController {
   static async getActivePrograms(req: Request, res: Response) {
     try {
       const vppService = getVPPService();
-      const programs = vppService.getActivePrograms();
+      const programs = await vppService.getActivePrograms();
       
       res.status(200).json(programs);
     } catch (error) {
@@ -50,7 +52,7 @@ export class VPPController {
       }
       
       const vppService = getVPPService();
-      const program = vppService.getProgram(programId);
+      const program = await vppService.getProgram(programId);
       
       if (!program) {
         return res.status(404).json({ error: 'Program not found' });
@@ -69,7 +71,7 @@ export class VPPController {
   static async createProgram(req: Request, res: Response) {
     try {
       const vppService = getVPPService();
-      const program = vppService.createProgram(req.body);
+      const program = await vppService.createProgram(req.body);
       
       res.status(201).json(program);
     } catch (error) {
@@ -89,7 +91,7 @@ export class VPPController {
       }
       
       const vppService = getVPPService();
-      const updatedProgram = vppService.updateProgram(programId, req.body);
+      const updatedProgram = await vppService.updateProgram(programId, req.body);
       
       if (!updatedProgram) {
         return res.status(404).json({ error: 'Program not found' });
@@ -113,7 +115,7 @@ export class VPPController {
       }
       
       const vppService = getVPPService();
-      const success = vppService.deleteProgram(programId);
+      const success = await vppService.deleteProgram(programId);
       
       if (!success) {
         return res.status(404).json({ error: 'Program not found' });
@@ -121,6 +123,9 @@ export class VPPController {
       
       res.status(204).send();
     } catch (error) {
+      if (error instanceof VPPRecordInUseError) {
+        return res.status(409).json({ error: error.message });
+      }
       console.error(`Error deleting VPP program ${req.params.id}:`, error);
       res.status(500).json({ error: 'Failed to delete VPP program' });
     }
@@ -137,7 +142,7 @@ export class VPPController {
       }
       
       const vppService = getVPPService();
-      const enrollments = vppService.getEnrollmentsBySite(siteId);
+      const enrollments = await vppService.getEnrollmentsBySite(siteId);
       
       res.status(200).json(enrollments);
     } catch (error) {
@@ -157,7 +162,7 @@ export class VPPController {
       }
       
       const vppService = getVPPService();
-      const enrollments = vppService.getEnrollmentsByProgram(programId);
+      const enrollments = await vppService.getEnrollmentsByProgram(programId);
       
       res.status(200).json(enrollments);
     } catch (error) {
@@ -172,7 +177,7 @@ export class VPPController {
   static async enrollSite(req: Request, res: Response) {
     try {
       const vppService = getVPPService();
-      const enrollment = vppService.enrollSite(req.body);
+      const enrollment = await vppService.enrollSite(req.body);
       
       // Notify the site about the enrollment
       const mqttService = getMqttService();
@@ -200,7 +205,7 @@ export class VPPController {
       }
       
       const vppService = getVPPService();
-      const updatedEnrollment = vppService.updateEnrollment(enrollmentId, req.body);
+      const updatedEnrollment = await vppService.updateEnrollment(enrollmentId, req.body);
       
       if (!updatedEnrollment) {
         return res.status(404).json({ error: 'Enrollment not found' });
@@ -234,14 +239,13 @@ export class VPPController {
       const vppService = getVPPService();
       
       // Get enrollment before deleting it to have the site ID for notifications
-      const enrollment = vppService.getEnrollmentsBySite(1)
-        .find(e => e.id === enrollmentId);
+      const enrollment = await vppService.getEnrollment(enrollmentId);
       
       if (!enrollment) {
         return res.status(404).json({ error: 'Enrollment not found' });
       }
       
-      const success = vppService.unenrollSite(enrollmentId);
+      const success = await vppService.unenrollSite(enrollmentId);
       
       if (!success) {
         return res.status(404).json({ error: 'Enrollment not found' });
@@ -268,7 +272,7 @@ export class VPPController {
   static async getAllEvents(req: Request, res: Response) {
     try {
       const vppService = getVPPService();
-      const events = vppService.getAllEvents();
+      const events = await vppService.getAllEvents();
       
       res.status(200).json(events);
     } catch (error) {
@@ -283,7 +287,7 @@ export class VPPController {
   static async getActiveEvents(req: Request, res: Response) {
     try {
       const vppService = getVPPService();
-      const events = vppService.getActiveEvents();
+      const events = await vppService.getActiveEvents();
       
       res.status(200).json(events);
     } catch (error) {
@@ -298,7 +302,7 @@ export class VPPController {
   static async getUpcomingEvents(req: Request, res: Response) {
     try {
       const vppService = getVPPService();
-      const events = vppService.getUpcomingEvents();
+      const events = await vppService.getUpcomingEvents();
       
       res.status(200).json(events);
     } catch (error) {
@@ -318,7 +322,7 @@ export class VPPController {
       }
       
       const vppService = getVPPService();
-      const events = vppService.getEventsBySite(siteId);
+      const events = await vppService.getEventsBySite(siteId);
       
       res.status(200).json(events);
     } catch (error) {
@@ -338,7 +342,7 @@ export class VPPController {
       }
       
       const vppService = getVPPService();
-      const events = vppService.getEventsByProgram(programId);
+      const events = await vppService.getEventsByProgram(programId);
       
       res.status(200).json(events);
     } catch (error) {
@@ -353,7 +357,7 @@ export class VPPController {
   static async createEvent(req: Request, res: Response) {
     try {
       const vppService = getVPPService();
-      const event = vppService.createEvent(req.body);
+      const event = await vppService.createEvent(req.body);
       
       // No need to explicitly notify sites here as the createEvent method
       // already handles notifications unless explicitly disabled
@@ -376,14 +380,13 @@ export class VPPController {
       }
       
       const vppService = getVPPService();
-      const existingEvent = vppService.getEventsBySite(1)
-        .find(e => e.id === eventId);
+      const existingEvent = await vppService.getEvent(eventId);
       
       if (!existingEvent) {
         return res.status(404).json({ error: 'Event not found' });
       }
       
-      const updatedEvent = vppService.updateEvent(eventId, req.body);
+      const updatedEvent = await vppService.updateEvent(eventId, req.body);
       
       if (!updatedEvent) {
         return res.status(404).json({ error: 'Event not found' });
@@ -417,7 +420,7 @@ export class VPPController {
       }
       
       const vppService = getVPPService();
-      const updatedEvent = vppService.cancelEvent(eventId);
+      const updatedEvent = await vppService.cancelEvent(eventId);
       
       if (!updatedEvent) {
         return res.status(404).json({ error: 'Event not found or cannot be cancelled' });
@@ -443,7 +446,7 @@ export class VPPController {
       }
       
       const vppService = getVPPService();
-      const participation = vppService.acceptEvent(eventId, siteId, req.body.capacity);
+      const participation = await vppService.acceptEvent(eventId, siteId, req.body.capacity);
       
       if (!participation) {
         return res.status(404).json({ error: 'Event not found, not upcoming, or site not enrolled' });
@@ -469,7 +472,7 @@ export class VPPController {
       }
       
       const vppService = getVPPService();
-      const participation = vppService.rejectEvent(eventId, siteId);
+      const participation = await vppService.rejectEvent(eventId, siteId);
       
       if (!participation) {
         return res.status(404).json({ error: 'Event not found, not upcoming, or site not enrolled' });
@@ -493,7 +496,7 @@ export class VPPController {
       }
       
       const vppService = getVPPService();
-      const participations = vppService.getParticipationsByEvent(eventId);
+      const participations = await vppService.getParticipationsByEvent(eventId);
       
       res.status(200).json(participations);
     } catch (error) {
@@ -513,7 +516,7 @@ export class VPPController {
       }
       
       const vppService = getVPPService();
-      const participations = vppService.getParticipationsBySite(siteId);
+      const participations = await vppService.getParticipationsBySite(siteId);
       
       res.status(200).json(participations);
     } catch (error) {
@@ -533,7 +536,7 @@ export class VPPController {
       }
       
       const vppService = getVPPService();
-      const metrics = vppService.getMetricsByParticipation(participationId);
+      const metrics = await vppService.getMetricsByParticipation(participationId);
       
       res.status(200).json(metrics);
     } catch (error) {
@@ -553,7 +556,7 @@ export class VPPController {
       }
       
       const vppService = getVPPService();
-      const metrics = vppService.getLatestMetricsByParticipation(participationId);
+      const metrics = await vppService.getLatestMetricsByParticipation(participationId);
       
       if (!metrics) {
         return res.status(404).json({ error: 'No metrics found for this participation' });
@@ -565,4 +568,27 @@ export class VPPController {
       res.status(500).json({ error: 'Failed to retrieve latest participation metrics' });
     }
   }
+  
+  /**
+   * Get the live dispatch of a running participation
+   */
+  static async getParticipationDispatch(req: Request, res: Response) {
+    try {
+      const participationId = parseInt(req.params.participationId);
+      if (isNaN(participationId)) {
+        return res.status(400).json({ error: 'Invalid participation ID' });
+      }
+      
+      const dispatch = getDispatchStatus(participationId);
+      
+      if (!dispatch) {
+        return res.status(404).json({ error: 'Participation is not being dispatched' });
+      }
+      
+      res.status(200).json(dispatch);
+    } catch (error) {
+      console.error(`Error getting dispatch for participation ${req.params.participationId}:`, error);
+      res.status(500).json({ error: 'Failed to retrieve participation dispatch' });
+    }
+  }
 }
\ No newline at end of file
@@ -61,13 +61,6 @@ export {
   mqttService
 } from './mqttService';
 
-export {
-  WebSocketService,
-  EnhancedWebSocket,
-  WebSocketMessageHandler,
-  webSocketService
-} from './webSocketService';
-
 export {
   DatabaseService,
   databaseService
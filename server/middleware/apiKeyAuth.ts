@@ -0,0 +1,136 @@
+/**
+ * API Key Authentication Middleware
+ *
+ * Accepts API keys alongside session authentication. When a request carries a
+ * key (via `Authorization: Bearer <key>.<secret>` or `X-API-Key`), the key is
+ * verified, its scope is checked against the requested resource and the key's
+ * owner is attached as `req.user` so existing role checks keep working.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import type { IncomingHttpHeaders } from 'http';
+import {
+  API_KEY_SCOPES,
+  verifyApiKey,
+  isScopeAllowed,
+  getEffectiveRole,
+  type ApiKeyAccessLevel,
+  type ApiKeyAction
+} from '../services/apiKeyService';
+
+export interface ApiKeyContext {
+  id: number;
+  name: string;
+  accessLevel: ApiKeyAccessLevel;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKeyContext;
+    }
+  }
+}
+
+// Path segments that mark a request as a device control operation
+const CONTROL_SEGMENTS = ['command', 'commands', 'control', 'ocpp', 'eebus'];
+
+// Path segments that name a scoped resource, including the singular forms used by nested routes
+const RESOURCE_SEGMENTS: Record<string, string> = {
+  ...Object.fromEntries(Object.keys(API_KEY_SCOPES).map(scope => {
+    const resource = scope.split(':')[0];
+    return [resource, resource];
+  })),
+  tariff: 'tariffs',
+  alarm: 'alarms',
+  forecast: 'forecasts',
+  report: 'reports',
+  optimize: 'optimization',
+};
+
+/**
+ * Extract an API key token from the request headers
+ */
+export function extractApiKey(req: { headers: IncomingHttpHeaders }): string | null {
+  const header = req.headers['x-api-key'];
+  if (typeof header === 'string' && header.trim()) {
+    return header.trim();
+  }
+
+  const authorization = req.headers.authorization;
+  if (authorization && authorization.startsWith('Bearer ')) {
+    return authorization.slice(7).trim() || null;
+  }
+
+  return null;
+}
+
+/**
+ * Determine the resource and action a request needs, based on its path and method
+ * (the path is relative to the /api mount point, e.g. /devices/12/commands).
+ * Nested resources such as /sites/3/alarms/current need the nested resource's scope.
+ */
+export function getRequiredScope(method: string, path: string): { resource: string; action: ApiKeyAction } {
+  const segments = path.split('/').filter(Boolean);
+  const nested = segments.slice(1).find(segment => RESOURCE_SEGMENTS[segment]);
+  const resource = nested ? RESOURCE_SEGMENTS[nested] : segments[0] || '*';
+
+  if (method === 'GET' || method === 'HEAD' || method === 'OPTIONS') {
+    return { resource, action: 'read' };
+  }
+
+  if (segments.some(segment => CONTROL_SEGMENTS.includes(segment))) {
+    return { resource, action: 'control' };
+  }
+
+  return { resource, action: 'write' };
+}
+
+/**
+ * Middleware that authenticates requests carrying an API key.
+ * Requests without a key are passed through to session authentication.
+ */
+export async function authenticateApiKey(req: Request, res: Response, next: NextFunction) {
+  const token = extractApiKey(req);
+  if (!token) {
+    return next();
+  }
+
+  try {
+    const result = await verifyApiKey(token, req.ip);
+    if (!result.valid) {
+      return res.status(result.status).json({ message: result.reason });
+    }
+
+    const { resource, action } = getRequiredScope(req.method, req.path);
+    if (!isScopeAllowed(result.apiKey, resource, action)) {
+      return res.status(403).json({ message: `API key does not grant ${resource}:${action}` });
+    }
+
+    if (result.usedPreviousSecret) {
+      res.setHeader('X-API-Key-Rotated', 'true');
+    }
+
+    req.user = { ...result.user, role: getEffectiveRole(result.apiKey, result.user) };
+    req.apiKey = {
+      id: result.apiKey.id,
+      name: result.apiKey.name,
+      accessLevel: (result.apiKey.accessLevel || 'read_only') as ApiKeyAccessLevel,
+    };
+
+    next();
+  } catch (error) {
+    console.error('Error authenticating API key:', error);
+    return res.status(500).json({ message: 'Failed to authenticate API key' });
+  }
+}
+
+/**
+ * Middleware that rejects API key authentication for routes requiring an interactive session
+ */
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (req.apiKey) {
+    return res.status(403).json({ message: 'This operation requires a user session' });
+  }
+  next();
+}
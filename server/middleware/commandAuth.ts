@@ -0,0 +1,73 @@
+/**
+ * Command Authorization Helpers
+ *
+ * Bridges Express requests and the command gateway: builds the command actor
+ * from the authenticated request and maps gateway outcomes to HTTP responses.
+ */
+
+import { Response } from 'express';
+import type { CommandActor, ApprovalOutcome } from '../services/commandGatewayService';
+import { isMfaFresh } from '../services/twoFactorService';
+
+// Request fields used to identify who issued a command
+interface CommandRequest {
+  user?: { id: number; role?: string | null; partnerId?: number | null };
+  apiKey?: unknown;
+  session?: { mfaVerifiedAt?: number };
+  sessionID?: string;
+  ip?: string;
+}
+
+/**
+ * Build the command actor for an authenticated request
+ */
+export function getCommandActor(req: CommandRequest): CommandActor {
+  return {
+    userId: req.user!.id,
+    role: req.user!.role || 'viewer',
+    partnerId: req.user!.partnerId ?? null,
+    authenticationType: req.apiKey ? 'api_key' : 'session',
+    // A second factor counts for step-up checks for a limited time after it was entered
+    usedMfa: !req.apiKey && isMfaFresh(req.session?.mfaVerifiedAt),
+    sessionId: req.apiKey ? undefined : req.sessionID,
+    sourceIp: req.ip,
+  };
+}
+
+/**
+ * Send the HTTP response for a command gateway outcome
+ */
+export function sendCommandOutcome(res: Response, outcome: ApprovalOutcome) {
+  switch (outcome.status) {
+    case 'executed':
+      return res.json({ status: outcome.status, executionId: outcome.execution.id, result: outcome.result });
+    case 'queued':
+      return res.status(202).json({
+        status: outcome.status,
+        executionId: outcome.execution.id,
+        result: outcome.result,
+        message: 'Command is queued for delivery to the device'
+      });
+    case 'pending_approval':
+      return res.status(202).json({
+        status: outcome.status,
+        executionId: outcome.execution.id,
+        message: 'Command is awaiting approval'
+      });
+    case 'denied':
+      return res.status(outcome.code === 'COOLDOWN_ACTIVE' ? 429 : 403).json({
+        status: outcome.status,
+        executionId: outcome.execution.id,
+        code: outcome.code,
+        message: outcome.reason
+      });
+    case 'failed':
+      return res.status(400).json({ status: outcome.status, executionId: outcome.execution.id, message: outcome.reason });
+    case 'not_found':
+      return res.status(404).json({ message: 'Command not found' });
+    case 'conflict':
+      return res.status(409).json({ message: outcome.reason });
+    case 'forbidden':
+      return res.status(403).json({ message: outcome.reason });
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Rate Limiting Middleware
+ *
+ * Applies the database-configured limits for a named limit key to a route and
+ * sets the standard RateLimit-* response headers.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { TooManyRequestsError } from '../core/errors';
+import { checkRateLimit } from '../services/rateLimitService';
+
+/**
+ * Create middleware enforcing the rate limit rules for a limit key
+ * @param limitKey Name of the limit in the rate_limits table (e.g. 'login')
+ */
+export function rateLimit(limitKey: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await checkRateLimit(limitKey, {
+        ipAddress: req.ip,
+        userId: req.user?.id,
+        apiKeyId: req.apiKey?.id,
+        userAgent: req.get('user-agent'),
+      });
+
+      if (!result) {
+        return next();
+      }
+
+      res.setHeader('RateLimit-Limit', result.limit);
+      res.setHeader('RateLimit-Remaining', result.remaining);
+      res.setHeader('RateLimit-Reset', result.resetSeconds);
+
+      if (result.allowed) {
+        return next();
+      }
+
+      const error = new TooManyRequestsError(
+        result.blockedUntil
+          ? `Too many requests. Try again after ${result.blockedUntil.toISOString()}`
+          : 'Too many requests. Please slow down.',
+        'RATE_LIMITED',
+        { limitKey, retryAfter: result.retryAfterSeconds, blockedUntil: result.blockedUntil }
+      );
+
+      res.setHeader('Retry-After', result.retryAfterSeconds ?? result.resetSeconds);
+      return res.status(error.statusCode).json({ message: error.message, code: error.code, details: error.details });
+    } catch (error) {
+      // Rate limiting must not take the API down with it
+      console.error(`Error checking rate limit ${limitKey}:`, error);
+      next();
+    }
+  };
+}
@@ -1,5 +1,77 @@
 import { Request, Response, NextFunction } from 'express';
 import { UserRoleSchema } from '@shared/schema';
+import { auditRoleGatedRequest, auditAccessDenied } from './securityAudit';
+import { storage, type IStorage } from '../storage';
+
+/**
+ * Outcome of a partner isolation check
+ */
+export type AccessDecision =
+  | { allowed: true }
+  | { allowed: false; status: 403 | 404; message: string };
+
+type AccessStorage = Pick<IStorage, 'getSite' | 'getDevice'>;
+
+// User fields the partner isolation checks depend on
+type AccessUser = Pick<Express.User, 'role' | 'partnerId'>;
+
+/**
+ * Check whether a user may access a partner's data
+ */
+export function checkPartnerAccess(user: Express.User, partnerId: number): AccessDecision {
+  if (user.role === 'admin' || partnerId === user.partnerId) {
+    return { allowed: true };
+  }
+  return { allowed: false, status: 403, message: 'Insufficient permissions for this partner' };
+}
+
+/**
+ * Check whether a user may access a site, which must belong to their partner
+ * unless they are an admin
+ */
+export async function checkSiteAccess(user: AccessUser, siteId: number, store: AccessStorage): Promise<AccessDecision> {
+  if (user.role === 'admin') {
+    return { allowed: true };
+  }
+
+  const site = await store.getSite(siteId);
+  if (!site) {
+    return { allowed: false, status: 404, message: 'Site not found' };
+  }
+
+  // Check if the site belongs to the user's partner
+  if (site.partnerId === user.partnerId) {
+    return { allowed: true };
+  }
+  return { allowed: false, status: 403, message: 'Insufficient permissions for this site' };
+}
+
+/**
+ * Check whether a user may access a device, whose site must belong to their
+ * partner unless they are an admin
+ */
+export async function checkDeviceAccess(user: AccessUser, deviceId: number, store: AccessStorage): Promise<AccessDecision> {
+  if (user.role === 'admin') {
+    return { allowed: true };
+  }
+
+  const device = await store.getDevice(deviceId);
+  if (!device) {
+    return { allowed: false, status: 404, message: 'Device not found' };
+  }
+
+  // Get the site the device belongs to
+  const site = await store.getSite(device.siteId);
+  if (!site) {
+    return { allowed: false, status: 404, message: 'Site not found' };
+  }
+
+  // Check if the site belongs to the user's partner
+  if (site.partnerId === user.partnerId) {
+    return { allowed: true };
+  }
+  return { allowed: false, status: 403, message: 'Insufficient permissions for this device' };
+}
 
 /**
  * Role-based authorization middleware
@@ -18,15 +90,18 @@ export function requireRole(allowedRoles: typeof UserRoleSchema._type[]) {
     
     // Always allow admins (they can do everything)
     if (userRole === 'admin') {
+      auditRoleGatedRequest(req, res);
       return next();
     }
     
     // Check if the user's role is in the allowed roles
     if (userRole && allowedRoles.includes(userRole)) {
+      auditRoleGatedRequest(req, res);
       return next();
     }
     
     // User doesn't have the required role
+    auditAccessDenied(req, `Requires one of: ${allowedRoles.join(', ')}`);
     return res.status(403).json({ message: 'Insufficient permissions' });
   };
 }
@@ -46,11 +121,8 @@ export function requirePartnerAccess(paramName: string, type: 'site' | 'partner'
       return res.status(401).json({ message: 'Authentication required' });
     }
     
-    const userRole = req.user.role;
-    const userPartnerId = req.user.partnerId;
-    
     // Admins have access to everything
-    if (userRole === 'admin') {
+    if (req.user.role === 'admin') {
       return next();
     }
     
@@ -62,26 +134,15 @@ export function requirePartnerAccess(paramName: string, type: 'site' | 'partner'
     
     // If we're checking partner access directly
     if (type === 'partner') {
-      if (resourceId === userPartnerId) {
-        return next();
-      }
-      return res.status(403).json({ message: 'Insufficient permissions for this partner' });
+      const decision = checkPartnerAccess(req.user, resourceId);
+      return decision.allowed ? next() : res.status(decision.status).json({ message: decision.message });
     }
     
     // For site access, we need to check if the site belongs to the user's partner
     if (type === 'site') {
       try {
-        const site = await req.app.locals.storage.getSite(resourceId);
-        if (!site) {
-          return res.status(404).json({ message: 'Site not found' });
-        }
-        
-        // Check if the site belongs to the user's partner
-        if (site.partnerId === userPartnerId) {
-          return next();
-        }
-        
-        return res.status(403).json({ message: 'Insufficient permissions for this site' });
+        const decision = await checkSiteAccess(req.user, resourceId, storage);
+        return decision.allowed ? next() : res.status(decision.status).json({ message: decision.message });
       } catch (error) {
         console.error('Error checking site access:', error);
         return res.status(500).json({ message: 'Error checking site access' });
@@ -107,11 +168,8 @@ export function requireDeviceAccess(paramName: string) {
       return res.status(401).json({ message: 'Authentication required' });
     }
     
-    const userRole = req.user.role;
-    const userPartnerId = req.user.partnerId;
-    
     // Admins have access to everything
-    if (userRole === 'admin') {
+    if (req.user.role === 'admin') {
       return next();
     }
     
@@ -122,24 +180,8 @@ export function requireDeviceAccess(paramName: string) {
     }
     
     try {
-      // Get the device
-      const device = await req.app.locals.storage.getDevice(deviceId);
-      if (!device) {
-        return res.status(404).json({ message: 'Device not found' });
-      }
-      
-      // Get the site the device belongs to
-      const site = await req.app.locals.storage.getSite(device.siteId);
-      if (!site) {
-        return res.status(404).json({ message: 'Site not found' });
-      }
-      
-      // Check if the site belongs to the user's partner
-      if (site.partnerId === userPartnerId) {
-        return next();
-      }
-      
-      return res.status(403).json({ message: 'Insufficient permissions for this device' });
+      const decision = await checkDeviceAccess(req.user, deviceId, storage);
+      return decision.allowed ? next() : res.status(decision.status).json({ message: decision.message });
     } catch (error) {
       console.error('Error checking device access:', error);
       return res.status(500).json({ message: 'Error checking device access' });
@@ -0,0 +1,80 @@
+/**
+ * Security Audit Middleware
+ *
+ * Helpers for recording requests in the security audit log.
+ */
+
+import { Request, Response } from 'express';
+import { recordSecurityEvent, type SecurityAuditContext } from '../services/securityAuditService';
+
+const MUTATION_ACTIONS: Record<string, string> = {
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+/**
+ * Who made a request, for audit entries
+ */
+export function getAuditContext(req: Request): SecurityAuditContext {
+  return {
+    userId: req.user?.id ?? null,
+    role: req.user?.role ?? null,
+    ipAddress: req.ip ?? null,
+    userAgent: req.get('user-agent') ?? null,
+    sessionId: req.apiKey ? null : req.sessionID ?? null,
+    authenticationType: req.apiKey ? 'api_key' : 'session',
+  };
+}
+
+/**
+ * Record a request that passed a role check once its response is sent.
+ * Only mutations are recorded; reads behind role checks are too frequent to audit.
+ */
+export function auditRoleGatedRequest(req: Request, res: Response): void {
+  const action = MUTATION_ACTIONS[req.method];
+  if (!action) {
+    return;
+  }
+
+  res.on('finish', () => {
+    const succeeded = res.statusCode < 400;
+    recordSecurityEvent({
+      ...getAuditContext(req),
+      action,
+      resourceType: getResourceType(req),
+      resourceId: getResourceId(req),
+      status: succeeded ? 'success' : 'failure',
+      failureReason: succeeded ? undefined : `HTTP ${res.statusCode}`,
+      details: { method: req.method, path: req.originalUrl.split('?')[0], statusCode: res.statusCode },
+    });
+  });
+}
+
+/**
+ * Record a request rejected by a role check
+ */
+export function auditAccessDenied(req: Request, reason: string): void {
+  recordSecurityEvent({
+    ...getAuditContext(req),
+    action: 'access_denied',
+    resourceType: getResourceType(req),
+    resourceId: getResourceId(req),
+    status: 'denied',
+    failureReason: reason,
+    details: { method: req.method, path: req.originalUrl.split('?')[0] },
+  });
+}
+
+// First path segment after /api, e.g. 'rate-limits' for /api/rate-limits/rules/3
+function getResourceType(req: Request): string {
+  const segments = req.originalUrl.split('?')[0].split('/').filter(Boolean);
+  return (segments[0] === 'api' ? segments[1] : segments[0]) || 'unknown';
+}
+
+function getResourceId(req: Request): string | null {
+  const params = req.params || {};
+  const key = Object.keys(params).find(name => name === 'id' || name.endsWith('Id'));
+  return key ? params[key] : null;
+}
@@ -0,0 +1,199 @@
+/**
+ * OCPP-J RPC
+ *
+ * JSON-over-WebSocket framing shared by OCPP 1.6J and 2.0.1: CALL,
+ * CALLRESULT and CALLERROR messages. Each side may have only one CALL
+ * outstanding, so outgoing calls are sent one at a time and incoming calls
+ * are handled in the order they arrive.
+ */
+
+import { randomUUID } from 'crypto';
+import { WebSocket } from 'ws';
+
+export const OCPP_SUBPROTOCOLS = ['ocpp2.0.1', 'ocpp1.6'] as const; // In order of preference
+export type OcppSubprotocol = typeof OCPP_SUBPROTOCOLS[number];
+export type OcppProtocolVersion = '1.6' | '2.0.1';
+
+export enum OcppMessageType {
+  CALL = 2,
+  CALLRESULT = 3,
+  CALLERROR = 4,
+}
+
+// Error codes of OCPP 2.0.1; 1.6 spells two of them differently
+export type OcppErrorCode =
+  | 'FormatViolation'
+  | 'GenericError'
+  | 'InternalError'
+  | 'NotImplemented'
+  | 'NotSupported'
+  | 'OccurrenceConstraintViolation'
+  | 'PropertyConstraintViolation'
+  | 'ProtocolError'
+  | 'SecurityError'
+  | 'TypeConstraintViolation';
+
+const OCPP16_ERROR_CODES: Partial<Record<OcppErrorCode, string>> = {
+  FormatViolation: 'FormationViolation',
+  OccurrenceConstraintViolation: 'OccurenceConstraintViolation',
+};
+
+const DEFAULT_CALL_TIMEOUT = 30000;
+
+export type OcppCallHandler = (action: string, payload: any) => Promise<object>;
+
+export class OcppRpcError extends Error {
+  constructor(public readonly code: OcppErrorCode | string, message: string, public readonly details: object = {}) {
+    super(message);
+    this.name = 'OcppRpcError';
+  }
+}
+
+export function getProtocolVersion(subprotocol: OcppSubprotocol): OcppProtocolVersion {
+  return subprotocol === 'ocpp1.6' ? '1.6' : '2.0.1';
+}
+
+/**
+ * An OCPP-J session over an open WebSocket
+ */
+export class OcppRpcConnection {
+  readonly version: OcppProtocolVersion;
+  private pending: {
+    messageId: string;
+    action: string;
+    resolve: (payload: any) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+  } | null = null;
+  private outgoing: Promise<unknown> = Promise.resolve();
+  private incoming: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly ws: WebSocket,
+    subprotocol: OcppSubprotocol,
+    private readonly handler: OcppCallHandler,
+    private readonly callTimeout: number = DEFAULT_CALL_TIMEOUT
+  ) {
+    this.version = getProtocolVersion(subprotocol);
+
+    ws.on('message', (data) => this.handleMessage(data.toString()));
+    ws.on('close', () => this.rejectPending(new Error('Connection closed')));
+  }
+
+  get isOpen(): boolean {
+    return this.ws.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Send a CALL and wait for its result. Rejects with an OcppRpcError if the
+   * charge point answers with a CALLERROR.
+   */
+  call<T = any>(action: string, payload: object): Promise<T> {
+    const result = this.outgoing.then(() => this.send<T>(action, payload));
+    this.outgoing = result.catch(() => undefined);
+    return result;
+  }
+
+  close(code: number = 1000, reason?: string): void {
+    this.ws.close(code, reason);
+  }
+
+  private send<T>(action: string, payload: object): Promise<T> {
+    if (!this.isOpen) {
+      return Promise.reject(new Error('Charge point is not connected'));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const messageId = randomUUID();
+      const timer = setTimeout(() => {
+        this.pending = null;
+        reject(new Error(`Timeout waiting for response to ${action}`));
+      }, this.callTimeout);
+
+      this.pending = { messageId, action, resolve, reject, timer };
+      this.ws.send(JSON.stringify([OcppMessageType.CALL, messageId, action, payload]), (error) => {
+        if (error) this.rejectPending(error);
+      });
+    });
+  }
+
+  private rejectPending(error: Error): void {
+    if (!this.pending) return;
+    clearTimeout(this.pending.timer);
+    this.pending.reject(error);
+    this.pending = null;
+  }
+
+  private handleMessage(data: string): void {
+    let message: unknown;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      // Without a message ID there is nothing to answer
+      console.warn(`Discarding malformed OCPP message: ${data.slice(0, 200)}`);
+      return;
+    }
+
+    if (!Array.isArray(message) || typeof message[1] !== 'string') {
+      console.warn(`Discarding malformed OCPP message: ${data.slice(0, 200)}`);
+      return;
+    }
+
+    const [messageType, messageId] = message;
+
+    switch (messageType) {
+      case OcppMessageType.CALL:
+        this.incoming = this.incoming.then(() => this.handleCall(messageId, message[2], message[3]));
+        break;
+
+      case OcppMessageType.CALLRESULT:
+        if (this.pending?.messageId === messageId) {
+          clearTimeout(this.pending.timer);
+          this.pending.resolve(message[2]);
+          this.pending = null;
+        }
+        break;
+
+      case OcppMessageType.CALLERROR:
+        if (this.pending?.messageId === messageId) {
+          const action = this.pending.action;
+          this.rejectPending(new OcppRpcError(message[2], `${action} failed: ${message[2]} ${message[3] || ''}`.trim(), message[4] || {}));
+        }
+        break;
+
+      default:
+        this.sendError(messageId, 'ProtocolError', `Unknown message type ${messageType}`);
+    }
+  }
+
+  private async handleCall(messageId: string, action: unknown, payload: unknown): Promise<void> {
+    if (typeof action !== 'string' || typeof payload !== 'object' || payload === null) {
+      this.sendError(messageId, 'FormatViolation', 'CALL must have an action and a payload object');
+      return;
+    }
+
+    try {
+      const result = await this.handler(action, payload);
+      this.sendFrame([OcppMessageType.CALLRESULT, messageId, result]);
+    } catch (error: any) {
+      if (error instanceof OcppRpcError) {
+        this.sendError(messageId, error.code, error.message, error.details);
+      } else {
+        console.error(`Error handling OCPP ${action}:`, error);
+        this.sendError(messageId, 'InternalError', 'Internal error');
+      }
+    }
+  }
+
+  private sendError(messageId: string, code: OcppErrorCode | string, description: string, details: object = {}): void {
+    const versionedCode = this.version === '1.6' ? OCPP16_ERROR_CODES[code as OcppErrorCode] ?? code : code;
+    this.sendFrame([OcppMessageType.CALLERROR, messageId, versionedCode, description, details]);
+  }
+
+  private sendFrame(frame: unknown[]): void {
+    if (!this.isOpen) return;
+    this.ws.send(JSON.stringify(frame), (error) => {
+      if (error) console.error('Error sending OCPP message:', error.message);
+    });
+  }
+}
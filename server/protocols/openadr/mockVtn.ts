@@ -0,0 +1,370 @@
+/**
+ * Mock OpenADR VTN
+ *
+ * A minimal in-memory Virtual Top Node serving the OpenADR 2.0b simple HTTP
+ * services, for exercising VENs without a utility test harness. It registers
+ * any VEN, requests TELEMETRY_USAGE reports for every data point a VEN
+ * offers and distributes the events created through its JSON control
+ * endpoints. State is lost on restart.
+ */
+
+import express, { type Request, type Response } from 'express';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { escapeXml, findChildren, findDescendants, textAt, type XmlElement } from '../../utils/xml';
+import {
+  OADR_PROFILE,
+  dateTime,
+  duration,
+  eiResponse,
+  formatDuration,
+  parseOadrPayload,
+  wrapPayload,
+} from './oadrPayloads';
+
+interface MockVen {
+  venId: string;
+  venName: string;
+  registrationId: string;
+  registeredAt: Date;
+  pendingDistribution: boolean; // Events changed since the VEN last fetched them
+  reportRequestIds: string[];
+  optTypes: Record<string, string>; // Event ID -> optIn/optOut
+}
+
+interface MockEvent {
+  eventId: string;
+  modificationNumber: number;
+  signalName: 'SIMPLE' | 'LOAD_DISPATCH';
+  signalType: string;
+  value: number;
+  startTime: Date;
+  durationMs: number;
+  notificationMs: number;
+  resourceIds: string[];
+  cancelled: boolean;
+  createdAt: Date;
+}
+
+interface MockReport {
+  venId: string;
+  reportRequestId: string;
+  receivedAt: Date;
+  values: { rId: string; start: string; value: number }[];
+}
+
+const VTN_ID = 'mock-vtn';
+const POLL_FREQUENCY_MS = 10 * 1000;
+const REPORT_GRANULARITY_MS = 5 * 60 * 1000;
+const REPORT_BACK_MS = 15 * 60 * 1000;
+const MAX_REPORTS = 500; // Received reports kept for inspection
+
+const createEventSchema = z.object({
+  signalName: z.enum(['SIMPLE', 'LOAD_DISPATCH']).default('SIMPLE'),
+  signalType: z.enum(['level', 'delta', 'setpoint', 'multiplier']).default('level'),
+  value: z.number(),
+  startTime: z.coerce.date().optional(),
+  durationMinutes: z.number().int().min(0).default(60),
+  notificationMinutes: z.number().int().min(0).default(0),
+  resourceIds: z.array(z.string()).default([]),
+});
+
+/**
+ * Router serving the mock VTN; the VEN's VTN URL is the router's mount point
+ */
+export function createMockVtnRouter(): express.Router {
+  const router = express.Router();
+  const vens = new Map<string, MockVen>();
+  const events: MockEvent[] = [];
+  const reports: MockReport[] = [];
+
+  router.use(express.text({ type: ['application/xml', 'text/xml'] }));
+
+  const distributeToAll = () => {
+    Array.from(vens.values()).forEach((ven) => { ven.pendingDistribution = true; });
+  };
+
+  const handleXml = (handler: (message: XmlElement, ven: MockVen | undefined) => string) =>
+    (req: Request, res: Response) => {
+      try {
+        const message = parseOadrPayload(typeof req.body === 'string' ? req.body : '');
+        const venId = findDescendants(message, 'venID')[0]?.text.trim();
+        res.type('application/xml').send(handler(message, venId ? vens.get(venId) : undefined));
+      } catch (error: any) {
+        res.type('application/xml').status(200).send(buildResponse(null, 400, error?.message || 'Invalid payload'));
+      }
+    };
+
+  router.post('/OpenADR2/Simple/2.0b/EiRegisterParty', handleXml((message, ven) => {
+    const requestId = textAt(message, 'requestID') ?? null;
+
+    switch (message.name) {
+      case 'oadrQueryRegistration':
+        return buildCreatedPartyRegistration(requestId, null);
+
+      case 'oadrCreatePartyRegistration': {
+        const registered: MockVen = ven ?? {
+          venId: `ven-${randomUUID()}`,
+          venName: textAt(message, 'oadrVenName') ?? 'unnamed',
+          registrationId: '',
+          registeredAt: new Date(),
+          pendingDistribution: true,
+          reportRequestIds: [],
+          optTypes: {},
+        };
+        registered.registrationId = `reg-${randomUUID()}`;
+        registered.registeredAt = new Date();
+        registered.pendingDistribution = true;
+        vens.set(registered.venId, registered);
+        return buildCreatedPartyRegistration(requestId, registered);
+      }
+
+      case 'oadrCanceledPartyRegistration':
+        if (ven) vens.delete(ven.venId);
+        return buildResponse(requestId);
+
+      default:
+        return buildResponse(requestId);
+    }
+  }));
+
+  router.post('/OpenADR2/Simple/2.0b/EiEvent', handleXml((message, ven) => {
+    const requestId = findDescendants(message, 'requestID')[0]?.text.trim() ?? null;
+    if (!ven) return buildResponse(requestId, 452, 'Unknown VEN');
+
+    switch (message.name) {
+      case 'oadrRequestEvent':
+        ven.pendingDistribution = false;
+        return buildDistributeEvent(events);
+
+      case 'oadrCreatedEvent':
+        for (const response of findDescendants(message, 'eventResponse')) {
+          const eventId = textAt(response, 'qualifiedEventID', 'eventID');
+          if (eventId) ven.optTypes[eventId] = textAt(response, 'optType') ?? 'optIn';
+        }
+        return buildResponse(requestId);
+
+      default:
+        return buildResponse(requestId, 460, `Unsupported message ${message.name}`);
+    }
+  }));
+
+  router.post('/OpenADR2/Simple/2.0b/EiReport', handleXml((message, ven) => {
+    const requestId = textAt(message, 'requestID') ?? null;
+    if (!ven) return buildResponse(requestId, 452, 'Unknown VEN');
+
+    switch (message.name) {
+      case 'oadrRegisterReport': {
+        const requests = findChildren(message, 'oadrReport').map((report) => ({
+          reportRequestId: `req-${randomUUID()}`,
+          reportSpecifierId: textAt(report, 'reportSpecifierID') ?? '',
+          rIds: findChildren(report, 'oadrReportDescription').map((description) => textAt(description, 'rID') ?? '').filter(Boolean),
+        })).filter((request) => request.rIds.length > 0);
+
+        ven.reportRequestIds = requests.map((request) => request.reportRequestId);
+        return buildRegisteredReport(requestId, requests);
+      }
+
+      case 'oadrUpdateReport': {
+        for (const report of findChildren(message, 'oadrReport')) {
+          reports.push({
+            venId: ven.venId,
+            reportRequestId: textAt(report, 'reportRequestID') ?? '',
+            receivedAt: new Date(),
+            values: findDescendants(report, 'interval').flatMap((interval) =>
+              findChildren(interval, 'oadrReportPayload').map((payload) => ({
+                rId: textAt(payload, 'rID') ?? '',
+                start: textAt(interval, 'dtstart', 'date-time') ?? '',
+                value: Number(textAt(payload, 'payloadFloat', 'value') ?? 0),
+              }))
+            ),
+          });
+        }
+        reports.splice(0, Math.max(reports.length - MAX_REPORTS, 0));
+        return wrapPayload(
+          `<oadr:oadrUpdatedReport ei:schemaVersion="${OADR_PROFILE}">${eiResponse(200, requestId)}` +
+          `<ei:venID>${escapeXml(ven.venId)}</ei:venID></oadr:oadrUpdatedReport>`
+        );
+      }
+
+      default:
+        // oadrCreatedReport, oadrCanceledReport, oadrRegisteredReport
+        return buildResponse(findDescendants(message, 'requestID')[0]?.text.trim() ?? null);
+    }
+  }));
+
+  router.post('/OpenADR2/Simple/2.0b/OadrPoll', handleXml((_message, ven) => {
+    if (!ven) return buildResponse(null, 452, 'Unknown VEN');
+
+    if (ven.pendingDistribution) {
+      ven.pendingDistribution = false;
+      return buildDistributeEvent(events);
+    }
+    return buildResponse(null);
+  }));
+
+  router.get('/state', (_req, res) => {
+    res.json({
+      vtnId: VTN_ID,
+      vens: Array.from(vens.values()),
+      events: events.map((event) => ({ ...event, status: getEventStatus(event, new Date()) })),
+      reports,
+    });
+  });
+
+  router.post('/events', express.json(), (req, res) => {
+    try {
+      const data = createEventSchema.parse(req.body);
+      const event: MockEvent = {
+        eventId: `event-${randomUUID()}`,
+        modificationNumber: 0,
+        signalName: data.signalName,
+        signalType: data.signalName === 'SIMPLE' ? 'level' : data.signalType,
+        value: data.value,
+        startTime: data.startTime ?? new Date(),
+        durationMs: data.durationMinutes * 60 * 1000,
+        notificationMs: data.notificationMinutes * 60 * 1000,
+        resourceIds: data.resourceIds,
+        cancelled: false,
+        createdAt: new Date(),
+      };
+
+      events.push(event);
+      distributeToAll();
+      res.status(201).json(event);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid event data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Error creating mock event', error: error?.message || 'Unknown error' });
+    }
+  });
+
+  router.post('/events/:eventId/cancel', (req, res) => {
+    const event = events.find((candidate) => candidate.eventId === req.params.eventId);
+    if (!event) {
+      return res.status(404).json({ message: 'Event not found' });
+    }
+
+    event.cancelled = true;
+    event.modificationNumber++;
+    distributeToAll();
+    res.json(event);
+  });
+
+  return router;
+}
+
+function getEventStatus(event: MockEvent, now: Date): string {
+  if (event.cancelled) return 'cancelled';
+
+  const start = event.startTime.getTime();
+  const end = event.durationMs > 0 ? start + event.durationMs : Infinity;
+  if (now.getTime() >= end) return 'completed';
+  if (now.getTime() >= start) return 'active';
+  return start - now.getTime() <= event.notificationMs ? 'near' : 'far';
+}
+
+function buildResponse(requestId: string | null, responseCode: number = 200, description: string = 'OK'): string {
+  return wrapPayload(
+    `<oadr:oadrResponse ei:schemaVersion="${OADR_PROFILE}">${eiResponse(responseCode, requestId, description)}</oadr:oadrResponse>`
+  );
+}
+
+function buildCreatedPartyRegistration(requestId: string | null, ven: MockVen | null): string {
+  return wrapPayload(
+    `<oadr:oadrCreatedPartyRegistration ei:schemaVersion="${OADR_PROFILE}">` +
+    eiResponse(200, requestId) +
+    (ven ? `<ei:registrationID>${escapeXml(ven.registrationId)}</ei:registrationID><ei:venID>${escapeXml(ven.venId)}</ei:venID>` : '') +
+    `<ei:vtnID>${VTN_ID}</ei:vtnID>` +
+    `<oadr:oadrProfiles><oadr:oadrProfile><oadr:oadrProfileName>${OADR_PROFILE}</oadr:oadrProfileName>` +
+    '<oadr:oadrTransports><oadr:oadrTransport><oadr:oadrTransportName>simpleHttp</oadr:oadrTransportName></oadr:oadrTransport></oadr:oadrTransports>' +
+    '</oadr:oadrProfile></oadr:oadrProfiles>' +
+    durationIn('oadr:oadrRequestedOadrPollFreq', POLL_FREQUENCY_MS) +
+    '</oadr:oadrCreatedPartyRegistration>'
+  );
+}
+
+function buildRegisteredReport(
+  requestId: string | null,
+  requests: { reportRequestId: string; reportSpecifierId: string; rIds: string[] }[]
+): string {
+  const reportRequests = requests
+    .map((request) =>
+      '<oadr:oadrReportRequest>' +
+      `<ei:reportRequestID>${escapeXml(request.reportRequestId)}</ei:reportRequestID>` +
+      `<ei:reportSpecifier><ei:reportSpecifierID>${escapeXml(request.reportSpecifierId)}</ei:reportSpecifierID>` +
+      durationIn('xcal:granularity', REPORT_GRANULARITY_MS) +
+      durationIn('ei:reportBackDuration', REPORT_BACK_MS) +
+      `<ei:reportInterval><xcal:properties>${dateTime('dtstart', new Date())}${duration(0)}</xcal:properties></ei:reportInterval>` +
+      request.rIds
+        .map((rId) => `<ei:specifierPayload><ei:rID>${escapeXml(rId)}</ei:rID><ei:readingType>Direct Read</ei:readingType></ei:specifierPayload>`)
+        .join('') +
+      '</ei:reportSpecifier></oadr:oadrReportRequest>'
+    )
+    .join('');
+
+  return wrapPayload(
+    `<oadr:oadrRegisteredReport ei:schemaVersion="${OADR_PROFILE}">${eiResponse(200, requestId)}${reportRequests}</oadr:oadrRegisteredReport>`
+  );
+}
+
+function buildDistributeEvent(events: MockEvent[]): string {
+  const now = new Date();
+  const body = events
+    .filter((event) => getEventStatus(event, now) !== 'completed')
+    .map((event) => {
+      const value = `<ei:payloadFloat><ei:value>${event.value}</ei:value></ei:payloadFloat>`;
+      const item = event.signalName === 'LOAD_DISPATCH'
+        ? '<power:powerReal><power:itemDescription>RealPower</power:itemDescription><power:itemUnits>W</power:itemUnits>' +
+          '<scale:siScaleCode>k</scale:siScaleCode><power:powerAttributes><power:hertz>50</power:hertz>' +
+          '<power:voltage>230</power:voltage><power:ac>true</power:ac></power:powerAttributes></power:powerReal>'
+        : '';
+      const active = getEventStatus(event, now) === 'active';
+
+      return '<oadr:oadrEvent><ei:eiEvent>' +
+        '<ei:eventDescriptor>' +
+        `<ei:eventID>${escapeXml(event.eventId)}</ei:eventID>` +
+        `<ei:modificationNumber>${event.modificationNumber}</ei:modificationNumber>` +
+        '<ei:priority>0</ei:priority>' +
+        `<ei:eiMarketContext><emix:marketContext>http://${VTN_ID}/market</emix:marketContext></ei:eiMarketContext>` +
+        dateTime('createdDateTime', event.createdAt) +
+        `<ei:eventStatus>${getEventStatus(event, now)}</ei:eventStatus>` +
+        '<ei:testEvent>false</ei:testEvent>' +
+        '</ei:eventDescriptor>' +
+        '<ei:eiActivePeriod><xcal:properties>' +
+        dateTime('dtstart', event.startTime) +
+        duration(event.durationMs) +
+        durationIn('ei:x-eiNotification', event.notificationMs) +
+        '</xcal:properties><xcal:components/></ei:eiActivePeriod>' +
+        '<ei:eiEventSignals><ei:eiEventSignal>' +
+        '<strm:intervals><ei:interval>' +
+        duration(event.durationMs) +
+        '<xcal:uid><xcal:text>0</xcal:text></xcal:uid>' +
+        `<ei:signalPayload>${value}</ei:signalPayload>` +
+        '</ei:interval></strm:intervals>' +
+        `<ei:signalName>${event.signalName}</ei:signalName>` +
+        `<ei:signalType>${event.signalType}</ei:signalType>` +
+        '<ei:signalID>0</ei:signalID>' +
+        item +
+        `<ei:currentValue>${active ? value : '<ei:payloadFloat><ei:value>0</ei:value></ei:payloadFloat>'}</ei:currentValue>` +
+        '</ei:eiEventSignal></ei:eiEventSignals>' +
+        `<ei:eiTarget>${event.resourceIds.map((id) => `<ei:resourceID>${escapeXml(id)}</ei:resourceID>`).join('')}</ei:eiTarget>` +
+        '</ei:eiEvent><oadr:oadrResponseRequired>always</oadr:oadrResponseRequired></oadr:oadrEvent>';
+    })
+    .join('');
+
+  return wrapPayload(
+    `<oadr:oadrDistributeEvent ei:schemaVersion="${OADR_PROFILE}">` +
+    eiResponse(200, null) +
+    `<pyld:requestID>${randomUUID()}</pyld:requestID>` +
+    `<ei:vtnID>${VTN_ID}</ei:vtnID>` +
+    body +
+    '</oadr:oadrDistributeEvent>'
+  );
+}
+
+// A duration nested in an element other than xcal:duration
+function durationIn(tag: string, ms: number): string {
+  return `<${tag}><xcal:duration>${formatDuration(ms)}</xcal:duration></${tag}>`;
+}
@@ -0,0 +1,567 @@
+/**
+ * OpenADR 2.0b Payloads
+ *
+ * Builders for the messages a Virtual End Node (VEN) sends to a Virtual Top
+ * Node (VTN) and readers for the messages it receives, following the
+ * OpenADR 2.0b profile over simple HTTP. Only the parts of the schema the
+ * VEN uses are read; unknown elements are ignored.
+ */
+
+import { escapeXml, findChild, findChildren, findDescendant, findDescendants, findPath, parseXml, textAt, type XmlElement } from '../../utils/xml';
+
+export const OADR_NAMESPACES = {
+  oadr: 'http://openadr.org/oadr-2.0b/2012/07',
+  pyld: 'http://docs.oasis-open.org/ns/energyinterop/201110/payloads',
+  ei: 'http://docs.oasis-open.org/ns/energyinterop/201110',
+  emix: 'http://docs.oasis-open.org/ns/emix/2011/06',
+  xcal: 'urn:ietf:params:xml:ns:icalendar-2.0',
+  strm: 'urn:ietf:params:xml:ns:icalendar-2.0:stream',
+  power: 'http://docs.oasis-open.org/ns/emix/2011/06/power',
+  scale: 'http://docs.oasis-open.org/ns/emix/2011/06/siscale',
+};
+
+// Simple HTTP service endpoints, relative to the VTN base URL
+export const OADR_SERVICES = {
+  registerParty: 'OpenADR2/Simple/2.0b/EiRegisterParty',
+  event: 'OpenADR2/Simple/2.0b/EiEvent',
+  report: 'OpenADR2/Simple/2.0b/EiReport',
+  poll: 'OpenADR2/Simple/2.0b/OadrPoll',
+} as const;
+
+export const OADR_PROFILE = '2.0b';
+
+export type OadrEventStatus = 'none' | 'far' | 'near' | 'active' | 'completed' | 'cancelled';
+export type OadrOptType = 'optIn' | 'optOut';
+export type OadrResponseRequired = 'always' | 'never';
+
+export interface OadrResponse {
+  responseCode: number;
+  responseDescription: string;
+  requestId: string | null;
+}
+
+export interface OadrPartyRegistration extends OadrResponse {
+  registrationId: string | null;
+  venId: string | null;
+  vtnId: string | null;
+  pollFrequencyMs: number | null;
+}
+
+export interface OadrSignalInterval {
+  uid: string;
+  start: Date;
+  durationMs: number;
+  value: number;
+}
+
+export interface OadrEventSignal {
+  signalId: string;
+  signalName: string; // SIMPLE, LOAD_DISPATCH, ...
+  signalType: string; // level, delta, setpoint, ...
+  itemUnits: string | null;
+  siScaleCode: string | null;
+  currentValue: number | null;
+  intervals: OadrSignalInterval[];
+}
+
+export interface OadrEventTarget {
+  venIds: string[];
+  resourceIds: string[];
+  groupIds: string[];
+  partyIds: string[];
+}
+
+export interface OadrEvent {
+  eventId: string;
+  modificationNumber: number;
+  status: OadrEventStatus;
+  priority: number;
+  testEvent: boolean;
+  marketContext: string | null;
+  createdAt: Date | null;
+  start: Date;
+  durationMs: number; // 0 for open-ended events
+  notificationMs: number;
+  responseRequired: OadrResponseRequired;
+  signals: OadrEventSignal[];
+  target: OadrEventTarget;
+}
+
+export interface OadrDistributeEvent {
+  requestId: string | null;
+  vtnId: string | null;
+  events: OadrEvent[];
+}
+
+export interface OadrReportRequest {
+  reportRequestId: string;
+  reportSpecifierId: string;
+  rIds: string[];
+  granularityMs: number;
+  reportBackDurationMs: number;
+  start: Date | null;
+  durationMs: number | null; // Null when reports continue until cancelled
+}
+
+export interface OadrEventResponse {
+  eventId: string;
+  modificationNumber: number;
+  requestId: string | null;
+  optType: OadrOptType;
+}
+
+export interface OadrReportDataPoint {
+  rId: string;
+  resourceId: string;
+  description: string;
+}
+
+export interface OadrReportInterval {
+  start: Date;
+  durationMs: number;
+  values: { rId: string; value: number }[];
+}
+
+export interface OadrTelemetryReport {
+  reportRequestId: string;
+  reportSpecifierId: string;
+  start: Date;
+  durationMs: number;
+  intervals: OadrReportInterval[];
+}
+
+export class OadrPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OadrPayloadError';
+  }
+}
+
+const DURATION_PATTERN = /^([+-])?P(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+
+/**
+ * Milliseconds in an xCal duration such as `PT1H30M`, or null if invalid
+ */
+export function parseDuration(duration: string | undefined | null): number | null {
+  const match = duration ? DURATION_PATTERN.exec(duration.trim()) : null;
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = (Number(weeks || 0) * 7 * 86400 +
+    Number(days || 0) * 86400 +
+    Number(hours || 0) * 3600 +
+    Number(minutes || 0) * 60 +
+    Number(seconds || 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * xCal duration for a number of milliseconds
+ */
+export function formatDuration(ms: number): string {
+  const sign = ms < 0 ? '-' : '';
+  let seconds = Math.round(Math.abs(ms) / 1000);
+  const days = Math.floor(seconds / 86400);
+  seconds -= days * 86400;
+  const hours = Math.floor(seconds / 3600);
+  seconds -= hours * 3600;
+  const minutes = Math.floor(seconds / 60);
+  seconds -= minutes * 60;
+
+  const time = `${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}${seconds ? `${seconds}S` : ''}`;
+  if (!days && !time) return 'PT0S';
+  return `${sign}P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+}
+
+/**
+ * Wrap a message in an oadrPayload envelope
+ */
+export function wrapPayload(body: string): string {
+  const namespaces = Object.entries(OADR_NAMESPACES)
+    .map(([prefix, uri]) => `xmlns:${prefix}="${uri}"`)
+    .join(' ');
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<oadr:oadrPayload ${namespaces}><oadr:oadrSignedObject>${body}</oadr:oadrSignedObject></oadr:oadrPayload>`;
+}
+
+// Message fragments, shared with the mock VTN
+export function eiResponse(responseCode: number, requestId: string | null, description: string = 'OK'): string {
+  return `<ei:eiResponse><ei:responseCode>${responseCode}</ei:responseCode><ei:responseDescription>${escapeXml(description)}</ei:responseDescription><pyld:requestID>${escapeXml(requestId ?? '')}</pyld:requestID></ei:eiResponse>`;
+}
+
+export function dateTime(tag: 'dtstart' | 'createdDateTime', at: Date): string {
+  return tag === 'dtstart'
+    ? `<xcal:dtstart><xcal:date-time>${at.toISOString()}</xcal:date-time></xcal:dtstart>`
+    : `<ei:createdDateTime>${at.toISOString()}</ei:createdDateTime>`;
+}
+
+export function duration(ms: number): string {
+  return `<xcal:duration><xcal:duration>${formatDuration(ms)}</xcal:duration></xcal:duration>`;
+}
+
+function venIdElement(venId: string | null): string {
+  return venId ? `<ei:venID>${escapeXml(venId)}</ei:venID>` : '';
+}
+
+/**
+ * Register (or re-register) the VEN with the VTN, using the HTTP pull model
+ */
+export function buildCreatePartyRegistration(options: {
+  requestId: string;
+  venName: string;
+  venId?: string | null;
+  registrationId?: string | null;
+}): string {
+  return wrapPayload(
+    `<oadr:oadrCreatePartyRegistration ei:schemaVersion="${OADR_PROFILE}">` +
+    `<pyld:requestID>${escapeXml(options.requestId)}</pyld:requestID>` +
+    (options.registrationId ? `<ei:registrationID>${escapeXml(options.registrationId)}</ei:registrationID>` : '') +
+    venIdElement(options.venId ?? null) +
+    `<oadr:oadrProfileName>${OADR_PROFILE}</oadr:oadrProfileName>` +
+    '<oadr:oadrTransportName>simpleHttp</oadr:oadrTransportName>' +
+    '<oadr:oadrReportOnly>false</oadr:oadrReportOnly>' +
+    '<oadr:oadrXmlSignature>false</oadr:oadrXmlSignature>' +
+    `<oadr:oadrVenName>${escapeXml(options.venName)}</oadr:oadrVenName>` +
+    '<oadr:oadrHttpPullModel>true</oadr:oadrHttpPullModel>' +
+    '</oadr:oadrCreatePartyRegistration>'
+  );
+}
+
+/**
+ * Confirm that the VTN cancelled the VEN's registration
+ */
+export function buildCanceledPartyRegistration(venId: string, requestId: string | null, registrationId: string | null): string {
+  return wrapPayload(
+    `<oadr:oadrCanceledPartyRegistration ei:schemaVersion="${OADR_PROFILE}">` +
+    eiResponse(200, requestId) +
+    (registrationId ? `<ei:registrationID>${escapeXml(registrationId)}</ei:registrationID>` : '') +
+    venIdElement(venId) +
+    '</oadr:oadrCanceledPartyRegistration>'
+  );
+}
+
+/**
+ * Ask the VTN for anything queued for the VEN
+ */
+export function buildPoll(venId: string): string {
+  return wrapPayload(`<oadr:oadrPoll ei:schemaVersion="${OADR_PROFILE}">${venIdElement(venId)}</oadr:oadrPoll>`);
+}
+
+/**
+ * Request the events currently in effect for the VEN
+ */
+export function buildRequestEvent(requestId: string, venId: string): string {
+  return wrapPayload(
+    `<oadr:oadrRequestEvent ei:schemaVersion="${OADR_PROFILE}"><pyld:eiRequestEvent>` +
+    `<pyld:requestID>${escapeXml(requestId)}</pyld:requestID>${venIdElement(venId)}` +
+    '</pyld:eiRequestEvent></oadr:oadrRequestEvent>'
+  );
+}
+
+/**
+ * Opt in or out of distributed events
+ */
+export function buildCreatedEvent(venId: string, requestId: string | null, responses: OadrEventResponse[]): string {
+  const eventResponses = responses
+    .map((response) =>
+      '<ei:eventResponse><ei:responseCode>200</ei:responseCode><ei:responseDescription>OK</ei:responseDescription>' +
+      `<pyld:requestID>${escapeXml(response.requestId ?? '')}</pyld:requestID>` +
+      `<ei:qualifiedEventID><ei:eventID>${escapeXml(response.eventId)}</ei:eventID>` +
+      `<ei:modificationNumber>${response.modificationNumber}</ei:modificationNumber></ei:qualifiedEventID>` +
+      `<ei:optType>${response.optType}</ei:optType></ei:eventResponse>`
+    )
+    .join('');
+
+  return wrapPayload(
+    `<oadr:oadrCreatedEvent ei:schemaVersion="${OADR_PROFILE}"><pyld:eiCreatedEvent>` +
+    eiResponse(200, requestId) +
+    `<ei:eventResponses>${eventResponses}</ei:eventResponses>` +
+    venIdElement(venId) +
+    '</pyld:eiCreatedEvent></oadr:oadrCreatedEvent>'
+  );
+}
+
+/**
+ * Describe the telemetry the VEN can report: real power per data point, in kW
+ */
+export function buildRegisterReport(options: {
+  requestId: string;
+  venId: string;
+  reportSpecifierId: string;
+  dataPoints: OadrReportDataPoint[];
+  minSamplingMs: number;
+  maxSamplingMs: number;
+}): string {
+  const descriptions = options.dataPoints
+    .map((point) =>
+      '<oadr:oadrReportDescription>' +
+      `<ei:rID>${escapeXml(point.rId)}</ei:rID>` +
+      `<ei:reportDataSource><ei:resourceID>${escapeXml(point.resourceId)}</ei:resourceID></ei:reportDataSource>` +
+      '<ei:reportType>usage</ei:reportType>' +
+      `<power:realPower><power:itemDescription>${escapeXml(point.description)}</power:itemDescription>` +
+      '<power:itemUnits>W</power:itemUnits><scale:siScaleCode>k</scale:siScaleCode>' +
+      '<power:powerAttributes><power:hertz>50</power:hertz><power:voltage>230</power:voltage><power:ac>true</power:ac></power:powerAttributes>' +
+      '</power:realPower>' +
+      '<ei:readingType>Direct Read</ei:readingType>' +
+      `<oadr:oadrSamplingRate><oadr:oadrMinPeriod>${formatDuration(options.minSamplingMs)}</oadr:oadrMinPeriod>` +
+      `<oadr:oadrMaxPeriod>${formatDuration(options.maxSamplingMs)}</oadr:oadrMaxPeriod>` +
+      '<oadr:oadrOnChange>false</oadr:oadrOnChange></oadr:oadrSamplingRate>' +
+      '</oadr:oadrReportDescription>'
+    )
+    .join('');
+
+  return wrapPayload(
+    `<oadr:oadrRegisterReport ei:schemaVersion="${OADR_PROFILE}">` +
+    `<pyld:requestID>${escapeXml(options.requestId)}</pyld:requestID>` +
+    '<oadr:oadrReport>' +
+    duration(options.maxSamplingMs) +
+    descriptions +
+    '<ei:reportRequestID>0</ei:reportRequestID>' +
+    `<ei:reportSpecifierID>${escapeXml(options.reportSpecifierId)}</ei:reportSpecifierID>` +
+    '<ei:reportName>METADATA_TELEMETRY_USAGE</ei:reportName>' +
+    dateTime('createdDateTime', new Date()) +
+    '</oadr:oadrReport>' +
+    venIdElement(options.venId) +
+    '</oadr:oadrRegisterReport>'
+  );
+}
+
+/**
+ * Acknowledge report requests; pending reports are those the VEN will send
+ */
+export function buildCreatedReport(venId: string, requestId: string | null, pendingReportRequestIds: string[]): string {
+  return wrapPayload(
+    `<oadr:oadrCreatedReport ei:schemaVersion="${OADR_PROFILE}">` +
+    eiResponse(200, requestId) +
+    `<oadr:oadrPendingReports>${pendingReportRequestIds.map((id) => `<ei:reportRequestID>${escapeXml(id)}</ei:reportRequestID>`).join('')}</oadr:oadrPendingReports>` +
+    venIdElement(venId) +
+    '</oadr:oadrCreatedReport>'
+  );
+}
+
+/**
+ * Acknowledge cancelled report requests
+ */
+export function buildCanceledReport(venId: string, requestId: string | null, pendingReportRequestIds: string[]): string {
+  return wrapPayload(
+    `<oadr:oadrCanceledReport ei:schemaVersion="${OADR_PROFILE}">` +
+    eiResponse(200, requestId) +
+    `<oadr:oadrPendingReports>${pendingReportRequestIds.map((id) => `<ei:reportRequestID>${escapeXml(id)}</ei:reportRequestID>`).join('')}</oadr:oadrPendingReports>` +
+    venIdElement(venId) +
+    '</oadr:oadrCanceledReport>'
+  );
+}
+
+/**
+ * Acknowledge reports registered by the VTN without requesting any of them
+ */
+export function buildRegisteredReport(venId: string, requestId: string | null): string {
+  return wrapPayload(
+    `<oadr:oadrRegisteredReport ei:schemaVersion="${OADR_PROFILE}">${eiResponse(200, requestId)}${venIdElement(venId)}</oadr:oadrRegisteredReport>`
+  );
+}
+
+/**
+ * Generic acknowledgement
+ */
+export function buildResponse(venId: string, requestId: string | null, responseCode: number = 200, description: string = 'OK'): string {
+  return wrapPayload(
+    `<oadr:oadrResponse ei:schemaVersion="${OADR_PROFILE}">${eiResponse(responseCode, requestId, description)}${venIdElement(venId)}</oadr:oadrResponse>`
+  );
+}
+
+/**
+ * Send telemetry for the requested reports
+ */
+export function buildUpdateReport(requestId: string, venId: string, reports: OadrTelemetryReport[]): string {
+  const body = reports
+    .map((report) => {
+      const intervals = report.intervals
+        .map((interval) =>
+          '<ei:interval>' +
+          dateTime('dtstart', interval.start) +
+          duration(interval.durationMs) +
+          interval.values
+            .map((value) =>
+              `<oadr:oadrReportPayload><ei:rID>${escapeXml(value.rId)}</ei:rID>` +
+              `<ei:payloadFloat><ei:value>${Number(value.value.toFixed(3))}</ei:value></ei:payloadFloat>` +
+              '<oadr:oadrDataQuality>Quality Good - Non Specific</oadr:oadrDataQuality></oadr:oadrReportPayload>'
+            )
+            .join('') +
+          '</ei:interval>'
+        )
+        .join('');
+
+      return '<oadr:oadrReport>' +
+        dateTime('dtstart', report.start) +
+        duration(report.durationMs) +
+        `<strm:intervals>${intervals}</strm:intervals>` +
+        `<ei:reportRequestID>${escapeXml(report.reportRequestId)}</ei:reportRequestID>` +
+        `<ei:reportSpecifierID>${escapeXml(report.reportSpecifierId)}</ei:reportSpecifierID>` +
+        '<ei:reportName>TELEMETRY_USAGE</ei:reportName>' +
+        dateTime('createdDateTime', new Date()) +
+        '</oadr:oadrReport>';
+    })
+    .join('');
+
+  return wrapPayload(
+    `<oadr:oadrUpdateReport ei:schemaVersion="${OADR_PROFILE}">` +
+    `<pyld:requestID>${escapeXml(requestId)}</pyld:requestID>` +
+    body +
+    venIdElement(venId) +
+    '</oadr:oadrUpdateReport>'
+  );
+}
+
+/**
+ * Parse an oadrPayload and return the message inside it
+ */
+export function parseOadrPayload(xml: string): XmlElement {
+  const root = parseXml(xml);
+  if (root.name !== 'oadrPayload') {
+    throw new OadrPayloadError(`Expected oadrPayload, got ${root.name}`);
+  }
+
+  const message = findChild(root, 'oadrSignedObject')?.children[0];
+  if (!message) {
+    throw new OadrPayloadError('oadrPayload has no message');
+  }
+  return message;
+}
+
+/**
+ * Read the eiResponse of a message
+ */
+export function readResponse(message: XmlElement): OadrResponse {
+  const response = findDescendant(message, 'eiResponse');
+  return {
+    responseCode: Number(textAt(response, 'responseCode') ?? 200),
+    responseDescription: textAt(response, 'responseDescription') ?? '',
+    requestId: textAt(response, 'requestID') || null,
+  };
+}
+
+export function readCreatedPartyRegistration(message: XmlElement): OadrPartyRegistration {
+  return {
+    ...readResponse(message),
+    registrationId: textAt(message, 'registrationID') || null,
+    venId: textAt(message, 'venID') || null,
+    vtnId: textAt(message, 'vtnID') || null,
+    pollFrequencyMs: parseDuration(textAt(message, 'oadrRequestedOadrPollFreq', 'duration')),
+  };
+}
+
+function readDateTime(element: XmlElement | undefined): Date | null {
+  const text = textAt(element, 'date-time');
+  if (!text) return null;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function readPayloadValue(element: XmlElement | undefined): number | null {
+  const value = findDescendant(element, 'value')?.text.trim();
+  return value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : null;
+}
+
+function readSignal(signal: XmlElement, start: Date): OadrEventSignal {
+  const item = findChildren(signal, 'itemBase')[0] ?? signal.children.find((child) =>
+    ['powerReal', 'energyReal', 'currency', 'customUnit'].includes(child.name)
+  );
+
+  let offset = 0;
+  const intervals = findChildren(findChild(signal, 'intervals'), 'interval').map((interval) => {
+    const durationMs = parseDuration(textAt(interval, 'duration', 'duration')) ?? 0;
+    const entry = {
+      uid: textAt(interval, 'uid', 'text') ?? String(offset),
+      start: new Date(start.getTime() + offset),
+      durationMs,
+      value: readPayloadValue(findChild(interval, 'streamPayloadBase') ?? findChild(interval, 'signalPayload')) ?? 0,
+    };
+    offset += durationMs;
+    return entry;
+  });
+
+  return {
+    signalId: textAt(signal, 'signalID') ?? '',
+    signalName: textAt(signal, 'signalName') ?? '',
+    signalType: textAt(signal, 'signalType') ?? '',
+    itemUnits: item ? findDescendant(item, 'itemUnits')?.text.trim() ?? null : null,
+    siScaleCode: item ? findDescendant(item, 'siScaleCode')?.text.trim() ?? null : null,
+    currentValue: readPayloadValue(findChild(signal, 'currentValue')),
+    intervals,
+  };
+}
+
+function readEvent(oadrEvent: XmlElement): OadrEvent {
+  const event = findChild(oadrEvent, 'eiEvent');
+  const descriptor = findChild(event, 'eventDescriptor');
+  const properties = findPath(event, 'eiActivePeriod', 'properties');
+  const eventId = textAt(descriptor, 'eventID');
+
+  const start = readDateTime(findChild(properties, 'dtstart'));
+  if (!eventId || !start) {
+    throw new OadrPayloadError('Event without eventID or dtstart');
+  }
+
+  const target = findChild(event, 'eiTarget');
+
+  return {
+    eventId,
+    modificationNumber: Number(textAt(descriptor, 'modificationNumber') ?? 0),
+    status: (textAt(descriptor, 'eventStatus') ?? 'none') as OadrEventStatus,
+    priority: Number(textAt(descriptor, 'priority') ?? 0),
+    testEvent: (textAt(descriptor, 'testEvent') ?? 'false').toLowerCase() === 'true',
+    marketContext: textAt(descriptor, 'eiMarketContext', 'marketContext') ?? null,
+    createdAt: (() => {
+      const created = textAt(descriptor, 'createdDateTime');
+      return created ? new Date(created) : null;
+    })(),
+    start,
+    durationMs: parseDuration(textAt(properties, 'duration', 'duration')) ?? 0,
+    notificationMs: parseDuration(textAt(properties, 'x-eiNotification', 'duration')) ?? 0,
+    responseRequired: (textAt(oadrEvent, 'oadrResponseRequired') ?? 'always') as OadrResponseRequired,
+    signals: findChildren(findChild(event, 'eiEventSignals'), 'eiEventSignal').map((signal) => readSignal(signal, start)),
+    target: {
+      venIds: findDescendants(target, 'venID').map((element) => element.text.trim()),
+      resourceIds: findDescendants(target, 'resourceID').map((element) => element.text.trim()),
+      groupIds: findDescendants(target, 'groupID').map((element) => element.text.trim()),
+      partyIds: findDescendants(target, 'partyID').map((element) => element.text.trim()),
+    },
+  };
+}
+
+export function readDistributeEvent(message: XmlElement): OadrDistributeEvent {
+  return {
+    requestId: textAt(message, 'requestID') || null,
+    vtnId: textAt(message, 'vtnID') || null,
+    events: findChildren(message, 'oadrEvent').map(readEvent),
+  };
+}
+
+/**
+ * Read the report requests of an oadrCreateReport or oadrRegisteredReport
+ */
+export function readReportRequests(message: XmlElement): OadrReportRequest[] {
+  return findChildren(message, 'oadrReportRequest').map((request) => {
+    const specifier = findChild(request, 'reportSpecifier');
+    const interval = findChild(specifier, 'reportInterval');
+    const properties = findChild(interval, 'properties') ?? interval;
+    const durationMs = parseDuration(textAt(properties, 'duration', 'duration'));
+
+    return {
+      reportRequestId: textAt(request, 'reportRequestID') ?? '',
+      reportSpecifierId: textAt(specifier, 'reportSpecifierID') ?? '',
+      rIds: findChildren(specifier, 'specifierPayload').map((payload) => textAt(payload, 'rID') ?? '').filter(Boolean),
+      granularityMs: parseDuration(textAt(specifier, 'granularity', 'duration')) ?? 0,
+      reportBackDurationMs: parseDuration(textAt(specifier, 'reportBackDuration', 'duration')) ?? 0,
+      start: readDateTime(findChild(properties, 'dtstart')),
+      durationMs: durationMs ? durationMs : null,
+    };
+  });
+}
+
+export function readCancelReport(message: XmlElement): { requestId: string | null; reportRequestIds: string[] } {
+  return {
+    requestId: textAt(message, 'requestID') || null,
+    reportRequestIds: findChildren(message, 'reportRequestID').map((element) => element.text.trim()),
+  };
+}
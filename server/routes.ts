@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { WebSocketServer } from 'ws';
@@ -22,6 +22,8 @@ import {
   scheduleCapacityTest
 } from './controllers/batteryController';
 import { initMqttService } from './services/mqttService';
+import { initAlarmService } from './services/alarmService';
+import { initDataLifecycleService } from './services/dataLifecycleService';
 import { ocppManager } from './adapters/ocppAdapter';
 import { getEEBusManager } from './adapters/eebusAdapter';
 
@@ -33,7 +35,15 @@ import * as forecastController from './controllers/forecastController';
 import * as optimizationController from './controllers/optimizationController';
 import * as tariffOptimizationController from './controllers/tariffOptimizationController';
 import * as demandResponseController from './controllers/demandResponseController';
+import * as openAdrController from './controllers/openAdrController';
+import * as ocppController from './controllers/ocppController';
+import * as evLoadBalancingController from './controllers/evLoadBalancingController';
+import * as mpcController from './controllers/mpcController';
+import * as telemetryController from './controllers/telemetryController';
+import * as registerMapController from './controllers/registerMapController';
 import * as tariffController from './controllers/tariffController';
+import * as billingController from './controllers/billingController';
+import * as pvArrayController from './controllers/pvArrayController';
 import * as authController from './controllers/authController';
 import * as profileController from './controllers/profileController';
 import * as setupController from './controllers/setupController';
@@ -46,6 +56,7 @@ import * as analyticsController from './controllers/analyticsController';
 import partnerController from './controllers/partnerController';
 import { VPPController } from './controllers/vppController';
 import { initVPPService } from './services/vppService';
+import { initVppDispatchService } from './services/vppDispatchService';
 import { ConsumptionPatternController } from './controllers/consumptionPatternController';
 import { initConsumptionPatternService } from './services/consumptionPatternService';
 import * as v2gController from './controllers/v2gController';
@@ -55,6 +66,25 @@ import { electricalDiagramRoutes } from './routes/electricalDiagram';
 import { predictiveMaintenanceRoutes } from './routes/predictiveMaintenanceRoutes';
 import gatewayRoutes from './routes/gatewayRoutes';
 import alarmsRoutes from './routes/alarms';
+import storagePolicyRoutes from './routes/storagePolicies';
+import apiKeyRoutes from './routes/apiKeys';
+import commandRoutes from './routes/commands';
+import { executeCommand } from './services/commandGatewayService';
+import { initCommandQueueService } from './services/commandQueueService';
+import { initDemandResponseService } from './services/demandResponseService';
+import { initOpenAdrVenService } from './services/openAdrVenService';
+import { createMockVtnRouter } from './protocols/openadr/mockVtn';
+import { initOcppCsms, isChargePointConnected } from './services/ocppCsmsService';
+import { initEvLoadBalancerService } from './services/evLoadBalancerService';
+import { initMpcControllerService } from './services/mpcControllerService';
+import { initEnergyBalanceService } from './services/energyBalanceService';
+import { initDeviceTelemetryIngestion } from './services/deviceService';
+import { getCommandActor, sendCommandOutcome } from './middleware/commandAuth';
+import { rateLimit } from './middleware/rateLimit';
+import rateLimitRoutes from './routes/rateLimits';
+import securityAuditRoutes from './routes/securityAudit';
+import twoFactorRoutes from './routes/twoFactor';
+import { initRateLimitService } from './services/rateLimitService';
 import * as gatewayController from './controllers/gatewayController';
 import * as connectionTemplateController from './controllers/connectionTemplateController';
 import * as batteryController from './controllers/batteryController';
@@ -88,6 +118,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize WebSocket server
   const wss = initWebSocketServer(httpServer);
   
+  // Accept OCPP charge point connections
+  initOcppCsms(httpServer);
+  
   // Setup authentication
   setupAuth(app);
   
@@ -117,6 +150,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     gatewayController.initGatewayController(mqttService);
     console.log('Gateway controller initialized');
     
+    // Initialize alarm service to raise and clear alarms from device, gateway and BMS events
+    initAlarmService();
+    
+    // Initialize command queue to hold and deliver device commands across reconnects
+    initCommandQueueService();
+    
+    // Initialize demand response execution to dispatch, restore and settle events
+    initDemandResponseService();
+    
+    // Initialize OpenADR VENs to receive utility demand response events
+    initOpenAdrVenService();
+    
+    // Initialize EV load balancing to share site grid capacity between chargers
+    initEvLoadBalancerService();
+    
+    // Initialize MPC to re-plan battery schedules every interval from live telemetry
+    initMpcControllerService();
+    
+    // Initialize energy balance aggregation to derive site energy readings from device telemetry
+    initEnergyBalanceService();
+    
+    // Initialize telemetry ingestion to validate and store the readings devices publish
+    initDeviceTelemetryIngestion();
+    
+    // Initialize rate limiting from the configured limits
+    initRateLimitService().catch(error => {
+      console.error('Error initializing rate limit service:', error);
+    });
+    
+    // Initialize data lifecycle service to apply storage tier policies to telemetry
+    initDataLifecycleService();
+    console.log('Data lifecycle service initialized');
+    
     // Initialize V2G optimization service
     try {
       await v2gOptimizationService.initialize();
@@ -187,6 +253,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put('/api/devices/:id', requireManager, deviceController.updateDevice);
   app.delete('/api/devices/:id', requireAdmin, deviceController.deleteDevice);
   app.get('/api/sites/:siteId/telemetry', deviceController.getSiteDevicesTelemetry);
+  app.post('/api/devices/:deviceId/telemetry', requireDeviceAccess('deviceId'), telemetryController.ingestDeviceTelemetry);
+  app.get('/api/devices/:deviceId/telemetry/quarantine', requireDeviceAccess('deviceId'), telemetryController.getDeviceTelemetryQuarantine);
+  app.get('/api/devices/:deviceId/modbus-config', requireDeviceAccess('deviceId'), registerMapController.getDeviceModbusPollingConfig);
   
   // Device catalog routes
   app.get('/api/device-catalog', async (req, res) => {
@@ -213,6 +282,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Catalog register maps, importable as CSV or JSON
+  app.get('/api/device-catalog/:id/registers', registerMapController.getCatalogModelRegisters);
+  app.get('/api/device-catalog/:id/registers/export', registerMapController.exportCatalogRegisterMap);
+  app.post('/api/device-catalog/:id/registers/import', requireManager, express.text({ type: ['text/csv', 'text/plain'], limit: '2mb' }), registerMapController.importCatalogRegisterMap);
+  
   // Connection templates routes
   app.get('/api/connection-templates', connectionTemplateController.getConnectionTemplates);
   app.post('/api/connection-templates', requireManager, connectionTemplateController.createConnectionTemplate);
@@ -321,7 +395,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Protocol-specific device endpoints
-  app.post('/api/devices/:id/ocpp/start', async (req, res) => {
+  app.post('/api/devices/:id/ocpp/start', isAuthenticated, requireDeviceAccess('id'), rateLimit('device_command'), async (req, res) => {
     try {
       const deviceId = parseInt(req.params.id);
       const { connectorId, tagId } = req.body;
@@ -330,26 +404,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Invalid parameters' });
       }
       
-      // ocppManager is already imported at the top
-      const adapter = ocppManager.getAdapter(deviceId);
+      // Chargers connected to the CSMS take precedence over outbound adapters
+      const adapter = ocppManager.getChargePoint(String(deviceId));
       
-      if (!adapter) {
+      if (!adapter && !isChargePointConnected(deviceId)) {
         return res.status(404).json({ error: 'OCPP device not found' });
       }
       
-      const result = await adapter.startTransaction(connectorId, tagId);
-      if (!result) {
-        return res.status(400).json({ error: 'Failed to start transaction' });
-      }
-      
-      res.json(result);
+      const outcome = await executeCommand(getCommandActor(req), deviceId, 'ocpp.start_transaction', { connectorId, tagId });
+      sendCommandOutcome(res, outcome);
     } catch (error) {
       console.error('Error starting OCPP transaction:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
   });
   
-  app.post('/api/devices/:id/ocpp/stop', async (req, res) => {
+  app.post('/api/devices/:id/ocpp/stop', isAuthenticated, requireDeviceAccess('id'), rateLimit('device_command'), async (req, res) => {
     try {
       const deviceId = parseInt(req.params.id);
       const { connectorId } = req.body;
@@ -358,26 +428,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Invalid parameters' });
       }
       
-      // ocppManager is already imported at the top
-      const adapter = ocppManager.getAdapter(deviceId);
+      // Chargers connected to the CSMS take precedence over outbound adapters
+      const adapter = ocppManager.getChargePoint(String(deviceId));
       
-      if (!adapter) {
+      if (!adapter && !isChargePointConnected(deviceId)) {
         return res.status(404).json({ error: 'OCPP device not found' });
       }
       
-      const result = await adapter.stopTransaction(connectorId);
-      if (!result) {
-        return res.status(400).json({ error: 'Failed to stop transaction' });
-      }
-      
-      res.json(result);
+      const outcome = await executeCommand(getCommandActor(req), deviceId, 'ocpp.stop_transaction', { connectorId });
+      sendCommandOutcome(res, outcome);
     } catch (error) {
       console.error('Error stopping OCPP transaction:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
   });
   
-  app.post('/api/devices/:id/eebus/mode', async (req, res) => {
+  app.get('/api/devices/:id/ocpp', isAuthenticated, requireDeviceAccess('id'), ocppController.getOcppChargePoint);
+  app.put('/api/devices/:id/ocpp', requireManager, requireDeviceAccess('id'), ocppController.configureOcppChargePoint);
+  app.post('/api/devices/:id/ocpp/charging-profile', isAuthenticated, requireDeviceAccess('id'), rateLimit('device_command'), ocppController.setOcppChargingProfile);
+  app.post('/api/devices/:id/ocpp/reset', isAuthenticated, requireDeviceAccess('id'), rateLimit('device_command'), ocppController.resetOcppChargePoint);
+  
+  app.get('/api/ocpp/id-tags', requireManager, ocppController.getOcppIdTags);
+  app.post('/api/ocpp/id-tags', requireManager, ocppController.createOcppIdTag);
+  app.put('/api/ocpp/id-tags/:id', requireManager, ocppController.updateOcppIdTag);
+  app.delete('/api/ocpp/id-tags/:id', requireManager, ocppController.deleteOcppIdTag);
+  
+  app.get('/api/sites/:siteId/ev-load-balancing', isAuthenticated, evLoadBalancingController.getEvLoadBalancing);
+  app.put('/api/sites/:siteId/ev-load-balancing', requireManager, evLoadBalancingController.updateEvLoadBalancing);
+
+  // Model predictive control of site batteries
+  app.get('/api/sites/:siteId/mpc', isAuthenticated, mpcController.getSiteMpcController);
+  app.put('/api/sites/:siteId/mpc', requireManager, mpcController.updateSiteMpcController);
+  app.get('/api/sites/:siteId/mpc/history', isAuthenticated, mpcController.getSiteMpcHistory);
+  
+  app.post('/api/devices/:id/eebus/mode', isAuthenticated, requireDeviceAccess('id'), rateLimit('device_command'), async (req, res) => {
     try {
       const deviceId = parseInt(req.params.id);
       const { mode } = req.body;
@@ -393,19 +477,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: 'EEBus device not found' });
       }
       
-      const result = await adapter.setOperationMode(mode);
-      if (!result) {
-        return res.status(400).json({ error: 'Failed to set operation mode' });
-      }
-      
-      res.json({ success: true, mode });
+      const outcome = await executeCommand(getCommandActor(req), deviceId, 'eebus.set_mode', { mode });
+      sendCommandOutcome(res, outcome);
     } catch (error) {
       console.error('Error setting EEBus operation mode:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
   });
   
-  app.post('/api/devices/:id/eebus/temperature', async (req, res) => {
+  app.post('/api/devices/:id/eebus/temperature', isAuthenticated, requireDeviceAccess('id'), rateLimit('device_command'), async (req, res) => {
     try {
       const deviceId = parseInt(req.params.id);
       const { temperature } = req.body;
@@ -421,12 +501,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: 'EEBus device not found' });
       }
       
-      const result = await adapter.setTargetTemperature(temperature);
-      if (!result) {
-        return res.status(400).json({ error: 'Failed to set target temperature' });
-      }
-      
-      res.json({ success: true, temperature });
+      const outcome = await executeCommand(getCommandActor(req), deviceId, 'eebus.set_temperature', { temperature });
+      sendCommandOutcome(res, outcome);
     } catch (error) {
       console.error('Error setting EEBus target temperature:', error);
       res.status(500).json({ error: 'Internal server error' });
@@ -468,6 +544,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/devices/:deviceId/tariff', tariffController.getDeviceTariff);
   app.post('/api/devices/:deviceId/tariff/:tariffId', requireManager, tariffController.setDeviceTariff);
   app.delete('/api/devices/:deviceId/tariff', requireManager, tariffController.removeDeviceTariff);
+
+  // Billing routes
+  app.get('/api/sites/:siteId/bill', billingController.getSiteBill);
+  app.get('/api/sites/:siteId/bill/shadow', billingController.getSiteShadowBill);
+
+  // Site location and PV array routes
+  app.put('/api/sites/:siteId/location', requireManager, pvArrayController.updateSiteLocation);
+  app.get('/api/sites/:siteId/pv-arrays', pvArrayController.getPvArrays);
+  app.post('/api/sites/:siteId/pv-arrays', requireManager, pvArrayController.createPvArray);
+  app.put('/api/pv-arrays/:id', requireManager, pvArrayController.updatePvArray);
+  app.delete('/api/pv-arrays/:id', requireManager, pvArrayController.deletePvArray);
+  app.get('/api/sites/:siteId/pv/expected', pvArrayController.getExpectedPvProduction);
   
   // Device connection settings routes
   app.get('/api/devices/:deviceId/connection', async (req, res) => {
@@ -631,8 +719,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/demand-response/events/:eventId/actions', demandResponseController.getDemandResponseActions);
   app.post('/api/demand-response/actions', demandResponseController.createDemandResponseAction);
 
+  app.post('/api/demand-response/events/:id/start', requireManager, demandResponseController.startDemandResponseEvent);
+  app.post('/api/demand-response/events/:id/end', requireManager, demandResponseController.endDemandResponseEvent);
+  app.post('/api/demand-response/events/:id/settle', requireManager, demandResponseController.settleDemandResponseEvent);
+  app.get('/api/demand-response/events/:id/baseline', demandResponseController.getDemandResponseBaseline);
+
+  // OpenADR VEN routes
+  app.get('/api/openadr/vens', openAdrController.getOpenAdrVens);
+  app.get('/api/openadr/vens/:id', openAdrController.getOpenAdrVen);
+  app.post('/api/openadr/vens', requireManager, openAdrController.createOpenAdrVen);
+  app.put('/api/openadr/vens/:id', requireManager, openAdrController.updateOpenAdrVen);
+  app.delete('/api/openadr/vens/:id', requireManager, openAdrController.deleteOpenAdrVen);
+  app.post('/api/openadr/vens/:id/register', requireManager, openAdrController.registerOpenAdrVen);
+  app.post('/api/openadr/vens/:id/poll', requireManager, openAdrController.pollOpenAdrVen);
+  app.get('/api/openadr/vens/:id/events', openAdrController.getOpenAdrVenEvents);
+
+  // Mock OpenADR VTN for testing VENs outside production
+  if (process.env.NODE_ENV !== 'production') {
+    app.use('/mock-vtn', createMockVtnRouter());
+  }
+
   // AI Optimization routes
-  app.post('/api/optimization/run/:siteId', aiOptimizationController.runOptimization);
+  app.post('/api/optimization/run/:siteId', isAuthenticated, rateLimit('optimization'), aiOptimizationController.runOptimization);
   app.get('/api/optimization/last/:siteId', aiOptimizationController.getLastOptimization);
   app.get('/api/optimization/settings/:siteId', aiOptimizationController.getOptimizationSettings);
   app.put('/api/optimization/settings', aiOptimizationController.updateOptimizationSettings);
@@ -643,6 +751,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Initialize VPP service
   const vppService = initVPPService();
+  initVppDispatchService();
   
   // VPP Program routes
   app.get('/api/vpp/programs', VPPController.getAllPrograms);
@@ -688,6 +797,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // VPP Metrics routes
   app.get('/api/vpp/participations/:participationId/metrics', VPPController.getParticipationMetrics);
   app.get('/api/vpp/participations/:participationId/metrics/latest', VPPController.getLatestParticipationMetrics);
+  app.get('/api/vpp/participations/:participationId/dispatch', VPPController.getParticipationDispatch);
   
   // Initialize Consumption Pattern Service
   const consumptionPatternService = initConsumptionPatternService();
@@ -717,6 +827,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/devices/:deviceId/battery/capacity-tests', batteryController.getBatteryCapacityTests);
   app.get('/api/devices/:deviceId/battery/lifecycle-events', batteryController.getBatteryLifecycleEvents);
   app.get('/api/devices/:deviceId/battery/thermal-events', batteryController.getBatteryThermalEvents);
+  app.get('/api/devices/:deviceId/battery/degradation', batteryController.getBatteryDegradation);
   app.post('/api/devices/:deviceId/battery/capacity-test', requireManager, batteryController.scheduleCapacityTest);
   
   // Development endpoint without auth for testing ML models
@@ -765,6 +876,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Alarms Routes
   app.use('/api', alarmsRoutes);
+  
+  // Storage tier policy routes
+  app.use('/api/storage', storagePolicyRoutes);
+
+  // API key management routes
+  app.use('/api/api-keys', apiKeyRoutes);
+
+  // Device command gateway routes
+  app.use('/api', commandRoutes);
+
+  // Rate limit administration routes
+  app.use('/api/rate-limits', rateLimitRoutes);
+
+  // Security audit log routes
+  app.use('/api/security-audit', securityAuditRoutes);
+
+  // Two-factor authentication routes
+  app.use('/api/2fa', twoFactorRoutes);
 
   // Edge Computing Routes
   app.get('/api/edge/nodes', isAuthenticated, edgeComputingController.getEdgeNodes);
@@ -790,7 +919,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/edge/nodes/:nodeId/metrics', requireManager, edgeComputingController.createNodeMetrics);
   
   // Low-Latency Control Operations
-  app.post('/api/edge/nodes/:nodeId/devices/:deviceId/control', requireManager, edgeComputingController.sendControlCommand);
+  app.post('/api/edge/nodes/:nodeId/devices/:deviceId/control', requireManager, rateLimit('device_command'), edgeComputingController.sendControlCommand);
   
   // Edge Node Status
   app.get('/api/edge/nodes/:nodeId/status', isAuthenticated, edgeComputingController.getNodeStatus);
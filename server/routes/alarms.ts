@@ -1,18 +1,42 @@
 import express from 'express';
 import { isAuthenticated } from '../middleware/auth';
-import { requireManager } from '../middleware/roleAuth';
-import { generateMockAlarms, generateMockAlarmStats } from '../utils/mockDataGenerator';
+import { requireManager, requirePartnerAccess, checkSiteAccess, checkDeviceAccess, type AccessDecision } from '../middleware/roleAuth';
+import { storage } from '../storage';
+import type { Alert } from '@shared/schema';
+import {
+  getActiveAlarms,
+  getAlarmHistory,
+  getAlarmStats,
+  getAlarmById,
+  acknowledgeAlarm,
+  resolveAlarm,
+} from '../services/alarmService';
 
 const router = express.Router();
 
+// Check that a user may change an alarm through its site, or its device when it has no site
+async function checkAlarmAccess(user: Express.User, alarm: Alert): Promise<AccessDecision> {
+  if (alarm.siteId != null) {
+    return checkSiteAccess(user, alarm.siteId, storage);
+  }
+  if (alarm.deviceId != null) {
+    return checkDeviceAccess(user, alarm.deviceId, storage);
+  }
+  return user.role === 'admin'
+    ? { allowed: true }
+    : { allowed: false, status: 403, message: 'Insufficient permissions for this alarm' };
+}
+
 // Get current active alarms for a site
-router.get('/sites/:siteId/alarms/current', isAuthenticated, async (req, res) => {
+router.get('/sites/:siteId/alarms/current', isAuthenticated, requirePartnerAccess('siteId', 'site'), async (req, res) => {
   try {
-    const { siteId } = req.params;
-    const { status } = req.query;
+    const siteId = parseInt(req.params.siteId);
+    if (isNaN(siteId)) {
+      return res.status(400).json({ message: 'Invalid site ID' });
+    }
     
-    // In a real implementation, this would fetch from the database
-    const alarms = generateMockAlarms(siteId);
+    const { status } = req.query;
+    const alarms = await getActiveAlarms(siteId);
     
     // Filter by status if provided
     if (status && typeof status === 'string') {
@@ -27,12 +51,23 @@ router.get('/sites/:siteId/alarms/current', isAuthenticated, async (req, res) =>
 });
 
 // Get historical alarms for a site
-router.get('/sites/:siteId/alarms/history', isAuthenticated, async (req, res) => {
+router.get('/sites/:siteId/alarms/history', isAuthenticated, requirePartnerAccess('siteId', 'site'), async (req, res) => {
   try {
-    const { siteId } = req.params;
+    const siteId = parseInt(req.params.siteId);
+    if (isNaN(siteId)) {
+      return res.status(400).json({ message: 'Invalid site ID' });
+    }
     
-    // In a real implementation, this would fetch from the database
-    const alarms = generateMockAlarms(siteId, 'history');
+    const { startDate, endDate, status, severity, deviceId, limit } = req.query;
+    
+    const alarms = await getAlarmHistory(siteId, {
+      startDate: startDate ? new Date(startDate as string) : undefined,
+      endDate: endDate ? new Date(endDate as string) : undefined,
+      status: status as string | undefined,
+      severity: severity as string | undefined,
+      deviceId: deviceId ? parseInt(deviceId as string) : undefined,
+      limit: limit ? parseInt(limit as string) : undefined,
+    });
     
     return res.json(alarms);
   } catch (error) {
@@ -42,12 +77,15 @@ router.get('/sites/:siteId/alarms/history', isAuthenticated, async (req, res) =>
 });
 
 // Get alarm statistics for a site
-router.get('/sites/:siteId/alarms/stats', isAuthenticated, async (req, res) => {
+router.get('/sites/:siteId/alarms/stats', isAuthenticated, requirePartnerAccess('siteId', 'site'), async (req, res) => {
   try {
-    const { siteId } = req.params;
+    const siteId = parseInt(req.params.siteId);
+    if (isNaN(siteId)) {
+      return res.status(400).json({ message: 'Invalid site ID' });
+    }
     
-    // In a real implementation, this would calculate statistics from the database
-    const stats = generateMockAlarmStats(siteId);
+    const days = req.query.days ? parseInt(req.query.days as string) : 7;
+    const stats = await getAlarmStats(siteId, days);
     
     return res.json(stats);
   } catch (error) {
@@ -59,15 +97,31 @@ router.get('/sites/:siteId/alarms/stats', isAuthenticated, async (req, res) => {
 // Acknowledge an alarm
 router.post('/alarms/:alarmId/acknowledge', isAuthenticated, async (req, res) => {
   try {
-    const { alarmId } = req.params;
-    
-    // In a real implementation, this would update the database
-    // For now, just return success
-    return res.json({ 
-      success: true, 
-      message: 'Alarm acknowledged successfully',
-      alarmId
-    });
+    const alarmId = parseInt(req.params.alarmId);
+    if (isNaN(alarmId)) {
+      return res.status(400).json({ message: 'Invalid alarm ID' });
+    }
+    
+    const existing = await getAlarmById(alarmId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Alarm not found' });
+    }
+    
+    const access = await checkAlarmAccess(req.user!, existing);
+    if (!access.allowed) {
+      return res.status(access.status).json({ message: access.message });
+    }
+    
+    if (existing.status !== 'new') {
+      return res.status(409).json({ message: `Alarm is already ${existing.status}` });
+    }
+    
+    const alarm = await acknowledgeAlarm(alarmId, req.user!.id);
+    if (!alarm) {
+      return res.status(409).json({ message: 'Alarm changed state before it could be acknowledged' });
+    }
+    
+    return res.json(alarm);
   } catch (error) {
     console.error('Error acknowledging alarm:', error);
     return res.status(500).json({ message: 'Failed to acknowledge alarm' });
@@ -75,17 +129,34 @@ router.post('/alarms/:alarmId/acknowledge', isAuthenticated, async (req, res) =>
 });
 
 // Resolve an alarm
-router.post('/alarms/:alarmId/resolve', isAuthenticated, async (req, res) => {
+router.post('/alarms/:alarmId/resolve', isAuthenticated, requireManager, async (req, res) => {
   try {
-    const { alarmId } = req.params;
-    
-    // In a real implementation, this would update the database
-    // For now, just return success
-    return res.json({ 
-      success: true, 
-      message: 'Alarm resolved successfully',
-      alarmId
-    });
+    const alarmId = parseInt(req.params.alarmId);
+    if (isNaN(alarmId)) {
+      return res.status(400).json({ message: 'Invalid alarm ID' });
+    }
+    
+    const existing = await getAlarmById(alarmId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Alarm not found' });
+    }
+    
+    const access = await checkAlarmAccess(req.user!, existing);
+    if (!access.allowed) {
+      return res.status(access.status).json({ message: access.message });
+    }
+    
+    if (existing.status !== 'new' && existing.status !== 'acknowledged') {
+      return res.status(409).json({ message: `Alarm is already ${existing.status}` });
+    }
+    
+    const notes = typeof req.body?.notes === 'string' ? req.body.notes : undefined;
+    const alarm = await resolveAlarm(alarmId, req.user!.id, notes);
+    if (!alarm) {
+      return res.status(409).json({ message: 'Alarm changed state before it could be resolved' });
+    }
+    
+    return res.json(alarm);
   } catch (error) {
     console.error('Error resolving alarm:', error);
     return res.status(500).json({ message: 'Failed to resolve alarm' });
@@ -93,7 +164,7 @@ router.post('/alarms/:alarmId/resolve', isAuthenticated, async (req, res) => {
 });
 
 // Get operations summary for a site
-router.get('/sites/:siteId/operations/summary', isAuthenticated, async (req, res) => {
+router.get('/sites/:siteId/operations/summary', isAuthenticated, requirePartnerAccess('siteId', 'site'), async (req, res) => {
   try {
     const { siteId } = req.params;
     
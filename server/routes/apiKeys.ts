@@ -0,0 +1,134 @@
+import express from 'express';
+import { z, ZodError } from 'zod';
+import { isAuthenticated } from '../middleware/auth';
+import { requireSession } from '../middleware/apiKeyAuth';
+import {
+  API_KEY_SCOPES,
+  getApiKey,
+  getIssuableAccessLevels,
+  issueApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+} from '../services/apiKeyService';
+
+const router = express.Router();
+
+const scopePattern = /^(\*|[a-z0-9-]+:(read|write|control|\*)|\*:(read|write|control))$/;
+
+const issueApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  accessLevel: z.enum(['read_only', 'device_control', 'full_access', 'admin']),
+  scopes: z.array(z.string().regex(scopePattern, 'Invalid scope')).optional(),
+  allowedIps: z.array(z.string().min(1)).optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  rotationEnabled: z.boolean().optional(),
+  rotationIntervalDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+const rotateApiKeySchema = z.object({
+  gracePeriodHours: z.number().min(0).max(168).optional(),
+});
+
+// Key management always requires an interactive user session
+router.use(isAuthenticated, requireSession);
+
+// Get available scopes and the access levels the current user may issue
+router.get('/scopes', (req, res) => {
+  return res.json({
+    scopes: API_KEY_SCOPES,
+    accessLevels: getIssuableAccessLevels(req.user!.role),
+  });
+});
+
+// Get API keys owned by the current user (admins may list all keys)
+router.get('/', async (req, res) => {
+  try {
+    const showAll = req.query.all === 'true' && req.user!.role === 'admin';
+    const keys = await listApiKeys(showAll ? undefined : req.user!.id);
+    return res.json(keys);
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    return res.status(500).json({ message: 'Failed to fetch API keys' });
+  }
+});
+
+// Issue a new API key; the token is only returned in this response
+router.post('/', async (req, res) => {
+  try {
+    const keyData = issueApiKeySchema.parse(req.body);
+
+    if (!getIssuableAccessLevels(req.user!.role).includes(keyData.accessLevel)) {
+      return res.status(403).json({ message: 'Cannot issue a key with a higher access level than your own' });
+    }
+
+    if (keyData.expiresAt && keyData.expiresAt <= new Date()) {
+      return res.status(400).json({ message: 'Expiry must be in the future' });
+    }
+
+    const result = await issueApiKey(req.user!.id, keyData);
+    return res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid API key', errors: error.errors });
+    }
+    console.error('Error issuing API key:', error);
+    return res.status(500).json({ message: 'Failed to issue API key' });
+  }
+});
+
+// Rotate an API key's secret, keeping the previous secret valid for a grace period
+router.post('/:id/rotate', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid API key ID' });
+    }
+
+    const { gracePeriodHours } = rotateApiKeySchema.parse(req.body ?? {});
+
+    const existing = await getApiKey(id);
+    if (!existing || (existing.userId !== req.user!.id && req.user!.role !== 'admin')) {
+      return res.status(404).json({ message: 'API key not found' });
+    }
+    if (!existing.isActive) {
+      return res.status(409).json({ message: 'API key has been revoked' });
+    }
+
+    const result = await rotateApiKey(id, gracePeriodHours);
+    if (!result) {
+      return res.status(404).json({ message: 'API key not found' });
+    }
+
+    return res.json(result);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid rotation request', errors: error.errors });
+    }
+    console.error('Error rotating API key:', error);
+    return res.status(500).json({ message: 'Failed to rotate API key' });
+  }
+});
+
+// Revoke an API key immediately
+router.post('/:id/revoke', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid API key ID' });
+    }
+
+    const existing = await getApiKey(id);
+    if (!existing || (existing.userId !== req.user!.id && req.user!.role !== 'admin')) {
+      return res.status(404).json({ message: 'API key not found' });
+    }
+
+    const apiKey = await revokeApiKey(id);
+    return res.json(apiKey);
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    return res.status(500).json({ message: 'Failed to revoke API key' });
+  }
+});
+
+export default router;
@@ -0,0 +1,242 @@
+import express from 'express';
+import { z, ZodError } from 'zod';
+import { insertCommandAuthorizationSchema } from '@shared/schema';
+import { isAuthenticated } from '../middleware/auth';
+import { requireAdmin, requireManager, requireDeviceAccess } from '../middleware/roleAuth';
+import { requireSession } from '../middleware/apiKeyAuth';
+import { getCommandActor, sendCommandOutcome } from '../middleware/commandAuth';
+import { rateLimit } from '../middleware/rateLimit';
+import {
+  executeCommand,
+  approveCommand,
+  rejectCommand,
+  getPendingApprovals,
+  getCommandExecutions,
+  getCommandAuthorizations,
+  upsertCommandAuthorization,
+  deleteCommandAuthorization,
+} from '../services/commandGatewayService';
+import {
+  getCommandQueueSummary,
+  getDeviceCommandQueue,
+  getRemoteCommand,
+  cancelCommand,
+  type RemoteCommandStatus,
+} from '../services/commandQueueService';
+
+const router = express.Router();
+
+const RISK_LEVELS = ['low', 'medium', 'high', 'critical'] as const;
+
+const QUEUE_STATUSES = ['pending', 'sent', 'delivered', 'executed', 'failed', 'expired'] as const;
+
+const deviceCommandSchema = z.object({
+  command: z.string().min(1),
+  parameters: z.record(z.any()).optional(),
+  priority: z.number().int().min(1).max(10).optional(),
+  expiresInSeconds: z.number().int().min(1).optional(),
+});
+
+const commandRuleSchema = insertCommandAuthorizationSchema.omit({ deviceId: true }).extend({
+  riskLevel: z.enum(RISK_LEVELS).optional(),
+});
+
+// Send a generic command to a device through the command gateway
+router.post('/devices/:deviceId/commands', isAuthenticated, requireDeviceAccess('deviceId'), rateLimit('device_command'), async (req, res) => {
+  try {
+    const deviceId = parseInt(req.params.deviceId);
+    if (isNaN(deviceId)) {
+      return res.status(400).json({ message: 'Invalid device ID' });
+    }
+
+    const { command, parameters, priority, expiresInSeconds } = deviceCommandSchema.parse(req.body);
+    const outcome = await executeCommand(
+      getCommandActor(req),
+      deviceId,
+      command,
+      parameters,
+      { priority, expiresInSeconds }
+    );
+    return sendCommandOutcome(res, outcome);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid command', errors: error.errors });
+    }
+    console.error('Error sending device command:', error);
+    return res.status(500).json({ message: 'Failed to send device command' });
+  }
+});
+
+// Get the remote command queue for a device
+router.get('/devices/:deviceId/command-queue', isAuthenticated, requireDeviceAccess('deviceId'), async (req, res) => {
+  try {
+    const deviceId = parseInt(req.params.deviceId);
+    if (isNaN(deviceId)) {
+      return res.status(400).json({ message: 'Invalid device ID' });
+    }
+
+    const status = req.query.status
+      ? (req.query.status as string).split(',').filter((s): s is RemoteCommandStatus => (QUEUE_STATUSES as readonly string[]).includes(s))
+      : undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+
+    const [summary, commands] = await Promise.all([
+      getCommandQueueSummary(deviceId),
+      getDeviceCommandQueue(deviceId, { status, limit }),
+    ]);
+
+    return res.json({ ...summary, commands });
+  } catch (error) {
+    console.error('Error fetching command queue:', error);
+    return res.status(500).json({ message: 'Failed to fetch command queue' });
+  }
+});
+
+// Cancel a queued command that has not been delivered yet
+router.post('/devices/:deviceId/command-queue/:id/cancel', requireManager, requireDeviceAccess('deviceId'), async (req, res) => {
+  try {
+    const deviceId = parseInt(req.params.deviceId);
+    const id = parseInt(req.params.id);
+    if (isNaN(deviceId) || isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid parameters' });
+    }
+
+    const existing = await getRemoteCommand(id);
+    if (!existing || existing.deviceId !== deviceId) {
+      return res.status(404).json({ message: 'Command not found' });
+    }
+
+    const command = await cancelCommand(id, `Cancelled by ${req.user!.username}`);
+    if (!command) {
+      return res.status(409).json({ message: `Command is already ${existing.status}` });
+    }
+
+    return res.json(command);
+  } catch (error) {
+    console.error('Error cancelling queued command:', error);
+    return res.status(500).json({ message: 'Failed to cancel command' });
+  }
+});
+
+// Get command execution history for a device
+router.get('/devices/:deviceId/command-executions', isAuthenticated, requireDeviceAccess('deviceId'), async (req, res) => {
+  try {
+    const deviceId = parseInt(req.params.deviceId);
+    if (isNaN(deviceId)) {
+      return res.status(400).json({ message: 'Invalid device ID' });
+    }
+
+    const status = req.query.status ? (req.query.status as string).split(',') : undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+
+    const executions = await getCommandExecutions(deviceId, { status, limit });
+    return res.json(executions);
+  } catch (error) {
+    console.error('Error fetching command executions:', error);
+    return res.status(500).json({ message: 'Failed to fetch command executions' });
+  }
+});
+
+// Get command authorization rules for a device
+router.get('/devices/:deviceId/command-authorizations', isAuthenticated, requireDeviceAccess('deviceId'), async (req, res) => {
+  try {
+    const deviceId = parseInt(req.params.deviceId);
+    if (isNaN(deviceId)) {
+      return res.status(400).json({ message: 'Invalid device ID' });
+    }
+
+    const rules = await getCommandAuthorizations(deviceId);
+    return res.json(rules);
+  } catch (error) {
+    console.error('Error fetching command authorizations:', error);
+    return res.status(500).json({ message: 'Failed to fetch command authorizations' });
+  }
+});
+
+// Create or update the rule for a device command type ('*' applies to all commands)
+router.put('/devices/:deviceId/command-authorizations', requireAdmin, async (req, res) => {
+  try {
+    const deviceId = parseInt(req.params.deviceId);
+    if (isNaN(deviceId)) {
+      return res.status(400).json({ message: 'Invalid device ID' });
+    }
+
+    const ruleData = commandRuleSchema.parse(req.body);
+    const rule = await upsertCommandAuthorization({ ...ruleData, deviceId });
+    return res.json(rule);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid command authorization', errors: error.errors });
+    }
+    console.error('Error saving command authorization:', error);
+    return res.status(500).json({ message: 'Failed to save command authorization' });
+  }
+});
+
+// Delete a command authorization rule
+router.delete('/command-authorizations/:id', requireAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid rule ID' });
+    }
+
+    const deleted = await deleteCommandAuthorization(id);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Command authorization not found' });
+    }
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting command authorization:', error);
+    return res.status(500).json({ message: 'Failed to delete command authorization' });
+  }
+});
+
+// Get commands awaiting approval
+router.get('/commands/pending', isAuthenticated, async (req, res) => {
+  try {
+    const pending = await getPendingApprovals(getCommandActor(req));
+    return res.json(pending);
+  } catch (error) {
+    console.error('Error fetching pending commands:', error);
+    return res.status(500).json({ message: 'Failed to fetch pending commands' });
+  }
+});
+
+// Approve and execute a pending command (approvals always require a user session)
+router.post('/commands/:id/approve', isAuthenticated, requireSession, rateLimit('device_command'), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid command ID' });
+    }
+
+    const outcome = await approveCommand(id, getCommandActor(req));
+    return sendCommandOutcome(res, outcome);
+  } catch (error) {
+    console.error('Error approving command:', error);
+    return res.status(500).json({ message: 'Failed to approve command' });
+  }
+});
+
+// Reject a pending command
+router.post('/commands/:id/reject', isAuthenticated, requireSession, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid command ID' });
+    }
+
+    const outcome = await rejectCommand(id, getCommandActor(req), req.body?.reason);
+    if (outcome.status === 'denied') {
+      return res.json(outcome.execution);
+    }
+    return sendCommandOutcome(res, outcome);
+  } catch (error) {
+    console.error('Error rejecting command:', error);
+    return res.status(500).json({ message: 'Failed to reject command' });
+  }
+});
+
+export default router;
@@ -0,0 +1,137 @@
+import express from 'express';
+import { z, ZodError } from 'zod';
+import { insertRateLimitSchema } from '@shared/schema';
+import { requireAdmin } from '../middleware/roleAuth';
+import {
+  getRateLimitRules,
+  createRateLimitRule,
+  updateRateLimitRule,
+  deleteRateLimitRule,
+  getBlockedClients,
+  getRateLimitEvents,
+  unblockClient,
+} from '../services/rateLimitService';
+
+const router = express.Router();
+
+const rateLimitRuleSchema = insertRateLimitSchema.extend({
+  resourceType: z.enum(['ip', 'user', 'api_key']),
+  maxRequests: z.number().int().min(1),
+  timeWindowSeconds: z.number().int().min(1),
+  blockDurationSeconds: z.number().int().min(0).nullable().optional(),
+});
+
+// Get all rate limit rules
+router.get('/rules', requireAdmin, async (req, res) => {
+  try {
+    const rules = await getRateLimitRules();
+    return res.json(rules);
+  } catch (error) {
+    console.error('Error fetching rate limit rules:', error);
+    return res.status(500).json({ message: 'Failed to fetch rate limit rules' });
+  }
+});
+
+// Create a rate limit rule
+router.post('/rules', requireAdmin, async (req, res) => {
+  try {
+    const ruleData = rateLimitRuleSchema.parse(req.body);
+    const rule = await createRateLimitRule(ruleData);
+    return res.status(201).json(rule);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid rate limit rule', errors: error.errors });
+    }
+    console.error('Error creating rate limit rule:', error);
+    return res.status(500).json({ message: 'Failed to create rate limit rule' });
+  }
+});
+
+// Update a rate limit rule
+router.put('/rules/:id', requireAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid rule ID' });
+    }
+
+    const ruleData = rateLimitRuleSchema.partial().parse(req.body);
+    const rule = await updateRateLimitRule(id, ruleData);
+    if (!rule) {
+      return res.status(404).json({ message: 'Rate limit rule not found' });
+    }
+
+    return res.json(rule);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid rate limit rule', errors: error.errors });
+    }
+    console.error('Error updating rate limit rule:', error);
+    return res.status(500).json({ message: 'Failed to update rate limit rule' });
+  }
+});
+
+// Delete a rate limit rule
+router.delete('/rules/:id', requireAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid rule ID' });
+    }
+
+    const deleted = await deleteRateLimitRule(id);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Rate limit rule not found' });
+    }
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting rate limit rule:', error);
+    return res.status(500).json({ message: 'Failed to delete rate limit rule' });
+  }
+});
+
+// Get currently blocked clients
+router.get('/blocked', requireAdmin, async (req, res) => {
+  try {
+    const blocked = await getBlockedClients();
+    return res.json(blocked);
+  } catch (error) {
+    console.error('Error fetching blocked clients:', error);
+    return res.status(500).json({ message: 'Failed to fetch blocked clients' });
+  }
+});
+
+// Lift a block early
+router.post('/blocked/:eventId/unblock', requireAdmin, async (req, res) => {
+  try {
+    const eventId = parseInt(req.params.eventId);
+    if (isNaN(eventId)) {
+      return res.status(400).json({ message: 'Invalid event ID' });
+    }
+
+    const event = await unblockClient(eventId);
+    if (!event) {
+      return res.status(404).json({ message: 'Block not found' });
+    }
+
+    return res.json(event);
+  } catch (error) {
+    console.error('Error unblocking client:', error);
+    return res.status(500).json({ message: 'Failed to unblock client' });
+  }
+});
+
+// Get recent rate limit violations
+router.get('/events', requireAdmin, async (req, res) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
+    const events = await getRateLimitEvents(limit);
+    return res.json(events);
+  } catch (error) {
+    console.error('Error fetching rate limit events:', error);
+    return res.status(500).json({ message: 'Failed to fetch rate limit events' });
+  }
+});
+
+export default router;
@@ -0,0 +1,115 @@
+import express from 'express';
+import { z, ZodError } from 'zod';
+import { requireAdmin } from '../middleware/roleAuth';
+import { getAuditContext } from '../middleware/securityAudit';
+import {
+  getSecurityAuditLog,
+  getUnreviewedSuspiciousCount,
+  markAuditEntryReviewed,
+  getLockedAccounts,
+  unlockAccount,
+} from '../services/securityAuditService';
+
+const router = express.Router();
+
+const auditLogQuerySchema = z.object({
+  userId: z.coerce.number().int().optional(),
+  action: z.string().optional(),
+  status: z.enum(['success', 'failure', 'denied']).optional(),
+  suspicious: z.enum(['true', 'false']).optional(),
+  unreviewed: z.enum(['true', 'false']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+// Get audit log entries
+router.get('/', requireAdmin, async (req, res) => {
+  try {
+    const query = auditLogQuerySchema.parse(req.query);
+    const entries = await getSecurityAuditLog({
+      userId: query.userId,
+      action: query.action,
+      status: query.status,
+      suspiciousOnly: query.suspicious === 'true',
+      unreviewedOnly: query.unreviewed === 'true',
+      from: query.from,
+      to: query.to,
+      limit: query.limit,
+    });
+    return res.json(entries);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid audit log query', errors: error.errors });
+    }
+    console.error('Error fetching security audit log:', error);
+    return res.status(500).json({ message: 'Failed to fetch security audit log' });
+  }
+});
+
+// Get audit log summary counts
+router.get('/summary', requireAdmin, async (req, res) => {
+  try {
+    const [unreviewedSuspicious, lockedAccounts] = await Promise.all([
+      getUnreviewedSuspiciousCount(),
+      getLockedAccounts(),
+    ]);
+    return res.json({ unreviewedSuspicious, lockedAccounts: lockedAccounts.length });
+  } catch (error) {
+    console.error('Error fetching security audit summary:', error);
+    return res.status(500).json({ message: 'Failed to fetch security audit summary' });
+  }
+});
+
+// Mark an entry as reviewed
+router.post('/:id/review', requireAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid audit entry ID' });
+    }
+
+    const entry = await markAuditEntryReviewed(id, req.user!.id);
+    if (!entry) {
+      return res.status(404).json({ message: 'Audit entry not found' });
+    }
+
+    return res.json(entry);
+  } catch (error) {
+    console.error('Error reviewing audit entry:', error);
+    return res.status(500).json({ message: 'Failed to review audit entry' });
+  }
+});
+
+// Get locked user accounts
+router.get('/locked-accounts', requireAdmin, async (req, res) => {
+  try {
+    const accounts = await getLockedAccounts();
+    return res.json(accounts);
+  } catch (error) {
+    console.error('Error fetching locked accounts:', error);
+    return res.status(500).json({ message: 'Failed to fetch locked accounts' });
+  }
+});
+
+// Unlock a user account
+router.post('/locked-accounts/:userId/unlock', requireAdmin, async (req, res) => {
+  try {
+    const userId = parseInt(req.params.userId);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    const unlocked = await unlockAccount(userId, getAuditContext(req));
+    if (!unlocked) {
+      return res.status(404).json({ message: 'Locked account not found' });
+    }
+
+    return res.json({ message: 'Account unlocked' });
+  } catch (error) {
+    console.error('Error unlocking account:', error);
+    return res.status(500).json({ message: 'Failed to unlock account' });
+  }
+});
+
+export default router;
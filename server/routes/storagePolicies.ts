@@ -0,0 +1,190 @@
+import express from 'express';
+import { eq } from 'drizzle-orm';
+import { ZodError } from 'zod';
+import { db } from '../db';
+import { storagePolicyRules, insertStoragePolicyRuleSchema } from '@shared/schema';
+import { requireAdmin } from '../middleware/roleAuth';
+import { getDataLifecycleService, parseAggregationPeriod } from '../services/dataLifecycleService';
+
+const router = express.Router();
+
+const POLICY_ACTIONS = ['move', 'copy', 'compress', 'delete'];
+
+// Validate rule fields that the schema cannot express
+function validatePolicy(policy: Record<string, any>): string | null {
+  if (policy.action !== undefined && !POLICY_ACTIONS.includes(policy.action)) {
+    return `Action must be one of: ${POLICY_ACTIONS.join(', ')}`;
+  }
+
+  if (policy.action === 'move' && policy.sourceTier === policy.destinationTier) {
+    return 'A move rule needs different source and destination tiers';
+  }
+
+  if (policy.aggregationPeriod) {
+    try {
+      parseAggregationPeriod(policy.aggregationPeriod);
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+
+  return null;
+}
+
+// Get all storage policy rules
+router.get('/policies', requireAdmin, async (req, res) => {
+  try {
+    const policies = await db.select().from(storagePolicyRules).orderBy(storagePolicyRules.priority);
+    return res.json(policies);
+  } catch (error) {
+    console.error('Error fetching storage policies:', error);
+    return res.status(500).json({ message: 'Failed to fetch storage policies' });
+  }
+});
+
+// Create a storage policy rule
+router.post('/policies', requireAdmin, async (req, res) => {
+  try {
+    const policyData = insertStoragePolicyRuleSchema.parse(req.body);
+    const validationError = validatePolicy(policyData);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    const [policy] = await db.insert(storagePolicyRules).values(policyData).returning();
+    return res.status(201).json(policy);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid storage policy', errors: error.errors });
+    }
+    console.error('Error creating storage policy:', error);
+    return res.status(500).json({ message: 'Failed to create storage policy' });
+  }
+});
+
+// Create the default storage policy rules when no rules exist yet
+router.post('/policies/defaults', requireAdmin, async (req, res) => {
+  try {
+    const created = await getDataLifecycleService().seedDefaultPolicies();
+    if (created === 0) {
+      return res.status(409).json({ message: 'Storage policies already exist' });
+    }
+
+    return res.status(201).json({ created });
+  } catch (error) {
+    console.error('Error creating default storage policies:', error);
+    return res.status(500).json({ message: 'Failed to create default storage policies' });
+  }
+});
+
+// Update a storage policy rule
+router.put('/policies/:id', requireAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid policy ID' });
+    }
+
+    const policyData = insertStoragePolicyRuleSchema.partial().parse(req.body);
+    const [existing] = await db.select().from(storagePolicyRules).where(eq(storagePolicyRules.id, id));
+    if (!existing) {
+      return res.status(404).json({ message: 'Storage policy not found' });
+    }
+
+    // Validate the rule as it will be saved, since tiers and action may change separately
+    const validationError = validatePolicy({ ...existing, ...policyData });
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    const [policy] = await db
+      .update(storagePolicyRules)
+      .set({ ...policyData, updatedAt: new Date() })
+      .where(eq(storagePolicyRules.id, id))
+      .returning();
+
+    if (!policy) {
+      return res.status(404).json({ message: 'Storage policy not found' });
+    }
+
+    return res.json(policy);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid storage policy', errors: error.errors });
+    }
+    console.error('Error updating storage policy:', error);
+    return res.status(500).json({ message: 'Failed to update storage policy' });
+  }
+});
+
+// Disable a storage policy rule (kept so transfer job history stays linked)
+router.delete('/policies/:id', requireAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid policy ID' });
+    }
+
+    const [policy] = await db
+      .update(storagePolicyRules)
+      .set({ isEnabled: false, updatedAt: new Date() })
+      .where(eq(storagePolicyRules.id, id))
+      .returning();
+
+    if (!policy) {
+      return res.status(404).json({ message: 'Storage policy not found' });
+    }
+
+    return res.json(policy);
+  } catch (error) {
+    console.error('Error disabling storage policy:', error);
+    return res.status(500).json({ message: 'Failed to disable storage policy' });
+  }
+});
+
+// Run a storage policy rule immediately
+router.post('/policies/:id/run', requireAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid policy ID' });
+    }
+
+    const job = await getDataLifecycleService().runPolicy(id);
+    if (!job) {
+      return res.status(404).json({ message: 'Storage policy not found' });
+    }
+
+    return res.json(job);
+  } catch (error) {
+    console.error('Error running storage policy:', error);
+    return res.status(500).json({ message: 'Failed to run storage policy' });
+  }
+});
+
+// Get data transfer job history
+router.get('/jobs', requireAdmin, async (req, res) => {
+  try {
+    const policyRuleId = req.query.policyRuleId ? parseInt(req.query.policyRuleId as string) : undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+
+    const jobs = await getDataLifecycleService().getTransferJobs(policyRuleId, limit);
+    return res.json(jobs);
+  } catch (error) {
+    console.error('Error fetching data transfer jobs:', error);
+    return res.status(500).json({ message: 'Failed to fetch data transfer jobs' });
+  }
+});
+
+// Get storage tier metrics
+router.get('/metrics', requireAdmin, async (req, res) => {
+  try {
+    const metrics = await getDataLifecycleService().getTierMetrics();
+    return res.json(metrics);
+  } catch (error) {
+    console.error('Error fetching storage tier metrics:', error);
+    return res.status(500).json({ message: 'Failed to fetch storage tier metrics' });
+  }
+});
+
+export default router;
@@ -0,0 +1,215 @@
+import express from 'express';
+import { z, ZodError } from 'zod';
+import { comparePasswords } from '../auth';
+import { isAuthenticated } from '../middleware/auth';
+import { requireSession } from '../middleware/apiKeyAuth';
+import { rateLimit } from '../middleware/rateLimit';
+import { getAuditContext } from '../middleware/securityAudit';
+import { recordSecurityEvent } from '../services/securityAuditService';
+import {
+  createEnrollment,
+  verifyTotpCode,
+  verifySecondFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  getRemainingRecoveryCodes,
+  isMfaFresh,
+  MFA_STEP_UP_WINDOW,
+} from '../services/twoFactorService';
+
+const router = express.Router();
+
+const codeSchema = z.object({
+  code: z.string().min(6).max(8),
+});
+
+const secondFactorSchema = z.object({
+  code: z.string().min(6).max(8).optional(),
+  recoveryCode: z.string().min(10).max(11).optional(),
+}).refine(data => data.code || data.recoveryCode, {
+  message: 'A verification code or recovery code is required',
+});
+
+const disableSchema = z.object({
+  password: z.string().min(1),
+  code: z.string().min(6).max(8).optional(),
+  recoveryCode: z.string().min(10).max(11).optional(),
+});
+
+// Two-factor settings belong to the signed-in user, never to API keys
+router.use(isAuthenticated, requireSession);
+
+// Get two-factor status for the current user
+router.get('/status', (req, res) => {
+  const user = req.user!;
+  return res.json({
+    enabled: !!user.twoFactorEnabled,
+    recoveryCodesRemaining: getRemainingRecoveryCodes(user),
+    stepUpValid: isMfaFresh(req.session.mfaVerifiedAt),
+    stepUpExpiresAt: req.session.mfaVerifiedAt
+      ? new Date(req.session.mfaVerifiedAt + MFA_STEP_UP_WINDOW).toISOString()
+      : null,
+  });
+});
+
+// Start enrollment: returns the secret and QR code to scan
+router.post('/setup', async (req, res) => {
+  try {
+    if (req.user!.twoFactorEnabled) {
+      return res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+    }
+
+    const enrollment = await createEnrollment(req.user!);
+    req.session.pendingTwoFactorSecret = enrollment.secret;
+    return res.json(enrollment);
+  } catch (error) {
+    console.error('Error starting two-factor enrollment:', error);
+    return res.status(500).json({ message: 'Failed to start two-factor enrollment' });
+  }
+});
+
+// Confirm enrollment with a first code; returns the recovery codes
+router.post('/enable', rateLimit('login'), async (req, res) => {
+  try {
+    const { code } = codeSchema.parse(req.body);
+    const secret = req.session.pendingTwoFactorSecret;
+    if (!secret) {
+      return res.status(400).json({ message: 'Start two-factor setup first' });
+    }
+
+    if (!verifyTotpCode(req.user!.id, secret, code)) {
+      return res.status(400).json({ message: 'Invalid verification code' });
+    }
+
+    const recoveryCodes = await enableTwoFactor(req.user!.id, secret);
+    delete req.session.pendingTwoFactorSecret;
+    req.session.mfaVerifiedAt = Date.now();
+
+    await recordSecurityEvent({
+      ...getAuditContext(req),
+      action: 'two_factor_enabled',
+      resourceType: 'user',
+      resourceId: req.user!.id,
+    });
+
+    return res.json({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid verification code', errors: error.errors });
+    }
+    console.error('Error enabling two-factor authentication:', error);
+    return res.status(500).json({ message: 'Failed to enable two-factor authentication' });
+  }
+});
+
+// Turn off two-factor authentication; requires the password and a second factor
+router.post('/disable', rateLimit('login'), async (req, res) => {
+  try {
+    const { password, code, recoveryCode } = disableSchema.parse(req.body);
+    const user = req.user!;
+
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+    }
+
+    const passwordValid = await comparePasswords(password, user.password);
+    const method = passwordValid ? await verifySecondFactor(user, { code, recoveryCode }) : null;
+    if (!method) {
+      await recordSecurityEvent({
+        ...getAuditContext(req),
+        action: 'two_factor_disabled',
+        resourceType: 'user',
+        resourceId: user.id,
+        status: 'failure',
+        failureReason: passwordValid ? 'Invalid verification code' : 'Invalid password',
+      });
+      return res.status(400).json({ message: 'Invalid password or verification code' });
+    }
+
+    await disableTwoFactor(user.id);
+    delete req.session.mfaVerifiedAt;
+
+    await recordSecurityEvent({
+      ...getAuditContext(req),
+      action: 'two_factor_disabled',
+      resourceType: 'user',
+      resourceId: user.id,
+    });
+
+    return res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid request', errors: error.errors });
+    }
+    console.error('Error disabling two-factor authentication:', error);
+    return res.status(500).json({ message: 'Failed to disable two-factor authentication' });
+  }
+});
+
+// Replace the recovery codes; requires a current code
+router.post('/recovery-codes', rateLimit('login'), async (req, res) => {
+  try {
+    const { code } = codeSchema.parse(req.body);
+    const user = req.user!;
+
+    if (!user.twoFactorEnabled || !(await verifySecondFactor(user, { code }))) {
+      return res.status(400).json({ message: 'Invalid verification code' });
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+
+    await recordSecurityEvent({
+      ...getAuditContext(req),
+      action: 'recovery_codes_regenerated',
+      resourceType: 'user',
+      resourceId: user.id,
+    });
+
+    return res.json({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid verification code', errors: error.errors });
+    }
+    console.error('Error regenerating recovery codes:', error);
+    return res.status(500).json({ message: 'Failed to regenerate recovery codes' });
+  }
+});
+
+// Step-up: re-enter a second factor before sensitive commands
+router.post('/verify', rateLimit('login'), async (req, res) => {
+  try {
+    const credentials = secondFactorSchema.parse(req.body);
+    const user = req.user!;
+
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({ message: 'Enable two-factor authentication to run commands that require it' });
+    }
+
+    const method = await verifySecondFactor(user, credentials);
+    await recordSecurityEvent({
+      ...getAuditContext(req),
+      action: 'mfa_step_up',
+      resourceType: 'user',
+      resourceId: user.id,
+      status: method ? 'success' : 'failure',
+      failureReason: method ? undefined : 'Invalid verification code',
+      details: method ? { secondFactor: method } : undefined,
+    });
+
+    if (!method) {
+      return res.status(400).json({ message: 'Invalid verification code' });
+    }
+
+    req.session.mfaVerifiedAt = Date.now();
+    return res.json({ stepUpExpiresAt: new Date(req.session.mfaVerifiedAt + MFA_STEP_UP_WINDOW).toISOString() });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid verification code', errors: error.errors });
+    }
+    console.error('Error verifying second factor:', error);
+    return res.status(500).json({ message: 'Failed to verify second factor' });
+  }
+});
+
+export default router;
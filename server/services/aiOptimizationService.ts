@@ -1,9 +1,8 @@
 import { MqttService } from './mqttService';
 import { DeviceManagementService } from './deviceManagementService';
 import OpenAI from 'openai';
-import { db } from '../db';
-import { Device, tariffs } from '@shared/schema';
-import { eq } from 'drizzle-orm';
+import { Device } from '@shared/schema';
+import { getRateSchedule, getSiteTariffContext, hasTimeOfUsePeriods, resolveRate } from './tariffEngine';
 
 // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
 const OPENAI_MODEL = 'gpt-4o';
@@ -556,6 +555,10 @@ export class AIOptimizationService {
       values: []
     };
     
+    // Prices come from the site tariff, resolved in the site's local time
+    const tariffContext = await getSiteTariffContext(siteId);
+    const hourlyRates = tariffContext ? getRateSchedule(tariffContext, now, 24) : [];
+    
     // Generate 24 hours of forecasts
     for (let i = 0; i < 24; i++) {
       const forecastTime = new Date(now.getTime() + i * 3600000);
@@ -577,9 +580,11 @@ export class AIOptimizationService {
         consumption = 3;
       }
       
-      // Simple price model with peak pricing in the evening
+      // Simple price model with peak pricing in the evening for sites without a tariff
       let price = 0.10; // Base price
-      if (hour >= 16 && hour <= 20) {
+      if (hourlyRates[i]) {
+        price = hourlyRates[i].importRate;
+      } else if (hour >= 16 && hour <= 20) {
         // Evening peak pricing
         price = 0.25;
       } else if (hour >= 22 || hour <= 6) {
@@ -627,64 +632,31 @@ export class AIOptimizationService {
 
   private async getTariffInfo(siteId: number): Promise<any> {
     try {
-      // Get tariffs for the site
-      const siteSpecificTariffs = await db.select().from(tariffs).where(eq(tariffs.siteId, siteId));
+      const context = await getSiteTariffContext(siteId);
       
-      if (siteSpecificTariffs.length === 0) {
+      if (!context) {
         return null;
       }
       
-      // For now, just use the first tariff found
-      const tariff = siteSpecificTariffs[0];
-      
-      // Get current rate based on time of day if it's a Time of Use tariff
-      let currentRate = Number(tariff.importRate);
-      let currentPeriod = 'Standard Rate';
-      
-      if (tariff.isTimeOfUse && tariff.scheduleData) {
-        const now = new Date();
-        const hours = now.getHours();
-        const schedule = tariff.scheduleData as Record<string, Record<string, number>>;
-        
-        // Determine current season
-        const month = now.getMonth() + 1; // JavaScript months are 0-indexed
-        
-        let currentSeason;
-        if (month >= 6 && month <= 9) {
-          currentSeason = 'summer'; // June-September
-        } else if (month >= 10 && month <= 11) {
-          currentSeason = 'autumn'; // October-November
-        } else if (month >= 3 && month <= 5) {
-          currentSeason = 'spring'; // March-May
-        } else {
-          currentSeason = 'winter'; // December-February
-        }
-        
-        const seasonSchedule = schedule[currentSeason];
-        
-        if (seasonSchedule) {
-          if (hours >= 17 && hours < 22) {
-            currentRate = seasonSchedule.peak;
-            currentPeriod = 'Peak';
-          } else if ((hours >= 7 && hours < 17) || (hours >= 22 && hours < 23)) {
-            currentRate = seasonSchedule.shoulder;
-            currentPeriod = 'Shoulder';
-          } else {
-            currentRate = seasonSchedule.offPeak;
-            currentPeriod = 'Off-Peak';
-          }
-        }
-      }
+      const { tariff, definition } = context;
+      const rate = resolveRate(context);
+      const peakPeriod = definition.seasons
+        .find(season => season.name === rate.season)
+        ?.periods.find(period => period.type === 'peak');
       
       return {
         name: tariff.name,
         provider: tariff.provider,
-        importRate: currentRate,
-        exportRate: Number(tariff.exportRate),
-        currency: tariff.currency,
-        isTimeOfUse: tariff.isTimeOfUse,
-        currentPeriod: currentPeriod,
-        isIsraeliTariff: tariff.name.includes('Israeli'),
+        importRate: rate.importRate,
+        exportRate: rate.exportRate,
+        currency: rate.currency,
+        isTimeOfUse: hasTimeOfUsePeriods(definition),
+        currentPeriod: rate.period,
+        season: rate.season,
+        localTime: rate.localTime,
+        timezone: rate.timezone,
+        peakHours: peakPeriod ? `${peakPeriod.startTime}-${peakPeriod.endTime}` : null,
+        isIsraeliTariff: definition.region === 'IL',
       };
     } catch (error) {
       console.error('Error fetching tariff info:', error);
@@ -725,7 +697,8 @@ Electricity Tariff Information:
 - Current Import Rate: ${tariffInfo.importRate} ${tariffInfo.currency}/kWh
 - Export Rate: ${tariffInfo.exportRate} ${tariffInfo.currency}/kWh
 - Type: ${tariffInfo.isTimeOfUse ? 'Time of Use' : 'Fixed Rate'}
-${tariffInfo.isTimeOfUse ? `- Current Period: ${tariffInfo.currentPeriod}` : ''}
+${tariffInfo.isTimeOfUse ? `- Current Period: ${tariffInfo.currentPeriod}${tariffInfo.season ? `, ${tariffInfo.season} season` : ''}` : ''}
+- Site local time: ${tariffInfo.localTime} (${tariffInfo.timezone})
 `;
 
       // Add special instructions for Israeli tariffs
@@ -733,11 +706,11 @@ ${tariffInfo.isTimeOfUse ? `- Current Period: ${tariffInfo.currentPeriod}` : ''}
         prompt += `
 IMPORTANT: This site uses the Israeli Electricity Tariff system. Consider these specifics for optimization:
 - Israeli tariffs have distinct seasonal variations (summer, winter, spring, autumn)
-- Peak hours (17:00-22:00) have significantly higher rates, especially in summer
+- Peak hours (${tariffInfo.peakHours ?? '17:00-22:00'} on weekdays) have significantly higher rates, especially in summer
 - The Israeli grid often experiences capacity constraints during peak hours
 - Solar export compensation is fixed at ${tariffInfo.exportRate} ILS/kWh regardless of time
 - For cost optimization, prioritize grid import during off-peak hours (23:00-7:00)
-- For peak shaving, ensure battery discharge during evening peak (17:00-22:00)
+- For peak shaving, ensure battery discharge during evening peak (${tariffInfo.peakHours ?? '17:00-22:00'})
 - Using battery storage for arbitrage shows excellent profitability due to wide price differential
 `;
       }
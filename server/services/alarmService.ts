@@ -0,0 +1,693 @@
+/**
+ * Alarm Service
+ *
+ * Raises, de-duplicates, auto-clears and persists alarms in the alerts table.
+ * Alarms originate from BMS alarm/warning states, device status transitions,
+ * gateway heartbeats and predictive maintenance alerts. Repeat occurrences of
+ * an open alarm are folded into the existing row (identified by its
+ * de-duplication key) instead of creating a new one.
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  alerts,
+  batteryTelemetry,
+  devices,
+  users,
+  type Alert,
+  type DeviceMaintenanceAlert,
+} from '@shared/schema';
+import { eq, and, desc, gt, gte, lte, inArray } from 'drizzle-orm';
+import { getMqttService } from './mqttService';
+import { broadcastAlarm } from './websocketService';
+
+export type AlarmSeverity = 'info' | 'warning' | 'error' | 'critical';
+export type AlarmSource = 'bms' | 'device_status' | 'gateway' | 'maintenance' | 'manual';
+
+export interface RaiseAlarmInput {
+  siteId?: number | null;
+  deviceId?: number | null;
+  source: AlarmSource;
+  code: string;
+  title: string;
+  message: string;
+  severity: AlarmSeverity;
+  data?: Record<string, any>;
+}
+
+export interface AlarmView extends Alert {
+  deviceName: string | null;
+  deviceType: string | null;
+  acknowledgedByName: string | null;
+  resolvedByName: string | null;
+}
+
+const OPEN_STATUSES = ['new', 'acknowledged'] as const;
+
+const SEVERITY_RANK: Record<AlarmSeverity, number> = {
+  info: 0,
+  warning: 1,
+  error: 2,
+  critical: 3,
+};
+
+// BMS alarm codes that are always treated as critical regardless of source severity
+const CRITICAL_BMS_CODES = new Set([
+  'cell_over_voltage',
+  'cell_under_voltage',
+  'over_temperature',
+  'thermal_runaway',
+  'short_circuit',
+  'insulation_fault',
+]);
+
+// Interval for scanning newly stored battery telemetry for BMS alarm states
+const BMS_SCAN_INTERVAL = 60000; // 1 minute
+
+let bmsScanTimer: NodeJS.Timeout | null = null;
+let lastBmsScanAt = new Date();
+
+/**
+ * Build the de-duplication key identifying an open alarm
+ */
+export function buildDedupeKey(
+  source: AlarmSource,
+  code: string,
+  deviceId?: number | null,
+  siteId?: number | null
+): string {
+  const scope = deviceId ? `device-${deviceId}` : `site-${siteId ?? 'none'}`;
+  return `${source}:${scope}:${code}`;
+}
+
+/**
+ * Raise an alarm, or record another occurrence of the matching open alarm
+ */
+export async function raiseAlarm(input: RaiseAlarmInput, retry = true): Promise<Alert> {
+  const siteId = input.siteId ?? (input.deviceId ? await getDeviceSiteId(input.deviceId) : null);
+  const dedupeKey = buildDedupeKey(input.source, input.code, input.deviceId, siteId);
+  const now = new Date();
+
+  const existing = await findOpenAlarm(dedupeKey);
+
+  if (existing) {
+    const currentSeverity = (existing.severity || 'info') as AlarmSeverity;
+    const severity = SEVERITY_RANK[input.severity] > SEVERITY_RANK[currentSeverity]
+      ? input.severity
+      : currentSeverity;
+
+    const [updated] = await db
+      .update(alerts)
+      .set({
+        message: input.message,
+        severity,
+        occurrenceCount: (existing.occurrenceCount || 1) + 1,
+        lastOccurrenceAt: now,
+        data: { ...((existing.data as Record<string, any>) || {}), ...(input.data || {}) },
+      })
+      .where(eq(alerts.id, existing.id))
+      .returning();
+
+    if (severity !== currentSeverity) {
+      notifyAlarm(updated, 'escalated');
+    }
+
+    return updated;
+  }
+
+  try {
+    const [alarm] = await db
+      .insert(alerts)
+      .values({
+        siteId,
+        deviceId: input.deviceId ?? null,
+        title: input.title,
+        message: input.message,
+        severity: input.severity,
+        status: 'new',
+        source: input.source,
+        code: input.code,
+        dedupeKey,
+        occurrenceCount: 1,
+        lastOccurrenceAt: now,
+        data: input.data || null,
+      })
+      .returning();
+
+    notifyAlarm(alarm, 'raised');
+    return alarm;
+  } catch (error: any) {
+    // Another process opened the same alarm concurrently; record it as an occurrence instead
+    if (retry && error?.code === '23505') {
+      return raiseAlarm(input, false);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Automatically clear an open alarm because its source condition returned to normal
+ */
+export async function clearAlarm(
+  source: AlarmSource,
+  code: string,
+  deviceId?: number | null,
+  siteId?: number | null,
+  reason?: string
+): Promise<Alert | undefined> {
+  const resolvedSiteId = siteId ?? (deviceId ? await getDeviceSiteId(deviceId) : null);
+  const existing = await findOpenAlarm(buildDedupeKey(source, code, deviceId, resolvedSiteId));
+
+  if (!existing) {
+    return undefined;
+  }
+
+  return autoClear(existing, reason);
+}
+
+/**
+ * Acknowledge an alarm on behalf of a user
+ */
+export async function acknowledgeAlarm(alarmId: number, userId: number): Promise<Alert | undefined> {
+  const [alarm] = await db
+    .update(alerts)
+    .set({
+      status: 'acknowledged',
+      acknowledgedAt: new Date(),
+      acknowledgedBy: userId,
+    })
+    .where(and(eq(alerts.id, alarmId), eq(alerts.status, 'new')))
+    .returning();
+
+  if (alarm) {
+    notifyAlarm(alarm, 'acknowledged');
+  }
+
+  return alarm;
+}
+
+/**
+ * Resolve an alarm on behalf of a user. Unacknowledged alarms are implicitly
+ * acknowledged by the resolving user so the audit trail stays complete.
+ */
+export async function resolveAlarm(
+  alarmId: number,
+  userId: number,
+  notes?: string
+): Promise<Alert | undefined> {
+  const existing = await getAlarmById(alarmId);
+
+  if (!existing || !isOpen(existing)) {
+    return undefined;
+  }
+
+  const now = new Date();
+  const [alarm] = await db
+    .update(alerts)
+    .set({
+      status: 'resolved',
+      resolvedAt: now,
+      resolvedBy: userId,
+      acknowledgedAt: existing.acknowledgedAt ?? now,
+      acknowledgedBy: existing.acknowledgedBy ?? userId,
+      resolutionNotes: notes ?? existing.resolutionNotes,
+      autoCleared: false,
+    })
+    .where(and(eq(alerts.id, alarmId), inArray(alerts.status, [...OPEN_STATUSES])))
+    .returning();
+
+  if (alarm) {
+    notifyAlarm(alarm, 'resolved');
+  }
+
+  return alarm;
+}
+
+/**
+ * Get alarm by ID
+ */
+export async function getAlarmById(alarmId: number): Promise<Alert | undefined> {
+  const [alarm] = await db
+    .select()
+    .from(alerts)
+    .where(eq(alerts.id, alarmId));
+
+  return alarm;
+}
+
+/**
+ * Get open (new or acknowledged) alarms for a site
+ */
+export async function getActiveAlarms(siteId: number): Promise<AlarmView[]> {
+  const rows = await db
+    .select({ alarm: alerts, deviceName: devices.name, deviceType: devices.type })
+    .from(alerts)
+    .leftJoin(devices, eq(alerts.deviceId, devices.id))
+    .where(and(eq(alerts.siteId, siteId), inArray(alerts.status, [...OPEN_STATUSES])))
+    .orderBy(desc(alerts.timestamp));
+
+  return withUserNames(rows);
+}
+
+/**
+ * Get alarm history for a site with optional filters
+ */
+export async function getAlarmHistory(
+  siteId: number,
+  options: {
+    startDate?: Date;
+    endDate?: Date;
+    status?: string;
+    severity?: string;
+    deviceId?: number;
+    limit?: number;
+  } = {}
+): Promise<AlarmView[]> {
+  const { startDate, endDate, status, severity, deviceId, limit = 500 } = options;
+  const conditions = [eq(alerts.siteId, siteId)];
+
+  if (startDate) conditions.push(gte(alerts.timestamp, startDate));
+  if (endDate) conditions.push(lte(alerts.timestamp, endDate));
+  if (status) conditions.push(eq(alerts.status, status as any));
+  if (severity) conditions.push(eq(alerts.severity, severity as any));
+  if (deviceId) conditions.push(eq(alerts.deviceId, deviceId));
+
+  const rows = await db
+    .select({ alarm: alerts, deviceName: devices.name, deviceType: devices.type })
+    .from(alerts)
+    .leftJoin(devices, eq(alerts.deviceId, devices.id))
+    .where(and(...conditions))
+    .orderBy(desc(alerts.timestamp))
+    .limit(limit);
+
+  return withUserNames(rows);
+}
+
+/**
+ * Calculate alarm statistics for a site over the given number of days
+ */
+export async function getAlarmStats(siteId: number, days = 7) {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const alarms = await getAlarmHistory(siteId, { startDate: since, limit: 10000 });
+
+  const bySeverity: Record<AlarmSeverity, number> = { info: 0, warning: 0, error: 0, critical: 0 };
+  const deviceCounts = new Map<number, { deviceId: number; deviceName: string; count: number }>();
+  const typeCounts = new Map<string, number>();
+  const sourceCounts = new Map<string, number>();
+  let acknowledgeMinutes = 0;
+  let acknowledgeCount = 0;
+  let resolveMinutes = 0;
+  let resolveCount = 0;
+
+  for (const alarm of alarms) {
+    bySeverity[(alarm.severity || 'info') as AlarmSeverity]++;
+
+    if (alarm.deviceId) {
+      const entry = deviceCounts.get(alarm.deviceId) ||
+        { deviceId: alarm.deviceId, deviceName: alarm.deviceName || `Device ${alarm.deviceId}`, count: 0 };
+      entry.count++;
+      deviceCounts.set(alarm.deviceId, entry);
+    }
+
+    const type = alarm.code || 'unknown';
+    typeCounts.set(type, (typeCounts.get(type) || 0) + 1);
+    sourceCounts.set(alarm.source || 'manual', (sourceCounts.get(alarm.source || 'manual') || 0) + 1);
+
+    if (alarm.timestamp && alarm.acknowledgedAt) {
+      acknowledgeMinutes += (alarm.acknowledgedAt.getTime() - alarm.timestamp.getTime()) / 60000;
+      acknowledgeCount++;
+    }
+    if (alarm.timestamp && alarm.resolvedAt) {
+      resolveMinutes += (alarm.resolvedAt.getTime() - alarm.timestamp.getTime()) / 60000;
+      resolveCount++;
+    }
+  }
+
+  const timeline = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date();
+    date.setDate(date.getDate() - i);
+    const day = date.toISOString().split('T')[0];
+    const dayAlarms = alarms.filter(a => a.timestamp?.toISOString().startsWith(day));
+
+    timeline.push({
+      date: day,
+      total: dayAlarms.length,
+      critical: dayAlarms.filter(a => a.severity === 'critical').length,
+      error: dayAlarms.filter(a => a.severity === 'error').length,
+      warning: dayAlarms.filter(a => a.severity === 'warning').length,
+      info: dayAlarms.filter(a => a.severity === 'info').length,
+    });
+  }
+
+  return {
+    siteId,
+    periodDays: days,
+    total: alarms.length,
+    active: alarms.filter(a => a.status === 'new').length,
+    acknowledged: alarms.filter(a => a.status === 'acknowledged').length,
+    resolved: alarms.filter(a => a.status === 'resolved').length,
+    autoCleared: alarms.filter(a => a.autoCleared).length,
+    ...bySeverity,
+    byDevice: Array.from(deviceCounts.values()).sort((a, b) => b.count - a.count),
+    byType: Array.from(typeCounts.entries())
+      .map(([type, count]) => ({ type, count }))
+      .sort((a, b) => b.count - a.count),
+    bySource: Array.from(sourceCounts.entries()).map(([source, count]) => ({ source, count })),
+    meanTimeToAcknowledgeMinutes: acknowledgeCount ? Math.round(acknowledgeMinutes / acknowledgeCount) : null,
+    meanTimeToResolveMinutes: resolveCount ? Math.round(resolveMinutes / resolveCount) : null,
+    timeline,
+  };
+}
+
+/**
+ * Raise and clear alarms from a BMS alarm/warning state snapshot.
+ * States may be an object of flags ({ cellOverVoltage: true }) or an array of codes.
+ */
+export async function processBmsAlarmStates(
+  deviceId: number,
+  alarmStates: unknown,
+  warningStates?: unknown
+): Promise<void> {
+  const activeAlarms = parseStateCodes(alarmStates);
+  const activeWarnings = parseStateCodes(warningStates);
+  const activeCodes = new Set<string>();
+
+  for (const code of activeAlarms) {
+    activeCodes.add(code);
+    await raiseAlarm({
+      deviceId,
+      source: 'bms',
+      code,
+      title: `BMS alarm: ${formatCode(code)}`,
+      message: `Battery management system reported ${formatCode(code).toLowerCase()}`,
+      severity: CRITICAL_BMS_CODES.has(code) ? 'critical' : 'error',
+      data: { state: 'alarm' },
+    });
+  }
+
+  for (const code of activeWarnings) {
+    if (activeCodes.has(code)) continue;
+    activeCodes.add(code);
+    await raiseAlarm({
+      deviceId,
+      source: 'bms',
+      code,
+      title: `BMS warning: ${formatCode(code)}`,
+      message: `Battery management system reported ${formatCode(code).toLowerCase()} warning`,
+      severity: 'warning',
+      data: { state: 'warning' },
+    });
+  }
+
+  // Clear any open BMS alarms for this device that are no longer reported
+  const openBmsAlarms = await db
+    .select()
+    .from(alerts)
+    .where(and(
+      eq(alerts.deviceId, deviceId),
+      eq(alerts.source, 'bms'),
+      inArray(alerts.status, [...OPEN_STATUSES])
+    ));
+
+  for (const alarm of openBmsAlarms) {
+    if (alarm.code && !activeCodes.has(alarm.code)) {
+      await autoClear(alarm, 'BMS no longer reports this condition');
+    }
+  }
+}
+
+/**
+ * Raise and clear alarms for a device status transition
+ */
+export async function processDeviceStatusChange(
+  deviceId: number,
+  previousStatus: string | null | undefined,
+  status: string,
+  details?: string
+): Promise<void> {
+  if (previousStatus === status) {
+    return;
+  }
+
+  if (status === 'offline') {
+    await raiseAlarm({
+      deviceId,
+      source: 'device_status',
+      code: 'device_offline',
+      title: 'Device offline',
+      message: details || 'Device stopped communicating',
+      severity: 'warning',
+      data: { previousStatus },
+    });
+  } else if (status === 'error') {
+    await raiseAlarm({
+      deviceId,
+      source: 'device_status',
+      code: 'device_fault',
+      title: 'Device fault',
+      message: details || 'Device reported an error state',
+      severity: 'error',
+      data: { previousStatus },
+    });
+  }
+
+  if (status !== 'offline') {
+    await clearAlarm('device_status', 'device_offline', deviceId, null, `Device is ${status}`);
+  }
+  if (status !== 'error') {
+    await clearAlarm('device_status', 'device_fault', deviceId, null, `Device is ${status}`);
+  }
+}
+
+/**
+ * Raise and clear alarms for gateway heartbeat changes
+ */
+export async function processGatewayStatus(
+  gatewayId: number,
+  wasConnected: boolean,
+  status: 'online' | 'offline' | 'error',
+  error?: string
+): Promise<void> {
+  if (status === 'online') {
+    if (!wasConnected) {
+      await clearAlarm('gateway', 'gateway_heartbeat_lost', gatewayId, null, 'Gateway heartbeat restored');
+      await clearAlarm('gateway', 'gateway_error', gatewayId, null, 'Gateway heartbeat restored');
+    }
+    return;
+  }
+
+  if (!wasConnected) {
+    return;
+  }
+
+  await raiseAlarm({
+    deviceId: gatewayId,
+    source: 'gateway',
+    code: status === 'error' ? 'gateway_error' : 'gateway_heartbeat_lost',
+    title: status === 'error' ? 'Gateway error' : 'Gateway heartbeat lost',
+    message: error || 'Gateway stopped sending heartbeats',
+    severity: status === 'error' ? 'error' : 'critical',
+  });
+}
+
+/**
+ * Mirror a predictive maintenance alert into the alarm log
+ */
+export async function processMaintenanceAlert(alert: DeviceMaintenanceAlert): Promise<void> {
+  const severityMap: Record<string, AlarmSeverity> = {
+    low: 'info',
+    medium: 'warning',
+    high: 'error',
+    critical: 'critical',
+  };
+
+  await raiseAlarm({
+    deviceId: alert.deviceId,
+    source: 'maintenance',
+    code: alert.metricName ? `${alert.alertType}:${alert.metricName}` : alert.alertType,
+    title: alert.alertType === 'anomaly_detected' ? 'Maintenance anomaly detected' : 'Maintenance threshold exceeded',
+    message: alert.message,
+    severity: severityMap[alert.severity || 'medium'] || 'warning',
+    data: {
+      maintenanceAlertId: alert.id,
+      metricName: alert.metricName,
+      metricValue: alert.triggerValue !== null ? Number(alert.triggerValue) : undefined,
+      thresholdValue: alert.thresholdValue !== null ? Number(alert.thresholdValue) : undefined,
+    },
+  });
+}
+
+/**
+ * Initialize alarm sources: MQTT status/telemetry handlers and the BMS telemetry scan
+ */
+export function initAlarmService(): void {
+  const mqttService = getMqttService();
+
+  mqttService.addMessageHandler('devices/:deviceId/status', (topic, message, params) => {
+    const deviceId = parseInt(params.deviceId, 10);
+    if (isNaN(deviceId) || !message?.status) return;
+
+    handleStatusMessage(deviceId, message.status, message.details).catch(error => {
+      console.error('Error processing device status alarm:', error);
+    });
+  });
+
+  mqttService.addMessageHandler('devices/:deviceId/telemetry', (topic, message, params) => {
+    const deviceId = parseInt(params.deviceId, 10);
+    const alarmStates = message?.alarmStates ?? message?.readings?.alarmStates;
+    const warningStates = message?.warningStates ?? message?.readings?.warningStates;
+    if (isNaN(deviceId) || (alarmStates === undefined && warningStates === undefined)) return;
+
+    processBmsAlarmStates(deviceId, alarmStates, warningStates).catch(error => {
+      console.error('Error processing BMS alarm states:', error);
+    });
+  });
+
+  if (!bmsScanTimer) {
+    lastBmsScanAt = new Date();
+    bmsScanTimer = setInterval(() => {
+      scanBatteryTelemetry().catch(error => {
+        console.error('Error scanning battery telemetry for alarms:', error);
+      });
+    }, BMS_SCAN_INTERVAL);
+  }
+
+  console.log('Alarm service initialized');
+}
+
+// Process battery telemetry stored since the previous scan, latest row per device
+async function scanBatteryTelemetry(): Promise<void> {
+  const scanStartedAt = new Date();
+  const rows = await db
+    .select({
+      deviceId: batteryTelemetry.deviceId,
+      timestamp: batteryTelemetry.timestamp,
+      alarmStates: batteryTelemetry.alarmStates,
+      warningStates: batteryTelemetry.warningStates,
+    })
+    .from(batteryTelemetry)
+    .where(gt(batteryTelemetry.timestamp, lastBmsScanAt))
+    .orderBy(desc(batteryTelemetry.timestamp));
+
+  lastBmsScanAt = scanStartedAt;
+
+  const seen = new Set<number>();
+  for (const row of rows) {
+    if (seen.has(row.deviceId)) continue;
+    seen.add(row.deviceId);
+    await processBmsAlarmStates(row.deviceId, row.alarmStates, row.warningStates);
+  }
+}
+
+// Persist a status reported over MQTT and raise/clear alarms on transitions
+async function handleStatusMessage(deviceId: number, status: string, details?: string): Promise<void> {
+  const device = await storage.getDevice(deviceId);
+  if (!device || device.status === status) return;
+
+  await storage.updateDevice(deviceId, { status: status as any });
+  await processDeviceStatusChange(deviceId, device.status, status, details);
+}
+
+async function findOpenAlarm(dedupeKey: string): Promise<Alert | undefined> {
+  const [alarm] = await db
+    .select()
+    .from(alerts)
+    .where(and(eq(alerts.dedupeKey, dedupeKey), inArray(alerts.status, [...OPEN_STATUSES])))
+    .limit(1);
+
+  return alarm;
+}
+
+async function autoClear(alarm: Alert, reason?: string): Promise<Alert | undefined> {
+  const [cleared] = await db
+    .update(alerts)
+    .set({
+      status: 'resolved',
+      resolvedAt: new Date(),
+      autoCleared: true,
+      resolutionNotes: reason || 'Condition cleared',
+    })
+    .where(and(eq(alerts.id, alarm.id), inArray(alerts.status, [...OPEN_STATUSES])))
+    .returning();
+
+  if (cleared) {
+    notifyAlarm(cleared, 'cleared');
+  }
+
+  return cleared;
+}
+
+async function getDeviceSiteId(deviceId: number): Promise<number | null> {
+  const device = await storage.getDevice(deviceId);
+  return device?.siteId ?? null;
+}
+
+async function withUserNames(
+  rows: { alarm: Alert; deviceName: string | null; deviceType: string | null }[]
+): Promise<AlarmView[]> {
+  const userIds = new Set<number>();
+  for (const { alarm } of rows) {
+    if (alarm.acknowledgedBy) userIds.add(alarm.acknowledgedBy);
+    if (alarm.resolvedBy) userIds.add(alarm.resolvedBy);
+  }
+
+  const userNames = new Map<number, string>();
+  if (userIds.size > 0) {
+    const userRows = await db
+      .select({ id: users.id, username: users.username })
+      .from(users)
+      .where(inArray(users.id, Array.from(userIds)));
+    for (const user of userRows) {
+      userNames.set(user.id, user.username);
+    }
+  }
+
+  return rows.map(({ alarm, deviceName, deviceType }) => ({
+    ...alarm,
+    deviceName,
+    deviceType,
+    acknowledgedByName: alarm.acknowledgedBy ? userNames.get(alarm.acknowledgedBy) ?? null : null,
+    resolvedByName: alarm.resolvedBy ? userNames.get(alarm.resolvedBy) ?? null : null,
+  }));
+}
+
+function isOpen(alarm: Alert): boolean {
+  return alarm.status === 'new' || alarm.status === 'acknowledged';
+}
+
+function notifyAlarm(alarm: Alert, event: string): void {
+  if (alarm.siteId) {
+    broadcastAlarm(alarm.siteId, event, alarm);
+  }
+}
+
+function parseStateCodes(states: unknown): string[] {
+  if (!states) return [];
+
+  if (Array.isArray(states)) {
+    return states.filter(code => typeof code === 'string').map(normalizeCode);
+  }
+
+  if (typeof states === 'object') {
+    return Object.entries(states as Record<string, unknown>)
+      .filter(([, active]) => active === true || active === 1 || active === 'active')
+      .map(([code]) => normalizeCode(code));
+  }
+
+  return [];
+}
+
+// Convert camelCase/kebab-case BMS flags to snake_case alarm codes
+function normalizeCode(code: string): string {
+  return code
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[\s-]+/g, '_')
+    .toLowerCase();
+}
+
+function formatCode(code: string): string {
+  const text = code.replace(/[_:]/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
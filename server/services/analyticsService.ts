@@ -1,6 +1,9 @@
 import { initDeviceManagementService } from './deviceManagementService';
 import { getEnergyPriceService } from './energyPriceService';
 import { getBatteryArbitrageService } from './batteryArbitrageService';
+import { getExpectedProduction, getSitePvSetup, getSiteWeatherLookup } from './pvProductionService';
+import { buildMeterIntervals } from './billingService';
+import { storage } from '../storage';
 
 /**
  * Analytics Types
@@ -596,7 +599,7 @@ export class AnalyticsService {
     endDate: Date
   ): Promise<any> {
     // Get energy price data
-    const priceData = await this.priceService.getPriceHistorical(siteId, startDate, endDate);
+    const priceData = await this.priceService.getHistoricalPrices(siteId, startDate, endDate);
     
     // Generate time periods based on granularity
     const periods = this.generateTimePeriods(granularity, startDate, endDate);
@@ -1794,6 +1797,16 @@ export class AnalyticsService {
       return sum + capacity;
     }, 0);
     
+    // Expected yield from the site's location and PV arrays, adjusted for the
+    // weather observed during the period where it was recorded
+    const pvSetup = await getSitePvSetup(siteId);
+    const weather = pvSetup ? await getSiteWeatherLookup(siteId, startDate, endDate) : undefined;
+    
+    // Use metered production when the site has readings for the period
+    const meterIntervals = buildMeterIntervals(
+      await storage.getEnergyReadingsByTimeRange(siteId, startDate, endDate)
+    );
+    
     // Generate solar production data
     const productionData = periods.map(period => {
       // Solar production varies by time of day, weather, and season
@@ -1825,13 +1838,21 @@ export class AnalyticsService {
         productionFactor *= weatherFactor;
       }
       
+      const meteredProduction = meterIntervals.length > 0
+        ? meterIntervals
+            .filter(interval => interval.start >= period.start && interval.start < period.end)
+            .reduce((sum, interval) => sum + interval.solarKw * interval.hours, 0)
+        : null;
+      
       // Calculate production for all devices
       const deviceProduction = solarDevices.map(device => {
         const capacity = device.specs?.capacity || 5; // kW
         const efficiency = device.specs?.efficiency || 0.8;
         
-        // Calculate production for this period
-        const production = capacity * productionFactor * efficiency * getTimePeriodHours(granularity);
+        // Calculate production for this period, sharing metered production by capacity
+        const production = meteredProduction !== null
+          ? meteredProduction * (capacity / totalCapacity)
+          : capacity * productionFactor * efficiency * getTimePeriodHours(granularity);
         
         return {
           deviceId: device.id,
@@ -1845,6 +1866,9 @@ export class AnalyticsService {
       // Calculate total production
       const totalProduction = deviceProduction.reduce((sum, device) => sum + device.production, 0);
       
+      // Expected and clear-sky production from the PV model
+      const expected = pvSetup ? getExpectedProduction(pvSetup, period.start, period.end, weather) : null;
+      
       // Calculate consumption for comparison
       let consumption = 0;
       if (consumptionDevices.length > 0) {
@@ -1922,6 +1946,9 @@ export class AnalyticsService {
         batteryDischarge,
         selfSufficiencyRatio,
         selfConsumptionRatio,
+        expectedProduction: expected?.expectedKwh ?? null,
+        clearSkyProduction: expected?.clearSkyKwh ?? null,
+        performanceRatio: expected && expected.expectedKwh > 0 ? totalProduction / expected.expectedKwh : null,
         devices: deviceProduction
       };
     });
@@ -1944,16 +1971,18 @@ export class AnalyticsService {
       ? (totalSelfConsumption + totalBatteryCharge) / totalProduction 
       : 0;
     
-    // Calculate performance metrics
-    const specificYield = totalProduction / totalCapacity; // kWh/kWp
-    const expectedYield = calculateExpectedYield(
-      totalCapacity, 
-      startDate, 
-      endDate, 
-      solarDevices[0]?.specs?.tilt || 30, 
-      solarDevices[0]?.specs?.azimuth || 180
-    );
-    const performanceRatio = expectedYield > 0 ? specificYield / expectedYield : 0;
+    // Calculate performance metrics against the modelled yield (kWh/kWp)
+    const specificYield = totalProduction / totalCapacity;
+    const totalExpectedProduction = pvSetup
+      ? productionData.reduce((sum, period) => sum + (period.expectedProduction ?? 0), 0)
+      : null;
+    const totalClearSkyProduction = pvSetup
+      ? productionData.reduce((sum, period) => sum + (period.clearSkyProduction ?? 0), 0)
+      : null;
+    const expectedYield = pvSetup && totalExpectedProduction !== null
+      ? totalExpectedProduction / pvSetup.totalCapacityKwp
+      : null;
+    const performanceRatio = totalExpectedProduction ? totalProduction / totalExpectedProduction : null;
     
     // Calculate financial metrics
     const feedInTariff = 0.10; // $/kWh
@@ -1976,8 +2005,15 @@ export class AnalyticsService {
       deviceCount: solarDevices.length,
       totalCapacity,
       totalProduction,
+      productionSource: meterIntervals.length > 0 ? 'meter' : 'estimated',
       specificYield,
+      expectedYield,
+      totalExpectedProduction,
+      totalClearSkyProduction,
       performanceRatio,
+      pvModel: pvSetup
+        ? { latitude: pvSetup.latitude, longitude: pvSetup.longitude, source: pvSetup.source, arrays: pvSetup.arrays.length }
+        : null,
       totalConsumption,
       totalSelfConsumption,
       totalGridExport,
@@ -1995,58 +2031,6 @@ export class AnalyticsService {
     };
   }
 
-  /**
-   * Calculate expected solar yield
-   */
-  private calculateExpectedYield(
-    capacity: number,
-    startDate: Date,
-    endDate: Date,
-    tilt: number,
-    azimuth: number
-  ): number {
-    // This is a simplified calculation
-    // In reality, this would use solar resource data for the location
-    
-    // Base yield in kWh/kWp/day for different months
-    const monthlyYields = [
-      2.7, 3.5, 4.3, 5.1, 5.8, 6.2, 6.0, 5.7, 4.9, 3.8, 2.8, 2.5
-    ]; // Northern hemisphere example
-    
-    let totalYield = 0;
-    const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000));
-    
-    // Accumulate daily yields for the period
-    for (let i = 0; i < days; i++) {
-      const date = new Date(startDate);
-      date.setDate(date.getDate() + i);
-      const month = date.getMonth();
-      
-      // Get base yield for this month
-      const baseYield = monthlyYields[month];
-      
-      // Apply tilt and azimuth correction factor
-      // This is very simplified, real solar models are much more complex
-      let orientationFactor = 1.0;
-      
-      // Optimal tilt is roughly latitude, assume 40° for this example
-      const optimalTilt = 40;
-      const tiltDeviation = Math.abs(tilt - optimalTilt);
-      
-      // Optimal azimuth is 180° (south in northern hemisphere)
-      const azimuthDeviation = Math.abs(azimuth - 180);
-      
-      if (tiltDeviation > 15 || azimuthDeviation > 45) {
-        orientationFactor = 0.9; // 10% reduction for non-optimal orientation
-      }
-      
-      const dailyYield = baseYield * orientationFactor;
-      totalYield += dailyYield;
-    }
-    
-    return totalYield * capacity;
-  }
-
   /**
    * Find solar production insights
    */
@@ -2156,7 +2140,24 @@ export class AnalyticsService {
       });
     }
     
-    // Insight 4: Optimization recommendations
+    // Insight 4: Actual versus modelled yield
+    const modelledPeriods = productionData.filter(p => p.expectedProduction !== null && p.expectedProduction > 0);
+    if (modelledPeriods.length > 0) {
+      const underperforming = modelledPeriods.filter(p => p.performanceRatio < 0.8);
+      
+      insights.push({
+        type: 'expected_vs_actual_yield',
+        description: 'Production compared with the PV model for the site location and arrays',
+        underperformingPeriods: underperforming.map(p => p.period.label),
+        interpretation: underperforming.length === 0
+          ? 'Production is in line with the modelled yield'
+          : underperforming.length / modelledPeriods.length > 0.5
+          ? 'Production is consistently below the modelled yield; check for soiling, shading, faults or array settings'
+          : 'Production fell below the modelled yield in some periods'
+      });
+    }
+    
+    // Insight 5: Optimization recommendations
     const recommendations = [];
     
     // Check for low self-consumption
@@ -0,0 +1,409 @@
+/**
+ * API Key Service
+ *
+ * Issues, verifies, rotates and revokes API keys for machine access to the
+ * REST API. A key is presented as `<key>.<secret>`: the public key identifier
+ * is stored in `api_keys.key` and only a SHA-256 hash of the secret is kept.
+ * Rotating a key replaces the secret while the previous secret stays valid
+ * until its grace period ends.
+ */
+
+import { randomBytes, createHash, timingSafeEqual } from 'crypto';
+import { db } from '../db';
+import { storage } from '../storage';
+import { apiKeys, type ApiKey, type User } from '@shared/schema';
+import { eq, desc } from 'drizzle-orm';
+
+export type ApiKeyAccessLevel = 'read_only' | 'device_control' | 'full_access' | 'admin';
+export type ApiKeyAction = 'read' | 'write' | 'control';
+
+// Scopes offered when issuing a key; '*' and '<resource>:*' wildcards are also accepted
+export const API_KEY_SCOPES: Record<string, string> = {
+  'sites:read': 'Read sites and site energy data',
+  'sites:write': 'Modify site configuration',
+  'devices:read': 'Read devices and telemetry',
+  'devices:write': 'Create and modify devices',
+  'devices:control': 'Send control commands to devices',
+  'optimization:read': 'Read optimization settings and results',
+  'optimization:write': 'Run optimizations and change settings',
+  'tariffs:read': 'Read tariffs and prices',
+  'tariffs:write': 'Modify tariffs',
+  'forecasts:read': 'Read forecasts',
+  'reports:read': 'Read reports',
+  'reports:write': 'Generate reports',
+  'alarms:read': 'Read alarms',
+  'alarms:write': 'Acknowledge and resolve alarms',
+  'vpp:read': 'Read virtual power plant data',
+  'vpp:write': 'Manage virtual power plant programs and events',
+};
+
+// Actions each access level may perform, independent of the key's scopes
+const ACCESS_LEVEL_ACTIONS: Record<ApiKeyAccessLevel, ApiKeyAction[]> = {
+  read_only: ['read'],
+  device_control: ['read', 'control'],
+  full_access: ['read', 'write', 'control'],
+  admin: ['read', 'write', 'control'],
+};
+
+// Access levels a user may issue, by role
+const ROLE_ACCESS_LEVELS: Record<string, ApiKeyAccessLevel[]> = {
+  admin: ['read_only', 'device_control', 'full_access', 'admin'],
+  partner_admin: ['read_only', 'device_control', 'full_access'],
+  manager: ['read_only', 'device_control', 'full_access'],
+  viewer: ['read_only'],
+};
+
+const KEY_PREFIX = 'efk';
+const DEFAULT_GRACE_PERIOD_HOURS = 24;
+const MAX_GRACE_PERIOD_HOURS = 168;
+const LAST_USED_UPDATE_INTERVAL = 60000; // Only persist lastUsedAt once a minute per key
+
+interface PreviousKeySecret {
+  hash: string;
+  rotatedAt: string;
+  graceExpiresAt: string;
+}
+
+export interface ApiKeyView {
+  id: number;
+  name: string;
+  key: string;
+  userId: number | null;
+  accessLevel: ApiKeyAccessLevel;
+  scopes: string[];
+  allowedIps: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  isActive: boolean;
+  createdAt: Date | null;
+  rotationEnabled: boolean;
+  rotationIntervalDays: number | null;
+  lastRotatedAt: Date | null;
+  rotationDue: boolean;
+  previousSecrets: { rotatedAt: string; graceExpiresAt: string }[];
+}
+
+export interface IssueApiKeyInput {
+  name: string;
+  accessLevel: ApiKeyAccessLevel;
+  scopes?: string[];
+  allowedIps?: string[];
+  expiresAt?: Date | null;
+  rotationEnabled?: boolean;
+  rotationIntervalDays?: number | null;
+}
+
+export type ApiKeyVerification =
+  | { valid: true; apiKey: ApiKey; user: User; usedPreviousSecret: boolean }
+  | { valid: false; status: 401 | 403; reason: string };
+
+/**
+ * Access levels the given role is allowed to issue
+ */
+export function getIssuableAccessLevels(role: string | null | undefined): ApiKeyAccessLevel[] {
+  return ROLE_ACCESS_LEVELS[role || 'viewer'] || ['read_only'];
+}
+
+/**
+ * Issue a new API key. The returned token is the only time the secret is available.
+ */
+export async function issueApiKey(
+  userId: number,
+  input: IssueApiKeyInput
+): Promise<{ apiKey: ApiKeyView; token: string }> {
+  const keyId = `${KEY_PREFIX}_${randomBytes(8).toString('hex')}`;
+  const secret = generateSecret();
+
+  const [apiKey] = await db
+    .insert(apiKeys)
+    .values({
+      name: input.name,
+      key: keyId,
+      secret: hashSecret(secret),
+      userId,
+      accessLevel: input.accessLevel,
+      scopesJson: input.scopes && input.scopes.length > 0 ? input.scopes : null,
+      allowedIps: input.allowedIps && input.allowedIps.length > 0 ? input.allowedIps.join(',') : null,
+      expiresAt: input.expiresAt ?? null,
+      isActive: true,
+      rotationEnabled: input.rotationEnabled ?? false,
+      rotationIntervalDays: input.rotationIntervalDays ?? null,
+      previousKeys: [],
+    })
+    .returning();
+
+  return { apiKey: toApiKeyView(apiKey), token: `${keyId}.${secret}` };
+}
+
+/**
+ * Get an API key by ID
+ */
+export async function getApiKey(id: number): Promise<ApiKey | undefined> {
+  const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.id, id));
+  return apiKey;
+}
+
+/**
+ * List API keys, either for a single owner or all keys
+ */
+export async function listApiKeys(userId?: number): Promise<ApiKeyView[]> {
+  const query = db.select().from(apiKeys);
+  const rows = userId !== undefined
+    ? await query.where(eq(apiKeys.userId, userId)).orderBy(desc(apiKeys.createdAt))
+    : await query.orderBy(desc(apiKeys.createdAt));
+
+  return rows.map(toApiKeyView);
+}
+
+/**
+ * Revoke an API key immediately, including any secrets still in their grace period
+ */
+export async function revokeApiKey(id: number): Promise<ApiKeyView | undefined> {
+  const [apiKey] = await db
+    .update(apiKeys)
+    .set({ isActive: false, previousKeys: [], updatedAt: new Date() })
+    .where(eq(apiKeys.id, id))
+    .returning();
+
+  return apiKey ? toApiKeyView(apiKey) : undefined;
+}
+
+/**
+ * Rotate an API key's secret. The previous secret remains valid for the grace period.
+ */
+export async function rotateApiKey(
+  id: number,
+  gracePeriodHours: number = DEFAULT_GRACE_PERIOD_HOURS
+): Promise<{ apiKey: ApiKeyView; token: string } | undefined> {
+  const existing = await getApiKey(id);
+  if (!existing || !existing.isActive) {
+    return undefined;
+  }
+
+  const now = new Date();
+  const graceHours = Math.max(0, Math.min(gracePeriodHours, MAX_GRACE_PERIOD_HOURS));
+  const previousKeys = getPreviousSecrets(existing).filter(entry => new Date(entry.graceExpiresAt) > now);
+
+  if (existing.secret && graceHours > 0) {
+    previousKeys.push({
+      hash: existing.secret,
+      rotatedAt: now.toISOString(),
+      graceExpiresAt: new Date(now.getTime() + graceHours * 60 * 60 * 1000).toISOString(),
+    });
+  }
+
+  const secret = generateSecret();
+  const [apiKey] = await db
+    .update(apiKeys)
+    .set({
+      secret: hashSecret(secret),
+      previousKeys,
+      lastRotatedAt: now,
+      updatedAt: now,
+    })
+    .where(eq(apiKeys.id, id))
+    .returning();
+
+  return { apiKey: toApiKeyView(apiKey), token: `${apiKey.key}.${secret}` };
+}
+
+/**
+ * Verify a presented API key token against expiry, revocation, secret and IP restrictions
+ */
+export async function verifyApiKey(token: string, ipAddress?: string): Promise<ApiKeyVerification> {
+  const separator = token.indexOf('.');
+  if (separator <= 0) {
+    return { valid: false, status: 401, reason: 'Malformed API key' };
+  }
+
+  const keyId = token.slice(0, separator);
+  const secret = token.slice(separator + 1);
+
+  const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.key, keyId));
+  if (!apiKey || !apiKey.secret) {
+    return { valid: false, status: 401, reason: 'Invalid API key' };
+  }
+
+  if (!apiKey.isActive) {
+    return { valid: false, status: 401, reason: 'API key has been revoked' };
+  }
+
+  const now = new Date();
+  if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+    return { valid: false, status: 401, reason: 'API key has expired' };
+  }
+
+  const presentedHash = hashSecret(secret);
+  let usedPreviousSecret = false;
+
+  if (!hashesMatch(presentedHash, apiKey.secret)) {
+    const previous = getPreviousSecrets(apiKey).find(entry =>
+      new Date(entry.graceExpiresAt) > now && hashesMatch(presentedHash, entry.hash)
+    );
+    if (!previous) {
+      return { valid: false, status: 401, reason: 'Invalid API key' };
+    }
+    usedPreviousSecret = true;
+  }
+
+  if (!isIpAllowed(apiKey.allowedIps, ipAddress)) {
+    return { valid: false, status: 403, reason: 'API key is not allowed from this IP address' };
+  }
+
+  const user = apiKey.userId ? await storage.getUser(apiKey.userId) : undefined;
+  if (!user || user.accountLocked) {
+    return { valid: false, status: 401, reason: 'API key owner is not active' };
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL) {
+    db.update(apiKeys)
+      .set({ lastUsedAt: now })
+      .where(eq(apiKeys.id, apiKey.id))
+      .catch(error => console.error('Error updating API key last used time:', error));
+  }
+
+  return { valid: true, apiKey, user, usedPreviousSecret };
+}
+
+/**
+ * Check whether a key's access level and scopes permit an action on a resource
+ */
+export function isScopeAllowed(apiKey: ApiKey, resource: string, action: ApiKeyAction): boolean {
+  const accessLevel = (apiKey.accessLevel || 'read_only') as ApiKeyAccessLevel;
+  if (!ACCESS_LEVEL_ACTIONS[accessLevel].includes(action)) {
+    return false;
+  }
+
+  // Device control keys may only issue control requests against devices
+  if (accessLevel === 'device_control' && action === 'control' && resource !== 'devices') {
+    return false;
+  }
+
+  const scopes = getScopes(apiKey);
+  if (scopes.length === 0) {
+    return true;
+  }
+
+  return scopes.some(scope =>
+    scope === '*' ||
+    scope === `${resource}:${action}` ||
+    scope === `${resource}:*` ||
+    scope === `*:${action}`
+  );
+}
+
+/**
+ * Role a request authenticated with this key acts as. Only admin-level keys
+ * inherit an admin owner's role; read-only keys always act as viewers.
+ */
+export function getEffectiveRole(apiKey: ApiKey, user: User): string {
+  const accessLevel = (apiKey.accessLevel || 'read_only') as ApiKeyAccessLevel;
+
+  if (accessLevel === 'admin') return user.role || 'viewer';
+  if (accessLevel === 'read_only') return 'viewer';
+  return user.role === 'admin' ? 'manager' : user.role || 'viewer';
+}
+
+/**
+ * Convert a stored key into its public representation (never includes secrets)
+ */
+export function toApiKeyView(apiKey: ApiKey): ApiKeyView {
+  const lastRotation = apiKey.lastRotatedAt || apiKey.createdAt;
+  const rotationDue = !!(
+    apiKey.rotationEnabled &&
+    apiKey.rotationIntervalDays &&
+    lastRotation &&
+    Date.now() - lastRotation.getTime() > apiKey.rotationIntervalDays * 24 * 60 * 60 * 1000
+  );
+
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    key: apiKey.key,
+    userId: apiKey.userId,
+    accessLevel: (apiKey.accessLevel || 'read_only') as ApiKeyAccessLevel,
+    scopes: getScopes(apiKey),
+    allowedIps: apiKey.allowedIps ? apiKey.allowedIps.split(',').map(ip => ip.trim()).filter(Boolean) : [],
+    expiresAt: apiKey.expiresAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    isActive: !!apiKey.isActive,
+    createdAt: apiKey.createdAt,
+    rotationEnabled: !!apiKey.rotationEnabled,
+    rotationIntervalDays: apiKey.rotationIntervalDays,
+    lastRotatedAt: apiKey.lastRotatedAt,
+    rotationDue,
+    previousSecrets: getPreviousSecrets(apiKey)
+      .filter(entry => new Date(entry.graceExpiresAt) > new Date())
+      .map(({ rotatedAt, graceExpiresAt }) => ({ rotatedAt, graceExpiresAt })),
+  };
+}
+
+/**
+ * Check an IP address against a comma-separated list of IPv4/IPv6 addresses and IPv4 CIDR ranges
+ */
+export function isIpAllowed(allowedIps: string | null, ipAddress?: string): boolean {
+  if (!allowedIps || !allowedIps.trim()) {
+    return true;
+  }
+  if (!ipAddress) {
+    return false;
+  }
+
+  const ip = normalizeIp(ipAddress);
+
+  return allowedIps.split(',').map(entry => entry.trim()).filter(Boolean).some(entry => {
+    if (!entry.includes('/')) {
+      return normalizeIp(entry) === ip;
+    }
+
+    const [range, bitsText] = entry.split('/');
+    const bits = parseInt(bitsText, 10);
+    const rangeValue = ipv4ToNumber(range);
+    const ipValue = ipv4ToNumber(ip);
+    if (rangeValue === null || ipValue === null || isNaN(bits) || bits < 0 || bits > 32) {
+      return false;
+    }
+
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return (rangeValue & mask) === (ipValue & mask);
+  });
+}
+
+function generateSecret(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function hashesMatch(a: string, b: string): boolean {
+  const aBuf = Buffer.from(a, 'hex');
+  const bBuf = Buffer.from(b, 'hex');
+  return aBuf.length === bBuf.length && timingSafeEqual(aBuf, bBuf);
+}
+
+function getScopes(apiKey: ApiKey): string[] {
+  return Array.isArray(apiKey.scopesJson) ? (apiKey.scopesJson as string[]) : [];
+}
+
+function getPreviousSecrets(apiKey: ApiKey): PreviousKeySecret[] {
+  return Array.isArray(apiKey.previousKeys) ? (apiKey.previousKeys as PreviousKeySecret[]) : [];
+}
+
+function normalizeIp(ip: string): string {
+  return ip.startsWith('::ffff:') ? ip.slice(7) : ip;
+}
+
+function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0;
+  for (const part of parts) {
+    const octet = parseInt(part, 10);
+    if (isNaN(octet) || octet < 0 || octet > 255) return null;
+    value = (value << 8) + octet;
+  }
+  return value >>> 0;
+}
@@ -1,6 +1,13 @@
 import { initAiOptimizationService } from './ai-optimization';
 import { getEnergyPriceService } from './energyPriceService';
 import { initDeviceManagementService } from './deviceManagementService';
+import { optimizeSiteBatterySchedule } from './batteryScheduleOptimizer';
+import {
+  assessDegradation,
+  getBatteryDegradationModel,
+  getChemistryModel,
+  type BatteryDegradationModel
+} from './batteryDegradationModel';
 
 /**
  * Battery Arbitrage Strategy Service
@@ -9,7 +16,10 @@ import { initDeviceManagementService } from './deviceManagementService';
  * - Day-ahead price forecasting with AI models
  * - Dynamic charge/discharge scheduling based on real-time price signals
  * - Battery lifecycle optimization for longevity
+ * - Battery wear priced by a rainflow cycle-aging model, so every strategy's
+ *   expected savings are net of the degradation its schedule causes
  * - Grid constraint management and peak shaving
+ * - Mathematical programming (MILP) schedules to compare the heuristics against
  */
 export class BatteryArbitrageService {
   private static instance: BatteryArbitrageService;
@@ -23,7 +33,8 @@ export class BatteryArbitrageService {
     SELF_CONSUMPTION: 'self_consumption',
     AI_OPTIMIZED: 'ai_optimized',
     LIFECYCLE_OPTIMIZED: 'lifecycle_optimized',
-    GRID_SERVICES: 'grid_services'
+    GRID_SERVICES: 'grid_services',
+    MILP_OPTIMIZED: 'milp_optimized'
   };
   
   // Track active strategies by site
@@ -36,6 +47,16 @@ export class BatteryArbitrageService {
     lastOptimizationTime: Date,
     forecastAccuracy: number
   }> = new Map();
+  
+  // Wear of the last schedule applied to each battery
+  private plannedWear: Map<number, {
+    strategy: string,
+    plannedAt: Date,
+    equivalentFullCycles: number,
+    capacityLossPercent: number,
+    cost: number,
+    costPerKwh: number
+  }> = new Map();
 
   private constructor() {
     // Initialize with default values
@@ -126,6 +147,13 @@ export class BatteryArbitrageService {
     };
   }
   
+  /**
+   * Get the wear of the last schedule applied to a battery
+   */
+  public getPlannedWear(batteryId: number): any {
+    return this.plannedWear.get(batteryId) || null;
+  }
+  
   /**
    * Run optimization for all sites
    */
@@ -144,9 +172,13 @@ export class BatteryArbitrageService {
   }
 
   /**
-   * Run optimization for a specific site
+   * Run optimization for a specific site, with its active strategies unless
+   * others are given
    */
-  public async optimizeSite(siteId: number): Promise<any> {
+  public async optimizeSite(
+    siteId: number,
+    options: { strategies?: string[], horizonHours?: number } = {}
+  ): Promise<any> {
     console.log(`Running battery arbitrage optimization for site ${siteId}`);
     
     try {
@@ -166,7 +198,7 @@ export class BatteryArbitrageService {
       const priceForecasts = await priceService.getPriceForecast(siteId, 24); // 24 hours ahead
       
       // Get active strategies
-      const strategies = this.activeStrategies.get(siteId) || [];
+      const strategies = options.strategies || this.activeStrategies.get(siteId) || [];
       if (strategies.length === 0) {
         console.log(`No active arbitrage strategies for site ${siteId}`);
         return null;
@@ -177,9 +209,21 @@ export class BatteryArbitrageService {
         expectedSavings: 0,
         batteryImpact: 0,
         strategy: strategies[0], // Default to first strategy
-        nextActions: []
+        nextActions: [],
+        degradation: null as { cost: number, equivalentFullCycles: number, batteries: any[] } | null
       };
       
+      // Cycle-aging model of every battery, to price the wear of each schedule
+      const degradationModels = await this.getDegradationModels(batteries);
+      
+      // Expected savings of every strategy tried, to compare them
+      const comparison: {
+        strategy: string,
+        expectedSavings: number | null,
+        batteryImpact: number | null,
+        degradationCost: number | null
+      }[] = [];
+      
       // Apply each strategy
       for (const strategy of strategies) {
         let strategyResult;
@@ -210,17 +254,33 @@ export class BatteryArbitrageService {
             break;
             
           case this.STRATEGIES.LIFECYCLE_OPTIMIZED:
-            strategyResult = await this.applyLifecycleOptimizedStrategy(siteId, batteries, priceForecasts);
+            strategyResult = await this.applyLifecycleOptimizedStrategy(siteId, batteries, priceForecasts, degradationModels);
             break;
             
           case this.STRATEGIES.GRID_SERVICES:
             strategyResult = await this.applyGridServicesStrategy(siteId, batteries);
             break;
             
+          case this.STRATEGIES.MILP_OPTIMIZED:
+            strategyResult = await this.applyMilpOptimizedStrategy(siteId, batteries, options.horizonHours);
+            break;
+            
           default:
             strategyResult = null;
         }
         
+        // Strategies that do not price wear themselves are charged for it here
+        if (strategyResult && !strategyResult.degradation) {
+          strategyResult = this.applyDegradationCost(strategyResult, batteries, degradationModels);
+        }
+        
+        comparison.push({
+          strategy,
+          expectedSavings: strategyResult ? strategyResult.expectedSavings : null,
+          batteryImpact: strategyResult ? strategyResult.batteryImpact : null,
+          degradationCost: strategyResult ? strategyResult.degradation.cost : null
+        });
+        
         if (strategyResult && strategyResult.expectedSavings > optimizationResult.expectedSavings) {
           optimizationResult = strategyResult;
         }
@@ -243,9 +303,20 @@ export class BatteryArbitrageService {
         currentPerformance.lastOptimizationTime = new Date();
         
         this.arbitragePerformance.set(siteId, currentPerformance);
+        
+        for (const wear of optimizationResult.degradation?.batteries || []) {
+          this.plannedWear.set(wear.batteryId, {
+            strategy: optimizationResult.strategy,
+            plannedAt: new Date(),
+            equivalentFullCycles: wear.equivalentFullCycles,
+            capacityLossPercent: wear.capacityLossPercent,
+            cost: wear.cost,
+            costPerKwh: wear.costPerKwh
+          });
+        }
       }
       
-      return optimizationResult;
+      return { ...optimizationResult, comparison };
     } catch (error) {
       console.error(`Error in battery arbitrage optimization for site ${siteId}:`, error);
       return null;
@@ -342,8 +413,8 @@ export class BatteryArbitrageService {
     // Get energy price service
     const priceService = getEnergyPriceService();
     
-    // Get TOU periods for the site
-    const touPeriods = await priceService.getTOUPeriods(siteId);
+    // Hourly rates and TOU periods for the next 24 hours, in the site's local time
+    const hourlyRates = await priceService.getPriceForecast(siteId, 24);
     
     // Create schedule for each battery
     const schedules = [];
@@ -358,44 +429,32 @@ export class BatteryArbitrageService {
       const schedule = [];
       
       // Create 24-hour schedule with hourly intervals
-      for (let hour = 0; hour < 24; hour++) {
-        const currentHour = new Date().getHours();
-        const targetHour = (currentHour + hour) % 24;
-        
-        // Find TOU period for this hour
-        const period = touPeriods.find(p => {
-          const startHour = parseInt(p.startTime.split(':')[0]);
-          const endHour = parseInt(p.endTime.split(':')[0]);
-          return targetHour >= startHour && targetHour < endHour;
-        });
-        
+      for (const period of hourlyRates) {
         let action = 'idle';
         let power = 0;
         
-        if (period) {
-          if (period.type === 'off_peak') {
-            // Off-peak - charge the battery
-            action = 'charge';
-            power = maxChargeRate;
-          } else if (period.type === 'peak') {
-            // Peak - discharge the battery
-            action = 'discharge';
-            power = maxDischargeRate;
-          }
+        if (period.periodType === 'off_peak' || period.periodType === 'super_off_peak') {
+          // Off-peak - charge the battery
+          action = 'charge';
+          power = maxChargeRate;
+        } else if (period.periodType === 'peak') {
+          // Peak - discharge the battery
+          action = 'discharge';
+          power = maxDischargeRate;
         }
         
         schedule.push({
-          time: new Date(Date.now() + hour * 60 * 60 * 1000),
+          time: new Date(period.time),
           action,
           power,
-          period: period?.type || 'standard'
+          period: period.periodType
         });
         
         // Calculate expected savings
         if (action === 'charge') {
-          totalExpectedSavings -= power * (period?.price || 0.1); // Cost to charge
+          totalExpectedSavings -= power * period.price; // Cost to charge
         } else if (action === 'discharge') {
-          totalExpectedSavings += power * (period?.price || 0.3) * efficiency; // Revenue from discharge
+          totalExpectedSavings += power * period.price * efficiency; // Revenue from discharge
         }
       }
       
@@ -767,24 +826,26 @@ export class BatteryArbitrageService {
 
   /**
    * Apply Lifecycle Optimized Strategy
-   * Optimize for battery longevity while still capturing value
+   * Optimize for battery longevity while still capturing value: cycle only as
+   * deep as the price spread pays for the wear the cycle causes
    */
   private async applyLifecycleOptimizedStrategy(
     siteId: number,
     batteries: any[],
-    priceForecasts: any[]
+    priceForecasts: any[],
+    degradationModels: Map<number, BatteryDegradationModel>
   ): Promise<any> {
     console.log(`Applying Lifecycle Optimized strategy for site ${siteId}`);
     
-    // Sort price forecasts to find extreme price points only
+    // Sort price forecasts to charge in the cheapest hours and discharge in the dearest
     const sortedForecasts = [...priceForecasts].sort((a, b) => a.price - b.price);
     
-    // Only use the most extreme prices (top/bottom 10%)
-    const lowestPrices = sortedForecasts.slice(0, Math.floor(sortedForecasts.length * 0.1));
-    const highestPrices = sortedForecasts.slice(Math.floor(sortedForecasts.length * 0.9));
+    // Depths of discharge to choose from, up to 60% to optimize lifecycle
+    const depthsOfDischarge = [0.2, 0.3, 0.4, 0.5, 0.6];
     
     // Create schedule for each battery
     const schedules = [];
+    const wear = [];
     let totalExpectedSavings = 0;
     
     for (const battery of batteries) {
@@ -792,77 +853,68 @@ export class BatteryArbitrageService {
       const maxChargeRate = battery.specs?.maxChargeRate || 5; // kW
       const maxDischargeRate = battery.specs?.maxDischargeRate || 5; // kW
       const efficiency = battery.specs?.efficiency || 0.9; // 90% round trip efficiency
+      const model = degradationModels.get(battery.id) || getChemistryModel(undefined, batteryCapacity);
       
-      // Limit depth of discharge to optimize lifecycle
-      const maxDoD = 0.6; // Maximum 60% depth of discharge
-      const usableCapacity = batteryCapacity * maxDoD;
-      
-      // Calculate how many hours to charge/discharge based on usable capacity
-      const chargingHours = Math.ceil(usableCapacity / maxChargeRate);
-      const dischargingHours = Math.ceil(usableCapacity / maxDischargeRate);
+      // Reduce charging and discharging rates to 80% for battery health
+      const chargePower = maxChargeRate * 0.8;
+      const dischargePower = maxDischargeRate * 0.8;
       
-      // Create hourly schedule (default to idle)
-      const hourlySchedule = new Array(24).fill({ action: 'idle', power: 0 });
-      
-      // Apply charging schedule during lowest price hours
-      for (let i = 0; i < Math.min(chargingHours, lowestPrices.length); i++) {
-        const forecast = lowestPrices[i];
-        const hour = new Date(forecast.time).getHours();
-        hourlySchedule[hour] = { 
-          action: 'charge', 
-          power: maxChargeRate * 0.8, // Reduce charging rate to 80% for battery health
-          price: forecast.price
-        };
-      }
-      
-      // Apply discharging schedule during highest price hours
-      for (let i = 0; i < Math.min(dischargingHours, highestPrices.length); i++) {
-        const forecast = highestPrices[i];
-        const hour = new Date(forecast.time).getHours();
-        hourlySchedule[hour] = { 
-          action: 'discharge', 
-          power: maxDischargeRate * 0.8, // Reduce discharging rate to 80% for battery health
-          price: forecast.price
-        };
-      }
-      
-      // Format final schedule
-      const schedule = [];
-      const now = new Date();
+      // Idle unless some depth of discharge pays for its wear
+      let best = {
+        schedule: priceForecasts.map(forecast => ({ time: new Date(forecast.time), action: 'idle', power: 0, price: forecast.price })),
+        savings: 0,
+        wear: this.assessScheduleWear(battery, [], model)
+      };
       
-      for (let hour = 0; hour < 24; hour++) {
-        const time = new Date(now);
-        time.setHours(now.getHours() + hour);
+      for (const depth of depthsOfDischarge) {
+        const usableCapacity = batteryCapacity * depth;
+        const chargingHours = Math.ceil(usableCapacity / chargePower);
+        const dischargingHours = Math.ceil(usableCapacity / dischargePower);
+        if (chargingHours + dischargingHours > sortedForecasts.length) break;
         
-        const hourData = hourlySchedule[hour];
+        // The last hour of each only moves what is left of the usable capacity
+        const actions = new Map<any, { action: string, power: number }>();
+        sortedForecasts.slice(0, chargingHours).forEach((forecast, i) => {
+          actions.set(forecast, { action: 'charge', power: Math.min(chargePower, usableCapacity - i * chargePower) });
+        });
+        sortedForecasts.slice(sortedForecasts.length - dischargingHours).reverse().forEach((forecast, i) => {
+          actions.set(forecast, { action: 'discharge', power: Math.min(dischargePower, usableCapacity - i * dischargePower) });
+        });
         
-        schedule.push({
-          time,
-          action: hourData.action,
-          power: hourData.power,
-          price: hourData.price || 0
+        let energyValue = 0;
+        const schedule = priceForecasts.map(forecast => {
+          const { action, power } = actions.get(forecast) || { action: 'idle', power: 0 };
+          if (action === 'charge') {
+            energyValue -= power * forecast.price; // Cost to charge
+          } else if (action === 'discharge') {
+            energyValue += power * forecast.price * efficiency; // Revenue from discharge
+          }
+          return { time: new Date(forecast.time), action, power, price: forecast.price };
         });
         
-        // Calculate expected savings
-        if (hourData.action === 'charge') {
-          totalExpectedSavings -= hourData.power * hourData.price; // Cost to charge
-        } else if (hourData.action === 'discharge') {
-          totalExpectedSavings += hourData.power * hourData.price * efficiency; // Revenue from discharge
+        const scheduleWear = this.assessScheduleWear(battery, schedule, model);
+        const savings = energyValue - scheduleWear.cost;
+        if (savings > best.savings) {
+          best = { schedule, savings, wear: scheduleWear };
         }
       }
       
       schedules.push({
         batteryId: battery.id,
-        schedule
+        schedule: best.schedule
       });
+      wear.push(best.wear);
+      totalExpectedSavings += best.savings;
     }
     
+    const degradation = this.summarizeWear(wear);
     return {
       schedules,
       expectedSavings: totalExpectedSavings,
-      batteryImpact: 0.4, // Reduced cycle usage for battery longevity
+      batteryImpact: degradation.equivalentFullCycles,
       strategy: this.STRATEGIES.LIFECYCLE_OPTIMIZED,
-      nextActions: schedules.map(s => s.schedule[0])
+      nextActions: schedules.map(s => s.schedule[0]),
+      degradation
     };
   }
 
@@ -929,6 +981,123 @@ export class BatteryArbitrageService {
     };
   }
 
+  /**
+   * Apply MILP Optimized Strategy
+   * Solve the schedule as a mixed-integer program over the tariff, the load
+   * and PV forecast, demand charges and battery degradation
+   */
+  private async applyMilpOptimizedStrategy(
+    siteId: number,
+    batteries: any[],
+    horizonHours?: number
+  ): Promise<any> {
+    console.log(`Applying MILP Optimized strategy for site ${siteId}`);
+    
+    const result = await optimizeSiteBatterySchedule(siteId, batteries, horizonHours);
+    if (!result || result.schedules.length === 0) {
+      console.log(`MILP optimization found no schedule for site ${siteId}${result ? ` (${result.status})` : ''}`);
+      return null;
+    }
+    
+    return {
+      schedules: result.schedules,
+      expectedSavings: result.expectedSavings,
+      batteryImpact: result.cyclesUsed,
+      strategy: this.STRATEGIES.MILP_OPTIMIZED,
+      nextActions: result.schedules.map(s => s.schedule[0]),
+      degradation: {
+        cost: result.costs.degradation,
+        equivalentFullCycles: result.cyclesUsed,
+        batteries: result.schedules.map(s => ({ batteryId: s.batteryId, ...s.wear }))
+      },
+      optimization: {
+        status: result.status,
+        baselineCost: result.baselineCost,
+        optimizedCost: result.optimizedCost,
+        costs: result.costs,
+        grid: result.grid,
+        solver: result.solver
+      }
+    };
+  }
+
+  /**
+   * Get the cycle-aging model of each battery, by battery ID
+   */
+  private async getDegradationModels(batteries: any[]): Promise<Map<number, BatteryDegradationModel>> {
+    const models = new Map<number, BatteryDegradationModel>();
+    
+    for (const battery of batteries) {
+      models.set(battery.id, await getBatteryDegradationModel(battery.id, battery.specs || {}));
+    }
+    
+    return models;
+  }
+
+  /**
+   * Charge a strategy result for the battery wear of its schedules
+   */
+  private applyDegradationCost(
+    result: any,
+    batteries: any[],
+    degradationModels: Map<number, BatteryDegradationModel>
+  ): any {
+    const wear = result.schedules.map((s: any) => {
+      const battery = batteries.find(b => b.id === s.batteryId) || { id: s.batteryId };
+      const model = degradationModels.get(s.batteryId) || getChemistryModel(undefined, battery.specs?.capacity || 10);
+      return this.assessScheduleWear(battery, s.schedule, model);
+    });
+    const degradation = this.summarizeWear(wear);
+    
+    return {
+      ...result,
+      expectedSavings: result.expectedSavings - degradation.cost,
+      batteryImpact: degradation.equivalentFullCycles,
+      degradation
+    };
+  }
+
+  /**
+   * Assess the wear of a battery schedule with its cycle-aging model
+   */
+  private assessScheduleWear(battery: any, schedule: any[], model: BatteryDegradationModel): any {
+    // Intervals run until the next entry, the last as long as the one before
+    const intervalHours = schedule.map((entry, i) => {
+      const next = schedule[i + 1] || entry;
+      const previous = schedule[i - 1] || entry;
+      const hours = next !== entry
+        ? (new Date(next.time).getTime() - new Date(entry.time).getTime()) / 3600000
+        : (new Date(entry.time).getTime() - new Date(previous.time).getTime()) / 3600000;
+      return hours > 0 ? hours : 1;
+    });
+    
+    const assessment = assessDegradation(model, {
+      initialSoc: battery.telemetry?.soc || 50,
+      powerKw: schedule.map(entry => entry.action === 'discharge' ? entry.power : entry.action === 'charge' ? -entry.power : 0),
+      intervalHours,
+      roundTripEfficiency: battery.specs?.efficiency || 0.9
+    });
+    
+    return {
+      batteryId: battery.id,
+      equivalentFullCycles: assessment.equivalentFullCycles,
+      capacityLossPercent: Math.round(assessment.capacityLossPercent * 10000) / 10000,
+      cost: assessment.cost,
+      costPerKwh: assessment.costPerKwh
+    };
+  }
+
+  /**
+   * Total the wear of a strategy's batteries
+   */
+  private summarizeWear(wear: any[]): { cost: number, equivalentFullCycles: number, batteries: any[] } {
+    return {
+      cost: wear.reduce((sum, w) => sum + w.cost, 0),
+      equivalentFullCycles: wear.reduce((sum, w) => sum + w.equivalentFullCycles, 0),
+      batteries: wear
+    };
+  }
+
   /**
    * Apply battery schedules to actual devices
    */
@@ -0,0 +1,450 @@
+/**
+ * Battery Degradation Model
+ *
+ * Cycle aging of a battery from its state-of-charge profile:
+ *
+ * - the profile is rainflow counted (ASTM E1049) into full and half cycles,
+ *   each with its depth and mean SoC
+ * - every cycle uses up 1/N(depth) of the battery's life, where the cycle
+ *   life N follows a Wöhler curve per chemistry, N(d) = N(100%) · d^-k,
+ *   stressed further by high mean SoC, cell temperature and C-rate
+ * - the battery reaches end of life after losing a chemistry-specific share
+ *   of its capacity, at which point it costs its replacement cost
+ *
+ * That turns a proposed charge/discharge profile into a wear cost, and a
+ * cost per kWh discharged the optimizers can price cycling with. The model
+ * of a device is calibrated against the capacity impact its recorded
+ * lifecycle events observed, and takes their typical cell temperature.
+ */
+
+import { desc, eq } from 'drizzle-orm';
+import { batteryCellTypeEnum, batteryLifecycleEvents } from '@shared/schema';
+import { db } from '../db';
+import { storage } from '../storage';
+
+export type BatteryCellType = typeof batteryCellTypeEnum.enumValues[number];
+
+export interface ChemistryAgingParameters {
+  cycleLifeAtFullDepth: number; // Cycles to end of life at 100% DoD, reference temperature and C-rate
+  depthExponent: number; // k in N(d) = N(100%) · d^-k
+  endOfLifeCapacity: number; // Fraction of nominal capacity left at end of life
+  replacementCostPerKwh: number;
+  meanSocStress: number; // Extra aging per unit of mean SoC above 50%
+  temperatureDoublingC: number; // Aging doubles every this many °C above the reference
+  referenceCRate: number;
+  cRateExponent: number; // Aging grows with (C-rate / reference)^exponent above the reference
+}
+
+export interface BatteryDegradationModel {
+  deviceId: number | null;
+  cellType: BatteryCellType;
+  parameters: ChemistryAgingParameters;
+  capacityKwh: number;
+  replacementCost: number; // Whole battery
+  temperatureC: number; // Typical cell temperature
+  calibration: number; // Observed over modelled capacity fade
+  calibrationEvents: number;
+}
+
+export interface RainflowCycle {
+  depth: number; // Fraction of capacity
+  meanSoc: number; // Fraction of capacity
+  count: number; // 1 for a full cycle, 0.5 for a half cycle
+}
+
+export interface DegradationProfile {
+  initialSoc: number; // %
+  powerKw: number[]; // Positive discharging, negative charging
+  intervalHours: number[];
+  roundTripEfficiency?: number; // 0-1
+}
+
+export interface DegradationAssessment {
+  cycles: RainflowCycle[];
+  equivalentFullCycles: number;
+  throughputKwh: number; // Discharged
+  lifeConsumed: number; // Fraction of the battery's cycle life
+  capacityLossPercent: number;
+  cost: number;
+  costPerKwh: number; // Per kWh discharged
+}
+
+const REFERENCE_TEMPERATURE_C = 25;
+
+// Typical figures per chemistry; lifecycle events calibrate them per device
+export const CHEMISTRY_AGING: Record<BatteryCellType, ChemistryAgingParameters> = {
+  lithium_ion: {
+    cycleLifeAtFullDepth: 3000,
+    depthExponent: 1.4,
+    endOfLifeCapacity: 0.8,
+    replacementCostPerKwh: 350,
+    meanSocStress: 0.6,
+    temperatureDoublingC: 10,
+    referenceCRate: 0.5,
+    cRateExponent: 0.8,
+  },
+  lithium_iron_phosphate: {
+    cycleLifeAtFullDepth: 6000,
+    depthExponent: 1.0,
+    endOfLifeCapacity: 0.8,
+    replacementCostPerKwh: 300,
+    meanSocStress: 0.3,
+    temperatureDoublingC: 12,
+    referenceCRate: 0.5,
+    cRateExponent: 0.5,
+  },
+  lead_acid: {
+    cycleLifeAtFullDepth: 500,
+    depthExponent: 1.3,
+    endOfLifeCapacity: 0.8,
+    replacementCostPerKwh: 200,
+    meanSocStress: 0,
+    temperatureDoublingC: 8,
+    referenceCRate: 0.1,
+    cRateExponent: 0.6,
+  },
+  nickel_metal_hydride: {
+    cycleLifeAtFullDepth: 1000,
+    depthExponent: 1.2,
+    endOfLifeCapacity: 0.8,
+    replacementCostPerKwh: 400,
+    meanSocStress: 0.2,
+    temperatureDoublingC: 10,
+    referenceCRate: 0.5,
+    cRateExponent: 0.6,
+  },
+  nickel_cadmium: {
+    cycleLifeAtFullDepth: 2000,
+    depthExponent: 1.1,
+    endOfLifeCapacity: 0.8,
+    replacementCostPerKwh: 500,
+    meanSocStress: 0,
+    temperatureDoublingC: 12,
+    referenceCRate: 0.5,
+    cRateExponent: 0.4,
+  },
+  flow_battery: {
+    cycleLifeAtFullDepth: 15000,
+    depthExponent: 0,
+    endOfLifeCapacity: 0.8,
+    replacementCostPerKwh: 500,
+    meanSocStress: 0,
+    temperatureDoublingC: 20,
+    referenceCRate: 0.25,
+    cRateExponent: 0,
+  },
+  sodium_ion: {
+    cycleLifeAtFullDepth: 4000,
+    depthExponent: 1.2,
+    endOfLifeCapacity: 0.8,
+    replacementCostPerKwh: 250,
+    meanSocStress: 0.3,
+    temperatureDoublingC: 12,
+    referenceCRate: 0.5,
+    cRateExponent: 0.5,
+  },
+  solid_state: {
+    cycleLifeAtFullDepth: 8000,
+    depthExponent: 1.3,
+    endOfLifeCapacity: 0.8,
+    replacementCostPerKwh: 600,
+    meanSocStress: 0.4,
+    temperatureDoublingC: 12,
+    referenceCRate: 1,
+    cRateExponent: 0.5,
+  },
+};
+
+const DEFAULT_CELL_TYPE: BatteryCellType = 'lithium_ion';
+const DEFAULT_CAPACITY_KWH = 10;
+const DEFAULT_ROUND_TRIP_EFFICIENCY = 0.9;
+
+// Lifecycle events considered for calibration, and how far it may move the model
+const CALIBRATION_EVENT_LIMIT = 200;
+const MIN_CALIBRATION_EVENTS = 3;
+const CALIBRATION_RANGE: [number, number] = [0.25, 4];
+
+// Depths below this are measurement noise rather than cycles
+const MIN_CYCLE_DEPTH = 0.001;
+
+/**
+ * Rainflow count a SoC series (fractions of capacity) into full and half
+ * cycles, following the three-point method of ASTM E1049
+ */
+export function rainflowCount(series: number[]): RainflowCycle[] {
+  const cycles: RainflowCycle[] = [];
+  const stack: number[] = [];
+
+  const addCycle = (from: number, to: number, count: number) => {
+    const depth = Math.abs(from - to);
+    if (depth >= MIN_CYCLE_DEPTH) {
+      cycles.push({ depth, meanSoc: (from + to) / 2, count });
+    }
+  };
+
+  for (const point of findReversals(series)) {
+    stack.push(point);
+    while (stack.length >= 3) {
+      const last = Math.abs(stack[stack.length - 1] - stack[stack.length - 2]);
+      const previous = Math.abs(stack[stack.length - 2] - stack[stack.length - 3]);
+      if (last < previous) break;
+
+      if (stack.length === 3) {
+        // The range holds the start of the series, so it only closes half a cycle
+        addCycle(stack[0], stack[1], 0.5);
+        stack.shift();
+      } else {
+        addCycle(stack[stack.length - 3], stack[stack.length - 2], 1);
+        stack.splice(stack.length - 3, 2);
+      }
+    }
+  }
+
+  // Ranges left on the stack never closed
+  for (let i = 0; i < stack.length - 1; i++) {
+    addCycle(stack[i], stack[i + 1], 0.5);
+  }
+
+  return cycles;
+}
+
+/**
+ * Cycles to end of life at a depth of discharge (fraction of capacity), at
+ * the reference temperature and C-rate
+ */
+export function getCycleLife(parameters: ChemistryAgingParameters, depth: number): number {
+  return parameters.cycleLifeAtFullDepth * Math.pow(Math.min(Math.max(depth, MIN_CYCLE_DEPTH), 1), -parameters.depthExponent);
+}
+
+/**
+ * Wear of a charge/discharge profile, with the SoC following the power
+ * through the one-way efficiencies within 0-100%
+ */
+export function assessDegradation(model: BatteryDegradationModel, profile: DegradationProfile): DegradationAssessment {
+  const { soc, throughputKwh, cRate } = simulateProfile(model.capacityKwh, profile);
+  return assessCycles(model, soc, throughputKwh, cRate);
+}
+
+/**
+ * Wear of a measured SoC history (%), at the reference C-rate since the
+ * power behind it is not known
+ */
+export function assessSocHistory(model: BatteryDegradationModel, socPercent: number[]): DegradationAssessment {
+  const soc = socPercent.map((value) => Math.min(Math.max(value, 0), 100) / 100);
+  const throughputKwh = soc.reduce((sum, value, i) => (i > 0 && value < soc[i - 1] ? sum + (soc[i - 1] - value) * model.capacityKwh : sum), 0);
+  return assessCycles(model, soc, throughputKwh, model.parameters.referenceCRate);
+}
+
+function assessCycles(model: BatteryDegradationModel, soc: number[], throughputKwh: number, cRate: number): DegradationAssessment {
+  const cycles = rainflowCount(soc);
+  const stress = temperatureStress(model.parameters, model.temperatureC) * cRateStress(model.parameters, cRate) * model.calibration;
+
+  const lifeConsumed = cycles.reduce(
+    (sum, cycle) => sum + (cycle.count / getCycleLife(model.parameters, cycle.depth)) * meanSocStress(model.parameters, cycle.meanSoc),
+    0
+  ) * stress;
+  const cost = lifeConsumed * model.replacementCost;
+
+  return {
+    cycles,
+    equivalentFullCycles: round(cycles.reduce((sum, cycle) => sum + cycle.depth * cycle.count, 0)),
+    throughputKwh: round(throughputKwh),
+    lifeConsumed,
+    capacityLossPercent: lifeConsumed * (1 - model.parameters.endOfLifeCapacity) * 100,
+    cost: round(cost),
+    costPerKwh: throughputKwh > 0 ? round(cost / throughputKwh, 4) : 0,
+  };
+}
+
+/**
+ * Wear cost per kWh discharged of repeated full cycles between the given SoC
+ * limits (%), to price cycling before a profile is known
+ */
+export function getNominalCostPerKwh(model: BatteryDegradationModel, minSoc: number = 10, maxSoc: number = 90): number {
+  const depth = Math.max((maxSoc - minSoc) / 100, MIN_CYCLE_DEPTH);
+  const lifeConsumed = (1 / getCycleLife(model.parameters, depth))
+    * meanSocStress(model.parameters, (minSoc + maxSoc) / 200)
+    * temperatureStress(model.parameters, model.temperatureC)
+    * model.calibration;
+  const dischargedKwh = depth * model.capacityKwh;
+  return dischargedKwh > 0 ? round((lifeConsumed * model.replacementCost) / dischargedKwh, 4) : 0;
+}
+
+/**
+ * Uncalibrated model of a chemistry, for batteries without a device record
+ */
+export function getChemistryModel(
+  cellType: BatteryCellType = DEFAULT_CELL_TYPE,
+  capacityKwh: number = DEFAULT_CAPACITY_KWH,
+  replacementCost?: number
+): BatteryDegradationModel {
+  const parameters = CHEMISTRY_AGING[cellType] ?? CHEMISTRY_AGING[DEFAULT_CELL_TYPE];
+  return {
+    deviceId: null,
+    cellType: CHEMISTRY_AGING[cellType] ? cellType : DEFAULT_CELL_TYPE,
+    parameters,
+    capacityKwh,
+    replacementCost: replacementCost ?? capacityKwh * parameters.replacementCostPerKwh,
+    temperatureC: REFERENCE_TEMPERATURE_C,
+    calibration: 1,
+    calibrationEvents: 0,
+  };
+}
+
+/**
+ * Degradation model of a battery device, from its cell type and capacity,
+ * calibrated against its lifecycle events. Specs of the device registry
+ * (`capacity`, `batteryCellType`, `replacementCost`, `cycleLife`) take
+ * precedence over the device record.
+ */
+export async function getBatteryDegradationModel(
+  deviceId: number,
+  specs: Record<string, any> = {}
+): Promise<BatteryDegradationModel> {
+  let device;
+  let events: Array<typeof batteryLifecycleEvents.$inferSelect> = [];
+  try {
+    [device, events] = await Promise.all([
+      storage.getDevice(deviceId),
+      db.select()
+        .from(batteryLifecycleEvents)
+        .where(eq(batteryLifecycleEvents.deviceId, deviceId))
+        .orderBy(desc(batteryLifecycleEvents.timestamp))
+        .limit(CALIBRATION_EVENT_LIMIT),
+    ]);
+  } catch (error) {
+    console.warn(`Failed to load battery ${deviceId} for its degradation model, using chemistry defaults:`, error);
+  }
+
+  const cellType = (specs.batteryCellType ?? device?.batteryCellType ?? DEFAULT_CELL_TYPE) as BatteryCellType;
+  const capacityKwh = Number(specs.capacity ?? device?.capacity ?? DEFAULT_CAPACITY_KWH);
+  const model = getChemistryModel(cellType, capacityKwh, specs.replacementCost != null ? Number(specs.replacementCost) : undefined);
+  model.deviceId = deviceId;
+  if (specs.cycleLife != null) {
+    model.parameters = { ...model.parameters, cycleLifeAtFullDepth: Number(specs.cycleLife) };
+  }
+
+  const temperatures = events
+    .map((event) => (event.averageTemperature != null ? Number(event.averageTemperature) : NaN))
+    .filter(Number.isFinite);
+  if (temperatures.length > 0) {
+    model.temperatureC = temperatures.reduce((sum, t) => sum + t, 0) / temperatures.length;
+  }
+
+  const nominalCapacityAh = device?.nominalCapacity != null ? Number(device.nominalCapacity) : null;
+  const { calibration, samples } = calibrate(model, events, nominalCapacityAh);
+  model.calibration = calibration;
+  model.calibrationEvents = samples;
+
+  return model;
+}
+
+// Ratio of the capacity impact lifecycle events observed to what the
+// uncalibrated model expects of cycles with their DoD, temperature and C-rate
+function calibrate(
+  model: BatteryDegradationModel,
+  events: Array<typeof batteryLifecycleEvents.$inferSelect>,
+  nominalCapacityAh: number | null
+): { calibration: number; samples: number } {
+  let observed = 0;
+  let modelled = 0;
+  let samples = 0;
+
+  for (const event of events) {
+    if (event.capacityImpact == null) continue;
+    const low = event.minSoC ?? event.startSoC;
+    const high = event.maxSoC ?? event.endSoC;
+    if (low == null || high == null) continue;
+
+    const depth = Math.abs(Number(high) - Number(low)) / 100;
+    if (!(depth >= MIN_CYCLE_DEPTH)) continue;
+
+    const temperature = event.averageTemperature != null ? Number(event.averageTemperature) : model.temperatureC;
+    const cRate = event.averageCurrent != null && nominalCapacityAh
+      ? Math.abs(Number(event.averageCurrent)) / nominalCapacityAh
+      : model.parameters.referenceCRate;
+    const lifeConsumed = (1 / getCycleLife(model.parameters, depth))
+      * meanSocStress(model.parameters, (Number(high) + Number(low)) / 200)
+      * temperatureStress(model.parameters, temperature)
+      * cRateStress(model.parameters, cRate);
+
+    observed += Math.max(Number(event.capacityImpact), 0);
+    modelled += lifeConsumed * (1 - model.parameters.endOfLifeCapacity) * 100;
+    samples++;
+  }
+
+  if (samples < MIN_CALIBRATION_EVENTS || modelled <= 0) {
+    return { calibration: 1, samples };
+  }
+  const [min, max] = CALIBRATION_RANGE;
+  return { calibration: Math.min(Math.max(observed / modelled, min), max), samples };
+}
+
+// SoC series (fractions, starting with the initial SoC) of a power profile,
+// with the energy discharged and the throughput-weighted C-rate
+function simulateProfile(
+  capacityKwh: number,
+  profile: DegradationProfile
+): { soc: number[]; throughputKwh: number; cRate: number } {
+  if (capacityKwh <= 0) {
+    return { soc: [], throughputKwh: 0, cRate: 0 };
+  }
+
+  const oneWayEfficiency = Math.sqrt(profile.roundTripEfficiency ?? DEFAULT_ROUND_TRIP_EFFICIENCY);
+  let energy = (Math.min(Math.max(profile.initialSoc, 0), 100) / 100) * capacityKwh;
+  const soc = [energy / capacityKwh];
+  let throughputKwh = 0;
+  let weightedCRate = 0;
+  let movedKwh = 0;
+
+  profile.powerKw.forEach((powerKw, t) => {
+    const dt = profile.intervalHours[t] ?? 0;
+    const before = energy;
+    energy = powerKw > 0
+      ? Math.max(energy - (powerKw * dt) / oneWayEfficiency, 0)
+      : Math.min(energy - powerKw * dt * oneWayEfficiency, capacityKwh);
+
+    const moved = Math.abs(energy - before);
+    if (energy < before) throughputKwh += moved * oneWayEfficiency;
+    if (moved > 0 && dt > 0) {
+      weightedCRate += moved * (moved / dt / capacityKwh);
+      movedKwh += moved;
+    }
+    soc.push(energy / capacityKwh);
+  });
+
+  return { soc, throughputKwh, cRate: movedKwh > 0 ? weightedCRate / movedKwh : 0 };
+}
+
+// Turning points of a series, including its ends
+function findReversals(series: number[]): number[] {
+  const reversals: number[] = [];
+  for (const value of series) {
+    const last = reversals.length - 1;
+    if (last >= 0 && value === reversals[last]) continue;
+    if (last >= 1 && (reversals[last] - reversals[last - 1]) * (value - reversals[last]) > 0) {
+      // Still going the same way
+      reversals[last] = value;
+      continue;
+    }
+    reversals.push(value);
+  }
+  return reversals;
+}
+
+function meanSocStress(parameters: ChemistryAgingParameters, meanSoc: number): number {
+  return 1 + parameters.meanSocStress * Math.max(meanSoc - 0.5, 0);
+}
+
+function temperatureStress(parameters: ChemistryAgingParameters, temperatureC: number): number {
+  return Math.pow(2, Math.max(temperatureC - REFERENCE_TEMPERATURE_C, 0) / parameters.temperatureDoublingC);
+}
+
+function cRateStress(parameters: ChemistryAgingParameters, cRate: number): number {
+  return Math.pow(Math.max(cRate / parameters.referenceCRate, 1), parameters.cRateExponent);
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,677 @@
+/**
+ * Battery Schedule Optimizer
+ *
+ * Deterministic charge/discharge schedule for a site's batteries over the
+ * next 24-48 hours, formulated as a mixed-integer linear program over hourly
+ * intervals (the first may be shorter) and solved in-process:
+ *
+ * - battery energy follows charge and discharge power through the one-way
+ *   efficiencies, within the batteries' power ratings and SoC limits, and
+ *   ends the horizon no emptier than it started
+ * - every interval balances grid import and export, forecast load and PV,
+ *   battery power and PV curtailment, within the grid import/export limits
+ * - the objective is the energy bill at the tariff's import and export
+ *   rates, plus the demand charges on peak import above this month's peak so
+ *   far, plus a degradation cost per kWh discharged
+ *
+ * Binaries that stop a battery charging and discharging at once, or the site
+ * importing and exporting at once, are only added for the intervals where
+ * the LP relaxation does either, which is rare unless prices go negative.
+ *
+ * The degradation cost per kWh of a battery comes from its rainflow
+ * cycle-aging model, first for full cycles between its SoC limits and then
+ * re-priced from the cycles the schedule actually plans, re-solving while
+ * that moves it noticeably. Savings are reported against the same horizon
+ * with the batteries idle, net of the modelled wear. The optimization constraints of the site's settings
+ * can set `minSoc`/`maxSoc` (%) and `maxGridImport`/`maxGridExport` (kW);
+ * the grid limits default to the site's grid connection.
+ */
+
+import { storage } from '../storage';
+import { calculateSiteBill } from './billingService';
+import { getOrCreateForecast } from './forecastService';
+import { getDemandChargesForRate, getSiteTariffContext, resolveRate } from './tariffEngine';
+import { LinearProgram, type LpStatus } from '../utils/linearProgram';
+import {
+  assessDegradation,
+  getBatteryDegradationModel,
+  getNominalCostPerKwh,
+  type BatteryDegradationModel,
+  type DegradationAssessment,
+} from './batteryDegradationModel';
+
+// A battery device and its specs, as kept by the device registry
+export interface ScheduledBattery {
+  id: number;
+  specs?: Record<string, any>;
+}
+
+export interface BatteryParameters {
+  batteryId: number;
+  capacityKwh: number;
+  initialSoc: number; // %
+  minSoc: number; // %
+  maxSoc: number; // %
+  maxChargeKw: number;
+  maxDischargeKw: number;
+  roundTripEfficiency: number; // 0-1
+  degradationCostPerKwh: number; // Per kWh discharged
+  degradationModel?: BatteryDegradationModel; // Re-prices the cost above from the planned cycles
+}
+
+export interface ScheduleDemandCharge {
+  name: string;
+  ratePerKw: number;
+  applies: boolean[]; // Per interval
+  existingPeakKw: number; // Already billed this period
+}
+
+export interface BatteryScheduleInputs {
+  times: Date[]; // Interval starts
+  intervalHours: number[];
+  importPrices: number[];
+  exportPrices: number[];
+  loadKw: number[];
+  pvKw: number[];
+  demandCharges: ScheduleDemandCharge[];
+  gridImportLimitKw: number | null;
+  gridExportLimitKw: number | null;
+  batteries: BatteryParameters[];
+}
+
+export interface ScheduledBatteryInterval {
+  time: Date;
+  action: 'charge' | 'discharge' | 'idle';
+  power: number; // kW
+  price: number;
+  soc: number; // % at the end of the interval
+}
+
+export interface BatteryWear {
+  equivalentFullCycles: number;
+  capacityLossPercent: number;
+  cost: number;
+  costPerKwh: number;
+}
+
+export interface ScheduledGridInterval {
+  time: Date;
+  importKw: number;
+  exportKw: number;
+  curtailedKw: number;
+}
+
+export interface BatteryScheduleResult {
+  status: LpStatus;
+  schedules: Array<{ batteryId: number; schedule: ScheduledBatteryInterval[]; wear: BatteryWear }>;
+  grid: ScheduledGridInterval[];
+  baselineCost: number; // Batteries idle
+  optimizedCost: number;
+  expectedSavings: number;
+  costs: { energy: number; demand: number; degradation: number };
+  cyclesUsed: number; // Equivalent full cycles, over all batteries
+  solver: { nodes: number; iterations: number; binaries: number; runtimeMs: number };
+}
+
+export const MAX_HORIZON_HOURS = 48;
+
+const DEFAULT_HORIZON_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Battery defaults where the device specs are silent, as in the heuristic strategies
+const DEFAULT_CAPACITY_KWH = 10;
+const DEFAULT_POWER_KW = 5;
+const DEFAULT_ROUND_TRIP_EFFICIENCY = 0.9;
+const DEFAULT_INITIAL_SOC = 50;
+const DEFAULT_MIN_SOC = 20;
+const DEFAULT_MAX_SOC = 90;
+
+// Power below this is reported as idle
+const IDLE_THRESHOLD_KW = 0.01;
+
+// Rounds of adding binaries for intervals that still violate exclusivity
+const MAX_EXCLUSIVITY_ROUNDS = 5;
+
+const SOLVER_TIME_LIMIT_MS = 20000;
+
+// Solves with the degradation cost re-priced from the previous schedule, and
+// the relative change in that cost worth another solve
+const MAX_DEGRADATION_PASSES = 3;
+const DEGRADATION_REPRICE_TOLERANCE = 0.1;
+
+interface ModelVariables {
+  charge: number[][];
+  discharge: number[][];
+  energy: number[][];
+  gridImport: number[];
+  gridExport: number[];
+  curtailment: number[];
+}
+
+/**
+ * Optimize the schedule of a site's batteries from its tariff, forecast and
+ * settings, or null if the site has no tariff to price it with
+ */
+export async function optimizeSiteBatterySchedule(
+  siteId: number,
+  batteries: ScheduledBattery[],
+  horizonHours: number = DEFAULT_HORIZON_HOURS
+): Promise<BatteryScheduleResult | null> {
+  const inputs = await getSiteScheduleInputs(siteId, batteries, { horizonHours });
+  return inputs ? optimizeBatterySchedule(inputs) : null;
+}
+
+/**
+ * Optimize a battery schedule. Deterministic for the same inputs.
+ */
+export function optimizeBatterySchedule(inputs: BatteryScheduleInputs): BatteryScheduleResult {
+  const startedAt = Date.now();
+  let nodes = 0;
+  let iterations = 0;
+  let solved: ReturnType<typeof solveModel>;
+
+  for (let pass = 1; ; pass++) {
+    solved = solveModel(inputs);
+    nodes += solved.nodes;
+    iterations += solved.iterations;
+
+    if (solved.solution.status !== 'optimal' && solved.solution.status !== 'feasible') break;
+    if (pass >= MAX_DEGRADATION_PASSES) break;
+
+    const batteries = repriceDegradation(inputs, solved.variables, solved.solution.values);
+    if (!batteries) break;
+    inputs = { ...inputs, batteries };
+  }
+
+  const baselineCost = calculateBaselineCost(inputs);
+  const result = readSolution(inputs, solved.variables, solved.solution);
+
+  return {
+    ...result,
+    status: solved.solution.status,
+    baselineCost: round(baselineCost),
+    expectedSavings: result.schedules.length > 0 ? round(baselineCost - result.optimizedCost) : 0,
+    solver: {
+      nodes,
+      iterations,
+      binaries: solved.binaries,
+      runtimeMs: Date.now() - startedAt,
+    },
+  };
+}
+
+/**
+ * Optimizer inputs for a site over the next hours, or null if the site has
+ * no tariff. Intervals are hourly after the first, which lasts
+ * `firstIntervalMinutes`.
+ */
+export async function getSiteScheduleInputs(
+  siteId: number,
+  batteries: ScheduledBattery[],
+  options: { horizonHours?: number; firstIntervalMinutes?: number } = {}
+): Promise<BatteryScheduleInputs | null> {
+  const context = await getSiteTariffContext(siteId);
+  if (!context) {
+    return null;
+  }
+
+  const hours = Math.min(Math.max(Math.round(options.horizonHours ?? DEFAULT_HORIZON_HOURS), 1), MAX_HORIZON_HOURS);
+  const start = new Date();
+  const end = start.getTime() + hours * HOUR_MS;
+
+  const times: Date[] = [];
+  const intervalHours: number[] = [];
+  let step = Math.min((options.firstIntervalMinutes ?? 60) * 60 * 1000, HOUR_MS);
+  for (let t = start.getTime(); t < end; t += step, step = HOUR_MS) {
+    times.push(new Date(t));
+    intervalHours.push(Math.min(step, end - t) / HOUR_MS);
+  }
+  const rates = times.map((time) => resolveRate(context, time));
+
+  const [site, settings, forecast, existingPeaks] = await Promise.all([
+    storage.getSite(siteId),
+    storage.getOptimizationSettings(siteId),
+    getForecastProfiles(siteId, times),
+    getExistingDemandPeaks(siteId, start),
+  ]);
+  const constraints = (settings?.constraints as any) || {};
+  const gridConnectionKw = site?.gridConnectionPoint != null ? Number(site.gridConnectionPoint) : null;
+
+  const demandCharges = context.definition.demandCharges
+    .map((charge) => ({
+      name: charge.name,
+      ratePerKw: charge.ratePerKw,
+      applies: rates.map((rate) => getDemandChargesForRate(context.definition, rate).includes(charge)),
+      existingPeakKw: existingPeaks.get(charge.name) ?? 0,
+    }))
+    .filter((charge) => charge.ratePerKw > 0 && charge.applies.some(Boolean));
+
+  return {
+    times,
+    intervalHours,
+    importPrices: rates.map((rate) => rate.importRate),
+    exportPrices: rates.map((rate) => rate.exportRate),
+    loadKw: forecast.loadKw,
+    pvKw: forecast.pvKw,
+    demandCharges,
+    gridImportLimitKw: toLimit(constraints.maxGridImport ?? gridConnectionKw),
+    gridExportLimitKw: toLimit(constraints.maxGridExport ?? gridConnectionKw),
+    batteries: await Promise.all(batteries.map((battery) => getBatteryParameters(battery, constraints))),
+  };
+}
+
+// Solve the program, adding exclusivity binaries for the intervals the
+// relaxation charges and discharges, or imports and exports, at once
+function solveModel(inputs: BatteryScheduleInputs): {
+  variables: ModelVariables;
+  solution: ReturnType<LinearProgram['solve']>;
+  nodes: number;
+  iterations: number;
+  binaries: number;
+} {
+  const modeBinaries = new Set<string>();
+  const gridBinaries = new Set<number>();
+
+  let variables: ModelVariables;
+  let solution: ReturnType<LinearProgram['solve']>;
+  let nodes = 0;
+  let iterations = 0;
+
+  for (let pass = 1; ; pass++) {
+    let program: LinearProgram;
+    ({ program, variables } = buildModel(inputs, modeBinaries, gridBinaries));
+    solution = program.solve({ timeLimitMs: SOLVER_TIME_LIMIT_MS });
+    nodes += solution.nodes;
+    iterations += solution.iterations;
+
+    if (solution.status !== 'optimal' && solution.status !== 'feasible') break;
+
+    const violations = findExclusivityViolations(inputs, variables, solution.values, modeBinaries, gridBinaries);
+    if (violations.mode.length === 0 && violations.grid.length === 0) break;
+
+    // Stop being lazy and constrain every interval after the last round
+    const everyInterval = pass >= MAX_EXCLUSIVITY_ROUNDS;
+    for (let t = 0; t < inputs.importPrices.length; t++) {
+      inputs.batteries.forEach((_, b) => {
+        if (everyInterval || violations.mode.includes(`${b}:${t}`)) modeBinaries.add(`${b}:${t}`);
+      });
+      if (everyInterval || violations.grid.includes(t)) gridBinaries.add(t);
+    }
+  }
+
+  return { variables: variables!, solution: solution!, nodes, iterations, binaries: modeBinaries.size + gridBinaries.size };
+}
+
+// Batteries with their degradation cost re-priced from the cycles of the
+// solved schedule, or null if none moved by more than the tolerance
+function repriceDegradation(
+  inputs: BatteryScheduleInputs,
+  variables: ModelVariables,
+  values: number[]
+): BatteryParameters[] | null {
+  let repriced = false;
+  const batteries = inputs.batteries.map((battery, b) => {
+    const wear = assessBatteryWear(inputs, battery, variables, values, b);
+    if (!wear || wear.throughputKwh <= IDLE_THRESHOLD_KW) return battery;
+
+    const change = Math.abs(wear.costPerKwh - battery.degradationCostPerKwh) / Math.max(battery.degradationCostPerKwh, 1e-6);
+    if (change <= DEGRADATION_REPRICE_TOLERANCE) return battery;
+
+    repriced = true;
+    return { ...battery, degradationCostPerKwh: wear.costPerKwh };
+  });
+  return repriced ? batteries : null;
+}
+
+// Modelled wear of a battery's solved schedule, if it has a degradation model
+function assessBatteryWear(
+  inputs: BatteryScheduleInputs,
+  battery: BatteryParameters,
+  variables: ModelVariables,
+  values: number[],
+  b: number
+): DegradationAssessment | null {
+  if (!battery.degradationModel) return null;
+  return assessDegradation(battery.degradationModel, {
+    initialSoc: battery.initialSoc,
+    powerKw: variables.discharge[b].map((discharge, t) => values[discharge] - values[variables.charge[b][t]]),
+    intervalHours: inputs.intervalHours,
+    roundTripEfficiency: battery.roundTripEfficiency,
+  });
+}
+
+function buildModel(
+  inputs: BatteryScheduleInputs,
+  modeBinaries: Set<string>,
+  gridBinaries: Set<number>
+): { program: LinearProgram; variables: ModelVariables } {
+  const program = new LinearProgram();
+  const intervals = inputs.importPrices.length;
+  const totalChargeKw = inputs.batteries.reduce((sum, battery) => sum + battery.maxChargeKw, 0);
+  const totalDischargeKw = inputs.batteries.reduce((sum, battery) => sum + battery.maxDischargeKw, 0);
+
+  const variables: ModelVariables = {
+    charge: [],
+    discharge: [],
+    energy: [],
+    gridImport: [],
+    gridExport: [],
+    curtailment: [],
+  };
+
+  inputs.batteries.forEach((battery, b) => {
+    const { minKwh, maxKwh, initialKwh } = getEnergyLimits(battery);
+    const chargeEfficiency = Math.sqrt(battery.roundTripEfficiency);
+    const dischargeEfficiency = Math.sqrt(battery.roundTripEfficiency);
+
+    variables.charge.push([]);
+    variables.discharge.push([]);
+    variables.energy.push([]);
+
+    for (let t = 0; t < intervals; t++) {
+      const dt = inputs.intervalHours[t];
+      const charge = program.addVariable(`charge_${b}_${t}`, { upper: battery.maxChargeKw });
+      const discharge = program.addVariable(`discharge_${b}_${t}`, {
+        upper: battery.maxDischargeKw,
+        cost: battery.degradationCostPerKwh * dt,
+      });
+      const energy = program.addVariable(`energy_${b}_${t}`, { lower: minKwh, upper: maxKwh });
+      variables.charge[b].push(charge);
+      variables.discharge[b].push(discharge);
+      variables.energy[b].push(energy);
+
+      // energy[t] = energy[t-1] + charged - discharged
+      const terms: Array<[number, number]> = [[energy, 1], [charge, -chargeEfficiency * dt], [discharge, dt / dischargeEfficiency]];
+      if (t > 0) {
+        terms.push([variables.energy[b][t - 1], -1]);
+      }
+      program.addConstraint(terms, '=', t > 0 ? 0 : initialKwh, `soc_${b}_${t}`);
+
+      if (modeBinaries.has(`${b}:${t}`)) {
+        const charging = program.addVariable(`charging_${b}_${t}`, { upper: 1, integer: true });
+        program.addConstraint([[charge, 1], [charging, -battery.maxChargeKw]], '<=', 0);
+        program.addConstraint([[discharge, 1], [charging, battery.maxDischargeKw]], '<=', battery.maxDischargeKw);
+      }
+    }
+
+    program.addConstraint([[variables.energy[b][intervals - 1], 1]], '>=', Math.min(initialKwh, maxKwh), `terminal_${b}`);
+  });
+
+  for (let t = 0; t < intervals; t++) {
+    const load = inputs.loadKw[t];
+    const pv = inputs.pvKw[t];
+    const netLoad = load - pv;
+
+    // Import is bounded by what the site can draw, export by what it can
+    // produce; the import limit never forces the batteries to act
+    const importBound = Math.max(load, 0) + totalChargeKw;
+    const exportBound = Math.max(pv, 0) + totalDischargeKw;
+    const importUpper = inputs.gridImportLimitKw != null ? Math.min(Math.max(inputs.gridImportLimitKw, netLoad), importBound) : importBound;
+    const exportUpper = inputs.gridExportLimitKw != null ? Math.min(inputs.gridExportLimitKw, exportBound) : exportBound;
+
+    const gridImport = program.addVariable(`import_${t}`, { upper: importUpper, cost: inputs.importPrices[t] * inputs.intervalHours[t] });
+    const gridExport = program.addVariable(`export_${t}`, { upper: exportUpper, cost: -inputs.exportPrices[t] * inputs.intervalHours[t] });
+    const curtailment = program.addVariable(`curtail_${t}`, { upper: Math.max(pv, 0) });
+    variables.gridImport.push(gridImport);
+    variables.gridExport.push(gridExport);
+    variables.curtailment.push(curtailment);
+
+    // import - export + discharge - charge - curtailed = load - pv
+    const terms: Array<[number, number]> = [[gridImport, 1], [gridExport, -1], [curtailment, -1]];
+    inputs.batteries.forEach((_, b) => {
+      terms.push([variables.discharge[b][t], 1], [variables.charge[b][t], -1]);
+    });
+    program.addConstraint(terms, '=', netLoad, `balance_${t}`);
+
+    if (gridBinaries.has(t)) {
+      const importing = program.addVariable(`importing_${t}`, { upper: 1, integer: true });
+      program.addConstraint([[gridImport, 1], [importing, -importUpper]], '<=', 0);
+      program.addConstraint([[gridExport, 1], [importing, exportUpper]], '<=', exportUpper);
+    }
+  }
+
+  // Only peak import above what has already been billed adds to the bill
+  for (const charge of inputs.demandCharges) {
+    const peak = program.addVariable(`peak_${charge.name}`, { lower: charge.existingPeakKw, cost: charge.ratePerKw });
+    program.objectiveConstant -= charge.ratePerKw * charge.existingPeakKw;
+    charge.applies.forEach((applies, t) => {
+      if (applies) {
+        program.addConstraint([[variables.gridImport[t], 1], [peak, -1]], '<=', 0);
+      }
+    });
+  }
+
+  return { program, variables };
+}
+
+// Battery-intervals charging and discharging at once, and intervals importing
+// and exporting at once, that are not constrained yet
+function findExclusivityViolations(
+  inputs: BatteryScheduleInputs,
+  variables: ModelVariables,
+  values: number[],
+  modeBinaries: Set<string>,
+  gridBinaries: Set<number>
+): { mode: string[]; grid: number[] } {
+  const mode: string[] = [];
+  const grid: number[] = [];
+
+  inputs.batteries.forEach((_, b) => {
+    variables.charge[b].forEach((charge, t) => {
+      const key = `${b}:${t}`;
+      if (!modeBinaries.has(key) && values[charge] > IDLE_THRESHOLD_KW && values[variables.discharge[b][t]] > IDLE_THRESHOLD_KW) {
+        mode.push(key);
+      }
+    });
+  });
+  variables.gridImport.forEach((gridImport, t) => {
+    if (!gridBinaries.has(t) && values[gridImport] > IDLE_THRESHOLD_KW && values[variables.gridExport[t]] > IDLE_THRESHOLD_KW) {
+      grid.push(t);
+    }
+  });
+
+  return { mode, grid };
+}
+
+function readSolution(
+  inputs: BatteryScheduleInputs,
+  variables: ModelVariables,
+  solution: ReturnType<LinearProgram['solve']>
+): Pick<BatteryScheduleResult, 'schedules' | 'grid' | 'optimizedCost' | 'costs' | 'cyclesUsed'> {
+  if (solution.status !== 'optimal' && solution.status !== 'feasible') {
+    return { schedules: [], grid: [], optimizedCost: 0, costs: { energy: 0, demand: 0, degradation: 0 }, cyclesUsed: 0 };
+  }
+
+  const dt = inputs.intervalHours;
+  const values = solution.values;
+
+  let degradation = 0;
+  let cyclesUsed = 0;
+  const schedules = inputs.batteries.map((battery, b) => {
+    const dischargedKwh = variables.discharge[b].reduce((sum, discharge, t) => sum + values[discharge] * dt[t], 0);
+    const assessment = assessBatteryWear(inputs, battery, variables, values, b);
+
+    // Batteries without a model wear linearly with the energy they discharge
+    const wear: BatteryWear = assessment
+      ? {
+          equivalentFullCycles: assessment.equivalentFullCycles,
+          capacityLossPercent: round(assessment.capacityLossPercent, 4),
+          cost: assessment.cost,
+          costPerKwh: assessment.costPerKwh,
+        }
+      : {
+          equivalentFullCycles: round(battery.capacityKwh > 0 ? dischargedKwh / battery.capacityKwh : 0),
+          capacityLossPercent: 0,
+          cost: round(dischargedKwh * battery.degradationCostPerKwh),
+          costPerKwh: battery.degradationCostPerKwh,
+        };
+    degradation += wear.cost;
+    cyclesUsed += wear.equivalentFullCycles;
+
+    return {
+      batteryId: battery.batteryId,
+      schedule: inputs.importPrices.map((price, t): ScheduledBatteryInterval => {
+        const netKw = values[variables.discharge[b][t]] - values[variables.charge[b][t]];
+        return {
+          time: inputs.times[t],
+          action: netKw > IDLE_THRESHOLD_KW ? 'discharge' : netKw < -IDLE_THRESHOLD_KW ? 'charge' : 'idle',
+          power: round(Math.abs(netKw)),
+          price,
+          soc: round(battery.capacityKwh > 0 ? (values[variables.energy[b][t]] / battery.capacityKwh) * 100 : 0),
+        };
+      }),
+      wear,
+    };
+  });
+
+  const importKw = variables.gridImport.map((v) => values[v]);
+  const exportKw = variables.gridExport.map((v) => values[v]);
+  const energy = importKw.reduce((sum, kw, t) => sum + (kw * inputs.importPrices[t] - exportKw[t] * inputs.exportPrices[t]) * dt[t], 0);
+  const demand = calculateDemandCost(inputs.demandCharges, importKw);
+
+  return {
+    schedules,
+    grid: importKw.map((kw, t) => ({
+      time: inputs.times[t],
+      importKw: round(kw),
+      exportKw: round(exportKw[t]),
+      curtailedKw: round(values[variables.curtailment[t]]),
+    })),
+    optimizedCost: round(energy + demand + degradation),
+    costs: { energy: round(energy), demand: round(demand), degradation: round(degradation) },
+    cyclesUsed: round(cyclesUsed),
+  };
+}
+
+// Cost of the horizon with the batteries idle, exporting any surplus the
+// export limit allows unless export is paid negatively
+function calculateBaselineCost(inputs: BatteryScheduleInputs): number {
+  const importKw: number[] = [];
+  let energy = 0;
+
+  inputs.loadKw.forEach((load, t) => {
+    const netLoad = load - inputs.pvKw[t];
+    const gridImport = Math.max(netLoad, 0);
+    const surplus = Math.max(-netLoad, 0);
+    const gridExport = inputs.exportPrices[t] >= 0
+      ? Math.min(surplus, inputs.gridExportLimitKw ?? surplus)
+      : 0;
+
+    importKw.push(gridImport);
+    energy += (gridImport * inputs.importPrices[t] - gridExport * inputs.exportPrices[t]) * inputs.intervalHours[t];
+  });
+
+  return energy + calculateDemandCost(inputs.demandCharges, importKw);
+}
+
+function calculateDemandCost(demandCharges: ScheduleDemandCharge[], importKw: number[]): number {
+  return demandCharges.reduce((sum, charge) => {
+    const peakKw = importKw.reduce((peak, kw, t) => (charge.applies[t] ? Math.max(peak, kw) : peak), 0);
+    return sum + charge.ratePerKw * Math.max(peakKw - charge.existingPeakKw, 0);
+  }, 0);
+}
+
+// A battery starting outside its SoC limits may stay there but not go further
+function getEnergyLimits(battery: BatteryParameters): { minKwh: number; maxKwh: number; initialKwh: number } {
+  const initialKwh = (battery.capacityKwh * battery.initialSoc) / 100;
+  return {
+    minKwh: Math.min((battery.capacityKwh * battery.minSoc) / 100, initialKwh),
+    maxKwh: Math.max((battery.capacityKwh * battery.maxSoc) / 100, initialKwh),
+    initialKwh,
+  };
+}
+
+async function getBatteryParameters(battery: ScheduledBattery, constraints: any): Promise<BatteryParameters> {
+  const specs = battery.specs || {};
+  const capacityKwh = Number(specs.capacity ?? DEFAULT_CAPACITY_KWH);
+
+  let initialSoc = DEFAULT_INITIAL_SOC;
+  try {
+    const [reading] = await storage.getDeviceReadings(battery.id, 1);
+    if (reading?.stateOfCharge != null) {
+      initialSoc = Number(reading.stateOfCharge);
+    }
+  } catch (error) {
+    console.warn(`Failed to get state of charge of battery ${battery.id}, assuming ${DEFAULT_INITIAL_SOC}%:`, error);
+  }
+
+  const minSoc = Number(specs.minSoc ?? constraints.minSoc ?? DEFAULT_MIN_SOC);
+  const maxSoc = Number(specs.maxSoc ?? constraints.maxSoc ?? DEFAULT_MAX_SOC);
+
+  // A flat cost in the specs overrides the cycle-aging model
+  let degradationModel: BatteryDegradationModel | undefined;
+  let degradationCostPerKwh: number;
+  if (specs.degradationCostPerKwh != null) {
+    degradationCostPerKwh = Number(specs.degradationCostPerKwh);
+  } else {
+    degradationModel = await getBatteryDegradationModel(battery.id, { ...specs, capacity: capacityKwh });
+    degradationCostPerKwh = getNominalCostPerKwh(degradationModel, minSoc, maxSoc);
+  }
+
+  return {
+    batteryId: battery.id,
+    capacityKwh,
+    initialSoc: Math.min(Math.max(initialSoc, 0), 100),
+    minSoc,
+    maxSoc,
+    maxChargeKw: Number(specs.maxChargeRate ?? DEFAULT_POWER_KW),
+    maxDischargeKw: Number(specs.maxDischargeRate ?? DEFAULT_POWER_KW),
+    roundTripEfficiency: Number(specs.efficiency ?? DEFAULT_ROUND_TRIP_EFFICIENCY),
+    degradationCostPerKwh,
+    degradationModel,
+  };
+}
+
+// Load and PV from the site's hourly energy forecast, for the hour each
+// interval starts in; hours the forecast does not cover are assumed zero
+async function getForecastProfiles(siteId: number, times: Date[]): Promise<{ loadKw: number[]; pvKw: number[] }> {
+  const loadKw = new Array<number>(times.length).fill(0);
+  const pvKw = new Array<number>(times.length).fill(0);
+  const hours = (times[times.length - 1].getTime() - times[0].getTime()) / HOUR_MS + 1;
+
+  try {
+    const forecast = await getOrCreateForecast(siteId, hours <= 24 ? '24h' : '7d');
+    const data = (forecast.metadata as any)?.data as Record<string, number[]> | undefined;
+    if (!data?.timestamps?.length) {
+      return { loadKw, pvKw };
+    }
+
+    times.forEach((time, t) => {
+      const index = Math.floor((time.getTime() - data.timestamps[0]) / HOUR_MS);
+      if (index < 0 || index >= data.timestamps.length) return;
+      loadKw[t] = Math.max(Number(data.consumption?.[index] ?? 0), 0);
+      pvKw[t] = Math.max(Number(data.production?.[index] ?? 0), 0);
+    });
+  } catch (error) {
+    console.warn(`Failed to get energy forecast for site ${siteId}, optimizing on prices alone:`, error);
+  }
+
+  return { loadKw, pvKw };
+}
+
+// Peak demand billed so far this month, by demand charge
+async function getExistingDemandPeaks(siteId: number, now: Date): Promise<Map<string, number>> {
+  const peaks = new Map<string, number>();
+  try {
+    const bill = await calculateSiteBill(siteId, new Date(now.getFullYear(), now.getMonth(), 1), now);
+    for (const item of bill?.lineItems ?? []) {
+      if (item.category === 'demand') {
+        peaks.set(item.description, item.quantity);
+      }
+    }
+  } catch (error) {
+    console.warn(`Failed to get this month's peak demand for site ${siteId}:`, error);
+  }
+  return peaks;
+}
+
+function toLimit(value: unknown): number | null {
+  const limit = value != null ? Number(value) : NaN;
+  return Number.isFinite(limit) && limit >= 0 ? limit : null;
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,449 @@
+/**
+ * Billing Service
+ *
+ * Computes itemized electricity bills for a billing period from the site's
+ * metered `energyReadings` and its tariff: time-of-use or block energy
+ * charges, demand charges on the highest kW while each charge applies, export
+ * credits, fixed daily charges and VAT. Shadow billing prices the same load
+ * again as if the battery, or the battery and solar, were not installed, so
+ * savings come from real meter data rather than estimates.
+ *
+ * Readings are treated as the average power from their timestamp until the
+ * next reading; gaps longer than the usual reading interval are left unbilled
+ * and show up as reduced `coverage`.
+ */
+
+import { storage } from '../storage';
+import type { EnergyReading } from '@shared/schema';
+import type { ResolvedTariffRate } from '@shared/tariffSchema';
+import {
+  getDemandChargesForRate,
+  getLocalDate,
+  getSiteTariffContext,
+  resolveRate,
+  type TariffContext,
+} from './tariffEngine';
+
+// Reading interval assumed when there are too few readings to infer it
+const DEFAULT_INTERVAL_HOURS = 0.25;
+
+export type BillScenario = 'actual' | 'without_battery' | 'without_battery_and_solar';
+
+export type BillLineCategory = 'energy' | 'demand' | 'fixed' | 'export_credit' | 'vat';
+
+// Metered grid exchange over one interval
+export interface MeterInterval {
+  start: Date;
+  hours: number;
+  gridKw: number; // Positive = import, negative = export
+}
+
+// Meter interval with the flows needed to rebuild counterfactual grid flows
+export interface SiteMeterInterval extends MeterInterval {
+  solarKw: number;
+  batteryKw: number; // Positive = discharging
+}
+
+export interface BillLineItem {
+  category: BillLineCategory;
+  description: string;
+  quantity: number;
+  unit: string;
+  rate: number;
+  amount: number; // Negative for credits
+}
+
+export interface BillDay {
+  date: string; // Site-local YYYY-MM-DD
+  importKwh: number;
+  exportKwh: number;
+  energyCharges: number;
+  exportCredits: number;
+}
+
+export interface Bill {
+  scenario: BillScenario;
+  tariffId: number;
+  tariffName: string;
+  currency: string;
+  timezone: string;
+  periodStart: string;
+  periodEnd: string;
+  coverage: number; // Fraction of the period covered by meter data
+  importKwh: number;
+  exportKwh: number;
+  peakDemandKw: number;
+  energyCharges: number;
+  demandCharges: number;
+  fixedCharges: number;
+  exportCredits: number;
+  subtotal: number;
+  vat: number;
+  total: number;
+  lineItems: BillLineItem[];
+  daily: BillDay[];
+}
+
+export interface ShadowBillDay {
+  date: string;
+  consumptionKwh: number;
+  productionKwh: number;
+  batterySavings: number;
+  totalSavings: number; // Energy savings only; demand charges are per period
+}
+
+export interface ShadowBill {
+  actual: Bill;
+  withoutBattery: Bill;
+  withoutBatteryAndSolar: Bill;
+  consumptionKwh: number;
+  productionKwh: number;
+  selfConsumedKwh: number;
+  savings: {
+    total: number;
+    // Attribution of the pre-VAT savings; battery + solar covers all of it
+    battery: number;
+    solar: number;
+    demand: number; // Demand charge reduction, already part of battery and solar
+  };
+  daily: ShadowBillDay[];
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+// Energy charge or export credit accumulated for one priced period
+interface EnergyBucket {
+  description: string;
+  rate: number;
+  kwh: number;
+}
+
+function addToBucket(buckets: Map<string, EnergyBucket>, rate: ResolvedTariffRate, unitRate: number, kwh: number) {
+  const key = `${rate.season ?? ''}|${rate.periodName}|${unitRate}`;
+  const bucket = buckets.get(key);
+  if (bucket) {
+    bucket.kwh += kwh;
+  } else {
+    buckets.set(key, {
+      description: rate.season ? `${rate.periodName} (${rate.season})` : rate.periodName,
+      rate: unitRate,
+      kwh,
+    });
+  }
+}
+
+/**
+ * Number of site-local calendar days touched by the period
+ */
+function countLocalDays(context: TariffContext, start: Date, end: Date): number {
+  const dates = new Set<string>();
+  for (let t = start.getTime(); t < end.getTime(); t += 60 * 60 * 1000) {
+    dates.add(getLocalDate(context, new Date(t)));
+  }
+  return dates.size;
+}
+
+/**
+ * Price metered intervals against a tariff. Intervals outside the period are
+ * ignored and the last one is clipped to the period end.
+ */
+export function calculateBill(
+  context: TariffContext,
+  intervals: MeterInterval[],
+  periodStart: Date,
+  periodEnd: Date,
+  scenario: BillScenario = 'actual'
+): Bill {
+  const { tariff, definition, timezone } = context;
+  const currency = tariff.currency || 'USD';
+
+  const energyBuckets = new Map<string, EnergyBucket>();
+  const exportBuckets = new Map<string, EnergyBucket>();
+  const demandPeaks = new Map<string, number>();
+  const daily = new Map<string, BillDay>();
+  const blockConsumption = new Map<string, number>();
+
+  let coveredHours = 0;
+  let peakDemandKw = 0;
+
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  for (const interval of sorted) {
+    const startMs = interval.start.getTime();
+    if (startMs < periodStart.getTime() || startMs >= periodEnd.getTime()) continue;
+
+    const hours = Math.min(interval.hours, (periodEnd.getTime() - startMs) / (60 * 60 * 1000));
+    if (hours <= 0) continue;
+    coveredHours += hours;
+
+    const date = getLocalDate(context, interval.start);
+    const blockKey = definition.blockPeriod === 'daily' ? date : date.slice(0, 7);
+    const consumed = blockConsumption.get(blockKey) ?? 0;
+    const rate = resolveRate(context, interval.start, consumed);
+
+    let day = daily.get(date);
+    if (!day) {
+      day = { date, importKwh: 0, exportKwh: 0, energyCharges: 0, exportCredits: 0 };
+      daily.set(date, day);
+    }
+
+    if (interval.gridKw > 0) {
+      const kwh = interval.gridKw * hours;
+      blockConsumption.set(blockKey, consumed + kwh);
+      addToBucket(energyBuckets, rate, rate.importRate, kwh);
+      day.importKwh += kwh;
+      day.energyCharges += kwh * rate.importRate;
+
+      peakDemandKw = Math.max(peakDemandKw, interval.gridKw);
+      for (const charge of getDemandChargesForRate(definition, rate)) {
+        demandPeaks.set(charge.name, Math.max(demandPeaks.get(charge.name) ?? 0, interval.gridKw));
+      }
+    } else if (interval.gridKw < 0) {
+      const kwh = -interval.gridKw * hours;
+      addToBucket(exportBuckets, rate, rate.exportRate, kwh);
+      day.exportKwh += kwh;
+      day.exportCredits += kwh * rate.exportRate;
+    }
+  }
+
+  const lineItems: BillLineItem[] = [];
+
+  for (const bucket of Array.from(energyBuckets.values())) {
+    lineItems.push({
+      category: 'energy',
+      description: bucket.description,
+      quantity: round(bucket.kwh, 3),
+      unit: 'kWh',
+      rate: bucket.rate,
+      amount: round(bucket.kwh * bucket.rate),
+    });
+  }
+
+  for (const charge of definition.demandCharges) {
+    const peakKw = demandPeaks.get(charge.name) ?? 0;
+    lineItems.push({
+      category: 'demand',
+      description: charge.name,
+      quantity: round(peakKw, 3),
+      unit: 'kW',
+      rate: charge.ratePerKw,
+      amount: round(peakKw * charge.ratePerKw),
+    });
+  }
+
+  const days = countLocalDays(context, periodStart, periodEnd);
+  if (definition.fixedDailyCharge > 0) {
+    lineItems.push({
+      category: 'fixed',
+      description: 'Fixed daily charge',
+      quantity: days,
+      unit: 'day',
+      rate: definition.fixedDailyCharge,
+      amount: round(days * definition.fixedDailyCharge),
+    });
+  }
+
+  for (const bucket of Array.from(exportBuckets.values())) {
+    if (bucket.rate === 0) continue;
+    lineItems.push({
+      category: 'export_credit',
+      description: `Export credit - ${bucket.description}`,
+      quantity: round(bucket.kwh, 3),
+      unit: 'kWh',
+      rate: bucket.rate,
+      amount: -round(bucket.kwh * bucket.rate),
+    });
+  }
+
+  const totalOf = (category: BillLineCategory) =>
+    round(sum(lineItems.filter((item) => item.category === category).map((item) => item.amount)));
+
+  const energyCharges = totalOf('energy');
+  const demandCharges = totalOf('demand');
+  const fixedCharges = totalOf('fixed');
+  const exportCredits = -totalOf('export_credit');
+  const subtotal = round(energyCharges + demandCharges + fixedCharges - exportCredits);
+
+  // VAT is charged on the net amount owed; a net credit is not taxed
+  const vat = round(Math.max(subtotal, 0) * definition.vatRate);
+  if (definition.vatRate > 0) {
+    lineItems.push({
+      category: 'vat',
+      description: `VAT ${round(definition.vatRate * 100, 1)}%`,
+      quantity: Math.max(subtotal, 0),
+      unit: currency,
+      rate: definition.vatRate,
+      amount: vat,
+    });
+  }
+
+  const periodHours = (periodEnd.getTime() - periodStart.getTime()) / (60 * 60 * 1000);
+
+  return {
+    scenario,
+    tariffId: tariff.id,
+    tariffName: tariff.name,
+    currency,
+    timezone,
+    periodStart: periodStart.toISOString(),
+    periodEnd: periodEnd.toISOString(),
+    coverage: periodHours > 0 ? round(Math.min(coveredHours / periodHours, 1), 4) : 0,
+    importKwh: round(sum(Array.from(daily.values()).map((day) => day.importKwh)), 3),
+    exportKwh: round(sum(Array.from(daily.values()).map((day) => day.exportKwh)), 3),
+    peakDemandKw: round(peakDemandKw, 3),
+    energyCharges,
+    demandCharges,
+    fixedCharges,
+    exportCredits,
+    subtotal,
+    vat,
+    total: round(subtotal + vat),
+    lineItems,
+    daily: Array.from(daily.values()).map((day) => ({
+      date: day.date,
+      importKwh: round(day.importKwh, 3),
+      exportKwh: round(day.exportKwh, 3),
+      energyCharges: round(day.energyCharges),
+      exportCredits: round(day.exportCredits),
+    })),
+  };
+}
+
+/**
+ * Convert readings into meter intervals, each lasting until the next reading
+ * but no longer than the typical reading interval
+ */
+export function buildMeterIntervals(readings: EnergyReading[]): SiteMeterInterval[] {
+  const sorted = readings
+    .filter((reading) => reading.timestamp)
+    .sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
+
+  const gaps = sorted
+    .slice(1)
+    .map((reading, i) => (reading.timestamp!.getTime() - sorted[i].timestamp!.getTime()) / (60 * 60 * 1000))
+    .filter((hours) => hours > 0)
+    .sort((a, b) => a - b);
+  const typicalHours = gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : DEFAULT_INTERVAL_HOURS;
+
+  return sorted.map((reading, i) => {
+    const next = sorted[i + 1];
+    const untilNext = next ? (next.timestamp!.getTime() - reading.timestamp!.getTime()) / (60 * 60 * 1000) : typicalHours;
+    return {
+      start: reading.timestamp!,
+      hours: Math.min(untilNext, typicalHours),
+      gridKw: Number(reading.gridPower || 0),
+      solarKw: Math.max(Number(reading.solarPower || 0), 0),
+      batteryKw: Number(reading.batteryPower || 0),
+    };
+  });
+}
+
+/**
+ * Grid flow the site would have had in a counterfactual scenario. Without
+ * the battery its discharge is imported and its charging never happens;
+ * without solar as well, the whole site load is imported.
+ */
+function toScenario(interval: SiteMeterInterval, scenario: BillScenario): MeterInterval {
+  switch (scenario) {
+    case 'without_battery':
+      return { start: interval.start, hours: interval.hours, gridKw: interval.gridKw + interval.batteryKw };
+    case 'without_battery_and_solar':
+      return {
+        start: interval.start,
+        hours: interval.hours,
+        gridKw: Math.max(interval.gridKw + interval.batteryKw + interval.solarKw, 0),
+      };
+    default:
+      return interval;
+  }
+}
+
+async function getSiteBillingInputs(siteId: number, periodStart: Date, periodEnd: Date) {
+  const context = await getSiteTariffContext(siteId);
+  if (!context) return null;
+
+  const readings = await storage.getEnergyReadingsByTimeRange(siteId, periodStart, periodEnd);
+  return { context, intervals: buildMeterIntervals(readings) };
+}
+
+/**
+ * Itemized bill for a site from its meter readings, or null if the site has
+ * no tariff
+ */
+export async function calculateSiteBill(siteId: number, periodStart: Date, periodEnd: Date): Promise<Bill | null> {
+  const inputs = await getSiteBillingInputs(siteId, periodStart, periodEnd);
+  if (!inputs) return null;
+
+  return calculateBill(inputs.context, inputs.intervals, periodStart, periodEnd);
+}
+
+/**
+ * Actual bill alongside the bills the site would have paid without its
+ * battery and without its battery and solar, or null if the site has no
+ * tariff
+ */
+export async function calculateShadowBill(siteId: number, periodStart: Date, periodEnd: Date): Promise<ShadowBill | null> {
+  const inputs = await getSiteBillingInputs(siteId, periodStart, periodEnd);
+  if (!inputs) return null;
+
+  const { context, intervals } = inputs;
+  const billFor = (scenario: BillScenario) =>
+    calculateBill(context, intervals.map((interval) => toScenario(interval, scenario)), periodStart, periodEnd, scenario);
+
+  const actual = billFor('actual');
+  const withoutBattery = billFor('without_battery');
+  const withoutBatteryAndSolar = billFor('without_battery_and_solar');
+
+  // Energy cost net of export credits, before VAT
+  const netEnergy = (bill: Bill) => bill.energyCharges - bill.exportCredits;
+  const netEnergyOf = (day?: BillDay) => (day ? day.energyCharges - day.exportCredits : 0);
+
+  const productionByDate = new Map<string, number>();
+  for (const interval of intervals) {
+    if (interval.start < periodStart || interval.start >= periodEnd) continue;
+    const date = getLocalDate(context, interval.start);
+    productionByDate.set(date, (productionByDate.get(date) ?? 0) + interval.solarKw * interval.hours);
+  }
+
+  const actualDays = new Map(actual.daily.map((day) => [day.date, day]));
+  const withoutBatteryDays = new Map(withoutBattery.daily.map((day) => [day.date, day]));
+
+  const daily = withoutBatteryAndSolar.daily.map((counterfactual) => {
+    const day = actualDays.get(counterfactual.date);
+    return {
+      date: counterfactual.date,
+      consumptionKwh: counterfactual.importKwh,
+      productionKwh: round(productionByDate.get(counterfactual.date) ?? 0, 3),
+      batterySavings: round(netEnergyOf(withoutBatteryDays.get(counterfactual.date)) - netEnergyOf(day)),
+      totalSavings: round(netEnergyOf(counterfactual) - netEnergyOf(day)),
+    };
+  });
+
+  const consumptionKwh = withoutBatteryAndSolar.importKwh;
+  const productionKwh = round(sum(Array.from(productionByDate.values())), 3);
+
+  return {
+    actual,
+    withoutBattery,
+    withoutBatteryAndSolar,
+    consumptionKwh,
+    productionKwh,
+    selfConsumedKwh: round(Math.max(productionKwh - actual.exportKwh, 0), 3),
+    savings: {
+      total: round(withoutBatteryAndSolar.total - actual.total),
+      battery: round(netEnergy(withoutBattery) - netEnergy(actual) + withoutBattery.demandCharges - actual.demandCharges),
+      solar: round(
+        netEnergy(withoutBatteryAndSolar) - netEnergy(withoutBattery) +
+        withoutBatteryAndSolar.demandCharges - withoutBattery.demandCharges
+      ),
+      demand: round(withoutBatteryAndSolar.demandCharges - actual.demandCharges),
+    },
+    daily,
+  };
+}
@@ -0,0 +1,680 @@
+/**
+ * Command Gateway Service
+ *
+ * Central entry point for device control. Every command is checked against the
+ * per-device rules in `command_authorizations` (required role, MFA, cooldown and
+ * approval) and every request, approval and result is recorded in
+ * `command_executions` and the security audit log. Commands that require approval are held until a second
+ * user with an approval role signs off, and are then executed by the handler
+ * registered for their command type. Commands without a handler go through the
+ * device command queue; their executions stay `queued` until the queue reports
+ * the device's result.
+ */
+
+import { db } from '../db';
+import {
+  commandAuthorizations,
+  commandExecutions,
+  devices,
+  sites,
+  type CommandAuthorization,
+  type CommandExecution,
+  type InsertCommandAuthorization
+} from '@shared/schema';
+import { and, or, eq, desc, gt, lt, inArray } from 'drizzle-orm';
+import { ocppManager } from '../adapters/ocppAdapter';
+import {
+  isChargePointConnected,
+  remoteStartTransaction,
+  remoteStopTransaction,
+  resetChargePoint,
+  setChargingProfile,
+} from './ocppCsmsService';
+import { getEEBusManager, EEBusOperationMode } from '../adapters/eebusAdapter';
+import { edgeNodeService } from './edgeNodeService';
+import { enqueueCommand } from './commandQueueService';
+import { recordSecurityEvent } from './securityAuditService';
+import { checkDeviceAccess } from '../middleware/roleAuth';
+import { storage } from '../storage';
+
+export type CommandAuthenticationType = 'session' | 'api_key' | 'system';
+
+export interface CommandActor {
+  userId: number | null;
+  role: string;
+  partnerId?: number | null; // Restricts the actor to their partner's devices unless they are an admin
+  authenticationType: CommandAuthenticationType;
+  usedMfa: boolean;
+  sessionId?: string;
+  sourceIp?: string;
+}
+
+export type CommandDenialCode =
+  | 'INSUFFICIENT_ROLE'
+  | 'MFA_REQUIRED'
+  | 'COOLDOWN_ACTIVE'
+  | 'REJECTED';
+
+export type CommandOutcome =
+  | { status: 'executed'; execution: CommandExecution; result: unknown }
+  | { status: 'queued'; execution: CommandExecution; result: unknown }
+  | { status: 'pending_approval'; execution: CommandExecution }
+  | { status: 'denied'; execution: CommandExecution; code: CommandDenialCode; reason: string }
+  | { status: 'failed'; execution: CommandExecution; reason: string };
+
+export type ApprovalOutcome =
+  | CommandOutcome
+  | { status: 'not_found' }
+  | { status: 'conflict'; reason: string }
+  | { status: 'forbidden'; reason: string };
+
+// Delivery options for commands that go through the device command queue
+export interface CommandDeliveryOptions {
+  priority?: number;
+  expiresInSeconds?: number;
+}
+
+export interface CommandContext {
+  execution: CommandExecution;
+  delivery: CommandDeliveryOptions;
+}
+
+export type CommandHandler = (
+  deviceId: number,
+  parameters: Record<string, any>,
+  context: CommandContext
+) => Promise<unknown>;
+
+// Actor used for commands issued by automation (optimizers, schedulers)
+export const SYSTEM_ACTOR: CommandActor = {
+  userId: null,
+  role: 'admin',
+  authenticationType: 'system',
+  usedMfa: false,
+};
+
+// Role precedence used for required-role and approval checks
+const ROLE_RANK: Record<string, number> = {
+  viewer: 0,
+  manager: 1,
+  partner_admin: 2,
+  admin: 3,
+};
+
+// Rule applied when a device has no rule for a command
+const DEFAULT_RULE = {
+  requiresMfa: false,
+  requiredRole: 'manager',
+  approvalRequired: false,
+  approvalRoles: null as string | null,
+  cooldownSeconds: 0,
+  riskLevel: 'medium',
+};
+
+const WILDCARD_COMMAND = '*';
+const APPROVAL_TIMEOUT = 60 * 60 * 1000; // Pending approvals expire after 1 hour
+
+const handlers = new Map<string, CommandHandler>();
+
+/**
+ * Register the handler that executes a command type once it is authorized
+ */
+export function registerCommandHandler(commandType: string, handler: CommandHandler): void {
+  handlers.set(commandType, handler);
+}
+
+/**
+ * Authorize and execute a device command
+ */
+export async function executeCommand(
+  actor: CommandActor,
+  deviceId: number,
+  commandType: string,
+  parameters: Record<string, any> = {},
+  delivery: CommandDeliveryOptions = {}
+): Promise<CommandOutcome> {
+  const outcome = await authorizeAndExecute(actor, deviceId, commandType, parameters, delivery);
+  await auditCommand(actor, 'command_execute', deviceId, commandType, outcome);
+  return outcome;
+}
+
+/**
+ * Approve a pending command and execute it. The approver must hold an approval
+ * role for the rule and cannot be the user who requested the command.
+ * Approved commands are queued with the default delivery options.
+ */
+export async function approveCommand(executionId: number, approver: CommandActor): Promise<ApprovalOutcome> {
+  const outcome = await approvePending(executionId, approver);
+  await auditCommand(approver, 'command_approve', null, null, outcome, executionId);
+  return outcome;
+}
+
+/**
+ * Reject a pending command
+ */
+export async function rejectCommand(
+  executionId: number,
+  approver: CommandActor,
+  reason?: string
+): Promise<ApprovalOutcome> {
+  const outcome = await rejectPending(executionId, approver, reason);
+  await auditCommand(approver, 'command_reject', null, null, outcome, executionId);
+  return outcome;
+}
+
+/**
+ * Get commands awaiting approval on the actor's partner's devices, expiring
+ * any that have waited too long
+ */
+export async function getPendingApprovals(actor: CommandActor) {
+  await db
+    .update(commandExecutions)
+    .set({ status: 'expired', completedAt: new Date(), failureReason: 'Approval timed out' })
+    .where(and(
+      eq(commandExecutions.status, 'pending_approval'),
+      lt(commandExecutions.timestamp, new Date(Date.now() - APPROVAL_TIMEOUT))
+    ));
+
+  return db
+    .select({
+      execution: commandExecutions,
+      deviceName: devices.name,
+      siteId: devices.siteId,
+    })
+    .from(commandExecutions)
+    .innerJoin(devices, eq(commandExecutions.deviceId, devices.id))
+    .innerJoin(sites, eq(devices.siteId, sites.id))
+    .where(and(
+      eq(commandExecutions.status, 'pending_approval'),
+      actor.role === 'admin' ? undefined : eq(sites.partnerId, actor.partnerId ?? -1)
+    ))
+    .orderBy(desc(commandExecutions.timestamp));
+}
+
+/**
+ * Get command execution history for a device
+ */
+export async function getCommandExecutions(
+  deviceId: number,
+  options: { status?: string[]; limit?: number } = {}
+): Promise<CommandExecution[]> {
+  const conditions = [eq(commandExecutions.deviceId, deviceId)];
+  if (options.status && options.status.length > 0) {
+    conditions.push(inArray(commandExecutions.status, options.status));
+  }
+
+  return db
+    .select()
+    .from(commandExecutions)
+    .where(and(...conditions))
+    .orderBy(desc(commandExecutions.timestamp))
+    .limit(options.limit ?? 100);
+}
+
+/**
+ * Get the authorization rules configured for a device
+ */
+export async function getCommandAuthorizations(deviceId: number): Promise<CommandAuthorization[]> {
+  return db
+    .select()
+    .from(commandAuthorizations)
+    .where(eq(commandAuthorizations.deviceId, deviceId))
+    .orderBy(commandAuthorizations.commandType);
+}
+
+/**
+ * Create or update the rule for a device and command type
+ */
+export async function upsertCommandAuthorization(rule: InsertCommandAuthorization): Promise<CommandAuthorization> {
+  const [existing] = await db
+    .select()
+    .from(commandAuthorizations)
+    .where(and(
+      eq(commandAuthorizations.deviceId, rule.deviceId),
+      eq(commandAuthorizations.commandType, rule.commandType)
+    ));
+
+  if (existing) {
+    const [updated] = await db
+      .update(commandAuthorizations)
+      .set({ ...rule, updatedAt: new Date() })
+      .where(eq(commandAuthorizations.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  const [created] = await db.insert(commandAuthorizations).values(rule).returning();
+  return created;
+}
+
+/**
+ * Delete a command authorization rule
+ */
+export async function deleteCommandAuthorization(id: number): Promise<boolean> {
+  const deleted = await db
+    .delete(commandAuthorizations)
+    .where(eq(commandAuthorizations.id, id))
+    .returning({ id: commandAuthorizations.id });
+  return deleted.length > 0;
+}
+
+async function authorizeAndExecute(
+  actor: CommandActor,
+  deviceId: number,
+  commandType: string,
+  parameters: Record<string, any>,
+  delivery: CommandDeliveryOptions
+): Promise<CommandOutcome> {
+  const rule = await getEffectiveRule(deviceId, commandType);
+
+  const [execution] = await db
+    .insert(commandExecutions)
+    .values({
+      deviceId,
+      userId: actor.userId,
+      commandType,
+      parameters,
+      status: 'requested',
+      authenticationType: actor.authenticationType,
+      usedMfa: actor.usedMfa,
+      sessionId: actor.sessionId,
+      sourceIp: actor.sourceIp,
+    })
+    .returning();
+
+  // Automation is trusted for role, MFA and approval but still respects cooldowns
+  if (actor.authenticationType !== 'system') {
+    if (!hasRoleAtLeast(actor.role, rule.requiredRole || DEFAULT_RULE.requiredRole)) {
+      return denyCommand(execution, 'INSUFFICIENT_ROLE', `Command ${commandType} requires the ${rule.requiredRole} role`);
+    }
+
+    if (rule.requiresMfa && !actor.usedMfa) {
+      return denyCommand(execution, 'MFA_REQUIRED', `Command ${commandType} requires multi-factor authentication`);
+    }
+  }
+
+  if (rule.cooldownSeconds && rule.cooldownSeconds > 0) {
+    const since = new Date(Date.now() - rule.cooldownSeconds * 1000);
+    const [recent] = await db
+      .select({ id: commandExecutions.id })
+      .from(commandExecutions)
+      .where(and(
+        eq(commandExecutions.deviceId, deviceId),
+        eq(commandExecutions.commandType, commandType),
+        or(
+          and(eq(commandExecutions.status, 'executed'), gt(commandExecutions.completedAt, since)),
+          and(eq(commandExecutions.status, 'queued'), gt(commandExecutions.timestamp, since))
+        )
+      ))
+      .limit(1);
+
+    if (recent) {
+      return denyCommand(
+        execution,
+        'COOLDOWN_ACTIVE',
+        `Command ${commandType} can only be executed once every ${rule.cooldownSeconds} seconds`
+      );
+    }
+  }
+
+  if (actor.authenticationType !== 'system' && requiresApproval(rule)) {
+    const [pending] = await db
+      .update(commandExecutions)
+      .set({ status: 'pending_approval' })
+      .where(eq(commandExecutions.id, execution.id))
+      .returning();
+
+    return { status: 'pending_approval', execution: pending };
+  }
+
+  return runCommand(execution, delivery);
+}
+
+async function approvePending(executionId: number, approver: CommandActor): Promise<ApprovalOutcome> {
+  const [execution] = await db.select().from(commandExecutions).where(eq(commandExecutions.id, executionId));
+  if (!execution) {
+    return { status: 'not_found' };
+  }
+
+  const accessCheck = await checkActorDeviceAccess(approver, execution);
+  if (accessCheck) {
+    return accessCheck;
+  }
+
+  const pendingCheck = await checkPendingApproval(execution);
+  if (pendingCheck) {
+    return pendingCheck;
+  }
+
+  if (execution.userId !== null && execution.userId === approver.userId) {
+    return { status: 'forbidden', reason: 'Commands must be approved by a different user' };
+  }
+
+  const rule = await getEffectiveRule(execution.deviceId, execution.commandType);
+  if (!canApprove(approver.role, rule)) {
+    return { status: 'forbidden', reason: 'You are not allowed to approve this command' };
+  }
+
+  if (rule.requiresMfa && !approver.usedMfa) {
+    return { status: 'forbidden', reason: 'Approving this command requires multi-factor authentication' };
+  }
+
+  // Claim the execution so concurrent approvals cannot run it twice
+  const [approved] = await db
+    .update(commandExecutions)
+    .set({ status: 'approved', approvedBy: approver.userId, approvedAt: new Date() })
+    .where(and(eq(commandExecutions.id, executionId), eq(commandExecutions.status, 'pending_approval')))
+    .returning();
+
+  if (!approved) {
+    return { status: 'conflict', reason: 'Command is no longer awaiting approval' };
+  }
+
+  return runCommand(approved);
+}
+
+async function rejectPending(
+  executionId: number,
+  approver: CommandActor,
+  reason?: string
+): Promise<ApprovalOutcome> {
+  const [execution] = await db.select().from(commandExecutions).where(eq(commandExecutions.id, executionId));
+  if (!execution) {
+    return { status: 'not_found' };
+  }
+
+  const accessCheck = await checkActorDeviceAccess(approver, execution);
+  if (accessCheck) {
+    return accessCheck;
+  }
+
+  const pendingCheck = await checkPendingApproval(execution);
+  if (pendingCheck) {
+    return pendingCheck;
+  }
+
+  // Requesters may withdraw their own commands; anyone else needs an approval role
+  const rule = await getEffectiveRule(execution.deviceId, execution.commandType);
+  if (execution.userId !== approver.userId && !canApprove(approver.role, rule)) {
+    return { status: 'forbidden', reason: 'You are not allowed to reject this command' };
+  }
+
+  const [rejected] = await db
+    .update(commandExecutions)
+    .set({
+      status: 'rejected',
+      approvedBy: approver.userId,
+      approvedAt: new Date(),
+      completedAt: new Date(),
+      failureReason: reason || 'Rejected',
+    })
+    .where(and(eq(commandExecutions.id, executionId), eq(commandExecutions.status, 'pending_approval')))
+    .returning();
+
+  if (!rejected) {
+    return { status: 'conflict', reason: 'Command is no longer awaiting approval' };
+  }
+
+  return { status: 'denied', execution: rejected, code: 'REJECTED', reason: rejected.failureReason || 'Rejected' };
+}
+
+/**
+ * Rule for a device command: an exact command type rule wins over the device's
+ * wildcard rule, which wins over the default
+ */
+async function getEffectiveRule(deviceId: number, commandType: string) {
+  const rules = await db
+    .select()
+    .from(commandAuthorizations)
+    .where(and(
+      eq(commandAuthorizations.deviceId, deviceId),
+      inArray(commandAuthorizations.commandType, [commandType, WILDCARD_COMMAND])
+    ));
+
+  return rules.find(rule => rule.commandType === commandType)
+    || rules.find(rule => rule.commandType === WILDCARD_COMMAND)
+    || DEFAULT_RULE;
+}
+
+function requiresApproval(rule: typeof DEFAULT_RULE | CommandAuthorization): boolean {
+  return !!rule.approvalRequired || rule.riskLevel === 'critical';
+}
+
+function hasRoleAtLeast(role: string, requiredRole: string): boolean {
+  return (ROLE_RANK[role] ?? -1) >= (ROLE_RANK[requiredRole] ?? ROLE_RANK.admin);
+}
+
+function canApprove(role: string, rule: typeof DEFAULT_RULE | CommandAuthorization): boolean {
+  if (role === 'admin') {
+    return true;
+  }
+
+  if (rule.approvalRoles) {
+    return rule.approvalRoles.split(',').map(r => r.trim()).includes(role);
+  }
+
+  return hasRoleAtLeast(role, rule.requiredRole || DEFAULT_RULE.requiredRole);
+}
+
+// Approvers may only act on commands for their own partner's devices
+async function checkActorDeviceAccess(actor: CommandActor, execution: CommandExecution): Promise<ApprovalOutcome | null> {
+  const decision = await checkDeviceAccess({ role: actor.role, partnerId: actor.partnerId ?? null }, execution.deviceId, storage);
+  if (decision.allowed) {
+    return null;
+  }
+  return decision.status === 404 ? { status: 'not_found' } : { status: 'forbidden', reason: decision.message };
+}
+
+async function checkPendingApproval(execution: CommandExecution): Promise<ApprovalOutcome | null> {
+  if (execution.status !== 'pending_approval') {
+    return { status: 'conflict', reason: `Command is ${execution.status}` };
+  }
+
+  if (execution.timestamp && Date.now() - execution.timestamp.getTime() > APPROVAL_TIMEOUT) {
+    await db
+      .update(commandExecutions)
+      .set({ status: 'expired', completedAt: new Date(), failureReason: 'Approval timed out' })
+      .where(eq(commandExecutions.id, execution.id));
+    return { status: 'conflict', reason: 'Approval window has expired' };
+  }
+
+  return null;
+}
+
+async function auditCommand(
+  actor: CommandActor,
+  action: string,
+  deviceId: number | null,
+  commandType: string | null,
+  outcome: ApprovalOutcome,
+  executionId?: number
+): Promise<void> {
+  const execution = 'execution' in outcome ? outcome.execution : undefined;
+  const succeeded = outcome.status === 'executed' || outcome.status === 'queued' || outcome.status === 'pending_approval';
+
+  await recordSecurityEvent({
+    userId: actor.userId,
+    role: actor.role,
+    ipAddress: actor.sourceIp,
+    sessionId: actor.sessionId,
+    authenticationType: actor.authenticationType,
+    action,
+    resourceType: 'device',
+    resourceId: execution?.deviceId ?? deviceId,
+    status: succeeded ? 'success' : outcome.status === 'failed' ? 'failure' : 'denied',
+    failureReason: 'reason' in outcome ? outcome.reason : undefined,
+    details: {
+      executionId: execution?.id ?? executionId,
+      commandType: execution?.commandType ?? commandType,
+      outcome: outcome.status,
+    },
+  });
+}
+
+async function denyCommand(
+  execution: CommandExecution,
+  code: CommandDenialCode,
+  reason: string
+): Promise<CommandOutcome> {
+  const [denied] = await db
+    .update(commandExecutions)
+    .set({ status: 'denied', completedAt: new Date(), failureReason: reason })
+    .where(eq(commandExecutions.id, execution.id))
+    .returning();
+
+  return { status: 'denied', execution: denied, code, reason };
+}
+
+async function runCommand(
+  execution: CommandExecution,
+  delivery: CommandDeliveryOptions = {}
+): Promise<CommandOutcome> {
+  const handler = handlers.get(execution.commandType) || queueDeviceCommand;
+  const parameters = (execution.parameters || {}) as Record<string, any>;
+
+  try {
+    const result = await handler(execution.deviceId, parameters, { execution, delivery });
+
+    // Queued commands are finalized by the command queue once the device responds
+    if (handler === queueDeviceCommand) {
+      const [queued] = await db
+        .update(commandExecutions)
+        .set({ status: 'queued', result: result ?? null })
+        .where(and(eq(commandExecutions.id, execution.id), inArray(commandExecutions.status, ['requested', 'approved'])))
+        .returning();
+
+      if (queued) {
+        return { status: 'queued', execution: queued, result };
+      }
+
+      // The device already responded while the command was being queued
+      const [current] = await db.select().from(commandExecutions).where(eq(commandExecutions.id, execution.id));
+      return current.status === 'executed'
+        ? { status: 'executed', execution: current, result: current.result }
+        : { status: 'failed', execution: current, reason: current.failureReason || `Command ${current.status}` };
+    }
+
+    const [executed] = await db
+      .update(commandExecutions)
+      .set({ status: 'executed', completedAt: new Date(), result: result ?? null })
+      .where(eq(commandExecutions.id, execution.id))
+      .returning();
+
+    return { status: 'executed', execution: executed, result };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`Command ${execution.commandType} failed for device ${execution.deviceId}:`, error);
+
+    const [failed] = await db
+      .update(commandExecutions)
+      .set({ status: 'failed', completedAt: new Date(), failureReason: reason })
+      .where(eq(commandExecutions.id, execution.id))
+      .returning();
+
+    return { status: 'failed', execution: failed, reason };
+  }
+}
+
+// Default handler: generic device commands are delivered through the persistent command queue
+async function queueDeviceCommand(
+  deviceId: number,
+  parameters: Record<string, any>,
+  { execution, delivery }: CommandContext
+): Promise<unknown> {
+  const [device] = await db.select().from(devices).where(eq(devices.id, deviceId));
+  if (!device) {
+    throw new Error(`Device ${deviceId} not found`);
+  }
+
+  const queued = await enqueueCommand({
+    deviceId,
+    command: execution.commandType,
+    parameters,
+    userId: execution.userId,
+    executionId: execution.id,
+    priority: delivery.priority,
+    expiresInSeconds: delivery.expiresInSeconds,
+  });
+
+  return { remoteCommandId: queued.id, queueStatus: queued.status };
+}
+
+// Built-in protocol handlers. OCPP commands go over the charger's live CSMS
+// connection when it has one, else through the outbound adapter.
+registerCommandHandler('ocpp.start_transaction', async (deviceId, { connectorId, tagId, chargingProfile }) => {
+  if (isChargePointConnected(deviceId)) {
+    return remoteStartTransaction(deviceId, Number(connectorId), tagId, chargingProfile);
+  }
+
+  const adapter = ocppManager.getChargePoint(String(deviceId));
+  if (!adapter) throw new Error('OCPP device not found');
+
+  const result = await adapter.startTransaction(connectorId, tagId);
+  if (!result) throw new Error('Failed to start transaction');
+  return result;
+});
+
+registerCommandHandler('ocpp.stop_transaction', async (deviceId, { connectorId }) => {
+  if (isChargePointConnected(deviceId)) {
+    return remoteStopTransaction(deviceId, Number(connectorId));
+  }
+
+  const adapter = ocppManager.getChargePoint(String(deviceId));
+  if (!adapter) throw new Error('OCPP device not found');
+
+  const result = await adapter.stopTransaction(connectorId);
+  if (!result) throw new Error('Failed to stop transaction');
+  return result;
+});
+
+registerCommandHandler('ocpp.set_charging_profile', async (deviceId, { connectorId, chargingProfile }) => {
+  if (isChargePointConnected(deviceId)) {
+    return setChargingProfile(deviceId, Number(connectorId), chargingProfile);
+  }
+
+  const adapter = ocppManager.getChargePoint(String(deviceId));
+  if (!adapter) throw new Error('OCPP device not found');
+
+  const result = await adapter.setChargingProfile(connectorId, chargingProfile);
+  if (!result) throw new Error('Failed to set charging profile');
+  return result;
+});
+
+registerCommandHandler('ocpp.reset', async (deviceId, { type }) => {
+  if (isChargePointConnected(deviceId)) {
+    return resetChargePoint(deviceId, type);
+  }
+
+  const adapter = ocppManager.getChargePoint(String(deviceId));
+  if (!adapter) throw new Error('OCPP device not found');
+
+  const result = await adapter.reset(type);
+  if (!result) throw new Error('Failed to reset charge point');
+  return result;
+});
+
+registerCommandHandler('eebus.set_mode', async (deviceId, { mode }) => {
+  const adapter = getEEBusManager().getAdapter(deviceId);
+  if (!adapter) throw new Error('EEBus device not found');
+
+  if (!(await adapter.setOperationMode(mode as EEBusOperationMode))) {
+    throw new Error('Failed to set operation mode');
+  }
+  return { success: true, mode };
+});
+
+registerCommandHandler('eebus.set_temperature', async (deviceId, { temperature }) => {
+  const adapter = getEEBusManager().getAdapter(deviceId);
+  if (!adapter) throw new Error('EEBus device not found');
+
+  if (!(await adapter.setTargetTemperature(temperature))) {
+    throw new Error('Failed to set target temperature');
+  }
+  return { success: true, temperature };
+});
+
+registerCommandHandler('edge.control', async (deviceId, { nodeId, command }) => {
+  const result = await edgeNodeService.sendControlCommand(nodeId, deviceId, command);
+  if (!result.success) throw new Error(result.message);
+  return result;
+});
@@ -0,0 +1,431 @@
+/**
+ * Command Queue Service
+ *
+ * Persistent delivery queue for device commands backed by `remote_commands`.
+ * Commands are held while a device is offline and sent over MQTT in priority
+ * order once it is online. Acknowledgements and responses published on
+ * `devices/{id}/commands/response` advance each command through
+ * pending → sent → delivered → executed/failed, and commands that outlive
+ * their expiry are marked expired. Commands queued by the command gateway
+ * report their final state back to the linked `command_executions` row.
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+import { remoteCommands, commandExecutions, devices, type RemoteCommand } from '@shared/schema';
+import { TOPIC_PATTERNS, MessageType, createCommandMessage } from '@shared/messageSchema';
+import { and, eq, lt, asc, desc, inArray, sql } from 'drizzle-orm';
+import { getMqttService, formatDeviceTopic } from './mqttService';
+import { broadcastCommandQueueUpdate } from './websocketService';
+
+export type RemoteCommandStatus = 'pending' | 'sent' | 'delivered' | 'executed' | 'failed' | 'expired';
+
+export interface EnqueueCommandInput {
+  deviceId: number;
+  command: string;
+  parameters?: Record<string, any>;
+  userId?: number | null;
+  executionId?: number | null;
+  priority?: number; // 1 (first) to 10 (last)
+  expiresInSeconds?: number;
+}
+
+export interface CommandQueueSummary {
+  deviceId: number;
+  counts: Record<RemoteCommandStatus, number>;
+  nextCommand: RemoteCommand | null;
+}
+
+const DEFAULT_PRIORITY = 5;
+const DEFAULT_EXPIRY_SECONDS = 60 * 60; // 1 hour
+const MAX_EXPIRY_SECONDS = 7 * 24 * 60 * 60; // 7 days
+const ACK_TIMEOUT = 2 * 60 * 1000; // Resend commands not acknowledged within 2 minutes
+const EXECUTION_TIMEOUT = 10 * 60 * 1000; // Fail delivered commands with no result within 10 minutes
+const MAX_ATTEMPTS = 3;
+const SWEEP_INTERVAL = 30000; // 30 seconds
+const MESSAGE_ID_PREFIX = 'rc_';
+
+const OPEN_STATUSES: RemoteCommandStatus[] = ['pending', 'sent', 'delivered'];
+
+let sweepTimer: NodeJS.Timeout | null = null;
+const dispatching = new Set<number>();
+
+/**
+ * Add a command to a device's queue and send it immediately if the device is online
+ */
+export async function enqueueCommand(input: EnqueueCommandInput): Promise<RemoteCommand> {
+  const priority = Math.min(Math.max(input.priority ?? DEFAULT_PRIORITY, 1), 10);
+  const expirySeconds = Math.min(input.expiresInSeconds ?? DEFAULT_EXPIRY_SECONDS, MAX_EXPIRY_SECONDS);
+
+  const [command] = await db
+    .insert(remoteCommands)
+    .values({
+      deviceId: input.deviceId,
+      userId: input.userId ?? null,
+      executionId: input.executionId ?? null,
+      command: input.command,
+      parameters: input.parameters ?? {},
+      status: 'pending',
+      priority,
+      expiresAt: new Date(Date.now() + expirySeconds * 1000),
+    })
+    .returning();
+
+  await notify(command, 'queued');
+  await dispatchQueuedCommands(input.deviceId);
+
+  return (await getRemoteCommand(command.id)) || command;
+}
+
+/**
+ * Get a queued command by ID
+ */
+export async function getRemoteCommand(id: number): Promise<RemoteCommand | undefined> {
+  const [command] = await db.select().from(remoteCommands).where(eq(remoteCommands.id, id));
+  return command;
+}
+
+/**
+ * Get commands for a device, most recent first
+ */
+export async function getDeviceCommandQueue(
+  deviceId: number,
+  options: { status?: RemoteCommandStatus[]; limit?: number } = {}
+): Promise<RemoteCommand[]> {
+  const conditions = [eq(remoteCommands.deviceId, deviceId)];
+  if (options.status && options.status.length > 0) {
+    conditions.push(inArray(remoteCommands.status, options.status));
+  }
+
+  return db
+    .select()
+    .from(remoteCommands)
+    .where(and(...conditions))
+    .orderBy(desc(remoteCommands.timestamp))
+    .limit(options.limit ?? 100);
+}
+
+/**
+ * Get command counts by status and the next command due for delivery
+ */
+export async function getCommandQueueSummary(deviceId: number): Promise<CommandQueueSummary> {
+  const rows = await db
+    .select({ status: remoteCommands.status, count: sql<number>`count(*)::int` })
+    .from(remoteCommands)
+    .where(eq(remoteCommands.deviceId, deviceId))
+    .groupBy(remoteCommands.status);
+
+  const counts: Record<RemoteCommandStatus, number> = {
+    pending: 0, sent: 0, delivered: 0, executed: 0, failed: 0, expired: 0
+  };
+  for (const row of rows) {
+    if (row.status) counts[row.status] = row.count;
+  }
+
+  const [nextCommand] = await getPendingCommands(deviceId, 1);
+
+  return { deviceId, counts, nextCommand: nextCommand || null };
+}
+
+/**
+ * Cancel a command that has not yet been delivered
+ */
+export async function cancelCommand(id: number, reason: string = 'Cancelled'): Promise<RemoteCommand | undefined> {
+  const [command] = await db
+    .update(remoteCommands)
+    .set({ status: 'failed', statusMessage: reason, executedAt: new Date() })
+    .where(and(eq(remoteCommands.id, id), inArray(remoteCommands.status, ['pending', 'sent'])))
+    .returning();
+
+  if (command) {
+    await finalizeExecution(command);
+    await notify(command, 'cancelled');
+  }
+
+  return command;
+}
+
+/**
+ * Send a device's pending commands in priority order. Stops at the first
+ * publish failure so the remaining commands keep their order.
+ */
+export async function dispatchQueuedCommands(deviceId: number): Promise<number> {
+  if (dispatching.has(deviceId)) {
+    return 0;
+  }
+
+  const device = await storage.getDevice(deviceId);
+  if (!device || device.status !== 'online') {
+    return 0;
+  }
+
+  dispatching.add(deviceId);
+  let sentCount = 0;
+
+  try {
+    const pending = await getPendingCommands(deviceId);
+    const topic = formatDeviceTopic(TOPIC_PATTERNS.COMMANDS, deviceId);
+
+    for (const command of pending) {
+      const message = createCommandMessage(String(deviceId), command.command, {
+        parameters: (command.parameters || {}) as Record<string, any>,
+        messageId: `${MESSAGE_ID_PREFIX}${command.id}`,
+        timeout: command.expiresAt ? Math.max(command.expiresAt.getTime() - Date.now(), 0) : undefined,
+      });
+
+      try {
+        await getMqttService().publish(topic, message, { qos: 1 });
+      } catch (error) {
+        console.error(`Error sending queued command ${command.id} to device ${deviceId}:`, error);
+        break;
+      }
+
+      const [sent] = await db
+        .update(remoteCommands)
+        .set({ status: 'sent', sentAt: new Date(), attempts: sql`${remoteCommands.attempts} + 1` })
+        .where(and(eq(remoteCommands.id, command.id), eq(remoteCommands.status, 'pending')))
+        .returning();
+
+      if (sent) {
+        sentCount++;
+        await notify(sent, 'sent');
+      }
+    }
+  } finally {
+    dispatching.delete(deviceId);
+  }
+
+  return sentCount;
+}
+
+/**
+ * Apply an acknowledgement or response published by a device
+ */
+export async function processCommandResponse(deviceId: number, message: any): Promise<RemoteCommand | undefined> {
+  const command = await findCommandForResponse(deviceId, message);
+  if (!command) {
+    return undefined;
+  }
+
+  const isAck = message.type === MessageType.ACKNOWLEDGEMENT;
+
+  if (isAck) {
+    const [delivered] = await db
+      .update(remoteCommands)
+      .set({ status: 'delivered', deliveredAt: new Date() })
+      .where(and(eq(remoteCommands.id, command.id), eq(remoteCommands.status, 'sent')))
+      .returning();
+
+    if (delivered) {
+      await notify(delivered, 'delivered');
+    }
+    return delivered;
+  }
+
+  const success = message.success !== false;
+  const now = new Date();
+
+  const [completed] = await db
+    .update(remoteCommands)
+    .set({
+      status: success ? 'executed' : 'failed',
+      deliveredAt: command.deliveredAt || now,
+      executedAt: now,
+      result: message.result ?? null,
+      statusMessage: success ? null : message.error || 'Command failed on device',
+    })
+    .where(and(eq(remoteCommands.id, command.id), inArray(remoteCommands.status, ['sent', 'delivered'])))
+    .returning();
+
+  if (!completed) {
+    return undefined;
+  }
+
+  await finalizeExecution(completed);
+  await notify(completed, success ? 'executed' : 'failed');
+  return completed;
+}
+
+/**
+ * Expire commands past their expiry, fail delivered commands the device never
+ * reported on, resend unacknowledged commands and deliver pending commands to
+ * devices that are online
+ */
+export async function sweepCommandQueue(): Promise<void> {
+  const now = new Date();
+
+  const expired = await db
+    .update(remoteCommands)
+    .set({ status: 'expired', statusMessage: 'Command expired before delivery', executedAt: now })
+    .where(and(inArray(remoteCommands.status, ['pending', 'sent']), lt(remoteCommands.expiresAt, now)))
+    .returning();
+
+  const expiredDelivered = await db
+    .update(remoteCommands)
+    .set({ status: 'expired', statusMessage: 'Command expired before the device reported a result', executedAt: now })
+    .where(and(eq(remoteCommands.status, 'delivered'), lt(remoteCommands.expiresAt, now)))
+    .returning();
+
+  for (const command of [...expired, ...expiredDelivered]) {
+    await finalizeExecution(command);
+    await notify(command, 'expired');
+  }
+
+  const timedOut = await db
+    .update(remoteCommands)
+    .set({ status: 'failed', statusMessage: 'No result from device', executedAt: now })
+    .where(and(
+      eq(remoteCommands.status, 'delivered'),
+      lt(remoteCommands.deliveredAt, new Date(now.getTime() - EXECUTION_TIMEOUT))
+    ))
+    .returning();
+
+  for (const command of timedOut) {
+    await finalizeExecution(command);
+    await notify(command, 'failed');
+  }
+
+  const unacknowledged = await db
+    .select()
+    .from(remoteCommands)
+    .where(and(
+      eq(remoteCommands.status, 'sent'),
+      lt(remoteCommands.sentAt, new Date(now.getTime() - ACK_TIMEOUT))
+    ));
+
+  for (const command of unacknowledged) {
+    const exhausted = (command.attempts ?? 0) >= MAX_ATTEMPTS;
+    const [updated] = await db
+      .update(remoteCommands)
+      .set(exhausted
+        ? { status: 'failed', statusMessage: 'No acknowledgement from device', executedAt: now }
+        : { status: 'pending' })
+      .where(and(eq(remoteCommands.id, command.id), eq(remoteCommands.status, 'sent')))
+      .returning();
+
+    if (updated && exhausted) {
+      await finalizeExecution(updated);
+      await notify(updated, 'failed');
+    }
+  }
+
+  const waitingDevices = await db
+    .selectDistinct({ deviceId: remoteCommands.deviceId })
+    .from(remoteCommands)
+    .innerJoin(devices, eq(remoteCommands.deviceId, devices.id))
+    .where(and(eq(remoteCommands.status, 'pending'), eq(devices.status, 'online')));
+
+  for (const { deviceId } of waitingDevices) {
+    await dispatchQueuedCommands(deviceId);
+  }
+}
+
+// Carry a command's final state back to the audited command execution
+async function finalizeExecution(command: RemoteCommand): Promise<void> {
+  if (!command.executionId) return;
+
+  await db
+    .update(commandExecutions)
+    .set(command.status === 'executed'
+      ? {
+          status: 'executed',
+          completedAt: command.executedAt,
+          result: { remoteCommandId: command.id, deviceResult: command.result ?? null },
+        }
+      : { status: command.status, completedAt: command.executedAt, failureReason: command.statusMessage })
+    .where(and(
+      eq(commandExecutions.id, command.executionId),
+      inArray(commandExecutions.status, ['requested', 'approved', 'queued'])
+    ));
+}
+
+/**
+ * Initialize the command queue: listen for command responses and device
+ * reconnects, and start the periodic sweep
+ */
+export function initCommandQueueService(): void {
+  const mqttService = getMqttService();
+
+  mqttService.addMessageHandler('devices/:deviceId/commands/response', (topic, message, params) => {
+    const deviceId = parseInt(params.deviceId, 10);
+    if (isNaN(deviceId) || !message) return;
+
+    processCommandResponse(deviceId, message).catch(error => {
+      console.error('Error processing command response:', error);
+    });
+  });
+
+  mqttService.addMessageHandler('devices/:deviceId/status', (topic, message, params) => {
+    const deviceId = parseInt(params.deviceId, 10);
+    if (isNaN(deviceId) || message?.status !== 'online') return;
+
+    // The status handler that marks the device online may still be running
+    setTimeout(() => {
+      dispatchQueuedCommands(deviceId).catch(error => {
+        console.error('Error delivering queued commands on reconnect:', error);
+      });
+    }, 1000);
+  });
+
+  if (!sweepTimer) {
+    sweepTimer = setInterval(() => {
+      sweepCommandQueue().catch(error => {
+        console.error('Error sweeping command queue:', error);
+      });
+    }, SWEEP_INTERVAL);
+  }
+
+  console.log('Command queue service initialized');
+}
+
+async function getPendingCommands(deviceId: number, limit?: number): Promise<RemoteCommand[]> {
+  const query = db
+    .select()
+    .from(remoteCommands)
+    .where(and(
+      eq(remoteCommands.deviceId, deviceId),
+      eq(remoteCommands.status, 'pending'),
+      sql`(${remoteCommands.expiresAt} IS NULL OR ${remoteCommands.expiresAt} > now())`
+    ))
+    .orderBy(asc(remoteCommands.priority), asc(remoteCommands.timestamp));
+
+  return limit ? query.limit(limit) : query;
+}
+
+// Match a response to its queued command by message ID, falling back to the
+// oldest outstanding command with the same name
+async function findCommandForResponse(deviceId: number, message: any): Promise<RemoteCommand | undefined> {
+  const messageId: string | undefined = message.originalMessageId || message.messageId;
+
+  if (messageId && messageId.startsWith(MESSAGE_ID_PREFIX)) {
+    const id = parseInt(messageId.slice(MESSAGE_ID_PREFIX.length), 10);
+    const command = isNaN(id) ? undefined : await getRemoteCommand(id);
+    return command && command.deviceId === deviceId ? command : undefined;
+  }
+
+  if (!message.command) {
+    return undefined;
+  }
+
+  const [command] = await db
+    .select()
+    .from(remoteCommands)
+    .where(and(
+      eq(remoteCommands.deviceId, deviceId),
+      eq(remoteCommands.command, message.command),
+      inArray(remoteCommands.status, OPEN_STATUSES.filter(status => status !== 'pending'))
+    ))
+    .orderBy(asc(remoteCommands.sentAt))
+    .limit(1);
+
+  return command;
+}
+
+async function notify(command: RemoteCommand, event: string): Promise<void> {
+  try {
+    const device = await storage.getDevice(command.deviceId);
+    broadcastCommandQueueUpdate(device?.siteId ?? null, command.deviceId, event, command);
+  } catch (error) {
+    console.error('Error broadcasting command queue update:', error);
+  }
+}
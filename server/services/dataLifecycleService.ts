@@ -0,0 +1,873 @@
+/**
+ * Data Lifecycle Service
+ *
+ * Executes the multi-tier storage policy rules in `storage_policy_rules`:
+ * downsampling old telemetry into aggregated rows, moving rows between the
+ * database tiers (hot/warm), exporting them to compressed files for the
+ * cold/archive tiers and deleting expired data. Every run is recorded in
+ * `data_transfer_jobs` and the per-tier totals in `storage_tier_metrics`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import { db } from '../db';
+import {
+  deviceReadings,
+  energyReadings,
+  devices,
+  storagePolicyRules,
+  dataTransferJobs,
+  storageTierMetrics,
+  type StoragePolicyRule,
+  type DataTransferJob,
+} from '@shared/schema';
+import { eq, and, or, lt, gte, gt, asc, desc, isNull, inArray, sql, type SQL } from 'drizzle-orm';
+
+const gzipAsync = promisify(zlib.gzip);
+const brotliAsync = promisify(zlib.brotliCompress);
+
+export type StorageTier = 'hot' | 'warm' | 'cold' | 'archive';
+export type AggregationFunction = 'avg' | 'min' | 'max' | 'sum';
+
+export interface DataLifecycleConfig {
+  archiveDirectory?: string;
+  checkIntervalMs?: number;
+  batchSize?: number;
+  seedDefaultPolicies?: boolean;
+}
+
+interface ReadingTableConfig {
+  table: any;
+  entityField: 'deviceId' | 'siteId';
+  numericFields: string[];
+  // Column that receives the full avg/min/max/sum statistics of aggregated rows
+  statsField: 'processingMetadata' | 'additionalData';
+}
+
+interface ArchiveManifestEntry {
+  file: string;
+  jobId: number;
+  policyRuleId: number | null;
+  records: number;
+  bytes: number;
+  uncompressedBytes: number;
+  compression: 'gzip' | 'brotli';
+  from: string | null;
+  to: string | null;
+  createdAt: string;
+}
+
+interface RunResult {
+  recordsProcessed: number;
+  bytesProcessed: number;
+  aggregatedRows: number;
+  rawRowsAggregated: number;
+  movedRows: number;
+  exportedRows: number;
+  deletedRows: number;
+  deletedFiles: number;
+  files: string[];
+}
+
+const DATABASE_TIERS: StorageTier[] = ['hot', 'warm'];
+const FILE_TIERS: StorageTier[] = ['cold', 'archive'];
+const AGGREGATION_FUNCTIONS: AggregationFunction[] = ['avg', 'min', 'max', 'sum'];
+const MAX_INTEGER = 2147483647;
+
+const READING_TABLES: Record<string, ReadingTableConfig> = {
+  device_readings: {
+    table: deviceReadings,
+    entityField: 'deviceId',
+    numericFields: [
+      'power', 'energy', 'stateOfCharge', 'voltage', 'current',
+      'frequency', 'temperature', 'humidity', 'pressure',
+    ],
+    statsField: 'processingMetadata',
+  },
+  energy_readings: {
+    table: energyReadings,
+    entityField: 'siteId',
+    numericFields: [
+      'gridPower', 'solarPower', 'batteryPower', 'evPower', 'homePower',
+      'gridEnergy', 'solarEnergy', 'batteryEnergy', 'evEnergy', 'homeEnergy',
+      'selfSufficiency', 'carbon', 'efficiency', 'peakPower', 'costSaving', 'gridCost',
+    ],
+    statsField: 'additionalData',
+  },
+};
+
+// Policies an admin can create so telemetry tables stop growing without bound
+const DEFAULT_POLICIES: (typeof storagePolicyRules.$inferInsert)[] = [
+  {
+    name: 'Downsample device readings',
+    description: 'Aggregate raw device readings into 15 minute averages after 7 days',
+    dataType: 'device_readings',
+    retentionPeriodDays: 90,
+    promotionThresholdDays: 7,
+    sourceTier: 'hot',
+    destinationTier: 'warm',
+    action: 'move',
+    aggregationEnabled: true,
+    aggregationPeriod: '15m',
+    aggregationFunction: 'avg',
+    priority: 10,
+    executionFrequencyHours: 24,
+  },
+  {
+    name: 'Archive device readings',
+    description: 'Compress warm device readings to the cold tier after 90 days',
+    dataType: 'device_readings',
+    retentionPeriodDays: 1825,
+    promotionThresholdDays: 90,
+    sourceTier: 'warm',
+    destinationTier: 'cold',
+    action: 'compress',
+    compressionType: 'gzip',
+    priority: 20,
+    executionFrequencyHours: 24,
+  },
+  {
+    name: 'Expire cold device readings',
+    description: 'Delete archived device readings older than 5 years',
+    dataType: 'device_readings',
+    retentionPeriodDays: 1825,
+    sourceTier: 'cold',
+    destinationTier: 'cold',
+    action: 'delete',
+    priority: 30,
+    executionFrequencyHours: 168,
+  },
+  {
+    name: 'Downsample energy readings',
+    description: 'Aggregate site energy readings into hourly values after 30 days',
+    dataType: 'energy_readings',
+    retentionPeriodDays: 365,
+    promotionThresholdDays: 30,
+    sourceTier: 'hot',
+    destinationTier: 'warm',
+    action: 'move',
+    aggregationEnabled: true,
+    aggregationPeriod: '1h',
+    aggregationFunction: 'avg',
+    priority: 10,
+    executionFrequencyHours: 24,
+  },
+  {
+    name: 'Archive energy readings',
+    description: 'Compress warm energy readings to the archive tier after one year',
+    dataType: 'energy_readings',
+    retentionPeriodDays: 3650,
+    promotionThresholdDays: 365,
+    sourceTier: 'warm',
+    destinationTier: 'archive',
+    action: 'compress',
+    compressionType: 'gzip',
+    priority: 20,
+    executionFrequencyHours: 168,
+  },
+];
+
+/**
+ * Parse an aggregation period such as '15m', '1h', '1d' or '1w' into seconds
+ */
+export function parseAggregationPeriod(period: string): number {
+  const match = period.trim().match(/^(\d+)\s*([smhdw])$/i);
+  if (!match) {
+    throw new Error(`Invalid aggregation period: ${period}`);
+  }
+
+  const value = parseInt(match[1], 10);
+  const unitSeconds: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+  const seconds = value * unitSeconds[match[2].toLowerCase()];
+
+  if (seconds < 60) {
+    throw new Error(`Aggregation period must be at least one minute: ${period}`);
+  }
+
+  return seconds;
+}
+
+export class DataLifecycleService {
+  private archiveDirectory: string;
+  private checkIntervalMs: number;
+  private batchSize: number;
+  private schedulerTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(config: DataLifecycleConfig = {}) {
+    this.archiveDirectory = config.archiveDirectory
+      || process.env.DATA_ARCHIVE_DIR
+      || path.join(process.cwd(), 'data', 'archive');
+    this.checkIntervalMs = config.checkIntervalMs ?? 60 * 60 * 1000; // 1 hour
+    this.batchSize = config.batchSize ?? 5000;
+  }
+
+  /**
+   * Start the policy scheduler
+   */
+  start(): void {
+    if (this.schedulerTimer) return;
+
+    this.schedulerTimer = setInterval(() => {
+      this.runDuePolicies().catch(error => {
+        console.error('Error running storage policies:', error);
+      });
+    }, this.checkIntervalMs);
+
+    console.log(`Data lifecycle scheduler started (checking every ${Math.round(this.checkIntervalMs / 60000)} minutes)`);
+  }
+
+  /**
+   * Stop the policy scheduler
+   */
+  stop(): void {
+    if (this.schedulerTimer) {
+      clearInterval(this.schedulerTimer);
+      this.schedulerTimer = null;
+    }
+  }
+
+  /**
+   * Create the default policies if no policy rules exist yet
+   */
+  async seedDefaultPolicies(): Promise<number> {
+    const [existing] = await db.select({ count: sql<number>`count(*)::int` }).from(storagePolicyRules);
+    if (existing && existing.count > 0) {
+      return 0;
+    }
+
+    await db.insert(storagePolicyRules).values(DEFAULT_POLICIES);
+    console.log(`Created ${DEFAULT_POLICIES.length} default storage policy rules`);
+    return DEFAULT_POLICIES.length;
+  }
+
+  /**
+   * Execute every enabled policy whose execution frequency has elapsed, in priority order
+   */
+  async runDuePolicies(): Promise<DataTransferJob[]> {
+    if (this.running) {
+      console.log('Storage policy run already in progress, skipping');
+      return [];
+    }
+
+    this.running = true;
+    const jobs: DataTransferJob[] = [];
+
+    try {
+      const rules = await db
+        .select()
+        .from(storagePolicyRules)
+        .where(eq(storagePolicyRules.isEnabled, true))
+        .orderBy(asc(storagePolicyRules.priority), asc(storagePolicyRules.id));
+
+      const now = Date.now();
+      for (const rule of rules) {
+        const frequencyMs = (rule.executionFrequencyHours || 24) * 60 * 60 * 1000;
+        if (rule.lastExecutedAt && now - rule.lastExecutedAt.getTime() < frequencyMs) {
+          continue;
+        }
+
+        jobs.push(await this.executeRule(rule));
+      }
+    } finally {
+      this.running = false;
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Execute a single policy rule by ID, regardless of its schedule
+   */
+  async runPolicy(ruleId: number): Promise<DataTransferJob | undefined> {
+    const [rule] = await db
+      .select()
+      .from(storagePolicyRules)
+      .where(eq(storagePolicyRules.id, ruleId));
+
+    if (!rule) {
+      return undefined;
+    }
+
+    return this.executeRule(rule);
+  }
+
+  /**
+   * Execute a policy rule and record the run in data_transfer_jobs
+   */
+  async executeRule(rule: StoragePolicyRule): Promise<DataTransferJob> {
+    const [job] = await db
+      .insert(dataTransferJobs)
+      .values({
+        policyRuleId: rule.id,
+        status: 'in_progress',
+        startTime: new Date(),
+        sourceTier: rule.sourceTier,
+        destinationTier: rule.destinationTier,
+      })
+      .returning();
+
+    const result: RunResult = {
+      recordsProcessed: 0,
+      bytesProcessed: 0,
+      aggregatedRows: 0,
+      rawRowsAggregated: 0,
+      movedRows: 0,
+      exportedRows: 0,
+      deletedRows: 0,
+      deletedFiles: 0,
+      files: [],
+    };
+
+    const thresholdDays = rule.action === 'delete'
+      ? rule.retentionPeriodDays
+      : rule.promotionThresholdDays ?? rule.retentionPeriodDays;
+    const cutoff = new Date(Date.now() - thresholdDays * 24 * 60 * 60 * 1000);
+
+    try {
+      const config = this.getTableConfig(rule.dataType);
+
+      if (rule.aggregationEnabled && rule.action !== 'delete' && this.isDatabaseTier(rule.sourceTier)) {
+        await this.downsample(config, rule, cutoff, result);
+      }
+
+      switch (rule.action) {
+        case 'move':
+          if (this.isDatabaseTier(rule.destinationTier)) {
+            await this.moveRecords(config, rule, cutoff, result);
+          } else {
+            await this.exportRecords(config, rule, job.id, cutoff, true, result);
+          }
+          break;
+        case 'copy':
+          if (this.isDatabaseTier(rule.destinationTier)) {
+            throw new Error('Copy is only supported to the cold or archive tiers');
+          }
+          await this.exportRecords(config, rule, job.id, cutoff, false, result);
+          break;
+        case 'compress':
+          if (this.isDatabaseTier(rule.destinationTier)) {
+            throw new Error('Compress requires a cold or archive destination tier');
+          }
+          await this.exportRecords(config, rule, job.id, cutoff, true, result);
+          break;
+        case 'delete':
+          await this.deleteExpired(config, rule, cutoff, result);
+          break;
+        default:
+          throw new Error(`Unsupported storage policy action: ${rule.action}`);
+      }
+
+      const [completed] = await db
+        .update(dataTransferJobs)
+        .set({
+          status: 'completed',
+          endTime: new Date(),
+          recordsProcessed: Math.min(result.recordsProcessed, MAX_INTEGER),
+          bytesProcessed: Math.min(result.bytesProcessed, MAX_INTEGER),
+          metadataSnapshot: { action: rule.action, dataType: rule.dataType, cutoff: cutoff.toISOString(), ...result },
+          updatedAt: new Date(),
+        })
+        .where(eq(dataTransferJobs.id, job.id))
+        .returning();
+
+      await db
+        .update(storagePolicyRules)
+        .set({ lastExecutedAt: new Date() })
+        .where(eq(storagePolicyRules.id, rule.id));
+
+      await this.refreshTierMetrics(rule.dataType);
+
+      console.log(`Storage policy "${rule.name}" completed: ${result.recordsProcessed} records processed`);
+      return completed;
+    } catch (error) {
+      console.error(`Storage policy "${rule.name}" failed:`, error);
+
+      const [failed] = await db
+        .update(dataTransferJobs)
+        .set({
+          status: 'failed',
+          endTime: new Date(),
+          recordsProcessed: Math.min(result.recordsProcessed, MAX_INTEGER),
+          bytesProcessed: Math.min(result.bytesProcessed, MAX_INTEGER),
+          errorMessage: error instanceof Error ? error.message : String(error),
+          metadataSnapshot: { action: rule.action, dataType: rule.dataType, cutoff: cutoff.toISOString(), ...result },
+          updatedAt: new Date(),
+        })
+        .where(eq(dataTransferJobs.id, job.id))
+        .returning();
+
+      return failed;
+    }
+  }
+
+  /**
+   * Recompute record counts, sizes and date ranges per tier for a data type
+   */
+  async refreshTierMetrics(dataType: string): Promise<void> {
+    const config = this.getTableConfig(dataType);
+    const table = config.table;
+
+    for (const tier of DATABASE_TIERS) {
+      const [stats] = await db
+        .select({
+          recordCount: sql<number>`count(*)::bigint`,
+          storageBytes: sql<number>`coalesce(sum(pg_column_size(${table}.*)), 0)::bigint`,
+          oldestRecord: sql<string | null>`min(${table.timestamp})`,
+          newestRecord: sql<string | null>`max(${table.timestamp})`,
+        })
+        .from(table)
+        .where(this.tierCondition(table, tier));
+
+      await this.upsertTierMetric(tier, dataType, {
+        recordCount: Number(stats?.recordCount || 0),
+        storageBytes: Number(stats?.storageBytes || 0),
+        oldestRecord: stats?.oldestRecord ? new Date(stats.oldestRecord) : null,
+        newestRecord: stats?.newestRecord ? new Date(stats.newestRecord) : null,
+      });
+    }
+
+    for (const tier of FILE_TIERS) {
+      const manifest = await this.readManifest(tier, dataType);
+      const fromDates = manifest.filter(e => e.from).map(e => new Date(e.from!).getTime());
+      const toDates = manifest.filter(e => e.to).map(e => new Date(e.to!).getTime());
+
+      await this.upsertTierMetric(tier, dataType, {
+        recordCount: manifest.reduce((sum, e) => sum + e.records, 0),
+        storageBytes: manifest.reduce((sum, e) => sum + e.bytes, 0),
+        oldestRecord: fromDates.length ? new Date(Math.min(...fromDates)) : null,
+        newestRecord: toDates.length ? new Date(Math.max(...toDates)) : null,
+      });
+    }
+  }
+
+  /**
+   * Get recent transfer jobs, optionally for a single policy rule
+   */
+  async getTransferJobs(policyRuleId?: number, limit = 50): Promise<DataTransferJob[]> {
+    const query = db.select().from(dataTransferJobs);
+    const filtered = policyRuleId ? query.where(eq(dataTransferJobs.policyRuleId, policyRuleId)) : query;
+
+    return filtered.orderBy(desc(dataTransferJobs.startTime)).limit(limit);
+  }
+
+  /**
+   * Get the current per-tier storage metrics
+   */
+  async getTierMetrics() {
+    return db
+      .select()
+      .from(storageTierMetrics)
+      .orderBy(asc(storageTierMetrics.dataType), asc(storageTierMetrics.tier));
+  }
+
+  // Aggregate raw rows older than the cutoff into one row per entity and period
+  private async downsample(
+    config: ReadingTableConfig,
+    rule: StoragePolicyRule,
+    cutoff: Date,
+    result: RunResult
+  ): Promise<void> {
+    const table = config.table;
+    const periodSeconds = parseAggregationPeriod(rule.aggregationPeriod || '1h');
+    const fn = AGGREGATION_FUNCTIONS.includes(rule.aggregationFunction as AggregationFunction)
+      ? rule.aggregationFunction as AggregationFunction
+      : 'avg';
+    const aggregateTier = this.isDatabaseTier(rule.destinationTier) ? rule.destinationTier : rule.sourceTier;
+
+    const rawConditions = [
+      ...this.ruleConditions(config, rule),
+      or(eq(table.isAggregated, false), isNull(table.isAggregated))!,
+    ];
+
+    const [oldest] = await db
+      .select({ timestamp: sql<string | null>`min(${table.timestamp})` })
+      .from(table)
+      .where(and(...rawConditions, lt(table.timestamp, cutoff)));
+
+    if (!oldest?.timestamp) {
+      return;
+    }
+
+    // Only aggregate complete periods, one day (rounded up to whole periods) at a time
+    const periodMs = periodSeconds * 1000;
+    const windowMs = Math.ceil(86400 / periodSeconds) * periodMs;
+    const alignedCutoff = Math.floor(cutoff.getTime() / periodMs) * periodMs;
+    let windowStart = Math.floor(new Date(oldest.timestamp).getTime() / periodMs) * periodMs;
+
+    const bucket = sql`floor(extract(epoch from ${table.timestamp}) / ${sql.raw(String(periodSeconds))})`;
+    const entityColumn = table[config.entityField];
+
+    const selection: Record<string, SQL | any> = {
+      entityId: entityColumn,
+      bucket: sql<number>`${bucket}`,
+      count: sql<number>`count(*)::int`,
+      firstId: sql<number>`min(${table.id})`,
+      lastId: sql<number>`max(${table.id})`,
+    };
+    for (const field of config.numericFields) {
+      for (const stat of AGGREGATION_FUNCTIONS) {
+        selection[`${field}__${stat}`] = sql<string | null>`${sql.raw(stat)}(${table[field]})`;
+      }
+    }
+
+    while (windowStart < alignedCutoff) {
+      const windowEnd = Math.min(windowStart + windowMs, alignedCutoff);
+      const windowConditions = and(
+        ...rawConditions,
+        gte(table.timestamp, new Date(windowStart)),
+        lt(table.timestamp, new Date(windowEnd))
+      );
+
+      await db.transaction(async (tx) => {
+        const groups: any[] = await tx
+          .select(selection)
+          .from(table)
+          .where(windowConditions)
+          .groupBy(entityColumn, bucket);
+
+        if (groups.length === 0) {
+          return;
+        }
+
+        const aggregatedRows = groups.map(group => {
+          const stats: Record<string, Record<AggregationFunction, number | null>> = {};
+          const row: Record<string, any> = {
+            [config.entityField]: group.entityId,
+            timestamp: new Date(Number(group.bucket) * periodMs),
+            isAggregated: true,
+            aggregationPeriod: rule.aggregationPeriod || '1h',
+            aggregationMethod: fn,
+            storageTier: aggregateTier,
+            dataQuality: 'aggregated',
+            samplingRate: periodSeconds >= 3600 ? 'very_low' : 'low',
+            sourceReadings: { count: group.count, firstId: group.firstId, lastId: group.lastId },
+          };
+
+          for (const field of config.numericFields) {
+            stats[field] = {
+              avg: toNumber(group[`${field}__avg`]),
+              min: toNumber(group[`${field}__min`]),
+              max: toNumber(group[`${field}__max`]),
+              sum: toNumber(group[`${field}__sum`]),
+            };
+            const value = group[`${field}__${fn}`];
+            row[field] = value === null || value === undefined ? null : String(value);
+          }
+
+          row[config.statsField] = { aggregation: { policyRuleId: rule.id, stats } };
+          return row;
+        });
+
+        await tx.insert(table).values(aggregatedRows);
+        await tx.delete(table).where(windowConditions);
+
+        const rawCount = groups.reduce((sum, group) => sum + Number(group.count), 0);
+        result.aggregatedRows += aggregatedRows.length;
+        result.rawRowsAggregated += rawCount;
+        result.recordsProcessed += rawCount;
+      });
+
+      windowStart = windowEnd;
+    }
+  }
+
+  // Move rows between the database tiers by updating their tier marker
+  private async moveRecords(
+    config: ReadingTableConfig,
+    rule: StoragePolicyRule,
+    cutoff: Date,
+    result: RunResult
+  ): Promise<void> {
+    const table = config.table;
+    const conditions = [...this.ruleConditions(config, rule), lt(table.timestamp, cutoff)];
+    let lastId = 0;
+
+    while (true) {
+      const batch: { id: number }[] = await db
+        .select({ id: table.id })
+        .from(table)
+        .where(and(...conditions, gt(table.id, lastId)))
+        .orderBy(asc(table.id))
+        .limit(this.batchSize);
+
+      if (batch.length === 0) break;
+
+      await db
+        .update(table)
+        .set({ storageTier: rule.destinationTier })
+        .where(inArray(table.id, batch.map(row => row.id)));
+
+      lastId = batch[batch.length - 1].id;
+      result.movedRows += batch.length;
+      result.recordsProcessed += batch.length;
+
+      if (batch.length < this.batchSize) break;
+    }
+  }
+
+  // Export rows to compressed JSON-lines files for the cold/archive tiers
+  private async exportRecords(
+    config: ReadingTableConfig,
+    rule: StoragePolicyRule,
+    jobId: number,
+    cutoff: Date,
+    removeFromDatabase: boolean,
+    result: RunResult
+  ): Promise<void> {
+    const table = config.table;
+    const compression = rule.compressionType === 'brotli' ? 'brotli' : 'gzip';
+    const conditions = [...this.ruleConditions(config, rule), lt(table.timestamp, cutoff)];
+
+    // Copies keep the source rows, so only export rows that crossed the threshold since the last run
+    if (!removeFromDatabase && rule.lastExecutedAt) {
+      const thresholdMs = cutoff.getTime() - Date.now();
+      conditions.push(gte(table.timestamp, new Date(rule.lastExecutedAt.getTime() + thresholdMs)));
+    }
+
+    const directory = this.tierDirectory(rule.destinationTier as StorageTier, rule.dataType);
+    await fs.promises.mkdir(directory, { recursive: true });
+
+    let lastId = 0;
+    let batchNumber = 0;
+
+    while (true) {
+      const rows: any[] = await db
+        .select()
+        .from(table)
+        .where(and(...conditions, gt(table.id, lastId)))
+        .orderBy(asc(table.id))
+        .limit(this.batchSize);
+
+      if (rows.length === 0) break;
+
+      batchNumber++;
+      const payload = Buffer.from(rows.map(row => JSON.stringify(row)).join('\n') + '\n');
+      const compressed = compression === 'brotli' ? await brotliAsync(payload) : await gzipAsync(payload);
+      const extension = compression === 'brotli' ? 'jsonl.br' : 'jsonl.gz';
+      const fileName = `${rule.dataType}-job${jobId}-${String(batchNumber).padStart(4, '0')}.${extension}`;
+
+      await fs.promises.writeFile(path.join(directory, fileName), compressed);
+
+      const timestamps = rows
+        .map(row => row.timestamp ? new Date(row.timestamp).getTime() : null)
+        .filter((t): t is number => t !== null);
+
+      await this.appendManifest(rule.destinationTier as StorageTier, rule.dataType, {
+        file: fileName,
+        jobId,
+        policyRuleId: rule.id,
+        records: rows.length,
+        bytes: compressed.length,
+        uncompressedBytes: payload.length,
+        compression,
+        from: timestamps.length ? new Date(Math.min(...timestamps)).toISOString() : null,
+        to: timestamps.length ? new Date(Math.max(...timestamps)).toISOString() : null,
+        createdAt: new Date().toISOString(),
+      });
+
+      if (removeFromDatabase) {
+        await db.delete(table).where(inArray(table.id, rows.map(row => row.id)));
+      }
+
+      lastId = rows[rows.length - 1].id;
+      result.exportedRows += rows.length;
+      result.recordsProcessed += rows.length;
+      result.bytesProcessed += payload.length;
+      result.files.push(fileName);
+
+      if (rows.length < this.batchSize) break;
+    }
+  }
+
+  // Delete expired rows from a database tier, or expired files from a file tier
+  private async deleteExpired(
+    config: ReadingTableConfig,
+    rule: StoragePolicyRule,
+    cutoff: Date,
+    result: RunResult
+  ): Promise<void> {
+    if (this.isDatabaseTier(rule.sourceTier)) {
+      const table = config.table;
+      const conditions = and(...this.ruleConditions(config, rule), lt(table.timestamp, cutoff));
+
+      while (true) {
+        const batch: { id: number }[] = await db
+          .select({ id: table.id })
+          .from(table)
+          .where(conditions)
+          .limit(this.batchSize);
+
+        if (batch.length === 0) break;
+
+        await db.delete(table).where(inArray(table.id, batch.map(row => row.id)));
+        result.deletedRows += batch.length;
+        result.recordsProcessed += batch.length;
+
+        if (batch.length < this.batchSize) break;
+      }
+      return;
+    }
+
+    // Archive files mix entities, so entity-scoped rules cannot expire them
+    if (rule.entityId) {
+      throw new Error('Entity-scoped delete rules are not supported for cold or archive tiers');
+    }
+
+    const tier = rule.sourceTier as StorageTier;
+    const manifest = await this.readManifest(tier, rule.dataType);
+    const kept: ArchiveManifestEntry[] = [];
+
+    for (const entry of manifest) {
+      if (entry.to && new Date(entry.to) < cutoff) {
+        await fs.promises.rm(path.join(this.tierDirectory(tier, rule.dataType), entry.file), { force: true });
+        result.deletedFiles++;
+        result.deletedRows += entry.records;
+        result.recordsProcessed += entry.records;
+        result.bytesProcessed += entry.bytes;
+      } else {
+        kept.push(entry);
+      }
+    }
+
+    await this.writeManifest(tier, rule.dataType, kept);
+  }
+
+  // Conditions shared by every action: source tier and optional entity filter
+  private ruleConditions(config: ReadingTableConfig, rule: StoragePolicyRule): SQL[] {
+    const table = config.table;
+    const conditions: SQL[] = [this.tierCondition(table, rule.sourceTier as StorageTier)];
+
+    if (rule.entityId) {
+      if (rule.entityType === 'site' && config.entityField === 'deviceId') {
+        conditions.push(inArray(
+          table.deviceId,
+          db.select({ id: devices.id }).from(devices).where(eq(devices.siteId, rule.entityId))
+        ));
+      } else if (
+        (rule.entityType === 'device' && config.entityField === 'deviceId') ||
+        (rule.entityType === 'site' && config.entityField === 'siteId')
+      ) {
+        conditions.push(eq(table[config.entityField], rule.entityId));
+      } else {
+        throw new Error(`Entity type "${rule.entityType}" is not supported for ${rule.dataType}`);
+      }
+    }
+
+    return conditions;
+  }
+
+  // Rows without a tier marker predate tiering and are treated as hot
+  private tierCondition(table: any, tier: StorageTier): SQL {
+    return tier === 'hot'
+      ? or(eq(table.storageTier, 'hot'), isNull(table.storageTier))!
+      : eq(table.storageTier, tier);
+  }
+
+  private getTableConfig(dataType: string): ReadingTableConfig {
+    const config = READING_TABLES[dataType];
+    if (!config) {
+      throw new Error(`Unsupported data type for storage policies: ${dataType}`);
+    }
+    return config;
+  }
+
+  private isDatabaseTier(tier: string): boolean {
+    return DATABASE_TIERS.includes(tier as StorageTier);
+  }
+
+  private tierDirectory(tier: StorageTier, dataType: string): string {
+    return path.join(this.archiveDirectory, tier, dataType);
+  }
+
+  private async readManifest(tier: StorageTier, dataType: string): Promise<ArchiveManifestEntry[]> {
+    try {
+      const content = await fs.promises.readFile(path.join(this.tierDirectory(tier, dataType), 'manifest.json'), 'utf8');
+      return JSON.parse(content);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async writeManifest(tier: StorageTier, dataType: string, entries: ArchiveManifestEntry[]): Promise<void> {
+    const directory = this.tierDirectory(tier, dataType);
+    await fs.promises.mkdir(directory, { recursive: true });
+
+    // Write to a temporary file first so a crash never leaves a truncated manifest
+    const manifestPath = path.join(directory, 'manifest.json');
+    await fs.promises.writeFile(`${manifestPath}.tmp`, JSON.stringify(entries, null, 2));
+    await fs.promises.rename(`${manifestPath}.tmp`, manifestPath);
+  }
+
+  private async appendManifest(tier: StorageTier, dataType: string, entry: ArchiveManifestEntry): Promise<void> {
+    const entries = await this.readManifest(tier, dataType);
+    entries.push(entry);
+    await this.writeManifest(tier, dataType, entries);
+  }
+
+  private async upsertTierMetric(
+    tier: StorageTier,
+    dataType: string,
+    values: { recordCount: number; storageBytes: number; oldestRecord: Date | null; newestRecord: Date | null }
+  ): Promise<void> {
+    const data = {
+      recordCount: Math.min(values.recordCount, MAX_INTEGER),
+      storageBytes: Math.min(values.storageBytes, MAX_INTEGER),
+      oldestRecord: values.oldestRecord,
+      newestRecord: values.newestRecord,
+      lastUpdatedAt: new Date(),
+    };
+
+    const [existing] = await db
+      .select({ id: storageTierMetrics.id })
+      .from(storageTierMetrics)
+      .where(and(eq(storageTierMetrics.tier, tier), eq(storageTierMetrics.dataType, dataType)));
+
+    if (existing) {
+      await db.update(storageTierMetrics).set(data).where(eq(storageTierMetrics.id, existing.id));
+    } else {
+      await db.insert(storageTierMetrics).values({ tier, dataType, ...data });
+    }
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const parsed = Number(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+// Singleton instance
+let dataLifecycleServiceInstance: DataLifecycleService | null = null;
+
+// Initialize the data lifecycle service and start its scheduler
+export function initDataLifecycleService(config: DataLifecycleConfig = {}): DataLifecycleService {
+  if (!dataLifecycleServiceInstance) {
+    dataLifecycleServiceInstance = new DataLifecycleService(config);
+
+    // Seeding is opt-in; admins can also create the defaults through the storage policy API
+    if (config.seedDefaultPolicies ?? process.env.SEED_STORAGE_POLICIES === 'true') {
+      dataLifecycleServiceInstance.seedDefaultPolicies().catch(error => {
+        console.error('Error creating default storage policies:', error);
+      });
+    }
+
+    dataLifecycleServiceInstance.start();
+  }
+
+  return dataLifecycleServiceInstance;
+}
+
+// Get the existing data lifecycle service instance
+export function getDataLifecycleService(): DataLifecycleService {
+  if (!dataLifecycleServiceInstance) {
+    throw new Error('Data lifecycle service not initialized. Call initDataLifecycleService first.');
+  }
+
+  return dataLifecycleServiceInstance;
+}
@@ -0,0 +1,273 @@
+/**
+ * Demand Response Baseline Service
+ *
+ * Customer baseline load for demand response settlement: the load a site
+ * would have drawn from the grid during an event had it not responded.
+ * Baselines are built from net grid import on comparable non-event days
+ * (weekdays for weekday events, weekend days for weekend events), matched
+ * at the same site-local clock time:
+ *
+ * - `10_of_10`: average of the 10 most recent eligible days
+ * - `high_5_of_10`: average of the 5 highest of those days
+ * - `weather_adjusted`: linear regression of load on temperature over the
+ *   eligible days, evaluated at the event temperature
+ *
+ * The day-matching baselines get a day-of adjustment that scales them by the
+ * ratio of event-day to baseline load in the hours before the site was
+ * notified, capped at ±20%.
+ */
+
+import { db } from '../db';
+import { demandResponseEvents } from '@shared/schema';
+import { and, eq, gte, lt, ne } from 'drizzle-orm';
+import { storage } from '../storage';
+import { buildMeterIntervals, type MeterInterval } from './billingService';
+import { getLocalTime, getSiteTimezone } from './tariffEngine';
+import { getSiteWeatherLookup, type WeatherLookup } from './pvProductionService';
+
+export const BASELINE_METHODS = ['10_of_10', 'high_5_of_10', 'weather_adjusted'] as const;
+export type BaselineMethod = typeof BASELINE_METHODS[number];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const LOOKBACK_DAYS = 45; // Oldest day considered for the baseline
+const BASELINE_DAYS = 10;
+const HIGH_BASELINE_DAYS = 5;
+const MIN_COVERAGE = 0.75; // Share of a window that must have readings
+const MIN_WEATHER_DAYS = 5; // Fewest days with temperature for a regression
+const ADJUSTMENT_WINDOW_MS = 3 * HOUR_MS;
+const ADJUSTMENT_GAP_MS = HOUR_MS; // Gap between the adjustment window and notification
+const MAX_ADJUSTMENT = 0.2;
+const TEMPERATURE_STEP_MS = 15 * 60 * 1000;
+
+export interface LoadWindow {
+  averageKw: number;
+  coverage: number; // Fraction of the window covered by readings
+}
+
+export interface BaselineDay {
+  date: string; // Site-local date
+  start: string;
+  averageKw: number;
+  temperature: number | null;
+}
+
+export interface Baseline {
+  method: BaselineMethod; // Method used, after any fallback
+  requestedMethod: BaselineMethod;
+  baselineKw: number;
+  unadjustedKw: number;
+  adjustmentFactor: number;
+  eventTemperature: number | null;
+  regression: { slope: number; intercept: number; r2: number } | null;
+  days: BaselineDay[];
+}
+
+export interface BaselineOptions {
+  method?: BaselineMethod;
+  notificationTime?: Date | null; // End of the day-of adjustment window
+}
+
+interface CandidateDay extends BaselineDay {
+  adjustment: LoadWindow;
+}
+
+export function isBaselineMethod(value: unknown): value is BaselineMethod {
+  return typeof value === 'string' && (BASELINE_METHODS as readonly string[]).includes(value);
+}
+
+/**
+ * Time-weighted average grid import over a window
+ */
+export function getAverageLoad(intervals: MeterInterval[], start: Date, end: Date): LoadWindow {
+  const windowHours = (end.getTime() - start.getTime()) / HOUR_MS;
+  if (windowHours <= 0) return { averageKw: 0, coverage: 0 };
+
+  let energyKwh = 0;
+  let coveredHours = 0;
+  for (const interval of intervals) {
+    const intervalStart = interval.start.getTime();
+    const intervalEnd = intervalStart + interval.hours * HOUR_MS;
+    const overlapHours = (Math.min(intervalEnd, end.getTime()) - Math.max(intervalStart, start.getTime())) / HOUR_MS;
+    if (overlapHours <= 0) continue;
+
+    energyKwh += interval.gridKw * overlapHours;
+    coveredHours += overlapHours;
+  }
+
+  return {
+    averageKw: coveredHours > 0 ? energyKwh / coveredHours : 0,
+    coverage: Math.min(coveredHours / windowHours, 1),
+  };
+}
+
+/**
+ * Baseline load of a site for an event window, or null if no comparable
+ * day has enough readings
+ */
+export async function calculateBaseline(
+  siteId: number,
+  start: Date,
+  end: Date,
+  options: BaselineOptions = {}
+): Promise<Baseline | null> {
+  const requestedMethod = options.method ?? '10_of_10';
+  const timezone = await getSiteTimezone(siteId);
+  const durationMs = end.getTime() - start.getTime();
+  const from = new Date(start.getTime() - (LOOKBACK_DAYS + 1) * DAY_MS);
+
+  const intervals = buildMeterIntervals(await storage.getEnergyReadingsByTimeRange(siteId, from, end));
+  const eventDates = await getEventDates(siteId, from, start, timezone);
+
+  const notifiedAt = Math.min(options.notificationTime?.getTime() ?? start.getTime(), start.getTime());
+  const adjustmentEnd = notifiedAt - ADJUSTMENT_GAP_MS;
+  const adjustmentStart = adjustmentEnd - ADJUSTMENT_WINDOW_MS;
+  const weekend = isWeekend(getLocalTime(start, timezone).weekday);
+
+  const days: CandidateDay[] = [];
+  for (let daysBack = 1; daysBack <= LOOKBACK_DAYS && days.length < BASELINE_DAYS; daysBack++) {
+    const dayStart = shiftLocalDays(start, daysBack, timezone);
+    const local = getLocalTime(dayStart, timezone);
+    const date = `${local.year}-${pad(local.month)}-${pad(local.day)}`;
+    if (isWeekend(local.weekday) !== weekend || eventDates.has(date)) continue;
+
+    const load = getAverageLoad(intervals, dayStart, new Date(dayStart.getTime() + durationMs));
+    if (load.coverage < MIN_COVERAGE) continue;
+
+    const offset = start.getTime() - dayStart.getTime();
+    days.push({
+      date,
+      start: dayStart.toISOString(),
+      averageKw: load.averageKw,
+      temperature: null,
+      adjustment: getAverageLoad(intervals, new Date(adjustmentStart - offset), new Date(adjustmentEnd - offset)),
+    });
+  }
+
+  if (days.length === 0) return null;
+
+  let method = requestedMethod;
+  let unadjustedKw = average(days.map((day) => day.averageKw));
+  let regression: Baseline['regression'] = null;
+  let eventTemperature: number | null = null;
+
+  if (requestedMethod === 'weather_adjusted') {
+    const observed = await getSiteWeatherLookup(siteId, from, end);
+    const forecasted = await getSiteWeatherLookup(siteId, start, end, true);
+
+    for (const day of days) {
+      const dayStart = new Date(day.start);
+      day.temperature = getAverageTemperature(observed, dayStart, new Date(dayStart.getTime() + durationMs));
+    }
+    eventTemperature = getAverageTemperature(observed, start, end) ?? getAverageTemperature(forecasted, start, end);
+
+    const points = days
+      .filter((day) => day.temperature != null)
+      .map((day) => ({ x: day.temperature!, y: day.averageKw }));
+    regression = eventTemperature != null && points.length >= MIN_WEATHER_DAYS ? fitLine(points) : null;
+
+    if (regression) {
+      unadjustedKw = regression.intercept + regression.slope * eventTemperature!;
+    } else {
+      method = '10_of_10';
+    }
+  } else if (requestedMethod === 'high_5_of_10') {
+    const highest = days.map((day) => day.averageKw).sort((a, b) => b - a).slice(0, HIGH_BASELINE_DAYS);
+    unadjustedKw = average(highest);
+  }
+
+  // The regression already accounts for the conditions of the day
+  let adjustmentFactor = 1;
+  if (method !== 'weather_adjusted') {
+    const eventDay = getAverageLoad(intervals, new Date(adjustmentStart), new Date(adjustmentEnd));
+    const baselineDays = days.filter((day) => day.adjustment.coverage >= MIN_COVERAGE);
+    const baselineLoad = average(baselineDays.map((day) => day.adjustment.averageKw));
+
+    if (eventDay.coverage >= MIN_COVERAGE && baselineDays.length > 0 && baselineLoad > 0 && eventDay.averageKw > 0) {
+      adjustmentFactor = Math.min(Math.max(eventDay.averageKw / baselineLoad, 1 - MAX_ADJUSTMENT), 1 + MAX_ADJUSTMENT);
+    }
+  }
+
+  return {
+    method,
+    requestedMethod,
+    baselineKw: unadjustedKw * adjustmentFactor,
+    unadjustedKw,
+    adjustmentFactor,
+    eventTemperature,
+    regression,
+    days: days.map(({ adjustment, ...day }) => day),
+  };
+}
+
+// Site-local dates of other demand response events, which are not typical days
+async function getEventDates(siteId: number, from: Date, to: Date, timezone: string): Promise<Set<string>> {
+  const events = await db
+    .select({ startTime: demandResponseEvents.startTime })
+    .from(demandResponseEvents)
+    .where(and(
+      eq(demandResponseEvents.siteId, siteId),
+      ne(demandResponseEvents.status, 'cancelled'),
+      gte(demandResponseEvents.startTime, from),
+      lt(demandResponseEvents.startTime, to)
+    ));
+
+  return new Set(events.map(({ startTime }) => {
+    const local = getLocalTime(startTime, timezone);
+    return `${local.year}-${pad(local.month)}-${pad(local.day)}`;
+  }));
+}
+
+// The same local clock time a number of days earlier. Across a daylight
+// saving change that is not a whole number of 24-hour days.
+function shiftLocalDays(at: Date, days: number, timezone: string): Date {
+  const shifted = new Date(at.getTime() - days * DAY_MS);
+  const difference = getLocalTime(at, timezone).minutes - getLocalTime(shifted, timezone).minutes;
+  const correction = ((difference % 1440) + 2160) % 1440 - 720;
+  return new Date(shifted.getTime() + correction * 60 * 1000);
+}
+
+function getAverageTemperature(weather: WeatherLookup, start: Date, end: Date): number | null {
+  const temperatures: number[] = [];
+  for (let t = start.getTime(); t < end.getTime(); t += TEMPERATURE_STEP_MS) {
+    const temperature = weather(new Date(t))?.temperature;
+    if (temperature != null) temperatures.push(temperature);
+  }
+  return temperatures.length > 0 ? average(temperatures) : null;
+}
+
+// Least-squares line through the points, or null if x does not vary
+function fitLine(points: { x: number; y: number }[]): { slope: number; intercept: number; r2: number } | null {
+  const meanX = average(points.map((point) => point.x));
+  const meanY = average(points.map((point) => point.y));
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (const { x, y } of points) {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (y - meanY);
+    syy += (y - meanY) ** 2;
+  }
+  if (sxx < 1e-6) return null;
+
+  const slope = sxy / sxx;
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    r2: syy > 0 ? (sxy * sxy) / (sxx * syy) : 1,
+  };
+}
+
+function isWeekend(weekday: number): boolean {
+  return weekday === 0 || weekday === 6;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
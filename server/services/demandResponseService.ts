@@ -0,0 +1,647 @@
+/**
+ * Demand Response Service
+ *
+ * Executes demand response events. When a site is notified of an event its
+ * participation is recorded and per-device curtailment actions are planned
+ * from `site_demand_response_settings`: devices are taken in the order of
+ * `devicePriorities` (lowest number first, unlisted devices after) for the
+ * response types enabled in `responseStrategy`, until the event's target
+ * reduction is covered. Actions are dispatched through the command gateway
+ * when the event starts and devices are restored when it ends or is
+ * cancelled. Completed events are settled against the site baseline once
+ * their readings are in.
+ */
+
+import { db } from '../db';
+import {
+  demandResponseActions,
+  demandResponseEvents,
+  demandResponsePrograms,
+  siteDemandResponseSettings,
+  siteEventParticipations,
+  type DemandResponseAction,
+  type DemandResponseEvent,
+  type DemandResponseProgram,
+  type Device,
+  type SiteDemandResponseSetting,
+  type SiteEventParticipation,
+} from '@shared/schema';
+import { and, eq, gte, inArray, isNull, lte, ne } from 'drizzle-orm';
+import { storage } from '../storage';
+import { buildMeterIntervals } from './billingService';
+import { executeCommand, SYSTEM_ACTOR, type CommandActor, type CommandOutcome } from './commandGatewayService';
+import {
+  calculateBaseline,
+  getAverageLoad,
+  isBaselineMethod,
+  type Baseline,
+  type BaselineMethod,
+} from './demandResponseBaselineService';
+
+type ResponseStrategyFlag = 'batteryDischarge' | 'loadShifting' | 'evChargingDelay' | 'hvacAdjustment';
+
+interface ResponseStrategy extends Partial<Record<ResponseStrategyFlag, boolean>> {
+  hvacSetpointOffset?: number; // °C the thermostat is relaxed by
+}
+
+interface ResponseType {
+  strategy: ResponseStrategyFlag;
+  actionType: string;
+  command: string;
+  restoreCommand: string;
+  order: number; // Used for devices without a priority; comfort-affecting loads last
+}
+
+export interface ParticipationSettlement {
+  participationId: number;
+  siteId: number;
+  settled: boolean;
+  reason?: string;
+  baseline?: Baseline;
+  actualKw?: number;
+  reductionKw?: number;
+  incentive?: number;
+}
+
+export interface EventSettlement {
+  eventId: number;
+  actualReductionKw: number | null;
+  participations: ParticipationSettlement[];
+}
+
+const RESPONSE_TYPES: Partial<Record<Device['type'], ResponseType>> = {
+  battery_storage: {
+    strategy: 'batteryDischarge',
+    actionType: 'battery_discharge',
+    command: 'set_discharge_power',
+    restoreCommand: 'resume_normal_operation',
+    order: 0,
+  },
+  load_controller: {
+    strategy: 'loadShifting',
+    actionType: 'shift_load',
+    command: 'set_power_limit',
+    restoreCommand: 'clear_power_limit',
+    order: 1,
+  },
+  ev_charger: {
+    strategy: 'evChargingDelay',
+    actionType: 'charging_delay',
+    command: 'set_charging_limit',
+    restoreCommand: 'clear_charging_limit',
+    order: 2,
+  },
+  bidirectional_ev_charger: {
+    strategy: 'evChargingDelay',
+    actionType: 'charging_delay',
+    command: 'set_charging_limit',
+    restoreCommand: 'clear_charging_limit',
+    order: 2,
+  },
+  heat_pump: {
+    strategy: 'hvacAdjustment',
+    actionType: 'setpoint_adjustment',
+    command: 'adjust_setpoint',
+    restoreCommand: 'adjust_setpoint',
+    order: 3,
+  },
+};
+
+const DEFAULT_STRATEGY: Required<Pick<ResponseStrategy, ResponseStrategyFlag>> = {
+  batteryDischarge: true,
+  loadShifting: true,
+  evChargingDelay: true,
+  hvacAdjustment: true,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const TICK_INTERVAL = 60 * 1000;
+const SETTLEMENT_DELAY = 15 * 60 * 1000; // Wait for late readings before settling
+const SETTLEMENT_LOOKBACK = 7 * 24 * HOUR_MS; // Older unsettled events are left alone
+const RECENT_READING_MS = 15 * 60 * 1000;
+const MIN_ACTUAL_COVERAGE = 0.75;
+const DEFAULT_BATTERY_C_RATE = 0.5;
+const MIN_DISCHARGE_SOC = 20; // %
+const DEFAULT_SETPOINT_OFFSET = 2; // °C
+const HVAC_REDUCTION_SHARE = 0.3; // Share of heat pump load shed by the setpoint offset
+const COMMAND_PRIORITY = 2;
+const EMERGENCY_COMMAND_PRIORITY = 1;
+const UNAVAILABLE_STATUSES: Device['status'][] = ['error', 'maintenance'];
+
+let tickTimer: NodeJS.Timeout | null = null;
+let processing = false;
+
+/**
+ * Record a site's participation in an event and plan its device actions.
+ * Returns null if the site is not enrolled.
+ */
+export async function prepareEvent(event: DemandResponseEvent): Promise<SiteEventParticipation | null> {
+  if (!event.siteId) return null;
+
+  const [settings] = await db
+    .select()
+    .from(siteDemandResponseSettings)
+    .where(eq(siteDemandResponseSettings.siteId, event.siteId));
+  let [participation] = await db
+    .select()
+    .from(siteEventParticipations)
+    .where(and(eq(siteEventParticipations.siteId, event.siteId), eq(siteEventParticipations.eventId, event.id)));
+
+  if (!participation) {
+    if (!settings?.isEnrolled) return null;
+
+    const program = await getProgram(event.programId);
+    const targetKw = getTargetReduction(event, settings);
+    const estimatedIncentive = calculateIncentive(program, event, targetKw === Infinity ? 0 : targetKw);
+    const threshold = settings.minimumIncentiveThreshold != null ? Number(settings.minimumIncentiveThreshold) : null;
+    const belowThreshold = threshold != null && targetKw !== Infinity && estimatedIncentive < threshold;
+
+    [participation] = await db
+      .insert(siteEventParticipations)
+      .values({
+        siteId: event.siteId,
+        eventId: event.id,
+        participationStatus: belowThreshold ? 'opt_out' : settings.defaultParticipation ?? 'opt_in',
+        notes: belowThreshold
+          ? `Estimated incentive ${estimatedIncentive.toFixed(2)} is below the minimum of ${threshold!.toFixed(2)}`
+          : null,
+      })
+      .returning();
+  }
+
+  if (participation.participationStatus === 'opt_out' || settings?.autoResponseEnabled === false) {
+    return participation;
+  }
+
+  const existing = await db
+    .select({ id: demandResponseActions.id })
+    .from(demandResponseActions)
+    .where(eq(demandResponseActions.participationId, participation.id))
+    .limit(1);
+
+  if (existing.length === 0) {
+    const actions = await planActions(event, participation, settings);
+    if (actions.length > 0) {
+      await db.insert(demandResponseActions).values(actions);
+    }
+  }
+
+  return participation;
+}
+
+/**
+ * Dispatch the planned device actions of an event and mark it active
+ */
+export async function startEvent(
+  event: DemandResponseEvent,
+  actor: CommandActor = SYSTEM_ACTOR
+): Promise<DemandResponseAction[]> {
+  await prepareEvent(event);
+  await setEventStatus(event.id, 'active');
+
+  const expiresInSeconds = Math.max(Math.ceil((event.endTime.getTime() - Date.now()) / 1000), 60);
+  const actions = await getEventActions(event.id, ['scheduled']);
+  const dispatched: DemandResponseAction[] = [];
+
+  for (const action of actions) {
+    const type = getResponseType(action.actionType);
+    if (!type) {
+      dispatched.push(await updateAction(action.id, { status: 'failed', errorMessage: `Unknown action type ${action.actionType}` }));
+      continue;
+    }
+
+    const outcome = await executeCommand(actor, action.deviceId, type.command, getCommandParameters(event, action, false), {
+      priority: event.isEmergency ? EMERGENCY_COMMAND_PRIORITY : COMMAND_PRIORITY,
+      expiresInSeconds,
+    });
+
+    // Commands held for approval or queued for delivery still run later
+    dispatched.push(await updateAction(action.id, isAccepted(outcome)
+      ? { status: 'in_progress', errorMessage: null }
+      : { status: 'failed', errorMessage: describeOutcome(outcome) }));
+  }
+
+  return dispatched;
+}
+
+/**
+ * Restore the devices curtailed for an event and close it
+ */
+export async function endEvent(
+  event: DemandResponseEvent,
+  actor: CommandActor = SYSTEM_ACTOR
+): Promise<DemandResponseAction[]> {
+  const cancelled = event.status === 'cancelled';
+  const restored: DemandResponseAction[] = [];
+
+  for (const action of await getEventActions(event.id, ['scheduled', 'in_progress'])) {
+    if (action.status === 'scheduled') {
+      restored.push(await updateAction(action.id, {
+        status: 'failed',
+        errorMessage: cancelled ? 'Event cancelled' : 'Event ended before the action was dispatched',
+      }));
+      continue;
+    }
+
+    const type = getResponseType(action.actionType);
+    const outcome = type
+      ? await executeCommand(actor, action.deviceId, type.restoreCommand, getCommandParameters(event, action, true), {
+          priority: COMMAND_PRIORITY,
+        })
+      : null;
+
+    restored.push(await updateAction(action.id, outcome && isAccepted(outcome)
+      ? { status: 'completed' }
+      : {
+          status: 'failed',
+          errorMessage: `Device was not restored: ${outcome ? describeOutcome(outcome) : 'unknown action type'}`,
+        }));
+  }
+
+  if (!cancelled) {
+    await setEventStatus(event.id, 'completed');
+  }
+
+  return restored;
+}
+
+/**
+ * Measure the reduction each participating site achieved against its
+ * baseline and calculate the incentive earned. Sites without a baseline or
+ * enough readings during the event are left unsettled.
+ */
+export async function settleEvent(event: DemandResponseEvent, method?: BaselineMethod): Promise<EventSettlement> {
+  const program = await getProgram(event.programId);
+  const baselineMethod = method ?? getProgramBaselineMethod(program);
+  const participations = await db
+    .select()
+    .from(siteEventParticipations)
+    .where(and(
+      eq(siteEventParticipations.eventId, event.id),
+      ne(siteEventParticipations.participationStatus, 'opt_out')
+    ));
+
+  const results: ParticipationSettlement[] = [];
+
+  for (const participation of participations) {
+    const baseline = await calculateBaseline(participation.siteId, event.startTime, event.endTime, {
+      method: baselineMethod,
+      notificationTime: event.notificationTime,
+    });
+    if (!baseline) {
+      results.push({ participationId: participation.id, siteId: participation.siteId, settled: false, reason: 'No baseline days with readings' });
+      continue;
+    }
+
+    const readings = await storage.getEnergyReadingsByTimeRange(participation.siteId, event.startTime, event.endTime);
+    const actual = getAverageLoad(buildMeterIntervals(readings), event.startTime, event.endTime);
+    if (actual.coverage < MIN_ACTUAL_COVERAGE) {
+      results.push({
+        participationId: participation.id,
+        siteId: participation.siteId,
+        settled: false,
+        reason: `Readings cover ${Math.round(actual.coverage * 100)}% of the event`,
+        baseline,
+      });
+      continue;
+    }
+
+    const reductionKw = baseline.baselineKw - actual.averageKw;
+    const incentive = calculateIncentive(program, event, reductionKw);
+
+    await db
+      .update(siteEventParticipations)
+      .set({
+        baselineConsumption: baseline.baselineKw.toFixed(3),
+        actualConsumption: actual.averageKw.toFixed(3),
+        reductionAchieved: reductionKw.toFixed(3),
+        incentiveEarned: incentive.toFixed(2),
+        updatedAt: new Date(),
+      })
+      .where(eq(siteEventParticipations.id, participation.id));
+
+    await apportionReduction(participation.id, reductionKw);
+
+    results.push({
+      participationId: participation.id,
+      siteId: participation.siteId,
+      settled: true,
+      baseline,
+      actualKw: actual.averageKw,
+      reductionKw,
+      incentive,
+    });
+  }
+
+  const settled = results.filter((result) => result.settled);
+  const actualReductionKw = settled.length > 0
+    ? settled.reduce((sum, result) => sum + result.reductionKw!, 0)
+    : null;
+
+  if (actualReductionKw != null) {
+    await db
+      .update(demandResponseEvents)
+      .set({ actualReduction: actualReductionKw.toFixed(3), updatedAt: new Date() })
+      .where(eq(demandResponseEvents.id, event.id));
+  }
+
+  return { eventId: event.id, actualReductionKw, participations: results };
+}
+
+/**
+ * Incentive for a reduction. `fixed` programs pay the rate per kW reduced,
+ * `variable` and `tiered` programs per kWh over the event, `tiered` taking
+ * the rate of the highest tier in `incentiveDetails.tiers`
+ * (`{ minReduction, rate }`) the reduction reaches.
+ */
+export function calculateIncentive(
+  program: DemandResponseProgram | null,
+  event: DemandResponseEvent,
+  reductionKw: number
+): number {
+  if (!program || reductionKw <= 0) return 0;
+  if (program.minReductionAmount != null && reductionKw < Number(program.minReductionAmount)) return 0;
+
+  const paidKw = program.maxReductionAmount != null
+    ? Math.min(reductionKw, Number(program.maxReductionAmount))
+    : reductionKw;
+  const hours = (event.endTime.getTime() - event.startTime.getTime()) / HOUR_MS;
+  const modifier = Number(event.incentiveModifier ?? 1);
+
+  let rate = Number(program.incentiveRate ?? 0);
+  const tiers = (program.incentiveDetails as any)?.tiers;
+  if (program.incentiveType === 'tiered' && Array.isArray(tiers)) {
+    const tier = tiers
+      .filter((candidate: any) => Number(candidate.minReduction ?? 0) <= reductionKw)
+      .sort((a: any, b: any) => Number(b.minReduction ?? 0) - Number(a.minReduction ?? 0))[0];
+    if (tier) rate = Number(tier.rate);
+  }
+
+  const amount = program.incentiveType === 'fixed' ? rate * paidKw : rate * paidKw * hours;
+  return Math.max(amount * modifier, 0);
+}
+
+/**
+ * Advance events through their lifecycle: notify, start, end and settle
+ */
+export async function processDemandResponseEvents(): Promise<void> {
+  if (processing) return;
+  processing = true;
+
+  try {
+    const now = new Date();
+
+    const openEvents = await db
+      .select()
+      .from(demandResponseEvents)
+      .where(inArray(demandResponseEvents.status, ['scheduled', 'pending', 'active']));
+
+    for (const event of openEvents) {
+      try {
+        if (event.endTime <= now) {
+          await endEvent(event);
+        } else if (event.startTime <= now) {
+          if (event.status !== 'active') await startEvent(event);
+        } else if (event.status === 'scheduled' && (await getNotificationTime(event)) <= now) {
+          await prepareEvent(event);
+          await setEventStatus(event.id, 'pending');
+        }
+      } catch (error) {
+        console.error(`Error executing demand response event ${event.id}:`, error);
+      }
+    }
+
+    // Cancelled events may still have devices curtailed
+    const cancelledWithActions = await db
+      .selectDistinct({ event: demandResponseEvents })
+      .from(demandResponseEvents)
+      .innerJoin(siteEventParticipations, eq(siteEventParticipations.eventId, demandResponseEvents.id))
+      .innerJoin(demandResponseActions, eq(demandResponseActions.participationId, siteEventParticipations.id))
+      .where(and(
+        eq(demandResponseEvents.status, 'cancelled'),
+        inArray(demandResponseActions.status, ['scheduled', 'in_progress'])
+      ));
+
+    for (const { event } of cancelledWithActions) {
+      try {
+        await endEvent(event);
+      } catch (error) {
+        console.error(`Error restoring devices for cancelled event ${event.id}:`, error);
+      }
+    }
+
+    const unsettled = await db
+      .selectDistinct({ event: demandResponseEvents })
+      .from(demandResponseEvents)
+      .innerJoin(siteEventParticipations, eq(siteEventParticipations.eventId, demandResponseEvents.id))
+      .where(and(
+        eq(demandResponseEvents.status, 'completed'),
+        gte(demandResponseEvents.endTime, new Date(now.getTime() - SETTLEMENT_LOOKBACK)),
+        lte(demandResponseEvents.endTime, new Date(now.getTime() - SETTLEMENT_DELAY)),
+        ne(siteEventParticipations.participationStatus, 'opt_out'),
+        isNull(siteEventParticipations.reductionAchieved)
+      ));
+
+    for (const { event } of unsettled) {
+      try {
+        const settlement = await settleEvent(event);
+        for (const result of settlement.participations.filter((participation) => !participation.settled)) {
+          console.warn(`Demand response event ${event.id} not settled for site ${result.siteId}: ${result.reason}`);
+        }
+      } catch (error) {
+        console.error(`Error settling demand response event ${event.id}:`, error);
+      }
+    }
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * Start executing demand response events on a fixed interval
+ */
+export function initDemandResponseService(): void {
+  if (tickTimer) return;
+
+  tickTimer = setInterval(() => {
+    processDemandResponseEvents().catch(error => {
+      console.error('Error processing demand response events:', error);
+    });
+  }, TICK_INTERVAL);
+
+  console.log('Demand response service initialized');
+}
+
+async function getProgram(programId: number | null): Promise<DemandResponseProgram | null> {
+  if (!programId) return null;
+  const [program] = await db.select().from(demandResponsePrograms).where(eq(demandResponsePrograms.id, programId));
+  return program ?? null;
+}
+
+function getProgramBaselineMethod(program: DemandResponseProgram | null): BaselineMethod {
+  const method = (program?.incentiveDetails as any)?.baselineMethod;
+  return isBaselineMethod(method) ? method : '10_of_10';
+}
+
+// Sites are notified at the event's notification time, or the program's
+// lead time before the start
+async function getNotificationTime(event: DemandResponseEvent): Promise<Date> {
+  if (event.notificationTime) return event.notificationTime;
+
+  const program = await getProgram(event.programId);
+  const leadMinutes = program?.notificationLeadTime ?? 0;
+  return new Date(event.startTime.getTime() - leadMinutes * 60 * 1000);
+}
+
+// Reduction to plan for, capped by what the site offers. Infinity when
+// neither is set, in which case every eligible device responds.
+function getTargetReduction(event: DemandResponseEvent, settings: SiteDemandResponseSetting | undefined): number {
+  const target = event.targetReduction != null ? Number(event.targetReduction) : Infinity;
+  const capacity = settings?.maxReductionCapacity != null ? Number(settings.maxReductionCapacity) : Infinity;
+  return Math.min(target, capacity);
+}
+
+async function planActions(
+  event: DemandResponseEvent,
+  participation: SiteEventParticipation,
+  settings: SiteDemandResponseSetting | undefined
+) {
+  const strategy: ResponseStrategy = { ...DEFAULT_STRATEGY, ...((settings?.responseStrategy as ResponseStrategy) || {}) };
+  const priorities = (settings?.devicePriorities as Record<string, number>) || {};
+
+  const candidates = (await storage.getDevicesBySite(participation.siteId))
+    .filter((device) => {
+      const type = RESPONSE_TYPES[device.type];
+      return type && strategy[type.strategy] && !UNAVAILABLE_STATUSES.includes(device.status);
+    })
+    .sort((a, b) => {
+      const priorityA = priorities[a.id] ?? Infinity;
+      const priorityB = priorities[b.id] ?? Infinity;
+      if (priorityA !== priorityB) return priorityA < priorityB ? -1 : 1;
+      return RESPONSE_TYPES[a.type]!.order - RESPONSE_TYPES[b.type]!.order;
+    });
+
+  let remainingKw = getTargetReduction(event, settings);
+  const actions = [];
+
+  for (const device of candidates) {
+    if (remainingKw <= 0) break;
+
+    const type = RESPONSE_TYPES[device.type]!;
+    const estimate = await estimateReduction(device, type, remainingKw, strategy);
+    if (!estimate || estimate.reductionKw <= 0) continue;
+
+    actions.push({
+      participationId: participation.id,
+      deviceId: device.id,
+      actionType: type.actionType,
+      setPoint: estimate.setPoint != null ? estimate.setPoint.toFixed(2) : null,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      estimatedReduction: estimate.reductionKw.toFixed(3),
+      status: 'scheduled',
+    });
+    remainingKw -= estimate.reductionKw;
+  }
+
+  return actions;
+}
+
+// Load a device can shed, from its latest reading or its rated capacity
+async function estimateReduction(
+  device: Device,
+  type: ResponseType,
+  remainingKw: number,
+  strategy: ResponseStrategy
+): Promise<{ reductionKw: number; setPoint: number | null } | null> {
+  const [reading] = await storage.getDeviceReadings(device.id, 1);
+  const recent = reading?.timestamp && Date.now() - reading.timestamp.getTime() <= RECENT_READING_MS ? reading : undefined;
+  const settings = (device.settings as any) || {};
+
+  if (type.actionType === 'battery_discharge') {
+    if (recent?.stateOfCharge != null && Number(recent.stateOfCharge) < MIN_DISCHARGE_SOC) return null;
+
+    const maxKw = Number(settings.maxDischargeRate ?? settings.maxPower ?? Number(device.capacity || 0) * DEFAULT_BATTERY_C_RATE);
+    const powerKw = Math.min(maxKw, remainingKw);
+    return { reductionKw: powerKw, setPoint: powerKw };
+  }
+
+  const loadKw = recent?.power != null ? Math.abs(Number(recent.power)) : Number(device.capacity || 0);
+
+  if (type.actionType === 'setpoint_adjustment') {
+    return {
+      reductionKw: loadKw * HVAC_REDUCTION_SHARE,
+      setPoint: strategy.hvacSetpointOffset ?? DEFAULT_SETPOINT_OFFSET,
+    };
+  }
+
+  return { reductionKw: loadKw, setPoint: 0 };
+}
+
+function getResponseType(actionType: string): ResponseType | undefined {
+  return Object.values(RESPONSE_TYPES).find((type) => type!.actionType === actionType);
+}
+
+function getCommandParameters(event: DemandResponseEvent, action: DemandResponseAction, restore: boolean): Record<string, any> {
+  const setPoint = Number(action.setPoint ?? 0);
+
+  switch (action.actionType) {
+    case 'battery_discharge':
+      return restore ? { eventId: event.id } : { eventId: event.id, powerKw: setPoint, until: event.endTime.toISOString() };
+    case 'setpoint_adjustment':
+      return { eventId: event.id, offset: restore ? 0 : setPoint };
+    default:
+      return restore ? { eventId: event.id } : { eventId: event.id, powerKw: 0, until: event.endTime.toISOString() };
+  }
+}
+
+function isAccepted(outcome: CommandOutcome): boolean {
+  return outcome.status === 'executed' || outcome.status === 'queued' || outcome.status === 'pending_approval';
+}
+
+function describeOutcome(outcome: CommandOutcome): string {
+  return outcome.status === 'denied' || outcome.status === 'failed' ? outcome.reason : outcome.status;
+}
+
+async function getEventActions(eventId: number, statuses: string[]): Promise<DemandResponseAction[]> {
+  const rows = await db
+    .select({ action: demandResponseActions })
+    .from(demandResponseActions)
+    .innerJoin(siteEventParticipations, eq(siteEventParticipations.id, demandResponseActions.participationId))
+    .where(and(eq(siteEventParticipations.eventId, eventId), inArray(demandResponseActions.status, statuses)));
+
+  return rows.map((row) => row.action);
+}
+
+async function updateAction(id: number, values: Partial<DemandResponseAction>): Promise<DemandResponseAction> {
+  const [action] = await db
+    .update(demandResponseActions)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(demandResponseActions.id, id))
+    .returning();
+  return action;
+}
+
+async function setEventStatus(id: number, status: NonNullable<DemandResponseEvent['status']>): Promise<void> {
+  await db
+    .update(demandResponseEvents)
+    .set({ status, updatedAt: new Date() })
+    .where(eq(demandResponseEvents.id, id));
+}
+
+// Site-level reduction split across the dispatched actions by their estimates
+async function apportionReduction(participationId: number, reductionKw: number): Promise<void> {
+  const actions = (await db
+    .select()
+    .from(demandResponseActions)
+    .where(eq(demandResponseActions.participationId, participationId)))
+    .filter((action) => action.status === 'completed' || action.status === 'in_progress');
+
+  const estimatedKw = actions.reduce((sum, action) => sum + Number(action.estimatedReduction ?? 0), 0);
+  if (estimatedKw <= 0) return;
+
+  for (const action of actions) {
+    const share = Number(action.estimatedReduction ?? 0) / estimatedKw;
+    await updateAction(action.id, { actualReduction: (Math.max(reductionKw, 0) * share).toFixed(3) });
+  }
+}
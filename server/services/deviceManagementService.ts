@@ -3,12 +3,15 @@ import { createHash, randomBytes, timingSafeEqual } from 'crypto';
 import { getMqttService, formatDeviceTopic, formatTopic } from './mqttService';
 import { TOPIC_PATTERNS } from '@shared/messageSchema';
 import { getModbusManager, ModbusDevice } from '../adapters/modbusAdapter';
-import { enhancedModbusManager } from '../adapters/enhancedModbusAdapter';
+import { enhancedModbusManager, type ModbusDevice as EnhancedModbusDevice } from '../adapters/enhancedModbusAdapter';
+import type { ModbusRegisterConfig } from '../adapters/modbusRegisterMap';
 import { ocppManager, OcppChargePointConfig as OCPPDevice } from '../adapters/ocppAdapter';
 import { getEEBusManager, EEBusDevice } from '../adapters/eebusAdapter';
 import { sunspecManager, SunSpecDeviceConfig as SunSpecDevice } from '../adapters/sunspecAdapter';
 import { getTCPIPManager, TCPIPDevice } from '../adapters/tcpipAdapter';
 import { getGatewayManager, GatewayDevice, GatewayDeviceType } from '../adapters/gatewayAdapter';
+import { executeCommand, SYSTEM_ACTOR } from './commandGatewayService';
+import { getCatalogRegisterMap } from './registerMapService';
 
 // Device types supported by the system
 export type DeviceType = 'solar_pv' | 'battery_storage' | 'ev_charger' | 'smart_meter' | 'heat_pump' | 'gateway' | 'generic';
@@ -31,6 +34,7 @@ export interface Device {
   manufacturer: string;
   serialNumber: string;
   firmwareVersion: string;
+  catalogId?: number;      // Device catalog model, whose registers replace protocolConfig.registers
   protocol: ProtocolType;
   protocolConfig: any;
   status: DeviceStatus;
@@ -549,8 +553,9 @@ class DeviceRegistry {
     return mockDevices;
   }
   
-  // Helper to get default registers based on device type (for Modbus devices)
-  private getDefaultRegistersForDeviceType(type: DeviceType): any[] {
+  // Helper to get default registers based on device type, for Modbus devices
+  // not linked to a catalog model
+  private getDefaultRegistersForDeviceType(type: DeviceType): ModbusRegisterConfig[] {
     switch (type) {
       case 'solar_pv':
         return [
@@ -1153,13 +1158,28 @@ export class DeviceManagementService {
   
   // Initialize a Modbus device
   private async initializeModbusDevice(device: Device): Promise<void> {
-    if (!device.protocolConfig.connection || !device.protocolConfig.registers) {
+    // Devices linked to a catalog model are polled with its register map
+    let registers: ModbusRegisterConfig[] | undefined = device.protocolConfig.registers;
+    if (device.catalogId !== undefined) {
+      try {
+        const catalogRegisters = await getCatalogRegisterMap(device.catalogId);
+        if (catalogRegisters.length > 0) {
+          registers = catalogRegisters;
+        } else {
+          console.warn(`Catalog model ${device.catalogId} of device ${device.id} has no Modbus registers`);
+        }
+      } catch (error) {
+        console.error(`Error loading catalog registers for device ${device.id}:`, error);
+      }
+    }
+    
+    if (!device.protocolConfig.connection || !registers) {
       console.error(`Invalid Modbus configuration for device ${device.id}`);
       return;
     }
     
     // Create enhanced Modbus device configuration
-    const modbusDevice: ModbusDevice = {
+    const modbusDevice: EnhancedModbusDevice = {
       id: device.id,
       name: device.name,
       deviceType: device.type,
@@ -1173,15 +1193,7 @@ export class DeviceManagementService {
         timeout: device.protocolConfig.connection.timeout || 5000,
         mockMode: this.inDevelopment || device.protocolConfig.connection.type === 'mock'
       },
-      registers: device.protocolConfig.registers.map(reg => ({
-        name: reg.name,
-        address: reg.address,
-        type: reg.dataType,
-        length: reg.length,
-        scaling: reg.scale,
-        unit: reg.unit,
-        description: reg.description || reg.name
-      })),
+      registers,
       scanInterval: device.protocolConfig.scanInterval || 5000
     };
     
@@ -1199,7 +1211,7 @@ export class DeviceManagementService {
           id: device.id,
           address: device.protocolConfig.address,
           connection: device.protocolConfig.connection,
-          registers: device.protocolConfig.registers,
+          registers,
           scanInterval: device.protocolConfig.scanInterval || 5000
         };
         
@@ -1398,15 +1410,21 @@ export class DeviceManagementService {
     console.log(`Sending command to device ${deviceId} (${device.type}): ${JSON.stringify(command)}`);
     
     try {
-      // For MQTT devices, publish to the command topic
+      // MQTT commands go through the command gateway, which audits them and
+      // queues them so they survive the device being offline
       if (device.protocol === 'mqtt') {
-        const commandTopic = formatTopic(TOPIC_PATTERNS.COMMANDS, { deviceId: deviceId.toString() });
-        await this.mqttService.publish(commandTopic, {
-          messageType: 'command',
-          timestamp: new Date().toISOString(),
-          command,
-          deviceId
-        });
+        const commandName = typeof command === 'string' ? command : command.command || command.action || 'command';
+        const outcome = await executeCommand(
+          SYSTEM_ACTOR,
+          deviceId,
+          commandName,
+          typeof command === 'string' ? {} : command,
+          { priority: typeof command === 'object' ? command.priority : undefined }
+        );
+        if (outcome.status !== 'executed' && outcome.status !== 'queued') {
+          console.warn(`Command ${commandName} for device ${deviceId} was not accepted: ${'reason' in outcome ? outcome.reason : outcome.status}`);
+          return false;
+        }
         return true;
       }
       
@@ -1,6 +1,9 @@
 import { storage } from '../storage';
-import { Device, DeviceReading, insertDeviceReadingSchema } from '@shared/schema';
-import { broadcastDeviceReading } from './websocketService';
+import { Device, DeviceReading } from '@shared/schema';
+import { processDeviceStatusChange } from './alarmService';
+import { getMqttService } from './mqttService';
+import { ingestTelemetry, type IngestionOptions, type TelemetryIngestionResult } from './telemetryIngestionService';
+import { executeCommand, SYSTEM_ACTOR, type CommandActor } from './commandGatewayService';
 
 // Get all devices for a site
 export async function getDevicesBySite(siteId: number): Promise<Device[]> {
@@ -28,14 +31,18 @@ export async function updateDeviceStatus(
     return undefined;
   }
   
-  return await storage.updateDevice(deviceId, { status: status as any });
+  const updated = await storage.updateDevice(deviceId, { status: status as any });
+  await processDeviceStatusChange(deviceId, device.status, status);
+  
+  return updated;
 }
 
-// Process device telemetry data
+// Process device telemetry data through the ingestion pipeline
 export async function processDeviceTelemetry(
   deviceId: number,
-  telemetry: any
-): Promise<DeviceReading | undefined> {
+  telemetry: any,
+  options: IngestionOptions = {}
+): Promise<TelemetryIngestionResult | undefined> {
   try {
     // Validate the device exists
     const device = await storage.getDevice(deviceId);
@@ -45,32 +52,32 @@ export async function processDeviceTelemetry(
       return undefined;
     }
     
-    // Prepare reading data
-    const readingData = {
-      deviceId,
-      timestamp: new Date(),
-      ...telemetry
-    };
-    
-    // Validate and create reading
-    const validatedData = insertDeviceReadingSchema.parse(readingData);
-    const reading = await storage.createDeviceReading(validatedData);
-    
-    // Broadcast to subscribed clients
-    broadcastDeviceReading(deviceId, reading);
+    const result = await ingestTelemetry(device, telemetry, options);
     
     // Update device status if it was offline
-    if (device.status === 'offline') {
+    if (result.accepted > 0 && device.status === 'offline') {
       await storage.updateDevice(deviceId, { status: 'online' });
+      await processDeviceStatusChange(deviceId, device.status, 'online');
     }
     
-    return reading;
+    return result;
   } catch (error) {
     console.error('Error processing device telemetry:', error);
     return undefined;
   }
 }
 
+// Store the telemetry devices publish over MQTT
+export function initDeviceTelemetryIngestion(): void {
+  getMqttService().addMessageHandler('devices/:deviceId/telemetry', (topic, message, params) => {
+    const deviceId = parseInt(params.deviceId, 10);
+    if (isNaN(deviceId) || !message || typeof message !== 'object') return;
+    
+    // The WebSocket publisher already relays MQTT telemetry live
+    processDeviceTelemetry(deviceId, message, { broadcast: false });
+  });
+}
+
 // Get recent device readings with limit
 export async function getRecentDeviceReadings(
   deviceId: number,
@@ -115,19 +122,22 @@ export async function checkDeviceConnection(deviceId: number): Promise<boolean>
   // Update device status if needed
   if (isOnline && device.status !== 'online') {
     await storage.updateDevice(deviceId, { status: 'online' });
+    await processDeviceStatusChange(deviceId, device.status, 'online');
   } else if (!isOnline && device.status === 'online') {
     await storage.updateDevice(deviceId, { status: 'offline' });
+    await processDeviceStatusChange(deviceId, device.status, 'offline', 'No readings received in the last 5 minutes');
   }
   
   return isOnline;
 }
 
-// Send control command to device
-// This would integrate with actual device control protocols
+// Send control command to device through the command gateway
+// Commands issued without an actor are treated as system automation
 export async function sendDeviceCommand(
   deviceId: number,
   command: string,
-  parameters: any
+  parameters: any,
+  actor: CommandActor = SYSTEM_ACTOR
 ): Promise<boolean> {
   const device = await storage.getDevice(deviceId);
   
@@ -136,9 +146,11 @@ export async function sendDeviceCommand(
     return false;
   }
   
-  console.log(`Sending command to device ${deviceId}:`, command, parameters);
+  const outcome = await executeCommand(actor, deviceId, command, parameters);
+  const accepted = outcome.status === 'executed' || outcome.status === 'queued';
+  if (!accepted) {
+    console.warn(`Command ${command} for device ${deviceId} was not executed: ${outcome.status}`);
+  }
   
-  // Implementation would depend on the specific device protocol
-  // For now, we'll just log it and return success
-  return true;
+  return accepted;
 }
@@ -0,0 +1,414 @@
+/**
+ * Energy Balance Service
+ *
+ * Derives a site's energy readings from the telemetry of its devices. Each
+ * device reading stored by processDeviceTelemetry is streamed in here and
+ * assigned by device type to one flow of the site balance:
+ *
+ * - grid: smart meters at the connection point, positive when importing
+ * - solar: PV systems, positive when producing
+ * - battery: batteries, positive when discharging
+ * - ev: EV chargers, positive when charging
+ *
+ * Each device's power is held from one reading to the next and integrated
+ * into energy over fixed, clock-aligned intervals. When an interval closes the
+ * site gets one energy reading with the average power and energy of every
+ * flow. Home load is not metered; it is inferred as the residual
+ *
+ *   home = grid + solar + battery - ev
+ *
+ * Self-sufficiency, carbon and cost follow from the balance, priced with the
+ * site's tariff at the middle of the interval. An interval in which a device
+ * did not report throughout (a reading older than STALE_AFTER is not held) is
+ * extrapolated from the part that was measured, or counted as zero, and the
+ * reading is marked `estimated`. Readings are stored, broadcast to WebSocket
+ * subscribers of the site and published on `sites/{siteId}/energy`.
+ */
+
+import type { Device, DeviceReading, EnergyReading, InsertEnergyReading } from '@shared/schema';
+import { TOPIC_PATTERNS } from '@shared/messageSchema';
+import { storage } from '../storage';
+import { calculateSelfSufficiency, createEnergyReading } from './energyService';
+import { getMqttService, formatSiteTopic } from './mqttService';
+import { getSiteTariffContext, resolveRate } from './tariffEngine';
+
+type EnergyFlow = 'grid' | 'solar' | 'battery' | 'ev';
+
+// Energy of one device within the open interval
+interface DeviceInterval {
+  energyKwh: number;
+  positiveKwh: number; // Import, production, discharge or charging
+  negativeKwh: number; // Export, consumption, charging or discharge, as a positive number
+  coveredMs: number;
+}
+
+interface DeviceState {
+  flow: EnergyFlow;
+  powerKw: number | null;
+  readingAt: number; // Time of the last reading
+  integratedTo: number; // Time up to which its power has been integrated
+  interval: DeviceInterval;
+}
+
+interface SiteState {
+  siteId: number;
+  intervalStart: number;
+  intervalEnd: number;
+  devices: Map<number, DeviceState>;
+  peakGridKw: number | null;
+  readingCount: number;
+}
+
+// Device energy of an interval that has ended
+interface ClosedInterval {
+  siteId: number;
+  start: number;
+  end: number;
+  devices: Array<{ deviceId: number; flow: EnergyFlow; interval: DeviceInterval }>;
+  peakGridKw: number | null;
+  readingCount: number;
+}
+
+// Totals of one flow over a closed interval
+interface FlowBalance {
+  energyKwh: number;
+  positiveKwh: number;
+  negativeKwh: number;
+  deviceCount: number;
+}
+
+// Energy balance of a site over one closed interval
+interface SiteEnergyBalance {
+  siteId: number;
+  start: Date;
+  end: Date;
+  flows: Record<EnergyFlow, FlowBalance>;
+  homeKwh: number | null;
+  peakGridKw: number | null;
+  readingCount: number;
+  estimated: boolean;
+  missingDeviceIds: number[];
+}
+
+// Length of the intervals readings are aggregated over
+const INTERVAL_MS = 5 * 60 * 1000;
+
+// How often open intervals are checked for closing
+const TICK_INTERVAL = 15 * 1000;
+
+// A device's last reading is held for at most this long
+const STALE_AFTER = 15 * 60 * 1000;
+
+// Grid carbon intensity (kg CO2 per kWh imported)
+const GRID_CARBON_INTENSITY = 0.5;
+
+// Device types measuring each flow. Loads such as heat pumps are part of the home residual.
+const DEVICE_FLOWS: Partial<Record<Device['type'], EnergyFlow>> = {
+  smart_meter: 'grid',
+  solar_pv: 'solar',
+  battery_storage: 'battery',
+  ev_charger: 'ev',
+  bidirectional_ev_charger: 'ev',
+};
+
+const FLOWS: EnergyFlow[] = ['grid', 'solar', 'battery', 'ev'];
+
+const sites = new Map<number, SiteState>();
+let tickTimer: NodeJS.Timeout | null = null;
+
+export function initEnergyBalanceService(): void {
+  if (tickTimer) return;
+
+  tickTimer = setInterval(() => {
+    closeDueIntervals(Date.now()).catch(error => {
+      console.error('Error closing energy balance intervals:', error);
+    });
+  }, TICK_INTERVAL);
+
+  console.log('Energy balance service initialized');
+}
+
+/**
+ * Add a stored device reading to its site's open interval. Readings of
+ * devices that do not measure a flow of the balance are ignored.
+ */
+export function recordDeviceReading(device: Device, reading: DeviceReading): void {
+  const flow = DEVICE_FLOWS[device.type];
+  if (!flow || reading.power == null) return;
+
+  const powerKw = Number(reading.power);
+  if (!Number.isFinite(powerKw)) return;
+
+  const now = Date.now();
+  const at = Math.min(reading.timestamp ? reading.timestamp.getTime() : now, now);
+
+  // Close the intervals that ended before this reading so it lands in the right
+  // one; they are rolled over at once and stored in the background
+  closeDueIntervals(at).catch(error => {
+    console.error('Error closing energy balance intervals:', error);
+  });
+
+  let site = sites.get(device.siteId);
+  if (!site) {
+    const intervalStart = Math.floor(at / INTERVAL_MS) * INTERVAL_MS;
+    site = {
+      siteId: device.siteId,
+      intervalStart,
+      intervalEnd: intervalStart + INTERVAL_MS,
+      devices: new Map(),
+      peakGridKw: null,
+      readingCount: 0,
+    };
+    sites.set(device.siteId, site);
+  }
+
+  let state = site.devices.get(device.id);
+  if (!state) {
+    state = { flow, powerKw: null, readingAt: at, integratedTo: at, interval: emptyInterval() };
+    site.devices.set(device.id, state);
+  }
+
+  integrateTo(state, at);
+
+  // Late readings update the held power but are not integrated backwards
+  if (at >= state.readingAt) {
+    state.powerKw = powerKw;
+    state.readingAt = at;
+    state.integratedTo = Math.max(state.integratedTo, at, site.intervalStart);
+  }
+  site.readingCount++;
+
+  if (flow === 'grid') {
+    const gridKw = sumHeldPower(site, 'grid');
+    site.peakGridKw = site.peakGridKw == null ? gridKw : Math.max(site.peakGridKw, gridKw);
+  }
+}
+
+// Close every interval that has ended by `now` and store one energy reading
+// per site and interval. Intervals are rolled over before anything is awaited
+// so concurrent callers never close the same one twice.
+async function closeDueIntervals(now: number): Promise<void> {
+  const closed: ClosedInterval[] = [];
+  for (const site of Array.from(sites.values())) {
+    while (now >= site.intervalEnd) {
+      const interval = rollInterval(site);
+      // Sites whose devices all went quiet are dropped until they report again
+      if (!interval.devices.some(device => device.interval.coveredMs > 0)) {
+        sites.delete(site.siteId);
+        break;
+      }
+      closed.push(interval);
+    }
+  }
+
+  for (const interval of closed) {
+    await storeInterval(interval);
+  }
+}
+
+// Finish the open interval of a site and start the next one, holding each
+// device's power across the boundary
+function rollInterval(site: SiteState): ClosedInterval {
+  const end = site.intervalEnd;
+  const devices = Array.from(site.devices.entries()).map(([deviceId, state]) => {
+    integrateTo(state, end);
+    const interval = state.interval;
+    state.interval = emptyInterval();
+    return { deviceId, flow: state.flow, interval };
+  });
+
+  const closed: ClosedInterval = {
+    siteId: site.siteId,
+    start: site.intervalStart,
+    end,
+    devices,
+    peakGridKw: site.peakGridKw,
+    readingCount: site.readingCount,
+  };
+
+  site.intervalStart = end;
+  site.intervalEnd = end + INTERVAL_MS;
+  site.peakGridKw = null;
+  site.readingCount = 0;
+  return closed;
+}
+
+// Hold a device's last power from where it was last integrated up to `to`,
+// within the open interval and no longer than STALE_AFTER past the reading
+function integrateTo(state: DeviceState, to: number): void {
+  if (state.powerKw == null) return;
+
+  const until = Math.min(to, state.readingAt + STALE_AFTER);
+  if (until <= state.integratedTo) return;
+
+  const hours = (until - state.integratedTo) / 3600000;
+  const energyKwh = state.powerKw * hours;
+  state.interval.energyKwh += energyKwh;
+  state.interval.positiveKwh += Math.max(0, energyKwh);
+  state.interval.negativeKwh += Math.max(0, -energyKwh);
+  state.interval.coveredMs += until - state.integratedTo;
+  state.integratedTo = until;
+}
+
+// Balance of a closed interval. Devices of the site that never reported count
+// as missing inputs of the flows they measure.
+function summarizeInterval(closed: ClosedInterval, silentDevices: Device[]): SiteEnergyBalance {
+  const durationMs = closed.end - closed.start;
+  const flows = {} as Record<EnergyFlow, FlowBalance>;
+  FLOWS.forEach(flow => {
+    flows[flow] = { energyKwh: 0, positiveKwh: 0, negativeKwh: 0, deviceCount: 0 };
+  });
+
+  const missingDeviceIds = silentDevices.map(device => device.id);
+  silentDevices.forEach(device => {
+    flows[DEVICE_FLOWS[device.type]!].deviceCount++;
+  });
+
+  for (const { deviceId, flow: deviceFlow, interval } of closed.devices) {
+    const flow = flows[deviceFlow];
+    flow.deviceCount++;
+
+    if (interval.coveredMs < durationMs) {
+      missingDeviceIds.push(deviceId);
+    }
+    if (interval.coveredMs <= 0) continue;
+
+    // Extrapolate the measured part of the interval to all of it
+    const scale = durationMs / interval.coveredMs;
+    flow.energyKwh += interval.energyKwh * scale;
+    flow.positiveKwh += interval.positiveKwh * scale;
+    flow.negativeKwh += interval.negativeKwh * scale;
+  }
+
+  // Without a grid meter the home load cannot be inferred
+  let estimated = missingDeviceIds.length > 0;
+  let homeKwh: number | null = null;
+  if (flows.grid.deviceCount > 0) {
+    homeKwh = flows.grid.energyKwh + flows.solar.energyKwh + flows.battery.energyKwh - flows.ev.energyKwh;
+    // A negative residual means the meters disagree; there is no home load to report
+    if (homeKwh < 0) {
+      homeKwh = 0;
+      estimated = true;
+    }
+  } else {
+    estimated = true;
+  }
+
+  return {
+    siteId: closed.siteId,
+    start: new Date(closed.start),
+    end: new Date(closed.end),
+    flows,
+    homeKwh,
+    peakGridKw: closed.peakGridKw,
+    readingCount: closed.readingCount,
+    estimated,
+    missingDeviceIds,
+  };
+}
+
+// Store a closed interval as an energy reading and publish it
+async function storeInterval(closed: ClosedInterval): Promise<EnergyReading | undefined> {
+  try {
+    const siteDevices = await storage.getDevicesBySite(closed.siteId);
+    const silentDevices = siteDevices.filter(device => DEVICE_FLOWS[device.type] && !closed.devices.some(({ deviceId }) => deviceId === device.id));
+    const balance = summarizeInterval(closed, silentDevices);
+    const reading = await createEnergyReading(await toEnergyReading(balance));
+
+    try {
+      await getMqttService().publish(formatSiteTopic(TOPIC_PATTERNS.SITE_ENERGY, balance.siteId), reading);
+    } catch (error) {
+      console.error(`Error publishing energy reading for site ${closed.siteId}:`, error);
+    }
+
+    return reading;
+  } catch (error) {
+    console.error(`Error storing energy balance for site ${closed.siteId}:`, error);
+    return undefined;
+  }
+}
+
+async function toEnergyReading(balance: SiteEnergyBalance): Promise<InsertEnergyReading> {
+  const { flows, homeKwh } = balance;
+  const hours = (balance.end.getTime() - balance.start.getTime()) / 3600000;
+  const hasGrid = flows.grid.deviceCount > 0;
+  const flowKwh = (flow: EnergyFlow) => (flows[flow].deviceCount > 0 ? flows[flow].energyKwh : null);
+  const averageKw = (kwh: number | null) => (kwh != null ? round(kwh / hours) : null);
+
+  const importKwh = flows.grid.positiveKwh;
+  const exportKwh = flows.grid.negativeKwh;
+  const consumptionKwh = homeKwh != null ? homeKwh + Math.max(0, flows.ev.energyKwh) : null;
+
+  // Cost of the grid exchange, and what the site would have paid importing all its consumption
+  let gridCost: number | null = null;
+  let costSaving: number | null = null;
+  let rate: { importRate: number; exportRate: number; periodName: string; currency: string } | null = null;
+  const context = hasGrid ? await getSiteTariffContext(balance.siteId) : null;
+  if (context) {
+    const midpoint = new Date((balance.start.getTime() + balance.end.getTime()) / 2);
+    rate = resolveRate(context, midpoint);
+    gridCost = importKwh * rate.importRate - exportKwh * rate.exportRate;
+    if (consumptionKwh != null) {
+      costSaving = consumptionKwh * rate.importRate - gridCost;
+    }
+  }
+
+  return {
+    siteId: balance.siteId,
+    timestamp: balance.end,
+    gridPower: averageKw(flowKwh('grid')),
+    solarPower: averageKw(flowKwh('solar')),
+    batteryPower: averageKw(flowKwh('battery')),
+    evPower: averageKw(flowKwh('ev')),
+    homePower: averageKw(homeKwh),
+    gridEnergy: roundOrNull(flowKwh('grid')),
+    solarEnergy: roundOrNull(flowKwh('solar')),
+    batteryEnergy: roundOrNull(flowKwh('battery')),
+    evEnergy: roundOrNull(flowKwh('ev')),
+    homeEnergy: roundOrNull(homeKwh),
+    selfSufficiency: consumptionKwh != null ? round(calculateSelfSufficiency(consumptionKwh, importKwh)) : null,
+    carbon: hasGrid ? round(importKwh * GRID_CARBON_INTENSITY) : null,
+    peakPower: toNumeric(balance.peakGridKw),
+    gridCost: toNumeric(gridCost),
+    costSaving: toNumeric(costSaving),
+    samplingRate: 'low',
+    dataQuality: balance.estimated ? 'estimated' : 'aggregated',
+    isAggregated: true,
+    aggregationPeriod: `${INTERVAL_MS / 60000}m`,
+    aggregationMethod: 'time_weighted_average',
+    sourceReadings: {
+      readingCount: balance.readingCount,
+      deviceCounts: Object.fromEntries(FLOWS.map(flow => [flow, flows[flow].deviceCount])),
+      missingDeviceIds: balance.missingDeviceIds,
+    },
+    additionalData: {
+      intervalStart: balance.start.toISOString(),
+      importEnergy: hasGrid ? round(importKwh) : null,
+      exportEnergy: hasGrid ? round(exportKwh) : null,
+      tariffRate: rate,
+    },
+  };
+}
+
+function sumHeldPower(site: SiteState, flow: EnergyFlow): number {
+  return Array.from(site.devices.values())
+    .filter(state => state.flow === flow && state.powerKw != null)
+    .reduce((sum, state) => sum + state.powerKw!, 0);
+}
+
+function emptyInterval(): DeviceInterval {
+  return { energyKwh: 0, positiveKwh: 0, negativeKwh: 0, coveredMs: 0 };
+}
+
+function round(value: number, decimals: number = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function roundOrNull(value: number | null): number | null {
+  return value != null ? round(value) : null;
+}
+
+function toNumeric(value: number | null): string | null {
+  return value != null && Number.isFinite(value) ? String(round(value)) : null;
+}
@@ -1,40 +1,40 @@
-import { initAiOptimizationService } from './ai-optimization';
+import type { TariffPeriodType } from '@shared/tariffSchema';
+import { getRateSchedule, getSeasonRateRange, getSiteTariffContext, resolveRate } from './tariffEngine';
+
+export interface PriceForecast {
+  time: string;
+  price: number;
+  exportPrice: number;
+  periodType: TariffPeriodType;
+  period: string;
+}
 
 /**
  * Energy Price Service
- * 
+ *
  * This service handles energy pricing data, including:
- * - Real-time price fetching
+ * - Current prices
  * - Price forecasting
  * - Time-of-Use (TOU) tariffs
- * - Dynamic pricing
  * - Historical pricing data
+ *
+ * Prices are resolved from the site's tariff by the tariff engine, in the
+ * site's local time.
  */
 export class EnergyPriceService {
   private static instance: EnergyPriceService;
-  
+
   // Cache for price data
   private priceCache: Map<number, {
     currentPrice: number;
-    priceForecasts: any[];
+    priceForecasts: PriceForecast[];
     lastUpdated: Date;
   }> = new Map();
-  
-  // Time of Use periods by site
-  private touPeriods: Map<number, any[]> = new Map();
-  
+
   // Price update interval in ms (5 minutes)
   private readonly UPDATE_INTERVAL = 5 * 60 * 1000;
-  
-  // Tariff types for sites
-  private siteTariffs: Map<number, {
-    type: 'fixed' | 'tou' | 'dynamic';
-    details: any;
-  }> = new Map();
 
   private constructor() {
-    this.initializeDemoData();
-    
     // Set up periodic price updates
     setInterval(() => {
       this.updateAllPrices();
@@ -51,73 +51,20 @@ export class EnergyPriceService {
     return EnergyPriceService.instance;
   }
 
-  /**
-   * Initialize with demo data
-   */
-  private initializeDemoData(): void {
-    console.log('Initializing Energy Price Service with demo data...');
-    
-    // Demo site 1 - TOU tariff
-    this.siteTariffs.set(1, {
-      type: 'tou',
-      details: {
-        providerName: 'EnergyUtility',
-        planName: 'Time of Use Plan',
-        currency: 'USD',
-        unit: 'kWh'
-      }
-    });
-    
-    // Set up TOU periods for site 1
-    this.touPeriods.set(1, [
-      {
-        type: 'off_peak',
-        price: 0.08,
-        startTime: '00:00',
-        endTime: '06:00',
-        daysOfWeek: [0, 1, 2, 3, 4, 5, 6] // All days
-      },
-      {
-        type: 'standard',
-        price: 0.15,
-        startTime: '06:00',
-        endTime: '16:00',
-        daysOfWeek: [0, 1, 2, 3, 4, 5, 6] // All days
-      },
-      {
-        type: 'peak',
-        price: 0.32,
-        startTime: '16:00',
-        endTime: '20:00',
-        daysOfWeek: [0, 1, 2, 3, 4, 5, 6] // All days
-      },
-      {
-        type: 'standard',
-        price: 0.15,
-        startTime: '20:00',
-        endTime: '24:00',
-        daysOfWeek: [0, 1, 2, 3, 4, 5, 6] // All days
-      }
-    ]);
-    
-    // Generate initial price forecasts for site 1
-    this.updatePriceForecasts(1);
-  }
-
   /**
    * Get the current energy price for a site
    */
   public async getCurrentPrice(siteId: number): Promise<number> {
     const cacheData = this.priceCache.get(siteId);
-    
+
     // Check if cache is valid (not older than 5 minutes)
     if (cacheData && (new Date().getTime() - cacheData.lastUpdated.getTime() < this.UPDATE_INTERVAL)) {
       return cacheData.currentPrice;
     }
-    
+
     // Update price data
     await this.updatePriceForecasts(siteId);
-    
+
     // Return from cache (which should now be updated)
     const updatedCacheData = this.priceCache.get(siteId);
     return updatedCacheData ? updatedCacheData.currentPrice : 0;
@@ -126,43 +73,32 @@ export class EnergyPriceService {
   /**
    * Get price forecast for a specified number of hours ahead
    */
-  public async getPriceForecast(siteId: number, hours: number = 24): Promise<any[]> {
+  public async getPriceForecast(siteId: number, hours: number = 24): Promise<PriceForecast[]> {
     const cacheData = this.priceCache.get(siteId);
-    
+
     // Check if cache is valid (not older than 5 minutes)
     if (cacheData && (new Date().getTime() - cacheData.lastUpdated.getTime() < this.UPDATE_INTERVAL)) {
       return cacheData.priceForecasts.slice(0, hours);
     }
-    
+
     // Update price data
     await this.updatePriceForecasts(siteId);
-    
+
     // Return from cache (which should now be updated)
     const updatedCacheData = this.priceCache.get(siteId);
     return updatedCacheData ? updatedCacheData.priceForecasts.slice(0, hours) : [];
   }
 
   /**
-   * Get Time of Use periods for a site
-   */
-  public async getTOUPeriods(siteId: number): Promise<any[]> {
-    return this.touPeriods.get(siteId) || [];
-  }
-  
-  /**
-   * Get time-of-use prices for a site
+   * Get time-of-use prices for a site in the current season
    */
   public async getPrices(siteId: number): Promise<{peak: number, standard: number, offPeak: number}> {
-    const tariff = this.siteTariffs.get(siteId);
-    
-    if (tariff && tariff.type === 'tou' && tariff.details) {
-      return {
-        peak: tariff.details.peakRate || 0.25,
-        standard: tariff.details.standardRate || 0.15,
-        offPeak: tariff.details.offPeakRate || 0.08
-      };
+    const context = await getSiteTariffContext(siteId);
+
+    if (context) {
+      return getSeasonRateRange(context);
     }
-    
+
     // Default time-of-use rates if site doesn't have specific tariff
     return {
       peak: 0.25,      // $/kWh
@@ -171,18 +107,11 @@ export class EnergyPriceService {
     };
   }
 
-  /**
-   * Get tariff information for a site
-   */
-  public getTariffInfo(siteId: number): any {
-    return this.siteTariffs.get(siteId) || { type: 'fixed', details: { price: 0.15 } };
-  }
-
   /**
    * Update prices for all sites
    */
   private async updateAllPrices(): Promise<void> {
-    for (const siteId of this.siteTariffs.keys()) {
+    for (const siteId of this.priceCache.keys()) {
       await this.updatePriceForecasts(siteId);
     }
   }
@@ -192,305 +121,52 @@ export class EnergyPriceService {
    */
   private async updatePriceForecasts(siteId: number): Promise<void> {
     try {
-      const tariffInfo = this.siteTariffs.get(siteId);
-      
-      if (!tariffInfo) {
+      const context = await getSiteTariffContext(siteId);
+
+      if (!context) {
         console.log(`No tariff information found for site ${siteId}`);
         return;
       }
-      
-      let currentPrice = 0;
-      let priceForecasts: any[] = [];
-      
-      switch (tariffInfo.type) {
-        case 'fixed':
-          currentPrice = tariffInfo.details.price || 0.15;
-          priceForecasts = this.generateFixedPriceForecasts(currentPrice);
-          break;
-          
-        case 'tou':
-          const touPeriods = this.touPeriods.get(siteId) || [];
-          currentPrice = this.getCurrentTOUPrice(touPeriods);
-          priceForecasts = this.generateTOUPriceForecasts(touPeriods);
-          break;
-          
-        case 'dynamic':
-          // For dynamic pricing, we would fetch from an external API
-          // For demo, we'll generate random prices with a trend
-          const result = await this.generateDynamicPriceForecasts();
-          currentPrice = result.currentPrice;
-          priceForecasts = result.forecasts;
-          break;
-      }
-      
+
+      const now = new Date();
+      const priceForecasts = getRateSchedule(context, now, 24).map(rate => ({
+        time: rate.time,
+        price: rate.importRate,
+        exportPrice: rate.exportRate,
+        periodType: rate.periodType,
+        period: rate.period
+      }));
+
       // Update cache
       this.priceCache.set(siteId, {
-        currentPrice,
+        currentPrice: resolveRate(context, now).importRate,
         priceForecasts,
-        lastUpdated: new Date()
-      });
-      
-    } catch (error) {
-      console.error(`Error updating price forecasts for site ${siteId}:`, error);
-    }
-  }
-
-  /**
-   * Get the current price based on Time of Use periods
-   */
-  private getCurrentTOUPrice(touPeriods: any[]): number {
-    const now = new Date();
-    const currentHour = now.getHours();
-    const currentMinute = now.getMinutes();
-    const currentTime = `${currentHour.toString().padStart(2, '0')}:${currentMinute.toString().padStart(2, '0')}`;
-    const currentDay = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    
-    // Find the matching TOU period
-    const matchingPeriod = touPeriods.find(period => {
-      // Check if today is in the days of week for this period
-      if (!period.daysOfWeek.includes(currentDay)) {
-        return false;
-      }
-      
-      // Check if current time is within the period's time range
-      return currentTime >= period.startTime && currentTime < period.endTime;
-    });
-    
-    return matchingPeriod ? matchingPeriod.price : 0.15; // Default to 0.15 if no match
-  }
-
-  /**
-   * Generate fixed price forecasts
-   */
-  private generateFixedPriceForecasts(price: number): any[] {
-    const forecasts = [];
-    const now = new Date();
-    
-    for (let hour = 0; hour < 24; hour++) {
-      const forecastTime = new Date(now);
-      forecastTime.setHours(now.getHours() + hour);
-      
-      forecasts.push({
-        time: forecastTime.toISOString(),
-        price
-      });
-    }
-    
-    return forecasts;
-  }
-
-  /**
-   * Generate Time of Use price forecasts
-   */
-  private generateTOUPriceForecasts(touPeriods: any[]): any[] {
-    const forecasts = [];
-    const now = new Date();
-    
-    for (let hour = 0; hour < 24; hour++) {
-      const forecastTime = new Date(now);
-      forecastTime.setHours(now.getHours() + hour);
-      
-      const forecastHour = forecastTime.getHours();
-      const forecastMinute = forecastTime.getMinutes();
-      const forecastTimeStr = `${forecastHour.toString().padStart(2, '0')}:${forecastMinute.toString().padStart(2, '0')}`;
-      const forecastDay = forecastTime.getDay();
-      
-      // Find the matching TOU period
-      const matchingPeriod = touPeriods.find(period => {
-        // Check if forecast day is in the days of week for this period
-        if (!period.daysOfWeek.includes(forecastDay)) {
-          return false;
-        }
-        
-        // Check if forecast time is within the period's time range
-        return forecastTimeStr >= period.startTime && forecastTimeStr < period.endTime;
+        lastUpdated: now
       });
-      
-      forecasts.push({
-        time: forecastTime.toISOString(),
-        price: matchingPeriod ? matchingPeriod.price : 0.15,
-        periodType: matchingPeriod ? matchingPeriod.type : 'standard'
-      });
-    }
-    
-    return forecasts;
-  }
 
-  /**
-   * Generate dynamic price forecasts
-   * In a real implementation, this would fetch from market data APIs
-   */
-  private async generateDynamicPriceForecasts(): Promise<{ currentPrice: number, forecasts: any[] }> {
-    const forecasts = [];
-    const now = new Date();
-    
-    // Base price and volatility
-    const basePrice = 0.12;
-    const volatility = 0.08;
-    
-    // Add time-of-day pattern (higher during peak hours)
-    const peakHourBoost = 0.15;
-    
-    // Add some random price shocks
-    const hasShock = Math.random() > 0.7;
-    const shockHour = Math.floor(Math.random() * 24);
-    const shockMagnitude = Math.random() * 0.2 + 0.1;
-    
-    // Try to use AI for optimized forecasting if available
-    try {
-      const aiService = initAiOptimizationService();
-      const aiForecasts = await aiService.generatePriceForecasts({
-        basePrice,
-        volatility,
-        peakHourBoost
-      });
-      
-      if (aiForecasts && aiForecasts.length > 0) {
-        return {
-          currentPrice: aiForecasts[0].price,
-          forecasts: aiForecasts
-        };
-      }
     } catch (error) {
-      console.log('AI price forecasting not available, using fallback method');
-    }
-    
-    // Fallback to algorithmic forecasting
-    let currentPrice = 0;
-    
-    for (let hour = 0; hour < 24; hour++) {
-      const forecastTime = new Date(now);
-      forecastTime.setHours(now.getHours() + hour);
-      const forecastHour = forecastTime.getHours();
-      
-      // Calculate price with patterns
-      let price = basePrice;
-      
-      // Add daily pattern (higher during day)
-      if (forecastHour >= 8 && forecastHour <= 20) {
-        price += 0.04;
-      }
-      
-      // Add peak hours boost (5pm - 9pm)
-      if (forecastHour >= 17 && forecastHour <= 21) {
-        price += peakHourBoost;
-      }
-      
-      // Add overnight dip (1am - 5am)
-      if (forecastHour >= 1 && forecastHour <= 5) {
-        price -= 0.05;
-      }
-      
-      // Add random variation
-      price += (Math.random() * 2 - 1) * volatility;
-      
-      // Add price shock if applicable
-      if (hasShock && hour === shockHour) {
-        price += shockMagnitude;
-      }
-      
-      // Ensure price is non-negative
-      price = Math.max(0.01, price);
-      
-      // Round to 4 decimal places
-      price = Math.round(price * 10000) / 10000;
-      
-      forecasts.push({
-        time: forecastTime.toISOString(),
-        price
-      });
-      
-      // Set current price from first forecast
-      if (hour === 0) {
-        currentPrice = price;
-      }
+      console.error(`Error updating price forecasts for site ${siteId}:`, error);
     }
-    
-    return {
-      currentPrice,
-      forecasts
-    };
   }
 
   /**
    * Get historical price data for a site
    */
   public async getHistoricalPrices(siteId: number, startDate: Date, endDate: Date): Promise<any[]> {
-    // In a real implementation, this would fetch from a database
-    // For demo purposes, we'll generate synthetic data based on the tariff type
-    
-    const tariffInfo = this.siteTariffs.get(siteId);
-    if (!tariffInfo) {
+    // Tariff prices are deterministic, so past prices are resolved from the
+    // site's current tariff hour by hour
+    const context = await getSiteTariffContext(siteId);
+    if (!context || endDate < startDate) {
       return [];
     }
-    
-    const priceHistory = [];
-    const currentDate = new Date(startDate);
-    
-    while (currentDate <= endDate) {
-      let price = 0;
-      
-      switch (tariffInfo.type) {
-        case 'fixed':
-          price = tariffInfo.details.price || 0.15;
-          break;
-          
-        case 'tou':
-          const touPeriods = this.touPeriods.get(siteId) || [];
-          const hour = currentDate.getHours();
-          const minute = currentDate.getMinutes();
-          const timeStr = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-          const day = currentDate.getDay();
-          
-          const matchingPeriod = touPeriods.find(period => {
-            return period.daysOfWeek.includes(day) && 
-                   timeStr >= period.startTime && 
-                   timeStr < period.endTime;
-          });
-          
-          price = matchingPeriod ? matchingPeriod.price : 0.15;
-          break;
-          
-        case 'dynamic':
-          // Generate pseudo-random historical prices with patterns
-          const basePrice = 0.12;
-          const hourOfDay = currentDate.getHours();
-          const dayOfWeek = currentDate.getDay();
-          const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
-          
-          price = basePrice;
-          
-          // Add time-of-day pattern
-          if (hourOfDay >= 17 && hourOfDay <= 21) {
-            price += 0.08; // Evening peak
-          } else if (hourOfDay >= 1 && hourOfDay <= 5) {
-            price -= 0.05; // Overnight dip
-          }
-          
-          // Weekend pricing tends to be lower
-          if (isWeekend) {
-            price -= 0.03;
-          }
-          
-          // Add some randomness
-          price += (Math.random() * 0.06) - 0.03;
-          
-          // Ensure price is non-negative and round
-          price = Math.max(0.01, price);
-          price = Math.round(price * 10000) / 10000;
-          break;
-      }
-      
-      priceHistory.push({
-        timestamp: new Date(currentDate).toISOString(),
-        price
-      });
-      
-      // Move to next hour
-      currentDate.setHours(currentDate.getHours() + 1);
-    }
-    
-    return priceHistory;
+
+    const hours = Math.floor((endDate.getTime() - startDate.getTime()) / (60 * 60 * 1000)) + 1;
+
+    return getRateSchedule(context, startDate, hours).map(rate => ({
+      timestamp: rate.time,
+      price: rate.importRate,
+      periodType: rate.periodType
+    }));
   }
 }
 
@@ -499,4 +175,4 @@ export class EnergyPriceService {
  */
 export function getEnergyPriceService(): EnergyPriceService {
   return EnergyPriceService.getInstance();
-}
\ No newline at end of file
+}
@@ -0,0 +1,379 @@
+/**
+ * EV Load Balancer Service
+ *
+ * Shares a site's grid connection between the EV chargers connected to the
+ * CSMS. Every few seconds the current left for charging is worked out from
+ * the site limit and the live grid power, less what the chargers themselves
+ * draw, and divided between the connectors with a transaction in progress:
+ *
+ * - fair_share: equally, pausing the newest sessions when there is not
+ *   enough for each to get the minimum charging current
+ * - priority: in order of the charging priority of the session's ID tag,
+ *   then by arrival
+ * - solar_only: equally, from the surplus that would otherwise be exported
+ *
+ * Limits are sent as short-lived TxProfile charging profiles. Each charger
+ * is also given a TxDefaultProfile at the fallback current when it connects,
+ * so if the TxProfiles stop being refreshed, because the charger lost its
+ * connection or this service stopped, they lapse and the charger falls back
+ * to the safe limit. Connectors are held at the fallback current while the
+ * site meter is not reporting.
+ */
+
+import { db } from '../db';
+import {
+  devices,
+  evLoadBalancingSettings,
+  gridConnections,
+  ocppIdTags,
+  type EvLoadBalancingSetting,
+  type InsertEvLoadBalancingSetting,
+} from '@shared/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { storage } from '../storage';
+import type { ChargingProfile } from '../adapters/ocppAdapter';
+import { executeCommand, SYSTEM_ACTOR } from './commandGatewayService';
+import {
+  getActiveTransactions,
+  getChargePoint,
+  getChargePointConnectedAt,
+  type ActiveTransaction,
+} from './ocppCsmsService';
+
+export type LoadBalancingMode = 'fair_share' | 'priority' | 'solar_only';
+
+export interface ConnectorAllocation {
+  deviceId: number;
+  connectorId: number;
+  sessionId: number;
+  idTag: string | null;
+  priority: number;
+  measuredKw: number | null;
+  limitA: number;
+}
+
+export interface SiteLoadBalancingStatus {
+  siteId: number;
+  mode: LoadBalancingMode;
+  computedAt: Date;
+  siteLimitA: number | null; // Per phase, before the safety margin
+  availableA: number; // Per phase, for all connectors together
+  baseLoadKw: number | null; // Site grid power excluding the chargers
+  usingFallback: boolean;
+  connectors: ConnectorAllocation[];
+}
+
+interface Candidate {
+  deviceId: number;
+  ocppVersion: string | null;
+  transaction: ActiveTransaction;
+  priority: number;
+}
+
+interface SiteSupply {
+  limitA: number | null;
+  voltage: number;
+  phases: number;
+}
+
+const TICK_INTERVAL = 5000;
+const PROFILE_VALIDITY = 60; // seconds a TxProfile stays in force without a refresh
+const REFRESH_AFTER = 30000; // Unchanged limits are re-sent well before they lapse
+const MIN_LIMIT_CHANGE = 0.5; // A
+const METER_STALE_AFTER = 30000;
+const DEFAULT_VOLTAGE = 230;
+const EV_CHARGER_TYPES = ['ev_charger', 'bidirectional_ev_charger'] as const;
+
+// Profile IDs owned by the load balancer; a charger replaces a profile sent again with the same ID
+const TX_PROFILE_ID = 7100; // Plus the connector ID
+const DEFAULT_PROFILE_ID = 7000;
+
+let tickTimer: NodeJS.Timeout | null = null;
+let processing = false;
+
+const siteStatus = new Map<number, SiteLoadBalancingStatus>();
+const sentLimits = new Map<string, { limitA: number; sentAt: number }>();
+const installedDefaults = new Map<number, string>();
+
+export async function getLoadBalancingSettings(siteId: number): Promise<EvLoadBalancingSetting | undefined> {
+  const [settings] = await db.select().from(evLoadBalancingSettings).where(eq(evLoadBalancingSettings.siteId, siteId));
+  return settings;
+}
+
+export async function saveLoadBalancingSettings(siteId: number, data: Partial<InsertEvLoadBalancingSetting>): Promise<EvLoadBalancingSetting> {
+  const [settings] = await db
+    .insert(evLoadBalancingSettings)
+    .values({ ...data, siteId })
+    .onConflictDoUpdate({
+      target: evLoadBalancingSettings.siteId,
+      set: { ...data, updatedAt: new Date() },
+    })
+    .returning();
+
+  if (!settings.enabled) siteStatus.delete(siteId);
+  return settings;
+}
+
+/**
+ * The allocation made for a site on the last tick
+ */
+export function getLoadBalancingStatus(siteId: number): SiteLoadBalancingStatus | undefined {
+  return siteStatus.get(siteId);
+}
+
+/**
+ * Recompute and send the charging limits of every site with load balancing
+ * enabled
+ */
+export async function processSites(): Promise<void> {
+  if (processing) return;
+  processing = true;
+
+  try {
+    const enabled = await db.select().from(evLoadBalancingSettings).where(eq(evLoadBalancingSettings.enabled, true));
+    const activeKeys = new Set<string>();
+
+    for (const settings of enabled) {
+      try {
+        const status = await balanceSite(settings);
+        status.connectors.forEach((connector) => activeKeys.add(limitKey(connector.deviceId, connector.sessionId)));
+      } catch (error) {
+        console.error(`Error balancing EV charging for site ${settings.siteId}:`, error);
+      }
+    }
+
+    Array.from(sentLimits.keys())
+      .filter((key) => !activeKeys.has(key))
+      .forEach((key) => sentLimits.delete(key));
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * Divide the current available at a site between its charging connectors
+ * and send the resulting limits
+ */
+export async function balanceSite(settings: EvLoadBalancingSetting): Promise<SiteLoadBalancingStatus> {
+  const mode = settings.mode as LoadBalancingMode;
+  const supply = await getSiteSupply(settings);
+  const candidates = await getCandidates(settings);
+
+  const margin = Number(settings.safetyMargin ?? 0);
+  const minA = Number(settings.minChargingCurrent ?? 6);
+  const maxA = Number(settings.maxChargingCurrent ?? 32);
+  const fallbackA = Number(settings.fallbackCurrent ?? 6);
+  const headroomA = supply.limitA != null ? Math.max(supply.limitA - margin, 0) : Infinity;
+
+  // Sorting is stable, so sessions of equal priority stay in order of arrival
+  const ordered = mode === 'priority' ? [...candidates].sort((a, b) => b.priority - a.priority) : candidates;
+
+  const reading = await storage.getLatestEnergyReading(settings.siteId);
+  const meterFresh = !!reading?.timestamp && Date.now() - reading.timestamp.getTime() <= METER_STALE_AFTER && reading.gridPower != null;
+
+  let baseLoadKw: number | null = null;
+  let availableA: number;
+  let limits: number[];
+  const usingFallback = !meterFresh || supply.limitA == null;
+
+  if (usingFallback) {
+    // Without a live load or a known limit, share what is safe at the fallback current
+    availableA = Math.min(headroomA, fallbackA * ordered.length);
+    limits = shareEqually(ordered.length, availableA, minA, fallbackA);
+  } else {
+    const chargingKw = ordered.reduce((sum, candidate) => sum + (candidate.transaction.powerKw ?? 0), 0);
+    baseLoadKw = Number(reading!.gridPower) - chargingKw;
+    const baseLoadA = baseLoadKw * 1000 / (supply.voltage * supply.phases);
+
+    availableA = mode === 'solar_only'
+      ? Math.min(Math.max(-baseLoadA, 0), headroomA)
+      : Math.min(Math.max(headroomA - baseLoadA, 0), headroomA);
+    limits = mode === 'priority'
+      ? shareByPriority(ordered.length, availableA, minA, maxA)
+      : shareEqually(ordered.length, availableA, minA, maxA);
+  }
+
+  const connectors: ConnectorAllocation[] = ordered.map((candidate, index) => ({
+    deviceId: candidate.deviceId,
+    connectorId: candidate.transaction.connectorId,
+    sessionId: candidate.transaction.session.id,
+    idTag: candidate.transaction.idTag,
+    priority: candidate.priority,
+    measuredKw: candidate.transaction.powerKw,
+    limitA: limits[index] ?? 0,
+  }));
+
+  for (const deviceId of Array.from(new Set(ordered.map((candidate) => candidate.deviceId)))) {
+    await installDefaultProfile(deviceId, fallbackA, supply.phases);
+  }
+  for (let index = 0; index < ordered.length; index++) {
+    await sendLimit(ordered[index], connectors[index].limitA, supply.phases);
+  }
+
+  const status: SiteLoadBalancingStatus = {
+    siteId: settings.siteId,
+    mode,
+    computedAt: new Date(),
+    siteLimitA: supply.limitA,
+    availableA: Number.isFinite(availableA) ? roundCurrent(availableA) : 0,
+    baseLoadKw: baseLoadKw != null ? Number(baseLoadKw.toFixed(3)) : null,
+    usingFallback,
+    connectors,
+  };
+  siteStatus.set(settings.siteId, status);
+  return status;
+}
+
+/**
+ * Start recomputing charging limits on a fixed interval
+ */
+export function initEvLoadBalancerService(): void {
+  if (tickTimer) return;
+
+  tickTimer = setInterval(() => {
+    processSites().catch(error => {
+      console.error('Error processing EV load balancing:', error);
+    });
+  }, TICK_INTERVAL);
+
+  console.log('EV load balancer service initialized');
+}
+
+// The site limit in A per phase: the configured override, the grid connection capacity, or the connection point rating in kW
+async function getSiteSupply(settings: EvLoadBalancingSetting): Promise<SiteSupply> {
+  const [connection] = await db.select().from(gridConnections).where(eq(gridConnections.siteId, settings.siteId)).limit(1);
+  const voltage = Number(connection?.voltage) || DEFAULT_VOLTAGE;
+  const phases = connection?.phases || 1;
+
+  if (settings.maxSiteCurrent != null) {
+    return { limitA: Number(settings.maxSiteCurrent), voltage, phases };
+  }
+  if (connection?.capacity != null) {
+    return { limitA: Number(connection.capacity), voltage, phases };
+  }
+
+  const site = await storage.getSite(settings.siteId);
+  const limitA = site?.gridConnectionPoint != null ? Number(site.gridConnectionPoint) * 1000 / (voltage * phases) : null;
+  return { limitA, voltage, phases };
+}
+
+// Transactions in progress on the site's connected chargers, oldest first
+async function getCandidates(settings: EvLoadBalancingSetting): Promise<Candidate[]> {
+  const chargers = await db
+    .select({ id: devices.id })
+    .from(devices)
+    .where(and(eq(devices.siteId, settings.siteId), inArray(devices.type, [...EV_CHARGER_TYPES])));
+
+  const candidates: Omit<Candidate, 'priority'>[] = [];
+  for (const charger of chargers) {
+    if (!getChargePointConnectedAt(charger.id)) continue;
+
+    const chargePoint = await getChargePoint(charger.id);
+    const transactions = await getActiveTransactions(charger.id);
+    transactions
+      .filter((transaction) => transaction.connectorId > 0)
+      .forEach((transaction) => candidates.push({ deviceId: charger.id, ocppVersion: chargePoint?.ocppVersion ?? null, transaction }));
+  }
+
+  const idTags = candidates.map((candidate) => candidate.transaction.idTag).filter((tag): tag is string => !!tag);
+  const tags = idTags.length > 0 ? await db.select().from(ocppIdTags).where(inArray(ocppIdTags.idTag, idTags)) : [];
+  const priorities = new Map(tags.map((tag) => [tag.idTag, tag.chargingPriority]));
+
+  return candidates
+    .map((candidate) => ({ ...candidate, priority: priorities.get(candidate.transaction.idTag ?? '') ?? 0 }))
+    .sort((a, b) => a.transaction.session.startTime.getTime() - b.transaction.session.startTime.getTime());
+}
+
+// Give as many connectors as can have the minimum an equal share; the rest are paused
+function shareEqually(count: number, availableA: number, minA: number, maxA: number): number[] {
+  const served = Math.min(count, Math.floor(availableA / minA));
+  const share = served > 0 ? roundCurrent(Math.min(maxA, availableA / served)) : 0;
+  return Array.from({ length: count }, (_, index) => (index < served ? share : 0));
+}
+
+// Fill connectors in order up to the maximum; one left less than the minimum is paused
+function shareByPriority(count: number, availableA: number, minA: number, maxA: number): number[] {
+  let remaining = availableA;
+  return Array.from({ length: count }, () => {
+    const limit = roundCurrent(Math.min(maxA, remaining));
+    if (limit < minA) return 0;
+    remaining -= limit;
+    return limit;
+  });
+}
+
+// Chargers accept limits in tenths of an ampere; round down to stay within the budget
+function roundCurrent(current: number): number {
+  return Math.floor(current * 10) / 10;
+}
+
+function limitKey(deviceId: number, sessionId: number): string {
+  return `${deviceId}/${sessionId}`;
+}
+
+// Install the limit a charger falls back to when its TxProfiles lapse, once per connection
+async function installDefaultProfile(deviceId: number, fallbackA: number, phases: number): Promise<void> {
+  const connectedAt = getChargePointConnectedAt(deviceId);
+  const key = `${connectedAt?.getTime()}/${fallbackA}`;
+  if (!connectedAt || installedDefaults.get(deviceId) === key) return;
+
+  const chargingProfile: ChargingProfile = {
+    id: DEFAULT_PROFILE_ID,
+    stackLevel: 0,
+    chargingProfilePurpose: 'TxDefaultProfile',
+    chargingProfileKind: 'Relative',
+    chargingSchedule: {
+      chargingRateUnit: 'A',
+      chargingSchedulePeriods: [{ startPeriod: 0, limit: fallbackA, numberPhases: phases }],
+    },
+  };
+
+  const outcome = await executeCommand(SYSTEM_ACTOR, deviceId, 'ocpp.set_charging_profile', { connectorId: 0, chargingProfile });
+  if (outcome.status === 'executed') {
+    installedDefaults.set(deviceId, key);
+  } else {
+    console.warn(`Failed to install fallback charging limit on device ${deviceId}: ${'reason' in outcome ? outcome.reason : outcome.status}`);
+  }
+}
+
+// Send a connector's limit when it changes, or before the previous one lapses
+async function sendLimit(candidate: Candidate, limitA: number, phases: number): Promise<void> {
+  const { deviceId, transaction } = candidate;
+  const key = limitKey(deviceId, transaction.session.id);
+  const previous = sentLimits.get(key);
+  const now = Date.now();
+
+  if (previous && Math.abs(previous.limitA - limitA) < MIN_LIMIT_CHANGE && now - previous.sentAt < REFRESH_AFTER) {
+    return;
+  }
+
+  const chargingProfile: ChargingProfile = {
+    id: TX_PROFILE_ID + transaction.connectorId,
+    stackLevel: 1,
+    chargingProfilePurpose: 'TxProfile',
+    chargingProfileKind: 'Absolute',
+    transactionId: candidate.ocppVersion === '1.6' ? Number(transaction.transactionId) : transaction.transactionId,
+    validTo: new Date(now + PROFILE_VALIDITY * 1000).toISOString(),
+    chargingSchedule: {
+      startSchedule: new Date(now).toISOString(),
+      duration: PROFILE_VALIDITY,
+      chargingRateUnit: 'A',
+      chargingSchedulePeriods: [{ startPeriod: 0, limit: limitA, numberPhases: phases }],
+    },
+  };
+
+  const outcome = await executeCommand(
+    SYSTEM_ACTOR,
+    deviceId,
+    'ocpp.set_charging_profile',
+    { connectorId: transaction.connectorId, chargingProfile },
+    { expiresInSeconds: PROFILE_VALIDITY }
+  );
+
+  if (outcome.status === 'executed') {
+    sentLimits.set(key, { limitA, sentAt: now });
+  } else {
+    sentLimits.delete(key);
+    console.warn(`Failed to send charging limit to device ${deviceId} connector ${transaction.connectorId}: ${'reason' in outcome ? outcome.reason : outcome.status}`);
+  }
+}
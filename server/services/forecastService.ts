@@ -1,5 +1,6 @@
 import { storage } from '../storage';
 import { EnergyReading, InsertEnergyForecast, EnergyForecast } from '@shared/schema';
+import { getExpectedProduction, getSitePvSetup, getSiteWeatherLookup } from './pvProductionService';
 
 // Types for forecast intervals
 type ForecastInterval = '1h' | '6h' | '24h' | '7d' | '30d';
@@ -37,9 +38,18 @@ export async function generateEnergyForecast(
       // Proceed with default device assumptions
     }
     
+    // Model PV output from the site's location and arrays when they are known
+    const startTime = new Date();
+    let pvProduction: number[] | null = null;
+    try {
+      pvProduction = await forecastPvProduction(siteId, startTime, durationHours);
+    } catch (error) {
+      console.warn(`Failed to model PV production for site ${siteId}, using historical patterns:`, error);
+    }
+    
     // Calculate the forecast using available data and devices
     // Even if no historical data, we'll generate a basic forecast based on device capabilities
-    const forecast = calculateForecast(readings || [], devices || [], durationHours);
+    const forecast = calculateForecast(readings || [], devices || [], durationHours, startTime, pvProduction);
     
     console.log("Generated forecast with data:", 
       `Site ID: ${siteId}, `, 
@@ -84,13 +94,43 @@ function getForecastDurationHours(interval: ForecastInterval): number {
   }
 }
 
+/**
+ * Hourly PV production (kWh) from the solar model, using stored weather
+ * forecasts where available and clear sky otherwise. Null when the site has
+ * no coordinates or PV arrays.
+ */
+async function forecastPvProduction(
+  siteId: number,
+  startTime: Date,
+  durationHours: number
+): Promise<number[] | null> {
+  const setup = await getSitePvSetup(siteId);
+  if (!setup) {
+    return null;
+  }
+  
+  const endTime = new Date(startTime.getTime() + durationHours * 60 * 60 * 1000);
+  const weather = await getSiteWeatherLookup(siteId, startTime, endTime, true);
+  
+  const production: number[] = [];
+  for (let i = 0; i < durationHours; i++) {
+    const hourStart = new Date(startTime.getTime() + i * 60 * 60 * 1000);
+    const hourEnd = new Date(hourStart.getTime() + 60 * 60 * 1000);
+    production.push(getExpectedProduction(setup, hourStart, hourEnd, weather).expectedKwh);
+  }
+  
+  return production;
+}
+
 /**
  * Calculate forecast based on historical data and devices
  */
 function calculateForecast(
   readings: EnergyReading[], 
   devices: any[], 
-  durationHours: number
+  durationHours: number,
+  startTime: Date = new Date(),
+  pvProduction: number[] | null = null
 ): { 
   data: Record<string, number[]>, 
   accuracy: number, 
@@ -108,7 +148,7 @@ function calculateForecast(
   };
   
   // Current timestamp
-  const now = new Date();
+  const now = startTime;
   
   // Generate timestamps for the forecast period
   for (let i = 0; i < durationHours; i++) {
@@ -180,10 +220,10 @@ function calculateForecast(
     }
     
     // Adjust forecast based on device capabilities and state
-    adjustForecastWithDeviceData(data, devices);
+    adjustForecastWithDeviceData(data, devices, pvProduction);
   } else {
     // If we don't have enough data, use a simplified model
-    generateSimplifiedForecast(data, devices, durationHours);
+    generateSimplifiedForecast(data, devices, durationHours, pvProduction);
   }
   
   // Calculate forecast accuracy (mock value for now)
@@ -198,6 +238,10 @@ function calculateForecast(
     'Device capabilities and state'
   ];
   
+  if (pvProduction) {
+    factors.push('Solar position and plane-of-array irradiance model');
+  }
+  
   return { data, accuracy, factors };
 }
 
@@ -206,7 +250,8 @@ function calculateForecast(
  */
 function adjustForecastWithDeviceData(
   data: Record<string, number[]>,
-  devices: any[]
+  devices: any[],
+  pvProduction: number[] | null = null
 ): void {
   // Find solar panels to adjust production forecast
   const solarPanels = devices.filter(device => device.type === 'solar_pv');
@@ -221,8 +266,10 @@ function adjustForecastWithDeviceData(
     const date = new Date(data.timestamps[i]);
     const hour = date.getHours();
     
-    // Adjust solar production based on daylight hours
-    if (hour >= 6 && hour <= 18) {
+    // Use modelled PV output when available, otherwise daylight hours
+    if (pvProduction) {
+      data.production[i] = pvProduction[i];
+    } else if (hour >= 6 && hour <= 18) {
       // Peak sunlight hours are around noon
       const solarFactor = 1 - Math.abs(hour - 12) / 6;
       data.production[i] = Math.max(data.production[i], totalCapacity * solarFactor * 0.7);
@@ -259,7 +306,8 @@ function adjustForecastWithDeviceData(
 function generateSimplifiedForecast(
   data: Record<string, number[]>,
   devices: any[],
-  durationHours: number
+  durationHours: number,
+  pvProduction: number[] | null = null
 ): void {
   // Use device capabilities to create a baseline
   // If we have no devices, we'll use default values for a typical home
@@ -301,8 +349,10 @@ function generateSimplifiedForecast(
     
     data.consumption[i] = baseConsumption * consumptionFactor * randomFactor;
     
-    // Solar production based on capacity and time of day
-    if (totalSolarCapacity > 0) {
+    // Solar production from the PV model, or capacity and time of day
+    if (pvProduction) {
+      data.production[i] = pvProduction[i];
+    } else if (totalSolarCapacity > 0) {
       data.production[i] = totalSolarCapacity * productionFactor * randomFactor * 0.7; // ~70% efficiency
     } else {
       data.production[i] = 0;
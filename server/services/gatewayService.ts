@@ -13,6 +13,7 @@ import { EventEmitter } from 'events';
 import axios from 'axios';
 import net from 'net';
 import { createEventLog } from './eventLoggingService';
+import { processGatewayStatus } from './alarmService';
 import { z } from 'zod';
 
 // Define the InsertGatewayDevice type using the Zod schema
@@ -268,6 +269,12 @@ export class GatewayService {
     } else {
       gatewayEvents.emit('gateway:offline', gatewayId);
     }
+    
+    try {
+      await processGatewayStatus(gatewayId, gateway.connectionStatus === 'connected', status, error);
+    } catch (alarmError) {
+      console.error('Error processing gateway alarm:', alarmError);
+    }
   }
   
   /**
@@ -0,0 +1,423 @@
+/**
+ * MPC Controller Service
+ *
+ * Model predictive control of a site's batteries. Every interval the
+ * controller of each enabled site:
+ *
+ * 1. measures what the site actually did over the interval that just ended
+ * 2. re-reads the latest telemetry: battery SoC, and the site's load and PV,
+ *    which replace the forecast for the coming interval and correct the
+ *    following hours, fading out
+ * 3. re-solves the schedule over the horizon with the battery schedule
+ *    optimizer, starting with an interval as long as the re-planning period
+ * 4. sends the setpoints of that first interval only
+ *
+ * Each interval is recorded with its planned, executed (accepted by the
+ * batteries) and actual values so the tracking error can be followed.
+ * Batteries go back to normal operation when the controller is disabled or
+ * cannot produce a plan.
+ */
+
+import { db } from '../db';
+import {
+  mpcControllers,
+  mpcSteps,
+  type Device,
+  type EnergyReading,
+  type InsertMpcController,
+  type InsertMpcStep,
+  type MpcController,
+  type MpcStep,
+} from '@shared/schema';
+import { and, asc, desc, eq, gte, isNull, lte } from 'drizzle-orm';
+import { storage } from '../storage';
+import { executeCommand, SYSTEM_ACTOR } from './commandGatewayService';
+import {
+  getSiteScheduleInputs,
+  optimizeBatterySchedule,
+  type BatteryScheduleInputs,
+  type BatteryScheduleResult,
+  type ScheduledBattery,
+} from './batteryScheduleOptimizer';
+
+export interface MpcSetpoint {
+  deviceId: number;
+  action: 'charge' | 'discharge' | 'idle';
+  powerKw: number;
+  status: string; // Command outcome
+}
+
+export interface TrackingError {
+  samples: number;
+  meanAbsoluteError: number | null;
+  bias: number | null; // Mean of actual minus planned
+}
+
+export interface MpcHistory {
+  steps: MpcStep[];
+  tracking: {
+    execution: TrackingError; // Executed vs planned battery power
+    batteryPower: TrackingError;
+    gridPower: TrackingError;
+    load: TrackingError;
+    pv: TrackingError;
+    soc: TrackingError;
+  };
+}
+
+const TICK_INTERVAL = 60000;
+const READING_STALE_AFTER = 5 * 60 * 1000;
+const COMMAND_PRIORITY = 3;
+
+// Hours over which the forecast error measured now fades out of the forecast
+const FORECAST_ERROR_DECAY_HOURS = 2;
+const MAX_PV_CORRECTION = 2;
+
+// Intervals left unmeasured for longer than this are given up on
+const MEASUREMENT_WINDOW = 24 * 60 * 60 * 1000;
+
+let tickTimer: NodeJS.Timeout | null = null;
+let processing = false;
+
+const nextRunAt = new Map<number, number>();
+const controlledBatteries = new Map<number, Set<number>>();
+
+export async function getMpcController(siteId: number): Promise<MpcController | undefined> {
+  const [controller] = await db.select().from(mpcControllers).where(eq(mpcControllers.siteId, siteId));
+  return controller;
+}
+
+export async function saveMpcController(siteId: number, data: Partial<InsertMpcController>): Promise<MpcController> {
+  const [controller] = await db
+    .insert(mpcControllers)
+    .values({ ...data, siteId })
+    .onConflictDoUpdate({
+      target: mpcControllers.siteId,
+      set: { ...data, updatedAt: new Date() },
+    })
+    .returning();
+
+  // Re-plan straight away with the new settings
+  nextRunAt.delete(siteId);
+  if (!controller.enabled) {
+    await releaseBatteries(siteId);
+  }
+  return controller;
+}
+
+/**
+ * Controlled intervals of a site that started in a time range, oldest
+ * first, with the tracking error over those already measured
+ */
+export async function getMpcHistory(siteId: number, from: Date, to: Date): Promise<MpcHistory> {
+  const steps = await db
+    .select()
+    .from(mpcSteps)
+    .where(and(eq(mpcSteps.siteId, siteId), gte(mpcSteps.startTime, from), lte(mpcSteps.startTime, to)))
+    .orderBy(asc(mpcSteps.startTime));
+
+  return {
+    steps,
+    tracking: {
+      execution: getTrackingError(steps, (step) => [step.plannedBatteryPower, step.executedBatteryPower]),
+      batteryPower: getTrackingError(steps, (step) => [step.plannedBatteryPower, step.actualBatteryPower]),
+      gridPower: getTrackingError(steps, (step) => [step.plannedGridPower, step.actualGridPower]),
+      load: getTrackingError(steps, (step) => [step.plannedLoad, step.actualLoad]),
+      pv: getTrackingError(steps, (step) => [step.plannedPv, step.actualPv]),
+      soc: getTrackingError(steps, (step) => [step.plannedSoc, step.actualSoc]),
+    },
+  };
+}
+
+/**
+ * Re-plan every enabled site whose interval is over
+ */
+export async function processControllers(): Promise<void> {
+  if (processing) return;
+  processing = true;
+
+  try {
+    const enabled = await db.select().from(mpcControllers).where(eq(mpcControllers.enabled, true));
+    const enabledSites = new Set(enabled.map((controller) => controller.siteId));
+    const now = Date.now();
+
+    for (const controller of enabled) {
+      try {
+        if (now >= (await getNextRunAt(controller))) {
+          nextRunAt.set(controller.siteId, now + controller.intervalMinutes * 60 * 1000);
+          await runMpcStep(controller);
+        }
+      } catch (error) {
+        console.error(`Error running MPC step for site ${controller.siteId}:`, error);
+      }
+    }
+
+    // Hand back batteries of controllers disabled elsewhere
+    for (const siteId of Array.from(controlledBatteries.keys())) {
+      if (!enabledSites.has(siteId)) {
+        await releaseBatteries(siteId);
+      }
+    }
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * One MPC step for a site: measure the last interval, re-plan the horizon
+ * and send the first interval's setpoints. Null if there was nothing to plan.
+ */
+export async function runMpcStep(controller: MpcController): Promise<MpcStep | null> {
+  const { siteId, intervalMinutes, horizonHours } = controller;
+  const now = new Date();
+
+  const batteries = (await storage.getDevicesBySite(siteId)).filter((device) => device.type === 'battery_storage');
+  await measureSteps(siteId, batteries, now);
+
+  if (batteries.length === 0) {
+    console.log(`No batteries to control at site ${siteId}`);
+    return null;
+  }
+
+  const inputs = await getSiteScheduleInputs(siteId, batteries.map(toScheduledBattery), {
+    horizonHours,
+    firstIntervalMinutes: intervalMinutes,
+  });
+  if (!inputs) {
+    console.log(`No tariff to plan site ${siteId} with`);
+    await releaseBatteries(siteId);
+    return null;
+  }
+
+  const reading = await storage.getLatestEnergyReading(siteId);
+  if (isRecent(reading, now.getTime())) {
+    applyLiveTelemetry(inputs, Number(reading!.homePower ?? inputs.loadKw[0]), Number(reading!.solarPower ?? inputs.pvKw[0]));
+  }
+
+  const result = optimizeBatterySchedule(inputs);
+  const endTime = new Date(now.getTime() + inputs.intervalHours[0] * 60 * 60 * 1000);
+
+  let setpoints: MpcSetpoint[] = [];
+  if (result.schedules.length > 0) {
+    setpoints = await sendSetpoints(siteId, result, endTime);
+  } else {
+    console.warn(`MPC found no schedule for site ${siteId} (${result.status}), releasing its batteries`);
+    await releaseBatteries(siteId);
+  }
+
+  const [step] = await db.insert(mpcSteps).values(buildStep(siteId, now, endTime, inputs, result, batteries, setpoints)).returning();
+  return step;
+}
+
+export function initMpcControllerService(): void {
+  if (tickTimer) return;
+
+  tickTimer = setInterval(() => {
+    processControllers().catch(error => {
+      console.error('Error processing MPC controllers:', error);
+    });
+  }, TICK_INTERVAL);
+
+  console.log('MPC controller service initialized');
+}
+
+// When the site is next due, picking up from the last recorded interval after a restart
+async function getNextRunAt(controller: MpcController): Promise<number> {
+  const known = nextRunAt.get(controller.siteId);
+  if (known != null) return known;
+
+  const [last] = await db
+    .select()
+    .from(mpcSteps)
+    .where(eq(mpcSteps.siteId, controller.siteId))
+    .orderBy(desc(mpcSteps.startTime))
+    .limit(1);
+  return last ? last.endTime.getTime() : 0;
+}
+
+// Replace the first interval's forecast with the live measurement and carry
+// the error into the following hours: load as an offset, PV as a ratio so it
+// does not appear at night
+function applyLiveTelemetry(inputs: BatteryScheduleInputs, loadKw: number, pvKw: number): void {
+  const loadError = loadKw - inputs.loadKw[0];
+  const pvRatio = inputs.pvKw[0] > 0.1 ? Math.min(pvKw / inputs.pvKw[0], MAX_PV_CORRECTION) : 1;
+
+  let elapsedHours = 0;
+  inputs.loadKw.forEach((_, t) => {
+    const weight = Math.exp(-elapsedHours / FORECAST_ERROR_DECAY_HOURS);
+    inputs.loadKw[t] = Math.max(inputs.loadKw[t] + loadError * weight, 0);
+    inputs.pvKw[t] = Math.max(inputs.pvKw[t] * (1 + (pvRatio - 1) * weight), 0);
+    elapsedHours += inputs.intervalHours[t];
+  });
+
+  inputs.loadKw[0] = Math.max(loadKw, 0);
+  inputs.pvKw[0] = Math.max(pvKw, 0);
+}
+
+async function sendSetpoints(siteId: number, result: BatteryScheduleResult, endTime: Date): Promise<MpcSetpoint[]> {
+  const setpoints: MpcSetpoint[] = [];
+  const controlled = controlledBatteries.get(siteId) ?? new Set<number>();
+  controlledBatteries.set(siteId, controlled);
+
+  for (const { batteryId, schedule } of result.schedules) {
+    const { action, power } = schedule[0];
+    const powerKw = action === 'idle' ? 0 : power;
+    const commandType = action === 'discharge' ? 'set_discharge_power' : 'set_charge_power';
+
+    const outcome = await executeCommand(
+      SYSTEM_ACTOR,
+      batteryId,
+      commandType,
+      { powerKw, until: endTime.toISOString() },
+      { priority: COMMAND_PRIORITY, expiresInSeconds: Math.max(Math.round((endTime.getTime() - Date.now()) / 1000), 1) }
+    );
+
+    // Queued setpoints still need releasing, but only executed ones count as applied
+    if (outcome.status === 'executed' || outcome.status === 'queued') {
+      controlled.add(batteryId);
+    } else {
+      console.warn(`Failed to send MPC setpoint to battery ${batteryId}: ${'reason' in outcome ? outcome.reason : outcome.status}`);
+    }
+    setpoints.push({ deviceId: batteryId, action, powerKw, status: outcome.status });
+  }
+
+  return setpoints;
+}
+
+async function releaseBatteries(siteId: number): Promise<void> {
+  const controlled = controlledBatteries.get(siteId);
+  controlledBatteries.delete(siteId);
+  if (!controlled) return;
+
+  for (const deviceId of Array.from(controlled)) {
+    const outcome = await executeCommand(SYSTEM_ACTOR, deviceId, 'resume_normal_operation', {}, { priority: COMMAND_PRIORITY });
+    if (outcome.status !== 'executed' && outcome.status !== 'queued') {
+      console.warn(`Failed to release battery ${deviceId} from MPC: ${'reason' in outcome ? outcome.reason : outcome.status}`);
+    }
+  }
+}
+
+function buildStep(
+  siteId: number,
+  startTime: Date,
+  endTime: Date,
+  inputs: BatteryScheduleInputs,
+  result: BatteryScheduleResult,
+  batteries: Device[],
+  setpoints: MpcSetpoint[]
+): InsertMpcStep {
+  const planned = result.schedules.length > 0;
+  const signedKw = (action: string, powerKw: number) => (action === 'discharge' ? powerKw : action === 'charge' ? -powerKw : 0);
+
+  const plannedSoc = weightedSoc(
+    result.schedules.map(({ batteryId, schedule }) => ({ deviceId: batteryId, soc: schedule[0].soc })),
+    batteries
+  );
+  const executed = setpoints.filter((setpoint) => setpoint.status === 'executed');
+
+  return {
+    siteId,
+    startTime,
+    endTime,
+    solverStatus: result.status,
+    expectedSavings: planned ? toNumeric(result.expectedSavings) : null,
+    plannedBatteryPower: planned
+      ? toNumeric(result.schedules.reduce((sum, { schedule }) => sum + signedKw(schedule[0].action, schedule[0].power), 0))
+      : null,
+    plannedGridPower: planned ? toNumeric(result.grid[0].importKw - result.grid[0].exportKw) : null,
+    plannedLoad: toNumeric(inputs.loadKw[0]),
+    plannedPv: toNumeric(inputs.pvKw[0] - (planned ? result.grid[0].curtailedKw : 0)),
+    plannedSoc: toNumeric(plannedSoc),
+    executedBatteryPower: toNumeric(executed.reduce((sum, setpoint) => sum + signedKw(setpoint.action, setpoint.powerKw), 0)),
+    setpoints,
+  };
+}
+
+// Fill in the actual values of a site's intervals that have ended
+async function measureSteps(siteId: number, batteries: Device[], now: Date): Promise<void> {
+  const ended = await db
+    .select()
+    .from(mpcSteps)
+    .where(and(
+      eq(mpcSteps.siteId, siteId),
+      isNull(mpcSteps.actualGridPower),
+      lte(mpcSteps.endTime, now),
+      gte(mpcSteps.endTime, new Date(now.getTime() - MEASUREMENT_WINDOW))
+    ));
+
+  for (const step of ended) {
+    const readings = await storage.getEnergyReadingsByTimeRange(siteId, step.startTime, step.endTime);
+    if (readings.length === 0) continue;
+
+    const socs = await Promise.all(batteries.map(async (battery) => {
+      const [latest] = await storage.getDeviceReadingsByTimeRange(battery.id, step.startTime, step.endTime);
+      return { deviceId: battery.id, soc: latest?.stateOfCharge != null ? Number(latest.stateOfCharge) : null };
+    }));
+
+    await db
+      .update(mpcSteps)
+      .set({
+        actualBatteryPower: toNumeric(averageOf(readings, 'batteryPower')),
+        actualGridPower: toNumeric(averageOf(readings, 'gridPower')),
+        actualLoad: toNumeric(averageOf(readings, 'homePower')),
+        actualPv: toNumeric(averageOf(readings, 'solarPower')),
+        actualSoc: toNumeric(weightedSoc(socs, batteries)),
+      })
+      .where(eq(mpcSteps.id, step.id));
+  }
+}
+
+function getTrackingError(steps: MpcStep[], select: (step: MpcStep) => [string | null, string | null]): TrackingError {
+  const errors = steps
+    .map(select)
+    .filter(([planned, actual]) => planned != null && actual != null)
+    .map(([planned, actual]) => Number(actual) - Number(planned));
+
+  if (errors.length === 0) {
+    return { samples: 0, meanAbsoluteError: null, bias: null };
+  }
+  return {
+    samples: errors.length,
+    meanAbsoluteError: round(errors.reduce((sum, error) => sum + Math.abs(error), 0) / errors.length),
+    bias: round(errors.reduce((sum, error) => sum + error, 0) / errors.length),
+  };
+}
+
+// SoC over all batteries, weighted by capacity
+function weightedSoc(socs: Array<{ deviceId: number; soc: number | null }>, batteries: Device[]): number | null {
+  let weighted = 0;
+  let total = 0;
+  for (const { deviceId, soc } of socs) {
+    if (soc == null) continue;
+    const capacity = Number(batteries.find((battery) => battery.id === deviceId)?.capacity) || 1;
+    weighted += soc * capacity;
+    total += capacity;
+  }
+  return total > 0 ? weighted / total : null;
+}
+
+function averageOf(readings: EnergyReading[], field: 'batteryPower' | 'gridPower' | 'homePower' | 'solarPower'): number | null {
+  const values = readings.filter((reading) => reading[field] != null).map((reading) => Number(reading[field]));
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+// Registry specs of a battery from its device record
+function toScheduledBattery(device: Device): ScheduledBattery {
+  const settings = (device.settings as Record<string, any>) || {};
+  return {
+    id: device.id,
+    specs: { ...settings, capacity: settings.capacity ?? (device.capacity != null ? Number(device.capacity) : undefined) },
+  };
+}
+
+function isRecent(reading: EnergyReading | undefined, now: number): boolean {
+  return !!reading?.timestamp && now - reading.timestamp.getTime() <= READING_STALE_AFTER;
+}
+
+function toNumeric(value: number | null): string | null {
+  return value != null && Number.isFinite(value) ? String(round(value)) : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
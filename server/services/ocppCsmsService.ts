@@ -0,0 +1,880 @@
+/**
+ * OCPP CSMS Service
+ *
+ * Central System endpoint for chargers that connect to the backend, at
+ * `/ocpp/<chargePointId>`. Chargers negotiate OCPP 2.0.1 or 1.6J through the
+ * WebSocket subprotocol and authenticate according to the security profile
+ * configured for them:
+ *
+ * - 1: HTTP Basic auth with the charger's authorization key
+ * - 2: HTTP Basic auth over TLS (terminated here or by a proxy setting
+ *   X-Forwarded-Proto)
+ * - 3: TLS client certificate whose common name is the charge point ID,
+ *   which requires TLS to be terminated by this server
+ *
+ * Transactions are recorded as EV charging sessions, keyed by the OCPP
+ * transaction ID in the session metadata, and meter values as device
+ * readings. Commands for connected chargers are sent over the live
+ * connection.
+ */
+
+import { Server, IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import type { TLSSocket } from 'tls';
+import { createHash, timingSafeEqual } from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { db } from '../db';
+import {
+  deviceReadings,
+  evChargingSessions,
+  ocppChargePoints,
+  ocppIdTags,
+  type EVChargingSession,
+  type InsertOcppChargePoint,
+  type InsertOcppIdTag,
+  type OcppChargePoint,
+  type OcppIdTag,
+} from '@shared/schema';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { storage } from '../storage';
+import type { ChargingProfile } from '../adapters/ocppAdapter';
+import {
+  OCPP_SUBPROTOCOLS,
+  OcppRpcConnection,
+  OcppRpcError,
+  type OcppProtocolVersion,
+  type OcppSubprotocol,
+} from '../protocols/ocpp/ocppRpc';
+
+interface ChargePointSession {
+  deviceId: number;
+  chargePointId: string;
+  rpc: OcppRpcConnection;
+  connectedAt: Date;
+  isAlive: boolean;
+}
+
+interface TransactionMetadata {
+  transactionId: string;
+  connectorId: number;
+  idTag: string | null;
+  meterStartKwh: number | null;
+  lastEnergyKwh: number | null;
+  lastPowerKw?: number | null;
+  stopReason?: string;
+}
+
+export interface ActiveTransaction {
+  session: EVChargingSession;
+  transactionId: string;
+  connectorId: number;
+  idTag: string | null;
+  powerKw: number | null; // Last metered charging power
+}
+
+interface MeterSample {
+  timestamp: Date;
+  context: string | null;
+  powerKw: number | null;
+  energyKwh: number | null;
+  stateOfCharge: number | null;
+  voltage: number | null;
+  current: number | null;
+  frequency: number | null;
+  temperature: number | null;
+}
+
+type AuthorizationStatus = 'Accepted' | 'Blocked' | 'Expired' | 'Invalid';
+
+const OCPP_PATH = '/ocpp';
+const HEARTBEAT_INTERVAL = 300; // seconds, sent to chargers on boot
+const PING_INTERVAL = 60000;
+const INTERRUPTED_REASONS = ['EmergencyStop', 'PowerLoss', 'Reboot', 'HardReset', 'SoftReset', 'ImmediateReset'];
+
+const sessions = new Map<number, ChargePointSession>();
+let remoteStartId = Math.floor(Date.now() / 1000);
+
+/**
+ * Accept charger connections on the HTTP server
+ */
+export function initOcppCsms(server: Server): void {
+  const wss = new WebSocketServer({
+    noServer: true,
+    handleProtocols: (protocols) => selectSubprotocol(Array.from(protocols)) ?? false,
+  });
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (!pathname.startsWith(`${OCPP_PATH}/`)) return;
+
+    acceptConnection(wss, req, socket, head, pathname).catch((error) => {
+      console.error('Error accepting OCPP connection:', error);
+      rejectUpgrade(socket, 500, 'Internal Server Error');
+    });
+  });
+
+  console.log(`OCPP CSMS listening on ${OCPP_PATH}/<chargePointId>`);
+}
+
+export function isChargePointConnected(deviceId: number): boolean {
+  return sessions.get(deviceId)?.rpc.isOpen ?? false;
+}
+
+/**
+ * When the current connection of a charger was opened, so callers can tell
+ * a reconnection from a connection they have already seen
+ */
+export function getChargePointConnectedAt(deviceId: number): Date | undefined {
+  const session = sessions.get(deviceId);
+  return session?.rpc.isOpen ? session.connectedAt : undefined;
+}
+
+/**
+ * Transactions in progress on a charger, oldest first
+ */
+export async function getActiveTransactions(deviceId: number): Promise<ActiveTransaction[]> {
+  const active = await db
+    .select()
+    .from(evChargingSessions)
+    .where(and(eq(evChargingSessions.deviceId, deviceId), eq(evChargingSessions.sessionStatus, 'active')))
+    .orderBy(evChargingSessions.startTime);
+
+  return active.flatMap((session) => {
+    const transaction = getTransaction(session);
+    if (!transaction?.transactionId) return [];
+    return [{
+      session,
+      transactionId: transaction.transactionId,
+      connectorId: transaction.connectorId,
+      idTag: transaction.idTag,
+      powerKw: transaction.lastPowerKw ?? null,
+    }];
+  });
+}
+
+export async function getChargePoint(deviceId: number): Promise<OcppChargePoint | undefined> {
+  const [chargePoint] = await db.select().from(ocppChargePoints).where(eq(ocppChargePoints.deviceId, deviceId));
+  return chargePoint;
+}
+
+/**
+ * Charge point configuration and state, without its credentials
+ */
+export async function getChargePointStatus(deviceId: number) {
+  const chargePoint = await getChargePoint(deviceId);
+  if (!chargePoint) return undefined;
+
+  const { authorizationKeyHash, ...status } = chargePoint;
+  const session = sessions.get(deviceId);
+  return {
+    ...status,
+    hasAuthorizationKey: authorizationKeyHash != null,
+    isConnected: isChargePointConnected(deviceId),
+    connectedAt: session?.connectedAt ?? null,
+  };
+}
+
+/**
+ * Create or update the CSMS configuration of a charger device
+ */
+export async function configureChargePoint(deviceId: number, data: InsertOcppChargePoint): Promise<OcppChargePoint> {
+  const { authorizationKey, ...values } = data;
+  const keyHash = authorizationKey ? hashKey(authorizationKey) : undefined;
+  const existing = await getChargePoint(deviceId);
+
+  if (existing) {
+    const [chargePoint] = await db
+      .update(ocppChargePoints)
+      .set({ ...values, ...(keyHash ? { authorizationKeyHash: keyHash } : {}), updatedAt: new Date() })
+      .where(eq(ocppChargePoints.id, existing.id))
+      .returning();
+
+    // Reconnect under the new identity or credentials
+    const profileChanged = values.securityProfile !== undefined && values.securityProfile !== existing.securityProfile;
+    if (values.chargePointId !== existing.chargePointId || keyHash || profileChanged) {
+      sessions.get(deviceId)?.rpc.close(1000, 'Configuration changed');
+    }
+    return chargePoint;
+  }
+
+  const [chargePoint] = await db
+    .insert(ocppChargePoints)
+    .values({ ...values, deviceId, authorizationKeyHash: keyHash ?? null })
+    .returning();
+  return chargePoint;
+}
+
+export async function getIdTags(): Promise<OcppIdTag[]> {
+  return db.select().from(ocppIdTags);
+}
+
+export async function createIdTag(data: InsertOcppIdTag): Promise<OcppIdTag> {
+  const [tag] = await db.insert(ocppIdTags).values(data).returning();
+  return tag;
+}
+
+export async function updateIdTag(id: number, data: Partial<InsertOcppIdTag>): Promise<OcppIdTag | undefined> {
+  const [tag] = await db
+    .update(ocppIdTags)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(ocppIdTags.id, id))
+    .returning();
+  return tag;
+}
+
+export async function deleteIdTag(id: number): Promise<boolean> {
+  const deleted = await db.delete(ocppIdTags).where(eq(ocppIdTags.id, id)).returning();
+  return deleted.length > 0;
+}
+
+/**
+ * Ask a connected charger to start a transaction
+ */
+export async function remoteStartTransaction(
+  deviceId: number,
+  connectorId: number,
+  idTag: string,
+  chargingProfile?: ChargingProfile
+): Promise<object> {
+  const { rpc } = getSession(deviceId);
+
+  if (rpc.version === '1.6') {
+    return expectAccepted('RemoteStartTransaction', await rpc.call('RemoteStartTransaction', {
+      connectorId,
+      idTag,
+      ...(chargingProfile ? { chargingProfile: toV16Profile(chargingProfile) } : {}),
+    }));
+  }
+
+  return expectAccepted('RequestStartTransaction', await rpc.call('RequestStartTransaction', {
+    evseId: connectorId,
+    remoteStartId: ++remoteStartId,
+    idToken: { idToken: idTag, type: 'Central' },
+    ...(chargingProfile ? { chargingProfile: toV201Profile(chargingProfile) } : {}),
+  }));
+}
+
+/**
+ * Ask a connected charger to stop the transaction on a connector
+ */
+export async function remoteStopTransaction(deviceId: number, connectorId: number): Promise<object> {
+  const { rpc } = getSession(deviceId);
+
+  const active = await getActiveTransactions(deviceId);
+  const transactionId = active.reverse().find((candidate) => candidate.connectorId === connectorId)?.transactionId;
+  if (!transactionId) {
+    throw new Error(`No active transaction on connector ${connectorId}`);
+  }
+
+  if (rpc.version === '1.6') {
+    return expectAccepted('RemoteStopTransaction', await rpc.call('RemoteStopTransaction', { transactionId: Number(transactionId) }));
+  }
+  return expectAccepted('RequestStopTransaction', await rpc.call('RequestStopTransaction', { transactionId }));
+}
+
+/**
+ * Install a charging profile on a connected charger; connector 0 applies to
+ * the whole charger
+ */
+export async function setChargingProfile(deviceId: number, connectorId: number, profile: ChargingProfile): Promise<object> {
+  const { rpc } = getSession(deviceId);
+
+  if (rpc.version === '1.6') {
+    return expectAccepted('SetChargingProfile', await rpc.call('SetChargingProfile', { connectorId, csChargingProfiles: toV16Profile(profile) }));
+  }
+  return expectAccepted('SetChargingProfile', await rpc.call('SetChargingProfile', {
+    evseId: connectorId,
+    chargingProfile: toV201Profile(profile),
+  }));
+}
+
+/**
+ * Reset a connected charger. A soft reset waits for transactions to end on
+ * 2.0.1 chargers.
+ */
+export async function resetChargePoint(deviceId: number, type: 'Soft' | 'Hard'): Promise<object> {
+  const { rpc } = getSession(deviceId);
+
+  if (rpc.version === '1.6') {
+    return expectAccepted('Reset', await rpc.call('Reset', { type }));
+  }
+  const response = await rpc.call('Reset', { type: type === 'Hard' ? 'Immediate' : 'OnIdle' });
+  // Scheduled means the charger resets once its transactions end
+  return response?.status === 'Scheduled' ? response : expectAccepted('Reset', response);
+}
+
+function getSession(deviceId: number): ChargePointSession {
+  const session = sessions.get(deviceId);
+  if (!session || !session.rpc.isOpen) {
+    throw new Error('Charge point is not connected');
+  }
+  return session;
+}
+
+function expectAccepted(action: string, response: any): object {
+  if (response?.status !== 'Accepted') {
+    throw new Error(`${action} was ${response?.status ?? 'not answered'} by the charge point`);
+  }
+  return response;
+}
+
+// OCPP 1.6 names the profile ID chargingProfileId and the periods chargingSchedulePeriod
+function toV16Profile(profile: ChargingProfile) {
+  const { id, chargingSchedule, transactionId, ...rest } = profile;
+  const { chargingSchedulePeriods, ...schedule } = chargingSchedule;
+
+  return {
+    chargingProfileId: id,
+    ...rest,
+    ...(transactionId !== undefined ? { transactionId: Number(transactionId) } : {}),
+    chargingSchedule: { ...schedule, chargingSchedulePeriod: chargingSchedulePeriods },
+  };
+}
+
+// OCPP 2.0.1 nests the schedule in an array and renames the station-wide purpose
+function toV201Profile(profile: ChargingProfile) {
+  const { chargingSchedule, chargingProfilePurpose, transactionId, ...rest } = profile;
+  const { chargingSchedulePeriods, ...schedule } = chargingSchedule;
+
+  return {
+    ...rest,
+    chargingProfilePurpose: chargingProfilePurpose === 'ChargePointMaxProfile' ? 'ChargingStationMaxProfile' : chargingProfilePurpose,
+    ...(transactionId !== undefined ? { transactionId: String(transactionId) } : {}),
+    chargingSchedule: [{ id: profile.id, ...schedule, chargingSchedulePeriod: chargingSchedulePeriods }],
+  };
+}
+
+function selectSubprotocol(offered: string[]): OcppSubprotocol | undefined {
+  return OCPP_SUBPROTOCOLS.find((protocol) => offered.includes(protocol));
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message: string, headers: Record<string, string> = {}): void {
+  const lines = [`HTTP/1.1 ${status} ${message}`, 'Connection: close', ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`)];
+  socket.end(`${lines.join('\r\n')}\r\n\r\n`);
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+async function acceptConnection(wss: WebSocketServer, req: IncomingMessage, socket: Duplex, head: Buffer, pathname: string): Promise<void> {
+  const identity = decodeURIComponent(pathname.slice(OCPP_PATH.length + 1));
+  const [chargePoint] = identity && !identity.includes('/')
+    ? await db.select().from(ocppChargePoints).where(eq(ocppChargePoints.chargePointId, identity))
+    : [];
+
+  if (!chargePoint) {
+    console.warn(`Rejected OCPP connection from unknown charge point ${identity}`);
+    return rejectUpgrade(socket, 404, 'Not Found');
+  }
+
+  const authError = authenticate(req, chargePoint);
+  if (authError) {
+    console.warn(`Rejected OCPP connection from ${identity}: ${authError}`);
+    return rejectUpgrade(socket, 401, 'Unauthorized', chargePoint.securityProfile < 3 ? { 'WWW-Authenticate': 'Basic realm="OCPP"' } : {});
+  }
+
+  const offered = (req.headers['sec-websocket-protocol'] || '').split(',').map((protocol) => protocol.trim());
+  const subprotocol = selectSubprotocol(offered);
+  if (!subprotocol) {
+    console.warn(`Rejected OCPP connection from ${identity}: no supported subprotocol in "${offered.join(', ')}"`);
+    return rejectUpgrade(socket, 400, 'Bad Request');
+  }
+
+  wss.handleUpgrade(req, socket, head, (ws) => {
+    onConnected(ws, chargePoint, subprotocol).catch((error) => {
+      console.error(`Error setting up OCPP charge point ${identity}:`, error);
+      ws.close(1011, 'Internal error');
+    });
+  });
+}
+
+// Null if the request satisfies the charger's security profile, else the reason it does not
+function authenticate(req: IncomingMessage, chargePoint: OcppChargePoint): string | null {
+  const socket = req.socket as TLSSocket;
+  const forwardedProto = String(req.headers['x-forwarded-proto'] || '').split(',')[0].trim();
+  const secure = socket.encrypted === true || forwardedProto === 'https' || forwardedProto === 'wss';
+
+  if (chargePoint.securityProfile >= 3) {
+    if (!socket.encrypted || !socket.authorized) return 'client certificate required';
+    const commonName = socket.getPeerCertificate()?.subject?.CN;
+    return commonName === chargePoint.chargePointId ? null : `certificate is for ${commonName}`;
+  }
+
+  if (chargePoint.securityProfile === 2 && !secure) return 'TLS required';
+  if (!chargePoint.authorizationKeyHash) return 'no authorization key configured';
+
+  const match = /^Basic\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (!match) return 'Basic auth required';
+
+  const credentials = Buffer.from(match[1], 'base64').toString('utf8');
+  const separator = credentials.indexOf(':');
+  const username = credentials.slice(0, separator);
+  const password = credentials.slice(separator + 1);
+  if (separator < 0 || username !== chargePoint.chargePointId) return 'wrong username';
+
+  const expected = Buffer.from(chargePoint.authorizationKeyHash, 'hex');
+  const actual = Buffer.from(hashKey(password), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? null : 'wrong password';
+}
+
+async function onConnected(ws: WebSocket, chargePoint: OcppChargePoint, subprotocol: OcppSubprotocol): Promise<void> {
+  const { deviceId, chargePointId } = chargePoint;
+
+  // A charger reconnecting replaces its previous connection
+  sessions.get(deviceId)?.rpc.close(1000, 'Replaced by new connection');
+
+  const session: ChargePointSession = {
+    deviceId,
+    chargePointId,
+    connectedAt: new Date(),
+    isAlive: true,
+    rpc: new OcppRpcConnection(ws, subprotocol, (action, payload) => handleCall(session, action, payload)),
+  };
+  sessions.set(deviceId, session);
+
+  // Drop chargers that stop answering pings, so commands fail fast
+  ws.on('pong', () => { session.isAlive = true; });
+  const ping = setInterval(() => {
+    if (!session.isAlive) {
+      console.log(`OCPP charge point ${chargePointId} stopped responding`);
+      ws.terminate();
+      return;
+    }
+    session.isAlive = false;
+    if (ws.readyState === WebSocket.OPEN) ws.ping();
+  }, PING_INTERVAL);
+
+  ws.on('close', () => {
+    clearInterval(ping);
+    if (sessions.get(deviceId) !== session) return;
+
+    sessions.delete(deviceId);
+    console.log(`OCPP charge point ${chargePointId} disconnected`);
+    Promise.all([
+      db.update(ocppChargePoints).set({ isConnected: false, updatedAt: new Date() }).where(eq(ocppChargePoints.deviceId, deviceId)),
+      storage.updateDevice(deviceId, { status: 'offline' }),
+    ]).catch((error) => console.error(`Error recording OCPP disconnect for ${chargePointId}:`, error));
+  });
+
+  await db
+    .update(ocppChargePoints)
+    .set({ isConnected: true, ocppVersion: session.rpc.version, updatedAt: new Date() })
+    .where(eq(ocppChargePoints.deviceId, deviceId));
+
+  console.log(`OCPP charge point ${chargePointId} connected using OCPP ${session.rpc.version}`);
+}
+
+async function handleCall(session: ChargePointSession, action: string, payload: any): Promise<object> {
+  const version = session.rpc.version;
+
+  switch (action) {
+    case 'BootNotification':
+      return handleBootNotification(session, payload);
+    case 'Heartbeat':
+      await updateChargePoint(session.deviceId, { lastHeartbeatAt: new Date() });
+      return { currentTime: new Date().toISOString() };
+    case 'StatusNotification':
+      return handleStatusNotification(session, version, payload);
+    case 'Authorize':
+      return handleAuthorize(session, version, payload);
+    case 'MeterValues':
+      return handleMeterValues(session, version, payload);
+    case 'DataTransfer':
+      return { status: 'UnknownVendorId' };
+  }
+
+  if (version === '1.6') {
+    switch (action) {
+      case 'StartTransaction':
+        return handleStartTransaction(session, payload);
+      case 'StopTransaction':
+        return handleStopTransaction(session, payload);
+      case 'DiagnosticsStatusNotification':
+      case 'FirmwareStatusNotification':
+        return {};
+    }
+  } else {
+    switch (action) {
+      case 'TransactionEvent':
+        return handleTransactionEvent(session, payload);
+      case 'FirmwareStatusNotification':
+      case 'LogStatusNotification':
+      case 'NotifyEvent':
+      case 'NotifyReport':
+      case 'SecurityEventNotification':
+        return {};
+    }
+  }
+
+  throw new OcppRpcError('NotImplemented', `${action} is not supported`);
+}
+
+function required<T>(value: T | null | undefined, field: string): T {
+  if (value === undefined || value === null) {
+    throw new OcppRpcError('OccurrenceConstraintViolation', `${field} is required`);
+  }
+  return value;
+}
+
+async function updateChargePoint(deviceId: number, values: Partial<OcppChargePoint>): Promise<void> {
+  await db
+    .update(ocppChargePoints)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(ocppChargePoints.deviceId, deviceId));
+}
+
+async function handleBootNotification(session: ChargePointSession, payload: any): Promise<object> {
+  // 1.6 sends the fields at the top level, 2.0.1 under chargingStation
+  const station = payload.chargingStation ?? {
+    vendorName: payload.chargePointVendor,
+    model: payload.chargePointModel,
+    serialNumber: payload.chargePointSerialNumber ?? payload.chargeBoxSerialNumber,
+    firmwareVersion: payload.firmwareVersion,
+  };
+
+  await updateChargePoint(session.deviceId, {
+    vendor: required(station.vendorName, 'vendorName'),
+    model: required(station.model, 'model'),
+    serialNumber: station.serialNumber ?? null,
+    firmwareVersion: station.firmwareVersion ?? null,
+    lastBootAt: new Date(),
+    lastHeartbeatAt: new Date(),
+  });
+  await storage.updateDevice(session.deviceId, {
+    status: 'online',
+    ...(station.firmwareVersion ? { firmwareVersion: station.firmwareVersion } : {}),
+    ...(station.serialNumber ? { serialNumber: station.serialNumber } : {}),
+  });
+
+  console.log(`OCPP charge point ${session.chargePointId} booted: ${station.vendorName} ${station.model}${payload.reason ? ` (${payload.reason})` : ''}`);
+
+  return { status: 'Accepted', currentTime: new Date().toISOString(), interval: HEARTBEAT_INTERVAL };
+}
+
+async function handleStatusNotification(session: ChargePointSession, version: OcppProtocolVersion, payload: any): Promise<object> {
+  const connectorId = required(payload.connectorId, 'connectorId');
+  const status = required(version === '1.6' ? payload.status : payload.connectorStatus, 'status');
+  const errorCode = version === '1.6' ? required(payload.errorCode, 'errorCode') : 'NoError';
+  const key = version === '1.6' ? String(connectorId) : `${required(payload.evseId, 'evseId')}/${connectorId}`;
+
+  const chargePoint = await getChargePoint(session.deviceId);
+  const connectors = (chargePoint?.connectorStatus as Record<string, object> | null) || {};
+  connectors[key] = {
+    status,
+    errorCode,
+    info: payload.info ?? null,
+    timestamp: payload.timestamp ?? new Date().toISOString(),
+  };
+
+  await updateChargePoint(session.deviceId, { connectorStatus: connectors });
+  await storage.updateDevice(session.deviceId, {
+    status: status === 'Faulted' || errorCode !== 'NoError' ? 'error' : 'online',
+  });
+  return {};
+}
+
+async function authorizeIdTag(deviceId: number, idTag: string): Promise<{ status: AuthorizationStatus; expiryDate?: string; tag?: OcppIdTag }> {
+  const [tag] = await db.select().from(ocppIdTags).where(eq(ocppIdTags.idTag, idTag));
+
+  if (!tag) {
+    const chargePoint = await getChargePoint(deviceId);
+    return { status: chargePoint?.allowUnknownIdTags ? 'Accepted' : 'Invalid' };
+  }
+  if (tag.expiresAt && tag.expiresAt <= new Date()) return { status: 'Expired', tag };
+  if (tag.status !== 'Accepted') return { status: tag.status as AuthorizationStatus, tag };
+
+  return { status: 'Accepted', expiryDate: tag.expiresAt?.toISOString(), tag };
+}
+
+// idTagInfo (1.6) or idTokenInfo (2.0.1) for an authorization result
+function authorizationInfo(version: OcppProtocolVersion, result: { status: AuthorizationStatus; expiryDate?: string }) {
+  return version === '1.6'
+    ? { idTagInfo: { status: result.status, ...(result.expiryDate ? { expiryDate: result.expiryDate } : {}) } }
+    : { idTokenInfo: { status: result.status, ...(result.expiryDate ? { cacheExpiryDateTime: result.expiryDate } : {}) } };
+}
+
+async function handleAuthorize(session: ChargePointSession, version: OcppProtocolVersion, payload: any): Promise<object> {
+  const idTag = required(version === '1.6' ? payload.idTag : payload.idToken?.idToken, 'idTag');
+  return authorizationInfo(version, await authorizeIdTag(session.deviceId, idTag));
+}
+
+function getTransaction(session: EVChargingSession): TransactionMetadata | undefined {
+  return (session.metadata as { ocpp?: TransactionMetadata } | null)?.ocpp;
+}
+
+async function findTransaction(deviceId: number, transactionId: string): Promise<EVChargingSession | undefined> {
+  const [session] = await db
+    .select()
+    .from(evChargingSessions)
+    .where(and(
+      eq(evChargingSessions.deviceId, deviceId),
+      sql`${evChargingSessions.metadata}::jsonb -> 'ocpp' ->> 'transactionId' = ${transactionId}`
+    ))
+    .orderBy(desc(evChargingSessions.startTime))
+    .limit(1);
+  return session;
+}
+
+async function saveTransaction(session: EVChargingSession, values: Partial<EVChargingSession>, transaction: Partial<TransactionMetadata>): Promise<EVChargingSession> {
+  const metadata = (session.metadata as Record<string, unknown> | null) || {};
+  const [updated] = await db
+    .update(evChargingSessions)
+    .set({
+      ...values,
+      metadata: { ...metadata, ocpp: { ...getTransaction(session), ...transaction } },
+      updatedAt: new Date(),
+    })
+    .where(eq(evChargingSessions.id, session.id))
+    .returning();
+  return updated;
+}
+
+async function startTransaction(
+  deviceId: number,
+  options: { transactionId?: string; connectorId: number; idTag: string | null; meterStartKwh: number | null; startTime: Date; tag?: OcppIdTag }
+): Promise<EVChargingSession> {
+  const transaction: TransactionMetadata = {
+    transactionId: options.transactionId ?? '',
+    connectorId: options.connectorId,
+    idTag: options.idTag,
+    meterStartKwh: options.meterStartKwh,
+    lastEnergyKwh: options.meterStartKwh,
+  };
+
+  const [session] = await db
+    .insert(evChargingSessions)
+    .values({
+      deviceId,
+      userId: options.tag?.userId ?? null,
+      vehicleId: options.tag?.vehicleId ?? null,
+      startTime: options.startTime,
+      sessionStatus: 'active',
+      metadata: { ocpp: transaction },
+    })
+    .returning();
+
+  // 1.6 chargers are given the session ID as their transaction ID
+  return options.transactionId ? session : saveTransaction(session, {}, { transactionId: String(session.id) });
+}
+
+async function endTransaction(session: EVChargingSession, endTime: Date, reason: string, meterStopKwh?: number | null): Promise<EVChargingSession> {
+  const transaction = getTransaction(session);
+  const lastEnergyKwh = meterStopKwh ?? transaction?.lastEnergyKwh ?? null;
+  const meterStartKwh = transaction?.meterStartKwh ?? null;
+  const energyKwh = lastEnergyKwh != null && meterStartKwh != null ? Math.max(lastEnergyKwh - meterStartKwh, 0) : null;
+
+  return saveTransaction(session, {
+    endTime,
+    sessionStatus: INTERRUPTED_REASONS.includes(reason) ? 'interrupted' : 'completed',
+    ...(energyKwh != null ? { totalEnergyKwh: energyKwh.toFixed(3), energyFromGridKwh: energyKwh.toFixed(3) } : {}),
+  }, { lastEnergyKwh, lastPowerKw: null, stopReason: reason });
+}
+
+async function handleStartTransaction(session: ChargePointSession, payload: any): Promise<object> {
+  const connectorId = required(payload.connectorId, 'connectorId');
+  const idTag = required(payload.idTag, 'idTag');
+  const meterStart = required(payload.meterStart, 'meterStart'); // Wh
+  const authorization = await authorizeIdTag(session.deviceId, idTag);
+
+  const transaction = await startTransaction(session.deviceId, {
+    connectorId,
+    idTag,
+    meterStartKwh: meterStart / 1000,
+    startTime: payload.timestamp ? new Date(payload.timestamp) : new Date(),
+    tag: authorization.tag,
+  });
+
+  return { transactionId: transaction.id, ...authorizationInfo('1.6', authorization) };
+}
+
+async function handleStopTransaction(session: ChargePointSession, payload: any): Promise<object> {
+  const transactionId = String(required(payload.transactionId, 'transactionId'));
+  const meterStop = required(payload.meterStop, 'meterStop'); // Wh
+  const transaction = await findTransaction(session.deviceId, transactionId);
+
+  if (transaction) {
+    if (Array.isArray(payload.transactionData)) {
+      await recordMeterValues(session.deviceId, '1.6', payload.transactionData, transaction);
+    }
+    await endTransaction(
+      (await findTransaction(session.deviceId, transactionId)) ?? transaction,
+      payload.timestamp ? new Date(payload.timestamp) : new Date(),
+      payload.reason ?? 'Local',
+      meterStop / 1000
+    );
+  } else {
+    console.warn(`OCPP charge point ${session.chargePointId} stopped unknown transaction ${transactionId}`);
+  }
+
+  return payload.idTag ? authorizationInfo('1.6', await authorizeIdTag(session.deviceId, payload.idTag)) : {};
+}
+
+async function handleTransactionEvent(session: ChargePointSession, payload: any): Promise<object> {
+  const eventType = required(payload.eventType, 'eventType');
+  const transactionId = String(required(payload.transactionInfo?.transactionId, 'transactionInfo.transactionId'));
+  const timestamp = new Date(required(payload.timestamp, 'timestamp'));
+  const idTag: string | null = payload.idToken?.idToken ?? null;
+  const authorization = idTag ? await authorizeIdTag(session.deviceId, idTag) : null;
+
+  // Events may arrive after an offline period, so any of them can open the transaction
+  let transaction = await findTransaction(session.deviceId, transactionId);
+  if (!transaction) {
+    const samples = Array.isArray(payload.meterValue) ? payload.meterValue.map((value: any) => readMeterValue('2.0.1', value)) : [];
+    transaction = await startTransaction(session.deviceId, {
+      transactionId,
+      connectorId: payload.evse?.id ?? 0,
+      idTag,
+      meterStartKwh: samples.find((sample: MeterSample) => sample.energyKwh != null)?.energyKwh ?? null,
+      startTime: timestamp,
+      tag: authorization?.tag,
+    });
+  } else if (idTag && !getTransaction(transaction)?.idTag) {
+    transaction = await saveTransaction(transaction, {
+      userId: authorization?.tag?.userId ?? transaction.userId,
+      vehicleId: authorization?.tag?.vehicleId ?? transaction.vehicleId,
+    }, { idTag });
+  }
+
+  if (Array.isArray(payload.meterValue)) {
+    transaction = (await recordMeterValues(session.deviceId, '2.0.1', payload.meterValue, transaction)) ?? transaction;
+  }
+
+  if (eventType === 'Ended') {
+    await endTransaction(transaction, timestamp, payload.transactionInfo?.stoppedReason ?? 'Local');
+  }
+
+  return authorization ? authorizationInfo('2.0.1', authorization) : {};
+}
+
+async function handleMeterValues(session: ChargePointSession, version: OcppProtocolVersion, payload: any): Promise<object> {
+  const meterValues = required(payload.meterValue, 'meterValue');
+  const transactionId = payload.transactionId != null ? String(payload.transactionId) : null;
+  const transaction = transactionId ? await findTransaction(session.deviceId, transactionId) : undefined;
+
+  await recordMeterValues(session.deviceId, version, meterValues, transaction, version === '1.6' ? payload.connectorId : payload.evseId);
+  return {};
+}
+
+// Store meter values as device readings and update the transaction they belong to
+async function recordMeterValues(
+  deviceId: number,
+  version: OcppProtocolVersion,
+  meterValues: any[],
+  transaction?: EVChargingSession,
+  connectorId?: number
+): Promise<EVChargingSession | undefined> {
+  const samples = meterValues.map((meterValue) => readMeterValue(version, meterValue));
+  const metadata = transaction ? getTransaction(transaction) : undefined;
+
+  for (const sample of samples) {
+    await db.insert(deviceReadings).values({
+      deviceId,
+      timestamp: sample.timestamp,
+      power: toNumeric(sample.powerKw),
+      energy: toNumeric(sample.energyKwh),
+      stateOfCharge: toNumeric(sample.stateOfCharge),
+      voltage: toNumeric(sample.voltage),
+      current: toNumeric(sample.current),
+      frequency: toNumeric(sample.frequency),
+      temperature: toNumeric(sample.temperature),
+      operationalMode: transaction ? 'charging' : null,
+      additionalData: {
+        source: 'ocpp',
+        connectorId: connectorId ?? metadata?.connectorId ?? null,
+        transactionId: metadata?.transactionId ?? null,
+        context: sample.context,
+      },
+    });
+  }
+
+  if (!transaction || samples.length === 0) return transaction;
+
+  const energies = samples.map((sample) => sample.energyKwh).filter((value): value is number => value != null);
+  const powers = samples.map((sample) => sample.powerKw).filter((value): value is number => value != null);
+  const socs = samples.map((sample) => sample.stateOfCharge).filter((value): value is number => value != null);
+
+  const meterStartKwh = metadata?.meterStartKwh ?? energies[0] ?? null;
+  const lastEnergyKwh = energies.length > 0 ? energies[energies.length - 1] : metadata?.lastEnergyKwh ?? null;
+  const lastPowerKw = powers.length > 0 ? powers[powers.length - 1] : metadata?.lastPowerKw ?? null;
+  const peakKw = Math.max(Number(transaction.peakChargingRateKw ?? 0), ...powers);
+
+  return saveTransaction(transaction, {
+    ...(powers.length > 0 ? { peakChargingRateKw: peakKw.toFixed(3) } : {}),
+    ...(socs.length > 0 ? { startSoc: transaction.startSoc ?? String(socs[0]), endSoc: String(socs[socs.length - 1]) } : {}),
+    ...(lastEnergyKwh != null && meterStartKwh != null ? { totalEnergyKwh: Math.max(lastEnergyKwh - meterStartKwh, 0).toFixed(3) } : {}),
+  }, { meterStartKwh, lastEnergyKwh, lastPowerKw });
+}
+
+function toNumeric(value: number | null): string | null {
+  return value != null ? String(Number(value.toFixed(3))) : null;
+}
+
+// Convert a sampled value to kW, kWh, V, A, Hz, °C or %
+function normalizeValue(value: number, unit: string | undefined, measurand: string): number {
+  switch (unit) {
+    case 'Wh':
+    case 'W':
+    case 'varh':
+    case 'var':
+      return value / 1000;
+    case 'K':
+      return value - 273.15;
+    case 'Fahrenheit':
+      return (value - 32) * 5 / 9;
+    case undefined:
+      // Energy and power default to Wh and W
+      return measurand.startsWith('Energy') || measurand.startsWith('Power') ? value / 1000 : value;
+    default:
+      return value;
+  }
+}
+
+function readMeterValue(version: OcppProtocolVersion, meterValue: any): MeterSample {
+  const values = new Map<string, { phase: string | null; value: number }[]>();
+  let context: string | null = null;
+
+  for (const sampled of Array.isArray(meterValue?.sampledValue) ? meterValue.sampledValue : []) {
+    const measurand: string = sampled.measurand ?? 'Energy.Active.Import.Register';
+    const raw = Number(sampled.value);
+    if (isNaN(raw)) continue;
+
+    // 2.0.1 carries a power-of-ten multiplier and the unit in unitOfMeasure
+    const unit = version === '1.6' ? sampled.unit : sampled.unitOfMeasure?.unit;
+    const multiplier = version === '1.6' ? 0 : sampled.unitOfMeasure?.multiplier ?? 0;
+    const value = normalizeValue(raw * 10 ** multiplier, unit, measurand);
+
+    context = context ?? sampled.context ?? null;
+    values.set(measurand, [...(values.get(measurand) || []), { phase: sampled.phase ?? null, value }]);
+  }
+
+  // Totals are used when present; otherwise per-phase values are summed
+  // (power, energy) or averaged (voltage, current)
+  const read = (measurand: string, combine: 'sum' | 'average'): number | null => {
+    const entries = values.get(measurand);
+    if (!entries || entries.length === 0) return null;
+
+    const total = entries.find((entry) => entry.phase === null);
+    if (total) return total.value;
+
+    const phases = entries.filter((entry) => /^L\d$/.test(entry.phase!) || /^L\d-N$/.test(entry.phase!));
+    const used = phases.length > 0 ? phases : entries;
+    const sum = used.reduce((acc, entry) => acc + entry.value, 0);
+    return combine === 'sum' ? sum : sum / used.length;
+  };
+
+  const importKw = read('Power.Active.Import', 'sum');
+  const exportKw = read('Power.Active.Export', 'sum');
+
+  return {
+    timestamp: meterValue?.timestamp ? new Date(meterValue.timestamp) : new Date(),
+    context,
+    powerKw: importKw != null || exportKw != null ? (importKw ?? 0) - (exportKw ?? 0) : null,
+    energyKwh: read('Energy.Active.Import.Register', 'sum'),
+    stateOfCharge: read('SoC', 'average'),
+    voltage: read('Voltage', 'average'),
+    current: read('Current.Import', 'average'),
+    frequency: read('Frequency', 'average'),
+    temperature: read('Temperature', 'average'),
+  };
+}
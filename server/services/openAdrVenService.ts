@@ -0,0 +1,720 @@
+/**
+ * OpenADR VEN Service
+ *
+ * Runs an OpenADR 2.0b Virtual End Node (VEN) for every program in
+ * `openadr_vens`, using the simple HTTP pull model: the VEN registers with
+ * its VTN, polls it for messages and answers them. Distributed events are
+ * turned into `demand_response_events` for the sites the program covers,
+ * which the demand response service then executes. Each site opts in or
+ * out according to its participation (or its default participation, if it
+ * has none yet). Sites report their grid power as TELEMETRY_USAGE whenever
+ * the VTN requests it.
+ */
+
+import { randomUUID } from 'crypto';
+import { db } from '../db';
+import {
+  demandResponseEvents,
+  demandResponsePrograms,
+  openadrEvents,
+  openadrVens,
+  siteDemandResponseSettings,
+  siteEventParticipations,
+  type DemandResponseProgram,
+  type InsertOpenadrVen,
+  type OpenadrEvent,
+  type OpenadrVen,
+} from '@shared/schema';
+import { and, eq, inArray, notInArray } from 'drizzle-orm';
+import { storage } from '../storage';
+import { textAt, type XmlElement } from '../utils/xml';
+import {
+  OADR_SERVICES,
+  buildCanceledPartyRegistration,
+  buildCanceledReport,
+  buildCreatePartyRegistration,
+  buildCreatedEvent,
+  buildCreatedReport,
+  buildPoll,
+  buildRegisterReport,
+  buildRegisteredReport,
+  buildRequestEvent,
+  buildResponse,
+  buildUpdateReport,
+  parseOadrPayload,
+  readCancelReport,
+  readCreatedPartyRegistration,
+  readDistributeEvent,
+  readReportRequests,
+  readResponse,
+  type OadrEvent,
+  type OadrEventResponse,
+  type OadrEventSignal,
+  type OadrOptType,
+  type OadrReportRequest,
+  type OadrTelemetryReport,
+} from '../protocols/openadr/oadrPayloads';
+import { buildMeterIntervals } from './billingService';
+import { getAverageLoad } from './demandResponseBaselineService';
+
+// Report request as stored on the VEN, with the next time it is due
+interface StoredReportRequest extends Omit<OadrReportRequest, 'start'> {
+  start: string | null;
+  nextReportAt: string;
+}
+
+export interface VenPollResult {
+  messages: string[]; // Names of the messages received
+}
+
+const TICK_INTERVAL = 5000;
+const REQUEST_TIMEOUT = 15000;
+const MAX_MESSAGES_PER_POLL = 10; // Messages drained from the VTN in one poll
+const DEFAULT_EVENT_DURATION_MINUTES = 240; // Open-ended events without a program limit
+const MIN_SAMPLING_MS = 60 * 1000;
+const MAX_SAMPLING_MS = 60 * 60 * 1000;
+const REPORT_SPECIFIER_ID = 'TELEMETRY_USAGE';
+const SIMPLE_LEVEL_SHARES = [0, 0.5, 0.75, 1]; // Share of site capacity shed per SIMPLE level
+const EMERGENCY_LEVEL = 3;
+const SI_SCALE_TO_KW: Record<string, number> = { none: 0.001, k: 1, M: 1000 };
+
+let tickTimer: NodeJS.Timeout | null = null;
+const busy = new Set<number>();
+
+/**
+ * VENs, optionally for one program
+ */
+export async function getVens(programId?: number): Promise<OpenadrVen[]> {
+  return programId
+    ? db.select().from(openadrVens).where(eq(openadrVens.programId, programId))
+    : db.select().from(openadrVens);
+}
+
+export async function getVen(id: number): Promise<OpenadrVen | undefined> {
+  const [ven] = await db.select().from(openadrVens).where(eq(openadrVens.id, id));
+  return ven;
+}
+
+export async function createVen(data: InsertOpenadrVen): Promise<OpenadrVen> {
+  const [ven] = await db.insert(openadrVens).values(data).returning();
+  return ven;
+}
+
+/**
+ * Update a VEN. Pointing it at another VTN drops its registration.
+ */
+export async function updateVen(id: number, data: Partial<InsertOpenadrVen>): Promise<OpenadrVen | undefined> {
+  const current = await getVen(id);
+  if (!current) return undefined;
+
+  const reset = data.vtnUrl !== undefined && data.vtnUrl !== current.vtnUrl
+    ? { venId: null, vtnId: null, registrationId: null, registeredAt: null, reportRequests: [] }
+    : {};
+
+  return saveVen(id, { ...data, ...reset });
+}
+
+/**
+ * Delete a VEN and its event mappings. The site events it created are kept.
+ */
+export async function deleteVen(id: number): Promise<boolean> {
+  await db.delete(openadrEvents).where(eq(openadrEvents.venId, id));
+  const deleted = await db.delete(openadrVens).where(eq(openadrVens.id, id)).returning();
+  return deleted.length > 0;
+}
+
+/**
+ * OpenADR events received by a VEN
+ */
+export async function getVenEvents(venId: number): Promise<OpenadrEvent[]> {
+  return db.select().from(openadrEvents).where(eq(openadrEvents.venId, venId));
+}
+
+/**
+ * Register the VEN with its VTN, register its telemetry reports and fetch
+ * the events in effect
+ */
+export async function registerVen(ven: OpenadrVen): Promise<OpenadrVen> {
+  const message = await send(ven, OADR_SERVICES.registerParty, buildCreatePartyRegistration({
+    requestId: randomUUID(),
+    venName: ven.venName,
+    venId: ven.venId,
+    registrationId: ven.registrationId,
+  }));
+  expectMessage(message, 'oadrCreatedPartyRegistration');
+
+  const registration = readCreatedPartyRegistration(message);
+  if (registration.responseCode >= 300 || !registration.venId || !registration.registrationId) {
+    throw new Error(`Registration rejected: ${registration.responseCode} ${registration.responseDescription}`.trim());
+  }
+
+  let registered = await saveVen(ven.id, {
+    venId: registration.venId,
+    registrationId: registration.registrationId,
+    vtnId: registration.vtnId,
+    pollInterval: registration.pollFrequencyMs ? Math.max(Math.round(registration.pollFrequencyMs / 1000), 1) : ven.pollInterval,
+    registeredAt: new Date(),
+    lastPollAt: new Date(),
+    lastError: null,
+  });
+
+  registered = await registerReports(registered);
+
+  const events = await send(registered, OADR_SERVICES.event, buildRequestEvent(randomUUID(), registered.venId!));
+  await handleMessage(registered, events);
+
+  return (await getVen(ven.id)) || registered;
+}
+
+/**
+ * Poll the VTN and handle everything it has queued for the VEN
+ */
+export async function pollVen(ven: OpenadrVen): Promise<VenPollResult> {
+  if (!ven.venId || !ven.registrationId) {
+    throw new Error('VEN is not registered');
+  }
+
+  const messages: string[] = [];
+  let current = await saveVen(ven.id, { lastPollAt: new Date() });
+
+  for (let i = 0; i < MAX_MESSAGES_PER_POLL; i++) {
+    const message = await send(current, OADR_SERVICES.poll, buildPoll(current.venId!));
+    messages.push(message.name);
+
+    if (message.name === 'oadrResponse') {
+      const response = readResponse(message);
+      if (response.responseCode >= 400) {
+        throw new Error(`Poll rejected: ${response.responseCode} ${response.responseDescription}`.trim());
+      }
+      break;
+    }
+
+    await handleMessage(current, message);
+    current = (await getVen(ven.id)) || current;
+    if (!current.registrationId) break;
+  }
+
+  await saveVen(ven.id, { lastError: null });
+  return { messages };
+}
+
+/**
+ * Send the telemetry reports that are due
+ */
+export async function sendDueReports(ven: OpenadrVen, now: Date = new Date()): Promise<number> {
+  if (!ven.venId) return 0;
+
+  const requests = (ven.reportRequests as StoredReportRequest[] | null) || [];
+  const due = requests.filter((request) => new Date(request.nextReportAt) <= now);
+  if (due.length === 0) return 0;
+
+  const reports: OadrTelemetryReport[] = [];
+  for (const request of due) {
+    reports.push(await buildTelemetryReport(request, now));
+  }
+
+  const message = await send(ven, OADR_SERVICES.report, buildUpdateReport(randomUUID(), ven.venId, reports));
+  expectMessage(message, 'oadrUpdatedReport');
+
+  // One-off requests are done; periodic ones run until their interval ends
+  const remaining = requests
+    .map((request) => {
+      if (!due.includes(request)) return request;
+      if (request.reportBackDurationMs <= 0) return null;
+
+      const nextReportAt = new Date(new Date(request.nextReportAt).getTime() + request.reportBackDurationMs);
+      const endsAt = request.start && request.durationMs ? new Date(request.start).getTime() + request.durationMs : Infinity;
+      return nextReportAt.getTime() <= endsAt ? { ...request, nextReportAt: nextReportAt.toISOString() } : null;
+    })
+    .filter((request): request is StoredReportRequest => request !== null);
+
+  await saveVen(ven.id, { reportRequests: remaining });
+  return reports.length;
+}
+
+/**
+ * Register, poll and report for every active VEN that is due
+ */
+export async function processVens(): Promise<void> {
+  const now = Date.now();
+  const vens = await db.select().from(openadrVens).where(eq(openadrVens.isActive, true));
+
+  for (const ven of vens) {
+    if (busy.has(ven.id)) continue;
+    busy.add(ven.id);
+
+    try {
+      const due = !ven.lastPollAt || now - ven.lastPollAt.getTime() >= (ven.pollInterval ?? 60) * 1000;
+
+      if (!ven.registrationId) {
+        if (due) {
+          await saveVen(ven.id, { lastPollAt: new Date() });
+          await registerVen(ven);
+        }
+      } else {
+        if (due) await pollVen(ven);
+        const current = await getVen(ven.id);
+        if (current) await sendDueReports(current);
+      }
+    } catch (error: any) {
+      console.error(`OpenADR VEN ${ven.id} (${ven.venName}) error:`, error?.message || error);
+      await saveVen(ven.id, { lastError: error?.message || 'Unknown error' }).catch(() => undefined);
+    } finally {
+      busy.delete(ven.id);
+    }
+  }
+}
+
+/**
+ * Start running the configured VENs
+ */
+export function initOpenAdrVenService(): void {
+  if (tickTimer) return;
+
+  tickTimer = setInterval(() => {
+    processVens().catch(error => {
+      console.error('Error processing OpenADR VENs:', error);
+    });
+  }, TICK_INTERVAL);
+
+  console.log('OpenADR VEN service initialized');
+}
+
+async function saveVen(id: number, values: Partial<OpenadrVen>): Promise<OpenadrVen> {
+  const [ven] = await db
+    .update(openadrVens)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(openadrVens.id, id))
+    .returning();
+  return ven;
+}
+
+async function send(ven: OpenadrVen, service: string, body: string): Promise<XmlElement> {
+  const baseUrl = ven.vtnUrl.endsWith('/') ? ven.vtnUrl : `${ven.vtnUrl}/`;
+  const response = await fetch(new URL(service, baseUrl), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/xml' },
+    body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  });
+
+  if (!response.ok) {
+    throw new Error(`VTN returned HTTP ${response.status} for ${service}`);
+  }
+
+  return parseOadrPayload(await response.text());
+}
+
+function expectMessage(message: XmlElement, name: string): void {
+  if (message.name === 'oadrResponse') {
+    const response = readResponse(message);
+    throw new Error(`Expected ${name}, VTN responded ${response.responseCode} ${response.responseDescription}`.trim());
+  }
+  if (message.name !== name) {
+    throw new Error(`Expected ${name}, got ${message.name}`);
+  }
+}
+
+// Handle a message the VTN sent in answer to a poll or request
+async function handleMessage(ven: OpenadrVen, message: XmlElement): Promise<void> {
+  const venId = ven.venId!;
+
+  switch (message.name) {
+    case 'oadrDistributeEvent':
+      await handleDistributeEvent(ven, message);
+      break;
+
+    case 'oadrCreateReport': {
+      const requests = readReportRequests(message);
+      await addReportRequests(ven, requests);
+      const reply = await send(ven, OADR_SERVICES.report, buildCreatedReport(venId, textAt(message, 'requestID') || null, await getPendingReportIds(ven.id)));
+      expectMessage(reply, 'oadrResponse');
+      break;
+    }
+
+    case 'oadrRegisteredReport':
+      await addReportRequests(ven, readReportRequests(message));
+      break;
+
+    case 'oadrRegisterReport':
+      // The VTN's own reports; the VEN does not request any of them
+      await send(ven, OADR_SERVICES.report, buildRegisteredReport(venId, textAt(message, 'requestID') || null));
+      break;
+
+    case 'oadrCancelReport': {
+      const { requestId, reportRequestIds } = readCancelReport(message);
+      const requests = ((ven.reportRequests as StoredReportRequest[] | null) || [])
+        .filter((request) => !reportRequestIds.includes(request.reportRequestId));
+      await saveVen(ven.id, { reportRequests: requests });
+      await send(ven, OADR_SERVICES.report, buildCanceledReport(venId, requestId, requests.map((request) => request.reportRequestId)));
+      break;
+    }
+
+    case 'oadrRequestReregistration':
+      await send(ven, OADR_SERVICES.registerParty, buildResponse(venId, null));
+      await registerVen(ven);
+      break;
+
+    case 'oadrCancelPartyRegistration':
+      await send(ven, OADR_SERVICES.registerParty, buildCanceledPartyRegistration(venId, textAt(message, 'requestID') || null, ven.registrationId));
+      await saveVen(ven.id, { registrationId: null, registeredAt: null, reportRequests: [] });
+      break;
+
+    case 'oadrResponse':
+      break;
+
+    default:
+      console.warn(`OpenADR VEN ${ven.id} ignored unsupported message ${message.name}`);
+  }
+}
+
+async function handleDistributeEvent(ven: OpenadrVen, message: XmlElement): Promise<void> {
+  const distribution = readDistributeEvent(message);
+  const program = await getProgram(ven.programId);
+  if (!program) {
+    throw new Error(`Program ${ven.programId} not found`);
+  }
+
+  const siteIds = await getProgramSites(program);
+  const responses: OadrEventResponse[] = [];
+
+  for (const event of distribution.events) {
+    const targetSites = getTargetSites(event, siteIds);
+    const optTypes: OadrOptType[] = [];
+
+    for (const siteId of targetSites) {
+      optTypes.push(await applyEvent(ven, program, event, siteId));
+    }
+
+    if (event.responseRequired === 'always') {
+      responses.push({
+        eventId: event.eventId,
+        modificationNumber: event.modificationNumber,
+        requestId: distribution.requestId,
+        optType: optTypes.includes('optIn') ? 'optIn' : 'optOut',
+      });
+    }
+  }
+
+  // A distribution lists every event in effect; events left out were withdrawn
+  await cancelWithdrawnEvents(ven, distribution.events.map((event) => event.eventId));
+
+  if (responses.length > 0) {
+    const reply = await send(ven, OADR_SERVICES.event, buildCreatedEvent(ven.venId!, distribution.requestId, responses));
+    expectMessage(reply, 'oadrResponse');
+  }
+}
+
+// Create or update the site event for an OpenADR event and decide whether
+// the site opts in
+async function applyEvent(ven: OpenadrVen, program: DemandResponseProgram, event: OadrEvent, siteId: number): Promise<OadrOptType> {
+  const optType = await getOptType(siteId, program.id);
+
+  // Test events check the signal path and never curtail anything
+  if (event.testEvent) return optType;
+
+  const [existing] = await db
+    .select()
+    .from(openadrEvents)
+    .where(and(
+      eq(openadrEvents.venId, ven.id),
+      eq(openadrEvents.oadrEventId, event.eventId),
+      eq(openadrEvents.siteId, siteId)
+    ));
+
+  if (existing && existing.modificationNumber === event.modificationNumber && existing.oadrStatus === event.status) {
+    return (existing.optType as OadrOptType) || optType;
+  }
+
+  const cancelled = event.status === 'cancelled';
+  if (!existing && cancelled) return optType;
+
+  const values = await mapEvent(ven, program, event, siteId);
+  let eventId: number;
+
+  if (existing) {
+    const [current] = await db.select().from(demandResponseEvents).where(eq(demandResponseEvents.id, existing.eventId));
+    const closed = current?.status === 'completed' || current?.status === 'cancelled';
+
+    if (!closed) {
+      await db
+        .update(demandResponseEvents)
+        .set({ ...values, ...(cancelled ? { status: 'cancelled' as const } : {}), updatedAt: new Date() })
+        .where(eq(demandResponseEvents.id, existing.eventId));
+    }
+    eventId = existing.eventId;
+  } else {
+    const [created] = await db
+      .insert(demandResponseEvents)
+      .values({ ...values, status: 'scheduled' })
+      .returning();
+    eventId = created.id;
+  }
+
+  const participationOptType = await getOptType(siteId, program.id, eventId);
+  const record = {
+    modificationNumber: event.modificationNumber,
+    oadrStatus: event.status,
+    signals: event.signals,
+    optType: participationOptType,
+    updatedAt: new Date(),
+  };
+
+  if (existing) {
+    await db.update(openadrEvents).set(record).where(eq(openadrEvents.id, existing.id));
+  } else {
+    await db.insert(openadrEvents).values({ ...record, venId: ven.id, oadrEventId: event.eventId, siteId, eventId });
+  }
+
+  return participationOptType;
+}
+
+async function mapEvent(ven: OpenadrVen, program: DemandResponseProgram, event: OadrEvent, siteId: number) {
+  const durationMs = event.durationMs > 0
+    ? event.durationMs
+    : (program.maxEventDuration ?? DEFAULT_EVENT_DURATION_MINUTES) * 60 * 1000;
+  const signal = event.signals.find((candidate) => candidate.signalName === 'LOAD_DISPATCH')
+    ?? event.signals.find((candidate) => candidate.signalName === 'SIMPLE')
+    ?? event.signals[0];
+  const level = signal?.signalName === 'SIMPLE' ? getPeakValue(signal) : null;
+
+  return {
+    siteId,
+    programId: program.id,
+    name: `OpenADR event ${event.eventId}`,
+    description: signal ? describeSignal(signal) : 'No event signal',
+    startTime: event.start,
+    endTime: new Date(event.start.getTime() + durationMs),
+    notificationTime: event.notificationMs > 0 ? new Date(event.start.getTime() - event.notificationMs) : null,
+    targetReduction: signal ? toNumeric(await getTargetReduction(signal, siteId)) : null,
+    isEmergency: level != null && level >= EMERGENCY_LEVEL,
+    notes: [
+      `VTN ${ven.vtnId ?? ven.vtnUrl}`,
+      event.marketContext ? `market context ${event.marketContext}` : null,
+      `modification ${event.modificationNumber}`,
+    ].filter(Boolean).join(', '),
+  };
+}
+
+function toNumeric(value: number | null): string | null {
+  return value != null ? value.toFixed(3) : null;
+}
+
+// Largest value over the event, or the current value of a signal without intervals
+function getPeakValue(signal: OadrEventSignal): number | null {
+  if (signal.intervals.length > 0) {
+    return Math.max(...signal.intervals.map((interval) => interval.value));
+  }
+  return signal.currentValue;
+}
+
+function describeSignal(signal: OadrEventSignal): string {
+  const value = getPeakValue(signal);
+  const units = signal.itemUnits ? ` ${signal.siScaleCode && signal.siScaleCode !== 'none' ? signal.siScaleCode : ''}${signal.itemUnits}` : '';
+  return `${signal.signalName} ${signal.signalType} ${value ?? 'n/a'}${units}`;
+}
+
+// Reduction in kW asked of a site: SIMPLE levels shed a share of the site's
+// capacity, LOAD_DISPATCH gives the reduction (delta), the consumption to
+// stay under (setpoint) or the share of consumption to keep (multiplier)
+async function getTargetReduction(signal: OadrEventSignal, siteId: number): Promise<number | null> {
+  const value = getPeakValue(signal);
+  if (value == null) return null;
+
+  if (signal.signalName === 'SIMPLE' || signal.signalType === 'level') {
+    const [settings] = await db
+      .select({ capacity: siteDemandResponseSettings.maxReductionCapacity })
+      .from(siteDemandResponseSettings)
+      .where(eq(siteDemandResponseSettings.siteId, siteId));
+    if (settings?.capacity == null) return null;
+
+    const share = SIMPLE_LEVEL_SHARES[Math.min(Math.max(Math.round(value), 0), SIMPLE_LEVEL_SHARES.length - 1)];
+    return Number(settings.capacity) * share;
+  }
+
+  const kw = value * (SI_SCALE_TO_KW[signal.siScaleCode ?? 'k'] ?? 1);
+
+  switch (signal.signalType) {
+    case 'delta':
+      return Math.abs(kw);
+    case 'setpoint':
+      return Math.max((await getRecentLoad(siteId)) - kw, 0);
+    case 'multiplier':
+      return Math.max((await getRecentLoad(siteId)) * (1 - value), 0);
+    default:
+      return null;
+  }
+}
+
+// Average grid import over the last hour
+async function getRecentLoad(siteId: number): Promise<number> {
+  const end = new Date();
+  const start = new Date(end.getTime() - 60 * 60 * 1000);
+  const readings = await storage.getEnergyReadingsByTimeRange(siteId, start, end);
+  return getAverageLoad(buildMeterIntervals(readings), start, end).averageKw;
+}
+
+// Sites opt out if they declined the event, are not enrolled, or default to opting out
+async function getOptType(siteId: number, programId: number, eventId?: number): Promise<OadrOptType> {
+  if (eventId) {
+    const [participation] = await db
+      .select({ status: siteEventParticipations.participationStatus })
+      .from(siteEventParticipations)
+      .where(and(eq(siteEventParticipations.siteId, siteId), eq(siteEventParticipations.eventId, eventId)));
+    if (participation) return participation.status === 'opt_out' ? 'optOut' : 'optIn';
+  }
+
+  const [settings] = await db
+    .select()
+    .from(siteDemandResponseSettings)
+    .where(eq(siteDemandResponseSettings.siteId, siteId));
+
+  return settings?.isEnrolled && settings.defaultParticipation !== 'opt_out' ? 'optIn' : 'optOut';
+}
+
+async function getProgram(programId: number): Promise<DemandResponseProgram | undefined> {
+  const [program] = await db.select().from(demandResponsePrograms).where(eq(demandResponsePrograms.id, programId));
+  return program;
+}
+
+// Sites a program's events apply to: its own site, or every enrolled site
+async function getProgramSites(program: DemandResponseProgram): Promise<number[]> {
+  if (program.siteId) return [program.siteId];
+
+  const enrolled = await db
+    .select({ siteId: siteDemandResponseSettings.siteId })
+    .from(siteDemandResponseSettings)
+    .where(eq(siteDemandResponseSettings.isEnrolled, true));
+  return enrolled.map((settings) => settings.siteId);
+}
+
+// Events targeting resources apply only to the matching sites
+function getTargetSites(event: OadrEvent, siteIds: number[]): number[] {
+  if (event.target.resourceIds.length === 0) return siteIds;
+  return siteIds.filter((siteId) => event.target.resourceIds.includes(getResourceId(siteId)));
+}
+
+function getResourceId(siteId: number): string {
+  return `site-${siteId}`;
+}
+
+function getPowerRid(siteId: number): string {
+  return `site-${siteId}-power`;
+}
+
+async function cancelWithdrawnEvents(ven: OpenadrVen, activeEventIds: string[]): Promise<void> {
+  const conditions = [eq(openadrEvents.venId, ven.id)];
+  if (activeEventIds.length > 0) conditions.push(notInArray(openadrEvents.oadrEventId, activeEventIds));
+
+  const withdrawn = await db
+    .select({ id: openadrEvents.id, eventId: openadrEvents.eventId })
+    .from(openadrEvents)
+    .innerJoin(demandResponseEvents, eq(demandResponseEvents.id, openadrEvents.eventId))
+    .where(and(...conditions, inArray(demandResponseEvents.status, ['scheduled', 'pending', 'active'])));
+
+  for (const { id, eventId } of withdrawn) {
+    await db
+      .update(demandResponseEvents)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(eq(demandResponseEvents.id, eventId));
+    await db
+      .update(openadrEvents)
+      .set({ oadrStatus: 'cancelled', updatedAt: new Date() })
+      .where(eq(openadrEvents.id, id));
+  }
+}
+
+// Offer each covered site's grid power as a telemetry data point
+async function registerReports(ven: OpenadrVen): Promise<OpenadrVen> {
+  const program = await getProgram(ven.programId);
+  const siteIds = program ? await getProgramSites(program) : [];
+
+  const message = await send(ven, OADR_SERVICES.report, buildRegisterReport({
+    requestId: randomUUID(),
+    venId: ven.venId!,
+    reportSpecifierId: REPORT_SPECIFIER_ID,
+    dataPoints: siteIds.map((siteId) => ({
+      rId: getPowerRid(siteId),
+      resourceId: getResourceId(siteId),
+      description: 'Net grid import',
+    })),
+    minSamplingMs: MIN_SAMPLING_MS,
+    maxSamplingMs: MAX_SAMPLING_MS,
+  }));
+  expectMessage(message, 'oadrRegisteredReport');
+
+  const requests = readReportRequests(message);
+  if (requests.length > 0) {
+    await addReportRequests(ven, requests);
+    const reply = await send(ven, OADR_SERVICES.report, buildCreatedReport(ven.venId!, null, await getPendingReportIds(ven.id)));
+    expectMessage(reply, 'oadrResponse');
+  }
+
+  return (await getVen(ven.id)) || ven;
+}
+
+async function addReportRequests(ven: OpenadrVen, requests: OadrReportRequest[]): Promise<void> {
+  if (requests.length === 0) return;
+
+  const current = (await getVen(ven.id))?.reportRequests as StoredReportRequest[] | null;
+  const ids = new Set(requests.map((request) => request.reportRequestId));
+  const now = Date.now();
+
+  const stored: StoredReportRequest[] = requests.map((request) => {
+    const start = request.start?.getTime() ?? now;
+    return {
+      ...request,
+      start: request.start ? request.start.toISOString() : null,
+      // The first report covers the first report-back period
+      nextReportAt: new Date(Math.max(start, now) + Math.max(request.reportBackDurationMs, 0)).toISOString(),
+    };
+  });
+
+  await saveVen(ven.id, {
+    reportRequests: [...(current || []).filter((request) => !ids.has(request.reportRequestId)), ...stored],
+  });
+}
+
+async function getPendingReportIds(venId: number): Promise<string[]> {
+  const ven = await getVen(venId);
+  return ((ven?.reportRequests as StoredReportRequest[] | null) || []).map((request) => request.reportRequestId);
+}
+
+// Average grid power per site for each granularity step of the report-back period
+async function buildTelemetryReport(request: StoredReportRequest, now: Date): Promise<OadrTelemetryReport> {
+  const periodMs = request.reportBackDurationMs > 0 ? request.reportBackDurationMs : request.granularityMs || MIN_SAMPLING_MS;
+  const end = Math.min(new Date(request.nextReportAt).getTime(), now.getTime());
+  const start = end - periodMs;
+  const stepMs = request.granularityMs > 0 ? Math.min(request.granularityMs, periodMs) : periodMs;
+
+  const sites = request.rIds
+    .map((rId) => ({ rId, siteId: Number(/^site-(\d+)-power$/.exec(rId)?.[1]) }))
+    .filter((site) => !isNaN(site.siteId));
+
+  const meterIntervals = new Map<number, ReturnType<typeof buildMeterIntervals>>();
+  for (const { siteId } of sites) {
+    const readings = await storage.getEnergyReadingsByTimeRange(siteId, new Date(start - stepMs), new Date(end));
+    meterIntervals.set(siteId, buildMeterIntervals(readings));
+  }
+
+  const intervals = [];
+  for (let t = start; t < end; t += stepMs) {
+    const intervalEnd = Math.min(t + stepMs, end);
+    intervals.push({
+      start: new Date(t),
+      durationMs: intervalEnd - t,
+      values: sites.map(({ rId, siteId }) => ({
+        rId,
+        value: getAverageLoad(meterIntervals.get(siteId) || [], new Date(t), new Date(intervalEnd)).averageKw,
+      })),
+    });
+  }
+
+  return {
+    reportRequestId: request.reportRequestId,
+    reportSpecifierId: request.reportSpecifierId,
+    start: new Date(start),
+    durationMs: end - start,
+    intervals,
+  };
+}
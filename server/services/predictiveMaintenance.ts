@@ -26,6 +26,7 @@ import {
 import { eq, and, gte, lte, desc, sql } from 'drizzle-orm';
 import { OpenAI } from 'openai';
 import type { Device } from '@shared/schema';
+import { processMaintenanceAlert } from './alarmService';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -575,6 +576,7 @@ class PredictiveMaintenanceService {
           .returning();
           
         alerts.push(alert);
+        await processMaintenanceAlert(alert);
       }
       
       // Check thresholds
@@ -632,6 +634,7 @@ class PredictiveMaintenanceService {
               .returning();
               
             alerts.push(alert);
+            await processMaintenanceAlert(alert);
           }
         }
       }
@@ -0,0 +1,293 @@
+/**
+ * PV Production Service
+ *
+ * Expected PV output for a site from its coordinates and PV array
+ * definitions, using the solar position and irradiance model in
+ * `utils/solarModel`. Arrays come from `pv_arrays`; sites that have not
+ * described their arrays yet are modelled from their solar PV devices with
+ * an equator-facing default orientation. Sites without coordinates cannot be
+ * modelled and get no setup.
+ */
+
+import { db } from '../db';
+import { weatherData, type PvArray, type Site } from '@shared/schema';
+import { and, eq, gte, lte } from 'drizzle-orm';
+import { storage } from '../storage';
+import {
+  applyCloudCover,
+  getClearSkyIrradiance,
+  getPlaneOfArrayIrradiance,
+  getPvArrayPower,
+  getSolarPosition,
+  type PvArrayParameters,
+} from '../utils/solarModel';
+
+// Ambient temperature assumed when no weather is available
+const DEFAULT_AMBIENT_TEMPERATURE = 20;
+
+// Weather samples further than this from an instant are not used for it
+const WEATHER_MATCH_WINDOW_MS = 90 * 60 * 1000;
+
+const ORIENTATION_AZIMUTHS: Record<string, number> = {
+  north: 0,
+  northeast: 45,
+  east: 90,
+  southeast: 135,
+  south: 180,
+  southwest: 225,
+  west: 270,
+  northwest: 315,
+};
+
+export interface SiteLocation {
+  latitude: number;
+  longitude: number;
+  elevation: number;
+}
+
+export interface ModelledPvArray extends PvArrayParameters {
+  id: number | null; // Null when derived from a device
+  name: string;
+  deviceId: number | null;
+}
+
+export interface SitePvSetup extends SiteLocation {
+  siteId: number;
+  source: 'pv_arrays' | 'devices';
+  totalCapacityKwp: number;
+  arrays: ModelledPvArray[];
+}
+
+export interface WeatherConditions {
+  cloudCover?: number | null; // %
+  temperature?: number | null; // °C
+}
+
+export interface PvOutputEstimate {
+  time: string;
+  solarElevation: number;
+  clearSkyGhi: number;
+  ghi: number;
+  clearSkyKw: number;
+  expectedKw: number; // Clear sky attenuated by the weather, if known
+}
+
+export interface ExpectedProduction {
+  clearSkyKwh: number;
+  expectedKwh: number;
+  weatherCoverage: number; // Fraction of daylight steps with weather data
+}
+
+export type WeatherLookup = (at: Date) => WeatherConditions | null;
+
+/**
+ * Coordinates of a site, or null if they have not been set
+ */
+export function getSiteLocation(site: Site): SiteLocation | null {
+  if (site.latitude == null || site.longitude == null) return null;
+  return {
+    latitude: Number(site.latitude),
+    longitude: Number(site.longitude),
+    elevation: Number(site.elevation ?? 0),
+  };
+}
+
+function fromPvArray(pvArray: PvArray): ModelledPvArray {
+  return {
+    id: pvArray.id,
+    name: pvArray.name,
+    deviceId: pvArray.deviceId,
+    capacityKwp: Number(pvArray.capacityKwp),
+    tilt: Number(pvArray.tilt),
+    azimuth: Number(pvArray.azimuth),
+    losses: Number(pvArray.losses),
+    temperatureCoefficient: Number(pvArray.temperatureCoefficient),
+    noct: Number(pvArray.noct),
+    albedo: Number(pvArray.albedo),
+  };
+}
+
+// Device settings may carry `tilt` and either `azimuth` or an `orientation` name
+function getDeviceAzimuth(settings: any, latitude: number): number {
+  if (settings?.azimuth != null && !isNaN(Number(settings.azimuth))) {
+    return Number(settings.azimuth);
+  }
+  const orientation = typeof settings?.orientation === 'string' ? settings.orientation.toLowerCase().replace(/[\s-]/g, '') : '';
+  return ORIENTATION_AZIMUTHS[orientation] ?? (latitude >= 0 ? 180 : 0);
+}
+
+/**
+ * PV arrays and location of a site, or null if the site has no coordinates
+ * or no PV capacity
+ */
+export async function getSitePvSetup(siteId: number): Promise<SitePvSetup | null> {
+  const site = await storage.getSite(siteId);
+  if (!site) return null;
+
+  const location = getSiteLocation(site);
+  if (!location) return null;
+
+  let source: SitePvSetup['source'] = 'pv_arrays';
+  let arrays = (await storage.getPvArrays(siteId))
+    .filter((pvArray) => pvArray.isActive !== false)
+    .map(fromPvArray);
+
+  if (arrays.length === 0) {
+    source = 'devices';
+    const devices = await storage.getDevicesByType(siteId, 'solar_pv');
+    arrays = devices
+      .filter((device) => Number(device.capacity) > 0)
+      .map((device) => {
+        const settings = device.settings as any;
+        return {
+          id: null,
+          name: device.name,
+          deviceId: device.id,
+          capacityKwp: Number(device.capacity),
+          tilt: settings?.tilt != null && !isNaN(Number(settings.tilt)) ? Number(settings.tilt) : 30,
+          azimuth: getDeviceAzimuth(settings, location.latitude),
+          losses: 14,
+          temperatureCoefficient: -0.4,
+          noct: 45,
+          albedo: 0.2,
+        };
+      });
+  }
+
+  if (arrays.length === 0) return null;
+
+  return {
+    siteId,
+    source,
+    ...location,
+    totalCapacityKwp: arrays.reduce((sum, pvArray) => sum + pvArray.capacityKwp, 0),
+    arrays,
+  };
+}
+
+/**
+ * Clear-sky and weather-adjusted PV output of a site at an instant
+ */
+export function estimatePvOutput(setup: SitePvSetup, at: Date, weather?: WeatherConditions | null): PvOutputEstimate {
+  const position = getSolarPosition(at, setup.latitude, setup.longitude);
+  const clearSky = getClearSkyIrradiance(at, position, setup.elevation);
+  const irradiance = weather?.cloudCover != null
+    ? applyCloudCover(at, position, clearSky, weather.cloudCover)
+    : clearSky;
+  const ambientTemperature = weather?.temperature ?? DEFAULT_AMBIENT_TEMPERATURE;
+
+  let clearSkyKw = 0;
+  let expectedKw = 0;
+  for (const pvArray of setup.arrays) {
+    const clearPoa = getPlaneOfArrayIrradiance(position, clearSky, pvArray.tilt, pvArray.azimuth, pvArray.albedo);
+    const poa = getPlaneOfArrayIrradiance(position, irradiance, pvArray.tilt, pvArray.azimuth, pvArray.albedo);
+    clearSkyKw += getPvArrayPower(pvArray, clearPoa.poa, ambientTemperature);
+    expectedKw += getPvArrayPower(pvArray, poa.poa, ambientTemperature);
+  }
+
+  return {
+    time: at.toISOString(),
+    solarElevation: position.elevation,
+    clearSkyGhi: clearSky.ghi,
+    ghi: irradiance.ghi,
+    clearSkyKw,
+    expectedKw,
+  };
+}
+
+/**
+ * Expected energy over a period, integrated in fixed steps
+ */
+export function getExpectedProduction(
+  setup: SitePvSetup,
+  start: Date,
+  end: Date,
+  weather?: WeatherLookup,
+  stepMinutes: number = 15
+): ExpectedProduction {
+  const stepMs = stepMinutes * 60 * 1000;
+
+  let clearSkyKwh = 0;
+  let expectedKwh = 0;
+  let daylightSteps = 0;
+  let weatherSteps = 0;
+
+  // Evaluate each step at its midpoint
+  for (let t = start.getTime(); t < end.getTime(); t += stepMs) {
+    const hours = Math.min(stepMs, end.getTime() - t) / (60 * 60 * 1000);
+    const at = new Date(t + (hours * 60 * 60 * 1000) / 2);
+    const conditions = weather ? weather(at) : null;
+    const estimate = estimatePvOutput(setup, at, conditions);
+
+    if (estimate.solarElevation > 0) {
+      daylightSteps++;
+      if (conditions) weatherSteps++;
+    }
+    clearSkyKwh += estimate.clearSkyKw * hours;
+    expectedKwh += estimate.expectedKw * hours;
+  }
+
+  return {
+    clearSkyKwh,
+    expectedKwh,
+    weatherCoverage: daylightSteps > 0 ? weatherSteps / daylightSteps : 0,
+  };
+}
+
+/**
+ * Stored weather for a site between two instants, matched to the nearest
+ * sample. Observations are keyed by their timestamp, forecasts by the time
+ * they forecast.
+ */
+export async function getSiteWeatherLookup(
+  siteId: number,
+  start: Date,
+  end: Date,
+  forecasted: boolean = false
+): Promise<WeatherLookup> {
+  const from = new Date(start.getTime() - WEATHER_MATCH_WINDOW_MS);
+  const to = new Date(end.getTime() + WEATHER_MATCH_WINDOW_MS);
+  const timeColumn = forecasted ? weatherData.forecastTime : weatherData.timestamp;
+
+  const rows = await db
+    .select()
+    .from(weatherData)
+    .where(and(
+      eq(weatherData.siteId, siteId),
+      eq(weatherData.isForecasted, forecasted),
+      gte(timeColumn, from),
+      lte(timeColumn, to)
+    ));
+
+  // Generated fallback weather is random and would only add noise
+  const samples = rows
+    .filter((row) => row.source !== 'fallback')
+    .map((row) => ({
+      time: (forecasted ? row.forecastTime! : row.timestamp).getTime(),
+      conditions: {
+        cloudCover: row.cloudCover != null ? Number(row.cloudCover) : null,
+        temperature: row.temperature != null ? Number(row.temperature) : null,
+      },
+    }))
+    .sort((a, b) => a.time - b.time);
+
+  return (at: Date) => {
+    if (samples.length === 0) return null;
+
+    // First sample at or after the instant
+    const time = at.getTime();
+    let low = 0;
+    let high = samples.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (samples[mid].time < time) low = mid + 1;
+      else high = mid;
+    }
+
+    const candidates = [samples[low - 1], samples[low]].filter(Boolean);
+    const nearest = candidates.reduce((best, sample) =>
+      Math.abs(sample.time - time) < Math.abs(best.time - time) ? sample : best
+    );
+    return Math.abs(nearest.time - time) <= WEATHER_MATCH_WINDOW_MS ? nearest.conditions : null;
+  };
+}
@@ -0,0 +1,364 @@
+/**
+ * Rate Limit Service
+ *
+ * Sliding-window rate limiting configured by the `rate_limits` table. Each rule
+ * names a limit (e.g. 'login', 'optimization', 'device_command') and how clients
+ * are identified: by IP address, user or API key. A rule with a `resourceId`
+ * overrides the general rule for that one client. Clients that exceed a rule
+ * with a block duration are blocked for that long; blocks and limit violations
+ * are recorded in `rate_limit_events`.
+ */
+
+import { db } from '../db';
+import { rateLimits, rateLimitEvents, type RateLimit, type RateLimitEvent, type InsertRateLimit } from '@shared/schema';
+import { and, eq, gt, desc, sql } from 'drizzle-orm';
+
+export type RateLimitResourceType = 'ip' | 'user' | 'api_key';
+
+export interface RateLimitClient {
+  ipAddress?: string;
+  userId?: number;
+  apiKeyId?: number;
+  userAgent?: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+  retryAfterSeconds?: number;
+  blockedUntil?: Date;
+  rule: RateLimit;
+}
+
+// Limits created when the rate_limits table is empty
+const DEFAULT_LIMITS: InsertRateLimit[] = [
+  { limitKey: 'login', resourceType: 'ip', maxRequests: 10, timeWindowSeconds: 300, blockDurationSeconds: 900 },
+  { limitKey: 'optimization', resourceType: 'user', maxRequests: 10, timeWindowSeconds: 3600, blockDurationSeconds: null },
+  { limitKey: 'optimization', resourceType: 'ip', maxRequests: 20, timeWindowSeconds: 3600, blockDurationSeconds: null },
+  { limitKey: 'device_command', resourceType: 'user', maxRequests: 30, timeWindowSeconds: 60, blockDurationSeconds: 300 },
+  { limitKey: 'device_command', resourceType: 'api_key', maxRequests: 60, timeWindowSeconds: 60, blockDurationSeconds: 300 },
+];
+
+const RULE_CACHE_TTL = 60000; // Reload rules from the database every minute
+const CLEANUP_INTERVAL = 60000;
+
+// Request timestamps per limit bucket, oldest first
+const windows = new Map<string, number[]>();
+// Active blocks per limit bucket
+const blocks = new Map<string, { until: number; eventId: number }>();
+// Time of the last recorded violation per limit bucket
+const violations = new Map<string, number>();
+
+let cachedRules: RateLimit[] = [];
+let rulesLoadedAt = 0;
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Check a request against every rule for a limit and record it if all of them allow it.
+ * Returns null when no rule applies to the client.
+ */
+export async function checkRateLimit(limitKey: string, client: RateLimitClient): Promise<RateLimitResult | null> {
+  const rules = selectRules(await getRules(), limitKey, client);
+  if (rules.length === 0) {
+    return null;
+  }
+
+  const now = Date.now();
+  const buckets = rules.map(rule => {
+    const clientId = getClientId(rule.resourceType as RateLimitResourceType, client)!;
+    const bucket = `${rule.limitKey}:${rule.resourceType}:${clientId}`;
+    const windowMs = rule.timeWindowSeconds * 1000;
+    const timestamps = (windows.get(bucket) || []).filter(ts => ts > now - windowMs);
+    windows.set(bucket, timestamps);
+
+    return { rule, clientId, bucket, windowMs, timestamps };
+  });
+
+  // Check every rule before recording, so a request rejected by one rule does not count against the others
+  for (const { rule, clientId, bucket, windowMs, timestamps } of buckets) {
+    const block = blocks.get(bucket);
+    if (block && block.until > now) {
+      return {
+        allowed: false,
+        limit: rule.maxRequests,
+        remaining: 0,
+        resetSeconds: Math.ceil((block.until - now) / 1000),
+        retryAfterSeconds: Math.ceil((block.until - now) / 1000),
+        blockedUntil: new Date(block.until),
+        rule,
+      };
+    }
+
+    if (timestamps.length < rule.maxRequests) {
+      continue;
+    }
+
+    const resetSeconds = Math.ceil(((timestamps[0] ?? now) + windowMs - now) / 1000);
+    const result: RateLimitResult = {
+      allowed: false,
+      limit: rule.maxRequests,
+      remaining: 0,
+      resetSeconds,
+      retryAfterSeconds: resetSeconds,
+      rule,
+    };
+
+    if (rule.blockDurationSeconds && rule.blockDurationSeconds > 0) {
+      const until = now + rule.blockDurationSeconds * 1000;
+      const event = await recordEvent(rule, clientId, client, timestamps.length + 1, new Date(until));
+      blocks.set(bucket, { until, eventId: event.id });
+      windows.delete(bucket);
+
+      result.resetSeconds = rule.blockDurationSeconds;
+      result.retryAfterSeconds = rule.blockDurationSeconds;
+      result.blockedUntil = new Date(until);
+    } else if ((violations.get(bucket) ?? 0) <= now - windowMs) {
+      // Record the first rejection in each window rather than every one
+      violations.set(bucket, now);
+      await recordEvent(rule, clientId, client, timestamps.length + 1, null);
+    }
+
+    return result;
+  }
+
+  let mostRestrictive: RateLimitResult | null = null;
+
+  for (const { rule, windowMs, timestamps } of buckets) {
+    timestamps.push(now);
+
+    const result: RateLimitResult = {
+      allowed: true,
+      limit: rule.maxRequests,
+      remaining: Math.max(rule.maxRequests - timestamps.length, 0),
+      resetSeconds: Math.ceil((timestamps[0] + windowMs - now) / 1000),
+      rule,
+    };
+
+    if (!mostRestrictive || result.remaining < mostRestrictive.remaining) {
+      mostRestrictive = result;
+    }
+  }
+
+  return mostRestrictive;
+}
+
+/**
+ * Get clients that are currently blocked
+ */
+export async function getBlockedClients() {
+  return db
+    .select({
+      event: rateLimitEvents,
+      limitKey: rateLimits.limitKey,
+    })
+    .from(rateLimitEvents)
+    .leftJoin(rateLimits, eq(rateLimitEvents.limitId, rateLimits.id))
+    .where(and(eq(rateLimitEvents.isBlocked, true), gt(rateLimitEvents.blockedUntil, new Date())))
+    .orderBy(desc(rateLimitEvents.timestamp));
+}
+
+/**
+ * Get recent rate limit violations
+ */
+export async function getRateLimitEvents(limit: number = 100) {
+  return db
+    .select({
+      event: rateLimitEvents,
+      limitKey: rateLimits.limitKey,
+    })
+    .from(rateLimitEvents)
+    .leftJoin(rateLimits, eq(rateLimitEvents.limitId, rateLimits.id))
+    .orderBy(desc(rateLimitEvents.timestamp))
+    .limit(limit);
+}
+
+/**
+ * Lift a block before it expires
+ */
+export async function unblockClient(eventId: number): Promise<RateLimitEvent | undefined> {
+  const [event] = await db
+    .update(rateLimitEvents)
+    .set({ blockedUntil: new Date() })
+    .where(and(eq(rateLimitEvents.id, eventId), eq(rateLimitEvents.isBlocked, true)))
+    .returning();
+
+  if (event) {
+    for (const [bucket, block] of Array.from(blocks.entries())) {
+      if (block.eventId === eventId) {
+        blocks.delete(bucket);
+      }
+    }
+  }
+
+  return event;
+}
+
+/**
+ * Get all configured rate limit rules
+ */
+export async function getRateLimitRules(): Promise<RateLimit[]> {
+  return db.select().from(rateLimits).orderBy(rateLimits.limitKey, rateLimits.resourceType);
+}
+
+/**
+ * Create a rate limit rule
+ */
+export async function createRateLimitRule(rule: InsertRateLimit): Promise<RateLimit> {
+  const [created] = await db.insert(rateLimits).values(rule).returning();
+  rulesLoadedAt = 0;
+  return created;
+}
+
+/**
+ * Update a rate limit rule
+ */
+export async function updateRateLimitRule(id: number, rule: Partial<InsertRateLimit>): Promise<RateLimit | undefined> {
+  const [updated] = await db
+    .update(rateLimits)
+    .set({ ...rule, updatedAt: new Date() })
+    .where(eq(rateLimits.id, id))
+    .returning();
+  rulesLoadedAt = 0;
+  return updated;
+}
+
+/**
+ * Delete a rate limit rule (its recorded events are kept)
+ */
+export async function deleteRateLimitRule(id: number): Promise<boolean> {
+  await db.update(rateLimitEvents).set({ limitId: null }).where(eq(rateLimitEvents.limitId, id));
+  const deleted = await db.delete(rateLimits).where(eq(rateLimits.id, id)).returning({ id: rateLimits.id });
+  rulesLoadedAt = 0;
+  return deleted.length > 0;
+}
+
+/**
+ * Create the default rules when none are configured
+ */
+export async function seedDefaultRateLimits(): Promise<number> {
+  const [existing] = await db.select({ count: sql<number>`count(*)::int` }).from(rateLimits);
+  if (existing && existing.count > 0) {
+    return 0;
+  }
+
+  await db.insert(rateLimits).values(DEFAULT_LIMITS);
+  console.log(`Created ${DEFAULT_LIMITS.length} default rate limit rules`);
+  return DEFAULT_LIMITS.length;
+}
+
+/**
+ * Initialize rate limiting: seed default rules, restore active blocks and
+ * start pruning expired windows
+ */
+export async function initRateLimitService(): Promise<void> {
+  await seedDefaultRateLimits();
+
+  const active = await getBlockedClients();
+  for (const { event, limitKey } of active) {
+    if (limitKey && event.blockedUntil) {
+      blocks.set(`${limitKey}:${event.resourceType}:${event.resourceId}`, {
+        until: event.blockedUntil.getTime(),
+        eventId: event.id,
+      });
+    }
+  }
+
+  if (!cleanupTimer) {
+    cleanupTimer = setInterval(pruneWindows, CLEANUP_INTERVAL);
+  }
+
+  console.log(`Rate limit service initialized (${active.length} active blocks restored)`);
+}
+
+async function getRules(): Promise<RateLimit[]> {
+  if (Date.now() - rulesLoadedAt > RULE_CACHE_TTL) {
+    cachedRules = await db.select().from(rateLimits);
+    rulesLoadedAt = Date.now();
+  }
+  return cachedRules;
+}
+
+// Rules for a limit that apply to the client; a client-specific rule replaces
+// the general rule of the same resource type
+function selectRules(rules: RateLimit[], limitKey: string, client: RateLimitClient): RateLimit[] {
+  const selected = new Map<string, RateLimit>();
+
+  for (const rule of rules) {
+    if (rule.limitKey !== limitKey) continue;
+
+    const clientId = getClientId(rule.resourceType as RateLimitResourceType, client);
+    if (clientId === null) continue;
+    if (rule.resourceId && rule.resourceId !== clientId) continue;
+
+    const current = selected.get(rule.resourceType);
+    if (!current || (!current.resourceId && rule.resourceId)) {
+      selected.set(rule.resourceType, rule);
+    }
+  }
+
+  return Array.from(selected.values());
+}
+
+function getClientId(resourceType: RateLimitResourceType, client: RateLimitClient): string | null {
+  switch (resourceType) {
+    case 'ip':
+      return client.ipAddress || null;
+    case 'user':
+      return client.userId !== undefined ? String(client.userId) : null;
+    case 'api_key':
+      return client.apiKeyId !== undefined ? String(client.apiKeyId) : null;
+    default:
+      return null;
+  }
+}
+
+async function recordEvent(
+  rule: RateLimit,
+  clientId: string,
+  client: RateLimitClient,
+  requestCount: number,
+  blockedUntil: Date | null
+): Promise<RateLimitEvent> {
+  const [event] = await db
+    .insert(rateLimitEvents)
+    .values({
+      limitId: rule.id,
+      resourceType: rule.resourceType,
+      resourceId: clientId,
+      userId: client.userId ?? null,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      requestCount,
+      isBlocked: blockedUntil !== null,
+      blockedUntil,
+    })
+    .returning();
+
+  console.warn(
+    `Rate limit ${rule.limitKey} exceeded by ${rule.resourceType} ${clientId}` +
+    (blockedUntil ? `, blocked until ${blockedUntil.toISOString()}` : '')
+  );
+
+  return event;
+}
+
+function pruneWindows(): void {
+  const now = Date.now();
+
+  for (const [bucket, block] of Array.from(blocks.entries())) {
+    if (block.until <= now) blocks.delete(bucket);
+  }
+
+  const maxWindow = Math.max(3600, ...cachedRules.map(rule => rule.timeWindowSeconds)) * 1000;
+  for (const [bucket, timestamps] of Array.from(windows.entries())) {
+    if (timestamps.length === 0 || timestamps[timestamps.length - 1] < now - maxWindow) {
+      windows.delete(bucket);
+    }
+  }
+
+  for (const [bucket, recordedAt] of Array.from(violations.entries())) {
+    if (recordedAt < now - maxWindow) violations.delete(bucket);
+  }
+}
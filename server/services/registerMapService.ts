@@ -0,0 +1,397 @@
+/**
+ * Register Map Service
+ *
+ * Keeps the register maps of catalog models in device_catalog_registers and
+ * generates Modbus polling configs from them. Maps can be exported and
+ * imported as CSV or JSON, so new device models can be added without code
+ * changes. An import is validated as a whole: it is rejected with the errors
+ * of every bad row, or stored in one transaction.
+ *
+ * CSV columns (header row required, columns in any order):
+ *   name, protocol, register_type, address, data_type, register_count,
+ *   byte_order, word_order, scale_factor, offset, unit, min, max, access,
+ *   bits, description, required, default_value, notes
+ * `bits` names the flags of a bitfield as `0:fault;1:warning`. JSON holds the
+ * same fields in camelCase (`registerType`, `scaleFactor`, ...), as an array
+ * or under `registers`.
+ */
+
+import { db } from '../db';
+import {
+  deviceCatalog,
+  deviceCatalogRegisters,
+  type Device,
+  type DeviceCatalogRegister,
+} from '@shared/schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import {
+  normalizeRegister,
+  parseDataType,
+  parseRegisterAddress,
+  planBlockReads,
+  registerMapFromCatalog,
+  RegisterMapError,
+  type ModbusReadBlock,
+  type ModbusRegisterConfig,
+  type ModbusTable,
+} from '../adapters/modbusRegisterMap';
+import { formatCsv, parseCsvRecords } from '../utils/csv';
+
+type CatalogRegisterRow = typeof deviceCatalogRegisters.$inferInsert;
+
+export type RegisterMapFormat = 'csv' | 'json';
+
+export interface RegisterMapImportOptions {
+  replace?: boolean; // Delete the model's other registers instead of keeping them
+}
+
+export interface RegisterMapImportResult {
+  created: number;
+  updated: number;
+  deleted: number;
+}
+
+export interface DeviceModbusConfig {
+  deviceId: number;
+  deviceCatalogId: number | null;
+  registers: ModbusRegisterConfig[];
+  blocks: ModbusReadBlock[];
+}
+
+export class RegisterMapImportError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Register map has ${errors.length} invalid row${errors.length === 1 ? '' : 's'}`);
+    this.name = 'RegisterMapImportError';
+  }
+}
+
+const PROTOCOLS = ['modbus_tcp', 'modbus_rtu', 'mqtt', 'http', 'ocpp', 'sunspec', 'eebus', 'rest', 'proprietary'];
+const MODBUS_PROTOCOLS = ['modbus_tcp', 'modbus_rtu', 'sunspec'];
+const ACCESS_MODES = ['read', 'write', 'read-write'];
+
+const CSV_COLUMNS = [
+  'name', 'protocol', 'register_type', 'address', 'data_type', 'register_count',
+  'byte_order', 'word_order', 'scale_factor', 'offset', 'unit', 'min', 'max', 'access',
+  'bits', 'description', 'required', 'default_value', 'notes',
+];
+
+// JSON field of each CSV column
+const CSV_FIELDS: Record<string, string> = {
+  register_type: 'registerType',
+  data_type: 'dataType',
+  register_count: 'registerCount',
+  byte_order: 'byteOrder',
+  word_order: 'wordOrder',
+  scale_factor: 'scaleFactor',
+  offset: 'offsetValue',
+  min: 'minValue',
+  max: 'maxValue',
+  required: 'isRequired',
+  default_value: 'defaultValue',
+};
+
+/**
+ * Catalog model of a device, by its link or else by model number
+ */
+export async function resolveDeviceCatalogId(device: Pick<Device, 'deviceCatalogId' | 'model'>): Promise<number | null> {
+  if (device.deviceCatalogId != null) return device.deviceCatalogId;
+  if (!device.model) return null;
+
+  const [entry] = await db
+    .select({ id: deviceCatalog.id })
+    .from(deviceCatalog)
+    .where(eq(deviceCatalog.modelNumber, device.model))
+    .limit(1);
+  return entry?.id ?? null;
+}
+
+/**
+ * Registers of a catalog model, in address order
+ */
+export async function getCatalogRegisters(deviceCatalogId: number): Promise<DeviceCatalogRegister[]> {
+  const rows = await db
+    .select()
+    .from(deviceCatalogRegisters)
+    .where(eq(deviceCatalogRegisters.deviceCatalogId, deviceCatalogId))
+    .orderBy(asc(deviceCatalogRegisters.id));
+
+  return rows.sort((a, b) => (parseRegisterAddress(a.address) ?? Infinity) - (parseRegisterAddress(b.address) ?? Infinity));
+}
+
+/**
+ * Modbus register map of a catalog model
+ */
+export async function getCatalogRegisterMap(deviceCatalogId: number): Promise<ModbusRegisterConfig[]> {
+  return registerMapFromCatalog(await getCatalogRegisters(deviceCatalogId));
+}
+
+/**
+ * Modbus polling config of a device generated from its catalog model: the
+ * register map and the block reads covering it
+ */
+export async function getDeviceModbusConfig(device: Device): Promise<DeviceModbusConfig> {
+  const deviceCatalogId = await resolveDeviceCatalogId(device);
+  const registers = deviceCatalogId != null ? await getCatalogRegisterMap(deviceCatalogId) : [];
+
+  return {
+    deviceId: device.id,
+    deviceCatalogId,
+    registers,
+    blocks: planBlockReads(registers),
+  };
+}
+
+/**
+ * Export the register map of a catalog model as CSV or JSON
+ */
+export async function exportRegisterMap(deviceCatalogId: number, format: RegisterMapFormat): Promise<string> {
+  const records = (await getCatalogRegisters(deviceCatalogId)).map(toRecord);
+
+  if (format === 'csv') {
+    return formatCsv(CSV_COLUMNS, records.map(record => {
+      const row: Record<string, unknown> = {};
+      for (const column of CSV_COLUMNS) {
+        const value = record[CSV_FIELDS[column] ?? column];
+        row[column] = column === 'bits' && value ? formatBits(value as Record<string, string>) : value;
+      }
+      return row;
+    }));
+  }
+
+  return JSON.stringify({ deviceCatalogId, registers: records }, null, 2);
+}
+
+/**
+ * Import a register map into a catalog model
+ *
+ * Registers are matched to the model's existing ones by protocol and name;
+ * matches are updated and the rest created. With `replace`, registers not in
+ * the import are deleted.
+ */
+export async function importRegisterMap(
+  deviceCatalogId: number,
+  format: RegisterMapFormat,
+  content: unknown,
+  options: RegisterMapImportOptions = {}
+): Promise<RegisterMapImportResult> {
+  const rows = parseRegisterMap(deviceCatalogId, format, content);
+
+  return db.transaction(async (tx) => {
+    const existing = await tx
+      .select()
+      .from(deviceCatalogRegisters)
+      .where(eq(deviceCatalogRegisters.deviceCatalogId, deviceCatalogId));
+    const byKey = new Map(existing.map(register => [`${register.protocol}/${register.name}`, register]));
+    const result: RegisterMapImportResult = { created: 0, updated: 0, deleted: 0 };
+    const kept = new Set<number>();
+
+    for (const row of rows) {
+      const match = byKey.get(`${row.protocol}/${row.name}`);
+      if (match) {
+        await tx.update(deviceCatalogRegisters).set(row).where(eq(deviceCatalogRegisters.id, match.id));
+        kept.add(match.id);
+        result.updated++;
+      } else {
+        await tx.insert(deviceCatalogRegisters).values(row);
+        result.created++;
+      }
+    }
+
+    if (options.replace) {
+      const stale = existing.filter(register => !kept.has(register.id)).map(register => register.id);
+      if (stale.length > 0) {
+        await tx.delete(deviceCatalogRegisters).where(and(
+          eq(deviceCatalogRegisters.deviceCatalogId, deviceCatalogId),
+          inArray(deviceCatalogRegisters.id, stale)
+        ));
+      }
+      result.deleted = stale.length;
+    }
+
+    return result;
+  });
+}
+
+// Validate an import and convert it to catalog register rows
+function parseRegisterMap(deviceCatalogId: number, format: RegisterMapFormat, content: unknown): CatalogRegisterRow[] {
+  let records: Record<string, unknown>[];
+
+  try {
+    if (format === 'csv') {
+      if (typeof content !== 'string') throw new Error('CSV register maps must be text');
+      records = parseCsvRecords(content).map(fromCsvRecord);
+    } else {
+      const parsed = typeof content === 'string' ? JSON.parse(content) : content;
+      const list = Array.isArray(parsed) ? parsed : parsed?.registers;
+      if (!Array.isArray(list)) throw new Error('JSON register maps must be an array or have a registers array');
+      records = list;
+    }
+  } catch (error) {
+    throw new RegisterMapImportError([(error as Error).message]);
+  }
+
+  const errors: string[] = [];
+  const rows: CatalogRegisterRow[] = [];
+  const names = new Set<string>();
+
+  records.forEach((record, index) => {
+    const label = `Row ${index + 1}`;
+    try {
+      const row = toCatalogRow(deviceCatalogId, record);
+      const key = `${row.protocol}/${row.name}`;
+      if (names.has(key)) throw new RegisterMapError(`Register '${row.name}' appears more than once`);
+      names.add(key);
+      rows.push(row);
+    } catch (error) {
+      errors.push(`${label}: ${(error as Error).message}`);
+    }
+  });
+
+  if (records.length === 0) errors.push('Register map has no registers');
+  if (errors.length > 0) throw new RegisterMapImportError(errors);
+
+  return rows;
+}
+
+// Validate one imported register and convert it to a catalog row
+function toCatalogRow(deviceCatalogId: number, record: Record<string, unknown>): CatalogRegisterRow {
+  if (!record || typeof record !== 'object') throw new RegisterMapError('Register must be an object');
+
+  const text = (key: string): string | null => {
+    const value = record[key];
+    return value == null || String(value).trim() === '' ? null : String(value).trim();
+  };
+  const number = (key: string): number | null => {
+    const value = text(key);
+    if (value === null) return null;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) throw new RegisterMapError(`${key} must be a number`, text('name') ?? undefined);
+    return parsed;
+  };
+
+  const name = text('name');
+  if (!name) throw new RegisterMapError('Register has no name');
+
+  const protocol = text('protocol') ?? 'modbus_tcp';
+  if (!PROTOCOLS.includes(protocol)) throw new RegisterMapError(`Unknown protocol '${protocol}'`, name);
+
+  const access = text('access') ?? 'read';
+  if (!ACCESS_MODES.includes(access)) throw new RegisterMapError(`Unknown access '${access}'`, name);
+
+  const address = text('address');
+  if (!address) throw new RegisterMapError('Register has no address', name);
+
+  const dataType = text('dataType');
+  if (!dataType) throw new RegisterMapError('Register has no data type', name);
+
+  const registerType = text('registerType');
+  const registerCount = number('registerCount');
+  const scaleFactor = number('scaleFactor');
+  const offsetValue = number('offsetValue');
+  const minValue = number('minValue');
+  const maxValue = number('maxValue');
+
+  const byteOrder = text('byteOrder')?.toUpperCase() ?? null;
+  const wordOrder = text('wordOrder')?.toUpperCase() ?? null;
+  if (byteOrder !== null && byteOrder !== 'BE' && byteOrder !== 'LE') throw new RegisterMapError('byteOrder must be BE or LE', name);
+  if (wordOrder !== null && wordOrder !== 'BE' && wordOrder !== 'LE') throw new RegisterMapError('wordOrder must be BE or LE', name);
+
+  const row: CatalogRegisterRow = {
+    deviceCatalogId,
+    protocol: protocol as CatalogRegisterRow['protocol'],
+    address,
+    name,
+    description: text('description'),
+    dataType,
+    registerType,
+    registerCount,
+    byteOrder,
+    wordOrder,
+    bitMap: parseBits(record.bits, name),
+    unit: text('unit'),
+    scaleFactor: scaleFactor != null ? String(scaleFactor) : null,
+    offsetValue: offsetValue != null ? String(offsetValue) : null,
+    minValue: minValue != null ? String(minValue) : null,
+    maxValue: maxValue != null ? String(maxValue) : null,
+    access,
+    isRequired: ['true', '1', 'yes'].includes((text('isRequired') ?? '').toLowerCase()),
+    defaultValue: text('defaultValue'),
+    notes: text('notes'),
+  };
+
+  // Modbus registers must be readable as configured
+  if (MODBUS_PROTOCOLS.includes(protocol)) {
+    const resolved = parseDataType(dataType);
+    if (!resolved) throw new RegisterMapError(`Unknown data type '${dataType}'`, name);
+    const addressValue = parseRegisterAddress(address);
+    if (addressValue === null) throw new RegisterMapError(`Invalid address '${address}'`, name);
+
+    normalizeRegister({
+      name,
+      type: (registerType ?? 'holding') as ModbusTable,
+      address: addressValue,
+      length: registerCount ?? 1,
+      dataType: resolved,
+      min: minValue ?? undefined,
+      max: maxValue ?? undefined,
+    });
+  }
+
+  return row;
+}
+
+// Catalog register as an export record
+function toRecord(register: DeviceCatalogRegister): Record<string, unknown> {
+  return {
+    name: register.name,
+    protocol: register.protocol,
+    registerType: register.registerType,
+    address: register.address,
+    dataType: register.dataType,
+    registerCount: register.registerCount,
+    byteOrder: register.byteOrder,
+    wordOrder: register.wordOrder,
+    scaleFactor: register.scaleFactor != null ? Number(register.scaleFactor) : null,
+    offsetValue: register.offsetValue != null ? Number(register.offsetValue) : null,
+    unit: register.unit,
+    minValue: register.minValue != null ? Number(register.minValue) : null,
+    maxValue: register.maxValue != null ? Number(register.maxValue) : null,
+    access: register.access,
+    bits: register.bitMap,
+    description: register.description,
+    isRequired: register.isRequired,
+    defaultValue: register.defaultValue,
+    notes: register.notes,
+  };
+}
+
+function fromCsvRecord(record: Record<string, string>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(record)) {
+    result[CSV_FIELDS[column] ?? column] = value;
+  }
+  return result;
+}
+
+// Parse bit names, given as an object or written as `0:fault;1:warning`
+function parseBits(value: unknown, name: string): Record<string, string> | null {
+  if (value == null || value === '') return null;
+
+  const entries = typeof value === 'string'
+    ? value.split(';').map(part => part.trim()).filter(Boolean).map(entry => entry.split(':').map(part => part.trim()))
+    : typeof value === 'object' ? Object.entries(value as object) : null;
+  if (!entries) throw new RegisterMapError('bits must be an object or bit:name pairs', name);
+
+  const bits: Record<string, string> = {};
+  for (const [bit, flag] of entries) {
+    if (!/^\d+$/.test(String(bit)) || Number(bit) > 31 || typeof flag !== 'string' || !flag) {
+      throw new RegisterMapError(`Invalid bit '${bit}:${flag ?? ''}', expected a bit number and a name`, name);
+    }
+    bits[bit] = flag;
+  }
+  return bits;
+}
+
+function formatBits(bits: Record<string, string>): string {
+  return Object.entries(bits).map(([bit, flag]) => `${bit}:${flag}`).join(';');
+}
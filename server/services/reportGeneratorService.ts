@@ -5,6 +5,7 @@ import path from 'path';
 import { initDeviceManagementService } from './deviceManagementService';
 import { getEnergyPriceService } from './energyPriceService';
 import { getBatteryArbitrageService } from './batteryArbitrageService';
+import { calculateShadowBill } from './billingService';
 
 /**
  * Report Types
@@ -659,79 +660,84 @@ export class ReportGeneratorService {
   }
 
   /**
-   * Get bill savings data
+   * Get bill savings data from shadow bills priced on the site's meter readings
    */
   private async getBillSavingsData(
     siteId: number,
     startDate: Date,
     endDate: Date
   ): Promise<any> {
-    // Get consumption and production data first
-    const consumptionData = await this.getEnergyConsumptionData(siteId, startDate, endDate);
-    const productionData = await this.getEnergyProductionData(siteId, startDate, endDate);
-    const arbitrageData = await this.getBatteryArbitrageData(siteId, startDate, endDate);
-    
-    // Calculate total bill
-    const totalConsumption = consumptionData.totalConsumption;
-    const totalConsumptionCost = consumptionData.totalCost;
-    
-    // Self-consumption savings (consumed own production rather than grid)
-    const totalProduction = productionData.totalProduction;
-    let selfConsumptionRate = 0.7; // Assume 70% of production is consumed on-site
-    const selfConsumption = Math.min(totalProduction * selfConsumptionRate, totalConsumption);
-    const averageGridPrice = totalConsumptionCost / totalConsumption;
-    const selfConsumptionSavings = selfConsumption * averageGridPrice;
-    
-    // Export revenue (production not self-consumed)
-    const exportedEnergy = totalProduction - selfConsumption;
-    const feedInTariff = 0.10; // $/kWh
-    const exportRevenue = exportedEnergy * feedInTariff;
-    
-    // Battery arbitrage savings
-    const arbitrageSavings = arbitrageData.totalSavings;
-    
-    // Peak demand savings (from peak shaving)
-    const peakDemandReduction = 5; // kW
-    const peakDemandCharge = 15; // $/kW
-    const peakDemandSavings = peakDemandReduction * peakDemandCharge;
-    
-    // Total savings
-    const totalSavings = selfConsumptionSavings + exportRevenue + arbitrageSavings + peakDemandSavings;
-    
-    // Bill with and without energy management
-    const billWithoutEM = totalConsumptionCost + peakDemandReduction * peakDemandCharge;
-    const billWithEM = billWithoutEM - totalSavings;
-    const billReduction = (1 - (billWithEM / billWithoutEM)) * 100;
+    const shadowBill = await calculateShadowBill(siteId, startDate, endDate);
+
+    if (!shadowBill) {
+      return {
+        title: 'Bill Savings Report',
+        subtitle: `Site ${siteId}`,
+        period: `${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()}`,
+        message: 'No tariff configured for this site',
+        currency: 'USD',
+        totalConsumption: 0,
+        totalProduction: 0,
+        selfConsumption: 0,
+        selfConsumptionSavings: 0,
+        exportedEnergy: 0,
+        exportRevenue: 0,
+        arbitrageSavings: 0,
+        peakDemandReduction: 0,
+        peakDemandSavings: 0,
+        totalSavings: 0,
+        billWithoutEM: 0,
+        billWithEM: 0,
+        billReductionPercent: 0,
+        dailyData: []
+      };
+    }
+
+    const { actual, withoutBattery, withoutBatteryAndSolar } = shadowBill;
+
+    // Split the pre-VAT savings: the battery's share is the net energy cost it
+    // removes, solar's share is what remains after the export credits earned
+    const netEnergy = (bill: typeof actual) => bill.energyCharges - bill.exportCredits;
+    const arbitrageSavings = netEnergy(withoutBattery) - netEnergy(actual);
+    const exportRevenue = actual.exportCredits;
+    const selfConsumptionSavings = netEnergy(withoutBatteryAndSolar) - netEnergy(withoutBattery) - exportRevenue;
+    const peakDemandSavings = shadowBill.savings.demand;
+
+    const billWithoutEM = withoutBatteryAndSolar.total;
+    const billWithEM = actual.total;
+    const daysWithData = Math.max(shadowBill.daily.length, 1);
 
     return {
       title: 'Bill Savings Report',
       subtitle: `Site ${siteId}`,
       period: `${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()}`,
-      totalConsumption,
-      totalProduction,
-      totalConsumptionCost,
-      selfConsumption,
+      currency: actual.currency,
+      tariffName: actual.tariffName,
+      meterCoverage: actual.coverage,
+      totalConsumption: shadowBill.consumptionKwh,
+      totalProduction: shadowBill.productionKwh,
+      totalConsumptionCost: withoutBatteryAndSolar.energyCharges,
+      selfConsumption: shadowBill.selfConsumedKwh,
       selfConsumptionSavings,
-      exportedEnergy,
+      exportedEnergy: actual.exportKwh,
       exportRevenue,
       arbitrageSavings,
-      peakDemandReduction,
+      peakDemandReduction: withoutBatteryAndSolar.peakDemandKw - actual.peakDemandKw,
       peakDemandSavings,
-      totalSavings,
+      totalSavings: shadowBill.savings.total,
       billWithoutEM,
       billWithEM,
-      billReductionPercent: billReduction,
-      dailyData: consumptionData.dailyData.map((day, i) => ({
+      billReductionPercent: billWithoutEM > 0 ? (1 - billWithEM / billWithoutEM) * 100 : 0,
+      bill: actual,
+      billWithoutBattery: withoutBattery,
+      billWithoutBatteryAndSolar: withoutBatteryAndSolar,
+      dailyData: shadowBill.daily.map(day => ({
         date: day.date,
-        consumption: day.consumption,
-        production: productionData.dailyData[i]?.totalProduction || 0,
-        arbitrageSavings: arbitrageData.dailyData[i]?.totalSavings || 0,
-        totalSavings: (
-          (productionData.dailyData[i]?.totalProduction || 0) * selfConsumptionRate * averageGridPrice + 
-          ((productionData.dailyData[i]?.totalProduction || 0) * (1 - selfConsumptionRate) * feedInTariff) +
-          (arbitrageData.dailyData[i]?.totalSavings || 0) +
-          (peakDemandSavings / consumptionData.dailyData.length)
-        )
+        consumption: day.consumptionKwh,
+        production: day.productionKwh,
+        arbitrageSavings: day.batterySavings,
+        // Demand charges are billed per period, so spread their savings evenly
+        totalSavings: day.totalSavings + peakDemandSavings / daysWithData
       }))
     };
   }
@@ -1111,7 +1117,7 @@ export class ReportGeneratorService {
         break;
         
       case ReportType.BILL_SAVINGS:
-        page.drawText(`Total Savings: $${data.totalSavings.toFixed(2)}`, {
+        page.drawText(`Total Savings: ${data.totalSavings.toFixed(2)} ${data.currency}`, {
           x: 50,
           y: yPosition,
           size: 12,
@@ -1121,7 +1127,7 @@ export class ReportGeneratorService {
         
         yPosition -= 20;
         
-        page.drawText(`Bill Without EMS: $${data.billWithoutEM.toFixed(2)}`, {
+        page.drawText(`Bill Without EMS: ${data.billWithoutEM.toFixed(2)} ${data.currency}`, {
           x: 50,
           y: yPosition,
           size: 12,
@@ -1131,7 +1137,7 @@ export class ReportGeneratorService {
         
         yPosition -= 20;
         
-        page.drawText(`Bill With EMS: $${data.billWithEM.toFixed(2)}`, {
+        page.drawText(`Bill With EMS: ${data.billWithEM.toFixed(2)} ${data.currency}`, {
           x: 50,
           y: yPosition,
           size: 12,
@@ -1449,16 +1455,31 @@ export class ReportGeneratorService {
         worksheet.addRow(['Total Consumption', `${data.totalConsumption.toFixed(2)} kWh`]);
         worksheet.addRow(['Total Production', `${data.totalProduction.toFixed(2)} kWh`]);
         worksheet.addRow(['Self-Consumption', `${data.selfConsumption.toFixed(2)} kWh`]);
-        worksheet.addRow(['Self-Consumption Savings', `$${data.selfConsumptionSavings.toFixed(2)}`]);
+        worksheet.addRow(['Self-Consumption Savings', `${data.selfConsumptionSavings.toFixed(2)} ${data.currency}`]);
         worksheet.addRow(['Exported Energy', `${data.exportedEnergy.toFixed(2)} kWh`]);
-        worksheet.addRow(['Export Revenue', `$${data.exportRevenue.toFixed(2)}`]);
-        worksheet.addRow(['Arbitrage Savings', `$${data.arbitrageSavings.toFixed(2)}`]);
-        worksheet.addRow(['Peak Demand Savings', `$${data.peakDemandSavings.toFixed(2)}`]);
-        worksheet.addRow(['Total Savings', `$${data.totalSavings.toFixed(2)}`]);
-        worksheet.addRow(['Bill Without EMS', `$${data.billWithoutEM.toFixed(2)}`]);
-        worksheet.addRow(['Bill With EMS', `$${data.billWithEM.toFixed(2)}`]);
+        worksheet.addRow(['Export Revenue', `${data.exportRevenue.toFixed(2)} ${data.currency}`]);
+        worksheet.addRow(['Arbitrage Savings', `${data.arbitrageSavings.toFixed(2)} ${data.currency}`]);
+        worksheet.addRow(['Peak Demand Savings', `${data.peakDemandSavings.toFixed(2)} ${data.currency}`]);
+        worksheet.addRow(['Total Savings', `${data.totalSavings.toFixed(2)} ${data.currency}`]);
+        worksheet.addRow(['Bill Without EMS', `${data.billWithoutEM.toFixed(2)} ${data.currency}`]);
+        worksheet.addRow(['Bill With EMS', `${data.billWithEM.toFixed(2)} ${data.currency}`]);
         worksheet.addRow(['Bill Reduction', `${data.billReductionPercent.toFixed(1)}%`]);
         
+        // Add the itemized bill
+        if (data.bill) {
+          worksheet.addRow([]);
+          const billHeader = worksheet.addRow([`Itemized Bill (${data.tariffName})`]);
+          billHeader.font = { bold: true, size: 14 };
+          worksheet.addRow([]);
+          
+          worksheet.addRow(['Item', 'Quantity', 'Unit', 'Rate', `Amount (${data.currency})`]);
+          
+          data.bill.lineItems.forEach(item => {
+            worksheet.addRow([item.description, item.quantity, item.unit, item.rate, item.amount.toFixed(2)]);
+          });
+          worksheet.addRow(['Total', '', '', '', data.bill.total.toFixed(2)]);
+        }
+        
         // Add daily data
         worksheet.addRow([]);
         const savingsHeader = worksheet.addRow(['Daily Bill Savings Data']);
@@ -1469,8 +1490,8 @@ export class ReportGeneratorService {
           'Date',
           'Consumption (kWh)',
           'Production (kWh)',
-          'Arbitrage Savings ($)',
-          'Total Savings ($)'
+          `Arbitrage Savings (${data.currency})`,
+          `Total Savings (${data.currency})`
         ]);
         
         data.dailyData.forEach(day => {
@@ -0,0 +1,351 @@
+/**
+ * Security Audit Service
+ *
+ * Writes the `security_audit_log`: logins, password changes, role-gated
+ * mutations and device commands. Each entry gets a heuristic risk score (new IP
+ * for the user, a burst of recent failures, admin actions outside business
+ * hours) and entries at or above the threshold are flagged as suspicious for an
+ * admin to review. Repeated failed logins lock the account through the
+ * `failedLoginAttempts` / `accountLocked` user columns.
+ */
+
+import { db } from '../db';
+import { securityAuditLog, users, type SecurityAuditLogEntry, type User } from '@shared/schema';
+import { and, desc, eq, gte, lte, or, isNull, count, sql, SQL } from 'drizzle-orm';
+
+export type SecurityAuditStatus = 'success' | 'failure' | 'denied';
+
+export interface SecurityAuditContext {
+  userId?: number | null;
+  role?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  sessionId?: string | null;
+  authenticationType?: string | null;
+}
+
+export interface SecurityAuditEvent extends SecurityAuditContext {
+  action: string;
+  resourceType: string;
+  resourceId?: string | number | null;
+  details?: Record<string, any>;
+  status?: SecurityAuditStatus;
+  failureReason?: string;
+}
+
+export interface SecurityAuditFilters {
+  userId?: number;
+  action?: string;
+  status?: SecurityAuditStatus;
+  suspiciousOnly?: boolean;
+  unreviewedOnly?: boolean;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export const MAX_FAILED_LOGINS = 5;
+export const SUSPICIOUS_THRESHOLD = 50;
+
+// Points added to an entry's risk score (capped at 100)
+const RISK_WEIGHTS = {
+  failure: 10,
+  newIp: 30,
+  recentFailure: 10, // per failure in the burst window
+  recentFailureCap: 40,
+  offHoursAdmin: 25,
+};
+
+const FAILURE_WINDOW = 15 * 60 * 1000;
+const BUSINESS_HOURS = { start: 7, end: 20 }; // Server local time
+
+// Actions that are part of signing in rather than using admin privileges
+const AUTHENTICATION_ACTIONS = new Set(['login', 'login_failed', 'logout']);
+
+/**
+ * Score and record a security event. Auditing never interrupts the request
+ * being audited, so errors are logged and swallowed.
+ */
+export async function recordSecurityEvent(event: SecurityAuditEvent): Promise<SecurityAuditLogEntry | null> {
+  try {
+    const status = event.status || 'success';
+    const { score, reasons } = await scoreRisk(event, status);
+
+    const [entry] = await db
+      .insert(securityAuditLog)
+      .values({
+        userId: event.userId ?? null,
+        ipAddress: event.ipAddress ?? null,
+        userAgent: event.userAgent ?? null,
+        action: event.action,
+        resourceType: event.resourceType,
+        resourceId: event.resourceId != null ? String(event.resourceId) : null,
+        details: reasons.length > 0 ? { ...event.details, riskFactors: reasons } : event.details ?? null,
+        status,
+        failureReason: event.failureReason ?? null,
+        sessionId: event.sessionId ?? null,
+        authenticationType: event.authenticationType ?? null,
+        riskScore: String(score),
+        isSuspicious: score >= SUSPICIOUS_THRESHOLD,
+      })
+      .returning();
+
+    if (entry.isSuspicious) {
+      console.warn(
+        `Suspicious ${event.action} on ${event.resourceType} by user ${event.userId ?? 'unknown'} ` +
+        `from ${event.ipAddress ?? 'unknown IP'} (risk ${score}: ${reasons.join(', ')})`
+      );
+    }
+
+    return entry;
+  } catch (error) {
+    console.error(`Error recording security event ${event.action}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Record a failed password or second factor check, locking the account once it
+ * reaches MAX_FAILED_LOGINS consecutive failures. Returns whether the account is locked.
+ */
+export async function recordFailedLogin(
+  user: User,
+  context: SecurityAuditContext,
+  reason: string = 'Invalid password'
+): Promise<boolean> {
+  const [updated] = await db
+    .update(users)
+    .set({ failedLoginAttempts: sql`coalesce(${users.failedLoginAttempts}, 0) + 1` })
+    .where(eq(users.id, user.id))
+    .returning({ failedLoginAttempts: users.failedLoginAttempts, accountLocked: users.accountLocked });
+
+  const attempts = updated?.failedLoginAttempts ?? 0;
+
+  await recordSecurityEvent({
+    ...context,
+    userId: user.id,
+    role: user.role,
+    action: 'login_failed',
+    resourceType: 'user',
+    resourceId: user.id,
+    status: 'failure',
+    failureReason: reason,
+    details: { failedLoginAttempts: attempts },
+  });
+
+  if (!updated?.accountLocked && attempts >= MAX_FAILED_LOGINS) {
+    await db
+      .update(users)
+      .set({ accountLocked: true, lockReason: `Locked after ${attempts} failed login attempts` })
+      .where(eq(users.id, user.id));
+
+    await recordSecurityEvent({
+      ...context,
+      userId: user.id,
+      action: 'account_locked',
+      resourceType: 'user',
+      resourceId: user.id,
+      details: { failedLoginAttempts: attempts },
+    });
+    return true;
+  }
+
+  return !!updated?.accountLocked;
+}
+
+/**
+ * Record a successful login and reset the failed attempt counter
+ */
+export async function recordSuccessfulLogin(
+  user: User,
+  context: SecurityAuditContext,
+  details?: Record<string, any>
+): Promise<void> {
+  await recordSecurityEvent({
+    ...context,
+    userId: user.id,
+    role: user.role,
+    action: 'login',
+    resourceType: 'user',
+    resourceId: user.id,
+    details,
+  });
+
+  await db
+    .update(users)
+    .set({ failedLoginAttempts: 0, lastLoginAt: new Date(), lastLoginIp: context.ipAddress ?? null })
+    .where(eq(users.id, user.id));
+}
+
+/**
+ * Get users whose accounts are locked
+ */
+export async function getLockedAccounts() {
+  return db
+    .select({
+      id: users.id,
+      username: users.username,
+      email: users.email,
+      role: users.role,
+      lockReason: users.lockReason,
+      failedLoginAttempts: users.failedLoginAttempts,
+      lastLoginAt: users.lastLoginAt,
+      lastLoginIp: users.lastLoginIp,
+    })
+    .from(users)
+    .where(eq(users.accountLocked, true))
+    .orderBy(users.username);
+}
+
+/**
+ * Unlock an account and reset its failed attempt counter
+ */
+export async function unlockAccount(userId: number, admin: SecurityAuditContext): Promise<boolean> {
+  const unlocked = await db
+    .update(users)
+    .set({ accountLocked: false, lockReason: null, failedLoginAttempts: 0 })
+    .where(and(eq(users.id, userId), eq(users.accountLocked, true)))
+    .returning({ id: users.id });
+
+  if (unlocked.length === 0) {
+    return false;
+  }
+
+  await recordSecurityEvent({
+    ...admin,
+    action: 'account_unlocked',
+    resourceType: 'user',
+    resourceId: userId,
+  });
+  return true;
+}
+
+/**
+ * Query the audit trail, newest first
+ */
+export async function getSecurityAuditLog(filters: SecurityAuditFilters = {}): Promise<SecurityAuditLogEntry[]> {
+  const conditions: SQL[] = [];
+
+  if (filters.userId !== undefined) conditions.push(eq(securityAuditLog.userId, filters.userId));
+  if (filters.action) conditions.push(eq(securityAuditLog.action, filters.action));
+  if (filters.status) conditions.push(eq(securityAuditLog.status, filters.status));
+  if (filters.suspiciousOnly) conditions.push(eq(securityAuditLog.isSuspicious, true));
+  if (filters.unreviewedOnly) conditions.push(isNull(securityAuditLog.reviewedAt));
+  if (filters.from) conditions.push(gte(securityAuditLog.timestamp, filters.from));
+  if (filters.to) conditions.push(lte(securityAuditLog.timestamp, filters.to));
+
+  return db
+    .select()
+    .from(securityAuditLog)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(securityAuditLog.timestamp))
+    .limit(Math.min(filters.limit ?? 100, 1000));
+}
+
+/**
+ * Get the number of suspicious entries that have not been reviewed
+ */
+export async function getUnreviewedSuspiciousCount(): Promise<number> {
+  const [result] = await db
+    .select({ count: count() })
+    .from(securityAuditLog)
+    .where(and(eq(securityAuditLog.isSuspicious, true), isNull(securityAuditLog.reviewedAt)));
+  return result?.count ?? 0;
+}
+
+/**
+ * Mark an audit entry as reviewed
+ */
+export async function markAuditEntryReviewed(
+  id: number,
+  reviewerId: number
+): Promise<SecurityAuditLogEntry | undefined> {
+  const [entry] = await db
+    .update(securityAuditLog)
+    .set({ reviewedBy: reviewerId, reviewedAt: new Date() })
+    .where(eq(securityAuditLog.id, id))
+    .returning();
+  return entry;
+}
+
+async function scoreRisk(
+  event: SecurityAuditEvent,
+  status: SecurityAuditStatus
+): Promise<{ score: number; reasons: string[] }> {
+  // Automation acts from the server itself and is not scored
+  if (event.authenticationType === 'system') {
+    return { score: 0, reasons: [] };
+  }
+
+  let score = 0;
+  const reasons: string[] = [];
+
+  if (status !== 'success') {
+    score += RISK_WEIGHTS.failure;
+  }
+
+  if (event.userId && event.ipAddress && await isNewIpForUser(event.userId, event.ipAddress)) {
+    score += RISK_WEIGHTS.newIp;
+    reasons.push('new IP address');
+  }
+
+  const recentFailures = await countRecentFailures(event);
+  if (recentFailures > 0) {
+    score += Math.min(recentFailures * RISK_WEIGHTS.recentFailure, RISK_WEIGHTS.recentFailureCap);
+    reasons.push(`${recentFailures} failures in the last ${FAILURE_WINDOW / 60000} minutes`);
+  }
+
+  if (event.role === 'admin' && !AUTHENTICATION_ACTIONS.has(event.action) && isOffHours(new Date())) {
+    score += RISK_WEIGHTS.offHoursAdmin;
+    reasons.push('admin action outside business hours');
+  }
+
+  return { score: Math.min(score, 100), reasons };
+}
+
+// A user's first ever sign-in has no history to compare with and is not flagged
+async function isNewIpForUser(userId: number, ipAddress: string): Promise<boolean> {
+  const succeeded = and(eq(securityAuditLog.userId, userId), eq(securityAuditLog.status, 'success'));
+
+  const [seen] = await db
+    .select({ id: securityAuditLog.id })
+    .from(securityAuditLog)
+    .where(and(succeeded, eq(securityAuditLog.ipAddress, ipAddress)))
+    .limit(1);
+  if (seen) {
+    return false;
+  }
+
+  const [previous] = await db
+    .select({ id: securityAuditLog.id })
+    .from(securityAuditLog)
+    .where(succeeded)
+    .limit(1);
+
+  return !!previous;
+}
+
+async function countRecentFailures(event: SecurityAuditEvent): Promise<number> {
+  const sources: SQL[] = [];
+  if (event.userId) sources.push(eq(securityAuditLog.userId, event.userId));
+  if (event.ipAddress) sources.push(eq(securityAuditLog.ipAddress, event.ipAddress));
+  if (sources.length === 0) {
+    return 0;
+  }
+
+  const [result] = await db
+    .select({ count: count() })
+    .from(securityAuditLog)
+    .where(and(
+      or(...sources),
+      eq(securityAuditLog.status, 'failure'),
+      gte(securityAuditLog.timestamp, new Date(Date.now() - FAILURE_WINDOW))
+    ));
+  return result?.count ?? 0;
+}
+
+function isOffHours(date: Date): boolean {
+  const hour = date.getHours();
+  const day = date.getDay();
+  return day === 0 || day === 6 || hour < BUSINESS_HOURS.start || hour >= BUSINESS_HOURS.end;
+}
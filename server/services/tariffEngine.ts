@@ -0,0 +1,494 @@
+/**
+ * Tariff Engine
+ *
+ * Single place where electricity prices are resolved. A tariff's
+ * `scheduleData` holds a declarative definition (seasons with time-of-use
+ * periods per weekday/weekend/holiday, tiered blocks, fixed daily and demand
+ * charges) and every lookup is evaluated in the site's local time from
+ * `sites.timezone`. Tariffs saved before definitions existed (a plain
+ * `{ season: { peak, shoulder, offPeak } }` map) are converted on read.
+ */
+
+import { db } from '../db';
+import { devices, sites, tariffs, type Tariff } from '@shared/schema';
+import {
+  TariffDefinitionSchema,
+  type ResolvedTariffRate,
+  type TariffDayType,
+  type TariffDefinition,
+  type TariffDemandCharge,
+  type TariffHolidayCalendar,
+  type TariffPeriod,
+  type TariffPeriodType,
+  type TariffSeason,
+} from '@shared/tariffSchema';
+import { eq } from 'drizzle-orm';
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+// Resolution used when scanning ahead for period boundaries
+const SCAN_STEP_MS = 5 * 60 * 1000;
+
+export interface TariffContext {
+  tariff: Tariff;
+  definition: TariffDefinition;
+  timezone: string;
+}
+
+export interface LocalTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+  minutes: number; // Minutes since local midnight
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Return the timezone if it is a valid IANA name, otherwise UTC
+ */
+export function normalizeTimezone(timezone?: string | null): string {
+  if (!timezone) return DEFAULT_TIMEZONE;
+  try {
+    getFormatter(timezone);
+    return timezone;
+  } catch {
+    console.warn(`Unknown timezone "${timezone}", using ${DEFAULT_TIMEZONE}`);
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+/**
+ * Calendar fields of an instant in a timezone
+ */
+export function getLocalTime(at: Date, timezone: string): LocalTime {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timezone).formatToParts(at)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/**
+ * Site-local calendar date (YYYY-MM-DD) of an instant
+ */
+export function getLocalDate(context: TariffContext, at: Date): string {
+  const local = getLocalTime(at, context.timezone);
+  return `${local.year}-${pad(local.month)}-${pad(local.day)}`;
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Hours used by tariffs saved as a plain season -> { peak, shoulder, offPeak } map
+const LEGACY_SEASONS: Array<Pick<TariffSeason, 'name' | 'startMonth' | 'startDay' | 'endMonth' | 'endDay'>> = [
+  { name: 'summer', startMonth: 6, startDay: 1, endMonth: 9, endDay: 30 },
+  { name: 'autumn', startMonth: 10, startDay: 1, endMonth: 11, endDay: 30 },
+  { name: 'winter', startMonth: 12, startDay: 1, endMonth: 2, endDay: 29 },
+  { name: 'spring', startMonth: 3, startDay: 1, endMonth: 5, endDay: 31 },
+];
+
+function convertLegacySchedule(tariff: Tariff): TariffDefinition {
+  const schedule = tariff.scheduleData as Record<string, { peak?: number; shoulder?: number; offPeak?: number }>;
+  const allDays: TariffPeriod['dayTypes'] = ['weekday', 'weekend', 'holiday'];
+
+  const seasons = LEGACY_SEASONS.filter((season) => schedule[season.name]).map((season) => {
+    const rates = schedule[season.name];
+    const period = (name: string, type: TariffPeriodType, startTime: string, endTime: string, rate?: number): TariffPeriod => ({
+      name,
+      type,
+      startTime,
+      endTime,
+      dayTypes: allDays,
+      importRate: Number(rate ?? tariff.importRate),
+    });
+
+    return {
+      ...season,
+      periods: [
+        period('Peak', 'peak', '17:00', '22:00', rates.peak),
+        period('Shoulder', 'shoulder', '07:00', '17:00', rates.shoulder),
+        period('Shoulder', 'shoulder', '22:00', '23:00', rates.shoulder),
+        period('Off-Peak', 'off_peak', '23:00', '07:00', rates.offPeak),
+      ],
+    };
+  });
+
+  return TariffDefinitionSchema.parse({
+    version: 1,
+    region: tariff.currency === 'ILS' ? 'IL' : undefined,
+    seasons,
+  });
+}
+
+/**
+ * Read the declarative definition stored on a tariff
+ */
+export function getTariffDefinition(tariff: Tariff): TariffDefinition {
+  const scheduleData = tariff.scheduleData as Record<string, unknown> | null;
+
+  if (scheduleData && typeof scheduleData === 'object' && 'version' in scheduleData) {
+    const result = TariffDefinitionSchema.safeParse(scheduleData);
+    if (result.success) {
+      return result.data;
+    }
+    console.error(`Invalid definition on tariff ${tariff.id}, using flat rates:`, result.error.message);
+  } else if (scheduleData && tariff.isTimeOfUse) {
+    return convertLegacySchedule(tariff);
+  }
+
+  return TariffDefinitionSchema.parse({ version: 1 });
+}
+
+export function createTariffContext(tariff: Tariff, timezone?: string | null): TariffContext {
+  return {
+    tariff,
+    definition: getTariffDefinition(tariff),
+    timezone: normalizeTimezone(timezone),
+  };
+}
+
+/**
+ * Timezone of a site, UTC if unset or unknown
+ */
+export async function getSiteTimezone(siteId: number): Promise<string> {
+  const [site] = await db.select({ timezone: sites.timezone }).from(sites).where(eq(sites.id, siteId));
+  return normalizeTimezone(site?.timezone);
+}
+
+/**
+ * Load the tariff in effect for a site, evaluated in the site timezone
+ */
+export async function getSiteTariffContext(siteId: number): Promise<TariffContext | null> {
+  // Sites currently have one active tariff; use the first one found
+  const [tariff] = await db.select().from(tariffs).where(eq(tariffs.siteId, siteId));
+  if (!tariff) {
+    return null;
+  }
+  return createTariffContext(tariff, await getSiteTimezone(siteId));
+}
+
+/**
+ * Load the tariff for a device, falling back to its site's tariff
+ */
+export async function getDeviceTariffContext(deviceId: number): Promise<TariffContext | null> {
+  const [device] = await db.select().from(devices).where(eq(devices.id, deviceId));
+  if (!device) {
+    return null;
+  }
+
+  if (device.tariffId) {
+    const [deviceTariff] = await db.select().from(tariffs).where(eq(tariffs.id, device.tariffId));
+    if (deviceTariff) {
+      return createTariffContext(deviceTariff, await getSiteTimezone(device.siteId));
+    }
+  }
+
+  return getSiteTariffContext(device.siteId);
+}
+
+function isInSeason(season: TariffSeason, local: LocalTime): boolean {
+  const date = local.month * 100 + local.day;
+  const start = season.startMonth * 100 + season.startDay;
+  const end = season.endMonth * 100 + season.endDay;
+  return start <= end ? date >= start && date <= end : date >= start || date <= end;
+}
+
+function getDayType(definition: TariffDefinition, local: LocalTime): TariffDayType {
+  const monthDay = `${pad(local.month)}-${pad(local.day)}`;
+  const date = `${local.year}-${monthDay}`;
+  if (definition.holidays.includes(date) || definition.holidays.includes(monthDay)) {
+    return 'holiday';
+  }
+  if (definition.holidayCalendar && getCalendarHolidays(definition.holidayCalendar, local.year).has(date)) {
+    return 'holiday';
+  }
+  return definition.weekendDays.includes(local.weekday) ? 'weekend' : 'weekday';
+}
+
+// Israeli public holidays by Hebrew calendar date (month as formatted by Intl)
+const ISRAELI_HOLIDAYS: Array<[string, number]> = [
+  ['Nisan', 15], ['Nisan', 21], // Pesach
+  ['Sivan', 6], // Shavuot
+  ['Tishri', 1], ['Tishri', 2], // Rosh Hashanah
+  ['Tishri', 10], // Yom Kippur
+  ['Tishri', 15], // Sukkot
+  ['Tishri', 22], // Shemini Atzeret
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const calendarHolidays = new Map<string, Set<string>>();
+let hebrewFormatter: Intl.DateTimeFormat | null = null;
+
+/**
+ * Dates (YYYY-MM-DD) of a holiday calendar's holidays in a Gregorian year
+ */
+function getCalendarHolidays(calendar: TariffHolidayCalendar, year: number): Set<string> {
+  const key = `${calendar}:${year}`;
+  let dates = calendarHolidays.get(key);
+  if (!dates) {
+    dates = calendar === 'IL' ? buildIsraeliHolidays(year) : new Set<string>();
+    calendarHolidays.set(key, dates);
+  }
+  return dates;
+}
+
+function buildIsraeliHolidays(year: number): Set<string> {
+  hebrewFormatter ??= new Intl.DateTimeFormat('en-u-ca-hebrew', { timeZone: 'UTC', day: 'numeric', month: 'long' });
+  const dates = new Set<string>();
+  const toDate = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+  for (let ms = Date.UTC(year, 0, 1); ms < Date.UTC(year + 1, 0, 1); ms += DAY_MS) {
+    const parts: Record<string, string> = {};
+    for (const part of hebrewFormatter.formatToParts(new Date(ms))) {
+      parts[part.type] = part.value;
+    }
+    const day = Number(parts.day);
+
+    if (ISRAELI_HOLIDAYS.some(([month, holidayDay]) => month === parts.month && holidayDay === day)) {
+      dates.add(toDate(ms));
+    }
+
+    // Independence Day (5 Iyar) moves to Thursday from a Friday or Saturday, and to Tuesday from a Monday
+    if (parts.month === 'Iyar' && day === 5) {
+      const weekday = new Date(ms).getUTCDay();
+      const shift = weekday === 5 ? -1 : weekday === 6 ? -2 : weekday === 1 ? 1 : 0;
+      dates.add(toDate(ms + shift * DAY_MS));
+    }
+  }
+
+  return dates;
+}
+
+function isInPeriod(period: TariffPeriod, minutes: number): boolean {
+  const start = parseTimeOfDay(period.startTime);
+  const end = parseTimeOfDay(period.endTime);
+  if (start === end) return true;
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+function findPeriod(season: TariffSeason | null, dayType: TariffDayType, minutes: number): TariffPeriod | null {
+  if (!season) return null;
+  // Holidays without their own periods are billed like weekends
+  const dayTypes: TariffDayType[] = dayType === 'holiday' ? ['holiday', 'weekend'] : [dayType];
+  for (const type of dayTypes) {
+    const period = season.periods.find((p) => p.dayTypes.includes(type) && isInPeriod(p, minutes));
+    if (period) return period;
+  }
+  return null;
+}
+
+/**
+ * Marginal import rate after the given consumption in the current block period
+ */
+export function getBlockRate(definition: TariffDefinition, consumedKwh: number): number | null {
+  if (definition.blocks.length === 0) return null;
+  const block = definition.blocks.find((b) => b.upToKwh === null || consumedKwh < b.upToKwh);
+  return (block ?? definition.blocks[definition.blocks.length - 1]).importRate;
+}
+
+export function hasTimeOfUsePeriods(definition: TariffDefinition): boolean {
+  return definition.seasons.some((season) => season.periods.length > 0);
+}
+
+/**
+ * Resolve the rate in effect at an instant. `consumedKwh` selects the tier for
+ * block-rate tariffs; without it the first block applies.
+ */
+export function resolveRate(context: TariffContext, at: Date = new Date(), consumedKwh?: number): ResolvedTariffRate {
+  const { tariff, definition, timezone } = context;
+  const local = getLocalTime(at, timezone);
+  const season = definition.seasons.find((s) => isInSeason(s, local)) ?? null;
+  const dayType = getDayType(definition, local);
+  const period = findPeriod(season, dayType, local.minutes);
+  const baseExportRate = Number(tariff.exportRate);
+
+  const rate = {
+    time: at.toISOString(),
+    localTime: `${pad(Math.floor(local.minutes / 60))}:${pad(local.minutes % 60)}`,
+    timezone,
+    currency: tariff.currency || 'USD',
+    season: season?.name ?? null,
+    dayType,
+  };
+
+  if (period) {
+    return {
+      ...rate,
+      importRate: period.importRate,
+      exportRate: period.exportRate ?? baseExportRate,
+      periodName: period.name,
+      periodType: period.type,
+      period: `${period.name} (${period.startTime}-${period.endTime})`,
+    };
+  }
+
+  const blockRate = getBlockRate(definition, consumedKwh ?? 0);
+  return {
+    ...rate,
+    importRate: blockRate ?? Number(tariff.importRate),
+    exportRate: baseExportRate,
+    periodName: 'Standard Rate',
+    periodType: 'standard',
+    period: 'Standard Rate',
+  };
+}
+
+/**
+ * Rates at fixed intervals starting from `from`
+ */
+export function getRateSchedule(
+  context: TariffContext,
+  from: Date = new Date(),
+  hours: number = 24,
+  intervalMinutes: number = 60
+): ResolvedTariffRate[] {
+  const schedule: ResolvedTariffRate[] = [];
+  const steps = Math.ceil((hours * 60) / intervalMinutes);
+  for (let i = 0; i < steps; i++) {
+    schedule.push(resolveRate(context, new Date(from.getTime() + i * intervalMinutes * 60 * 1000)));
+  }
+  return schedule;
+}
+
+/**
+ * Start of the next period of one of the given types (now if already in one)
+ */
+export function findNextPeriodStart(
+  context: TariffContext,
+  periodTypes: TariffPeriodType[],
+  from: Date = new Date(),
+  horizonHours: number = 48
+): Date | null {
+  if (periodTypes.includes(resolveRate(context, from).periodType)) {
+    return from;
+  }
+
+  const end = from.getTime() + horizonHours * 60 * 60 * 1000;
+  for (let t = Math.ceil(from.getTime() / SCAN_STEP_MS) * SCAN_STEP_MS; t <= end; t += SCAN_STEP_MS) {
+    const at = new Date(t);
+    if (periodTypes.includes(resolveRate(context, at).periodType)) {
+      return at;
+    }
+  }
+  return null;
+}
+
+/**
+ * End of the period in effect at `from`
+ */
+export function getPeriodEnd(context: TariffContext, from: Date = new Date(), horizonHours: number = 48): Date {
+  const current = resolveRate(context, from);
+  const end = from.getTime() + horizonHours * 60 * 60 * 1000;
+
+  for (let t = Math.floor(from.getTime() / SCAN_STEP_MS) * SCAN_STEP_MS + SCAN_STEP_MS; t <= end; t += SCAN_STEP_MS) {
+    const rate = resolveRate(context, new Date(t));
+    if (rate.period !== current.period || rate.importRate !== current.importRate) {
+      return new Date(t);
+    }
+  }
+  return new Date(end);
+}
+
+/**
+ * First contiguous window with the lowest (or highest) import rate ahead
+ */
+export function findRateWindow(
+  context: TariffContext,
+  mode: 'lowest' | 'highest',
+  from: Date = new Date(),
+  hours: number = 24
+): { startTime: Date; endTime: Date; importRate: number } {
+  const schedule = getRateSchedule(context, from, hours, SCAN_STEP_MS / 60000);
+  const rates = schedule.map((rate) => rate.importRate);
+  const target = mode === 'lowest' ? Math.min(...rates) : Math.max(...rates);
+
+  const startIndex = rates.findIndex((rate) => rate === target);
+  let endIndex = startIndex;
+  while (endIndex < rates.length && rates[endIndex] === target) {
+    endIndex++;
+  }
+
+  return {
+    startTime: startIndex === 0 ? from : new Date(schedule[startIndex].time),
+    endTime: endIndex < schedule.length ? new Date(schedule[endIndex].time) : new Date(from.getTime() + hours * 60 * 60 * 1000),
+    importRate: target,
+  };
+}
+
+/**
+ * Highest, lowest and mid-level import rates of the season in effect
+ */
+export function getSeasonRateRange(
+  context: TariffContext,
+  at: Date = new Date()
+): { peak: number; standard: number; offPeak: number } {
+  const local = getLocalTime(at, context.timezone);
+  const season = context.definition.seasons.find((s) => isInSeason(s, local));
+  const dayType = getDayType(context.definition, local);
+  const seasonPeriods = season?.periods ?? [];
+  const dayPeriods = seasonPeriods.filter((p) => p.dayTypes.includes(dayType));
+  const periods = dayPeriods.length > 0 ? dayPeriods : seasonPeriods;
+
+  if (periods.length === 0) {
+    const rate = resolveRate(context, at).importRate;
+    return { peak: rate, standard: rate, offPeak: rate };
+  }
+
+  const rates = periods.map((p) => p.importRate);
+  const midPeriod = periods.find((p) => p.type === 'shoulder' || p.type === 'standard');
+  return {
+    peak: Math.max(...rates),
+    standard: midPeriod ? midPeriod.importRate : rates.reduce((sum, rate) => sum + rate, 0) / rates.length,
+    offPeak: Math.min(...rates),
+  };
+}
+
+/**
+ * Demand charges that measure peak kW at this instant
+ */
+export function getDemandChargesAt(context: TariffContext, at: Date = new Date()): TariffDemandCharge[] {
+  return getDemandChargesForRate(context.definition, resolveRate(context, at));
+}
+
+/**
+ * Demand charges that apply while an already resolved rate is in effect
+ */
+export function getDemandChargesForRate(definition: TariffDefinition, rate: ResolvedTariffRate): TariffDemandCharge[] {
+  return definition.demandCharges.filter((charge) =>
+    (!charge.seasons || (rate.season !== null && charge.seasons.includes(rate.season))) &&
+    (!charge.periodTypes || charge.periodTypes.includes(rate.periodType))
+  );
+}
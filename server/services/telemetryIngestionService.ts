@@ -0,0 +1,623 @@
+/**
+ * Telemetry Ingestion Service
+ *
+ * Pipeline device telemetry goes through before it is stored as device
+ * readings:
+ *
+ * 1. normalize: raw register values are decoded with the scale factor and
+ *    offset of the device's catalog registers, and every value is converted
+ *    to the units of deviceReadings (kW, kWh, V, A, Hz, °C, %, kPa) from the
+ *    unit given in the message, or else the unit of the catalog register
+ * 2. de-duplicate: samples with the timestamp of one already accepted for
+ *    the device are dropped
+ * 3. validate: range checks for the device type, its rated capacity and the
+ *    catalog min/max, spike detection against the median of recent values and
+ *    stuck-value detection. Rejected samples go to telemetry_quarantine.
+ * 4. fill gaps: a short gap after the device's usual sampling interval is
+ *    filled with linearly interpolated readings flagged `estimated`
+ * 5. write: readings are inserted in batches, then broadcast and added to the
+ *    site energy balance
+ *
+ * A message holds one sample, or several under `samples`. A sample carries a
+ * `timestamp`, its values at the top level or under `readings`, optional
+ * `units` per value and optional raw `registers` keyed by catalog register
+ * name or address.
+ */
+
+import { db } from '../db';
+import {
+  deviceReadings,
+  telemetryQuarantine,
+  type Device,
+  type DeviceCatalogRegister,
+  type InsertTelemetryQuarantineEntry,
+  type TelemetryQuarantineEntry,
+} from '@shared/schema';
+import { and, desc, eq, gte } from 'drizzle-orm';
+import { broadcastDeviceReading } from './websocketService';
+import { recordDeviceReading } from './energyBalanceService';
+import { getCatalogRegisters, resolveDeviceCatalogId } from './registerMapService';
+
+type ReadingField = 'power' | 'energy' | 'stateOfCharge' | 'voltage' | 'current' | 'frequency' | 'temperature' | 'humidity' | 'pressure';
+type ReadingValues = Partial<Record<ReadingField, number>>;
+type SamplingRate = 'real_time' | 'high' | 'medium' | 'low' | 'very_low';
+type DeviceReadingRow = typeof deviceReadings.$inferInsert;
+
+export interface QuarantineReason {
+  field: ReadingField | 'timestamp';
+  check: 'invalid' | 'unit' | 'range' | 'spike' | 'stuck';
+  value: unknown;
+  limit?: unknown;
+  message: string;
+}
+
+export interface TelemetryIngestionResult {
+  received: number;
+  accepted: number;
+  estimated: number; // Interpolated readings added to fill gaps
+  duplicates: number;
+  quarantined: number;
+}
+
+export interface IngestionOptions {
+  broadcast?: boolean; // Send stored readings to WebSocket subscribers (default true)
+}
+
+interface Sample {
+  timestamp: Date;
+  values: ReadingValues;
+  operationalMode?: string;
+  statusCode?: number;
+  additionalData: Record<string, unknown>;
+  raw: Record<string, unknown>;
+  reasons: QuarantineReason[];
+}
+
+interface StuckValue {
+  value: number;
+  count: number;
+  since: number;
+}
+
+// What is remembered of a device's recent samples
+interface DeviceHistory {
+  seen: number[]; // Recent sample timestamps, oldest first
+  lastAccepted: { timestamp: number; values: ReadingValues } | null;
+  intervals: number[]; // Recent sampling intervals (ms)
+  windows: Partial<Record<ReadingField, number[]>>;
+  stuck: Partial<Record<ReadingField, StuckValue>>;
+}
+
+interface PendingReading {
+  device: Device;
+  row: DeviceReadingRow;
+  broadcast: boolean;
+}
+
+const READING_FIELDS: ReadingField[] = ['power', 'energy', 'stateOfCharge', 'voltage', 'current', 'frequency', 'temperature', 'humidity', 'pressure'];
+
+// Names (lower case, letters and digits only) under which devices and catalog registers report each field
+const FIELD_ALIASES: Record<ReadingField, string[]> = {
+  power: ['power', 'activepower', 'acpower', 'totalactivepower', 'poweroutput', 'pac', 'w'],
+  energy: ['energy', 'totalenergy', 'activeenergy', 'energytotal', 'wh'],
+  stateOfCharge: ['stateofcharge', 'soc', 'chastate'],
+  voltage: ['voltage', 'acvoltage', 'gridvoltage', 'phvpha', 'v'],
+  current: ['current', 'accurrent', 'gridcurrent', 'a'],
+  frequency: ['frequency', 'gridfrequency', 'hz'],
+  temperature: ['temperature', 'temp', 'tmpcab', 'cabinettemperature'],
+  humidity: ['humidity', 'relativehumidity'],
+  pressure: ['pressure'],
+};
+
+// Conversion of each unit (lower case, without spaces or degree signs) to the unit stored for a field
+const UNIT_CONVERSIONS: Record<string, { fields: ReadingField[]; factor: number; offset?: number }> = {
+  w: { fields: ['power'], factor: 0.001 },
+  kw: { fields: ['power'], factor: 1 },
+  mw: { fields: ['power'], factor: 1000 },
+  wh: { fields: ['energy'], factor: 0.001 },
+  kwh: { fields: ['energy'], factor: 1 },
+  mwh: { fields: ['energy'], factor: 1000 },
+  mv: { fields: ['voltage'], factor: 0.001 },
+  v: { fields: ['voltage'], factor: 1 },
+  kv: { fields: ['voltage'], factor: 1000 },
+  ma: { fields: ['current'], factor: 0.001 },
+  a: { fields: ['current'], factor: 1 },
+  hz: { fields: ['frequency'], factor: 1 },
+  c: { fields: ['temperature'], factor: 1 },
+  celsius: { fields: ['temperature'], factor: 1 },
+  k: { fields: ['temperature'], factor: 1, offset: -273.15 },
+  f: { fields: ['temperature'], factor: 5 / 9, offset: -32 * 5 / 9 },
+  '%': { fields: ['stateOfCharge', 'humidity'], factor: 1 },
+  pa: { fields: ['pressure'], factor: 0.001 },
+  hpa: { fields: ['pressure'], factor: 0.1 },
+  kpa: { fields: ['pressure'], factor: 1 },
+  bar: { fields: ['pressure'], factor: 100 },
+};
+
+// Physically plausible values of each field, in stored units
+const FIELD_LIMITS: Record<ReadingField, [number, number]> = {
+  power: [-100000, 100000],
+  energy: [-1e9, 1e9],
+  stateOfCharge: [0, 100],
+  voltage: [0, 1500],
+  current: [-10000, 10000],
+  frequency: [45, 65],
+  temperature: [-40, 125],
+  humidity: [0, 100],
+  pressure: [0, 2000],
+};
+
+// Power range of each device type as a multiple of its rated capacity, when known.
+// Production is positive for PV, discharge for batteries, consumption for loads.
+const POWER_RANGES: Partial<Record<Device['type'], [number, number]>> = {
+  solar_pv: [-0.05, 1.2],
+  battery_storage: [-2, 2],
+  ev_charger: [-0.05, 1.1],
+  bidirectional_ev_charger: [-1.1, 1.1],
+  heat_pump: [-0.05, 1.5],
+};
+
+// Smallest deviation from the recent median treated as a spike, so ordinary steps pass
+const SPIKE_FLOORS: Partial<Record<ReadingField, number>> = {
+  voltage: 50,
+  frequency: 2,
+  temperature: 15,
+  stateOfCharge: 20,
+};
+
+// Fields whose exact value repeating for long means a frozen sensor (zero power is legitimate)
+const STUCK_FIELDS: ReadingField[] = ['power', 'voltage', 'current', 'frequency', 'temperature'];
+
+const SPIKE_WINDOW = 20;
+const SPIKE_MIN_SAMPLES = 5;
+const SPIKE_MAD_FACTOR = 6;
+const STUCK_SAMPLES = 30;
+const STUCK_DURATION = 30 * 60 * 1000; // 30 minutes
+const SEEN_TIMESTAMPS = 500;
+const INTERVAL_WINDOW = 10;
+const MAX_FILLED_GAP = 15 * 60 * 1000; // 15 minutes
+const MAX_FILLED_SAMPLES = 30;
+const BATCH_SIZE = 250;
+const FLUSH_INTERVAL = 1000; // 1 second
+const CATALOG_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+const histories = new Map<number, DeviceHistory>();
+const catalogCache = new Map<number, { registers: DeviceCatalogRegister[]; loadedAt: number }>();
+const pending: PendingReading[] = [];
+let flushTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Run a telemetry message through the pipeline. Accepted and interpolated
+ * readings are queued for the next batch write; rejected samples are
+ * quarantined before this returns.
+ */
+export async function ingestTelemetry(device: Device, telemetry: any, options: IngestionOptions = {}): Promise<TelemetryIngestionResult> {
+  const registers = await getDeviceRegisters(device);
+  const history = getHistory(device.id);
+  const samples = toSamples(telemetry).map(sample => normalizeSample(sample, registers));
+  samples.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const result: TelemetryIngestionResult = { received: samples.length, accepted: 0, estimated: 0, duplicates: 0, quarantined: 0 };
+  const quarantined: InsertTelemetryQuarantineEntry[] = [];
+  const rows: DeviceReadingRow[] = [];
+
+  for (const sample of samples) {
+    // Only accepted samples count as seen, so a corrected resend of a rejected one gets through
+    const at = sample.timestamp.getTime();
+    if (history.seen.includes(at)) {
+      result.duplicates++;
+      continue;
+    }
+
+    validateSample(device, registers, history, sample);
+    if (sample.reasons.length > 0) {
+      quarantined.push({
+        deviceId: device.id,
+        timestamp: sample.timestamp,
+        reasons: sample.reasons,
+        rawSample: sample.raw,
+        normalizedValues: sample.values,
+      });
+      continue;
+    }
+
+    const expectedInterval = median(history.intervals);
+    const previous = history.lastAccepted;
+    if (previous && at > previous.timestamp) {
+      const filled = interpolateGap(previous, sample, expectedInterval);
+      rows.push(...filled.map(values => toRow(device.id, values.timestamp, values.values, 'estimated', expectedInterval, {
+        interpolated: true,
+        between: [new Date(previous.timestamp).toISOString(), sample.timestamp.toISOString()],
+      })));
+      result.estimated += filled.length;
+
+      remember(history.intervals, at - previous.timestamp, INTERVAL_WINDOW);
+    }
+
+    rows.push(toRow(device.id, sample.timestamp, sample.values, 'validated', expectedInterval, { checks: ['range', 'spike', 'stuck'] }, sample));
+    acceptSample(history, sample);
+    remember(history.seen, at, SEEN_TIMESTAMPS);
+    result.accepted++;
+  }
+
+  if (quarantined.length > 0) {
+    await db.insert(telemetryQuarantine).values(quarantined);
+    result.quarantined = quarantined.length;
+    console.warn(`Quarantined ${quarantined.length} telemetry samples for device ${device.id}`);
+  }
+
+  rows.sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
+  enqueueReadings(device, rows, options.broadcast !== false);
+  return result;
+}
+
+/**
+ * Samples of a device rejected since a given time, newest first
+ */
+export async function getQuarantinedSamples(deviceId: number, since: Date, limit: number): Promise<TelemetryQuarantineEntry[]> {
+  return db
+    .select()
+    .from(telemetryQuarantine)
+    .where(and(eq(telemetryQuarantine.deviceId, deviceId), gte(telemetryQuarantine.receivedAt, since)))
+    .orderBy(desc(telemetryQuarantine.receivedAt))
+    .limit(limit);
+}
+
+/**
+ * Write every queued reading now
+ */
+export async function flushTelemetry(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+
+  const batch = pending.splice(0, pending.length);
+  if (batch.length === 0) return;
+
+  try {
+    const stored = await db.insert(deviceReadings).values(batch.map(entry => entry.row)).returning();
+
+    // Rows are returned in insertion order
+    stored.forEach((reading, index) => {
+      const { device, broadcast } = batch[index];
+      if (broadcast) {
+        broadcastDeviceReading(device.id, reading);
+      }
+      recordDeviceReading(device, reading);
+    });
+  } catch (error) {
+    console.error(`Error writing batch of ${batch.length} device readings:`, error);
+  }
+}
+
+function enqueueReadings(device: Device, rows: DeviceReadingRow[], broadcast: boolean): void {
+  rows.forEach(row => pending.push({ device, row, broadcast }));
+
+  if (pending.length >= BATCH_SIZE) {
+    flushTelemetry().catch(error => console.error('Error flushing telemetry:', error));
+  } else if (pending.length > 0 && !flushTimer) {
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      flushTelemetry().catch(error => console.error('Error flushing telemetry:', error));
+    }, FLUSH_INTERVAL);
+  }
+}
+
+// Registers of the device's catalog model, found by its link or else by model number
+async function getDeviceRegisters(device: Device): Promise<DeviceCatalogRegister[]> {
+  const cached = catalogCache.get(device.id);
+  if (cached && Date.now() - cached.loadedAt < CATALOG_CACHE_TTL) {
+    return cached.registers;
+  }
+
+  const catalogId = await resolveDeviceCatalogId(device);
+  const registers = catalogId != null ? await getCatalogRegisters(catalogId) : [];
+  catalogCache.set(device.id, { registers, loadedAt: Date.now() });
+  return registers;
+}
+
+function getHistory(deviceId: number): DeviceHistory {
+  let history = histories.get(deviceId);
+  if (!history) {
+    history = { seen: [], lastAccepted: null, intervals: [], windows: {}, stuck: {} };
+    histories.set(deviceId, history);
+  }
+  return history;
+}
+
+// Split a message into its samples
+function toSamples(telemetry: any): Array<Record<string, unknown>> {
+  if (Array.isArray(telemetry?.samples)) {
+    return telemetry.samples.filter((sample: unknown) => sample && typeof sample === 'object');
+  }
+  return [telemetry];
+}
+
+function normalizeSample(raw: Record<string, unknown>, registers: DeviceCatalogRegister[]): Sample {
+  const sample: Sample = {
+    timestamp: new Date(),
+    values: {},
+    additionalData: {},
+    raw,
+    reasons: [],
+  };
+
+  const timestamp = parseTimestamp(raw.timestamp);
+  if (timestamp) {
+    sample.timestamp = timestamp;
+  } else if (raw.timestamp != null) {
+    sample.reasons.push({ field: 'timestamp', check: 'invalid', value: raw.timestamp, message: 'Timestamp is not a valid date' });
+  }
+
+  const units = (raw.units && typeof raw.units === 'object' ? raw.units : {}) as Record<string, string>;
+  const readings = (raw.readings && typeof raw.readings === 'object' ? raw.readings : raw) as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(readings)) {
+    if (['timestamp', 'units', 'registers', 'readings', 'metadata', 'deviceId', 'type'].includes(key)) continue;
+
+    if (key === 'operationalMode' && typeof value === 'string') {
+      sample.operationalMode = value;
+      continue;
+    }
+    if (key === 'statusCode' && Number.isInteger(Number(value))) {
+      sample.statusCode = Number(value);
+      continue;
+    }
+
+    const field = matchField(key);
+    if (!field || value == null) {
+      sample.additionalData[key] = value;
+      continue;
+    }
+
+    const unit = units[key] ?? units[field] ?? findRegister(registers, field)?.unit ?? null;
+    setValue(sample, field, Number(value), unit, key);
+  }
+
+  // Raw register values are decoded with the catalog's scale factor and offset
+  const rawRegisters = raw.registers && typeof raw.registers === 'object' ? raw.registers as Record<string, unknown> : {};
+  for (const [ref, value] of Object.entries(rawRegisters)) {
+    const register = registers.find(r => r.address === ref || r.name === ref);
+    const numeric = Number(value);
+    if (!register || !Number.isFinite(numeric)) {
+      sample.additionalData[ref] = value;
+      continue;
+    }
+
+    const scaled = numeric * Number(register.scaleFactor ?? 1) + Number(register.offsetValue ?? 0);
+    const field = matchField(register.name);
+    if (field) {
+      setValue(sample, field, scaled, register.unit, register.name);
+    } else {
+      sample.additionalData[register.name] = scaled;
+    }
+  }
+
+  return sample;
+}
+
+function setValue(sample: Sample, field: ReadingField, value: number, unit: string | null, source: string): void {
+  if (!Number.isFinite(value)) {
+    sample.reasons.push({ field, check: 'invalid', value, message: `${source} is not a number` });
+    return;
+  }
+
+  const converted = convertUnit(value, unit, field);
+  if (converted == null) {
+    sample.reasons.push({ field, check: 'unit', value, limit: unit, message: `Unit ${unit} of ${source} cannot be converted for ${field}` });
+    return;
+  }
+  sample.values[field] = converted;
+}
+
+function matchField(name: string): ReadingField | null {
+  const key = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return READING_FIELDS.find(field => FIELD_ALIASES[field].includes(key)) ?? null;
+}
+
+function findRegister(registers: DeviceCatalogRegister[], field: ReadingField): DeviceCatalogRegister | undefined {
+  return registers.find(register => matchField(register.name) === field);
+}
+
+// Convert a value to the stored unit of a field; no unit means it is already in that unit
+function convertUnit(value: number, unit: string | null | undefined, field: ReadingField): number | null {
+  const key = (unit ?? '').toLowerCase().replace(/[\s°]|deg/g, '');
+  if (!key) return value;
+
+  const conversion = UNIT_CONVERSIONS[key];
+  if (!conversion || !conversion.fields.includes(field)) return null;
+  return value * conversion.factor + (conversion.offset ?? 0);
+}
+
+function parseTimestamp(value: unknown): Date | null {
+  if (value == null) return null;
+  const date = value instanceof Date ? value : new Date(typeof value === 'number' ? value : String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Valid range of each field for a device: plausible values, narrowed by its
+// rated power and by the min/max of its catalog registers
+function getLimits(device: Device, registers: DeviceCatalogRegister[]): Record<ReadingField, [number, number]> {
+  const limits = { ...FIELD_LIMITS };
+
+  const capacity = Number(device.capacity);
+  const powerRange = POWER_RANGES[device.type];
+  if (powerRange && capacity > 0) {
+    limits.power = [powerRange[0] * capacity, powerRange[1] * capacity];
+  }
+
+  for (const field of READING_FIELDS) {
+    const register = findRegister(registers, field);
+    if (!register) continue;
+    const min = register.minValue != null ? convertUnit(Number(register.minValue), register.unit, field) : null;
+    const max = register.maxValue != null ? convertUnit(Number(register.maxValue), register.unit, field) : null;
+    limits[field] = [
+      min != null && Number.isFinite(min) ? Math.max(limits[field][0], min) : limits[field][0],
+      max != null && Number.isFinite(max) ? Math.min(limits[field][1], max) : limits[field][1],
+    ];
+  }
+
+  return limits;
+}
+
+// Add the reasons a sample must be rejected; the stuck-value counters see every sample
+function validateSample(device: Device, registers: DeviceCatalogRegister[], history: DeviceHistory, sample: Sample): void {
+  const limits = getLimits(device, registers);
+  const at = sample.timestamp.getTime();
+
+  for (const field of READING_FIELDS) {
+    const value = sample.values[field];
+    if (value == null) continue;
+
+    const [min, max] = limits[field];
+    if (value < min || value > max) {
+      sample.reasons.push({ field, check: 'range', value, limit: [min, max], message: `${field} ${value} is outside ${min} to ${max}` });
+      continue;
+    }
+
+    // A spike departs from the recent median by far more than the usual spread
+    // Power may swing across half its rated range, e.g. a battery reversing
+    const window = history.windows[field] ?? [];
+    const floor = field === 'power'
+      ? (Number(device.capacity) > 0 ? (limits.power[1] - limits.power[0]) / 2 : undefined)
+      : SPIKE_FLOORS[field];
+    if (floor != null && window.length >= SPIKE_MIN_SAMPLES) {
+      const center = median(window)!;
+      const spread = median(window.map(v => Math.abs(v - center)))! * 1.4826;
+      const threshold = Math.max(floor, SPIKE_MAD_FACTOR * spread);
+      if (Math.abs(value - center) > threshold) {
+        sample.reasons.push({ field, check: 'spike', value, limit: threshold, message: `${field} ${value} departs from the recent median ${round(center)} by more than ${round(threshold)}` });
+        continue;
+      }
+    }
+
+    if (STUCK_FIELDS.includes(field)) {
+      const stuck = history.stuck[field];
+      if (stuck && stuck.value === value) {
+        stuck.count++;
+      } else {
+        history.stuck[field] = { value, count: 1, since: at };
+      }
+
+      const current = history.stuck[field]!;
+      if (value !== 0 && current.count >= STUCK_SAMPLES && at - current.since >= STUCK_DURATION) {
+        sample.reasons.push({
+          field,
+          check: 'stuck',
+          value,
+          limit: current.count,
+          message: `${field} has reported exactly ${value} for ${current.count} samples since ${new Date(current.since).toISOString()}`,
+        });
+      }
+    }
+  }
+}
+
+function acceptSample(history: DeviceHistory, sample: Sample): void {
+  for (const field of READING_FIELDS) {
+    const value = sample.values[field];
+    if (value == null) continue;
+    const window = history.windows[field] ?? (history.windows[field] = []);
+    remember(window, value, SPIKE_WINDOW);
+  }
+
+  const at = sample.timestamp.getTime();
+  if (!history.lastAccepted || at > history.lastAccepted.timestamp) {
+    history.lastAccepted = { timestamp: at, values: { ...sample.values } };
+  }
+}
+
+// Readings interpolated between the previous accepted sample and this one
+// when a short gap follows the device's usual sampling interval
+function interpolateGap(
+  previous: { timestamp: number; values: ReadingValues },
+  sample: Sample,
+  expectedInterval: number | null
+): Array<{ timestamp: Date; values: ReadingValues }> {
+  const end = sample.timestamp.getTime();
+  const gap = end - previous.timestamp;
+  if (expectedInterval == null || expectedInterval <= 0 || gap <= expectedInterval * 1.5 || gap > MAX_FILLED_GAP) {
+    return [];
+  }
+
+  const steps = Math.round(gap / expectedInterval) - 1;
+  if (steps < 1 || steps > MAX_FILLED_SAMPLES) return [];
+
+  const fields = READING_FIELDS.filter(field => previous.values[field] != null && sample.values[field] != null);
+  if (fields.length === 0) return [];
+
+  const filled: Array<{ timestamp: Date; values: ReadingValues }> = [];
+  for (let step = 1; step <= steps; step++) {
+    const at = previous.timestamp + (gap * step) / (steps + 1);
+    const fraction = (at - previous.timestamp) / gap;
+    const values: ReadingValues = {};
+    fields.forEach(field => {
+      values[field] = previous.values[field]! + (sample.values[field]! - previous.values[field]!) * fraction;
+    });
+    filled.push({ timestamp: new Date(Math.round(at)), values });
+  }
+  return filled;
+}
+
+function toRow(
+  deviceId: number,
+  timestamp: Date,
+  values: ReadingValues,
+  dataQuality: 'validated' | 'estimated',
+  interval: number | null,
+  processing: Record<string, unknown>,
+  sample?: Sample
+): DeviceReadingRow {
+  const hasExtras = sample && Object.keys(sample.additionalData).length > 0;
+  return {
+    deviceId,
+    timestamp,
+    power: toNumeric(values.power),
+    energy: toNumeric(values.energy),
+    stateOfCharge: toNumeric(values.stateOfCharge),
+    voltage: toNumeric(values.voltage),
+    current: toNumeric(values.current),
+    frequency: toNumeric(values.frequency),
+    temperature: toNumeric(values.temperature),
+    humidity: toNumeric(values.humidity),
+    pressure: toNumeric(values.pressure),
+    operationalMode: sample?.operationalMode,
+    statusCode: sample?.statusCode,
+    samplingRate: getSamplingRate(interval),
+    dataQuality,
+    additionalData: hasExtras ? sample!.additionalData : undefined,
+    processingMetadata: { pipeline: 'telemetry_ingestion', ...processing },
+  };
+}
+
+function getSamplingRate(interval: number | null): SamplingRate {
+  if (interval == null) return 'medium';
+  if (interval < 1000) return 'real_time';
+  if (interval <= 5000) return 'high';
+  if (interval <= 60000) return 'medium';
+  if (interval <= 15 * 60000) return 'low';
+  return 'very_low';
+}
+
+// Append to a bounded list, dropping the oldest entry
+function remember<T>(list: T[], value: T, size: number): void {
+  list.push(value);
+  if (list.length > size) list.shift();
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function round(value: number, decimals: number = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function toNumeric(value: number | undefined): string | undefined {
+  return value != null && Number.isFinite(value) ? String(round(value, 4)) : undefined;
+}
@@ -0,0 +1,233 @@
+/**
+ * Two-Factor Authentication Service
+ *
+ * Time-based one-time passwords (RFC 6238, SHA-1, 6 digits, 30 second steps)
+ * for user accounts, plus single-use recovery codes. Secrets are stored in
+ * `users.twoFactorSecret` once enrollment is confirmed with a first code;
+ * recovery codes are stored as SHA-256 hashes and removed when used.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import QRCode from 'qrcode';
+import { db } from '../db';
+import { users, type User } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+
+export type SecondFactorMethod = 'totp' | 'recovery_code';
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+const TOTP_PERIOD = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // Accept codes one step either side of now for clock drift
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Energy Management System';
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// How long a completed second factor counts for step-up checks
+export const MFA_STEP_UP_WINDOW = 15 * 60 * 1000;
+
+// Last accepted time step per user, so a code cannot be replayed
+const lastUsedSteps = new Map<number, number>();
+
+/**
+ * Start enrollment: generate a secret and the QR code for authenticator apps.
+ * The secret is only saved once the user confirms it with a valid code.
+ */
+export async function createEnrollment(user: User): Promise<TwoFactorEnrollment> {
+  const secret = encodeBase32(randomBytes(20));
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${user.email || user.username}`);
+  const otpauthUrl =
+    `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}` +
+    `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD}`;
+
+  return {
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl),
+  };
+}
+
+/**
+ * Check a TOTP code against a secret. Each time step is accepted once per user.
+ */
+export function verifyTotpCode(userId: number, secret: string, code: string): boolean {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) {
+    return false;
+  }
+
+  const key = decodeBase32(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD);
+
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const step = currentStep + offset;
+    if (step <= (lastUsedSteps.get(userId) ?? -1)) continue;
+
+    const expected = Buffer.from(generateCode(key, step));
+    if (timingSafeEqual(expected, Buffer.from(normalized))) {
+      lastUsedSteps.set(userId, step);
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Save a confirmed secret and issue recovery codes. Returns the plain codes,
+ * which are only shown to the user this once.
+ */
+export async function enableTwoFactor(userId: number, secret: string): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+
+  await db
+    .update(users)
+    .set({ twoFactorEnabled: true, twoFactorSecret: secret, twoFactorRecoveryCodes: hashes })
+    .where(eq(users.id, userId));
+
+  return codes;
+}
+
+/**
+ * Turn off two-factor authentication and discard the secret and recovery codes
+ */
+export async function disableTwoFactor(userId: number): Promise<void> {
+  await db
+    .update(users)
+    .set({ twoFactorEnabled: false, twoFactorSecret: null, twoFactorRecoveryCodes: null })
+    .where(eq(users.id, userId));
+  lastUsedSteps.delete(userId);
+}
+
+/**
+ * Replace a user's recovery codes with a new set
+ */
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+  await db.update(users).set({ twoFactorRecoveryCodes: hashes }).where(eq(users.id, userId));
+  return codes;
+}
+
+/**
+ * Number of recovery codes a user has left
+ */
+export function getRemainingRecoveryCodes(user: User): number {
+  return user.twoFactorRecoveryCodes?.length ?? 0;
+}
+
+/**
+ * Verify a second factor: a TOTP code, or a recovery code which is consumed.
+ * Returns the method that succeeded, or null.
+ */
+export async function verifySecondFactor(
+  user: User,
+  credentials: { code?: string; recoveryCode?: string }
+): Promise<SecondFactorMethod | null> {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    return null;
+  }
+
+  if (credentials.code) {
+    return verifyTotpCode(user.id, user.twoFactorSecret, credentials.code) ? 'totp' : null;
+  }
+
+  if (credentials.recoveryCode) {
+    const hash = hashRecoveryCode(credentials.recoveryCode);
+    const [current] = await db
+      .select({ codes: users.twoFactorRecoveryCodes })
+      .from(users)
+      .where(eq(users.id, user.id));
+
+    const codes = current?.codes ?? [];
+    if (!codes.includes(hash)) {
+      return null;
+    }
+
+    await db
+      .update(users)
+      .set({ twoFactorRecoveryCodes: codes.filter(code => code !== hash) })
+      .where(eq(users.id, user.id));
+    return 'recovery_code';
+  }
+
+  return null;
+}
+
+/**
+ * Whether a second factor was completed recently enough for step-up checks
+ */
+export function isMfaFresh(mfaVerifiedAt?: number): boolean {
+  return mfaVerifiedAt !== undefined && Date.now() - mfaVerifiedAt < MFA_STEP_UP_WINDOW;
+}
+
+function generateCode(key: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return binary.toString().padStart(TOTP_DIGITS, '0');
+}
+
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// Recovery codes are compared case-insensitively and with or without the dash
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.trim().toLowerCase().replace(/-/g, '')).digest('hex');
+}
+
+function encodeBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function decodeBase32(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
@@ -0,0 +1,800 @@
+/**
+ * VPP Dispatch Service
+ *
+ * Executes VPP response plans while an event is active. When a site starts
+ * participating, each resource in its plan is given a setpoint for its
+ * allocated share of the committed capacity, and every tick the dispatcher:
+ *
+ * - reads the resources' telemetry and works out what each can deliver now
+ *   (battery state of charge against its floor or ceiling, whether an EV is
+ *   plugged in, device status and telemetry freshness)
+ * - measures what each delivers against its load before the dispatch, and
+ *   moves the shortfall of resources that cannot deliver, or that keep
+ *   under-delivering, to resources with headroom, in plan priority order
+ * - sends setpoints that changed
+ *
+ * Delivery is measured per interval against the site baseline on the meter,
+ * or from the resources themselves when the site has no baseline or meter
+ * readings, and recorded as VPP metrics. Only delivery up to the committed
+ * capacity is credited for performance and compensation. Progress is
+ * streamed to the site's WebSocket subscribers.
+ *
+ * Loads are in kW with grid import positive: `decrease` events ask for less
+ * import (discharge batteries, curtail charging and flexible loads) and
+ * `increase` events for more (charge batteries and EVs, curtail solar).
+ * Resources are held during `maintain` events and measured on how close
+ * they stay to their baseline.
+ */
+
+import type { Device, DeviceReading } from '@shared/schema';
+import type {
+  VPPEvent,
+  VPPMetrics,
+  VPPParticipation,
+  VPPResourceType,
+  VPPResponseDirection,
+  VPPResponsePlan,
+} from '@shared/vppSchema';
+import { storage } from '../storage';
+import { vppStorage } from '../vppStorage';
+import type { ChargingProfile } from '../adapters/ocppAdapter';
+import { buildMeterIntervals } from './billingService';
+import { executeCommand, SYSTEM_ACTOR } from './commandGatewayService';
+import { calculateBaseline, getAverageLoad } from './demandResponseBaselineService';
+import { getActiveTransactions, getChargePointConnectedAt } from './ocppCsmsService';
+import { broadcastVppDispatch } from './websocketService';
+
+type ResourceAllocation = VPPResponsePlan['resourceAllocations'][number];
+type ResourceStatus = VPPMetrics['resourceMetrics'][number]['status'];
+
+export interface ResourceDispatchStatus {
+  resourceId: number;
+  resourceType: VPPResourceType;
+  plannedKw: number;
+  targetKw: number;
+  deliveredKw: number | null; // Null without recent telemetry
+  headroomKw: number;
+  status: ResourceStatus;
+  message?: string;
+}
+
+export interface DispatchStatus {
+  participationId: number;
+  eventId: number;
+  siteId: number;
+  responseDirection: VPPResponseDirection;
+  state: 'dispatching' | 'completed';
+  committedKw: number;
+  allocatedKw: number;
+  deliveredKw: number | null; // Resources, on the last tick
+  lastIntervalKw: number | null; // Last closed interval
+  measuredBy: 'meter' | 'resources' | null; // Source of the last closed interval
+  deliveredKwh: number;
+  performance: number; // % of the committed energy so far
+  compensation: number;
+  startedAt: string;
+  updatedAt: string;
+  resources: ResourceDispatchStatus[];
+}
+
+export interface DispatchSettlement {
+  actualResponse: number; // Average delivered kW
+  performance: number;
+  compensation: number;
+}
+
+interface Setpoint {
+  commandType: string;
+  parameters: Record<string, any>;
+}
+
+interface DispatchedResource {
+  allocation: ResourceAllocation;
+  device: Device | undefined;
+  ratedKw: number;
+  baselineLoadKw: number; // Load before the dispatch
+  loadKw: number | null;
+  stateOfCharge: number | null;
+  deliveredKw: number | null;
+  headroomKw: number;
+  targetKw: number;
+  status: ResourceStatus;
+  message?: string;
+  shortfallTicks: number;
+  capKw: number | null; // Held at what it delivered after under-delivering
+  capUntil: number;
+  respondBy: number; // Under-delivery is not counted before this
+  sent: { powerKw: number; sentAt: number; csms: boolean } | null;
+  samples: number[]; // Delivered kW in the current interval
+}
+
+interface Dispatch {
+  participation: VPPParticipation;
+  event: VPPEvent;
+  direction: VPPResponseDirection;
+  rate: number; // Compensation per kWh
+  responseTimeMs: number;
+  startedAt: Date;
+  siteBaselineKw: number | null;
+  resources: DispatchedResource[];
+  intervalStart: Date;
+  deliveredKwh: number;
+  creditedKwh: number;
+  measuredHours: number;
+  lastDeliveredKw: number | null;
+  lastIntervalKw: number | null;
+  measuredBy: 'meter' | 'resources' | null;
+  stopped: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const TICK_INTERVAL = 30 * 1000;
+const MEASUREMENT_INTERVAL = 5 * 60 * 1000;
+const TELEMETRY_STALE_AFTER = 5 * 60 * 1000;
+const PRE_DISPATCH_WINDOW = 15 * 60 * 1000; // Readings averaged for a resource's baseline
+const MIN_METER_COVERAGE = 0.75;
+const UNDER_DELIVERY_RATIO = 0.8; // Delivering less than this share of the target is a shortfall
+const UNDER_DELIVERY_TICKS = 2;
+const CAP_HOLD = MEASUREMENT_INTERVAL; // How long an under-delivering resource is held before it is tried again
+const MIN_SETPOINT_CHANGE = 0.5; // kW
+const SETPOINT_VALIDITY = 120; // seconds a CSMS charger profile stays in force without a refresh
+const PROFILE_REFRESH_AFTER = 60 * 1000;
+const DEFAULT_BATTERY_C_RATE = 0.5;
+const DEFAULT_MIN_SOC = 20; // %
+const DEFAULT_MAX_SOC = 90; // %
+const MIN_KW = 0.05;
+const COMMAND_PRIORITY = 2;
+const UNAVAILABLE_STATUSES: Device['status'][] = ['offline', 'error', 'maintenance'];
+
+// Profile ID owned by the dispatcher; the charger takes the lower of it and the load balancer's TxProfiles
+const VPP_PROFILE_ID = 7200;
+
+const RESTORE_COMMANDS: Partial<Record<VPPResourceType, string>> = {
+  battery: 'resume_normal_operation',
+  ev_charger: 'clear_charging_limit',
+  flexible_load: 'clear_power_limit',
+  solar_pv: 'clear_production_limit',
+};
+
+let tickTimer: NodeJS.Timeout | null = null;
+let processing = false;
+
+const dispatches = new Map<number, Dispatch>();
+const loadingDispatches = new Map<number, Promise<Dispatch | null>>();
+
+/**
+ * The state of a participation's dispatch on the last tick
+ */
+export function getDispatchStatus(participationId: number): DispatchStatus | undefined {
+  const dispatch = dispatches.get(participationId);
+  return dispatch ? toStatus(dispatch) : undefined;
+}
+
+/**
+ * Send the setpoints of a participation's response plan and start
+ * measuring its delivery. Returns null if it has no response plan.
+ */
+export async function startDispatch(participationId: number): Promise<DispatchStatus | null> {
+  const dispatch = await ensureDispatch(participationId);
+  if (!dispatch) return null;
+
+  await stepDispatch(dispatch);
+  console.log(`Dispatching VPP participation ${participationId}: ${dispatch.resources.length} resources for ${dispatch.participation.acceptedCapacity} kW`);
+  return toStatus(dispatch);
+}
+
+/**
+ * Stop dispatching a participation: measure the open interval, return its
+ * resources to normal operation and work out the settlement
+ */
+export async function stopDispatch(participationId: number): Promise<DispatchSettlement | null> {
+  const dispatch = await ensureDispatch(participationId);
+  if (!dispatch) return null;
+
+  dispatch.stopped = true;
+  dispatches.delete(participationId);
+
+  const now = Date.now();
+  for (const resource of dispatch.resources) {
+    await refreshResource(dispatch, resource, now);
+    if (resource.deliveredKw != null) resource.samples.push(resource.deliveredKw);
+  }
+  await closeInterval(dispatch, new Date(now));
+
+  for (const resource of dispatch.resources) {
+    await releaseResource(dispatch, resource);
+  }
+
+  broadcastVppDispatch(dispatch.participation.siteId, toStatus(dispatch));
+  return settle(dispatch);
+}
+
+/**
+ * Advance every running dispatch, picking up participations that are
+ * running without one, such as after a restart
+ */
+export async function processDispatches(): Promise<void> {
+  if (processing) return;
+  processing = true;
+
+  try {
+    await resumeDispatches();
+
+    for (const dispatch of Array.from(dispatches.values())) {
+      try {
+        await stepDispatch(dispatch);
+      } catch (error) {
+        console.error(`Error dispatching VPP participation ${dispatch.participation.id}:`, error);
+      }
+    }
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * Start advancing dispatches on a fixed interval
+ */
+export function initVppDispatchService(): void {
+  if (tickTimer) return;
+
+  tickTimer = setInterval(() => {
+    processDispatches().catch(error => {
+      console.error('Error processing VPP dispatches:', error);
+    });
+  }, TICK_INTERVAL);
+
+  console.log('VPP dispatch service initialized');
+}
+
+// The dispatch of a participation, loading it once if it is not running here yet
+async function ensureDispatch(participationId: number): Promise<Dispatch | null> {
+  const running = dispatches.get(participationId);
+  if (running) return running;
+
+  let loading = loadingDispatches.get(participationId);
+  if (!loading) {
+    loading = loadDispatch(participationId).finally(() => loadingDispatches.delete(participationId));
+    loadingDispatches.set(participationId, loading);
+  }
+
+  const dispatch = await loading;
+  if (dispatch && !dispatches.has(participationId)) {
+    dispatches.set(participationId, dispatch);
+  }
+  return dispatches.get(participationId) ?? null;
+}
+
+async function resumeDispatches(): Promise<void> {
+  const events = await vppStorage.getActiveEvents();
+
+  for (const event of events) {
+    const participations = (await vppStorage.getParticipationsByEvent(event.id))
+      .filter(participation => participation.status === 'participating' && !dispatches.has(participation.id));
+
+    for (const participation of participations) {
+      if (await ensureDispatch(participation.id)) {
+        console.log(`Resumed dispatch of VPP participation ${participation.id}`);
+      }
+    }
+  }
+}
+
+async function loadDispatch(participationId: number): Promise<Dispatch | null> {
+  const participation = await vppStorage.getParticipation(participationId);
+  if (!participation) return null;
+
+  const [plan, event] = await Promise.all([
+    vppStorage.getResponsePlanByParticipation(participationId),
+    vppStorage.getEvent(participation.eventId),
+  ]);
+  if (!plan || !event) {
+    console.warn(`Cannot dispatch VPP participation ${participationId}: ${!plan ? 'no response plan' : 'event not found'}`);
+    return null;
+  }
+
+  const program = await vppStorage.getProgram(event.programId);
+  const startedAt = new Date(participation.startTime ?? event.startTime);
+
+  const allocations = [...plan.resourceAllocations].sort((a, b) => a.priority - b.priority);
+  const resources: DispatchedResource[] = [];
+  for (const allocation of allocations) {
+    resources.push(await loadResource(allocation, event.responseDirection, startedAt));
+  }
+
+  const baseline = await calculateBaseline(participation.siteId, new Date(event.startTime), new Date(event.endTime), {
+    notificationTime: event.notificationTime ? new Date(event.notificationTime) : null,
+  }).catch(error => {
+    console.error(`Error calculating baseline for VPP participation ${participationId}:`, error);
+    return null;
+  });
+
+  const dispatch: Dispatch = {
+    participation,
+    event,
+    direction: event.responseDirection,
+    rate: event.compensationRate ?? program?.compensationRate ?? 0,
+    responseTimeMs: Math.max((program?.minResponseTime ?? 0) * 1000, TICK_INTERVAL),
+    startedAt,
+    siteBaselineKw: baseline?.baselineKw ?? null,
+    resources,
+    intervalStart: startedAt,
+    deliveredKwh: 0,
+    creditedKwh: 0,
+    measuredHours: 0,
+    lastDeliveredKw: null,
+    lastIntervalKw: null,
+    measuredBy: null,
+    stopped: false,
+  };
+
+  // Intervals measured before a restart count towards the settlement
+  for (const metrics of await vppStorage.getMetricsByParticipation(participationId)) {
+    const end = new Date(metrics.timestamp);
+    const hours = (end.getTime() - dispatch.intervalStart.getTime()) / HOUR_MS;
+    if (hours <= 0) continue;
+
+    accumulate(dispatch, metrics.metrics.actualCapacity, hours);
+    dispatch.lastIntervalKw = metrics.metrics.actualCapacity;
+    dispatch.intervalStart = end;
+  }
+
+  return dispatch;
+}
+
+async function loadResource(
+  allocation: ResourceAllocation,
+  direction: VPPResponseDirection,
+  startedAt: Date
+): Promise<DispatchedResource> {
+  const device = await storage.getDevice(allocation.resourceId);
+
+  let baselineLoadKw = 0;
+  if (device) {
+    const readings = (await storage.getDeviceReadingsByTimeRange(device.id, new Date(startedAt.getTime() - PRE_DISPATCH_WINDOW), startedAt))
+      .filter(reading => reading.power != null);
+    if (readings.length > 0) {
+      baselineLoadKw = readings.reduce((sum, reading) => sum + toLoadKw(allocation.resourceType, Number(reading.power)), 0) / readings.length;
+    }
+  }
+
+  return {
+    allocation,
+    device,
+    ratedKw: getRatedPower(device, allocation, direction),
+    baselineLoadKw,
+    loadKw: null,
+    stateOfCharge: null,
+    deliveredKw: null,
+    headroomKw: 0,
+    targetKw: 0,
+    status: 'inactive',
+    shortfallTicks: 0,
+    capKw: null,
+    capUntil: 0,
+    respondBy: 0,
+    sent: null,
+    samples: [],
+  };
+}
+
+async function stepDispatch(dispatch: Dispatch): Promise<void> {
+  const now = Date.now();
+
+  for (const resource of dispatch.resources) {
+    await refreshResource(dispatch, resource, now);
+    trackShortfall(resource, now);
+  }
+
+  allocate(dispatch);
+
+  for (const resource of dispatch.resources) {
+    if (dispatch.stopped) return;
+    await applySetpoint(dispatch, resource, now);
+    if (resource.deliveredKw != null) resource.samples.push(resource.deliveredKw);
+  }
+
+  const measured = dispatch.resources.filter(resource => resource.deliveredKw != null);
+  dispatch.lastDeliveredKw = measured.length > 0 ? measured.reduce((sum, resource) => sum + resource.deliveredKw!, 0) : null;
+
+  if (now - dispatch.intervalStart.getTime() >= MEASUREMENT_INTERVAL) {
+    await closeInterval(dispatch, new Date(now));
+  }
+
+  if (!dispatch.stopped) {
+    broadcastVppDispatch(dispatch.participation.siteId, toStatus(dispatch));
+  }
+}
+
+// Read a resource's telemetry and work out what it delivers and can deliver now
+async function refreshResource(dispatch: Dispatch, resource: DispatchedResource, now: number): Promise<void> {
+  const device = resource.device ? await storage.getDevice(resource.device.id) : undefined;
+  const { resourceType } = resource.allocation;
+  resource.message = undefined;
+
+  if (!device) {
+    setUnavailable(resource, 'error', 'Device not found');
+    return;
+  }
+  resource.device = device;
+
+  if (UNAVAILABLE_STATUSES.includes(device.status)) {
+    setUnavailable(resource, device.status === 'offline' ? 'inactive' : 'error', `Device is ${device.status}`);
+    return;
+  }
+
+  const [reading] = await storage.getDeviceReadings(device.id, 1);
+  const recent = isRecent(reading, now) ? reading : undefined;
+  let loadKw = recent?.power != null ? toLoadKw(resourceType, Number(recent.power)) : null;
+  let plugged = true;
+
+  // Chargers on the CSMS report their sessions directly
+  if (resourceType === 'ev_charger' && getChargePointConnectedAt(device.id)) {
+    const transactions = await getActiveTransactions(device.id);
+    plugged = transactions.length > 0;
+    const metered = transactions.filter(transaction => transaction.powerKw != null);
+    if (!plugged) {
+      loadKw = 0;
+    } else if (metered.length > 0) {
+      loadKw = metered.reduce((sum, transaction) => sum + transaction.powerKw!, 0);
+    }
+  }
+
+  if (loadKw == null) {
+    setUnavailable(resource, 'error', 'No recent telemetry');
+    return;
+  }
+
+  resource.loadKw = loadKw;
+  resource.stateOfCharge = recent?.stateOfCharge != null ? Number(recent.stateOfCharge) : null;
+  resource.deliveredKw = measureDelivery(dispatch.direction, resource.baselineLoadKw, loadKw, resource.allocation.targetCapacity);
+
+  const headroom = getHeadroom(dispatch.direction, resource, plugged);
+  resource.headroomKw = Math.max(headroom.kw, 0);
+  resource.message = headroom.message;
+  resource.status = headroom.message ? 'inactive' : 'active';
+}
+
+function setUnavailable(resource: DispatchedResource, status: ResourceStatus, message: string): void {
+  resource.loadKw = null;
+  resource.deliveredKw = null;
+  resource.headroomKw = 0;
+  resource.status = status;
+  resource.message = message;
+}
+
+// Count ticks a resource stays well short of its target and hold it at what it delivers if it does not recover
+function trackShortfall(resource: DispatchedResource, now: number): void {
+  if (resource.capKw != null && now >= resource.capUntil) {
+    resource.capKw = null;
+    resource.shortfallTicks = 0;
+  }
+
+  const short = resource.deliveredKw != null
+    && now >= resource.respondBy
+    && resource.targetKw > MIN_KW
+    && resource.deliveredKw < resource.targetKw * UNDER_DELIVERY_RATIO;
+  resource.shortfallTicks = short ? resource.shortfallTicks + 1 : 0;
+
+  if (resource.shortfallTicks >= UNDER_DELIVERY_TICKS && resource.capKw == null) {
+    resource.capKw = Math.max(resource.deliveredKw!, 0);
+    resource.capUntil = now + CAP_HOLD;
+    console.warn(`VPP resource ${resource.allocation.resourceId} is delivering ${resource.deliveredKw!.toFixed(2)} of ${resource.targetKw.toFixed(2)} kW, reallocating`);
+  }
+
+  if (resource.capKw != null) {
+    resource.headroomKw = Math.min(resource.headroomKw, resource.capKw);
+    resource.message = resource.message ?? `Under-delivering, held at ${resource.capKw.toFixed(2)} kW`;
+  }
+}
+
+// Planned targets first, capped at what each resource can deliver now; the shortfall goes to resources with headroom to spare
+function allocate(dispatch: Dispatch): void {
+  const { resources } = dispatch;
+
+  for (const resource of resources) {
+    resource.targetKw = Math.min(resource.allocation.targetCapacity, resource.headroomKw);
+  }
+
+  let shortfall = dispatch.participation.acceptedCapacity - resources.reduce((sum, resource) => sum + resource.targetKw, 0);
+  for (const resource of resources) {
+    if (shortfall <= MIN_KW) break;
+
+    const extra = Math.min(resource.headroomKw - resource.targetKw, shortfall);
+    if (extra > 0) {
+      resource.targetKw += extra;
+      shortfall -= extra;
+    }
+  }
+}
+
+async function applySetpoint(dispatch: Dispatch, resource: DispatchedResource, now: number): Promise<void> {
+  const { device } = resource;
+  if (!device || dispatch.direction === 'maintain') return;
+
+  if (resource.targetKw <= MIN_KW) {
+    if (resource.sent && resource.status !== 'error') await releaseResource(dispatch, resource);
+    return;
+  }
+
+  const csms = resource.allocation.resourceType === 'ev_charger' && !!getChargePointConnectedAt(device.id);
+  const { sent } = resource;
+  const changed = !sent || sent.csms !== csms || Math.abs(sent.powerKw - resource.targetKw) >= MIN_SETPOINT_CHANGE;
+  if (!changed && !(csms && now - sent!.sentAt >= PROFILE_REFRESH_AFTER)) return;
+
+  const setpoint = csms ? buildChargerProfile(dispatch, resource, now) : buildSetpoint(dispatch, resource);
+  if (!setpoint) return;
+
+  const outcome = await executeCommand(SYSTEM_ACTOR, device.id, setpoint.commandType, setpoint.parameters, {
+    priority: COMMAND_PRIORITY,
+    expiresInSeconds: csms ? SETPOINT_VALIDITY : undefined,
+  });
+
+  // Queued setpoints are not resent on every tick; the queue delivers them once the device is reachable
+  if (outcome.status === 'executed' || outcome.status === 'queued') {
+    resource.sent = { powerKw: resource.targetKw, sentAt: now, csms };
+    if (changed) resource.respondBy = now + dispatch.responseTimeMs;
+  } else {
+    resource.sent = null;
+    console.warn(`Failed to send VPP setpoint to device ${device.id}: ${'reason' in outcome ? outcome.reason : outcome.status}`);
+  }
+}
+
+// Setpoint that moves a resource's load by its target from its baseline
+function buildSetpoint(dispatch: Dispatch, resource: DispatchedResource): Setpoint | null {
+  const { baselineLoadKw, targetKw } = resource;
+  const decrease = dispatch.direction === 'decrease';
+  const loadKw = decrease ? baselineLoadKw - targetKw : baselineLoadKw + targetKw;
+  const parameters = {
+    participationId: dispatch.participation.id,
+    eventId: dispatch.event.id,
+    until: dispatch.event.endTime,
+  };
+
+  switch (resource.allocation.resourceType) {
+    case 'battery':
+      return loadKw < 0
+        ? { commandType: 'set_discharge_power', parameters: { ...parameters, powerKw: round(-loadKw) } }
+        : { commandType: 'set_charge_power', parameters: { ...parameters, powerKw: round(loadKw) } };
+    case 'ev_charger':
+      return { commandType: 'set_charging_limit', parameters: { ...parameters, powerKw: round(Math.max(loadKw, 0)) } };
+    case 'flexible_load':
+      return decrease ? { commandType: 'set_power_limit', parameters: { ...parameters, powerKw: round(Math.max(loadKw, 0)) } } : null;
+    case 'solar_pv':
+      return decrease ? null : { commandType: 'set_production_limit', parameters: { ...parameters, powerKw: round(Math.max(-loadKw, 0)) } };
+    default:
+      return null;
+  }
+}
+
+// Chargers on the CSMS get a short-lived ChargePointMaxProfile, which lapses on its own once it is no longer refreshed
+function buildChargerProfile(dispatch: Dispatch, resource: DispatchedResource, now: number): Setpoint {
+  const decrease = dispatch.direction === 'decrease';
+  const limitKw = Math.max(decrease ? resource.baselineLoadKw - resource.targetKw : resource.baselineLoadKw + resource.targetKw, 0);
+  const validTo = Math.min(now + SETPOINT_VALIDITY * 1000, new Date(dispatch.event.endTime).getTime());
+
+  const chargingProfile: ChargingProfile = {
+    id: VPP_PROFILE_ID,
+    stackLevel: 2,
+    chargingProfilePurpose: 'ChargePointMaxProfile',
+    chargingProfileKind: 'Absolute',
+    validTo: new Date(validTo).toISOString(),
+    chargingSchedule: {
+      startSchedule: new Date(now).toISOString(),
+      duration: Math.max(Math.round((validTo - now) / 1000), 1),
+      chargingRateUnit: 'W',
+      chargingSchedulePeriods: [{ startPeriod: 0, limit: Math.round(limitKw * 1000) }],
+    },
+  };
+
+  return { commandType: 'ocpp.set_charging_profile', parameters: { connectorId: 0, chargingProfile } };
+}
+
+async function releaseResource(dispatch: Dispatch, resource: DispatchedResource): Promise<void> {
+  const { device, sent } = resource;
+  resource.sent = null;
+  if (!device || !sent || sent.csms) return;
+
+  const commandType = RESTORE_COMMANDS[resource.allocation.resourceType];
+  if (!commandType) return;
+
+  const outcome = await executeCommand(SYSTEM_ACTOR, device.id, commandType, {
+    participationId: dispatch.participation.id,
+    eventId: dispatch.event.id,
+  }, { priority: COMMAND_PRIORITY });
+
+  if (outcome.status !== 'executed' && outcome.status !== 'queued') {
+    console.warn(`Failed to release device ${device.id} from VPP participation ${dispatch.participation.id}: ${'reason' in outcome ? outcome.reason : outcome.status}`);
+  }
+}
+
+// Measure the interval since the last one, against the meter when it can be trusted, and record it
+async function closeInterval(dispatch: Dispatch, end: Date): Promise<void> {
+  const start = dispatch.intervalStart;
+  const hours = (end.getTime() - start.getTime()) / HOUR_MS;
+  if (hours <= 0) return;
+
+  const committedKw = dispatch.participation.acceptedCapacity;
+  const resourceKw = dispatch.resources.map(resource => average(resource.samples));
+  let deliveredKw = resourceKw.reduce<number>((sum, kw) => sum + (kw ?? 0), 0);
+  let measuredBy: Dispatch['measuredBy'] = 'resources';
+
+  if (dispatch.siteBaselineKw != null) {
+    const readings = await storage.getEnergyReadingsByTimeRange(dispatch.participation.siteId, start, end);
+    const actual = getAverageLoad(buildMeterIntervals(readings), start, end);
+    if (actual.coverage >= MIN_METER_COVERAGE) {
+      deliveredKw = measureDelivery(dispatch.direction, dispatch.siteBaselineKw, actual.averageKw, committedKw);
+      measuredBy = 'meter';
+    }
+  }
+
+  accumulate(dispatch, deliveredKw, hours);
+  dispatch.lastIntervalKw = deliveredKw;
+  dispatch.measuredBy = measuredBy;
+  dispatch.intervalStart = end;
+
+  const socs = dispatch.resources
+    .filter(resource => resource.allocation.resourceType === 'battery' && resource.stateOfCharge != null)
+    .map(resource => resource.stateOfCharge!);
+  const deviation = deliveredKw - committedKw;
+
+  await vppStorage.addMetrics({
+    participationId: dispatch.participation.id,
+    timestamp: end.toISOString(),
+    metrics: {
+      targetCapacity: committedKw,
+      actualCapacity: deliveredKw,
+      deviation,
+      deviationPercentage: committedKw > 0 ? (deviation / committedKw) * 100 : 0,
+      activeResources: dispatch.resources.filter(resource => resource.status === 'active').length,
+      totalResources: dispatch.resources.length,
+      averageBatterySOC: average(socs) ?? undefined,
+    },
+    resourceMetrics: dispatch.resources.map((resource, i) => ({
+      resourceId: resource.allocation.resourceId,
+      targetCapacity: resource.targetKw,
+      actualCapacity: resourceKw[i] ?? 0,
+      status: resource.status,
+      message: resource.message,
+    })),
+  });
+
+  dispatch.resources.forEach(resource => { resource.samples = []; });
+}
+
+function accumulate(dispatch: Dispatch, deliveredKw: number, hours: number): void {
+  const committedKw = dispatch.participation.acceptedCapacity;
+  dispatch.deliveredKwh += deliveredKw * hours;
+  dispatch.creditedKwh += Math.min(Math.max(deliveredKw, 0), committedKw) * hours;
+  dispatch.measuredHours += hours;
+}
+
+function settle(dispatch: Dispatch): DispatchSettlement {
+  const { measuredHours, deliveredKwh, creditedKwh } = dispatch;
+  const committedKwh = dispatch.participation.acceptedCapacity * measuredHours;
+
+  return {
+    actualResponse: measuredHours > 0 ? round(deliveredKwh / measuredHours) : 0,
+    performance: committedKwh > 0 ? round(Math.min((creditedKwh / committedKwh) * 100, 100)) : 0,
+    compensation: round(creditedKwh * dispatch.rate),
+  };
+}
+
+function toStatus(dispatch: Dispatch): DispatchStatus {
+  const settlement = settle(dispatch);
+
+  return {
+    participationId: dispatch.participation.id,
+    eventId: dispatch.event.id,
+    siteId: dispatch.participation.siteId,
+    responseDirection: dispatch.direction,
+    state: dispatch.stopped ? 'completed' : 'dispatching',
+    committedKw: dispatch.participation.acceptedCapacity,
+    allocatedKw: round(dispatch.resources.reduce((sum, resource) => sum + resource.targetKw, 0)),
+    deliveredKw: dispatch.lastDeliveredKw != null ? round(dispatch.lastDeliveredKw) : null,
+    lastIntervalKw: dispatch.lastIntervalKw != null ? round(dispatch.lastIntervalKw) : null,
+    measuredBy: dispatch.measuredBy,
+    deliveredKwh: round(dispatch.deliveredKwh),
+    performance: settlement.performance,
+    compensation: settlement.compensation,
+    startedAt: dispatch.startedAt.toISOString(),
+    updatedAt: new Date().toISOString(),
+    resources: dispatch.resources.map(resource => ({
+      resourceId: resource.allocation.resourceId,
+      resourceType: resource.allocation.resourceType,
+      plannedKw: resource.allocation.targetCapacity,
+      targetKw: round(resource.targetKw),
+      deliveredKw: resource.deliveredKw != null ? round(resource.deliveredKw) : null,
+      headroomKw: round(resource.headroomKw),
+      status: resource.status,
+      message: resource.message,
+    })),
+  };
+}
+
+// What a resource can deliver from its current state, and why it is limited if it is
+function getHeadroom(
+  direction: VPPResponseDirection,
+  resource: DispatchedResource,
+  plugged: boolean
+): { kw: number; message?: string } {
+  const { baselineLoadKw, ratedKw, stateOfCharge } = resource;
+  const { constraints } = resource.allocation;
+
+  if (direction === 'maintain') {
+    return { kw: resource.allocation.targetCapacity };
+  }
+
+  switch (resource.allocation.resourceType) {
+    case 'battery':
+      if (direction === 'decrease') {
+        // Below the floor the battery can only stop charging
+        return stateOfCharge != null && stateOfCharge <= (constraints.minStateOfCharge ?? DEFAULT_MIN_SOC)
+          ? { kw: baselineLoadKw, message: 'State of charge floor reached' }
+          : { kw: ratedKw + baselineLoadKw };
+      }
+      return stateOfCharge != null && stateOfCharge >= (constraints.maxStateOfCharge ?? DEFAULT_MAX_SOC)
+        ? { kw: -baselineLoadKw, message: 'State of charge ceiling reached' }
+        : { kw: ratedKw - baselineLoadKw };
+    case 'ev_charger':
+      if (!plugged) {
+        return { kw: direction === 'decrease' ? baselineLoadKw : 0, message: 'Charger unplugged' };
+      }
+      return { kw: direction === 'decrease' ? baselineLoadKw : ratedKw - baselineLoadKw };
+    case 'flexible_load':
+      return { kw: direction === 'decrease' ? baselineLoadKw : 0 };
+    case 'solar_pv':
+      return { kw: direction === 'increase' ? -baselineLoadKw : 0 };
+    default:
+      return { kw: 0 };
+  }
+}
+
+// Delivered response for a load measured against its baseline
+function measureDelivery(direction: VPPResponseDirection, baselineKw: number, loadKw: number, targetKw: number): number {
+  switch (direction) {
+    case 'decrease':
+      return baselineKw - loadKw;
+    case 'increase':
+      return loadKw - baselineKw;
+    default:
+      return Math.max(targetKw - Math.abs(loadKw - baselineKw), 0);
+  }
+}
+
+// Power rating in the direction of the event, within the plan's constraints
+function getRatedPower(device: Device | undefined, allocation: ResourceAllocation, direction: VPPResponseDirection): number {
+  const settings = (device?.settings as any) || {};
+  const capacity = Number(device?.capacity || 0);
+  const maxCapacity = allocation.constraints.maxCapacity;
+
+  let ratedKw: number;
+  switch (allocation.resourceType) {
+    case 'battery':
+      ratedKw = Number(
+        (direction === 'increase' ? settings.maxChargeRate : settings.maxDischargeRate) ?? settings.maxPower ?? capacity * DEFAULT_BATTERY_C_RATE
+      );
+      break;
+    default:
+      ratedKw = Number(settings.maxPower ?? capacity);
+  }
+
+  return maxCapacity != null ? Math.min(ratedKw, maxCapacity) : ratedKw;
+}
+
+// Device power as grid load: batteries report discharge and solar production as positive power
+function toLoadKw(resourceType: VPPResourceType, powerKw: number): number {
+  return resourceType === 'battery' || resourceType === 'solar_pv' || resourceType === 'generator' ? -powerKw : powerKw;
+}
+
+function isRecent(reading: DeviceReading | undefined, now: number): boolean {
+  return !!reading?.timestamp && now - reading.timestamp.getTime() <= TELEMETRY_STALE_AFTER;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
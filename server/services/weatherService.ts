@@ -1,8 +1,10 @@
 import fetch from 'node-fetch';
 import { db } from '../db';
-import { weatherData, InsertWeatherData, sites } from '@shared/schema';
+import { weatherData, InsertWeatherData, sites, type Site } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import { storage } from '../storage';
+import { getSiteLocation, type SiteLocation } from './pvProductionService';
+import { applyCloudCover, getClearSkyIrradiance, getSolarPosition } from '../utils/solarModel';
 
 // OpenWeatherMap API constants
 const API_BASE_URL = 'https://api.openweathermap.org/data/2.5';
@@ -11,6 +13,9 @@ const CURRENT_URL = `${API_BASE_URL}/weather`;
 const ONE_CALL_URL = `${API_BASE_URL}/onecall`;
 const UNITS = 'metric'; // Use metric units (Celsius, meters/sec, etc.)
 
+// Used for sites whose coordinates have not been set
+const DEFAULT_LOCATION: SiteLocation = { latitude: 40.7128, longitude: -74.0060, elevation: 0 }; // New York
+
 class WeatherService {
   private apiKey: string | undefined;
 
@@ -44,11 +49,7 @@ class WeatherService {
         throw new Error(`Site with ID ${siteId} not found`);
       }
 
-      // Fetch coordinates based on address if not already available
-      // In a real implementation, we would geocode the address
-      // For now we use a default location for demo purposes
-      const latitude = 40.7128; // Default to New York
-      const longitude = -74.0060;
+      const { latitude, longitude } = this.getCoordinates(site);
 
       // Make API call
       const response = await fetch(
@@ -134,9 +135,7 @@ class WeatherService {
         throw new Error(`Site with ID ${siteId} not found`);
       }
 
-      // Fetch coordinates based on address if not already available
-      const latitude = 40.7128; // Default to New York
-      const longitude = -74.0060;
+      const { latitude, longitude } = this.getCoordinates(site);
 
       // Make API call
       const response = await fetch(
@@ -212,6 +211,16 @@ class WeatherService {
     }
   }
 
+  // Site coordinates, or the default location if the site has none
+  private getCoordinates(site: Site): SiteLocation {
+    const location = getSiteLocation(site);
+    if (!location) {
+      console.warn(`Site ${site.id} has no coordinates, using the default weather location`);
+      return DEFAULT_LOCATION;
+    }
+    return location;
+  }
+
   // Get recent weather data for a site from database
   async getRecentWeatherData(siteId: number, limit: number = 10): Promise<any[]> {
     try {
@@ -284,6 +293,9 @@ class WeatherService {
       icon = isDaytime ? '10d' : '10n';
     }
 
+    const site = await storage.getSite(siteId);
+    const { latitude, longitude } = site ? this.getCoordinates(site) : DEFAULT_LOCATION;
+
     // Create fallback weather data
     const fallbackData: InsertWeatherData = {
       siteId,
@@ -303,9 +315,9 @@ class WeatherService {
       icon,
       isForecasted: isForecast,
       source: 'fallback',
-      locationName: 'Default Location',
-      latitude: 40.7128,
-      longitude: -74.0060,
+      locationName: site?.name || 'Default Location',
+      latitude,
+      longitude,
       metadata: {
         generatedAt: new Date().toISOString(),
         isFallback: true,
@@ -348,90 +360,37 @@ class WeatherService {
     return mapping[condition] || 'clear';
   }
   
-  // Helper function to calculate solar radiation based on weather
+  // Global horizontal irradiance (W/m²) for a weather entry, from the clear-sky
+  // irradiance at its time and location attenuated by its cloud cover
   calculateSolarRadiation(weatherData: any): number {
-    // In a real implementation, this would use more sophisticated models
-    // Such as the Bird Clear Sky Model or similar
-    
-    // For now, use a simplified approach based on cloud cover and time of day
-    const cloudCover = weatherData.cloudCover || 0;
-    const clearSkyFactor = 1 - (cloudCover / 100);
-    
-    // Time of day factor (0 at night, max at noon)
-    let timeOfDayFactor = 0;
-    if (weatherData.sunriseTime && weatherData.sunsetTime) {
-      const currentTime = weatherData.forecastTime || weatherData.timestamp || new Date();
-      const sunriseTime = new Date(weatherData.sunriseTime);
-      const sunsetTime = new Date(weatherData.sunsetTime);
-      
-      // If it's nighttime, no solar radiation
-      if (currentTime < sunriseTime || currentTime > sunsetTime) {
-        return 0;
-      }
-      
-      // Calculate time of day factor (max at solar noon)
-      const dayDuration = sunsetTime.getTime() - sunriseTime.getTime();
-      const timeSinceSunrise = currentTime.getTime() - sunriseTime.getTime();
-      const dayProgress = timeSinceSunrise / dayDuration;
-      
-      // Peak at solar noon (around 0.5)
-      timeOfDayFactor = 1 - Math.abs(dayProgress - 0.5) * 2;
-    }
-    
-    // Base max radiation (W/m²) - peak radiation on a clear day
-    const maxRadiation = 1000;
-    
-    // Calculate estimated radiation
-    const radiation = maxRadiation * clearSkyFactor * timeOfDayFactor;
-    return Math.max(0, radiation);
+    const at = new Date(weatherData.forecastTime || weatherData.timestamp || Date.now());
+    const position = this.getSolarPositionFor(weatherData, at);
+    const clearSky = getClearSkyIrradiance(at, position);
+    const irradiance = applyCloudCover(at, position, clearSky, Number(weatherData.cloudCover) || 0);
+
+    return Math.max(0, irradiance.ghi);
   }
-  
-  // Use weather data to adjust PV production forecasts
+
+  // Scale a clear-sky PV production estimate to the weather entry's cloud
+  // cover; nothing is produced while the sun is below the horizon
   adjustPvForecast(baseProduction: number, weatherData: any): number {
-    // In a real implementation, this would use more sophisticated models
-    // For now, use a simplified approach based on cloud cover
-    const cloudCover = weatherData.cloudCover || 0;
-    const clearSkyFactor = 1 - (cloudCover / 100);
-    
-    // Calculate a weather adjustment factor
-    let weatherFactor = clearSkyFactor;
-    
-    // If it's raining or snowing, reduce even more
-    if (
-      weatherData.condition === 'rain' || 
-      weatherData.condition === 'drizzle' || 
-      weatherData.condition === 'thunderstorm' || 
-      weatherData.condition === 'snow'
-    ) {
-      weatherFactor *= 0.7;
-    }
-    
-    // If it's foggy/misty/hazy, also reduce
-    if (
-      weatherData.condition === 'fog' || 
-      weatherData.condition === 'mist' || 
-      weatherData.condition === 'haze'
-    ) {
-      weatherFactor *= 0.8;
-    }
-    
-    // Check if it's daytime (simplified)
-    let isDaytime = true;
-    if (weatherData.sunriseTime && weatherData.sunsetTime) {
-      const currentTime = weatherData.forecastTime || weatherData.timestamp || new Date();
-      const sunriseTime = new Date(weatherData.sunriseTime);
-      const sunsetTime = new Date(weatherData.sunsetTime);
-      
-      isDaytime = currentTime >= sunriseTime && currentTime <= sunsetTime;
-    }
-    
-    // If it's nighttime, no production
-    if (!isDaytime) {
+    const at = new Date(weatherData.forecastTime || weatherData.timestamp || Date.now());
+    const position = this.getSolarPositionFor(weatherData, at);
+    const clearSky = getClearSkyIrradiance(at, position);
+
+    if (clearSky.ghi <= 0) {
       return 0;
     }
-    
-    // Adjust the base production using the weather factor
-    return baseProduction * weatherFactor;
+
+    const irradiance = applyCloudCover(at, position, clearSky, Number(weatherData.cloudCover) || 0);
+    return baseProduction * (irradiance.ghi / clearSky.ghi);
+  }
+
+  // Sun position at a weather entry's location
+  private getSolarPositionFor(weatherData: any, at: Date) {
+    const latitude = weatherData.latitude != null ? Number(weatherData.latitude) : DEFAULT_LOCATION.latitude;
+    const longitude = weatherData.longitude != null ? Number(weatherData.longitude) : DEFAULT_LOCATION.longitude;
+    return getSolarPosition(at, latitude, longitude);
   }
 }
 
@@ -1,39 +1,73 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
+import { Server, IncomingMessage, STATUS_CODES } from 'http';
+import type { Duplex } from 'stream';
+import type { ApiKey, User } from '@shared/schema';
 import { storage } from '../storage';
+import { authenticateUpgrade } from '../auth';
+import { checkDeviceAccess, checkSiteAccess, type AccessDecision } from '../middleware/roleAuth';
+import { isScopeAllowed } from './apiKeyService';
 import { subscribeToDevice, unsubscribeFromDevice } from './deviceSimulator';
 
-interface ActiveConnection {
+export interface ActiveConnection {
   ws: WebSocket;
   id: string; // Unique connection ID
-  siteId: number;
-  deviceId?: number;
+  user: User;
+  apiKey?: ApiKey; // Set when the connection authenticated with an API key
+  topics: Set<string>; // Canonical topics such as 'site:1' or 'device:7'
   lastActivity: Date;
   isAlive: boolean; // For ping/pong health check
+  droppedMessages: number; // Telemetry skipped while the client was behind
 }
 
+/**
+ * Handler for application-specific client message types
+ */
+export type WebSocketMessageHandler = (connection: ActiveConnection, data: any) => void | Promise<void>;
+
+type TopicKind = 'site' | 'device' | 'alarms' | 'optimization';
+
+interface Topic {
+  kind: TopicKind;
+  id: number;
+  name: string;
+}
+
+// API key resource whose read scope grants each kind of topic
+const TOPIC_SCOPES: Record<TopicKind, string> = {
+  site: 'sites',
+  device: 'devices',
+  alarms: 'alarms',
+  optimization: 'optimization'
+};
+
 // Store active connections
 const activeConnections: ActiveConnection[] = [];
 
+// Handlers registered by other modules for message types not handled here
+const messageHandlers = new Map<string, WebSocketMessageHandler>();
+
 // Connection cleanup interval (in milliseconds)
 const CLEANUP_INTERVAL = 60000; // 1 minute
 
 // Connection ping interval (in milliseconds)
 const PING_INTERVAL = 30000; // 30 seconds
 
+// Topics a single connection may follow at once
+const MAX_TOPICS_PER_CONNECTION = 100;
+
+// Buffered bytes above which telemetry is dropped for a connection
+const HIGH_WATER_MARK = 1024 * 1024; // 1 MB
+
+// Buffered bytes above which a connection is closed as too slow
+const SLOW_CLIENT_LIMIT = 8 * 1024 * 1024; // 8 MB
+
 // Initialize WebSocket server
 export function initWebSocketServer(server: Server) {
-  const wss = new WebSocketServer({ 
-    server, 
-    path: '/ws',
+  // Upgrades are routed by path so other endpoints (OCPP) can share the HTTP server
+  const wss = new WebSocketServer({
+    noServer: true,
     // Increase the timeout to prevent premature connection closures
     clientTracking: true,
-    // Set WebSocket server to handle CORS verification
-    verifyClient: (info, callback) => {
-      // Accept connections from all origins in development
-      console.log('WebSocket connection attempt from origin:', info.origin);
-      callback(true); // Accept the connection
-    },
     // WebSocket server configuration
     perMessageDeflate: {
       zlibDeflateOptions: {
@@ -50,6 +84,32 @@ export function initWebSocketServer(server: Server) {
     }
   });
 
+  server.on('upgrade', async (req, socket, head) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== '/ws') return;
+
+    // Authenticate before accepting, with the same session or API key as HTTP requests
+    let auth;
+    try {
+      auth = await authenticateUpgrade(req);
+    } catch (error) {
+      console.error('Error authenticating WebSocket upgrade:', error);
+      rejectUpgrade(socket, 500, 'Authentication failed');
+      return;
+    }
+
+    if (!auth.authenticated) {
+      console.log(`WebSocket upgrade rejected (${auth.status}): ${auth.reason}`);
+      rejectUpgrade(socket, auth.status, auth.reason);
+      return;
+    }
+
+    const { user, apiKey } = auth;
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      handleConnection(ws, req, user, apiKey);
+    });
+  });
+
   // Handle WebSocket server errors
   wss.on('error', (error) => {
     console.error('WebSocket Server Error:', error);
@@ -58,7 +118,7 @@ export function initWebSocketServer(server: Server) {
   // Handle close events on the WebSocket server
   wss.on('close', () => {
     console.log('WebSocket Server Closed');
-    
+
     // Clean up all connections when the server closes
     for (const connection of activeConnections) {
       try {
@@ -69,7 +129,7 @@ export function initWebSocketServer(server: Server) {
         console.error('Error terminating connection:', error);
       }
     }
-    
+
     // Clear the connections array
     activeConnections.length = 0;
   });
@@ -83,10 +143,10 @@ export function initWebSocketServer(server: Server) {
         connection.ws.terminate();
         continue;
       }
-      
+
       // Mark as inactive until it responds to the ping
       connection.isAlive = false;
-      
+
       // Send ping
       try {
         if (connection.ws.readyState === WebSocket.OPEN) {
@@ -104,134 +164,146 @@ export function initWebSocketServer(server: Server) {
     clearInterval(pingInterval);
   });
 
-  // Set up WebSocket server connection handler
-  wss.on('connection', (ws: WebSocket, req) => {
-    console.log('WebSocket client connected', req.url);
-    
-    // Generate a unique connection ID
-    const connectionId = generateConnectionId();
-    
-    // Set initial connection data
-    const connection: ActiveConnection = {
-      ws,
-      id: connectionId,
-      siteId: 0, // Will be updated when client sends subscription message
-      lastActivity: new Date(),
-      isAlive: true
-    };
-    
-    // Accept all WebSocket connections - we'll handle authentication via messages
-    // This is a development setting - in production we would add authentication checks
-    
-    // Add to active connections
-    activeConnections.push(connection);
-
-    // Handle pong response (keep-alive)
-    ws.on('pong', () => {
-      // Update the connection's alive status
-      const conn = activeConnections.find(c => c.id === connectionId);
-      if (conn) {
-        conn.isAlive = true;
-        conn.lastActivity = new Date();
-      }
-    });
-    
-    // Handle messages from clients
-    ws.on('message', async (message: Buffer | string) => {
-      try {
-        // Update the last activity timestamp
-        connection.lastActivity = new Date();
-        connection.isAlive = true;
-        
-        // Parse the message
-        const data = JSON.parse(message.toString());
-        
-        // Process different message types
-        switch (data.type) {
-          case 'subscribe':
-            handleSubscription(connection, data);
-            break;
-            
-          case 'unsubscribe':
-            handleUnsubscription(connection, data);
-            break;
-            
-          case 'ping':
-            // Send a pong response
-            sendMessageToClient(ws, { type: 'pong', timestamp: Date.now() });
-            break;
-            
-          default:
+  // Set up connection cleanup interval
+  const cleanupInterval = setInterval(cleanupConnections, CLEANUP_INTERVAL);
+
+  // Clean up interval on process exit
+  process.on('exit', () => {
+    clearInterval(cleanupInterval);
+  });
+
+  return wss;
+}
+
+// Answer a refused upgrade with a plain HTTP response, as the handshake has not happened yet
+function rejectUpgrade(socket: Duplex, status: number, reason: string) {
+  try {
+    socket.write(
+      `HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\n` +
+      'Connection: close\r\n' +
+      'Content-Type: text/plain\r\n' +
+      `Content-Length: ${Buffer.byteLength(reason)}\r\n` +
+      '\r\n' +
+      reason
+    );
+  } finally {
+    socket.destroy();
+  }
+}
+
+// Set up an authenticated WebSocket connection
+function handleConnection(ws: WebSocket, req: IncomingMessage, user: User, apiKey?: ApiKey) {
+  console.log(`WebSocket client connected for user ${user.id}${apiKey ? ` with API key ${apiKey.id}` : ''}`, req.url);
+
+  // Generate a unique connection ID
+  const connectionId = generateConnectionId();
+
+  // Set initial connection data
+  const connection: ActiveConnection = {
+    ws,
+    id: connectionId,
+    user,
+    apiKey,
+    topics: new Set(), // Filled as the client sends subscription messages
+    lastActivity: new Date(),
+    isAlive: true,
+    droppedMessages: 0
+  };
+
+  // Add to active connections
+  activeConnections.push(connection);
+
+  // Handle pong response (keep-alive)
+  ws.on('pong', () => {
+    connection.isAlive = true;
+    connection.lastActivity = new Date();
+  });
+
+  // Handle messages from clients
+  ws.on('message', async (message: Buffer | string) => {
+    try {
+      // Update the last activity timestamp
+      connection.lastActivity = new Date();
+      connection.isAlive = true;
+
+      // Parse the message
+      const data = JSON.parse(message.toString());
+
+      // Process different message types
+      switch (data.type) {
+        case 'subscribe':
+          await handleSubscription(connection, data);
+          break;
+
+        case 'unsubscribe':
+          handleUnsubscription(connection, data);
+          break;
+
+        case 'ping':
+          // Send a pong response
+          sendMessageToClient(ws, { type: 'pong', timestamp: Date.now() });
+          break;
+
+        default: {
+          const handler = messageHandlers.get(data.type);
+          if (handler) {
+            await handler(connection, data);
+          } else {
             console.log(`Unknown message type: ${data.type}`);
-        }
-      } catch (error) {
-        console.error('Error processing WebSocket message:', error);
-        try {
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ 
-              type: 'error', 
-              message: 'Invalid message format' 
-            }));
           }
-        } catch (sendError) {
-          console.error('Error sending error message:', sendError);
         }
       }
-    });
-    
-    // Handle disconnection
-    ws.on('close', (code, reason) => {
-      console.log(`WebSocket client disconnected (code: ${code}, reason: ${reason.toString() || 'unknown'})`);
-      
-      // Remove from active connections
-      removeConnection(connectionId);
-    });
-    
-    // Handle errors
-    ws.on('error', (error) => {
-      console.error('WebSocket client error:', error);
-      
-      // Terminate the connection on error
-      try {
-        ws.terminate();
-      } catch (terminateError) {
-        console.error('Error terminating connection:', terminateError);
-      }
-      
-      // Remove from active connections
-      removeConnection(connectionId);
-    });
+    } catch (error) {
+      console.error('Error processing WebSocket message:', error);
+      sendMessageToClient(ws, {
+        type: 'error',
+        message: 'Invalid message format'
+      });
+    }
+  });
+
+  // Handle disconnection
+  ws.on('close', (code, reason) => {
+    console.log(`WebSocket client disconnected (code: ${code}, reason: ${reason.toString() || 'unknown'})`);
+
+    // Remove from active connections
+    removeConnection(connectionId);
+  });
+
+  // Handle errors
+  ws.on('error', (error) => {
+    console.error('WebSocket client error:', error);
 
-    // Send an initialization message
+    // Terminate the connection on error
     try {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify({
-          type: 'connected',
-          timestamp: Date.now(),
-          connectionId
-        }));
-      }
-    } catch (error) {
-      console.error('Error sending welcome message:', error);
+      ws.terminate();
+    } catch (terminateError) {
+      console.error('Error terminating connection:', terminateError);
     }
+
+    // Remove from active connections
+    removeConnection(connectionId);
   });
-  
-  // Set up connection cleanup interval
-  const cleanupInterval = setInterval(cleanupConnections, CLEANUP_INTERVAL);
-  
-  // Clean up interval on process exit
-  process.on('exit', () => {
-    clearInterval(cleanupInterval);
+
+  // Send an initialization message
+  sendMessageToClient(ws, {
+    type: 'connected',
+    timestamp: Date.now(),
+    connectionId,
+    userId: user.id
   });
-  
-  return wss;
 }
 
 // Remove a connection by ID
 function removeConnection(connectionId: string) {
   const index = activeConnections.findIndex(conn => conn.id === connectionId);
-  if (index !== -1) {
-    activeConnections.splice(index, 1);
+  if (index === -1) {
+    return;
+  }
+
+  const [connection] = activeConnections.splice(index, 1);
+  for (const name of Array.from(connection.topics)) {
+    releaseTopic(parseTopic(name));
   }
 }
 
@@ -240,108 +312,151 @@ function generateConnectionId(): string {
   return `conn_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
 }
 
+/**
+ * Parse a topic into its canonical form. Accepts 'site:1', 'device:7',
+ * 'alarms:1' and 'optimization:1', as well as path forms such as
+ * 'sites/1/energy' used by older clients.
+ */
+function parseTopic(topic: unknown): Topic | null {
+  if (typeof topic !== 'string') {
+    return null;
+  }
+
+  const match = /^(site|device|alarm|optimization)s?[:/](\d+)/.exec(topic.trim());
+  if (!match) {
+    return null;
+  }
+
+  const kind: TopicKind = match[1] === 'alarm' ? 'alarms' : match[1] as TopicKind;
+  const id = parseInt(match[2]);
+  return { kind, id, name: `${kind}:${id}` };
+}
+
+// Topics named by a subscription message, including the legacy siteId/deviceId fields
+function getRequestedTopics(data: any): unknown[] {
+  const topics: unknown[] = [];
+  if (Array.isArray(data.topics)) topics.push(...data.topics);
+  if (data.topic) topics.push(data.topic);
+  if (data.channel) topics.push(data.channel);
+  if (data.siteId) topics.push(`site:${data.siteId}`);
+  if (data.deviceId) topics.push(`device:${data.deviceId}`);
+  return topics;
+}
+
+// The site or device a topic refers to, as sent back to clients
+function describeTopic(topic: Topic) {
+  return topic.kind === 'device'
+    ? { topic: topic.name, deviceId: topic.id }
+    : { topic: topic.name, siteId: topic.id };
+}
+
+// Check that a connection's user may follow a topic, applying the same partner
+// rules as the HTTP routes and, for API keys, the key's read scopes
+async function authorizeTopic(connection: ActiveConnection, topic: Topic): Promise<AccessDecision> {
+  const resource = TOPIC_SCOPES[topic.kind];
+  if (connection.apiKey && !isScopeAllowed(connection.apiKey, resource, 'read')) {
+    return { allowed: false, status: 403, message: `API key does not grant ${resource}:read` };
+  }
+
+  return topic.kind === 'device'
+    ? checkDeviceAccess(connection.user, topic.id, storage)
+    : checkSiteAccess(connection.user, topic.id, storage);
+}
+
 // Handle subscription requests
-function handleSubscription(connection: ActiveConnection, data: any) {
-  if (data.siteId) {
-    connection.siteId = data.siteId;
-    console.log(`Client subscribed to site ${data.siteId}`);
-    
-    // Send confirmation
+async function handleSubscription(connection: ActiveConnection, data: any) {
+  for (const requested of getRequestedTopics(data)) {
+    const topic = parseTopic(requested);
+    if (!topic) {
+      sendMessageToClient(connection.ws, { type: 'error', topic: requested, status: 400, message: 'Unknown topic' });
+      continue;
+    }
+
+    if (!connection.topics.has(topic.name) && connection.topics.size >= MAX_TOPICS_PER_CONNECTION) {
+      sendMessageToClient(connection.ws, {
+        type: 'error',
+        ...describeTopic(topic),
+        status: 429,
+        message: `A connection can follow at most ${MAX_TOPICS_PER_CONNECTION} topics`
+      });
+      continue;
+    }
+
+    let decision: AccessDecision;
     try {
-      if (connection.ws.readyState === WebSocket.OPEN) {
-        connection.ws.send(JSON.stringify({ 
-          type: 'subscribed', 
-          siteId: data.siteId,
-          timestamp: Date.now()
-        }));
-      }
+      decision = await authorizeTopic(connection, topic);
     } catch (error) {
-      console.error('Error sending subscription confirmation:', error);
+      console.error(`Error authorizing subscription to ${topic.name}:`, error);
+      sendMessageToClient(connection.ws, { type: 'error', ...describeTopic(topic), status: 500, message: 'Error checking access' });
+      continue;
     }
-  }
-  
-  if (data.deviceId) {
-    connection.deviceId = data.deviceId;
-    console.log(`Client subscribed to device ${data.deviceId}`);
-    
+
+    if (!decision.allowed) {
+      console.log(`User ${connection.user.id} denied subscription to ${topic.name}: ${decision.message}`);
+      sendMessageToClient(connection.ws, { type: 'error', ...describeTopic(topic), status: decision.status, message: decision.message });
+      continue;
+    }
+
+    connection.topics.add(topic.name);
+    console.log(`Client subscribed to ${topic.name}`);
+
     // Start device simulation in development mode
-    subscribeToDevice(data.deviceId);
-    
-    // Send confirmation
-    try {
-      if (connection.ws.readyState === WebSocket.OPEN) {
-        connection.ws.send(JSON.stringify({ 
-          type: 'subscribed', 
-          deviceId: data.deviceId,
-          timestamp: Date.now()
-        }));
-      }
-    } catch (error) {
-      console.error('Error sending subscription confirmation:', error);
+    if (topic.kind === 'device') {
+      subscribeToDevice(topic.id);
     }
+
+    // Send confirmation
+    sendMessageToClient(connection.ws, {
+      type: 'subscribed',
+      ...describeTopic(topic),
+      timestamp: Date.now()
+    });
   }
 }
 
 // Handle unsubscription requests
 function handleUnsubscription(connection: ActiveConnection, data: any) {
-  if (data.siteId && connection.siteId === data.siteId) {
-    connection.siteId = 0;
-    console.log(`Client unsubscribed from site ${data.siteId}`);
-    
-    // Send confirmation
-    try {
-      if (connection.ws.readyState === WebSocket.OPEN) {
-        connection.ws.send(JSON.stringify({ 
-          type: 'unsubscribed', 
-          siteId: data.siteId,
-          timestamp: Date.now()
-        }));
-      }
-    } catch (error) {
-      console.error('Error sending unsubscription confirmation:', error);
+  for (const requested of getRequestedTopics(data)) {
+    const topic = parseTopic(requested);
+    if (!topic || !connection.topics.delete(topic.name)) {
+      continue;
     }
-  }
-  
-  if (data.deviceId && connection.deviceId === data.deviceId) {
-    const deviceId = connection.deviceId;
-    delete connection.deviceId;
-    console.log(`Client unsubscribed from device ${deviceId}`);
-    
-    // Stop device simulation in development mode
-    if (deviceId !== undefined) {
-      unsubscribeFromDevice(deviceId);
-    }
-    
+
+    console.log(`Client unsubscribed from ${topic.name}`);
+    releaseTopic(topic);
+
     // Send confirmation
-    try {
-      if (connection.ws.readyState === WebSocket.OPEN) {
-        connection.ws.send(JSON.stringify({ 
-          type: 'unsubscribed', 
-          deviceId: deviceId,
-          timestamp: Date.now()
-        }));
-      }
-    } catch (error) {
-      console.error('Error sending unsubscription confirmation:', error);
-    }
+    sendMessageToClient(connection.ws, {
+      type: 'unsubscribed',
+      ...describeTopic(topic),
+      timestamp: Date.now()
+    });
+  }
+}
+
+// Stop device simulation once no connection follows the device any more
+function releaseTopic(topic: Topic | null) {
+  if (topic?.kind !== 'device') {
+    return;
+  }
+  if (!activeConnections.some(conn => conn.topics.has(topic.name))) {
+    unsubscribeFromDevice(topic.id);
   }
 }
 
 // Clean up stale connections
 function cleanupConnections() {
   console.log(`Active WebSocket connections: ${activeConnections.length}`);
-  
+
   const now = new Date();
   const staleThreshold = new Date(now.getTime() - (CLEANUP_INTERVAL * 2));
   let cleanedCount = 0;
-  
-  for (let i = activeConnections.length - 1; i >= 0; i--) {
-    const connection = activeConnections[i];
-    
+
+  for (const connection of activeConnections.slice()) {
     // Check if the connection is stale
     if (connection.lastActivity < staleThreshold || !connection.isAlive) {
       console.log('Removing stale WebSocket connection');
-      
+
       try {
         // Try to close the connection gracefully
         if (connection.ws.readyState === WebSocket.OPEN) {
@@ -349,7 +464,7 @@ function cleanupConnections() {
         }
       } catch (error) {
         console.error('Error closing stale connection:', error);
-        
+
         // Force terminate if close fails
         try {
           connection.ws.terminate();
@@ -357,39 +472,107 @@ function cleanupConnections() {
           console.error('Error terminating connection:', terminateError);
         }
       }
-      
-      // Remove from array
-      activeConnections.splice(i, 1);
+
+      removeConnection(connection.id);
       cleanedCount++;
     }
   }
-  
+
   if (cleanedCount > 0) {
     console.log(`Cleaned up ${cleanedCount} stale connections`);
   }
 }
 
+/**
+ * Send a serialized message to one connection, applying backpressure: while
+ * the client is behind, droppable telemetry is skipped and counted, and a
+ * client that falls too far behind is disconnected.
+ */
+function deliver(connection: ActiveConnection, payload: string, droppable: boolean): boolean {
+  const { ws } = connection;
+  if (ws.readyState !== WebSocket.OPEN) {
+    return false;
+  }
+
+  if (ws.bufferedAmount > SLOW_CLIENT_LIMIT) {
+    console.warn(`Closing slow WebSocket connection ${connection.id} with ${ws.bufferedAmount} bytes buffered`);
+    ws.close(1013, 'Client too slow');
+    return false;
+  }
+
+  if (droppable && ws.bufferedAmount > HIGH_WATER_MARK) {
+    connection.droppedMessages++;
+    return false;
+  }
+
+  try {
+    // Tell the client what it missed before it resumes receiving telemetry
+    if (connection.droppedMessages > 0) {
+      ws.send(JSON.stringify({ type: 'messagesDropped', count: connection.droppedMessages, timestamp: Date.now() }));
+      connection.droppedMessages = 0;
+    }
+    ws.send(payload);
+    return true;
+  } catch (error) {
+    console.error(`Error sending to WebSocket connection ${connection.id}:`, error);
+    return false;
+  }
+}
+
+// Send a message once to every connection following any of the topics,
+// skipping connections that follow the excluded topic
+function publish(topics: string[], message: any, droppable: boolean, excludedTopic?: string): number {
+  const payload = JSON.stringify(message);
+  let sentCount = 0;
+
+  for (const connection of activeConnections) {
+    if (excludedTopic && connection.topics.has(excludedTopic)) continue;
+    if (!topics.some(topic => connection.topics.has(topic))) continue;
+    if (deliver(connection, payload, droppable)) {
+      sentCount++;
+    }
+  }
+
+  return sentCount;
+}
+
+/**
+ * Publish a message to every connection subscribed to a topic
+ */
+export function publishToTopic(topic: string, message: any): number {
+  const parsed = parseTopic(topic);
+  return parsed ? publish([parsed.name], message, false) : 0;
+}
+
+/**
+ * Register a handler for a client message type not handled by this service
+ */
+export function addMessageHandler(type: string, handler: WebSocketMessageHandler) {
+  messageHandlers.set(type, handler);
+}
+
+/**
+ * Remove a handler registered with addMessageHandler
+ */
+export function removeMessageHandler(type: string) {
+  messageHandlers.delete(type);
+}
+
+/**
+ * Get the open connections of a user
+ */
+export function getConnectionsByUser(userId: number): ActiveConnection[] {
+  return activeConnections.filter(conn => conn.user.id === userId);
+}
+
 // Broadcast energy reading to all clients subscribed to a site
 export function broadcastEnergyReading(siteId: number, reading: any) {
-  const message = JSON.stringify({
+  const sentCount = publish([`site:${siteId}`], {
     type: 'energyReading',
     data: reading,
     timestamp: Date.now()
-  });
-  
-  let sentCount = 0;
-  
-  for (const connection of activeConnections) {
-    if (connection.siteId === siteId && connection.ws.readyState === WebSocket.OPEN) {
-      try {
-        connection.ws.send(message);
-        sentCount++;
-      } catch (error) {
-        console.error('Error broadcasting energy reading:', error);
-      }
-    }
-  }
-  
+  }, true);
+
   if (sentCount > 0) {
     console.log(`Broadcast energy reading to ${sentCount} clients for site ${siteId}`);
   }
@@ -397,106 +580,97 @@ export function broadcastEnergyReading(siteId: number, reading: any) {
 
 // Broadcast device reading to all clients subscribed to a device
 export function broadcastDeviceReading(deviceId: number, reading: any) {
-  const message = JSON.stringify({
+  const sentCount = publish([`device:${deviceId}`], {
     type: 'deviceReading',
     data: reading,
     timestamp: Date.now()
-  });
-  
-  let sentCount = 0;
-  
-  for (const connection of activeConnections) {
-    if (connection.deviceId === deviceId && connection.ws.readyState === WebSocket.OPEN) {
-      try {
-        connection.ws.send(message);
-        sentCount++;
-      } catch (error) {
-        console.error('Error broadcasting device reading:', error);
-      }
-    }
-  }
-  
+  }, true);
+
   if (sentCount > 0) {
     console.log(`Broadcast device reading to ${sentCount} clients for device ${deviceId}`);
   }
 }
 
-// Broadcast device status to all clients subscribed to a device
-export function broadcastDeviceStatus(deviceId: number, status: any) {
-  const message = JSON.stringify({
-    type: 'deviceStatus',
-    data: status,
-    timestamp: Date.now()
-  });
-  
-  let sentCount = 0;
-  
-  // Send to clients subscribed to this specific device
-  for (const connection of activeConnections) {
-    if (connection.deviceId === deviceId && connection.ws.readyState === WebSocket.OPEN) {
-      try {
-        connection.ws.send(message);
-        sentCount++;
-      } catch (error) {
-        console.error('Error broadcasting device status:', error);
-      }
-    }
+// Send a device message to its subscribers, then to subscribers of the device's site
+function publishToDeviceAndSite(deviceId: number, message: any, description: string) {
+  const deviceTopic = `device:${deviceId}`;
+  const sentCount = publish([deviceTopic], message, false);
+  if (sentCount > 0) {
+    console.log(`Broadcast ${description} to ${sentCount} clients for device ${deviceId}`);
   }
-  
-  // Also send to clients subscribed to the site this device belongs to
+
+  // Site subscribers need the device's site, which is looked up without blocking the caller
   (async () => {
     try {
       const device = await storage.getDevice(deviceId);
       if (device && device.siteId) {
-        for (const connection of activeConnections) {
-          if (connection.siteId === device.siteId && 
-              connection.deviceId !== deviceId && // Skip if already sent to this client
-              connection.ws.readyState === WebSocket.OPEN) {
-            try {
-              connection.ws.send(message);
-              sentCount++;
-            } catch (error) {
-              console.error('Error broadcasting device status to site subscriber:', error);
-            }
-          }
-        }
+        // Skip clients already sent the message as device subscribers
+        publish([`site:${device.siteId}`], message, false, deviceTopic);
       }
     } catch (error) {
-      console.error('Error getting device for site status broadcast:', error);
+      console.error(`Error getting device for site ${description} broadcast:`, error);
     }
   })();
-  
-  if (sentCount > 0) {
-    console.log(`Broadcast device status to ${sentCount} clients for device ${deviceId}`);
-  }
 }
 
-// Broadcast optimization recommendation to all clients subscribed to a site
+// Broadcast device status to all clients subscribed to a device or its site
+export function broadcastDeviceStatus(deviceId: number, status: any) {
+  publishToDeviceAndSite(deviceId, {
+    type: 'deviceStatus',
+    data: status,
+    timestamp: Date.now()
+  }, 'device status');
+}
+
+// Broadcast optimization recommendation to clients subscribed to a site or its optimization
 export function broadcastOptimizationRecommendation(siteId: number, recommendation: any) {
-  const message = JSON.stringify({
+  const sentCount = publish([`site:${siteId}`, `optimization:${siteId}`], {
     type: 'optimizationRecommendation',
     data: recommendation,
     timestamp: Date.now()
-  });
-  
-  let sentCount = 0;
-  
-  for (const connection of activeConnections) {
-    if (connection.siteId === siteId && connection.ws.readyState === WebSocket.OPEN) {
-      try {
-        connection.ws.send(message);
-        sentCount++;
-      } catch (error) {
-        console.error('Error broadcasting optimization recommendation:', error);
-      }
-    }
-  }
-  
+  }, false);
+
   if (sentCount > 0) {
     console.log(`Broadcast optimization recommendation to ${sentCount} clients for site ${siteId}`);
   }
 }
 
+// Broadcast an alarm lifecycle change (raised, updated, acknowledged, resolved) to site and alarm subscribers
+export function broadcastAlarm(siteId: number, event: string, alarm: any) {
+  const sentCount = publish([`site:${siteId}`, `alarms:${siteId}`], {
+    type: 'alarm',
+    data: { event, alarm },
+    timestamp: Date.now()
+  }, false);
+
+  if (sentCount > 0) {
+    console.log(`Broadcast alarm ${event} to ${sentCount} clients for site ${siteId}`);
+  }
+}
+
+// Broadcast the progress of a VPP dispatch to site subscribers
+export function broadcastVppDispatch(siteId: number, status: any) {
+  publish([`site:${siteId}`], {
+    type: 'vppDispatch',
+    data: status,
+    timestamp: Date.now()
+  }, false);
+}
+
+// Broadcast a remote command queue change to clients subscribed to the device or its site
+export function broadcastCommandQueueUpdate(siteId: number | null, deviceId: number, event: string, command: any) {
+  const topics = siteId !== null ? [`device:${deviceId}`, `site:${siteId}`] : [`device:${deviceId}`];
+  const sentCount = publish(topics, {
+    type: 'commandQueue',
+    data: { event, deviceId, command },
+    timestamp: Date.now()
+  }, false);
+
+  if (sentCount > 0) {
+    console.log(`Broadcast command ${event} for device ${deviceId} to ${sentCount} clients`);
+  }
+}
+
 // Send message to a specific client
 export function sendMessageToClient(ws: WebSocket, message: any) {
   try {
@@ -508,70 +682,15 @@ export function sendMessageToClient(ws: WebSocket, message: any) {
   }
 }
 
-// Broadcast device command execution result to all subscribed clients
+// Broadcast device command execution result to all clients subscribed to the device or its site
 export function broadcastCommandExecution(deviceId: number, command: string, result: any) {
-  const message = JSON.stringify({
+  publishToDeviceAndSite(deviceId, {
     type: 'deviceCommand',
     deviceId,
     command,
     result,
     timestamp: Date.now()
-  });
-  
-  let sentCount = 0;
-  
-  // Process each connection
-  for (const connection of activeConnections) {
-    // Process device subscription immediately
-    if (connection.deviceId === deviceId && connection.ws.readyState === WebSocket.OPEN) {
-      try {
-        connection.ws.send(message);
-        sentCount++;
-      } catch (error) {
-        console.error('Error broadcasting command execution:', error);
-      }
-      continue; // Skip site check if we already sent based on device
-    }
-    
-    // Check site subscription async
-    if (connection.siteId && connection.ws.readyState === WebSocket.OPEN) {
-      // Use IIFE to handle the async check without blocking the loop
-      (async (conn) => {
-        try {
-          const belongs = await deviceBelongsToSite(deviceId, conn.siteId);
-          if (belongs) {
-            try {
-              conn.ws.send(message);
-              sentCount++;
-              console.log(`Sent command execution to client subscribed to site ${conn.siteId}`);
-            } catch (sendError) {
-              console.error('Error sending message after site check:', sendError);
-            }
-          }
-        } catch (error) {
-          console.error('Error checking site subscription:', error);
-        }
-      })(connection);
-    }
-  }
-  
-  if (sentCount > 0) {
-    console.log(`Broadcast command execution to ${sentCount} clients for device ${deviceId}`);
-  }
-}
-
-// Check if a device belongs to a site
-async function deviceBelongsToSite(deviceId: number, siteId: number): Promise<boolean> {
-  try {
-    const device = await storage.getDevice(deviceId);
-    if (!device) {
-      return false;
-    }
-    return device.siteId === siteId;
-  } catch (error) {
-    console.error('Error checking if device belongs to site:', error);
-    return false;
-  }
+  }, 'command execution');
 }
 
 // Simulate device reading in development mode
@@ -10,6 +10,7 @@ import {
   optimizationSettings, 
   tariffs,
   partners,
+  pvArrays,
   type User, 
   type InsertUser, 
   type Site, 
@@ -27,7 +28,9 @@ import {
   type Tariff, 
   type InsertTariff,
   type Partner,
-  type InsertPartner
+  type InsertPartner,
+  type PvArray,
+  type InsertPvArray
 } from "@shared/schema";
 
 export interface IStorage {
@@ -55,6 +58,13 @@ export interface IStorage {
   createSite(site: InsertSite): Promise<Site>;
   updateSite(id: number, site: Partial<Site>): Promise<Site | undefined>;
 
+  // PV arrays
+  getPvArrays(siteId: number): Promise<PvArray[]>;
+  getPvArray(id: number): Promise<PvArray | undefined>;
+  createPvArray(pvArray: InsertPvArray): Promise<PvArray>;
+  updatePvArray(id: number, pvArray: Partial<PvArray>): Promise<PvArray | undefined>;
+  deletePvArray(id: number): Promise<boolean>;
+
   // Device operations
   getDevice(id: number): Promise<Device | undefined>;
   getDevicesByType(siteId: number, type: string): Promise<Device[]>;
@@ -239,6 +249,38 @@ export class DatabaseStorage implements IStorage {
     return updatedSite || undefined;
   }
 
+  // PV arrays
+  async getPvArrays(siteId: number): Promise<PvArray[]> {
+    return await db.select().from(pvArrays).where(eq(pvArrays.siteId, siteId));
+  }
+
+  async getPvArray(id: number): Promise<PvArray | undefined> {
+    const [pvArray] = await db.select().from(pvArrays).where(eq(pvArrays.id, id));
+    return pvArray || undefined;
+  }
+
+  async createPvArray(pvArray: InsertPvArray): Promise<PvArray> {
+    const [newPvArray] = await db.insert(pvArrays).values([pvArray] as any).returning();
+    return newPvArray;
+  }
+
+  async updatePvArray(id: number, pvArray: Partial<PvArray>): Promise<PvArray | undefined> {
+    const [updatedPvArray] = await db
+      .update(pvArrays)
+      .set({ ...pvArray, updatedAt: new Date() })
+      .where(eq(pvArrays.id, id))
+      .returning();
+    return updatedPvArray || undefined;
+  }
+
+  async deletePvArray(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(pvArrays)
+      .where(eq(pvArrays.id, id))
+      .returning();
+    return deleted.length > 0;
+  }
+
   // Device operations
   async getDevice(id: number): Promise<Device | undefined> {
     const [device] = await db.select().from(devices).where(eq(devices.id, id));
@@ -0,0 +1,107 @@
+/**
+ * Minimal CSV reading and writing (RFC 4180)
+ *
+ * Fields are separated by commas and may be quoted with double quotes, in
+ * which case they can hold commas, line breaks and doubled quotes.
+ */
+
+export class CsvParseError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} on line ${line}`);
+    this.name = 'CsvParseError';
+  }
+}
+
+/**
+ * Parse CSV text into rows of fields
+ *
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      if (field.trim() !== '') throw new CsvParseError('Unexpected quote inside a field', line);
+      field = '';
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) throw new CsvParseError('Unterminated quoted field', line);
+  endRow();
+
+  return rows;
+}
+
+/**
+ * Parse CSV text with a header row into records keyed by column name
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return rows.map((row, index) => {
+    if (row.length > columns.length) {
+      throw new CsvParseError(`Expected ${columns.length} fields but found ${row.length}`, index + 2);
+    }
+    const record: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      record[column] = (row[i] ?? '').trim();
+    });
+    return record;
+  });
+}
+
+/**
+ * Quote a field when it holds a comma, quote or line break
+ */
+export function escapeCsvField(value: unknown): string {
+  const text = value == null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format records as CSV text with a header row of the given columns
+ */
+export function formatCsv(columns: string[], records: Record<string, unknown>[]): string {
+  const lines = [columns.map(escapeCsvField).join(',')];
+  for (const record of records) {
+    lines.push(columns.map(column => escapeCsvField(record[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
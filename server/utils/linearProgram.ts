@@ -0,0 +1,426 @@
+/**
+ * Linear Programming Utilities
+ *
+ * A dense two-phase primal simplex for linear programs and a depth-first
+ * branch and bound on top of it for mixed-integer programs. Sized for
+ * scheduling problems with a few hundred variables and constraints, solved
+ * in-process. Objectives are minimized; every variable needs a finite lower
+ * bound.
+ */
+
+const EPSILON = 1e-9;
+const FEASIBILITY_TOLERANCE = 1e-7;
+const INTEGER_TOLERANCE = 1e-6;
+
+// Switch from Dantzig's rule to Bland's rule after this many pivots without
+// progress, which rules out cycling on degenerate vertices
+const DEGENERATE_PIVOTS_BEFORE_BLAND = 50;
+
+const DEFAULT_MAX_ITERATIONS = 50000;
+const DEFAULT_MAX_NODES = 2000;
+const DEFAULT_TIME_LIMIT_MS = 10000;
+const DEFAULT_RELATIVE_GAP = 1e-6;
+
+export type ConstraintSense = '<=' | '>=' | '=';
+
+// Pairs of variable index and coefficient
+export type LinearExpression = Array<[number, number]>;
+
+export interface LpVariable {
+  name: string;
+  lower: number;
+  upper: number; // Infinity when unbounded above
+  cost: number;
+  integer: boolean;
+}
+
+export interface LpConstraint {
+  name?: string;
+  terms: LinearExpression;
+  sense: ConstraintSense;
+  rhs: number;
+}
+
+// 'feasible' is an integer solution found before a node or time limit cut
+// the search short; 'limit' is a limit hit before any solution was found
+export type LpStatus = 'optimal' | 'feasible' | 'infeasible' | 'unbounded' | 'limit';
+
+export interface LpSolution {
+  status: LpStatus;
+  objective: number;
+  values: number[];
+  iterations: number; // Simplex pivots, over all nodes
+  nodes: number; // Branch and bound nodes, 1 for a pure LP
+}
+
+export interface LpSolveOptions {
+  maxIterations?: number; // Per relaxation
+  maxNodes?: number;
+  timeLimitMs?: number;
+  relativeGap?: number; // Nodes within this gap of the incumbent are pruned
+}
+
+interface Relaxation {
+  status: 'optimal' | 'infeasible' | 'unbounded' | 'limit';
+  objective: number;
+  values: number[];
+  iterations: number;
+}
+
+/**
+ * A linear program built up variable by variable
+ */
+export class LinearProgram {
+  readonly variables: LpVariable[] = [];
+  readonly constraints: LpConstraint[] = [];
+  objectiveConstant = 0;
+
+  /**
+   * Add a variable and return its index
+   */
+  addVariable(
+    name: string,
+    options: { lower?: number; upper?: number; cost?: number; integer?: boolean } = {}
+  ): number {
+    const lower = options.lower ?? 0;
+    if (!Number.isFinite(lower)) {
+      throw new Error(`Variable ${name} needs a finite lower bound`);
+    }
+
+    this.variables.push({
+      name,
+      lower,
+      upper: options.upper ?? Infinity,
+      cost: options.cost ?? 0,
+      integer: options.integer ?? false,
+    });
+    return this.variables.length - 1;
+  }
+
+  addConstraint(terms: LinearExpression, sense: ConstraintSense, rhs: number, name?: string): void {
+    this.constraints.push({ name, terms, sense, rhs });
+  }
+
+  /**
+   * Solve the program, branching on integer variables if it has any
+   */
+  solve(options: LpSolveOptions = {}): LpSolution {
+    const lower = this.variables.map((v) => v.lower);
+    const upper = this.variables.map((v) => v.upper);
+
+    if (!this.variables.some((v) => v.integer)) {
+      const relaxation = solveRelaxation(this, lower, upper, options.maxIterations ?? DEFAULT_MAX_ITERATIONS);
+      return { ...relaxation, nodes: 1 };
+    }
+
+    return branchAndBound(this, lower, upper, options);
+  }
+}
+
+/**
+ * Depth-first branch and bound, exploring the branch nearest the relaxed
+ * value first so an incumbent is found early
+ */
+function branchAndBound(program: LinearProgram, lower: number[], upper: number[], options: LpSolveOptions): LpSolution {
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  const deadline = Date.now() + (options.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS);
+  const relativeGap = options.relativeGap ?? DEFAULT_RELATIVE_GAP;
+
+  const stack: Array<{ lower: number[]; upper: number[] }> = [{ lower, upper }];
+  let incumbent: number[] | null = null;
+  let bestObjective = Infinity;
+  let nodes = 0;
+  let iterations = 0;
+  let limitReached = false;
+
+  while (stack.length > 0) {
+    if (nodes >= maxNodes || Date.now() > deadline) {
+      limitReached = true;
+      break;
+    }
+
+    const node = stack.pop()!;
+    nodes++;
+
+    const relaxation = solveRelaxation(program, node.lower, node.upper, maxIterations);
+    iterations += relaxation.iterations;
+
+    if (relaxation.status === 'unbounded' && nodes === 1) {
+      return { status: 'unbounded', objective: -Infinity, values: relaxation.values, iterations, nodes };
+    }
+    if (relaxation.status === 'limit') {
+      limitReached = true;
+      continue;
+    }
+    if (relaxation.status !== 'optimal') {
+      continue;
+    }
+    if (relaxation.objective >= bestObjective - Math.max(EPSILON, relativeGap * Math.abs(bestObjective))) {
+      continue;
+    }
+
+    // Branch on the most fractional integer variable
+    let branchIndex = -1;
+    let branchFraction = INTEGER_TOLERANCE;
+    program.variables.forEach((variable, index) => {
+      if (!variable.integer) return;
+      const value = relaxation.values[index];
+      const fraction = Math.abs(value - Math.round(value));
+      if (fraction > branchFraction) {
+        branchIndex = index;
+        branchFraction = fraction;
+      }
+    });
+
+    if (branchIndex === -1) {
+      incumbent = relaxation.values.map((value, index) =>
+        program.variables[index].integer ? Math.round(value) : value
+      );
+      bestObjective = relaxation.objective;
+      continue;
+    }
+
+    const value = relaxation.values[branchIndex];
+    const down = { lower: node.lower, upper: node.upper.slice() };
+    down.upper[branchIndex] = Math.floor(value);
+    const up = { lower: node.lower.slice(), upper: node.upper };
+    up.lower[branchIndex] = Math.ceil(value);
+
+    if (value - Math.floor(value) < 0.5) {
+      stack.push(up, down);
+    } else {
+      stack.push(down, up);
+    }
+  }
+
+  if (!incumbent) {
+    return { status: limitReached ? 'limit' : 'infeasible', objective: NaN, values: [], iterations, nodes };
+  }
+
+  return {
+    status: limitReached ? 'feasible' : 'optimal',
+    objective: bestObjective,
+    values: incumbent,
+    iterations,
+    nodes,
+  };
+}
+
+/**
+ * Solve the continuous relaxation within the given variable bounds.
+ *
+ * Variables are shifted to their lower bound, finite upper bounds become
+ * rows and fixed variables are left out of the tableau.
+ */
+function solveRelaxation(program: LinearProgram, lower: number[], upper: number[], maxIterations: number): Relaxation {
+  const variableCount = program.variables.length;
+  const infeasible: Relaxation = { status: 'infeasible', objective: NaN, values: [], iterations: 0 };
+
+  // Map free (non-fixed) variables to tableau columns
+  const columnOf = new Array<number>(variableCount).fill(-1);
+  const variableOf: number[] = [];
+  for (let j = 0; j < variableCount; j++) {
+    if (lower[j] > upper[j] + FEASIBILITY_TOLERANCE) {
+      return infeasible;
+    }
+    if (upper[j] - lower[j] > EPSILON) {
+      columnOf[j] = variableOf.length;
+      variableOf.push(j);
+    }
+  }
+  const structuralCount = variableOf.length;
+
+  // Rows over the shifted variables, each with a non-negative right-hand side
+  const rows: Array<{ coefficients: Float64Array; sense: ConstraintSense; rhs: number }> = [];
+  for (const constraint of program.constraints) {
+    const coefficients = new Float64Array(structuralCount);
+    let rhs = constraint.rhs;
+    for (const [variable, coefficient] of constraint.terms) {
+      rhs -= coefficient * lower[variable];
+      if (columnOf[variable] !== -1) {
+        coefficients[columnOf[variable]] += coefficient;
+      }
+    }
+
+    if (coefficients.every((c) => Math.abs(c) <= EPSILON)) {
+      // Only fixed variables: check it instead of adding a row
+      const satisfied = constraint.sense === '<=' ? rhs >= -FEASIBILITY_TOLERANCE
+        : constraint.sense === '>=' ? rhs <= FEASIBILITY_TOLERANCE
+        : Math.abs(rhs) <= FEASIBILITY_TOLERANCE;
+      if (!satisfied) return infeasible;
+      continue;
+    }
+
+    rows.push({ coefficients, sense: constraint.sense, rhs });
+  }
+  for (let k = 0; k < structuralCount; k++) {
+    const j = variableOf[k];
+    if (Number.isFinite(upper[j])) {
+      const coefficients = new Float64Array(structuralCount);
+      coefficients[k] = 1;
+      rows.push({ coefficients, sense: '<=', rhs: upper[j] - lower[j] });
+    }
+  }
+  for (const row of rows) {
+    if (row.rhs < 0) {
+      for (let k = 0; k < structuralCount; k++) row.coefficients[k] = -row.coefficients[k];
+      row.rhs = -row.rhs;
+      row.sense = row.sense === '<=' ? '>=' : row.sense === '>=' ? '<=' : '=';
+    }
+  }
+
+  // Columns: structural, then slack/surplus, then artificial
+  const rowCount = rows.length;
+  const slackCount = rows.filter((row) => row.sense !== '=').length;
+  const artificialCount = rows.filter((row) => row.sense !== '<=').length;
+  const artificialStart = structuralCount + slackCount;
+  const columnCount = artificialStart + artificialCount;
+  const rhsColumn = columnCount;
+
+  const tableau: Float64Array[] = [];
+  const basis = new Int32Array(rowCount);
+  let slackColumn = structuralCount;
+  let artificialColumn = artificialStart;
+  rows.forEach((row, i) => {
+    const tableauRow = new Float64Array(columnCount + 1);
+    tableauRow.set(row.coefficients);
+    tableauRow[rhsColumn] = row.rhs;
+
+    if (row.sense === '<=') {
+      tableauRow[slackColumn] = 1;
+      basis[i] = slackColumn++;
+    } else {
+      if (row.sense === '>=') {
+        tableauRow[slackColumn++] = -1;
+      }
+      tableauRow[artificialColumn] = 1;
+      basis[i] = artificialColumn++;
+    }
+    tableau.push(tableauRow);
+  });
+
+  let iterations = 0;
+
+  const pivot = (objective: Float64Array, pivotRow: number, pivotColumn: number) => {
+    const row = tableau[pivotRow];
+    const element = row[pivotColumn];
+    for (let c = 0; c <= columnCount; c++) row[c] /= element;
+    row[pivotColumn] = 1;
+
+    const eliminate = (target: Float64Array) => {
+      const factor = target[pivotColumn];
+      if (Math.abs(factor) <= EPSILON) {
+        target[pivotColumn] = 0;
+        return;
+      }
+      for (let c = 0; c <= columnCount; c++) {
+        if (row[c] !== 0) target[c] -= factor * row[c];
+      }
+      target[pivotColumn] = 0;
+    };
+
+    for (let i = 0; i < rowCount; i++) {
+      if (i !== pivotRow) eliminate(tableau[i]);
+    }
+    eliminate(objective);
+    basis[pivotRow] = pivotColumn;
+  };
+
+  // Pivot until no reduced cost is negative. The objective row holds reduced
+  // costs and, in the right-hand side column, minus the objective value.
+  const iterate = (objective: Float64Array, enteringLimit: number): Relaxation['status'] => {
+    let degeneratePivots = 0;
+    for (;;) {
+      if (iterations >= maxIterations) return 'limit';
+
+      const bland = degeneratePivots >= DEGENERATE_PIVOTS_BEFORE_BLAND;
+      let entering = -1;
+      let mostNegative = -EPSILON;
+      for (let c = 0; c < enteringLimit; c++) {
+        if (objective[c] < mostNegative) {
+          entering = c;
+          if (bland) break;
+          mostNegative = objective[c];
+        }
+      }
+      if (entering === -1) return 'optimal';
+
+      let leaving = -1;
+      let bestRatio = Infinity;
+      for (let i = 0; i < rowCount; i++) {
+        const coefficient = tableau[i][entering];
+        if (coefficient <= EPSILON) continue;
+        const ratio = tableau[i][rhsColumn] / coefficient;
+        if (ratio < bestRatio - EPSILON || (ratio <= bestRatio + EPSILON && leaving !== -1 && basis[i] < basis[leaving])) {
+          leaving = i;
+          bestRatio = ratio;
+        }
+      }
+      if (leaving === -1) return 'unbounded';
+
+      degeneratePivots = bestRatio <= EPSILON ? degeneratePivots + 1 : 0;
+      pivot(objective, leaving, entering);
+      iterations++;
+    }
+  };
+
+  // Phase 1: minimize the sum of the artificial variables
+  if (artificialCount > 0) {
+    const phaseOne = new Float64Array(columnCount + 1);
+    for (let c = artificialStart; c < columnCount; c++) phaseOne[c] = 1;
+    for (let i = 0; i < rowCount; i++) {
+      if (basis[i] >= artificialStart) {
+        for (let c = 0; c <= columnCount; c++) phaseOne[c] -= tableau[i][c];
+      }
+    }
+
+    const status = iterate(phaseOne, columnCount);
+    if (status === 'limit') {
+      return { status, objective: NaN, values: [], iterations };
+    }
+    if (-phaseOne[rhsColumn] > FEASIBILITY_TOLERANCE * Math.max(1, ...rows.map((row) => row.rhs))) {
+      return { ...infeasible, iterations };
+    }
+
+    // Drive artificial variables still in the basis (at zero) out of it; rows
+    // where that is impossible are redundant and keep them
+    for (let i = 0; i < rowCount; i++) {
+      if (basis[i] < artificialStart) continue;
+      for (let c = 0; c < artificialStart; c++) {
+        if (Math.abs(tableau[i][c]) > EPSILON) {
+          pivot(phaseOne, i, c);
+          break;
+        }
+      }
+    }
+  }
+
+  // Phase 2: minimize the program's objective, artificial columns barred
+  const phaseTwo = new Float64Array(columnCount + 1);
+  for (let k = 0; k < structuralCount; k++) {
+    phaseTwo[k] = program.variables[variableOf[k]].cost;
+  }
+  for (let i = 0; i < rowCount; i++) {
+    const basicCost = basis[i] < structuralCount ? phaseTwo[basis[i]] : 0;
+    if (basicCost === 0) continue;
+    for (let c = 0; c <= columnCount; c++) phaseTwo[c] -= basicCost * tableau[i][c];
+  }
+  // Basic columns have exactly zero reduced cost
+  for (let i = 0; i < rowCount; i++) phaseTwo[basis[i]] = 0;
+
+  const status = iterate(phaseTwo, artificialStart);
+
+  const values = lower.slice();
+  for (let i = 0; i < rowCount; i++) {
+    if (basis[i] < structuralCount) {
+      values[variableOf[basis[i]]] += tableau[i][rhsColumn];
+    }
+  }
+  for (let j = 0; j < variableCount; j++) {
+    if (columnOf[j] === -1) values[j] = lower[j];
+  }
+
+  const objective = program.variables.reduce((sum, variable, j) => sum + variable.cost * values[j], program.objectiveConstant);
+  return { status, objective, values, iterations };
+}
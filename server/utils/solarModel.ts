@@ -0,0 +1,237 @@
+/**
+ * Solar Model Utilities
+ *
+ * Physics for expected PV output: solar position (NOAA algorithm), clear-sky
+ * irradiance (Meinel/Laue), cloud attenuation (Kasten-Czeplak) with an Erbs
+ * beam/diffuse split, transposition to the plane of array (isotropic sky) and
+ * a NOCT cell temperature model. Angles are in degrees, irradiance in W/m².
+ */
+
+const DEG = Math.PI / 180;
+
+const SOLAR_CONSTANT = 1361; // W/m²
+
+export interface SolarPosition {
+  zenith: number;
+  elevation: number;
+  azimuth: number; // Clockwise from north
+  declination: number;
+  equationOfTime: number; // Minutes
+}
+
+export interface Irradiance {
+  ghi: number; // Global horizontal
+  dni: number; // Direct normal
+  dhi: number; // Diffuse horizontal
+}
+
+export interface PlaneOfArrayIrradiance {
+  poa: number;
+  beam: number;
+  skyDiffuse: number;
+  groundReflected: number;
+  angleOfIncidence: number;
+}
+
+// Orientation and electrical parameters of one PV array
+export interface PvArrayParameters {
+  capacityKwp: number;
+  tilt: number;
+  azimuth: number; // Clockwise from north
+  losses: number; // %
+  temperatureCoefficient: number; // Pmax %/°C
+  noct: number; // °C
+  albedo: number;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function toJulianCentury(at: Date): number {
+  const julianDay = at.getTime() / 86400000 + 2440587.5;
+  return (julianDay - 2451545) / 36525;
+}
+
+function getDayOfYear(at: Date): number {
+  const startOfYear = Date.UTC(at.getUTCFullYear(), 0, 0);
+  return Math.floor((at.getTime() - startOfYear) / 86400000);
+}
+
+/**
+ * Sun position for an instant and location (NOAA solar calculator)
+ */
+export function getSolarPosition(at: Date, latitude: number, longitude: number): SolarPosition {
+  const t = toJulianCentury(at);
+
+  const meanLongitude = (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360;
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+
+  const equationOfCenter =
+    Math.sin(meanAnomaly * DEG) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(2 * meanAnomaly * DEG) * (0.019993 - 0.000101 * t) +
+    Math.sin(3 * meanAnomaly * DEG) * 0.000289;
+  const omega = 125.04 - 1934.136 * t;
+  const apparentLongitude = meanLongitude + equationOfCenter - 0.00569 - 0.00478 * Math.sin(omega * DEG);
+
+  const meanObliquity = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = meanObliquity + 0.00256 * Math.cos(omega * DEG);
+
+  const declination = Math.asin(Math.sin(obliquity * DEG) * Math.sin(apparentLongitude * DEG)) / DEG;
+
+  const y = Math.tan((obliquity / 2) * DEG) ** 2;
+  const equationOfTime = 4 / DEG * (
+    y * Math.sin(2 * meanLongitude * DEG) -
+    2 * eccentricity * Math.sin(meanAnomaly * DEG) +
+    4 * eccentricity * y * Math.sin(meanAnomaly * DEG) * Math.cos(2 * meanLongitude * DEG) -
+    0.5 * y * y * Math.sin(4 * meanLongitude * DEG) -
+    1.25 * eccentricity * eccentricity * Math.sin(2 * meanAnomaly * DEG)
+  );
+
+  const utcMinutes = at.getUTCHours() * 60 + at.getUTCMinutes() + at.getUTCSeconds() / 60;
+  const trueSolarTime = (((utcMinutes + equationOfTime + 4 * longitude) % 1440) + 1440) % 1440;
+  const hourAngle = trueSolarTime / 4 - 180;
+
+  const cosZenith = clamp(
+    Math.sin(latitude * DEG) * Math.sin(declination * DEG) +
+    Math.cos(latitude * DEG) * Math.cos(declination * DEG) * Math.cos(hourAngle * DEG),
+    -1, 1
+  );
+  const zenith = Math.acos(cosZenith) / DEG;
+
+  const sinZenith = Math.sin(zenith * DEG);
+  let azimuth = 180;
+  if (sinZenith > 1e-6 && Math.abs(Math.cos(latitude * DEG)) > 1e-6) {
+    const cosAzimuth = clamp(
+      (Math.sin(latitude * DEG) * cosZenith - Math.sin(declination * DEG)) / (Math.cos(latitude * DEG) * sinZenith),
+      -1, 1
+    );
+    const angle = Math.acos(cosAzimuth) / DEG;
+    azimuth = hourAngle > 0 ? (angle + 180) % 360 : (540 - angle) % 360;
+  }
+
+  return { zenith, elevation: 90 - zenith, azimuth, declination, equationOfTime };
+}
+
+/**
+ * Extraterrestrial normal irradiance, corrected for the Earth-Sun distance
+ */
+export function getExtraterrestrialIrradiance(at: Date): number {
+  return SOLAR_CONSTANT * (1 + 0.033 * Math.cos((2 * Math.PI * getDayOfYear(at)) / 365));
+}
+
+/**
+ * Relative air mass (Kasten-Young), corrected for site pressure by elevation
+ */
+export function getAirMass(zenith: number, elevationMeters: number = 0): number {
+  if (zenith >= 90) return Infinity;
+  const airMass = 1 / (Math.cos(zenith * DEG) + 0.50572 * (96.07995 - zenith) ** -1.6364);
+  return airMass * Math.exp(-elevationMeters / 8434.5);
+}
+
+/**
+ * Cloudless-sky irradiance. Beam follows Meinel's attenuation with Laue's
+ * altitude correction; diffuse is taken as 10% of the beam.
+ */
+export function getClearSkyIrradiance(at: Date, position: SolarPosition, elevationMeters: number = 0): Irradiance {
+  if (position.zenith >= 90) {
+    return { ghi: 0, dni: 0, dhi: 0 };
+  }
+
+  const airMass = getAirMass(position.zenith, elevationMeters);
+  const altitudeKm = Math.max(elevationMeters, 0) / 1000;
+  const dni = getExtraterrestrialIrradiance(at) *
+    ((1 - 0.14 * altitudeKm) * 0.7 ** (airMass ** 0.678) + 0.14 * altitudeKm);
+  const dhi = 0.1 * dni;
+  const ghi = dni * Math.cos(position.zenith * DEG) + dhi;
+
+  return { ghi, dni, dhi };
+}
+
+/**
+ * Erbs diffuse fraction of global horizontal irradiance for a clearness index
+ */
+function getDiffuseFraction(clearnessIndex: number): number {
+  const kt = clearnessIndex;
+  if (kt <= 0.22) return 1 - 0.09 * kt;
+  if (kt <= 0.8) return 0.9511 - 0.1604 * kt + 4.388 * kt ** 2 - 16.638 * kt ** 3 + 12.336 * kt ** 4;
+  return 0.165;
+}
+
+/**
+ * Attenuate clear-sky irradiance for cloud cover (0-100%) and split the
+ * result into beam and diffuse components
+ */
+export function applyCloudCover(
+  at: Date,
+  position: SolarPosition,
+  clearSky: Irradiance,
+  cloudCover: number
+): Irradiance {
+  const cloudFraction = clamp(cloudCover, 0, 100) / 100;
+  if (cloudFraction === 0 || clearSky.ghi <= 0) {
+    return clearSky;
+  }
+
+  // Kasten-Czeplak, with cloud cover in eighths of the sky
+  const ghi = clearSky.ghi * (1 - 0.75 * cloudFraction ** 3.4);
+
+  const cosZenith = Math.cos(position.zenith * DEG);
+  const horizontalExtraterrestrial = getExtraterrestrialIrradiance(at) * cosZenith;
+  const clearnessIndex = horizontalExtraterrestrial > 0 ? clamp(ghi / horizontalExtraterrestrial, 0, 1) : 0;
+
+  const dhi = Math.min(getDiffuseFraction(clearnessIndex) * ghi, ghi);
+  const dni = cosZenith > 0.065 ? (ghi - dhi) / cosZenith : 0;
+
+  return { ghi, dni, dhi };
+}
+
+/**
+ * Transpose horizontal irradiance to a tilted plane (isotropic sky model)
+ */
+export function getPlaneOfArrayIrradiance(
+  position: SolarPosition,
+  irradiance: Irradiance,
+  tilt: number,
+  azimuth: number,
+  albedo: number = 0.2
+): PlaneOfArrayIrradiance {
+  const cosAngleOfIncidence = clamp(
+    Math.cos(position.zenith * DEG) * Math.cos(tilt * DEG) +
+    Math.sin(position.zenith * DEG) * Math.sin(tilt * DEG) * Math.cos((position.azimuth - azimuth) * DEG),
+    -1, 1
+  );
+
+  const beam = position.zenith < 90 ? irradiance.dni * Math.max(cosAngleOfIncidence, 0) : 0;
+  const skyDiffuse = irradiance.dhi * (1 + Math.cos(tilt * DEG)) / 2;
+  const groundReflected = irradiance.ghi * albedo * (1 - Math.cos(tilt * DEG)) / 2;
+
+  return {
+    poa: beam + skyDiffuse + groundReflected,
+    beam,
+    skyDiffuse,
+    groundReflected,
+    angleOfIncidence: Math.acos(cosAngleOfIncidence) / DEG,
+  };
+}
+
+/**
+ * Cell temperature from plane-of-array irradiance (NOCT model)
+ */
+export function getCellTemperature(poa: number, ambientTemperature: number, noct: number = 45): number {
+  return ambientTemperature + ((noct - 20) / 800) * poa;
+}
+
+/**
+ * DC-to-grid output of an array in kW for a plane-of-array irradiance
+ */
+export function getPvArrayPower(array: PvArrayParameters, poa: number, ambientTemperature: number): number {
+  if (poa <= 0) return 0;
+
+  const cellTemperature = getCellTemperature(poa, ambientTemperature, array.noct);
+  const temperatureFactor = 1 + (array.temperatureCoefficient / 100) * (cellTemperature - 25);
+  const power = array.capacityKwp * (poa / 1000) * temperatureFactor * (1 - array.losses / 100);
+
+  return clamp(power, 0, array.capacityKwp);
+}
@@ -2,29 +2,24 @@
  * Tariff Optimization Utilities
  * 
  * This module contains helper functions for making optimization decisions
- * based on tariff information, with specific optimizations for Israeli tariffs.
+ * based on tariff information. Rates and periods come from the tariff engine,
+ * evaluated in the site's local time.
  */
 
-import { db } from '../db';
-import { tariffs, devices, type Device } from '@shared/schema';
-import { eq } from 'drizzle-orm';
+import type { TariffDefinition, TariffPeriodType } from '@shared/tariffSchema';
+import {
+  findNextPeriodStart,
+  findRateWindow,
+  getDeviceTariffContext,
+  getSeasonRateRange,
+  getSiteTariffContext,
+  hasTimeOfUsePeriods,
+  resolveRate,
+  type TariffContext,
+} from '../services/tariffEngine';
+import { getChemistryModel, getNominalCostPerKwh } from '../services/batteryDegradationModel';
 
 // Types for tariff data
-interface TariffRate {
-  period: string;
-  rate: number;
-  startHour: number;
-  endHour: number;
-}
-
-interface TariffSchedule {
-  [season: string]: {
-    peak: number;
-    shoulder: number;
-    offPeak: number;
-  };
-}
-
 interface TariffInfo {
   id: number;
   name: string;
@@ -32,58 +27,49 @@ interface TariffInfo {
   importRate: number;
   exportRate: number;
   isTimeOfUse: boolean;
-  scheduleData?: TariffSchedule;
+  definition: TariffDefinition;
+  timezone: string;
   currency: string;
   currentRate: number;
   currentPeriod: string;
+  currentPeriodType: TariffPeriodType;
+  currentSeason: string | null;
+  seasonRates: { peak: number; standard: number; offPeak: number };
   isIsraeliTariff: boolean;
+  context: TariffContext;
 }
 
+const OFF_PEAK_TYPES: TariffPeriodType[] = ['off_peak', 'super_off_peak'];
+
+// Wear per kWh discharged of a lithium-ion battery cycling between 10% and 90%,
+// where the battery's own degradation model is not at hand
+const DEFAULT_DEGRADATION_COST_PER_KWH = getNominalCostPerKwh(getChemistryModel('lithium_ion'), 10, 90);
+
 /**
- * Get the current tariff rate and period based on a tariff and current time
+ * Build tariff information from a tariff context at the given time
  */
-function getCurrentTariffRateAndPeriod(tariff: any): { currentRate: number, currentPeriod: string } {
-  // Default values
-  let currentRate = Number(tariff.importRate);
-  let currentPeriod = 'Standard Rate';
-  
-  // If it's a Time of Use tariff, determine the current rate based on time of day
-  if (tariff.isTimeOfUse && tariff.scheduleData) {
-    const now = new Date();
-    const hours = now.getHours();
-    const schedule = tariff.scheduleData as TariffSchedule;
-    
-    // Determine current season
-    const month = now.getMonth() + 1; // JavaScript months are 0-indexed
-    
-    let currentSeason;
-    if (month >= 6 && month <= 9) {
-      currentSeason = 'summer'; // June-September
-    } else if (month >= 10 && month <= 11) {
-      currentSeason = 'autumn'; // October-November
-    } else if (month >= 3 && month <= 5) {
-      currentSeason = 'spring'; // March-May
-    } else {
-      currentSeason = 'winter'; // December-February
-    }
-    
-    const seasonSchedule = schedule[currentSeason];
-    
-    if (seasonSchedule) {
-      if (hours >= 17 && hours < 22) {
-        currentRate = seasonSchedule.peak;
-        currentPeriod = 'Peak (17:00-22:00)';
-      } else if ((hours >= 7 && hours < 17) || (hours >= 22 && hours < 23)) {
-        currentRate = seasonSchedule.shoulder;
-        currentPeriod = 'Shoulder (7:00-17:00, 22:00-23:00)';
-      } else {
-        currentRate = seasonSchedule.offPeak;
-        currentPeriod = 'Off-Peak (23:00-7:00)';
-      }
-    }
-  }
+function buildTariffInfo(context: TariffContext, at: Date = new Date()): TariffInfo {
+  const { tariff, definition, timezone } = context;
+  const rate = resolveRate(context, at);
   
-  return { currentRate, currentPeriod };
+  return {
+    id: tariff.id,
+    name: tariff.name || "Unnamed Tariff",
+    provider: tariff.provider || "Unknown Provider",
+    importRate: Number(tariff.importRate),
+    exportRate: Number(tariff.exportRate),
+    isTimeOfUse: hasTimeOfUsePeriods(definition),
+    definition,
+    timezone,
+    currency: rate.currency,
+    currentRate: rate.importRate,
+    currentPeriod: rate.period,
+    currentPeriodType: rate.periodType,
+    currentSeason: rate.season,
+    seasonRates: getSeasonRateRange(context, at),
+    isIsraeliTariff: definition.region === 'IL',
+    context,
+  };
 }
 
 /**
@@ -91,32 +77,8 @@ function getCurrentTariffRateAndPeriod(tariff: any): { currentRate: number, curr
  */
 export async function getTariffInfoForSite(siteId: number): Promise<TariffInfo | null> {
   try {
-    // Get tariffs for the site
-    const siteTariffs = await db.select().from(tariffs).where(eq(tariffs.siteId, siteId));
-    
-    if (siteTariffs.length === 0) {
-      return null;
-    }
-    
-    // For now, we just use the first tariff found
-    const tariff = siteTariffs[0];
-    
-    // Get current rate and period
-    const { currentRate, currentPeriod } = getCurrentTariffRateAndPeriod(tariff);
-    
-    return {
-      id: tariff.id,
-      name: tariff.name || "Unnamed Tariff",
-      provider: tariff.provider || "Unknown Provider",
-      importRate: Number(tariff.importRate),
-      exportRate: Number(tariff.exportRate),
-      isTimeOfUse: tariff.isTimeOfUse || false,
-      scheduleData: tariff.scheduleData as TariffSchedule,
-      currency: tariff.currency || "ILS",
-      currentRate,
-      currentPeriod,
-      isIsraeliTariff: tariff.name ? tariff.name.includes('Israeli') : false,
-    };
+    const context = await getSiteTariffContext(siteId);
+    return context ? buildTariffInfo(context) : null;
   } catch (error) {
     console.error('Error fetching tariff info:', error);
     return null;
@@ -129,40 +91,8 @@ export async function getTariffInfoForSite(siteId: number): Promise<TariffInfo |
  */
 export async function getDeviceTariffInfo(deviceId: number): Promise<TariffInfo | null> {
   try {
-    // Get the device
-    const [device] = await db.select().from(devices).where(eq(devices.id, deviceId));
-    
-    if (!device) {
-      return null;
-    }
-    
-    // If device has a specific tariff assigned, use that
-    if (device.tariffId) {
-      // Get the device-specific tariff
-      const [deviceTariff] = await db.select().from(tariffs).where(eq(tariffs.id, device.tariffId));
-      
-      if (deviceTariff) {
-        // Get current rate and period
-        const { currentRate, currentPeriod } = getCurrentTariffRateAndPeriod(deviceTariff);
-        
-        return {
-          id: deviceTariff.id,
-          name: deviceTariff.name || "Unnamed Device Tariff",
-          provider: deviceTariff.provider || "Unknown Provider",
-          importRate: Number(deviceTariff.importRate),
-          exportRate: Number(deviceTariff.exportRate),
-          isTimeOfUse: deviceTariff.isTimeOfUse || false,
-          scheduleData: deviceTariff.scheduleData as TariffSchedule,
-          currency: deviceTariff.currency || "ILS",
-          currentRate,
-          currentPeriod,
-          isIsraeliTariff: deviceTariff.name ? deviceTariff.name.includes('Israeli') : false,
-        };
-      }
-    }
-    
-    // If no device-specific tariff, fall back to site tariff
-    return getTariffInfoForSite(device.siteId);
+    const context = await getDeviceTariffContext(deviceId);
+    return context ? buildTariffInfo(context) : null;
   } catch (error) {
     console.error('Error fetching device tariff info:', error);
     return null;
@@ -172,85 +102,50 @@ export async function getDeviceTariffInfo(deviceId: number): Promise<TariffInfo
 /**
  * Determine if it's currently a peak pricing period
  */
-export function isPeakPricingPeriod(): boolean {
-  const now = new Date();
-  const hours = now.getHours();
-  
-  // In Israeli tariff, peak hours are 17:00-22:00
-  return hours >= 17 && hours < 22;
+export function isPeakPricingPeriod(tariffInfo: TariffInfo): boolean {
+  return tariffInfo.currentPeriodType === 'peak';
 }
 
 /**
  * Determine if it's currently a low-price (off-peak) period
  */
-export function isOffPeakPricingPeriod(): boolean {
-  const now = new Date();
-  const hours = now.getHours();
-  
-  // In Israeli tariff, off-peak hours are 23:00-7:00
-  return hours >= 23 || hours < 7;
+export function isOffPeakPricingPeriod(tariffInfo: TariffInfo): boolean {
+  return OFF_PEAK_TYPES.includes(tariffInfo.currentPeriodType);
 }
 
 /**
  * Get the next cheapest rate period start time
  */
-export function getNextCheapRatePeriodStart(): Date {
-  const now = new Date();
-  const hours = now.getHours();
-  
-  // If we're before 23:00, the next cheap period is at 23:00
-  // If we're after 23:00, we're already in the cheap period
-  if (hours < 23) {
-    const cheapPeriodStart = new Date(now);
-    cheapPeriodStart.setHours(23, 0, 0, 0);
-    return cheapPeriodStart;
-  }
-  
-  // We're already in the cheap period
-  return now;
+export function getNextCheapRatePeriodStart(tariffInfo: TariffInfo, from: Date = new Date()): Date {
+  return findNextPeriodStart(tariffInfo.context, OFF_PEAK_TYPES, from)
+    ?? findRateWindow(tariffInfo.context, 'lowest', from).startTime;
 }
 
 /**
  * Get the next expensive rate period start time
  */
-export function getNextExpensiveRatePeriodStart(): Date {
-  const now = new Date();
-  const hours = now.getHours();
-  
-  // If we're before 17:00, the next expensive period is at 17:00
-  // If we're after 17:00 but before 22:00, we're already in the expensive period
-  // If we're after 22:00, the next expensive period is at 17:00 tomorrow
-  if (hours < 17) {
-    const expensivePeriodStart = new Date(now);
-    expensivePeriodStart.setHours(17, 0, 0, 0);
-    return expensivePeriodStart;
-  }
-  
-  if (hours >= 22) {
-    const expensivePeriodStart = new Date(now);
-    expensivePeriodStart.setDate(expensivePeriodStart.getDate() + 1);
-    expensivePeriodStart.setHours(17, 0, 0, 0);
-    return expensivePeriodStart;
-  }
-  
-  // We're already in the expensive period
-  return now;
+export function getNextExpensiveRatePeriodStart(tariffInfo: TariffInfo, from: Date = new Date()): Date {
+  return findNextPeriodStart(tariffInfo.context, ['peak'], from)
+    ?? findRateWindow(tariffInfo.context, 'highest', from).startTime;
 }
 
 /**
- * Calculate potential savings from price arbitrage between rate periods
+ * Calculate potential savings from price arbitrage between rate periods, net
+ * of the battery wear per kWh discharged (see batteryDegradationModel)
  */
 export function calculateArbitrageSavings(
   batteryCapacityKWh: number,
   batteryEfficiency: number,
   currentRatePerKWh: number,
-  nextCheapRatePerKWh: number
+  nextCheapRatePerKWh: number,
+  degradationCostPerKWh: number = DEFAULT_DEGRADATION_COST_PER_KWH
 ): number {
   const usableCapacity = batteryCapacityKWh * 0.8; // Typical usable capacity is 80% of nominal
   const roundTripEfficiency = batteryEfficiency; // e.g., 0.9 for 90% efficiency
   
-  // Calculate the cost difference between charging at the cheap rate and using at the expensive rate
-  const savingsPerKWh = currentRatePerKWh - (nextCheapRatePerKWh / roundTripEfficiency);
+  // Calculate the cost difference between charging at the cheap rate and using at the expensive rate,
+  // less the wear of cycling the energy through the battery
+  const savingsPerKWh = currentRatePerKWh - (nextCheapRatePerKWh / roundTripEfficiency) - degradationCostPerKWh;
   
   // Total potential savings
   const potentialSavings = usableCapacity * savingsPerKWh;
@@ -259,71 +154,32 @@ export function calculateArbitrageSavings(
 }
 
 /**
- * Determine if battery arbitrage is profitable with current tariff
+ * Determine if battery arbitrage is profitable with current tariff, once the
+ * battery wear per kWh discharged is paid for
  */
-export function isArbitrageProfitable(tariffInfo: TariffInfo): boolean {
+export function isArbitrageProfitable(
+  tariffInfo: TariffInfo,
+  degradationCostPerKWh: number = DEFAULT_DEGRADATION_COST_PER_KWH
+): boolean {
   if (!tariffInfo.isTimeOfUse) {
     return false; // Arbitrage only makes sense with time-of-use tariffs
   }
   
-  // For Israeli tariffs, the price differential is large enough to make 
-  // arbitrage profitable despite battery inefficiencies
-  if (tariffInfo.isIsraeliTariff) {
-    const schedule = tariffInfo.scheduleData;
-    if (!schedule) return false;
-    
-    // Determine current season
-    const now = new Date();
-    const month = now.getMonth() + 1;
-    
-    let currentSeason;
-    if (month >= 6 && month <= 9) {
-      currentSeason = 'summer';
-    } else if (month >= 10 && month <= 11) {
-      currentSeason = 'autumn';
-    } else if (month >= 3 && month <= 5) {
-      currentSeason = 'spring';
-    } else {
-      currentSeason = 'winter';
-    }
-    
-    const peakRate = schedule[currentSeason].peak;
-    const offPeakRate = schedule[currentSeason].offPeak;
-    
-    // Assuming battery round-trip efficiency of 85%
-    const efficiencyFactor = 0.85;
-    
-    // Arbitrage is profitable if: peakRate > offPeakRate / efficiencyFactor
-    return peakRate > (offPeakRate / efficiencyFactor);
-  }
+  const { peak: peakRate, offPeak: offPeakRate } = tariffInfo.seasonRates;
   
-  return false;
+  // Assuming battery round-trip efficiency of 85%
+  const efficiencyFactor = 0.85;
+  
+  // Arbitrage is profitable if: peakRate > offPeakRate / efficiencyFactor + degradation cost
+  return peakRate > (offPeakRate / efficiencyFactor) + degradationCostPerKWh;
 }
 
 /**
  * Get optimal battery charge timing based on tariff
  */
 export function getOptimalChargeTiming(tariffInfo: TariffInfo): { startTime: Date; endTime: Date } {
-  const now = new Date();
-  
-  // For Israeli tariffs, optimal charge time is during off-peak hours (23:00-7:00)
-  const startTime = new Date(now);
-  if (now.getHours() < 23 && now.getHours() >= 7) {
-    // If current time is outside off-peak, set start time to next off-peak period
-    startTime.setHours(23, 0, 0, 0);
-  } else {
-    // Already in off-peak period, start now
-    startTime.setTime(now.getTime());
-  }
-  
-  // End time is the end of off-peak period (7:00 AM)
-  const endTime = new Date(startTime);
-  if (endTime.getHours() >= 23) {
-    // If we're starting in the evening, the end is 7:00 AM next day
-    endTime.setDate(endTime.getDate() + 1);
-  }
-  endTime.setHours(7, 0, 0, 0);
-  
+  // Cheapest stretch of the next 24 hours
+  const { startTime, endTime } = findRateWindow(tariffInfo.context, 'lowest');
   return { startTime, endTime };
 }
 
@@ -331,26 +187,8 @@ export function getOptimalChargeTiming(tariffInfo: TariffInfo): { startTime: Dat
  * Get optimal battery discharge timing based on tariff
  */
 export function getOptimalDischargeTiming(tariffInfo: TariffInfo): { startTime: Date; endTime: Date } {
-  const now = new Date();
-  
-  // For Israeli tariffs, optimal discharge time is during peak hours (17:00-22:00)
-  const startTime = new Date(now);
-  if (now.getHours() < 17) {
-    // If current time is before peak, set start time to beginning of peak period
-    startTime.setHours(17, 0, 0, 0);
-  } else if (now.getHours() >= 22) {
-    // If current time is after peak, set start time to beginning of peak period next day
-    startTime.setDate(startTime.getDate() + 1);
-    startTime.setHours(17, 0, 0, 0);
-  } else {
-    // Already in peak period, start now
-    startTime.setTime(now.getTime());
-  }
-  
-  // End time is the end of peak period (22:00)
-  const endTime = new Date(startTime);
-  endTime.setHours(22, 0, 0, 0);
-  
+  // Most expensive stretch of the next 24 hours
+  const { startTime, endTime } = findRateWindow(tariffInfo.context, 'highest');
   return { startTime, endTime };
 }
 
@@ -367,7 +205,7 @@ export function getBatteryChargeRecommendations(
   let reason = 'No specific recommendation based on current conditions.';
   
   // If it's off-peak and battery is not full, recommend charging
-  if (isOffPeakPricingPeriod() && batteryStateOfCharge < 90) {
+  if (isOffPeakPricingPeriod(tariffInfo) && batteryStateOfCharge < 90) {
     shouldCharge = true;
     targetSoC = 90; // Charge to 90% during off-peak
     reason = 'Currently in off-peak period with lower electricity rates. Optimal time to charge battery.';
@@ -378,7 +216,7 @@ export function getBatteryChargeRecommendations(
     }
   }
   // If it's peak or shoulder and battery is low, still charge a bit to ensure minimal reserve
-  else if (!isOffPeakPricingPeriod() && batteryStateOfCharge < 20) {
+  else if (!isOffPeakPricingPeriod(tariffInfo) && batteryStateOfCharge < 20) {
     shouldCharge = true;
     targetSoC = 30; // Charge to 30% minimum during peak/shoulder periods
     reason = 'Battery state of charge is low. Charging to minimum level to ensure reserve capacity.';
@@ -400,7 +238,7 @@ export function getBatteryDischargeRecommendations(
   let reason = 'No specific recommendation based on current conditions.';
   
   // If it's peak and battery has sufficient charge, recommend discharging
-  if (isPeakPricingPeriod() && batteryStateOfCharge > 30) {
+  if (isPeakPricingPeriod(tariffInfo) && batteryStateOfCharge > 30) {
     shouldDischarge = true;
     targetSoC = 20; // Discharge to 20% during peak
     reason = 'Currently in peak period with higher electricity rates. Optimal time to use battery power.';
@@ -426,47 +264,43 @@ export function getEVChargingRecommendations(
   chargePower: number;
   reason: string;
 } {
-  const hours = currentTime.getHours();
-  
   // Default recommendation
   let shouldCharge = false;
   let recommendedStartTime = null;
   let chargePower = 11; // Default max power
   let reason = '';
   
-  // For Israeli tariffs with time-of-use pricing
-  if (tariffInfo.isIsraeliTariff && tariffInfo.isTimeOfUse) {
-    // Off-peak period (23:00-7:00): Best time to charge at full power
-    if (hours >= 23 || hours < 7) {
-      shouldCharge = true;
-      recommendedStartTime = new Date(currentTime);
-      reason = 'Currently in off-peak period with lowest electricity rates. Optimal time to charge EV at full power.';
-    }
-    // Shoulder period (7:00-17:00, 22:00-23:00): Acceptable time to charge at medium power
-    else if ((hours >= 7 && hours < 17) || (hours >= 22 && hours < 23)) {
+  // For tariffs with time-of-use pricing
+  if (tariffInfo.isTimeOfUse) {
+    const rate = resolveRate(tariffInfo.context, currentTime);
+    
+    // Off-peak period: Best time to charge at full power
+    if (OFF_PEAK_TYPES.includes(rate.periodType)) {
       shouldCharge = true;
       recommendedStartTime = new Date(currentTime);
-      chargePower = 7.4; // Reduced power during shoulder periods
-      reason = 'Currently in shoulder period with medium electricity rates. Acceptable time to charge EV at reduced power.';
+      reason = `Currently in ${rate.period} with lowest electricity rates. Optimal time to charge EV at full power.`;
     }
-    // Peak period (17:00-22:00): Avoid charging unless necessary
-    else {
+    // Peak period: Avoid charging unless necessary
+    else if (rate.periodType === 'peak') {
       shouldCharge = false;
       
       // Recommend the next off-peak period
-      recommendedStartTime = new Date(currentTime);
-      if (hours < 23) {
-        recommendedStartTime.setHours(23, 0, 0, 0);
-      } else {
-        recommendedStartTime.setDate(recommendedStartTime.getDate() + 1);
-        recommendedStartTime.setHours(0, 0, 0, 0);
-      }
+      recommendedStartTime = getNextCheapRatePeriodStart(tariffInfo, currentTime);
       
-      reason = 'Currently in peak period with highest electricity rates. Recommend delaying charging until off-peak period.';
+      reason = `Currently in ${rate.period} with highest electricity rates. Recommend delaying charging until off-peak period.`;
+    }
+    // Shoulder or standard period: Acceptable time to charge at medium power
+    else {
+      shouldCharge = true;
+      recommendedStartTime = new Date(currentTime);
+      chargePower = 7.4; // Reduced power during shoulder periods
+      reason = `Currently in ${rate.period} with medium electricity rates. Acceptable time to charge EV at reduced power.`;
     }
     
     // Add additional information for Israeli tariff
-    reason += ' Israeli electricity tariffs have significant price variation between periods.';
+    if (tariffInfo.isIsraeliTariff) {
+      reason += ' Israeli electricity tariffs have significant price variation between periods.';
+    }
   } else {
     // For non-TOU tariffs, charging anytime is fine
     shouldCharge = true;
@@ -489,40 +323,42 @@ export function getHeatPumpRecommendations(
   preheatingRecommended: boolean;
   reason: string;
 } {
-  const hours = currentTime.getHours();
-  
   // Default values
   let shouldRun = true;
   let optimizationMode: 'normal' | 'economy' | 'boost' = 'normal';
   let preheatingRecommended = false;
   let reason = '';
   
-  // For Israeli tariffs with time-of-use pricing
-  if (tariffInfo.isIsraeliTariff && tariffInfo.isTimeOfUse) {
-    // Off-peak period (23:00-7:00): Best time to run at full capacity
-    if (hours >= 23 || hours < 7) {
+  // For tariffs with time-of-use pricing
+  if (tariffInfo.isTimeOfUse) {
+    const rate = resolveRate(tariffInfo.context, currentTime);
+    
+    // Off-peak period: Best time to run at full capacity
+    if (OFF_PEAK_TYPES.includes(rate.periodType)) {
       shouldRun = true;
       optimizationMode = 'boost';
       preheatingRecommended = true;
-      reason = 'Currently in off-peak period. Recommend running heat pump in boost mode and pre-heating/cooling.';
+      reason = `Currently in ${rate.period}. Recommend running heat pump in boost mode and pre-heating/cooling.`;
     }
-    // Shoulder period (7:00-17:00, 22:00-23:00): Run in normal mode
-    else if ((hours >= 7 && hours < 17) || (hours >= 22 && hours < 23)) {
-      shouldRun = true;
-      optimizationMode = 'normal';
+    // Peak period: Run in economy mode or avoid if possible
+    else if (rate.periodType === 'peak') {
+      shouldRun = true; // Still run for comfort, but in economy mode
+      optimizationMode = 'economy';
       preheatingRecommended = false;
-      reason = 'Currently in shoulder period. Recommend running heat pump in normal mode.';
+      reason = `Currently in ${rate.period}. Recommend running heat pump in economy mode to reduce energy consumption.`;
     }
-    // Peak period (17:00-22:00): Run in economy mode or avoid if possible
+    // Shoulder or standard period: Run in normal mode
     else {
-      shouldRun = true; // Still run for comfort, but in economy mode
-      optimizationMode = 'economy';
+      shouldRun = true;
+      optimizationMode = 'normal';
       preheatingRecommended = false;
-      reason = 'Currently in peak period. Recommend running heat pump in economy mode to reduce energy consumption.';
+      reason = `Currently in ${rate.period}. Recommend running heat pump in normal mode.`;
     }
     
     // Add additional context for Israeli tariff
-    reason += ' Israeli electricity tariffs have significant price variation between periods.';
+    if (tariffInfo.isIsraeliTariff) {
+      reason += ' Israeli electricity tariffs have significant price variation between periods.';
+    }
   } else {
     // For non-TOU tariffs, normal operation is fine
     shouldRun = true;
@@ -584,7 +420,7 @@ export async function generateTariffBasedRecommendations(
       case 'battery':
         const currentSoC = batteryStateOfCharge || (device.readings?.soc || 50);
         
-        if (isPeakPricingPeriod()) {
+        if (isPeakPricingPeriod(tariffInfo)) {
           // During peak hours, recommend discharging the battery
           const dischargeRecommendation = getBatteryDischargeRecommendations(tariffInfo, currentSoC);
           
@@ -599,7 +435,7 @@ export async function generateTariffBasedRecommendations(
             
             reasoning += `Battery ${device.name}: ${dischargeRecommendation.reason}\n`;
           }
-        } else if (isOffPeakPricingPeriod()) {
+        } else if (isOffPeakPricingPeriod(tariffInfo)) {
           // During off-peak hours, recommend charging the battery
           const chargeRecommendation = getBatteryChargeRecommendations(tariffInfo, currentSoC);
           
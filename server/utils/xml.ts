@@ -0,0 +1,217 @@
+/**
+ * XML Utilities
+ *
+ * A small non-validating XML reader and escaping helpers for protocol
+ * payloads. Elements are matched by local name, so lookups work whatever
+ * namespace prefixes the sender chose. DTDs and processing instructions are
+ * skipped; entities other than the predefined and numeric ones are left as-is.
+ */
+
+export interface XmlElement {
+  name: string; // Local name, without prefix
+  qualifiedName: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Concatenated character data of the element itself
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+export class XmlParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'XmlParseError';
+  }
+}
+
+/**
+ * Escape text for use in element content or attribute values
+ */
+export function escapeXml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function localName(qualifiedName: string): string {
+  const colon = qualifiedName.indexOf(':');
+  return colon >= 0 ? qualifiedName.slice(colon + 1) : qualifiedName;
+}
+
+/**
+ * Parse an XML document and return its root element
+ */
+export function parseXml(xml: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let position = 0;
+
+  while (position < xml.length) {
+    const tagStart = xml.indexOf('<', position);
+    const textEnd = tagStart < 0 ? xml.length : tagStart;
+
+    if (textEnd > position && stack.length > 0) {
+      stack[stack.length - 1].text += decodeEntities(xml.slice(position, textEnd));
+    }
+    if (tagStart < 0) break;
+
+    if (xml.startsWith('<!--', tagStart)) {
+      const end = xml.indexOf('-->', tagStart);
+      if (end < 0) throw new XmlParseError('Unterminated comment', tagStart);
+      position = end + 3;
+    } else if (xml.startsWith('<![CDATA[', tagStart)) {
+      const end = xml.indexOf(']]>', tagStart);
+      if (end < 0) throw new XmlParseError('Unterminated CDATA section', tagStart);
+      if (stack.length > 0) stack[stack.length - 1].text += xml.slice(tagStart + 9, end);
+      position = end + 3;
+    } else if (xml.startsWith('<?', tagStart)) {
+      const end = xml.indexOf('?>', tagStart);
+      if (end < 0) throw new XmlParseError('Unterminated processing instruction', tagStart);
+      position = end + 2;
+    } else if (xml.startsWith('<!', tagStart)) {
+      const end = xml.indexOf('>', tagStart);
+      if (end < 0) throw new XmlParseError('Unterminated declaration', tagStart);
+      position = end + 1;
+    } else if (xml.startsWith('</', tagStart)) {
+      const end = xml.indexOf('>', tagStart);
+      if (end < 0) throw new XmlParseError('Unterminated end tag', tagStart);
+      const name = xml.slice(tagStart + 2, end).trim();
+      const open = stack.pop();
+      if (!open || open.qualifiedName !== name) {
+        throw new XmlParseError(`Unexpected end tag </${name}>`, tagStart);
+      }
+      position = end + 1;
+    } else {
+      const end = findTagEnd(xml, tagStart);
+      const selfClosing = xml[end - 1] === '/';
+      const body = xml.slice(tagStart + 1, selfClosing ? end - 1 : end);
+      const element = parseTag(body, tagStart);
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (!root) {
+        root = element;
+      } else {
+        throw new XmlParseError('Multiple root elements', tagStart);
+      }
+
+      if (!selfClosing) stack.push(element);
+      position = end + 1;
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new XmlParseError(`Unclosed element <${stack[stack.length - 1].qualifiedName}>`, xml.length);
+  }
+  if (!root) {
+    throw new XmlParseError('No root element', 0);
+  }
+  return root;
+}
+
+// Index of the '>' closing a start tag, skipping over quoted attribute values
+function findTagEnd(xml: string, tagStart: number): number {
+  let quote: string | null = null;
+  for (let i = tagStart + 1; i < xml.length; i++) {
+    const char = xml[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  throw new XmlParseError('Unterminated start tag', tagStart);
+}
+
+function parseTag(body: string, position: number): XmlElement {
+  const nameMatch = /^\s*([^\s/>]+)/.exec(body);
+  if (!nameMatch) throw new XmlParseError('Missing element name', position);
+
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  const rest = body.slice(nameMatch[0].length);
+  while ((match = attributePattern.exec(rest)) !== null) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+
+  return {
+    name: localName(nameMatch[1]),
+    qualifiedName: nameMatch[1],
+    attributes,
+    children: [],
+    text: '',
+  };
+}
+
+/**
+ * First child element with a local name
+ */
+export function findChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find((child) => child.name === name);
+}
+
+/**
+ * All child elements with a local name
+ */
+export function findChildren(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element ? element.children.filter((child) => child.name === name) : [];
+}
+
+/**
+ * Follow a path of local names through nested elements
+ */
+export function findPath(element: XmlElement | undefined, ...path: string[]): XmlElement | undefined {
+  return path.reduce<XmlElement | undefined>((current, name) => findChild(current, name), element);
+}
+
+/**
+ * First descendant element with a local name, depth first
+ */
+export function findDescendant(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  if (!element) return undefined;
+  for (const child of element.children) {
+    if (child.name === name) return child;
+    const found = findDescendant(child, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * All descendant elements with a local name, depth first
+ */
+export function findDescendants(element: XmlElement | undefined, name: string): XmlElement[] {
+  if (!element) return [];
+  return element.children.flatMap((child) => [
+    ...(child.name === name ? [child] : []),
+    ...findDescendants(child, name),
+  ]);
+}
+
+/**
+ * Trimmed text of the element at a path, or undefined if it does not exist
+ */
+export function textAt(element: XmlElement | undefined, ...path: string[]): string | undefined {
+  const target = findPath(element, ...path);
+  return target ? target.text.trim() : undefined;
+}
@@ -0,0 +1,668 @@
+import { db } from "./db";
+import { eq, and, desc, gt, gte, lte, inArray, isNull, sql } from "drizzle-orm";
+import {
+  vppPrograms,
+  vppEnrollments,
+  vppEvents,
+  vppParticipations,
+  vppResponsePlans,
+  vppMetrics,
+  type VppProgramRow,
+  type VppEnrollmentRow,
+  type VppEventRow,
+  type VppParticipationRow,
+  type VppResponsePlanRow,
+  type VppMetricsRow
+} from "@shared/schema";
+import type {
+  VPPProgram,
+  VPPEnrollment,
+  VPPEvent,
+  VPPEventStatus,
+  VPPParticipation,
+  VPPResponsePlan,
+  VPPMetrics,
+  InsertVPPProgram,
+  InsertVPPEnrollment,
+  InsertVPPEvent,
+  InsertVPPParticipation,
+  InsertVPPResponsePlan,
+  InsertVPPMetrics
+} from "@shared/vppSchema";
+
+// Settlement figures recorded when a participation completes
+export interface VPPSettlement {
+  endTime: string;
+  actualResponse: number;
+  performance: number;
+  compensation: number;
+}
+
+// Thrown when deleting a record that settlement history still refers to
+export class VPPRecordInUseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VPPRecordInUseError';
+  }
+}
+
+export interface IVppStorage {
+  // Programs
+  getPrograms(): Promise<VPPProgram[]>;
+  getActivePrograms(): Promise<VPPProgram[]>;
+  getProgram(id: number): Promise<VPPProgram | undefined>;
+  createProgram(program: InsertVPPProgram): Promise<VPPProgram>;
+  updateProgram(id: number, program: Partial<InsertVPPProgram>): Promise<VPPProgram | undefined>;
+  deleteProgram(id: number): Promise<boolean>;
+
+  // Enrollments
+  getEnrollment(id: number): Promise<VPPEnrollment | undefined>;
+  getEnrollmentsBySite(siteId: number): Promise<VPPEnrollment[]>;
+  getEnrollmentsByProgram(programId: number): Promise<VPPEnrollment[]>;
+  getActiveEnrollment(siteId: number, programId: number): Promise<VPPEnrollment | undefined>;
+  createEnrollment(enrollment: InsertVPPEnrollment): Promise<VPPEnrollment>;
+  updateEnrollment(id: number, enrollment: Partial<InsertVPPEnrollment>): Promise<VPPEnrollment | undefined>;
+  deleteEnrollment(id: number): Promise<boolean>;
+
+  // Events
+  getEvent(id: number): Promise<VPPEvent | undefined>;
+  getEvents(): Promise<VPPEvent[]>;
+  getEventsByProgram(programId: number): Promise<VPPEvent[]>;
+  getEventsBySite(siteId: number): Promise<VPPEvent[]>;
+  getEventsByStatus(statuses: VPPEventStatus[]): Promise<VPPEvent[]>;
+  getActiveEvents(): Promise<VPPEvent[]>;
+  getUpcomingEvents(): Promise<VPPEvent[]>;
+  createEvent(event: InsertVPPEvent): Promise<VPPEvent>;
+  updateEvent(id: number, event: Partial<InsertVPPEvent>): Promise<VPPEvent | undefined>;
+  transitionEvent(id: number, from: VPPEventStatus, to: VPPEventStatus): Promise<VPPEvent | undefined>;
+  cancelEvent(id: number): Promise<{ event: VPPEvent; stopped: VPPParticipation[] } | undefined>;
+
+  // Participations
+  getParticipation(id: number): Promise<VPPParticipation | undefined>;
+  getParticipationsByEvent(eventId: number): Promise<VPPParticipation[]>;
+  getParticipationsBySite(siteId: number): Promise<VPPParticipation[]>;
+  getParticipationsByEnrollment(enrollmentId: number): Promise<VPPParticipation[]>;
+  createParticipation(participation: InsertVPPParticipation): Promise<VPPParticipation>;
+  acceptParticipation(eventId: number, siteId: number, enrollmentId: number, capacity: number): Promise<VPPParticipation | undefined>;
+  rejectParticipation(eventId: number, siteId: number, enrollmentId: number): Promise<VPPParticipation | undefined>;
+  startParticipation(id: number, startTime: string): Promise<VPPParticipation | undefined>;
+  completeParticipation(id: number, settlement: VPPSettlement): Promise<VPPParticipation | undefined>;
+  settleParticipation(id: number, settlement: Omit<VPPSettlement, 'endTime'>): Promise<VPPParticipation | undefined>;
+
+  // Response plans
+  getResponsePlanByParticipation(participationId: number): Promise<VPPResponsePlan | undefined>;
+  createResponsePlan(plan: InsertVPPResponsePlan): Promise<VPPResponsePlan>;
+
+  // Metrics
+  getMetricsByParticipation(participationId: number): Promise<VPPMetrics[]>;
+  getLatestMetricsByParticipation(participationId: number): Promise<VPPMetrics | undefined>;
+  addMetrics(metrics: InsertVPPMetrics): Promise<VPPMetrics>;
+}
+
+export class DatabaseVppStorage implements IVppStorage {
+  // Programs
+  async getPrograms(): Promise<VPPProgram[]> {
+    const rows = await db.select().from(vppPrograms).orderBy(vppPrograms.id);
+    return rows.map(toProgram);
+  }
+
+  async getActivePrograms(): Promise<VPPProgram[]> {
+    const rows = await db.select().from(vppPrograms).where(eq(vppPrograms.isActive, true)).orderBy(vppPrograms.id);
+    return rows.map(toProgram);
+  }
+
+  async getProgram(id: number): Promise<VPPProgram | undefined> {
+    const [row] = await db.select().from(vppPrograms).where(eq(vppPrograms.id, id));
+    return row ? toProgram(row) : undefined;
+  }
+
+  async createProgram(program: InsertVPPProgram): Promise<VPPProgram> {
+    const [row] = await db.insert(vppPrograms).values(fromProgram(program) as typeof vppPrograms.$inferInsert).returning();
+    return toProgram(row);
+  }
+
+  async updateProgram(id: number, program: Partial<InsertVPPProgram>): Promise<VPPProgram | undefined> {
+    const [row] = await db
+      .update(vppPrograms)
+      .set({ ...fromProgram(program), updatedAt: new Date() } as Partial<typeof vppPrograms.$inferInsert>)
+      .where(eq(vppPrograms.id, id))
+      .returning();
+    return row ? toProgram(row) : undefined;
+  }
+
+  async deleteProgram(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [enrollment] = await tx.select({ id: vppEnrollments.id }).from(vppEnrollments).where(eq(vppEnrollments.programId, id)).limit(1);
+      const [event] = await tx.select({ id: vppEvents.id }).from(vppEvents).where(eq(vppEvents.programId, id)).limit(1);
+      if (enrollment || event) {
+        throw new VPPRecordInUseError('Program has enrollments or events; deactivate it instead');
+      }
+
+      const deleted = await tx.delete(vppPrograms).where(eq(vppPrograms.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  // Enrollments
+  async getEnrollment(id: number): Promise<VPPEnrollment | undefined> {
+    const [row] = await db.select().from(vppEnrollments).where(eq(vppEnrollments.id, id));
+    return row ? toEnrollment(row) : undefined;
+  }
+
+  async getEnrollmentsBySite(siteId: number): Promise<VPPEnrollment[]> {
+    const rows = await db.select().from(vppEnrollments).where(eq(vppEnrollments.siteId, siteId)).orderBy(vppEnrollments.id);
+    return rows.map(toEnrollment);
+  }
+
+  async getEnrollmentsByProgram(programId: number): Promise<VPPEnrollment[]> {
+    const rows = await db.select().from(vppEnrollments).where(eq(vppEnrollments.programId, programId)).orderBy(vppEnrollments.id);
+    return rows.map(toEnrollment);
+  }
+
+  async getActiveEnrollment(siteId: number, programId: number): Promise<VPPEnrollment | undefined> {
+    const [row] = await db
+      .select()
+      .from(vppEnrollments)
+      .where(and(eq(vppEnrollments.siteId, siteId), eq(vppEnrollments.programId, programId), eq(vppEnrollments.status, 'active')))
+      .orderBy(vppEnrollments.id)
+      .limit(1);
+    return row ? toEnrollment(row) : undefined;
+  }
+
+  async createEnrollment(enrollment: InsertVPPEnrollment): Promise<VPPEnrollment> {
+    const [row] = await db.insert(vppEnrollments).values(fromEnrollment(enrollment) as typeof vppEnrollments.$inferInsert).returning();
+    return toEnrollment(row);
+  }
+
+  async updateEnrollment(id: number, enrollment: Partial<InsertVPPEnrollment>): Promise<VPPEnrollment | undefined> {
+    const [row] = await db
+      .update(vppEnrollments)
+      .set({ ...fromEnrollment(enrollment), updatedAt: new Date() } as Partial<typeof vppEnrollments.$inferInsert>)
+      .where(eq(vppEnrollments.id, id))
+      .returning();
+    return row ? toEnrollment(row) : undefined;
+  }
+
+  // Enrollments with participations are ended rather than deleted, so their settlements stay attributable
+  async deleteEnrollment(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [participation] = await tx
+        .select({ id: vppParticipations.id })
+        .from(vppParticipations)
+        .where(eq(vppParticipations.enrollmentId, id))
+        .limit(1);
+
+      if (participation) {
+        const updated = await tx
+          .update(vppEnrollments)
+          .set({ status: 'inactive', endDate: new Date(), updatedAt: new Date() })
+          .where(eq(vppEnrollments.id, id))
+          .returning();
+        return updated.length > 0;
+      }
+
+      const deleted = await tx.delete(vppEnrollments).where(eq(vppEnrollments.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  // Events
+  async getEvent(id: number): Promise<VPPEvent | undefined> {
+    const [row] = await db.select().from(vppEvents).where(eq(vppEvents.id, id));
+    return row ? toEvent(row) : undefined;
+  }
+
+  async getEvents(): Promise<VPPEvent[]> {
+    const rows = await db.select().from(vppEvents).orderBy(vppEvents.startTime);
+    return rows.map(toEvent);
+  }
+
+  async getEventsByProgram(programId: number): Promise<VPPEvent[]> {
+    const rows = await db.select().from(vppEvents).where(eq(vppEvents.programId, programId)).orderBy(vppEvents.startTime);
+    return rows.map(toEvent);
+  }
+
+  async getEventsBySite(siteId: number): Promise<VPPEvent[]> {
+    const rows = await db
+      .select()
+      .from(vppEvents)
+      .where(sql`${vppEvents.participatingSites}::jsonb @> ${JSON.stringify([siteId])}::jsonb`)
+      .orderBy(vppEvents.startTime);
+    return rows.map(toEvent);
+  }
+
+  async getEventsByStatus(statuses: VPPEventStatus[]): Promise<VPPEvent[]> {
+    const rows = await db.select().from(vppEvents).where(inArray(vppEvents.status, statuses)).orderBy(vppEvents.startTime);
+    return rows.map(toEvent);
+  }
+
+  async getActiveEvents(): Promise<VPPEvent[]> {
+    const now = new Date();
+    const rows = await db
+      .select()
+      .from(vppEvents)
+      .where(and(eq(vppEvents.status, 'active'), lte(vppEvents.startTime, now), gte(vppEvents.endTime, now)))
+      .orderBy(vppEvents.startTime);
+    return rows.map(toEvent);
+  }
+
+  async getUpcomingEvents(): Promise<VPPEvent[]> {
+    const rows = await db
+      .select()
+      .from(vppEvents)
+      .where(and(eq(vppEvents.status, 'upcoming'), gt(vppEvents.startTime, new Date())))
+      .orderBy(vppEvents.startTime);
+    return rows.map(toEvent);
+  }
+
+  async createEvent(event: InsertVPPEvent): Promise<VPPEvent> {
+    const [row] = await db.insert(vppEvents).values(fromEvent(event) as typeof vppEvents.$inferInsert).returning();
+    return toEvent(row);
+  }
+
+  async updateEvent(id: number, event: Partial<InsertVPPEvent>): Promise<VPPEvent | undefined> {
+    const [row] = await db
+      .update(vppEvents)
+      .set({ ...fromEvent(event), updatedAt: new Date() } as Partial<typeof vppEvents.$inferInsert>)
+      .where(eq(vppEvents.id, id))
+      .returning();
+    return row ? toEvent(row) : undefined;
+  }
+
+  // Move an event between statuses only if no one else has moved it first
+  async transitionEvent(id: number, from: VPPEventStatus, to: VPPEventStatus): Promise<VPPEvent | undefined> {
+    const [row] = await db
+      .update(vppEvents)
+      .set({ status: to, updatedAt: new Date() })
+      .where(and(eq(vppEvents.id, id), eq(vppEvents.status, from)))
+      .returning();
+    return row ? toEvent(row) : undefined;
+  }
+
+  async cancelEvent(id: number): Promise<{ event: VPPEvent; stopped: VPPParticipation[] } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(vppEvents)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(and(eq(vppEvents.id, id), inArray(vppEvents.status, ['upcoming', 'active'])))
+        .returning();
+      if (!row) return undefined;
+
+      const stopped = await tx
+        .update(vppParticipations)
+        .set({ status: 'completed', endTime: new Date(), updatedAt: new Date() })
+        .where(and(eq(vppParticipations.eventId, id), eq(vppParticipations.status, 'participating')))
+        .returning();
+
+      return { event: toEvent(row), stopped: stopped.map(toParticipation) };
+    });
+  }
+
+  // Participations
+  async getParticipation(id: number): Promise<VPPParticipation | undefined> {
+    const [row] = await db.select().from(vppParticipations).where(eq(vppParticipations.id, id));
+    return row ? toParticipation(row) : undefined;
+  }
+
+  async getParticipationsByEvent(eventId: number): Promise<VPPParticipation[]> {
+    const rows = await db.select().from(vppParticipations).where(eq(vppParticipations.eventId, eventId)).orderBy(vppParticipations.id);
+    return rows.map(toParticipation);
+  }
+
+  async getParticipationsBySite(siteId: number): Promise<VPPParticipation[]> {
+    const rows = await db.select().from(vppParticipations).where(eq(vppParticipations.siteId, siteId)).orderBy(vppParticipations.id);
+    return rows.map(toParticipation);
+  }
+
+  async getParticipationsByEnrollment(enrollmentId: number): Promise<VPPParticipation[]> {
+    const rows = await db.select().from(vppParticipations).where(eq(vppParticipations.enrollmentId, enrollmentId)).orderBy(vppParticipations.id);
+    return rows.map(toParticipation);
+  }
+
+  // Record that a site was invited to an event; a site already invited keeps its participation
+  async createParticipation(participation: InsertVPPParticipation): Promise<VPPParticipation> {
+    const [row] = await db
+      .insert(vppParticipations)
+      .values(fromParticipation(participation) as typeof vppParticipations.$inferInsert)
+      .onConflictDoNothing({ target: [vppParticipations.eventId, vppParticipations.siteId] })
+      .returning();
+    if (row) return toParticipation(row);
+
+    const [existing] = await db
+      .select()
+      .from(vppParticipations)
+      .where(and(eq(vppParticipations.eventId, participation.eventId), eq(vppParticipations.siteId, participation.siteId)));
+    return toParticipation(existing);
+  }
+
+  // Accept an upcoming event for a site and add the site to the event, atomically
+  async acceptParticipation(eventId: number, siteId: number, enrollmentId: number, capacity: number): Promise<VPPParticipation | undefined> {
+    return await db.transaction(async (tx) => {
+      const [event] = await tx.select().from(vppEvents).where(eq(vppEvents.id, eventId)).for('update');
+      if (!event || event.status !== 'upcoming') return undefined;
+
+      const [row] = await tx
+        .insert(vppParticipations)
+        .values({ eventId, siteId, enrollmentId, status: 'accepted', acceptedCapacity: String(capacity) })
+        .onConflictDoUpdate({
+          target: [vppParticipations.eventId, vppParticipations.siteId],
+          set: { status: 'accepted', acceptedCapacity: String(capacity), updatedAt: new Date() },
+        })
+        .returning();
+
+      const sites = (event.participatingSites as number[]) || [];
+      if (!sites.includes(siteId)) {
+        await tx
+          .update(vppEvents)
+          .set({ participatingSites: [...sites, siteId], updatedAt: new Date() })
+          .where(eq(vppEvents.id, eventId));
+      }
+
+      return toParticipation(row);
+    });
+  }
+
+  // Reject an upcoming event for a site and remove the site from the event, atomically
+  async rejectParticipation(eventId: number, siteId: number, enrollmentId: number): Promise<VPPParticipation | undefined> {
+    return await db.transaction(async (tx) => {
+      const [event] = await tx.select().from(vppEvents).where(eq(vppEvents.id, eventId)).for('update');
+      if (!event || event.status !== 'upcoming') return undefined;
+
+      const [row] = await tx
+        .insert(vppParticipations)
+        .values({ eventId, siteId, enrollmentId, status: 'rejected', acceptedCapacity: '0' })
+        .onConflictDoUpdate({
+          target: [vppParticipations.eventId, vppParticipations.siteId],
+          set: { status: 'rejected', acceptedCapacity: '0', updatedAt: new Date() },
+        })
+        .returning();
+
+      const sites = (event.participatingSites as number[]) || [];
+      if (sites.includes(siteId)) {
+        await tx
+          .update(vppEvents)
+          .set({ participatingSites: sites.filter(s => s !== siteId), updatedAt: new Date() })
+          .where(eq(vppEvents.id, eventId));
+      }
+
+      return toParticipation(row);
+    });
+  }
+
+  async startParticipation(id: number, startTime: string): Promise<VPPParticipation | undefined> {
+    const [row] = await db
+      .update(vppParticipations)
+      .set({ status: 'participating', startTime: new Date(startTime), updatedAt: new Date() })
+      .where(and(eq(vppParticipations.id, id), eq(vppParticipations.status, 'accepted')))
+      .returning();
+    return row ? toParticipation(row) : undefined;
+  }
+
+  // Settle a participation once; a participation that is no longer running is left as it is
+  async completeParticipation(id: number, settlement: VPPSettlement): Promise<VPPParticipation | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(vppParticipations).where(eq(vppParticipations.id, id)).for('update');
+      if (!current || current.status !== 'participating') return undefined;
+
+      const [row] = await tx
+        .update(vppParticipations)
+        .set({
+          status: 'completed',
+          endTime: new Date(settlement.endTime),
+          actualResponse: String(settlement.actualResponse),
+          performance: String(settlement.performance),
+          compensation: String(settlement.compensation),
+          updatedAt: new Date()
+        })
+        .where(eq(vppParticipations.id, id))
+        .returning();
+      return toParticipation(row);
+    });
+  }
+
+  // Settle a participation that was completed without a settlement, such as by cancelling its event
+  async settleParticipation(id: number, settlement: Omit<VPPSettlement, 'endTime'>): Promise<VPPParticipation | undefined> {
+    const [row] = await db
+      .update(vppParticipations)
+      .set({
+        actualResponse: String(settlement.actualResponse),
+        performance: String(settlement.performance),
+        compensation: String(settlement.compensation),
+        updatedAt: new Date()
+      })
+      .where(and(eq(vppParticipations.id, id), eq(vppParticipations.status, 'completed'), isNull(vppParticipations.compensation)))
+      .returning();
+    return row ? toParticipation(row) : undefined;
+  }
+
+  // Response plans
+  async getResponsePlanByParticipation(participationId: number): Promise<VPPResponsePlan | undefined> {
+    const [row] = await db.select().from(vppResponsePlans).where(eq(vppResponsePlans.participationId, participationId));
+    return row ? toResponsePlan(row) : undefined;
+  }
+
+  async createResponsePlan(plan: InsertVPPResponsePlan): Promise<VPPResponsePlan> {
+    const [row] = await db
+      .insert(vppResponsePlans)
+      .values({
+        participationId: plan.participationId,
+        strategy: plan.strategy,
+        resourceAllocations: plan.resourceAllocations,
+        fallbackPlan: plan.fallbackPlan ?? null
+      })
+      .onConflictDoUpdate({
+        target: vppResponsePlans.participationId,
+        set: { strategy: plan.strategy, resourceAllocations: plan.resourceAllocations, fallbackPlan: plan.fallbackPlan ?? null, updatedAt: new Date() },
+      })
+      .returning();
+    return toResponsePlan(row);
+  }
+
+  // Metrics
+  async getMetricsByParticipation(participationId: number): Promise<VPPMetrics[]> {
+    const rows = await db.select().from(vppMetrics).where(eq(vppMetrics.participationId, participationId)).orderBy(vppMetrics.timestamp);
+    return rows.map(toMetrics);
+  }
+
+  async getLatestMetricsByParticipation(participationId: number): Promise<VPPMetrics | undefined> {
+    const [row] = await db
+      .select()
+      .from(vppMetrics)
+      .where(eq(vppMetrics.participationId, participationId))
+      .orderBy(desc(vppMetrics.timestamp))
+      .limit(1);
+    return row ? toMetrics(row) : undefined;
+  }
+
+  async addMetrics(metrics: InsertVPPMetrics): Promise<VPPMetrics> {
+    const [row] = await db
+      .insert(vppMetrics)
+      .values({
+        participationId: metrics.participationId,
+        timestamp: new Date(metrics.timestamp),
+        metrics: metrics.metrics,
+        resourceMetrics: metrics.resourceMetrics
+      })
+      .returning();
+    return toMetrics(row);
+  }
+}
+
+// Numeric columns come back as strings and timestamps as dates; the API uses numbers and ISO strings
+function toNumber(value: string | null): number | undefined {
+  return value != null ? Number(value) : undefined;
+}
+
+function toIso(value: Date | null): string | undefined {
+  return value ? value.toISOString() : undefined;
+}
+
+function toNumeric(value: number | null | undefined): string | null | undefined {
+  return value === undefined ? undefined : value === null ? null : String(value);
+}
+
+function toDate(value: string | null | undefined): Date | null | undefined {
+  return value === undefined ? undefined : value === null ? null : new Date(value);
+}
+
+// Drop undefined fields so partial updates only touch what was given
+function defined<T extends Record<string, unknown>>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function toProgram(row: VppProgramRow): VPPProgram {
+  return {
+    id: row.id,
+    name: row.name,
+    provider: row.provider,
+    type: row.type as VPPProgram['type'],
+    description: row.description,
+    minCapacity: Number(row.minCapacity),
+    maxCapacity: toNumber(row.maxCapacity),
+    compensationRate: Number(row.compensationRate),
+    compensationCurrency: row.compensationCurrency,
+    participationMode: row.participationMode as VPPProgram['participationMode'],
+    activeHours: row.activeHours as VPPProgram['activeHours'],
+    resourceTypes: row.resourceTypes as VPPProgram['resourceTypes'],
+    minResponseTime: row.minResponseTime,
+    maxEventDuration: row.maxEventDuration,
+    cooldownPeriod: Number(row.cooldownPeriod),
+    isActive: row.isActive,
+    requiresRegistration: row.requiresRegistration,
+    apiEndpoint: row.apiEndpoint ?? undefined,
+    apiCredentials: (row.apiCredentials as VPPProgram['apiCredentials']) ?? undefined,
+    customSettings: (row.customSettings as VPPProgram['customSettings']) ?? undefined,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString()
+  };
+}
+
+function fromProgram(program: Partial<InsertVPPProgram>) {
+  return defined({
+    ...program,
+    minCapacity: toNumeric(program.minCapacity),
+    maxCapacity: toNumeric(program.maxCapacity),
+    compensationRate: toNumeric(program.compensationRate),
+    cooldownPeriod: toNumeric(program.cooldownPeriod)
+  });
+}
+
+function toEnrollment(row: VppEnrollmentRow): VPPEnrollment {
+  return {
+    id: row.id,
+    programId: row.programId,
+    siteId: row.siteId,
+    status: row.status as VPPEnrollment['status'],
+    capacity: Number(row.capacity),
+    participationMode: row.participationMode as VPPEnrollment['participationMode'],
+    autoAcceptEvents: row.autoAcceptEvents,
+    resourceIds: (row.resourceIds as number[]) || [],
+    startDate: row.startDate.toISOString(),
+    endDate: toIso(row.endDate),
+    registrationNumber: row.registrationNumber ?? undefined,
+    customFields: (row.customFields as VPPEnrollment['customFields']) ?? undefined,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString()
+  };
+}
+
+function fromEnrollment(enrollment: Partial<InsertVPPEnrollment>) {
+  return defined({
+    ...enrollment,
+    capacity: toNumeric(enrollment.capacity),
+    startDate: toDate(enrollment.startDate),
+    endDate: toDate(enrollment.endDate)
+  });
+}
+
+function toEvent(row: VppEventRow): VPPEvent {
+  return {
+    id: row.id,
+    programId: row.programId,
+    externalEventId: row.externalEventId ?? undefined,
+    name: row.name,
+    description: row.description ?? undefined,
+    status: row.status as VPPEventStatus,
+    responseDirection: row.responseDirection as VPPEvent['responseDirection'],
+    startTime: row.startTime.toISOString(),
+    endTime: row.endTime.toISOString(),
+    capacity: Number(row.capacity),
+    compensationRate: toNumber(row.compensationRate),
+    notificationSent: row.notificationSent,
+    notificationTime: toIso(row.notificationTime),
+    acceptanceDeadline: toIso(row.acceptanceDeadline),
+    participatingSites: (row.participatingSites as number[]) || [],
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString()
+  };
+}
+
+function fromEvent(event: Partial<InsertVPPEvent>) {
+  return defined({
+    ...event,
+    startTime: toDate(event.startTime),
+    endTime: toDate(event.endTime),
+    capacity: toNumeric(event.capacity),
+    compensationRate: toNumeric(event.compensationRate),
+    notificationTime: toDate(event.notificationTime),
+    acceptanceDeadline: toDate(event.acceptanceDeadline)
+  });
+}
+
+function toParticipation(row: VppParticipationRow): VPPParticipation {
+  return {
+    id: row.id,
+    eventId: row.eventId,
+    siteId: row.siteId,
+    enrollmentId: row.enrollmentId,
+    status: row.status as VPPParticipation['status'],
+    acceptedCapacity: Number(row.acceptedCapacity),
+    actualResponse: toNumber(row.actualResponse),
+    startTime: toIso(row.startTime),
+    endTime: toIso(row.endTime),
+    performance: toNumber(row.performance),
+    compensation: toNumber(row.compensation),
+    notes: row.notes ?? undefined,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString()
+  };
+}
+
+function fromParticipation(participation: InsertVPPParticipation) {
+  // Response plans are stored in their own table
+  const { responsePlan, ...values } = participation;
+  return defined({
+    ...values,
+    acceptedCapacity: toNumeric(values.acceptedCapacity),
+    actualResponse: toNumeric(values.actualResponse),
+    startTime: toDate(values.startTime),
+    endTime: toDate(values.endTime),
+    performance: toNumeric(values.performance),
+    compensation: toNumeric(values.compensation)
+  });
+}
+
+function toResponsePlan(row: VppResponsePlanRow): VPPResponsePlan {
+  return {
+    id: row.id,
+    participationId: row.participationId,
+    strategy: row.strategy as VPPResponsePlan['strategy'],
+    resourceAllocations: (row.resourceAllocations as VPPResponsePlan['resourceAllocations']) || [],
+    fallbackPlan: (row.fallbackPlan as VPPResponsePlan['fallbackPlan']) ?? undefined,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString()
+  };
+}
+
+function toMetrics(row: VppMetricsRow): VPPMetrics {
+  return {
+    id: row.id,
+    participationId: row.participationId,
+    timestamp: row.timestamp.toISOString(),
+    metrics: row.metrics as VPPMetrics['metrics'],
+    resourceMetrics: (row.resourceMetrics as VPPMetrics['resourceMetrics']) || [],
+    createdAt: row.createdAt.toISOString()
+  };
+}
+
+export const vppStorage = new DatabaseVppStorage();
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, numeric, json, pgEnum, uuid, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, numeric, json, pgEnum, uuid, date, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -226,11 +226,32 @@ export const sites = pgTable('sites', {
   maxCapacity: numeric('max_capacity'),
   gridConnectionPoint: numeric('grid_connection_point'),
   timezone: text('timezone').default('UTC'),
+  latitude: numeric('latitude'), // Decimal degrees, north positive
+  longitude: numeric('longitude'), // Decimal degrees, east positive
+  elevation: numeric('elevation'), // Meters above sea level
   partnerId: integer('partner_id').references(() => partners.id),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// PV arrays (one per plane of modules with the same orientation)
+export const pvArrays = pgTable('pv_arrays', {
+  id: serial('id').primaryKey(),
+  siteId: integer('site_id').notNull().references(() => sites.id),
+  deviceId: integer('device_id').references(() => devices.id), // Inverter or PV device the array feeds
+  name: text('name').notNull(),
+  capacityKwp: numeric('capacity_kwp').notNull(), // DC nameplate capacity
+  tilt: numeric('tilt').notNull().default('30'), // Degrees from horizontal
+  azimuth: numeric('azimuth').notNull().default('180'), // Degrees clockwise from north (180 = south)
+  losses: numeric('losses').notNull().default('14'), // System losses (soiling, wiring, inverter...), %
+  temperatureCoefficient: numeric('temperature_coefficient').notNull().default('-0.4'), // Pmax %/°C
+  noct: numeric('noct').notNull().default('45'), // Nominal operating cell temperature, °C
+  albedo: numeric('albedo').notNull().default('0.2'), // Ground reflectance
+  isActive: boolean('is_active').default(true),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
 // Users
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -250,6 +271,7 @@ export const users = pgTable("users", {
   // Security enhancements
   twoFactorEnabled: boolean('two_factor_enabled').default(false),
   twoFactorSecret: text('two_factor_secret'),
+  twoFactorRecoveryCodes: json('two_factor_recovery_codes').$type<string[]>(), // SHA-256 hashes of unused codes
   lastLoginAt: timestamp('last_login_at'),
   lastLoginIp: text('last_login_ip'),
   accountLocked: boolean('account_locked').default(false),
@@ -525,6 +547,7 @@ export const devices = pgTable('devices', {
   gatewayId: integer('gateway_id').references(() => sites.id), // Changed temporarily to break circular reference
   devicePath: text('device_path'), // Path/address on the gateway (e.g. Modbus address, MQTT topic suffix)
   tariffId: integer('tariff_id').references(() => tariffs.id), // Device-specific tariff, overrides site tariff when present
+  deviceCatalogId: integer('device_catalog_id').references(() => deviceCatalog.id), // Catalog model, whose registers describe its telemetry
   
   // BMS Integration fields
   bmsProtocol: bmsProtocolEnum('bms_protocol'),
@@ -602,6 +625,17 @@ export const deviceReadings = pgTable('device_readings', {
   processingMetadata: json('processing_metadata'),
 });
 
+// Telemetry samples rejected by ingestion validation, kept for inspection
+export const telemetryQuarantine = pgTable('telemetry_quarantine', {
+  id: serial('id').primaryKey(),
+  deviceId: integer('device_id').notNull().references(() => devices.id, { onDelete: 'cascade' }),
+  timestamp: timestamp('timestamp').notNull(), // Time of the sample
+  receivedAt: timestamp('received_at').defaultNow().notNull(),
+  reasons: json('reasons').notNull(), // { field, check, value, limit, message }[]
+  rawSample: json('raw_sample').notNull(), // The sample as received
+  normalizedValues: json('normalized_values'), // Values after unit normalization
+});
+
 // Battery-specific detailed telemetry data
 export const batteryTelemetry = pgTable('battery_telemetry', {
   id: serial('id').primaryKey(),
@@ -782,8 +816,17 @@ export const alerts = pgTable('alerts', {
   severity: alertSeverityEnum('severity').default('info'),
   status: alertStatusEnum('status').default('new'),
   data: json('data'),
+  source: text('source'), // 'bms', 'device_status', 'gateway', 'maintenance', 'manual'
+  code: text('code'), // Machine-readable alarm code, e.g. 'cell_over_voltage'
+  dedupeKey: text('dedupe_key'), // Identifies repeat occurrences of the same open alarm
+  occurrenceCount: integer('occurrence_count').default(1),
+  lastOccurrenceAt: timestamp('last_occurrence_at'),
+  acknowledgedAt: timestamp('acknowledged_at'),
+  acknowledgedBy: integer('acknowledged_by').references(() => users.id),
   resolvedAt: timestamp('resolved_at'),
   resolvedBy: integer('resolved_by').references(() => users.id),
+  resolutionNotes: text('resolution_notes'),
+  autoCleared: boolean('auto_cleared').default(false), // Cleared by the source condition returning to normal
 });
 
 // Notifications table
@@ -1102,6 +1145,41 @@ export const demandResponseActions = pgTable('demand_response_actions', {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// OpenADR 2.0b Virtual End Nodes, one per demand response program whose
+// events come from a VTN
+export const openadrVens = pgTable('openadr_vens', {
+  id: serial('id').primaryKey(),
+  programId: integer('program_id').references(() => demandResponsePrograms.id).notNull(),
+  venName: text('ven_name').notNull(),
+  vtnUrl: text('vtn_url').notNull(), // Base URL of the VTN's simple HTTP services
+  vtnId: text('vtn_id'),
+  venId: text('ven_id'), // Assigned by the VTN on registration
+  registrationId: text('registration_id'),
+  pollInterval: integer('poll_interval').default(60), // seconds
+  reportRequests: json('report_requests').default([]), // Telemetry reports requested by the VTN
+  isActive: boolean('is_active').default(true),
+  registeredAt: timestamp('registered_at'),
+  lastPollAt: timestamp('last_poll_at'),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// OpenADR events received by a VEN and the site events created from them
+export const openadrEvents = pgTable('openadr_events', {
+  id: serial('id').primaryKey(),
+  venId: integer('ven_id').references(() => openadrVens.id).notNull(),
+  oadrEventId: text('oadr_event_id').notNull(),
+  modificationNumber: integer('modification_number').notNull().default(0),
+  siteId: integer('site_id').references(() => sites.id).notNull(),
+  eventId: integer('event_id').references(() => demandResponseEvents.id).notNull(),
+  oadrStatus: text('oadr_status'), // far, near, active, completed, cancelled
+  signals: json('signals'), // Event signals as received
+  optType: text('opt_type'), // optIn or optOut, as reported to the VTN
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
 // Remote Control Commands
 export const commandStatusEnum = pgEnum('command_status', [
   'pending', 
@@ -1123,7 +1201,12 @@ export const remoteCommands = pgTable('remote_commands', {
   statusMessage: text('status_message'),
   executedAt: timestamp('executed_at'),
   expiresAt: timestamp('expires_at'),
-  priority: integer('priority').default(5),
+  priority: integer('priority').default(5), // 1 is delivered first, 10 last
+  executionId: integer('execution_id').references(() => commandExecutions.id),
+  sentAt: timestamp('sent_at'),
+  deliveredAt: timestamp('delivered_at'),
+  attempts: integer('attempts').default(0),
+  result: json('result'),
 });
 
 // Weather data schemas
@@ -1422,7 +1505,12 @@ export const deviceCatalogRegisters = pgTable('device_catalog_registers', {
   address: text('address').notNull(),
   name: text('name').notNull(),
   description: text('description'),
-  dataType: text('data_type').notNull(), // 'integer', 'float', 'string', 'boolean'
+  dataType: text('data_type').notNull(), // 'int16', 'uint32', 'float32', 'string', 'bitfield', ... (or the generic 'integer', 'float', 'boolean')
+  registerType: text('register_type'), // Modbus table: 'holding' (default), 'input', 'coil', 'discrete'
+  registerCount: integer('register_count'), // Registers taken by strings, bitfields and raw buffers
+  byteOrder: text('byte_order'), // 'BE' (default) or 'LE' to swap the bytes of each register
+  wordOrder: text('word_order'), // 'BE' (default) or 'LE' to put the low word first
+  bitMap: json('bit_map'), // Flag name per bit number, for bitfields
   unit: text('unit'),
   scaleFactor: numeric('scale_factor'),
   offsetValue: numeric('offset_value'),
@@ -1580,6 +1668,18 @@ export const sitesRelations = relations(sites, ({ many }) => ({
   demandResponsePrograms: many(demandResponsePrograms),
   demandResponseEvents: many(demandResponseEvents),
   eventParticipations: many(siteEventParticipations),
+  pvArrays: many(pvArrays),
+}));
+
+export const pvArraysRelations = relations(pvArrays, ({ one }) => ({
+  site: one(sites, {
+    fields: [pvArrays.siteId],
+    references: [sites.id],
+  }),
+  device: one(devices, {
+    fields: [pvArrays.deviceId],
+    references: [devices.id],
+  }),
 }));
 
 export const usersRelations = relations(users, ({ one }) => ({
@@ -1651,6 +1751,10 @@ export const alertsRelations = relations(alerts, ({ one }) => ({
     fields: [alerts.userId],
     references: [users.id],
   }),
+  acknowledgedByUser: one(users, {
+    fields: [alerts.acknowledgedBy],
+    references: [users.id],
+  }),
   resolvedByUser: one(users, {
     fields: [alerts.resolvedBy],
     references: [users.id],
@@ -1773,6 +1877,29 @@ export const demandResponseActionsRelations = relations(demandResponseActions, (
   }),
 }));
 
+export const openadrVensRelations = relations(openadrVens, ({ one, many }) => ({
+  program: one(demandResponsePrograms, {
+    fields: [openadrVens.programId],
+    references: [demandResponsePrograms.id],
+  }),
+  events: many(openadrEvents),
+}));
+
+export const openadrEventsRelations = relations(openadrEvents, ({ one }) => ({
+  ven: one(openadrVens, {
+    fields: [openadrEvents.venId],
+    references: [openadrVens.id],
+  }),
+  site: one(sites, {
+    fields: [openadrEvents.siteId],
+    references: [sites.id],
+  }),
+  event: one(demandResponseEvents, {
+    fields: [openadrEvents.eventId],
+    references: [demandResponseEvents.id],
+  }),
+}));
+
 // Edge Computing Relations will be defined after table definitions
 
 // 5G Edge Computing Tables
@@ -1906,7 +2033,20 @@ export const edgeNodeMetrics = pgTable('edge_node_metrics', {
 // Insert Schemas
 export const insertSiteSchema = createInsertSchema(sites, {
   maxCapacity: z.string().or(z.number()).transform(val => val === null ? null : Number(val)),
-  gridConnectionPoint: z.string().or(z.number()).transform(val => val === null ? null : Number(val))
+  gridConnectionPoint: z.string().or(z.number()).transform(val => val === null ? null : Number(val)),
+  latitude: z.coerce.number().min(-90).max(90).nullable().optional(),
+  longitude: z.coerce.number().min(-180).max(180).nullable().optional(),
+  elevation: z.coerce.number().nullable().optional()
+}).omit({ id: true, createdAt: true, updatedAt: true });
+
+export const insertPvArraySchema = createInsertSchema(pvArrays, {
+  capacityKwp: z.coerce.number().positive(),
+  tilt: z.coerce.number().min(0).max(90).optional(),
+  azimuth: z.coerce.number().min(0).max(360).optional(),
+  losses: z.coerce.number().min(0).max(100).optional(),
+  temperatureCoefficient: z.coerce.number().min(-2).max(0).optional(),
+  noct: z.coerce.number().min(20).max(80).optional(),
+  albedo: z.coerce.number().min(0).max(1).optional()
 }).omit({ id: true, createdAt: true, updatedAt: true });
 
 export const insertUserSchema = createInsertSchema(users).omit({ 
@@ -1914,7 +2054,10 @@ export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true, 
   isEmailVerified: true, 
   verificationCode: true, 
-  verificationCodeExpiry: true 
+  verificationCodeExpiry: true,
+  twoFactorEnabled: true,
+  twoFactorSecret: true,
+  twoFactorRecoveryCodes: true
 });
 
 export const insertDeviceSchema = createInsertSchema(devices, {
@@ -1972,6 +2115,7 @@ export const insertGatewayDeviceSchema = createInsertSchema(gatewayDevices, {
 export const insertAlertSchema = createInsertSchema(alerts).omit({ 
   id: true, 
   timestamp: true,
+  acknowledgedAt: true,
   resolvedAt: true
 });
 
@@ -2005,7 +2149,10 @@ export const insertGridConnectionSchema = createInsertSchema(gridConnections, {
 export const insertRemoteCommandSchema = createInsertSchema(remoteCommands).omit({ 
   id: true, 
   timestamp: true,
-  executedAt: true
+  executedAt: true,
+  sentAt: true,
+  deliveredAt: true,
+  attempts: true
 });
 
 export const insertWeatherDataSchema = createInsertSchema(weatherData, {
@@ -2127,10 +2274,18 @@ export const insertDemandResponseActionSchema = createInsertSchema(demandRespons
   actualReduction: z.string().or(z.number()).optional().transform(val => val ? Number(val) : undefined),
 }).omit({ id: true, createdAt: true, updatedAt: true });
 
+export const insertOpenadrVenSchema = createInsertSchema(openadrVens, {
+  vtnUrl: z.string().url(),
+  pollInterval: z.coerce.number().int().min(5).max(3600).optional(),
+}).pick({ programId: true, venName: true, vtnUrl: true, pollInterval: true, isActive: true });
+
 // Export Types
 export type Site = typeof sites.$inferSelect;
 export type InsertSite = z.infer<typeof insertSiteSchema>;
 
+export type PvArray = typeof pvArrays.$inferSelect;
+export type InsertPvArray = z.infer<typeof insertPvArraySchema>;
+
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
@@ -2139,6 +2294,8 @@ export type InsertDevice = z.infer<typeof insertDeviceSchema>;
 
 export type DeviceReading = typeof deviceReadings.$inferSelect;
 export type InsertDeviceReading = z.infer<typeof insertDeviceReadingSchema>;
+export type TelemetryQuarantineEntry = typeof telemetryQuarantine.$inferSelect;
+export type InsertTelemetryQuarantineEntry = typeof telemetryQuarantine.$inferInsert;
 
 export type EnergyReading = typeof energyReadings.$inferSelect;
 export type InsertEnergyReading = z.infer<typeof insertEnergyReadingSchema>;
@@ -2429,6 +2586,193 @@ export const v2gDischargeEvents = pgTable('v2g_discharge_events', {
   metadata: json('metadata'),
 });
 
+// OCPP charge points connecting to the CSMS endpoint
+export const ocppChargePoints = pgTable('ocpp_charge_points', {
+  id: serial('id').primaryKey(),
+  deviceId: integer('device_id').notNull().references(() => devices.id).unique(),
+  chargePointId: text('charge_point_id').notNull().unique(), // Identity in the connection URL
+  securityProfile: integer('security_profile').notNull().default(2), // 1: Basic auth, 2: Basic auth over TLS, 3: TLS client certificate
+  authorizationKeyHash: text('authorization_key_hash'), // SHA-256 of the Basic auth password
+  allowUnknownIdTags: boolean('allow_unknown_id_tags').default(false),
+  ocppVersion: text('ocpp_version'), // Negotiated on the last connection: 1.6 or 2.0.1
+  vendor: text('vendor'),
+  model: text('model'),
+  serialNumber: text('serial_number'),
+  firmwareVersion: text('firmware_version'),
+  connectorStatus: json('connector_status').default({}), // Last StatusNotification per connector
+  isConnected: boolean('is_connected').default(false),
+  lastBootAt: timestamp('last_boot_at'),
+  lastHeartbeatAt: timestamp('last_heartbeat_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Identifiers (RFID cards, app tokens) that may start charging
+export const ocppIdTags = pgTable('ocpp_id_tags', {
+  id: serial('id').primaryKey(),
+  idTag: text('id_tag').notNull().unique(),
+  userId: integer('user_id').references(() => users.id),
+  vehicleId: integer('vehicle_id').references(() => evVehicles.id),
+  status: text('status').notNull().default('Accepted'), // Accepted, Blocked, Expired
+  expiresAt: timestamp('expires_at'),
+  description: text('description'),
+  chargingPriority: integer('charging_priority').notNull().default(0), // Higher charges first under priority load balancing
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Site-level load balancing of EV chargers connected to the CSMS
+export const evLoadBalancingSettings = pgTable('ev_load_balancing_settings', {
+  id: serial('id').primaryKey(),
+  siteId: integer('site_id').notNull().references(() => sites.id).unique(),
+  enabled: boolean('enabled').default(false),
+  mode: text('mode').notNull().default('fair_share'), // fair_share, priority, solar_only
+  maxSiteCurrent: numeric('max_site_current'), // A per phase; defaults to the grid connection capacity
+  safetyMargin: numeric('safety_margin').default('2'), // A per phase kept below the site limit
+  minChargingCurrent: numeric('min_charging_current').default('6'), // A; connectors below this are paused
+  maxChargingCurrent: numeric('max_charging_current').default('32'), // A per connector
+  fallbackCurrent: numeric('fallback_current').default('6'), // A per connector when the backend is unreachable
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Virtual power plant programs, with the API types in vppSchema
+export const vppPrograms = pgTable('vpp_programs', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  provider: text('provider').notNull(),
+  type: text('type').notNull(), // demand_response, frequency_regulation, capacity_market, energy_market
+  description: text('description').notNull().default(''),
+  minCapacity: numeric('min_capacity').notNull(), // kW
+  maxCapacity: numeric('max_capacity'), // kW
+  compensationRate: numeric('compensation_rate').notNull(), // Per kWh
+  compensationCurrency: text('compensation_currency').notNull().default('USD'),
+  participationMode: text('participation_mode').notNull().default('automatic'), // automatic, manual, opt_out
+  activeHours: json('active_hours').notNull(), // { start, end, daysOfWeek }
+  resourceTypes: json('resource_types').notNull().default([]),
+  minResponseTime: integer('min_response_time').notNull(), // seconds
+  maxEventDuration: integer('max_event_duration').notNull(), // minutes
+  cooldownPeriod: numeric('cooldown_period').notNull(), // hours
+  isActive: boolean('is_active').notNull().default(true),
+  requiresRegistration: boolean('requires_registration').notNull().default(false),
+  apiEndpoint: text('api_endpoint'),
+  apiCredentials: json('api_credentials'),
+  customSettings: json('custom_settings'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const vppEnrollments = pgTable('vpp_enrollments', {
+  id: serial('id').primaryKey(),
+  programId: integer('program_id').notNull().references(() => vppPrograms.id),
+  siteId: integer('site_id').notNull().references(() => sites.id),
+  status: text('status').notNull().default('pending'), // pending, approved, rejected, active, inactive
+  capacity: numeric('capacity').notNull(), // Committed kW
+  participationMode: text('participation_mode').notNull().default('automatic'),
+  autoAcceptEvents: boolean('auto_accept_events').notNull().default(false),
+  resourceIds: json('resource_ids').notNull().default([]), // Enrolled device IDs
+  startDate: timestamp('start_date').notNull(),
+  endDate: timestamp('end_date'),
+  registrationNumber: text('registration_number'),
+  customFields: json('custom_fields'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const vppEvents = pgTable('vpp_events', {
+  id: serial('id').primaryKey(),
+  programId: integer('program_id').notNull().references(() => vppPrograms.id),
+  externalEventId: text('external_event_id'),
+  name: text('name').notNull(),
+  description: text('description'),
+  status: text('status').notNull().default('upcoming'), // upcoming, active, completed, cancelled
+  responseDirection: text('response_direction').notNull(), // increase, decrease, maintain
+  startTime: timestamp('start_time').notNull(),
+  endTime: timestamp('end_time').notNull(),
+  capacity: numeric('capacity').notNull(), // Requested kW
+  compensationRate: numeric('compensation_rate'), // Overrides the program rate
+  notificationSent: boolean('notification_sent').notNull().default(false),
+  notificationTime: timestamp('notification_time'),
+  acceptanceDeadline: timestamp('acceptance_deadline'),
+  participatingSites: json('participating_sites').notNull().default([]),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// One participation per site and event, kept for settlement
+export const vppParticipations = pgTable('vpp_participations', {
+  id: serial('id').primaryKey(),
+  eventId: integer('event_id').notNull().references(() => vppEvents.id),
+  siteId: integer('site_id').notNull().references(() => sites.id),
+  enrollmentId: integer('enrollment_id').notNull().references(() => vppEnrollments.id),
+  status: text('status').notNull().default('pending'), // pending, accepted, rejected, participating, completed, failed
+  acceptedCapacity: numeric('accepted_capacity').notNull().default('0'), // kW
+  actualResponse: numeric('actual_response'), // kW
+  startTime: timestamp('start_time'),
+  endTime: timestamp('end_time'),
+  performance: numeric('performance'), // 0-100%
+  compensation: numeric('compensation'),
+  notes: text('notes'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  eventSite: unique('vpp_participations_event_site_unique').on(table.eventId, table.siteId),
+}));
+
+export const vppResponsePlans = pgTable('vpp_response_plans', {
+  id: serial('id').primaryKey(),
+  participationId: integer('participation_id').notNull().references(() => vppParticipations.id).unique(),
+  strategy: text('strategy').notNull().default('balanced'), // balanced, priority_based, cost_optimized, custom
+  resourceAllocations: json('resource_allocations').notNull().default([]),
+  fallbackPlan: json('fallback_plan'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const vppMetrics = pgTable('vpp_metrics', {
+  id: serial('id').primaryKey(),
+  participationId: integer('participation_id').notNull().references(() => vppParticipations.id),
+  timestamp: timestamp('timestamp').notNull(),
+  metrics: json('metrics').notNull(),
+  resourceMetrics: json('resource_metrics').notNull().default([]),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Model predictive control of a site's batteries, re-planned every interval
+export const mpcControllers = pgTable('mpc_controllers', {
+  id: serial('id').primaryKey(),
+  siteId: integer('site_id').notNull().references(() => sites.id).unique(),
+  enabled: boolean('enabled').default(false),
+  intervalMinutes: integer('interval_minutes').notNull().default(15), // Re-planning period
+  horizonHours: integer('horizon_hours').notNull().default(24),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// One MPC interval: the plan for it, the setpoints sent and what the site did.
+// Battery power is positive when discharging, grid power when importing (kW).
+export const mpcSteps = pgTable('mpc_steps', {
+  id: serial('id').primaryKey(),
+  siteId: integer('site_id').notNull().references(() => sites.id),
+  startTime: timestamp('start_time').notNull(),
+  endTime: timestamp('end_time').notNull(),
+  solverStatus: text('solver_status').notNull(),
+  expectedSavings: numeric('expected_savings'), // Over the whole horizon
+  plannedBatteryPower: numeric('planned_battery_power'),
+  plannedGridPower: numeric('planned_grid_power'),
+  plannedLoad: numeric('planned_load'),
+  plannedPv: numeric('planned_pv'),
+  plannedSoc: numeric('planned_soc'), // % at the end of the interval, over all batteries
+  executedBatteryPower: numeric('executed_battery_power'), // Setpoints the batteries accepted
+  actualBatteryPower: numeric('actual_battery_power'), // Measured averages, once the interval is over
+  actualGridPower: numeric('actual_grid_power'),
+  actualLoad: numeric('actual_load'),
+  actualPv: numeric('actual_pv'),
+  actualSoc: numeric('actual_soc'),
+  setpoints: json('setpoints').notNull().default([]), // { deviceId, action, powerKw, status }[]
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 export type GridConnection = typeof gridConnections.$inferSelect;
 export type InsertGridConnection = z.infer<typeof insertGridConnectionSchema>;
 
@@ -2454,6 +2798,11 @@ export type InsertSiteEventParticipation = z.infer<typeof insertSiteEventPartici
 export type DemandResponseAction = typeof demandResponseActions.$inferSelect;
 export type InsertDemandResponseAction = z.infer<typeof insertDemandResponseActionSchema>;
 
+export type OpenadrVen = typeof openadrVens.$inferSelect;
+export type InsertOpenadrVen = z.infer<typeof insertOpenadrVenSchema>;
+
+export type OpenadrEvent = typeof openadrEvents.$inferSelect;
+
 // V2G/V2H types
 export type EVVehicle = typeof evVehicles.$inferSelect;
 export const insertEVVehicleSchema = createInsertSchema(evVehicles).omit({ id: true });
@@ -2475,6 +2824,56 @@ export type V2GDischargeEvent = typeof v2gDischargeEvents.$inferSelect;
 export const insertV2GDischargeEventSchema = createInsertSchema(v2gDischargeEvents).omit({ id: true });
 export type InsertV2GDischargeEvent = z.infer<typeof insertV2GDischargeEventSchema>;
 
+// OCPP types
+export type OcppChargePoint = typeof ocppChargePoints.$inferSelect;
+export const insertOcppChargePointSchema = createInsertSchema(ocppChargePoints, {
+  chargePointId: z.string().min(1).max(48).regex(/^[^/?#\s]+$/, 'Charge point ID cannot contain path separators or whitespace'),
+  securityProfile: z.number().int().min(1).max(3),
+}).pick({ chargePointId: true, securityProfile: true, allowUnknownIdTags: true }).extend({
+  authorizationKey: z.string().min(16).max(40).optional(), // Stored hashed
+});
+export type InsertOcppChargePoint = z.infer<typeof insertOcppChargePointSchema>;
+
+export type OcppIdTag = typeof ocppIdTags.$inferSelect;
+export const insertOcppIdTagSchema = createInsertSchema(ocppIdTags, {
+  idTag: z.string().min(1).max(36),
+  status: z.enum(['Accepted', 'Blocked', 'Expired']).optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  chargingPriority: z.number().int().min(0).max(100).optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertOcppIdTag = z.infer<typeof insertOcppIdTagSchema>;
+
+// EV load balancing types
+const currentSchema = z.coerce.number().min(0).max(1000).transform(String);
+export type EvLoadBalancingSetting = typeof evLoadBalancingSettings.$inferSelect;
+export const insertEvLoadBalancingSettingsSchema = createInsertSchema(evLoadBalancingSettings, {
+  mode: z.enum(['fair_share', 'priority', 'solar_only']),
+  maxSiteCurrent: currentSchema.nullable().optional(),
+  safetyMargin: currentSchema.optional(),
+  minChargingCurrent: z.coerce.number().min(6).max(80).transform(String).optional(),
+  maxChargingCurrent: z.coerce.number().min(6).max(500).transform(String).optional(),
+  fallbackCurrent: currentSchema.optional(),
+}).omit({ id: true, siteId: true, createdAt: true, updatedAt: true });
+export type InsertEvLoadBalancingSetting = z.infer<typeof insertEvLoadBalancingSettingsSchema>;
+
+// VPP row types; the API shapes are in vppSchema
+export type VppProgramRow = typeof vppPrograms.$inferSelect;
+export type VppEnrollmentRow = typeof vppEnrollments.$inferSelect;
+export type VppEventRow = typeof vppEvents.$inferSelect;
+export type VppParticipationRow = typeof vppParticipations.$inferSelect;
+export type VppResponsePlanRow = typeof vppResponsePlans.$inferSelect;
+export type VppMetricsRow = typeof vppMetrics.$inferSelect;
+
+// MPC types
+export type MpcController = typeof mpcControllers.$inferSelect;
+export const insertMpcControllerSchema = createInsertSchema(mpcControllers, {
+  intervalMinutes: z.number().int().min(5).max(60),
+  horizonHours: z.number().int().min(1).max(48),
+}).omit({ id: true, siteId: true, createdAt: true, updatedAt: true });
+export type InsertMpcController = z.infer<typeof insertMpcControllerSchema>;
+export type MpcStep = typeof mpcSteps.$inferSelect;
+export type InsertMpcStep = typeof mpcSteps.$inferInsert;
+
 // Predictive Maintenance Tables
 export const deviceMaintenanceIssues = pgTable('device_maintenance_issues', {
   id: serial('id').primaryKey(),
@@ -2922,6 +3321,60 @@ export const insertDeviceConnectionSettingsSchema = createInsertSchema(deviceCon
 export type DeviceConnectionSetting = typeof deviceConnectionSettings.$inferSelect;
 export type InsertDeviceConnectionSetting = z.infer<typeof insertDeviceConnectionSettingsSchema>;
 
+// Multi-tiered storage types
+export const insertStoragePolicyRuleSchema = createInsertSchema(storagePolicyRules).omit({ 
+  id: true, 
+  createdAt: true, 
+  updatedAt: true,
+  lastExecutedAt: true
+});
+export type StoragePolicyRule = typeof storagePolicyRules.$inferSelect;
+export type InsertStoragePolicyRule = z.infer<typeof insertStoragePolicyRuleSchema>;
+
+export type DataTransferJob = typeof dataTransferJobs.$inferSelect;
+export type StorageTierMetric = typeof storageTierMetrics.$inferSelect;
+
+// Security types
+export const insertApiKeySchema = createInsertSchema(apiKeys).omit({ 
+  id: true, 
+  key: true,
+  secret: true,
+  createdAt: true, 
+  updatedAt: true,
+  lastUsedAt: true,
+  lastRotatedAt: true,
+  previousKeys: true
+});
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+
+export const insertCommandAuthorizationSchema = createInsertSchema(commandAuthorizations).omit({ 
+  id: true, 
+  createdAt: true, 
+  updatedAt: true 
+});
+export type CommandAuthorization = typeof commandAuthorizations.$inferSelect;
+export type InsertCommandAuthorization = z.infer<typeof insertCommandAuthorizationSchema>;
+export type CommandExecution = typeof commandExecutions.$inferSelect;
+
+export const insertRateLimitSchema = createInsertSchema(rateLimits).omit({ 
+  id: true, 
+  createdAt: true, 
+  updatedAt: true 
+});
+export type RateLimit = typeof rateLimits.$inferSelect;
+export type InsertRateLimit = z.infer<typeof insertRateLimitSchema>;
+export type RateLimitEvent = typeof rateLimitEvents.$inferSelect;
+
+export const insertSecurityAuditLogSchema = createInsertSchema(securityAuditLog).omit({
+  id: true,
+  timestamp: true,
+  reviewedBy: true,
+  reviewedAt: true
+});
+export type SecurityAuditLogEntry = typeof securityAuditLog.$inferSelect;
+export type InsertSecurityAuditLogEntry = z.infer<typeof insertSecurityAuditLogSchema>;
+
 // Define relations for connection templates and settings
 export const deviceConnectionTemplatesRelations = relations(deviceConnectionTemplates, ({ one, many }) => ({
   manufacturer: one(deviceManufacturers, {
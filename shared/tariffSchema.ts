@@ -0,0 +1,98 @@
+import { z } from 'zod';
+
+/**
+ * Declarative tariff definitions
+ *
+ * Stored in `tariffs.scheduleData` and evaluated by the server tariff engine
+ * in the site's local time. All times and dates are site-local.
+ */
+
+// Day categories a time-of-use period can apply to
+export const TariffDayTypeEnum = z.enum(['weekday', 'weekend', 'holiday']);
+export type TariffDayType = z.infer<typeof TariffDayTypeEnum>;
+
+// Period categories used by optimizers to decide when to charge or shift load
+export const TariffPeriodTypeEnum = z.enum(['peak', 'shoulder', 'standard', 'off_peak', 'super_off_peak']);
+export type TariffPeriodType = z.infer<typeof TariffPeriodTypeEnum>;
+
+// HH:MM, with 24:00 allowed as an end of day
+const TimeOfDaySchema = z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, 'Expected HH:MM');
+
+// A rate that applies between two times of day. An end time earlier than the
+// start time wraps past midnight (e.g. 23:00-07:00).
+export const TariffPeriodSchema = z.object({
+  name: z.string().min(1),
+  type: TariffPeriodTypeEnum,
+  startTime: TimeOfDaySchema,
+  endTime: TimeOfDaySchema,
+  dayTypes: z.array(TariffDayTypeEnum).min(1),
+  importRate: z.number().nonnegative(),
+  exportRate: z.number().nonnegative().optional() // Falls back to the tariff export rate
+});
+export type TariffPeriod = z.infer<typeof TariffPeriodSchema>;
+
+// A range of the calendar year (inclusive). An end earlier than the start
+// wraps over the new year (e.g. December-February).
+export const TariffSeasonSchema = z.object({
+  name: z.string().min(1),
+  startMonth: z.number().int().min(1).max(12),
+  startDay: z.number().int().min(1).max(31).default(1),
+  endMonth: z.number().int().min(1).max(12),
+  endDay: z.number().int().min(1).max(31).default(31),
+  periods: z.array(TariffPeriodSchema).default([])
+});
+export type TariffSeason = z.infer<typeof TariffSeasonSchema>;
+export type TariffSeasonInput = z.input<typeof TariffSeasonSchema>;
+
+// Tiered block rate; blocks are ordered and the last one may be unbounded
+export const TariffBlockSchema = z.object({
+  upToKwh: z.number().positive().nullable(),
+  importRate: z.number().nonnegative()
+});
+export type TariffBlock = z.infer<typeof TariffBlockSchema>;
+
+// Charge per kW on the highest demand measured while the charge applies
+export const TariffDemandChargeSchema = z.object({
+  name: z.string().min(1),
+  ratePerKw: z.number().nonnegative(),
+  seasons: z.array(z.string()).optional(), // Season names; all seasons when omitted
+  periodTypes: z.array(TariffPeriodTypeEnum).optional() // All hours when omitted
+});
+export type TariffDemandCharge = z.infer<typeof TariffDemandChargeSchema>;
+
+// Public holiday calendars generated for every year, for holidays that move
+// with a non-Gregorian calendar
+export const TariffHolidayCalendarEnum = z.enum(['IL']);
+export type TariffHolidayCalendar = z.infer<typeof TariffHolidayCalendarEnum>;
+
+export const TariffDefinitionSchema = z.object({
+  version: z.literal(1),
+  region: z.string().length(2).optional(), // ISO 3166 country code of the tariff's market
+  weekendDays: z.array(z.number().int().min(0).max(6)).default([0, 6]), // 0 = Sunday
+  holidays: z.array(z.string().regex(/^(\d{4}-)?\d{2}-\d{2}$/, 'Expected YYYY-MM-DD or recurring MM-DD')).default([]),
+  holidayCalendar: TariffHolidayCalendarEnum.optional(), // Billed as holidays in addition to the listed dates
+  seasons: z.array(TariffSeasonSchema).default([]),
+  // Used as the energy rate outside any time-of-use period
+  blocks: z.array(TariffBlockSchema).default([]),
+  blockPeriod: z.enum(['daily', 'monthly']).default('monthly'),
+  fixedDailyCharge: z.number().nonnegative().default(0),
+  demandCharges: z.array(TariffDemandChargeSchema).default([]),
+  vatRate: z.number().min(0).max(1).default(0) // Fraction added to the net bill, e.g. 0.18
+});
+export type TariffDefinition = z.infer<typeof TariffDefinitionSchema>;
+export type TariffDefinitionInput = z.input<typeof TariffDefinitionSchema>;
+
+// Rate in effect at an instant, as resolved by the tariff engine
+export interface ResolvedTariffRate {
+  time: string; // ISO timestamp
+  localTime: string; // HH:MM in the site timezone
+  timezone: string;
+  importRate: number;
+  exportRate: number;
+  currency: string;
+  season: string | null;
+  dayType: TariffDayType;
+  periodName: string;
+  periodType: TariffPeriodType;
+  period: string; // Display label, e.g. "Peak (17:00-22:00)"
+}